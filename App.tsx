@@ -3,9 +3,13 @@ import { supabase, isSupabaseConfigured } from './lib/supabaseClient';
 import { Auth } from './components/Auth';
 import { PasswordReset } from './components/PasswordReset';
 import { PasswordForgotRequest } from './components/PasswordForgotRequest';
-import { fetchUserData, fetchUserStats, saveSessionData, modifySession, updateWordStatus, getImageUrl, updateWordStatusV2, deleteSessions, deleteWordsByIds, fetchUserAchievements, saveUserAchievement, DeleteProgress, recordPuzzleGameRound, recordTestAndSyncStats, VersionConflictError, updateWordMetadata, syncGameResultsToWordStats } from './services/dataService';
+import { fetchUserData, fetchUserStats, saveSessionData, modifySession, updateWordStatus, getImageUrl, updateWordStatusV2, deleteSessions, deleteWordsByIds, fetchUserAchievements, saveUserAchievement, DeleteProgress, recordTestAndSyncStats, VersionConflictError, updateWordMetadata, syncGameResultsToWordStats, updateWordStudyState } from './services/dataService';
 import { resolveStatsUpdate, compareVersions, mergeStats } from './utils/versionMerge';
-import { processPendingSyncs, getPendingSyncCount, enqueuePendingSync } from './services/offlineSyncQueue';
+import { processOutbox, submitMutation, enqueueMutation, getOutboxSummary, subscribeToOutbox, isBrowserOffline, OutboxProcessResult } from './services/offlineSyncQueue';
+import { classifyOutboxError } from './utils/mutationOutbox';
+import { pickWordMergeState } from './utils/wordMerge';
+import { warmOfflineCache } from './services/offlineCache';
+import { unsubscribeFromPush } from './services/pushNotifications';
 import {
   loadLocalBackup,
   saveLocalBackup,
@@ -16,18 +20,35 @@ import {
   syncAllPendingSessions,
   SessionWithSync,
   SyncStatus,
-  SyncResult
+  SyncResult,
+  saveLibrarySnapshot,
+  loadLibrarySnapshot
 } from './services/syncService';
-import { AppMode, ClassicTestConfig, CompletedTestSummary, DayStats, InputSession, PuzzleGameSummary, SceneGameConfig, SceneGameSummary, WordEntry, WordMeaningOption } from './types';
+import { AppMode, ChoiceQuizConfig, ChoiceQuizSummary, ClassicTestConfig, CollocationSuggestion, CompletedTestSummary, DailyChallengeConfig, DayStats, FamilyDrillConfig, FamilyDrillSummary, InputSession, PhraseClozeSummary, PhrasePracticeConfig, PuzzleDuelConfig, PuzzleGameSummary, RecallGameConfig, RecallGameSummary, SceneGameConfig, SceneGameSummary, SprintGameConfig, SprintGameSummary, WordEntry, WordFamily, WordMeaningOption } from './types';
 import { LargeWordInput } from './components/LargeWordInput';
 import { CalendarView } from './components/CalendarView';
 import { Confetti } from './components/Confetti';
 import { MeaningFlipCard } from './components/MeaningFlipCard';
+import { WordDetailModal } from './components/WordDetailModal';
 import TestModeV2 from './components/TestModeV2';
 import PuzzleGameMode from './components/PuzzleGameMode';
+import PuzzleDuelMode from './components/PuzzleDuelMode';
+import DailyChallengeMode from './components/DailyChallengeMode';
 import SceneGameMode from './components/SceneGameMode';
-import { recordSceneGameRound } from './services/sceneGame';
+import RecallGameMode from './components/RecallGameMode';
+import ChoiceQuizMode from './components/ChoiceQuizMode';
+import SprintGameMode from './components/SprintGameMode';
+import FamilyDrillMode from './components/FamilyDrillMode';
+import PhrasePracticeMode from './components/PhrasePracticeMode';
+import { getRecallCandidateWords } from './services/recallGame';
+import { getSprintCandidateWords } from './services/audioSprint';
+import { loadWordFamilies } from './services/wordFamily';
+import { savePhraseEntries } from './services/collocations';
+import { indexWordFamilies } from './utils/wordFamily';
 import { LeaderboardPanel } from './components/LeaderboardPanel';
+import { AssignmentsPanel } from './components/AssignmentsPanel';
+import { prepareAssignmentWordIds } from './services/classroomService';
+import type { ClassAssignment } from './utils/classProgress';
 import { aiService } from './services/ai';
 import { compressToWebP } from './utils/imageUtils';
 import { getImageGenerationQueueSnapshot, requestQueuedWordImage } from './services/imageGenerationQueue';
@@ -44,7 +65,7 @@ import { CoinRewardPopup } from './components/Coin/CoinRewardPopup';
 import {
   claimDailyLoginReward,
   awardQuizCoins,
-  awardPuzzleCoins,
+  awardChoiceQuizCoins,
   awardAchievementCoins,
   awardAllAchievementsBonus,
   getCoinBalance,
@@ -58,7 +79,10 @@ import { AdminConsole } from './components/AdminConsole';
 import { PronunciationMaintenancePanel } from './components/PronunciationMaintenancePanel';
 import { HoverTranslationText } from './components/HoverTranslationText';
 import { WatchaCallback } from './components/WatchaCallback';
-import { getShanghaiDateString } from './utils/timezone';
+import { getShanghaiDateString, getShanghaiEndOfDayTimestamp } from './utils/timezone';
+import { getDueWords } from './utils/sm2Algorithm';
+import { filterStudyableWords, getWordStudyState } from './utils/wordState';
+import { WordScheduleUpdate } from './services/reviewScheduler';
 import { WORD_LEARNING_CONFIG } from './config/wordLearningConfig';
 import { LanguageProvider } from './contexts/LanguageContext';
 import { useT } from './hooks/useT';
@@ -119,7 +143,7 @@ const Tooltip: React.FC<TooltipProps> = ({ content, children, className = '' })
                                     );
                                 };
 
-type TestConfig = ClassicTestConfig | { kind: 'PUZZLE' } | SceneGameConfig;
+type TestConfig = ClassicTestConfig | { kind: 'PUZZLE' } | SceneGameConfig | RecallGameConfig | ChoiceQuizConfig | SprintGameConfig | FamilyDrillConfig | PhrasePracticeConfig | PuzzleDuelConfig | DailyChallengeConfig;
 
 type EditableWord = {
   tempId: string;
@@ -172,6 +196,9 @@ type ImageGenDebugEntry = {
 };
 
 const IMAGE_GEN_DEBUG_STORAGE_KEY = 'vibe_word_image_gen_debug_logs_v1';
+const OFFLINE_ROUND_SAVED_MESSAGE = '📴 成绩已保存，联网后自动上传';
+// Puzzle / scene rounds rank only with a verify-round ticket from the start of the round
+const UNVERIFIED_ROUND_MESSAGE = '⚠️ 本局开始时未能连接校验服务（可能处于离线状态），成绩不计入排行榜。';
 
 const normalizeDefinitionBackfillKey = (text: string, language: string = 'en') => {
   return `${language.toLowerCase()}:${text.trim().toLowerCase().replace(/\s+/g, ' ')}`;
@@ -256,6 +283,7 @@ const App: React.FC = () => {
   // 同步状态
   const [syncingSessionId, setSyncingSessionId] = useState<string | null>(null);
   const [pendingSyncCount, setPendingSyncCount] = useState<number>(0);  // ✅ NEW (Phase C): Pending sync queue count
+  const [isOffline, setIsOffline] = useState<boolean>(() => isBrowserOffline());
   const [conflictModal, setConflictModal] = useState<{
     sessionId: string;
     cloud: InputSession;
@@ -422,7 +450,7 @@ const App: React.FC = () => {
   const [coinBalance, setCoinBalance] = useState(-1);
   const [dailyLoginReward, setDailyLoginReward] = useState<DailyLoginReward | null>(null);
   const [showInsufficientCoins, setShowInsufficientCoins] = useState(false);
-  const [pendingCoinReward, setPendingCoinReward] = useState<{ amount: number; source: 'quiz' | 'puzzle' | 'achievement_bonus'; navigateAfter?: boolean } | null>(null);
+  const [pendingCoinReward, setPendingCoinReward] = useState<{ amount: number; source: 'quiz' | 'puzzle' | 'choice' | 'achievement_bonus'; navigateAfter?: boolean } | null>(null);
 
   const refreshCoinBalance = useCallback(async () => {
     const bal = await getCoinBalance();
@@ -432,6 +460,12 @@ const App: React.FC = () => {
   // Filtered Data for View (Soft Delete Logic)
   const visibleSessions = useMemo(() => sessions.filter(s => !s.deleted), [sessions]);
   const visibleWords = useMemo(() => words.filter(w => !w.deleted), [words]);
+  const dueTodayCount = useMemo(
+    () => getDueWords(filterStudyableWords<WordEntry>(visibleWords), getShanghaiEndOfDayTimestamp()).length,
+    [visibleWords]
+  );
+  const recallCandidateCount = useMemo(() => getRecallCandidateWords(visibleWords).length, [visibleWords]);
+  const sprintCandidateCount = useMemo(() => getSprintCandidateWords(visibleWords).length, [visibleWords]);
 
   // Auth Listener
   useEffect(() => {
@@ -500,6 +534,10 @@ const App: React.FC = () => {
           setSessions(sessions);
           setWords(words);
 
+          // Keep a copy for starting without signal, and let the service worker fetch the media
+          void saveLibrarySnapshot(session.user.id, { sessions, words });
+          void warmOfflineCache(words);
+
           // Initialize Achievements (DB Load)
           setUnlockedAchievements(new Set(achievementIds));
 
@@ -541,8 +579,20 @@ const App: React.FC = () => {
 
           setDailyStats(mergedStats);
         })
-        .catch((err) => {
+        .catch(async (err) => {
             console.error("Data load error:", err);
+            // No signal: fall back to the last library snapshot so CLASSIC tests still run
+            const snapshot = await loadLibrarySnapshot(session.user.id);
+            if (snapshot) {
+                setSessions(snapshot.sessions);
+                setWords(snapshot.words);
+                setIsOffline(true);
+                showNotification(
+                    `📴 离线模式：已加载 ${new Date(snapshot.savedAt).toLocaleString()} 的本地词库`,
+                    'warning'
+                );
+                return;
+            }
             setDataError("Failed to fetch data from the cloud. Please check your connection.");
         })
         .finally(() => setLoadingData(false));
@@ -553,144 +603,78 @@ const App: React.FC = () => {
       refreshData();
   }, [refreshData]);
 
-  // ✅ NEW (Phase C): Process offline sync queue on login
-  useEffect(() => {
-    const processQueue = async () => {
-      if (session?.user) {
-        const count = getPendingSyncCount();
-        if (count > 0) {
-          console.log(`[App] Found ${count} pending syncs, processing...`);
-
-          try {
-            const result = await processPendingSyncs();
-
-            if (result.success > 0) {
-              // ✅ Refresh stats after successful sync with version-aware merging
-              const stats = await fetchUserStats(session.user.id);
-              const serverStatsMap: Record<string, DayStats> = {};
-              const shanghaiToday = getShanghaiDateString();
-              stats.forEach((s: any) => {
-                  serverStatsMap[s.date] = {
-                      date: s.date,
-                      total: s.total_count || s.total,
-                      correct: s.correct_count || s.correct,
-                      points: s.total_points ?? s.points ?? 0,
-                      is_frozen: s.is_frozen || s.date < shanghaiToday,
-                      version: s.version,
-                      updated_at: s.updated_at
-                  };
-              });
-
-              const mergedStats = resolveStatsUpdate(dailyStats, Object.values(serverStatsMap));
-              setDailyStats(mergedStats);
-
-              showNotification(
-                  `✅ 离线队列同步完成：${result.success} 条测试记录`,
-                  'success'
-              );
-            }
-
-            if (result.failed > 0) {
-              showNotification(
-                  `⚠️ ${result.failed} 条测试记录同步失败（超过重试次数）`,
-                  'error'
-              );
-            }
-
-            // Update pending count
-            setPendingSyncCount(getPendingSyncCount());
-          } catch (error) {
-            console.error('[App] Failed to process pending syncs:', error);
-          }
-        }
+  // ✅ Pull daily stats after queued test totals landed, with version-aware merging
+  const mergeServerStats = useCallback(async (userId: string) => {
+    const stats = await fetchUserStats(userId);
+    const serverStatsMap: Record<string, DayStats> = {};
+    const shanghaiToday = getShanghaiDateString();
+    stats.forEach((s: any) => {
+        serverStatsMap[s.date] = {
+            date: s.date,
+            total: s.total_count || s.total,
+            correct: s.correct_count || s.correct,
+            points: s.total_points ?? s.points ?? 0,
+            is_frozen: s.is_frozen || s.date < shanghaiToday,
+            version: s.version,
+            updated_at: s.updated_at
+        };
+    });
+    setDailyStats(prev => resolveStatsUpdate(prev, Object.values(serverStatsMap)));
+  }, []);
 
-        // Initial count update
-        setPendingSyncCount(getPendingSyncCount());
+  // Replay the mutation outbox; returns the pass result for callers that report it
+  const replayOutbox = useCallback(async (): Promise<OutboxProcessResult | null> => {
+    if (!session?.user) return null;
+    try {
+      const result = await processOutbox();
+      if (result.appliedTypes.includes('test_stats')) {
+        await mergeServerStats(session.user.id);
       }
-    };
+      if (result.dead > 0) {
+        showNotification(`⚠️ ${result.dead} 条离线记录无法同步，可在账户 → 同步中重试`, 'error');
+      }
+      return result;
+    } catch (error) {
+      console.error('[App] Failed to process outbox:', error);
+      return null;
+    }
+  }, [session?.user?.id, mergeServerStats]);
 
-    processQueue();
+  // ✅ Process the mutation outbox on login
+  useEffect(() => {
+    if (!session?.user) return;
+    void replayOutbox().then(result => {
+      if (result && result.applied > 0) {
+        showNotification(`✅ 离线队列同步完成：${result.applied} 条记录`, 'success');
+      }
+    });
   }, [session?.user?.id]);  // Trigger on login
 
-  // ✅ NEW (Phase C): Update pending sync count periodically
+  // Pending / dead-lettered count for the sync badge, kept live by the outbox
   useEffect(() => {
+    if (!session?.user) {
+      setPendingSyncCount(0);
+      return;
+    }
     const updateCount = () => {
-      setPendingSyncCount(getPendingSyncCount());
+      void getOutboxSummary().then(({ pending, dead }) => setPendingSyncCount(pending + dead));
     };
-
-    // Update every 5 seconds
-    const interval = setInterval(updateCount, 5000);
-
-    return () => clearInterval(interval);
-  }, [session?.user?.id]);
-
-  // ✅ NEW (Phase C): Periodic queue processing (every 60 seconds)
-  useEffect(() => {
-    if (!session?.user) return;
-
-    const interval = setInterval(async () => {
-      const count = getPendingSyncCount();
-      if (count > 0) {
-        console.log('[App] Periodic queue processing...');
-        await processPendingSyncs();
-        // ✅ Refresh stats with version-aware merging
-        const stats = await fetchUserStats(session.user.id);
-        const serverStatsMap: Record<string, DayStats> = {};
-        const shanghaiToday = getShanghaiDateString();
-        stats.forEach((s: any) => {
-            serverStatsMap[s.date] = {
-                date: s.date,
-                total: s.total_count || s.total,
-                correct: s.correct_count || s.correct,
-                points: s.total_points ?? s.points ?? 0,
-                is_frozen: s.is_frozen || s.date < shanghaiToday,
-                version: s.version,
-                updated_at: s.updated_at
-            };
-        });
-
-        const mergedStats = resolveStatsUpdate(dailyStats, Object.values(serverStatsMap));
-        setDailyStats(mergedStats);
-      }
-    }, 60000);  // 60 seconds
-
-    return () => clearInterval(interval);
+    updateCount();
+    return subscribeToOutbox(updateCount);
   }, [session?.user?.id]);
 
-  // ✅ NEW (Phase C): Periodic queue processing (every 60 seconds)
+  // Periodic outbox replay (every 60 seconds) for retries that are backing off
   useEffect(() => {
     if (!session?.user) return;
-
-    const interval = setInterval(async () => {
-      const count = getPendingSyncCount();
-      if (count > 0) {
-        console.log('[App] Periodic queue processing...');
-        await processPendingSyncs();
-        // ✅ Refresh stats with version-aware merging
-        const stats = await fetchUserStats(session.user.id);
-        const serverStatsMap: Record<string, DayStats> = {};
-        const shanghaiToday = getShanghaiDateString();
-        stats.forEach((s: any) => {
-            serverStatsMap[s.date] = {
-                date: s.date,
-                total: s.total_count || s.total,
-                correct: s.correct_count || s.correct,
-                points: s.total_points ?? s.points ?? 0,
-                is_frozen: s.is_frozen || s.date < shanghaiToday,
-                version: s.version,
-                updated_at: s.updated_at
-            };
-        });
-
-        const mergedStats = resolveStatsUpdate(dailyStats, Object.values(serverStatsMap));
-        setDailyStats(mergedStats);
-      }
-    }, 60000);  // 60 seconds
-
+    const interval = setInterval(() => { void replayOutbox(); }, 60000);
     return () => clearInterval(interval);
-  }, [session?.user?.id]);
+  }, [replayOutbox]);
 
   const handleLogout = async () => {
+    // Drop this browser's push subscription while the session can still delete its row
+    await unsubscribeFromPush().catch((error) => {
+      console.warn('[handleLogout] Failed to unsubscribe from push:', error);
+    });
     await supabase.auth.signOut();
     setWords([]);
     setSessions([]);
@@ -893,6 +877,22 @@ const App: React.FC = () => {
           };
       });
 
+      // 📴 No signal: queue the totals straight away; the answers are already queued by TestModeV2
+      if (session?.user && isBrowserOffline()) {
+          await enqueueMutation({
+              type: 'test_stats',
+              payload: {
+                  date: today,
+                  testCount: results.length,
+                  correctCount: correctCount,
+                  points: currentTestPoints,
+                  expectedVersion: dailyStats[today]?.version || 0
+              }
+          });
+          showNotification('📴 离线测试已保存，联网后自动同步', 'warning');
+          return;
+      }
+
       // 🔄 Record test to database and wait for confirmation
       if (session?.user) {
           try {
@@ -977,17 +977,19 @@ const App: React.FC = () => {
 
               console.error('[updateLocalStats] ❌ Failed to sync with database:', err);
 
-              // ✅ NEW (Phase C): Enqueue to offline queue for retry
+              // ✅ NEW (Phase C): Enqueue to the outbox for retry
               try {
                   const currentStats = dailyStats[today];
                   const currentVersion = currentStats?.version || 0;
-                  await enqueuePendingSync({
-                      date: today,
-                      testCount: results.length,
-                      correctCount: correctCount,
-                      points: currentTestPoints,
-                      expectedVersion: currentVersion,
-                      timestamp: Date.now()
+                  await enqueueMutation({
+                      type: 'test_stats',
+                      payload: {
+                          date: today,
+                          testCount: results.length,
+                          correctCount: correctCount,
+                          points: currentTestPoints,
+                          expectedVersion: currentVersion
+                      }
                   });
 
                   showNotification(
@@ -1283,7 +1285,8 @@ const App: React.FC = () => {
           definition_en: w.definition_en,
           meaning_options: w.meaning_options,
           selected_meaning_key: w.selected_meaning_key,
-          language: w.language
+          language: w.language,
+          base: pickWordMergeState(originalSessionWords.find(ow => ow.id === w.id)!)
         }));
 
         const { newWordsData } = await modifySession(session.user.id, editingSessionId, addedWords, deletedIds, updatedWords);
@@ -1563,33 +1566,50 @@ const App: React.FC = () => {
       setIsDeleting(true);
       setDeleteProgress({ step: 'fetching', message: 'Starting deletion...' });
       
-      try {
-          // 1. Delete from Cloud with progress callback
-          console.log("🗑️ Calling deleteSessions...");
-          await deleteSessions(session.user.id, idsToDelete, (progress) => {
-              setDeleteProgress(progress);
-              console.log("📊 Delete progress:", progress);
-          });
-          console.log("✅ deleteSessions completed");
-
-          // 2. Update Local State (Soft Delete)
+      // 2-4. Local soft delete, selection and modal cleanup
+      const finishDelete = () => {
           console.log("🔄 Updating local state...");
           setSessions(prev => prev.map(s => idsToDelete.includes(s.id) ? { ...s, deleted: true } : s));
           setWords(prev => prev.map(w => idsToDelete.includes(w.sessionId) ? { ...w, deleted: true } : w));
-          
-          // 3. Clear Selection if deleted
+
           const newSelected = new Set(selectedDashboardSessionIds);
           idsToDelete.forEach(id => newSelected.delete(id));
           setSelectedDashboardSessionIds(newSelected);
 
-          // 4. Close Modal
           setShowDeleteConfirm(false);
           setIdsToDelete([]);
           setDeleteProgress(null);
-          console.log("✅ Delete completed successfully");
           playDing(); // Success sound
+      };
+      // 📴 Offline, or the network dropped mid-way: the outbox finishes the delete on reconnect
+      const queueDelete = async () => {
+          await enqueueMutation({ type: 'delete_sessions', payload: { userId: session.user.id, sessionIds: idsToDelete } });
+          finishDelete();
+          showNotification('📴 已在本地删除，联网后自动同步', 'warning');
+      };
+
+      try {
+          if (isBrowserOffline()) {
+              await queueDelete();
+              return;
+          }
+
+          // 1. Delete from Cloud with progress callback
+          console.log("🗑️ Calling deleteSessions...");
+          await deleteSessions(session.user.id, idsToDelete, (progress) => {
+              setDeleteProgress(progress);
+              console.log("📊 Delete progress:", progress);
+          });
+          console.log("✅ deleteSessions completed");
+
+          finishDelete();
+          console.log("✅ Delete completed successfully");
       } catch (e) {
           console.error("❌ Delete failed", e);
+          if (classifyOutboxError(e) === 'retryable') {
+              await queueDelete();
+              return;
+          }
           setDeleteProgress({ step: 'complete', message: `Error: ${(e as Error).message}` });
           alert("Failed to delete sessions. Check console.");
       } finally {
@@ -1849,35 +1869,52 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, [session?.user]);
 
+  // 📴 While offline, keep the library snapshot in step with local answers so a reload keeps them
+  useEffect(() => {
+    if (!isOffline || !session?.user || loadingData) return;
+    void saveLibrarySnapshot(session.user.id, { sessions, words });
+  }, [isOffline, words, sessions, session?.user?.id, loadingData]);
+
   // 🌐 Network Status Listener
   useEffect(() => {
     const handleOnline = async () => {
       console.log('🌐 Network restored, attempting to sync...');
+      setIsOffline(false);
       showNotification('🌐 网络已恢复，正在同步...', 'success');
+      if (!session?.user) return;
+
+      // 回放离线期间的写入（答题、统计、游戏成绩、删除），同键按顺序执行
+      const replayed = await replayOutbox();
+      const hadOfflineResults = (replayed?.applied ?? 0) > 0;
+      if (replayed && replayed.applied > 0) {
+        showNotification(`✅ 离线记录已同步：${replayed.applied} 条`, 'success');
+      }
 
       // 立即尝试同步所有待同步的Session
+      let sessionsSynced = false;
       const backup = await loadLocalBackup();
-      if (backup && session?.user) {
+      if (backup) {
         const pendingSessions = backup.sessions.filter(
           s => s.syncStatus === 'pending' || s.syncStatus === 'failed'
         );
 
         if (pendingSessions.length > 0) {
           const result = await syncAllPendingSessions(session.user.id);
-          if (result.synced > 0) {
-            const { sessions: cloudSessions, words: cloudWords } =
-              await fetchUserData(session.user.id);
-            setSessions(cloudSessions);
-            setWords(cloudWords);
-          }
+          sessionsSynced = result.synced > 0;
         }
       }
+
+      // Pull the server's view (schedules, stats) once everything queued has landed
+      if (sessionsSynced || hadOfflineResults) {
+        refreshData();
+      }
     };
 
     const handleOffline = () => {
       console.log('📴 Network lost, switching to offline mode');
+      setIsOffline(true);
       showNotification(
-        '⚠️ 网络断开，数据将保存到本地',
+        '📴 离线模式：可继续 CLASSIC 测试，结果将在联网后自动同步',
         'warning'
       );
     };
@@ -1889,7 +1926,7 @@ const App: React.FC = () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, [session?.user]);
+  }, [session?.user, refreshData, replayOutbox]);
 
   const handleStartEdit = (sessionId: string) => {
     setEditingSessionId(sessionId);
@@ -1906,6 +1943,37 @@ const App: React.FC = () => {
     setMode('TEST');
   };
 
+  const handleStartAssignment = async (assignment: ClassAssignment, className: string) => {
+    if (!session?.user) return;
+    try {
+      const wordIds = await prepareAssignmentWordIds(session.user.id, assignment, className);
+      if (wordIds.length === 0) {
+        showNotification('⚠️ 作业中没有可测试的单词', 'warning');
+        return;
+      }
+      // Newly added assignment words must be in local state before the test picks them
+      const { sessions: cloudSessions, words: cloudWords } = await fetchUserData(session.user.id);
+      setSessions(cloudSessions);
+      setWords(cloudWords);
+      handleStartTestFromLibrary(wordIds);
+    } catch (error) {
+      console.error('[handleStartAssignment] Failed to prepare assignment:', error);
+      showNotification('⚠️ 作业加载失败，请重试', 'error');
+    }
+  };
+
+  const handleStartDueReview = () => {
+    const dueIds = getDueWords<WordEntry>(filterStudyableWords<WordEntry>(visibleWords), getShanghaiEndOfDayTimestamp()).map(w => w.id);
+    if (dueIds.length === 0) return;
+    handleStartTestFromLibrary(dueIds);
+  };
+
+  // Patch local words with review schedules returned by syncGameResultsToWordStats
+  const applyWordSchedules = (schedules: Record<string, WordScheduleUpdate>) => {
+    if (Object.keys(schedules).length === 0) return;
+    setWords(prev => prev.map(w => schedules[w.id] ? { ...w, ...schedules[w.id] } : w));
+  };
+
   const handleStartPuzzleGame = () => {
     setTestConfig({ kind: 'PUZZLE' });
     setMode('TEST');
@@ -1916,6 +1984,41 @@ const App: React.FC = () => {
     setMode('TEST');
   };
 
+  const handleStartRecallGame = () => {
+    setTestConfig({ kind: 'RECALL' });
+    setMode('TEST');
+  };
+
+  const handleStartChoiceQuiz = () => {
+    setTestConfig({ kind: 'CHOICE' });
+    setMode('TEST');
+  };
+
+  const handleStartSprintGame = () => {
+    setTestConfig({ kind: 'SPRINT' });
+    setMode('TEST');
+  };
+
+  const handleStartFamilyDrill = () => {
+    setTestConfig({ kind: 'FAMILY' });
+    setMode('TEST');
+  };
+
+  const handleStartPhrasePractice = () => {
+    setTestConfig({ kind: 'PHRASE' });
+    setMode('TEST');
+  };
+
+  const handleStartPuzzleDuel = () => {
+    setTestConfig({ kind: 'PUZZLE_DUEL' });
+    setMode('TEST');
+  };
+
+  const handleStartDailyChallenge = () => {
+    setTestConfig({ kind: 'DAILY_CHALLENGE' });
+    setMode('TEST');
+  };
+
   if (!isSupabaseConfigured) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center bg-dark-charcoal p-4 text-center animate-in fade-in duration-700">
@@ -2007,11 +2110,13 @@ const App: React.FC = () => {
       )}
 
       {/* ✅ NEW (Phase C): Pending Sync Queue Indicator */}
-      {pendingSyncCount > 0 && (
+      {(pendingSyncCount > 0 || isOffline) && (
         <div className="fixed top-4 right-4 z-[150] px-4 py-2 rounded-lg shadow-lg bg-yellow-500/90 border border-yellow-500 text-white flex items-center gap-2 animate-in slide-in-from-right-4 fade-in duration-300">
-          <span className="material-symbols-outlined text-lg">sync_problem</span>
+          <span className="material-symbols-outlined text-lg">{isOffline ? 'cloud_off' : 'sync_problem'}</span>
           <span className="text-sm font-medium">
-            {pendingSyncCount === 1 ? '1 条待同步' : `${pendingSyncCount} 条待同步`}
+            {isOffline && '离线'}
+            {isOffline && pendingSyncCount > 0 && ' · '}
+            {pendingSyncCount > 0 && (pendingSyncCount === 1 ? '1 条待同步' : `${pendingSyncCount} 条待同步`)}
           </span>
         </div>
       )}
@@ -2225,6 +2330,8 @@ const App: React.FC = () => {
             highlightRecentSessions={highlightRecentSessions}
             onDismissRecentSessionsHighlight={() => setHighlightRecentSessions(false)}
             persistedUnlocks={unlockedAchievements}
+            userId={session?.user?.id}
+            onStartAssignment={handleStartAssignment}
           />
         )}
         {mode === 'INPUT' && (
@@ -2256,10 +2363,10 @@ const App: React.FC = () => {
                 try {
                   // Sync per-word stats (error_count / consecutive_correct /
                   // last_tested) so the adaptive selector sees Puzzle results
-                  // just like CLASSIC results. Must run BEFORE recordPuzzleGameRound
+                  // just like CLASSIC results. Must run BEFORE the round is submitted
                   // so a stats failure doesn't block round recording.
                   try {
-                    await syncGameResultsToWordStats(
+                    const schedules = await syncGameResultsToWordStats(
                       summary.results.map(r => ({
                         wordId: r.wordId,
                         correct: r.correct,
@@ -2269,19 +2376,27 @@ const App: React.FC = () => {
                           : null,
                       })),
                     );
+                    applyWordSchedules(schedules);
                   } catch (statsErr) {
                     console.error('[PuzzleGameMode] word stats sync failed (non-blocking):', statsErr);
                   }
-                  const round: any = await recordPuzzleGameRound(summary);
-                  const roundId = round?.round_id || round?.id;
-                  if (roundId) {
-                    const awarded = await awardPuzzleCoins(roundId, summary.totalScore);
-                    if (awarded > 0) {
-                      void refreshCoinBalance();
-                      setPendingCoinReward({ amount: awarded, source: 'puzzle' });
-                    } else {
-                      showNotification(`🧩 字谜成绩已记录：${summary.totalScore} 分`, 'success');
-                    }
+                  if (!summary.roundTicket) {
+                    showNotification(UNVERIFIED_ROUND_MESSAGE, 'warning');
+                    return;
+                  }
+                  const outcome = await submitMutation(
+                    { type: 'game_round', payload: { mode: 'PUZZLE', summary } },
+                    { key: `game_round:PUZZLE:${summary.roundTicket.ticket.roundId}` },
+                  );
+                  if (outcome.status === 'queued') {
+                    showNotification(OFFLINE_ROUND_SAVED_MESSAGE, 'warning');
+                    return;
+                  }
+                  if (outcome.status === 'dead') throw new Error(outcome.error);
+                  const { coinsAwarded: awarded } = outcome.result as { coinsAwarded: number };
+                  if (awarded > 0) {
+                    void refreshCoinBalance();
+                    setPendingCoinReward({ amount: awarded, source: 'puzzle' });
                   } else {
                     showNotification(`🧩 字谜成绩已记录：${summary.totalScore} 分`, 'success');
                   }
@@ -2304,10 +2419,10 @@ const App: React.FC = () => {
                 try {
                   // Sync per-word stats so the adaptive selector sees Scene
                   // results just like CLASSIC results. Must run BEFORE
-                  // recordSceneGameRound so a stats failure doesn't block
+                  // the round is submitted so a stats failure doesn't block
                   // round recording.
                   try {
-                    await syncGameResultsToWordStats(
+                    const schedules = await syncGameResultsToWordStats(
                       summary.results.map(r => ({
                         wordId: r.wordId,
                         correct: r.correct,
@@ -2317,11 +2432,23 @@ const App: React.FC = () => {
                           : null,
                       })),
                     );
+                    applyWordSchedules(schedules);
                   } catch (statsErr) {
                     console.error('[SceneGameMode] word stats sync failed (non-blocking):', statsErr);
                   }
-                  await recordSceneGameRound(summary);
-                  showNotification(`🎬 场景成绩已记录：${summary.totalScore} 分`, 'success');
+                  if (!summary.roundTicket) {
+                    showNotification(UNVERIFIED_ROUND_MESSAGE, 'warning');
+                    return;
+                  }
+                  const outcome = await submitMutation(
+                    { type: 'game_round', payload: { mode: 'SCENE', summary } },
+                    { key: `game_round:SCENE:${summary.roundTicket.ticket.roundId}` },
+                  );
+                  if (outcome.status === 'dead') throw new Error(outcome.error);
+                  showNotification(
+                    outcome.status === 'queued' ? OFFLINE_ROUND_SAVED_MESSAGE : `🎬 场景成绩已记录：${summary.totalScore} 分`,
+                    outcome.status === 'queued' ? 'warning' : 'success',
+                  );
                 } catch (error) {
                   console.error('[SceneGameMode] Failed to record scene game round:', error);
                   showNotification('⚠️ 场景成绩上传失败，但本局结果仍已保留在页面中。', 'warning');
@@ -2331,6 +2458,224 @@ const App: React.FC = () => {
               coinBalance={coinBalance}
               onInsufficientCoins={() => setShowInsufficientCoins(true)}
             />
+          ) : testConfig?.kind === 'RECALL' ? (
+            <RecallGameMode
+              allWords={visibleWords}
+              sessions={sessions}
+              onComplete={async (summary: RecallGameSummary) => {
+                if (!summary.rankingEligible) {
+                  showNotification('⚠️ 本局候选词重复率超过 80%，成绩不计入排行榜。', 'warning');
+                  return;
+                }
+                try {
+                  // Sync per-word stats so the adaptive selector sees Recall
+                  // results just like CLASSIC results. Must run BEFORE
+                  // the round is submitted so a stats failure doesn't block
+                  // round recording.
+                  try {
+                    const schedules = await syncGameResultsToWordStats(
+                      summary.results.map(r => ({
+                        wordId: r.wordId,
+                        correct: r.correct,
+                        hintUsed: r.hintUsed,
+                        durationMs: r.activatedAtMs != null && r.solvedAtMs != null
+                          ? r.solvedAtMs - r.activatedAtMs
+                          : null,
+                      })),
+                    );
+                    applyWordSchedules(schedules);
+                  } catch (statsErr) {
+                    console.error('[RecallGameMode] word stats sync failed (non-blocking):', statsErr);
+                  }
+                  if (!summary.roundTicket) {
+                    showNotification(UNVERIFIED_ROUND_MESSAGE, 'warning');
+                    return;
+                  }
+                  const outcome = await submitMutation(
+                    { type: 'game_round', payload: { mode: 'RECALL', summary } },
+                    { key: `game_round:RECALL:${summary.roundTicket.ticket.roundId}` },
+                  );
+                  if (outcome.status === 'dead') throw new Error(outcome.error);
+                  showNotification(
+                    outcome.status === 'queued' ? OFFLINE_ROUND_SAVED_MESSAGE : `🈶 释义回忆成绩已记录：${summary.totalScore} 分`,
+                    outcome.status === 'queued' ? 'warning' : 'success',
+                  );
+                } catch (error) {
+                  console.error('[RecallGameMode] Failed to record recall game round:', error);
+                  showNotification('⚠️ 释义回忆成绩上传失败，但本局结果仍已保留在页面中。', 'warning');
+                }
+              }}
+              onCancel={() => setMode('DASHBOARD')}
+            />
+          ) : testConfig?.kind === 'SPRINT' ? (
+            <SprintGameMode
+              allWords={visibleWords}
+              sessions={sessions}
+              onComplete={async (summary: SprintGameSummary) => {
+                if (!summary.rankingEligible) {
+                  showNotification('⚠️ 本局候选词重复率超过 80%，成绩不计入排行榜。', 'warning');
+                  return;
+                }
+                try {
+                  // Sync per-word stats before recording the round, same as
+                  // the other games (a stats failure must not block it).
+                  try {
+                    const schedules = await syncGameResultsToWordStats(
+                      summary.results.map(r => ({
+                        wordId: r.wordId,
+                        correct: r.correct,
+                        hintUsed: false,
+                        durationMs: r.activatedAtMs != null && r.answeredAtMs != null
+                          ? r.answeredAtMs - r.activatedAtMs
+                          : null,
+                      })),
+                    );
+                    applyWordSchedules(schedules);
+                  } catch (statsErr) {
+                    console.error('[SprintGameMode] word stats sync failed (non-blocking):', statsErr);
+                  }
+                  if (!summary.roundTicket) {
+                    showNotification(UNVERIFIED_ROUND_MESSAGE, 'warning');
+                    return;
+                  }
+                  const outcome = await submitMutation(
+                    { type: 'game_round', payload: { mode: 'SPRINT', summary } },
+                    { key: `game_round:SPRINT:${summary.roundTicket.ticket.roundId}` },
+                  );
+                  if (outcome.status === 'dead') throw new Error(outcome.error);
+                  showNotification(
+                    outcome.status === 'queued' ? OFFLINE_ROUND_SAVED_MESSAGE : `🎧 听音冲刺成绩已记录：${summary.totalScore} 分`,
+                    outcome.status === 'queued' ? 'warning' : 'success',
+                  );
+                } catch (error) {
+                  console.error('[SprintGameMode] Failed to record sprint game round:', error);
+                  showNotification('⚠️ 听音冲刺成绩上传失败，但本局结果仍已保留在页面中。', 'warning');
+                }
+              }}
+              onCancel={() => setMode('DASHBOARD')}
+            />
+          ) : testConfig?.kind === 'FAMILY' ? (
+            <FamilyDrillMode
+              allWords={visibleWords}
+              onComplete={async (summary: FamilyDrillSummary) => {
+                // Only answers that are themselves library words touch the
+                // schedule: the prompt word showed the family, so they sync
+                // as hinted attempts (no error decay).
+                const answered = summary.results.filter(r => r.answerWordId);
+                if (answered.length > 0) {
+                  try {
+                    const schedules = await syncGameResultsToWordStats(
+                      answered.map(r => ({
+                        wordId: r.answerWordId!,
+                        correct: r.correct,
+                        hintUsed: true,
+                        durationMs: r.answeredInMs,
+                      })),
+                    );
+                    applyWordSchedules(schedules);
+                  } catch (statsErr) {
+                    console.error('[FamilyDrillMode] word stats sync failed (non-blocking):', statsErr);
+                  }
+                }
+                showNotification(`🌳 词族派生：${summary.wordsCorrect}/${summary.wordsTotal}`, 'success');
+              }}
+              onCancel={() => setMode('DASHBOARD')}
+            />
+          ) : testConfig?.kind === 'PUZZLE_DUEL' && session?.user ? (
+            <PuzzleDuelMode
+              allWords={visibleWords}
+              userId={session.user.id}
+              playerName={(session.user.email || '').split('@')[0] || 'Player'}
+              onExit={() => setMode('DASHBOARD')}
+            />
+          ) : testConfig?.kind === 'DAILY_CHALLENGE' && session?.user ? (
+            <DailyChallengeMode
+              onComplete={async (summary: SceneGameSummary) => {
+                // No word stats: the daily words come from a library pack, not the player's list
+                if (!summary.roundTicket) {
+                  showNotification('⚠️ 未能取得今日挑战的排名资格（今天已挑战过或处于离线状态），成绩不计入排行榜。', 'warning');
+                  return;
+                }
+                try {
+                  const outcome = await submitMutation(
+                    { type: 'game_round', payload: { mode: 'SCENE', summary } },
+                    { key: `game_round:SCENE:${summary.roundTicket.ticket.roundId}` },
+                  );
+                  if (outcome.status === 'dead') throw new Error(outcome.error);
+                  showNotification(
+                    outcome.status === 'queued' ? OFFLINE_ROUND_SAVED_MESSAGE : `📅 每日挑战成绩已记录：${summary.totalScore} 分`,
+                    outcome.status === 'queued' ? 'warning' : 'success',
+                  );
+                } catch (error) {
+                  console.error('[DailyChallengeMode] Failed to record daily challenge round:', error);
+                  showNotification('⚠️ 每日挑战成绩上传失败，但本局结果仍已保留在页面中。', 'warning');
+                }
+              }}
+              onExit={() => setMode('DASHBOARD')}
+            />
+          ) : testConfig?.kind === 'PHRASE' ? (
+            <PhrasePracticeMode
+              allWords={visibleWords}
+              onSavePhrases={async (suggestions: CollocationSuggestion[]) => {
+                if (!session?.user) throw new Error('Not signed in');
+                const { inserted } = await savePhraseEntries(session.user.id, suggestions);
+                refreshData();
+                return inserted;
+              }}
+              onComplete={async (summary: PhraseClozeSummary) => {
+                // The rest of the phrase is the cue, so answers sync as
+                // hinted attempts on the phrase entries.
+                try {
+                  const schedules = await syncGameResultsToWordStats(
+                    summary.results.map(r => ({
+                      wordId: r.wordId,
+                      correct: r.correct,
+                      hintUsed: true,
+                      durationMs: r.answeredInMs,
+                    })),
+                  );
+                  applyWordSchedules(schedules);
+                } catch (statsErr) {
+                  console.error('[PhrasePracticeMode] word stats sync failed (non-blocking):', statsErr);
+                }
+                showNotification(`🧩 短语填空：${summary.wordsCorrect}/${summary.wordsTotal}`, 'success');
+              }}
+              onCancel={() => setMode('DASHBOARD')}
+            />
+          ) : testConfig?.kind === 'CHOICE' ? (
+            <ChoiceQuizMode
+              allWords={visibleWords}
+              sessions={sessions}
+              onComplete={async (summary: ChoiceQuizSummary) => {
+                // Recognition is assisted recall: results are synced like a
+                // hinted answer, so a correct pick moves the schedule but
+                // never counts toward error decay.
+                try {
+                  const schedules = await syncGameResultsToWordStats(
+                    summary.results.map(r => ({
+                      wordId: r.wordId,
+                      correct: r.correct,
+                      hintUsed: true,
+                      durationMs: r.answeredInMs,
+                    })),
+                  );
+                  applyWordSchedules(schedules);
+                } catch (statsErr) {
+                  console.error('[ChoiceQuizMode] word stats sync failed (non-blocking):', statsErr);
+                }
+                const roundRef = typeof crypto !== 'undefined' && crypto?.randomUUID
+                  ? crypto.randomUUID()
+                  : `choice-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+                const awarded = await awardChoiceQuizCoins(roundRef, summary.wordsCorrect);
+                if (awarded > 0) {
+                  void refreshCoinBalance();
+                  setPendingCoinReward({ amount: awarded, source: 'choice' });
+                } else {
+                  showNotification(`✅ 释义选择：${summary.wordsCorrect}/${summary.wordsTotal}`, 'success');
+                }
+              }}
+              onCancel={() => setMode('DASHBOARD')}
+            />
           ) : (
             <TestModeV2
               allWords={visibleWords}
@@ -2378,6 +2723,9 @@ const App: React.FC = () => {
                 onRefresh={refreshData}
             cachedImageWordIds={cachedImageWordIds}
             onGenerateImageForWord={handleGenerateImageForWord}
+            onUpdateWord={(id, updates) => {
+                setWords(prev => prev.map(w => w.id === id ? { ...w, ...updates } : w));
+            }}
             />
         )}
 
@@ -2519,6 +2867,32 @@ const App: React.FC = () => {
                             <span className="text-xs opacity-50 font-body group-hover:text-charcoal/70"><HoverTranslationText text={`A comprehensive test of all ${visibleWords.length} words in your vault.`} translation={`对你词库中的全部 ${visibleWords.length} 个单词进行综合测试。`} /></span>
                         </button>
 
+                          <button
+                            onClick={() => {
+                              handleStartDueReview();
+                              setShowQuickTestModal(false);
+                            }}
+                            disabled={dueTodayCount === 0}
+                            className={`transition-all p-6 rounded-2xl flex flex-col items-start gap-1 group text-left ${
+                              dueTodayCount > 0
+                                ? 'bg-mid-charcoal hover:bg-electric-purple hover:text-white'
+                                : 'bg-mid-charcoal/50 border border-dashed border-mid-charcoal text-text-dark cursor-not-allowed'
+                            }`}
+                          >
+                            <span className={`text-sm font-mono uppercase tracking-widest ${
+                              dueTodayCount > 0
+                                ? 'text-electric-purple group-hover:text-white'
+                                : 'text-text-dark'
+                            }`}><HoverTranslationText text="Option 3" translation="选项 3" /></span>
+                            <span className="text-xl font-headline"><HoverTranslationText text={`DUE TODAY (${dueTodayCount})`} translation="今日到期复习" /></span>
+                            <span className="text-xs opacity-50 font-body group-hover:text-white/70">
+                              <HoverTranslationText
+                                text="Review the words whose spaced-repetition (SM-2) interval ends today, most overdue first."
+                                translation="复习间隔重复（SM-2）计划中今天到期的单词，逾期最久的优先。"
+                              />
+                            </span>
+                          </button>
+
                           <button
                             onClick={() => {
                               handleStartPuzzleGame();
@@ -2535,7 +2909,7 @@ const App: React.FC = () => {
                               visibleWords.filter(w => (w.image_url || w.image_path) && !w.deleted).length >= 9
                                 ? 'text-electric-blue group-hover:text-charcoal'
                                 : 'text-text-dark'
-                            }`}><HoverTranslationText text="Option 3" translation="选项 3" /></span>
+                            }`}><HoverTranslationText text="Option 4" translation="选项 4" /></span>
                             <span className="text-xl font-headline"><HoverTranslationText text="PUZZLE GAME" translation="字谜游戏" /></span>
                             <span className="text-xs opacity-50 font-body group-hover:text-charcoal/70">
                               <HoverTranslationText
@@ -2561,7 +2935,7 @@ const App: React.FC = () => {
                               visibleWords.filter(w => !w.deleted).length >= 5
                                 ? 'text-purple-400 group-hover:text-white'
                                 : 'text-text-dark'
-                            }`}><HoverTranslationText text="Option 4" translation="选项 4" /></span>
+                            }`}><HoverTranslationText text="Option 5" translation="选项 5" /></span>
                             <span className="text-xl font-headline"><HoverTranslationText text="SCENE FUSION GAME" translation="场景融合游戏" /></span>
                             <span className="text-xs opacity-50 font-body group-hover:text-white/70">
                               <HoverTranslationText
@@ -2571,6 +2945,152 @@ const App: React.FC = () => {
                             </span>
                           </button>
 
+                          <button
+                            onClick={() => {
+                              handleStartRecallGame();
+                              setShowQuickTestModal(false);
+                            }}
+                            disabled={recallCandidateCount < 10}
+                            className={`transition-all p-6 rounded-2xl flex flex-col items-start gap-1 group text-left ${
+                              recallCandidateCount >= 10
+                                ? 'bg-mid-charcoal hover:bg-amber-400 hover:text-charcoal'
+                                : 'bg-mid-charcoal/50 border border-dashed border-mid-charcoal text-text-dark cursor-not-allowed'
+                            }`}
+                          >
+                            <span className={`text-sm font-mono uppercase tracking-widest ${
+                              recallCandidateCount >= 10
+                                ? 'text-amber-400 group-hover:text-charcoal'
+                                : 'text-text-dark'
+                            }`}><HoverTranslationText text="Option 6" translation="选项 6" /></span>
+                            <span className="text-xl font-headline"><HoverTranslationText text="MEANING RECALL" translation="释义回忆" /></span>
+                            <span className="text-xs opacity-50 font-body group-hover:text-charcoal/70">
+                              <HoverTranslationText
+                                text={`See the Chinese meaning, spell the English word. 10 words in 120 seconds. Words with a meaning: ${recallCandidateCount}.`}
+                                translation={`看中文释义，拼写英文单词。120 秒内完成 10 个。当前带释义单词：${recallCandidateCount}。`}
+                              />
+                            </span>
+                          </button>
+
+                          <button
+                            onClick={() => {
+                              handleStartChoiceQuiz();
+                              setShowQuickTestModal(false);
+                            }}
+                            disabled={recallCandidateCount < 4}
+                            className={`transition-all p-6 rounded-2xl flex flex-col items-start gap-1 group text-left ${
+                              recallCandidateCount >= 4
+                                ? 'bg-mid-charcoal hover:bg-electric-blue hover:text-charcoal'
+                                : 'bg-mid-charcoal/50 border border-dashed border-mid-charcoal text-text-dark cursor-not-allowed'
+                            }`}
+                          >
+                            <span className={`text-sm font-mono uppercase tracking-widest ${
+                              recallCandidateCount >= 4
+                                ? 'text-electric-blue group-hover:text-charcoal'
+                                : 'text-text-dark'
+                            }`}><HoverTranslationText text="Option 7" translation="选项 7" /></span>
+                            <span className="text-xl font-headline"><HoverTranslationText text="MEANING QUIZ" translation="释义选择" /></span>
+                            <span className="text-xs opacity-50 font-body group-hover:text-charcoal/70">
+                              <HoverTranslationText
+                                text="Hear a word and pick its meaning from four. A quick recognition warm-up before spelling."
+                                translation="听单词，四选一选出释义。拼写前的快速认词热身。"
+                              />
+                            </span>
+                          </button>
+
+                          <button
+                            onClick={() => {
+                              handleStartSprintGame();
+                              setShowQuickTestModal(false);
+                            }}
+                            disabled={sprintCandidateCount < 15}
+                            className={`transition-all p-6 rounded-2xl flex flex-col items-start gap-1 group text-left ${
+                              sprintCandidateCount >= 15
+                                ? 'bg-mid-charcoal hover:bg-sky-400 hover:text-charcoal'
+                                : 'bg-mid-charcoal/50 border border-dashed border-mid-charcoal text-text-dark cursor-not-allowed'
+                            }`}
+                          >
+                            <span className={`text-sm font-mono uppercase tracking-widest ${
+                              sprintCandidateCount >= 15
+                                ? 'text-sky-300 group-hover:text-charcoal'
+                                : 'text-text-dark'
+                            }`}><HoverTranslationText text="Option 8" translation="选项 8" /></span>
+                            <span className="text-xl font-headline"><HoverTranslationText text="AUDIO SPRINT" translation="听音冲刺" /></span>
+                            <span className="text-xs opacity-50 font-body group-hover:text-charcoal/70">
+                              <HoverTranslationText
+                                text={`Listen and type 15 words back to back. The tempo rises with your streak. Words available: ${sprintCandidateCount}.`}
+                                translation={`连续听写 15 个单词，连对越多节奏越快。当前可用单词：${sprintCandidateCount}。`}
+                              />
+                            </span>
+                          </button>
+
+                          <button
+                            onClick={() => {
+                              handleStartFamilyDrill();
+                              setShowQuickTestModal(false);
+                            }}
+                            className="bg-mid-charcoal hover:bg-purple-400 hover:text-charcoal transition-all p-6 rounded-2xl flex flex-col items-start gap-1 group text-left"
+                          >
+                            <span className="text-sm font-mono text-purple-300 group-hover:text-charcoal uppercase tracking-widest"><HoverTranslationText text="Option 9" translation="选项 9" /></span>
+                            <span className="text-xl font-headline"><HoverTranslationText text="WORD FAMILIES" translation="词族派生" /></span>
+                            <span className="text-xs opacity-50 font-body group-hover:text-charcoal/70">
+                              <HoverTranslationText
+                                text="Turn your words into their noun, adjective, adverb or opposite forms (act → action)."
+                                translation="把词库中的单词变成名词、形容词、副词或反义形式（act → action）。"
+                              />
+                            </span>
+                          </button>
+
+                          <button
+                            onClick={() => {
+                              handleStartPhrasePractice();
+                              setShowQuickTestModal(false);
+                            }}
+                            className="bg-mid-charcoal hover:bg-teal-400 hover:text-charcoal transition-all p-6 rounded-2xl flex flex-col items-start gap-1 group text-left"
+                          >
+                            <span className="text-sm font-mono text-teal-300 group-hover:text-charcoal uppercase tracking-widest"><HoverTranslationText text="Option 10" translation="选项 10" /></span>
+                            <span className="text-xl font-headline"><HoverTranslationText text="PHRASE PRACTICE" translation="短语搭配" /></span>
+                            <span className="text-xs opacity-50 font-body group-hover:text-charcoal/70">
+                              <HoverTranslationText
+                                text="Collect common collocations for your words (make a decision, heavy rain) and fill in the missing word."
+                                translation="收集单词的常用搭配（make a decision、heavy rain），并完成短语填空。"
+                              />
+                            </span>
+                          </button>
+
+                          <button
+                            onClick={() => {
+                              handleStartPuzzleDuel();
+                              setShowQuickTestModal(false);
+                            }}
+                            className="bg-mid-charcoal hover:bg-electric-blue hover:text-charcoal transition-all p-6 rounded-2xl flex flex-col items-start gap-1 group text-left"
+                          >
+                            <span className="text-sm font-mono text-electric-blue group-hover:text-charcoal uppercase tracking-widest"><HoverTranslationText text="Option 11" translation="选项 11" /></span>
+                            <span className="text-xl font-headline"><HoverTranslationText text="PUZZLE DUEL" translation="字谜对战" /></span>
+                            <span className="text-xs opacity-50 font-body group-hover:text-charcoal/70">
+                              <HoverTranslationText
+                                text="Race a friend on the same nine picture cards. Share a room code and watch their solves live."
+                                translation="和好友用同样的九张图片卡比拼。分享房间码，实时看到对方的进度。"
+                              />
+                            </span>
+                          </button>
+
+                          <button
+                            onClick={() => {
+                              handleStartDailyChallenge();
+                              setShowQuickTestModal(false);
+                            }}
+                            className="bg-mid-charcoal hover:bg-purple-400 hover:text-charcoal transition-all p-6 rounded-2xl flex flex-col items-start gap-1 group text-left"
+                          >
+                            <span className="text-sm font-mono text-purple-300 group-hover:text-charcoal uppercase tracking-widest"><HoverTranslationText text="Option 12" translation="选项 12" /></span>
+                            <span className="text-xl font-headline"><HoverTranslationText text="DAILY CHALLENGE" translation="每日挑战" /></span>
+                            <span className="text-xs opacity-50 font-body group-hover:text-charcoal/70">
+                              <HoverTranslationText
+                                text="Everyone plays the same scene today. One ranked attempt, then share your emoji result."
+                                translation="今天所有人挑战同一张场景图。每人一次排名机会，完成后分享你的表情成绩卡。"
+                              />
+                            </span>
+                          </button>
+
                         <button
                             onClick={() => setShowQuickTestModal(false)}
                             className="mt-4 text-text-dark hover:text-white transition-colors uppercase font-mono text-xs tracking-[0.2em]"
@@ -2633,6 +3153,7 @@ const App: React.FC = () => {
               handleLogout();
               setShowAccountPanel(false);
           }}
+          onDataRestored={refreshData}
         />
       )}
       <GlobalLeaderboardModal
@@ -2898,7 +3419,9 @@ const Dashboard: React.FC<{
   highlightRecentSessions?: boolean,
   onDismissRecentSessionsHighlight?: () => void,
   persistedUnlocks?: Set<string>,
-}> = ({ stats, sessions, words, cachedImageDataUrls = {}, selectedSessionIds, onToggleSessionSelect, onStartInput, onStartTest, onStartEdit, onOpenLibrary, onQuickTest, onDeleteSessions, onManualSync, syncingSessionId, highlightRecentSessions = false, onDismissRecentSessionsHighlight, persistedUnlocks }) => {
+  userId?: string,
+  onStartAssignment?: (assignment: ClassAssignment, className: string) => Promise<void>,
+}> = ({ stats, sessions, words, cachedImageDataUrls = {}, selectedSessionIds, onToggleSessionSelect, onStartInput, onStartTest, onStartEdit, onOpenLibrary, onQuickTest, onDeleteSessions, onManualSync, syncingSessionId, highlightRecentSessions = false, onDismissRecentSessionsHighlight, persistedUnlocks, userId, onStartAssignment }) => {
   const t = useT();
   const [carouselIndex, setCarouselIndex] = useState(0);
   const [previewImage, setPreviewImage] = useState<{ id: string; text: string; imageSrc: string; sessionId: string } | null>(null);
@@ -3337,6 +3860,10 @@ const Dashboard: React.FC<{
       <div className="lg:col-span-4 flex flex-col gap-4">
         <CalendarView stats={stats} />
 
+        {userId && onStartAssignment && (
+          <AssignmentsPanel userId={userId} words={words} sessions={sessions} stats={stats} onStartAssignment={onStartAssignment} />
+        )}
+
         <LeaderboardPanel stats={stats} words={words} />
 
         <AchievementsPanel words={words} sessions={sessions} dailyStats={stats} persistedUnlocks={persistedUnlocks} className="flex-1" />
@@ -3354,9 +3881,24 @@ const LibraryMode: React.FC<{
     onRefresh?: () => void;
   cachedImageWordIds?: Set<string>;
   onGenerateImageForWord?: (word: { id: string; text: string; language?: string | null; hasExistingImage?: boolean }) => Promise<boolean>;
-}> = ({ words, onClose, onTest, userId, onRefresh, cachedImageWordIds = new Set(), onGenerateImageForWord }) => {
+  onUpdateWord?: (id: string, updates: Partial<WordEntry>) => void;
+}> = ({ words, onClose, onTest, userId, onRefresh, cachedImageWordIds = new Set(), onGenerateImageForWord, onUpdateWord }) => {
     const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
     const [generatingWordIds, setGeneratingWordIds] = useState<Set<string>>(new Set());
+    const [detailWordId, setDetailWordId] = useState<string | null>(null);
+    const detailWord = useMemo(() => words.find(w => w.id === detailWordId) || null, [words, detailWordId]);
+
+    // Word families (shared lemma, e.g. act / action / activity) from the
+    // local Hunspell affix data; empty until the dictionary has loaded
+    const [wordFamilies, setWordFamilies] = useState<WordFamily[]>([]);
+    useEffect(() => {
+        let disposed = false;
+        void loadWordFamilies(words).then(families => {
+            if (!disposed) setWordFamilies(families);
+        });
+        return () => { disposed = true; };
+    }, [words]);
+    const familyByWordId = useMemo(() => indexWordFamilies(wordFamilies), [wordFamilies]);
 
     // Helper function to determine error severity level
     // 辅助函数：确定错误严重度等级
@@ -3527,6 +4069,16 @@ const LibraryMode: React.FC<{
         setSelectedIds(newSet);
     };
 
+    // Select a whole word family so its members are tested together
+    const selectFamily = (e: React.MouseEvent, family: WordFamily) => {
+        e.stopPropagation();
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            family.members.forEach(member => next.add(member.id));
+            return next;
+        });
+    };
+
     const toggleLetterGroup = (letter: string, forceState?: boolean) => {
         const groupWords = grouped[letter] || [];
         if (groupWords.length === 0) return;
@@ -3575,21 +4127,60 @@ const LibraryMode: React.FC<{
         setPendingDeleteIds(ids);
     };
 
+    // Mark selected words as known (or back to active when all of them already are).
+    // Known words stay in the library, so library completeness is unaffected.
+    const [isMarkingKnown, setIsMarkingKnown] = useState(false);
+    const selectedAllKnown = useMemo(
+        () => selectedIds.size > 0 && words.filter(w => selectedIds.has(w.id)).every(w => w.known),
+        [words, selectedIds]
+    );
+
+    const handleToggleKnownSelected = async () => {
+        const ids = Array.from<string>(selectedIds);
+        if (ids.length === 0 || isMarkingKnown) return;
+        const known = !selectedAllKnown;
+        setIsMarkingKnown(true);
+        try {
+            await updateWordStudyState(ids, { known });
+            if (onUpdateWord) ids.forEach(id => onUpdateWord(id, { known }));
+            else onRefresh?.();
+        } catch (err) {
+            console.error('[LibraryMode] Mark known error:', err);
+        } finally {
+            setIsMarkingKnown(false);
+        }
+    };
+
     const confirmDeleteWords = async () => {
         if (!pendingDeleteIds || pendingDeleteIds.length === 0 || !userId) return;
         setIsWordDeleting(true);
-        try {
-            await deleteWordsByIds(userId, pendingDeleteIds);
+        const ids = pendingDeleteIds;
+        const finishDelete = () => {
             // Remove from local selected set
             setSelectedIds(prev => {
                 const next = new Set(prev);
-                pendingDeleteIds.forEach(id => next.delete(id));
+                ids.forEach(id => next.delete(id));
                 return next;
             });
             setPendingDeleteIds(null);
+        };
+        // 📴 Offline or a dropped connection: hide locally, the outbox deletes on reconnect
+        const queueDelete = async () => {
+            await enqueueMutation({ type: 'delete_words', payload: { userId, wordIds: ids } });
+            finishDelete();
+            if (onUpdateWord) ids.forEach(id => onUpdateWord(id, { deleted: true }));
+        };
+        try {
+            if (isBrowserOffline()) {
+                await queueDelete();
+                return;
+            }
+            await deleteWordsByIds(userId, ids);
+            finishDelete();
             onRefresh?.();
         } catch (err) {
             console.error('[LibraryMode] Delete word error:', err);
+            if (classifyOutboxError(err) === 'retryable') await queueDelete();
         } finally {
             setIsWordDeleting(false);
         }
@@ -3611,6 +4202,10 @@ const LibraryMode: React.FC<{
 
     const handleGenerateImageClick = async (e: React.MouseEvent, word: WordEntry) => {
       e.stopPropagation();
+      await generateImageForWord(word);
+    };
+
+    const generateImageForWord = async (word: WordEntry) => {
       if (!onGenerateImageForWord || generatingWordIds.has(word.id)) return;
 
       const hasExistingImage = cachedImageWordIds.has(word.id) || !!word.image_url || !!word.image_path;
@@ -3678,6 +4273,7 @@ const LibraryMode: React.FC<{
                     onChange={setSelectedLibraries}
                     availableLibraries={availableLibraries}
                     userId={userId || ''}
+                    existingWords={words}
                     onImportComplete={() => {
                         if (onRefresh) onRefresh();
                     }}
@@ -3932,6 +4528,15 @@ const LibraryMode: React.FC<{
                                     <span className="material-symbols-outlined text-base">delete</span>
                                     DELETE ({selectedIds.size})
                                 </button>
+                                <button
+                                    onClick={handleToggleKnownSelected}
+                                    disabled={isMarkingKnown}
+                                    className="px-4 py-2 bg-electric-green/10 border border-electric-green/40 text-electric-green font-headline text-sm rounded-xl hover:bg-electric-green/20 transition-colors flex items-center gap-1 animate-in zoom-in disabled:opacity-50"
+                                    title={selectedAllKnown ? '取消"已掌握"标记，重新加入测试' : '标记为已掌握：保留在词库中，但不再测试'}
+                                >
+                                    <span className="material-symbols-outlined text-base">{selectedAllKnown ? 'undo' : 'verified'}</span>
+                                    {selectedAllKnown ? 'UNMARK KNOWN' : 'KNOWN'} ({selectedIds.size})
+                                </button>
                                 <button 
                                     onClick={() => onTest(Array.from(selectedIds))}
                                     className="px-6 py-2 bg-electric-blue text-charcoal font-headline text-xl rounded-xl hover:bg-white transition-colors flex items-center gap-2 shadow-[0_0_15px_rgba(0,240,255,0.3)] animate-in zoom-in"
@@ -3969,6 +4574,8 @@ const LibraryMode: React.FC<{
                                             const severity = getErrorSeverity(word.error_count);
                                           const hasGeneratedImage = (cachedImageWordIds.has(word.id) || !!word.image_url || !!word.image_path);
                                           const isGenerating = generatingWordIds.has(word.id);
+                                          const studyState = getWordStudyState(word);
+                                          const family = familyByWordId.get(word.id);
                                             return (
                                                 <div
                                                     key={word.id}
@@ -3989,6 +4596,16 @@ const LibraryMode: React.FC<{
                                                       <span className={`material-symbols-outlined text-sm ${isGenerating ? 'animate-spin' : ''}`}>{isGenerating ? 'sync' : 'image'}</span>
                                                     </button>
 
+                                                    {/* Detail Button - hover visible */}
+                                                    <button
+                                                        onClick={(e) => { e.stopPropagation(); setDetailWordId(word.id); }}
+                                                        className="absolute top-1 right-[3.75rem] w-6 h-6 rounded flex items-center justify-center opacity-0 group-hover:opacity-100 hover:bg-electric-blue/20 text-text-dark hover:text-electric-blue transition-all z-10"
+                                                        title={`查看 "${word.text}" 详情`}
+                                                        aria-label={`查看 ${word.text} 详情`}
+                                                    >
+                                                        <span className="material-symbols-outlined text-sm">info</span>
+                                                    </button>
+
                                                     {/* Delete Button - hover visible */}
                                                     <button
                                                         onClick={(e) => requestDeleteWords(e, [word.id])}
@@ -4024,6 +4641,19 @@ const LibraryMode: React.FC<{
                                                       </button>
 
                                                       <div className="flex items-center gap-2 flex-wrap ml-auto">
+                                                        {/* Word family - click selects every member */}
+                                                        {family && (
+                                                          <button
+                                                            onClick={(e) => selectFamily(e, family)}
+                                                            className="flex items-center gap-1 rounded px-1 text-purple-300 hover:bg-purple-500/20 transition-colors"
+                                                            title={`词族 ${family.root}: ${family.members.map(m => m.text).join(' · ')}（点击全选）`}
+                                                            aria-label={`选中 ${word.text} 的词族`}
+                                                          >
+                                                            <span className="material-symbols-outlined text-sm">account_tree</span>
+                                                            <span className="text-xs font-mono">{family.members.length}</span>
+                                                          </button>
+                                                        )}
+
                                                         {/* Error Count Indicator - displays value directly */}
                                                         {word.error_count > 0 && (
                                                           <div className={`flex items-center gap-1 ${severity.color}`}>
@@ -4034,6 +4664,16 @@ const LibraryMode: React.FC<{
                                                           </div>
                                                         )}
 
+                                                        {/* Study state: known / suspended / buried */}
+                                                        {studyState !== 'active' && (
+                                                          <span
+                                                            className={`material-symbols-outlined text-sm ${studyState === 'known' ? 'text-electric-green' : 'text-yellow-400'}`}
+                                                            title={studyState === 'known' ? '已掌握' : studyState === 'suspended' ? '已暂停' : `搁置至 ${new Date(word.buried_until!).toLocaleDateString()}`}
+                                                          >
+                                                            {studyState === 'known' ? 'verified' : studyState === 'suspended' ? 'pause_circle' : 'bedtime'}
+                                                          </span>
+                                                        )}
+
                                                         {/* Mistake Bank Tag - no tooltip */}
                                                         {word.tags?.includes('Mistake') && (
                                                           <span className="material-symbols-outlined text-red-500 text-sm">
@@ -4053,6 +4693,22 @@ const LibraryMode: React.FC<{
                 </div>
             </div>
 
+            {/* ---- Word Detail Modal ---- */}
+            {detailWord && (
+                <WordDetailModal
+                    word={detailWord}
+                    isGeneratingImage={generatingWordIds.has(detailWord.id)}
+                    onClose={() => setDetailWordId(null)}
+                    onUpdateWord={(id, updates) => {
+                        if (onUpdateWord) onUpdateWord(id, updates);
+                        else onRefresh?.();
+                    }}
+                    onRegenerateImage={() => {
+                        void generateImageForWord(detailWord);
+                    }}
+                />
+            )}
+
             {/* ---- Delete Confirmation Modal ---- */}
             {pendingDeleteIds !== null && (
                 <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[200] flex items-center justify-center p-6 animate-in fade-in duration-200">
@@ -0,0 +1,23 @@
+/**
+ * Shared test fixtures: a bare word entry for the utils and rounds tests.
+ */
+
+import type { WordEntry } from '../../types.ts';
+
+/** Untested word with no metadata; `overrides` fill in what a test needs */
+export const makeWord = (overrides: Partial<WordEntry> = {}): WordEntry => ({
+  id: 'w1',
+  text: 'word',
+  timestamp: 0,
+  sessionId: 's1',
+  correct: false,
+  tested: false,
+  error_count: 0,
+  best_time_ms: null,
+  last_tested: null,
+  phonetic: null,
+  audio_url: null,
+  definition_cn: null,
+  definition_en: null,
+  ...overrides,
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for quiet hours, streak warnings and reminder spacing in
+ * supabase/functions/send-reminders/reminderRules.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  DEFAULT_REMINDER_PREFERENCES,
+  getZonedClock,
+  isInQuietHours,
+  minutesToTime,
+  normalizeReminderPreferences,
+  planReminder,
+  timeToMinutes,
+} from '../../supabase/functions/send-reminders/reminderRules.ts';
+import type { ReminderPreferences } from '../../supabase/functions/send-reminders/reminderRules.ts';
+
+const prefs: ReminderPreferences = {
+  ...DEFAULT_REMINDER_PREFERENCES,
+  enabled: true,
+  timeZone: 'Asia/Shanghai',
+};
+const noHistory = { lastDueReminderAt: null, lastStreakReminderOn: null };
+
+// 2026-10-19 21:00 in Asia/Shanghai (UTC+8)
+const evening = new Date('2026-10-19T13:00:00Z');
+// 2026-10-19 10:00 in Asia/Shanghai
+const morning = new Date('2026-10-19T02:00:00Z');
+
+test('getZonedClock / isInQuietHours: local wall clock, windows that wrap midnight', () => {
+  assert.deepEqual(getZonedClock(evening, 'Asia/Shanghai'), { date: '2026-10-19', minutes: 21 * 60 });
+  assert.deepEqual(getZonedClock(evening, 'America/New_York'), { date: '2026-10-19', minutes: 9 * 60 });
+  assert.deepEqual(getZonedClock(evening, 'Not/AZone'), { date: '2026-10-19', minutes: 13 * 60 });
+
+  assert.ok(isInQuietHours(23 * 60, 22 * 60, 8 * 60));
+  assert.ok(isInQuietHours(7 * 60, 22 * 60, 8 * 60));
+  assert.ok(!isInQuietHours(8 * 60, 22 * 60, 8 * 60));
+  assert.ok(isInQuietHours(13 * 60, 12 * 60, 14 * 60));
+  assert.ok(!isInQuietHours(13 * 60, 9 * 60, 9 * 60), 'equal bounds: no quiet hours');
+
+  assert.equal(minutesToTime(timeToMinutes('07:05')!), '07:05');
+  assert.equal(timeToMinutes('24:00'), null);
+});
+
+test('planReminder: streak warning in the last hours of the check-in day, once per day', () => {
+  const status = { dueCount: 5, currentStreak: 6, checkedInToday: false };
+
+  const streak = planReminder(prefs, status, noHistory, evening);
+  assert.equal(streak?.kind, 'streak');
+  assert.equal(streak?.streakDay, '2026-10-19');
+  assert.match(streak!.title, /6-day streak/);
+
+  // Already warned today → falls through to due words
+  const due = planReminder(prefs, status, { ...noHistory, lastStreakReminderOn: '2026-10-19' }, evening);
+  assert.equal(due?.kind, 'due');
+
+  // Too early in the day, or already checked in → no streak warning
+  assert.equal(planReminder(prefs, status, noHistory, morning)?.kind, 'due');
+  assert.equal(planReminder(prefs, { ...status, checkedInToday: true }, noHistory, evening)?.kind, 'due');
+});
+
+test('planReminder: quiet hours and frequency spacing', () => {
+  const status = { dueCount: 3, currentStreak: 0, checkedInToday: false };
+
+  // 23:00 Shanghai is inside the default 22:00–08:00 quiet hours
+  assert.equal(planReminder(prefs, status, noHistory, new Date('2026-10-19T15:00:00Z')), null);
+  // Quiet hours are read in the learner's own zone: 10:00 in New York
+  assert.equal(
+    planReminder({ ...prefs, timeZone: 'America/New_York' }, status, noHistory, new Date('2026-10-19T14:00:00Z'))?.kind,
+    'due',
+  );
+
+  const sixHoursAgo = new Date(morning.getTime() - 6 * 60 * 60 * 1000).toISOString();
+  assert.equal(planReminder(prefs, status, { ...noHistory, lastDueReminderAt: sixHoursAgo }, morning), null, 'daily: 20h gap');
+  assert.equal(
+    planReminder({ ...prefs, frequency: 'every_4_hours' }, status, { ...noHistory, lastDueReminderAt: sixHoursAgo }, morning)?.kind,
+    'due',
+  );
+
+  assert.equal(planReminder(prefs, { ...status, dueCount: 0 }, noHistory, morning), null);
+  assert.equal(planReminder({ ...prefs, enabled: false }, status, noHistory, morning), null);
+});
+
+test('normalizeReminderPreferences: defaults for missing or invalid columns', () => {
+  assert.deepEqual(normalizeReminderPreferences(null), DEFAULT_REMINDER_PREFERENCES);
+  assert.deepEqual(
+    normalizeReminderPreferences({
+      enabled: true,
+      frequency: 'hourly',
+      quiet_start_minutes: 5000,
+      quiet_end_minutes: '420',
+      time_zone: ' Europe/Berlin ',
+    }),
+    { enabled: true, frequency: 'daily', quietStartMinutes: 1439, quietEndMinutes: 420, timeZone: 'Europe/Berlin' },
+  );
+});
@@ -0,0 +1,58 @@
+/**
+ * Tests for the anti-cheat heuristics in
+ * supabase/functions/verify-round/roundFlags.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  DEFAULT_FLAG_THRESHOLDS,
+  findRoundFlags,
+  REPEATED_WORD_SET_LIMIT,
+  wordSetHash,
+} from '../../supabase/functions/verify-round/roundFlags.ts';
+import type { FlaggableCard } from '../../supabase/functions/verify-round/roundFlags.ts';
+import { WORD_LEARNING_CONFIG } from '../../config/wordLearningConfig.ts';
+
+const lengths: Record<string, number> = { w1: 8, w2: 8, w3: 8, w4: 8, w5: 8, w6: 8 };
+
+// Six cards solved back to back, `seconds` each, first try, no hints
+const cards = (seconds: number, overrides: Record<string, Partial<FlaggableCard>> = {}): FlaggableCard[] =>
+  Object.keys(lengths).map((wordId, i) => ({
+    wordId,
+    correct: true,
+    attemptsUsed: 1,
+    hintUsed: false,
+    activatedAtMs: i * seconds * 1000,
+    solvedAtMs: (i + 1) * seconds * 1000,
+    ...overrides[wordId],
+  }));
+
+test('DEFAULT_FLAG_THRESHOLDS mirror the client timing config', () => {
+  assert.equal(DEFAULT_FLAG_THRESHOLDS.idealCharsPerSecond, WORD_LEARNING_CONFIG.scoring.timing.idealCharsPerSecond);
+  assert.equal(DEFAULT_FLAG_THRESHOLDS.perWordOverheadSeconds, WORD_LEARNING_CONFIG.scoring.timing.perWordOverheadSeconds);
+});
+
+test('findRoundFlags: a normal round raises nothing', () => {
+  assert.deepEqual(findRoundFlags(cards(4), lengths, 0), []);
+});
+
+test('findRoundFlags: superhuman typing and too-fast clean streaks', () => {
+  // 8 letters in 0.6s = 13.3 chars/s, beyond 2.5x the ideal 4.5
+  assert.deepEqual(findRoundFlags(cards(0.6), lengths, 0), ['typing_too_fast', 'perfect_streak_too_fast']);
+
+  // 1.2s per 8-letter word: human typing speed, but five clean solves that fast in a row
+  assert.deepEqual(findRoundFlags(cards(1.2), lengths, 0), ['perfect_streak_too_fast']);
+
+  // A hint in the middle breaks the streak
+  assert.deepEqual(findRoundFlags(cards(1.2, { w3: { hintUsed: true } }), lengths, 0), []);
+});
+
+test('findRoundFlags: the same word set played too often is flagged', () => {
+  assert.deepEqual(findRoundFlags(cards(4), lengths, REPEATED_WORD_SET_LIMIT - 1), []);
+  assert.deepEqual(findRoundFlags(cards(4), lengths, REPEATED_WORD_SET_LIMIT), ['repeated_word_set']);
+
+  assert.equal(wordSetHash(['b', 'a', 'c']), wordSetHash(['a', 'b', 'c']));
+  assert.notEqual(wordSetHash(['a', 'b', 'c']), wordSetHash(['a', 'b', 'd']));
+  assert.match(wordSetHash(['a']), /^[0-9a-f]{14}$/);
+});
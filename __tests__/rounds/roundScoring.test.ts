@@ -0,0 +1,213 @@
+/**
+ * Tests for the round scoring and plausibility rules in
+ * supabase/functions/verify-round/roundScoring.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  canonicalRoundTicket,
+  findRoundLogProblems,
+  getSprintWindowMs,
+  minSolveMs,
+  replaySprintCards,
+  ROUND_CLOCK_SKEW_MS,
+  scoreRound,
+  scoreSprintRound,
+} from '../../supabase/functions/verify-round/roundScoring.ts';
+import type { RoundLog, RoundLogEntry, RoundTicket } from '../../supabase/functions/verify-round/roundScoring.ts';
+
+const wordIds = ['w1', 'w2', 'w3'];
+
+const ticket: RoundTicket = {
+  roundId: 'r1',
+  userId: 'u1',
+  mode: 'SCENE',
+  wordIds,
+  issuedAt: 1_000_000,
+};
+
+const entry = (wordId: string, overrides: Partial<RoundLogEntry> = {}): RoundLogEntry => ({
+  wordId,
+  correct: true,
+  attemptsUsed: 1,
+  hintUsed: false,
+  activatedAtMs: 0,
+  solvedAtMs: 5_000,
+  ...overrides,
+});
+
+const log = (overrides: Partial<RoundLog> = {}): RoundLog => ({
+  mode: 'SCENE',
+  elapsedMs: 20_000,
+  results: [
+    entry('w1', { activatedAtMs: 0, solvedAtMs: 3_000 }),
+    entry('w2', { activatedAtMs: 3_000, solvedAtMs: 10_000, attemptsUsed: 2 }),
+    entry('w3', { activatedAtMs: 10_000, solvedAtMs: 20_000 }),
+  ],
+  ...overrides,
+});
+
+test('scoreRound: accuracy, time left and per-card quality', () => {
+  const score = scoreRound('SCENE', log().results, 20_000, 3);
+  assert.equal(score.totalDurationSeconds, 90);
+  assert.equal(score.timeUsedSeconds, 20);
+  assert.equal(score.secondsRemaining, 70);
+  assert.equal(score.wordsCorrect, 3);
+  // 700 accuracy + 70/90 of 200 for time + (110 + 85 + 90) / 330 of 100 for quality
+  assert.equal(score.totalScore, 942);
+
+  const puzzle = scoreRound('PUZZLE', [entry('w1'), entry('w2', { correct: false, solvedAtMs: null })], 45_000);
+  assert.equal(puzzle.totalDurationSeconds, 90);
+  assert.equal(puzzle.accuracyRate, 0.5);
+  assert.equal(puzzle.speedScore, 0);  // Below 85% accuracy
+  assert.equal(puzzle.totalScore, Math.round(350 + 100 + 100 / 220 * 100));
+});
+
+test('findRoundLogProblems: a plausible log passes', () => {
+  assert.deepEqual(findRoundLogProblems(log(), ticket, 25_000), []);
+});
+
+test('findRoundLogProblems: the word set must be the ticket\'s', () => {
+  const swapped = log({ results: [...log().results.slice(0, 2), entry('w9')] });
+  assert.deepEqual(findRoundLogProblems(swapped, ticket, 25_000), ['word_set_mismatch']);
+
+  const doubled = log({ results: [...log().results.slice(0, 2), entry('w1')] });
+  assert.deepEqual(findRoundLogProblems(doubled, ticket, 25_000), ['word_set_mismatch']);
+  assert.notEqual(canonicalRoundTicket(ticket), canonicalRoundTicket({ ...ticket, wordIds: ['w1', 'w2', 'w9'] }));
+});
+
+test('findRoundLogProblems: timings no human could produce are rejected', () => {
+  const instant = log({ results: [entry('w1', { solvedAtMs: 100 }), entry('w2'), entry('w3')] });
+  assert.deepEqual(findRoundLogProblems(instant, ticket, 25_000), ['solved_too_fast:w1']);
+
+  // Claimed a 20s round only 5s after the ticket was issued
+  assert.deepEqual(findRoundLogProblems(log(), ticket, 5_000), ['elapsed_exceeds_server_time']);
+
+  const outside = log({ elapsedMs: 95_000 });
+  assert.ok(findRoundLogProblems(outside, ticket, 200_000).includes('elapsed_out_of_range'));
+
+  const noAttempt = log({ results: [entry('w1', { attemptsUsed: 0 }), entry('w2'), entry('w3')] });
+  assert.deepEqual(findRoundLogProblems(noAttempt, ticket, 25_000), ['solved_without_attempt:w1']);
+});
+
+test('findRoundLogProblems: a forged 9-card PUZZLE log submitted 200ms after the ticket is rejected', () => {
+  const puzzleIds = Array.from({ length: 9 }, (_, i) => `p${i}`);
+  const puzzleTicket: RoundTicket = { ...ticket, mode: 'PUZZLE', wordIds: puzzleIds };
+  const forged: RoundLog = {
+    mode: 'PUZZLE',
+    elapsedMs: 0,
+    results: puzzleIds.map((id) => entry(id, { activatedAtMs: 0, solvedAtMs: 2_900 })),
+  };
+  const problems = findRoundLogProblems(forged, puzzleTicket, 200);
+  assert.ok(problems.includes('timing_outside_round:p0'));
+  assert.ok(problems.includes('elapsed_below_minimum'));
+  assert.ok(problems.includes('overlapping_cards:p1'));
+});
+
+test('findRoundLogProblems: every solve must end inside the round', () => {
+  const late = log({ elapsedMs: 19_000, results: [...log().results.slice(0, 2), entry('w3', { activatedAtMs: 10_000, solvedAtMs: 19_500 })] });
+  assert.deepEqual(findRoundLogProblems(late, ticket, 25_000), ['timing_outside_round:w3']);
+});
+
+test('findRoundLogProblems: PUZZLE cards are solved one after another', () => {
+  const puzzleTicket: RoundTicket = { ...ticket, mode: 'PUZZLE' };
+  const sequential = log({ mode: 'PUZZLE' });
+  assert.deepEqual(findRoundLogProblems(sequential, puzzleTicket, 25_000), []);
+
+  const overlapping = log({
+    mode: 'PUZZLE',
+    results: [entry('w1', { activatedAtMs: 0, solvedAtMs: 5_000 }), entry('w2', { activatedAtMs: 4_000, solvedAtMs: 10_000 }), entry('w3', { activatedAtMs: 10_000, solvedAtMs: 20_000 })],
+  });
+  assert.deepEqual(findRoundLogProblems(overlapping, puzzleTicket, 25_000), ['overlapping_cards:w2']);
+
+  // Scene rows may be switched back and forth, so their windows can overlap
+  assert.deepEqual(findRoundLogProblems({ ...overlapping, mode: 'SCENE' }, ticket, 25_000), []);
+});
+
+test('findRoundLogProblems: minimum solve times scale with word length', () => {
+  assert.equal(minSolveMs(0), 500);
+  assert.equal(minSolveMs(10), 1_000);
+
+  const lengths = { w1: 60, w2: 5, w3: 5 };
+  // 3s is plenty for 5 letters but too fast for 60
+  assert.deepEqual(findRoundLogProblems(log(), ticket, 25_000, lengths), ['solved_too_fast:w1']);
+
+  const short = log({
+    elapsedMs: 1_200,
+    results: [entry('w1', { solvedAtMs: 1_200 }), entry('w2', { solvedAtMs: 1_200 }), entry('w3', { solvedAtMs: 1_200 })],
+  });
+  assert.deepEqual(findRoundLogProblems(short, ticket, 25_000, { w1: 5, w2: 5, w3: 5 }), ['elapsed_below_minimum']);
+});
+
+test('canonicalRoundTicket: a challenge date is signed, and plain tickets keep their old form', () => {
+  const daily = { ...ticket, challengeDate: '2026-10-19' };
+  assert.equal(canonicalRoundTicket(daily), `${canonicalRoundTicket(ticket)}|2026-10-19`);
+  assert.notEqual(canonicalRoundTicket(daily), canonicalRoundTicket({ ...daily, challengeDate: '2026-10-20' }));
+  assert.equal(canonicalRoundTicket(ticket).split('|').length, 5);
+});
+
+test('canonicalRoundTicket: a duel ticket is bound to its duel', () => {
+  const duel = { ...ticket, duelId: 'd1' };
+  assert.equal(canonicalRoundTicket(duel), `${canonicalRoundTicket(ticket)}|duel:d1`);
+  assert.notEqual(canonicalRoundTicket(duel), canonicalRoundTicket({ ...duel, duelId: 'd2' }));
+});
+
+test('scoreRound: RECALL rounds last 120s, allow slower solves and charge less for clues than hints', () => {
+  const recall = [
+    entry('w1', { activatedAtMs: 0, solvedAtMs: 5_000 }),
+    entry('w2', { activatedAtMs: 5_000, solvedAtMs: 15_000, ambiguous: true }),
+    entry('w3', { activatedAtMs: 15_000, solvedAtMs: 30_000, hintUsed: true }),
+  ];
+  const score = scoreRound('RECALL', recall, 30_000);
+  assert.equal(score.totalDurationSeconds, 120);
+  assert.equal(score.secondsRemaining, 90);
+  // 700 accuracy + 90/120 of 200 for time + (110 + 90 + 72) / 330 of 100 for quality
+  assert.equal(score.totalScore, Math.round(700 + 150 + 272 / 330 * 100));
+});
+
+test('findRoundLogProblems: RECALL prompts are answered one after another', () => {
+  const recallTicket: RoundTicket = { ...ticket, mode: 'RECALL' };
+  assert.deepEqual(findRoundLogProblems(log({ mode: 'RECALL' }), recallTicket, 25_000), []);
+
+  const overlapping = log({
+    mode: 'RECALL',
+    results: [entry('w1', { activatedAtMs: 0, solvedAtMs: 5_000 }), entry('w2', { activatedAtMs: 4_000, solvedAtMs: 10_000 }), entry('w3', { activatedAtMs: 10_000, solvedAtMs: 20_000 })],
+  });
+  assert.deepEqual(findRoundLogProblems(overlapping, recallTicket, 25_000), ['overlapping_cards:w2']);
+});
+
+const sprintTicket: RoundTicket = { ...ticket, mode: 'SPRINT' };
+const sprintLengths = { w1: 5, w2: 5, w3: 5 };
+const sprintLog = (overrides: Partial<RoundLogEntry>[] = []): RoundLog => ({
+  mode: 'SPRINT',
+  elapsedMs: 45_000,
+  results: wordIds.map((wordId, i) => entry(wordId, {
+    activatedAtMs: i * 15_000,
+    windowOpenedAtMs: i * 15_000 + 1_000,
+    solvedAtMs: i * 15_000 + 4_000,
+    ...overrides[i],
+  })),
+});
+
+test('replaySprintCards: streaks and windows come from the log order, not the client', () => {
+  const cards = replaySprintCards(sprintLog([{}, { correct: false }, { attemptsUsed: 0 }]), sprintLengths);
+  assert.deepEqual(cards.map((c) => c.streakBefore), [0, 1, 0]);
+  assert.deepEqual(cards.map((c) => c.windowMs), [getSprintWindowMs(0, 5), getSprintWindowMs(1, 5), getSprintWindowMs(0, 5)]);
+  assert.equal(cards[0].activatedAtMs, 1_000);
+  assert.equal(cards[2].answeredAtMs, null);
+  assert.equal(scoreSprintRound(cards, 45_000).bestStreak, 1);
+});
+
+test('findRoundLogProblems: SPRINT answers must fit their window and words play in order', () => {
+  assert.deepEqual(findRoundLogProblems(sprintLog(), sprintTicket, 50_000, sprintLengths), []);
+
+  const late = sprintLog([{}, { solvedAtMs: 15_000 + 1_000 + getSprintWindowMs(1, 5) + ROUND_CLOCK_SKEW_MS + 1_000 }]);
+  assert.deepEqual(findRoundLogProblems(late, sprintTicket, 50_000, sprintLengths), ['answered_after_window:w2']);
+
+  const reordered = sprintLog([{}, { activatedAtMs: 0 }]);
+  assert.ok(findRoundLogProblems(reordered, sprintTicket, 50_000, sprintLengths).includes('out_of_order:w2'));
+
+  const twoTries = sprintLog([{ attemptsUsed: 2 }]);
+  assert.ok(findRoundLogProblems(twoTries, sprintTicket, 50_000, sprintLengths).some((p) => p.endsWith(':w1')));
+});
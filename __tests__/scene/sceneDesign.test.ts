@@ -34,6 +34,10 @@ import {
   mapWordToStoryboardSentence,
   splitStoryboardSentences,
   buildFusionResult,
+  storyPanelCount,
+  parseStoryDesignWithDiagnostics,
+  deriveStoryRegions,
+  buildStoryFallback,
 } from '../../supabase/functions/scene-generate/sceneDesign.ts';
 
 const WORDS = [
@@ -1090,3 +1094,122 @@ test('parseSceneDesignWithDiagnostics keeps the design (drops invalid storyboard
   assert.equal(design!.elements.length, 5);
   assert.equal(design!.elements[0].sentence, 'A glossy red apple sits on the counter.');
 });
+
+// ----------------------------------------------------------------
+// Story chapters
+// ----------------------------------------------------------------
+const STORY_PANELS = [
+  {
+    title: 'Breakfast',
+    narration: 'The monster finds an apple on the table. The angry cook shouts at the monster.',
+    structuredPrompt: 'isometric kitchen at dawn with [TODAYS_MASCOT]',
+    elements: [
+      { word: 'apple', positionZone: 'center', sentence: 'The monster finds an apple on the table.' },
+      { word: 'angry', positionZone: 'top-left', sentence: 'The angry cook shouts at the monster.' },
+    ],
+  },
+  {
+    title: 'The chase',
+    narration: 'The monster and the cook run out of the house.',
+    structuredPrompt: 'isometric garden path with [TODAYS_MASCOT]',
+    elements: [
+      { word: 'run', positionZone: 'bottom-left', sentence: 'The monster and the cook run out of the house.' },
+      { word: 'quickly', positionZone: 'mid-right', sentence: 'The monster climbs the tall tree quickly.' },
+    ],
+  },
+  {
+    title: 'Night',
+    structuredPrompt: 'isometric treetop at night with [TODAYS_MASCOT]',
+    elements: [
+      { word: 'moon', positionZone: 'top-right', sentence: 'The monster eats the apple under the moon.' },
+    ],
+  },
+];
+
+test('storyPanelCount asks for 3 panels, and 4 once there are 8+ words', () => {
+  assert.equal(storyPanelCount(5), 3);
+  assert.equal(storyPanelCount(7), 3);
+  assert.equal(storyPanelCount(8), 4);
+  assert.equal(storyPanelCount(10), 4);
+});
+
+test('parseStoryDesignWithDiagnostics accepts a valid 3-panel story', () => {
+  const raw = JSON.stringify({ storyTitle: ' A Hungry Day ', panels: STORY_PANELS });
+  const { design, diagnostics } = parseStoryDesignWithDiagnostics(raw, WORDS);
+  assert.ok(design);
+  assert.equal(diagnostics.parsedSuccessfully, true);
+  assert.equal(diagnostics.panelCount, 3);
+  assert.equal(diagnostics.validSentences, 5);
+  assert.deepEqual(diagnostics.reassignedWords, []);
+  assert.equal(design!.storyTitle, 'A Hungry Day');
+  assert.deepEqual(design!.panels.map((p) => p.elements.map((e) => e.word)), [['apple', 'angry'], ['run', 'quickly'], ['moon']]);
+  assert.equal(design!.panels[0].title, 'Breakfast');
+  assert.equal(design!.panels[0].narration, STORY_PANELS[0].narration);
+});
+
+test('parseStoryDesignWithDiagnostics rejects a story with too few or too many panels', () => {
+  const two = parseStoryDesignWithDiagnostics(JSON.stringify({ panels: STORY_PANELS.slice(0, 2) }), WORDS);
+  assert.equal(two.design, null);
+  assert.equal(two.diagnostics.failReason, 'panel-count');
+  assert.equal(two.diagnostics.panelCount, 2);
+
+  const five = [...STORY_PANELS, STORY_PANELS[2], STORY_PANELS[2]];
+  assert.equal(parseStoryDesignWithDiagnostics(JSON.stringify({ panels: five }), WORDS).diagnostics.failReason, 'panel-count');
+});
+
+test('parseStoryDesignWithDiagnostics rejects a panel without a structuredPrompt', () => {
+  const panels = STORY_PANELS.map((p, i) => (i === 1 ? { ...p, structuredPrompt: '  ' } : p));
+  const { design, diagnostics } = parseStoryDesignWithDiagnostics(JSON.stringify({ panels }), WORDS);
+  assert.equal(design, null);
+  assert.equal(diagnostics.failReason, 'panel-without-prompt');
+});
+
+test('parseStoryDesignWithDiagnostics moves a word no panel claimed to the emptiest panel', () => {
+  const panels = STORY_PANELS.map((p, i) => (i === 0 ? { ...p, elements: p.elements.slice(0, 1), narration: undefined } : p));
+  const { design, diagnostics } = parseStoryDesignWithDiagnostics(JSON.stringify({ panels }), WORDS);
+  assert.ok(design);
+  assert.deepEqual(diagnostics.reassignedWords, ['angry']);
+  assert.ok(diagnostics.missingSentenceFields.includes('angry'));
+  // Panels 0 and 2 both hold one word; the first of them takes it
+  assert.deepEqual(design!.panels[0].elements.map((e) => e.word), ['apple', 'angry']);
+  assert.equal(design!.panels[0].elements[1].sentence, undefined);
+});
+
+test('parseStoryDesignWithDiagnostics keeps a word claimed by two panels in the first one', () => {
+  const panels = STORY_PANELS.map((p, i) => (
+    i === 2 ? { ...p, elements: [...p.elements, { word: 'Apple', sentence: 'The monster holds the apple up high.' }] } : p
+  ));
+  const { design } = parseStoryDesignWithDiagnostics(JSON.stringify({ panels }), WORDS);
+  assert.deepEqual(design!.panels[2].elements.map((e) => e.word), ['moon']);
+  assert.deepEqual(design!.panels[0].elements.map((e) => e.word), ['apple', 'angry']);
+});
+
+test('parseStoryDesignWithDiagnostics drops a narration that breaks the storyboard rules for its panel', () => {
+  const panels = STORY_PANELS.map((p, i) => (
+    i === 1 ? { ...p, narration: 'The monster and the cook run out of the house. They sing a song.' } : p
+  ));
+  const { design, diagnostics } = parseStoryDesignWithDiagnostics(JSON.stringify({ panels }), WORDS);
+  assert.ok(design);
+  assert.equal(diagnostics.droppedNarrations, 1);
+  assert.equal(design!.panels[1].narration, undefined);
+  assert.equal(design!.panels[0].narration, STORY_PANELS[0].narration);
+});
+
+test('deriveStoryRegions places every word on its own panel in board order', () => {
+  const { design } = parseStoryDesignWithDiagnostics(JSON.stringify({ panels: STORY_PANELS }), WORDS);
+  const regions = deriveStoryRegions(design!, WORDS);
+  assert.deepEqual(regions.map((r) => [r.word, r.panel]), [
+    ['apple', 0], ['angry', 0], ['run', 1], ['quickly', 1], ['moon', 2],
+  ]);
+  assert.deepEqual({ x: regions[4].x, y: regions[4].y }, { x: 0.67, y: 0.05 });
+});
+
+test('buildStoryFallback splits the words into near-equal panels in input order', () => {
+  const design = buildStoryFallback(WORDS, 2);
+  assert.deepEqual(design.panels.map((p) => p.elements.map((e) => e.word)), [['apple', 'angry'], ['run', 'quickly'], ['moon']]);
+  for (const [i, panel] of design.panels.entries()) {
+    assert.ok(panel.structuredPrompt.startsWith(`Panel ${i + 1} of 3 `));
+    assert.ok(panel.elements.every((e) => panel.structuredPrompt.includes(e.word)));
+    assert.ok(panel.elements.every((e) => e.sentence === undefined));
+  }
+});
@@ -316,3 +316,82 @@ test('normalizeAsset ignores whitespace-only storyboard (treated as absent)', as
   ]);
   assert.equal(result.asset.storyboard, undefined);
 });
+
+// ----------------------------------------------------------------
+// Story chapters
+// ----------------------------------------------------------------
+test('story pipeline forwards one panel-rendered stage per panel', async () => {
+  const { stages } = await collectStages([
+    JSON.stringify({ stage: 'designed', source: 'llm', story: { panelCount: 3, panels: [] } }),
+    JSON.stringify({ stage: 'panel-rendered', panel: 1, panelCount: 3 }),
+    JSON.stringify({ stage: 'panel-rendered', panel: 0, panelCount: 3 }),
+    JSON.stringify({ stage: 'panel-rendered', panel: 2, panelCount: 3 }),
+    JSON.stringify({ stage: 'rendered', panelCount: 3 }),
+    JSON.stringify({ stage: 'done', source: 'generated', asset: VALID_ASSET }),
+  ]);
+  assert.deepEqual(stages, ['designed', 'panel-rendered', 'panel-rendered', 'panel-rendered', 'rendered', 'done']);
+});
+
+test('clientPersist done event carries every panel image for the client upload', async () => {
+  const { result } = await collectStages([
+    JSON.stringify({
+      stage: 'done',
+      source: 'generated',
+      clientPersist: true,
+      imageDataUrl: 'data:image/png;base64,AAA',
+      panelImageDataUrls: ['data:image/png;base64,AAA', 'data:image/png;base64,BBB', 'data:image/png;base64,CCC'],
+      pendingAsset: { wordSetHash: 'abc' },
+    }),
+  ]);
+  assert.equal(result.pendingClientPersist.imageDataUrl, 'data:image/png;base64,AAA');
+  assert.equal(result.pendingClientPersist.panelImageDataUrls.length, 3);
+  assert.equal(result.pendingClientPersist.panelImageDataUrls[2], 'data:image/png;base64,CCC');
+});
+
+test('normalizeAsset builds panels and region.panel from a story scene_design', async () => {
+  const asset = {
+    ...VALID_ASSET,
+    regions: [
+      { word: 'apple', x: 0.05, y: 0.05, w: 0.28, h: 0.28, panel: 0 },
+      { word: 'moon', x: 0.67, y: 0.05, w: 0.28, h: 0.28, panel: 1 },
+    ],
+    scene_design: {
+      mode: 'story',
+      panels: [
+        { title: ' Morning ', narration: 'Pip finds an apple.', words: ['apple'], imageUrl: 'https://x/p0.webp', storagePath: 'scenes/p0.webp' },
+        { words: ['moon'], imageUrl: 'https://x/p1.webp', storagePath: 'scenes/p1.webp' },
+      ],
+    },
+  };
+  const { result } = await collectStages([
+    JSON.stringify({ stage: 'done', source: 'generated', asset }),
+  ]);
+  assert.equal(result.asset.regions[0].panel, 0);
+  assert.equal(result.asset.regions[1].panel, 1);
+  assert.equal(result.asset.panels.length, 2);
+  assert.deepEqual(result.asset.panels[0], {
+    index: 0,
+    imageUrl: 'https://x/p0.webp',
+    storagePath: 'scenes/p0.webp',
+    words: ['apple'],
+    title: 'Morning',
+    narration: 'Pip finds an apple.',
+  });
+  assert.equal(result.asset.panels[1].title, undefined);
+});
+
+test('normalizeAsset drops panels when any panel is missing its image', async () => {
+  const asset = {
+    ...VALID_ASSET,
+    scene_design: {
+      panels: [
+        { words: ['apple'], imageUrl: 'https://x/p0.webp' },
+        { words: ['moon'], imageUrl: '' },
+      ],
+    },
+  };
+  const { result } = await collectStages([
+    JSON.stringify({ stage: 'done', source: 'generated', asset }),
+  ]);
+  assert.equal(result.asset.panels, undefined);
+});
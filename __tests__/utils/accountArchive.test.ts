@@ -0,0 +1,139 @@
+/**
+ * Tests for the account archive format and CSV / Anki exports in
+ * utils/accountArchive.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  ACCOUNT_ARCHIVE_FORMAT,
+  ACCOUNT_ARCHIVE_VERSION,
+  AccountArchiveError,
+  coinRestoreTransfer,
+  parseAccountArchive,
+  planArchiveRestore,
+  wordsToAnkiNotes,
+  wordsToCsv,
+} from '../../utils/accountArchive.ts';
+import type { AccountArchive } from '../../utils/accountArchive.ts';
+import type { WordEntry } from '../../types.ts';
+import { makeWord } from '../fixtures/words.ts';
+
+const NOW = Date.UTC(2026, 9, 19, 4, 0, 0);
+
+const makeStudiedWord = (overrides: Partial<WordEntry> = {}): WordEntry => makeWord({
+  text: 'apple',
+  timestamp: NOW,
+  correct: true,
+  tested: true,
+  error_count: 0.5,
+  best_time_ms: 1200,
+  last_tested: NOW,
+  phonetic: '/ˈæp.əl/',
+  audio_url: 'https://cdn.example/apple.mp3',
+  definition_cn: '苹果, n.',
+  definition_en: 'a round fruit',
+  image_url: 'https://cdn.example/apple.webp',
+  tags: ['CET-4', 'Deck:My Cards'],
+  sm2_interval: 6,
+  next_review_at: NOW + 6 * 86400000,
+  ...overrides,
+});
+
+const makeArchive = (): AccountArchive => ({
+  format: ACCOUNT_ARCHIVE_FORMAT,
+  version: ACCOUNT_ARCHIVE_VERSION,
+  exportedAt: new Date(NOW).toISOString(),
+  words: [makeStudiedWord(), makeStudiedWord({ id: 'w2', text: 'pear', sessionId: 'missing' })],
+  sessions: [{ id: 's1', timestamp: NOW, wordCount: 1, targetCount: -999, libraryTag: 'CET-4' }],
+  dayStats: [{ date: '2026-10-18', total: 10, correct: 8, points: 24, is_frozen: true }],
+  achievements: [{ achievement_id: 'first_word', unlocked_at: '2026-10-01T00:00:00Z' }],
+  reviews: [
+    { id: 'r1', wordId: 'w1', mode: 'CLASSIC', reviewedAt: NOW, correct: true, attempts: 1, hintLevel: 0, timeSpentMs: 1200, charsPerMinute: 250 },
+    { id: 'r2', wordId: 'gone', mode: 'PUZZLE', reviewedAt: NOW, correct: false, attempts: 2, hintLevel: 1, timeSpentMs: null, charsPerMinute: null },
+  ],
+  coins: null,
+});
+
+test('parseAccountArchive: round-trips JSON and rejects foreign or newer files', () => {
+  const archive = makeArchive();
+  assert.deepEqual(parseAccountArchive(JSON.stringify(archive)), archive);
+  assert.throws(() => parseAccountArchive('{"words": []}'), AccountArchiveError);
+  assert.throws(() => parseAccountArchive('not json'), AccountArchiveError);
+  assert.throws(
+    () => parseAccountArchive(JSON.stringify({ ...archive, version: ACCOUNT_ARCHIVE_VERSION + 1 })),
+    /newer than this app supports/
+  );
+});
+
+test('planArchiveRestore: re-issues ids and remaps every reference', () => {
+  let counter = 0;
+  const plan = planArchiveRestore(makeArchive(), 'user-b', () => `new-${++counter}`);
+
+  assert.equal(plan.sessions[0].id, 'new-1');
+  assert.equal(plan.sessions[0].user_id, 'user-b');
+  assert.deepEqual(plan.words.map(w => [w.id, w.session_id]), [['new-2', 'new-1'], ['new-3', null]]);
+  // Reviews of words missing from the archive are dropped
+  assert.deepEqual(plan.reviews.map(r => r.word_id), ['new-2']);
+  assert.equal(plan.reviews[0].hint_level, 0);
+  assert.equal(plan.dayStats[0].total_count, 10);
+  assert.equal(plan.achievements[0].achievement_id, 'first_word');
+});
+
+test('planArchiveRestore: keeps progress fields and timestamps', () => {
+  const [row] = planArchiveRestore(makeArchive(), 'user-b', () => 'id').words;
+  assert.equal(row.error_count, 0.5);
+  assert.equal(row.sm2_interval, 6);
+  assert.equal(row.last_tested, new Date(NOW).toISOString());
+  assert.equal(row.next_review_at, new Date(NOW + 6 * 86400000).toISOString());
+  assert.equal(row.created_at, new Date(NOW).toISOString());
+  assert.deepEqual(row.tags, ['CET-4', 'Deck:My Cards']);
+  assert.equal('image_url' in row, false);
+});
+
+test('coinRestoreTransfer: a restore chain A → B → C moves coins without minting any', () => {
+  const wallets: Record<string, number> = { A: 120, B: 0, C: 0 };
+  const restored = new Set<string>();
+  // Export the source's ledger (net = its balance then), restore it elsewhere
+  const restore = (source: string, target: string, exportedNet = wallets[source]) => {
+    if (restored.has(source)) return 0;
+    restored.add(source);
+    const moved = coinRestoreTransfer(wallets[source], exportedNet);
+    wallets[source] -= moved;
+    wallets[target] += moved;
+    return moved;
+  };
+  const total = () => wallets.A + wallets.B + wallets.C;
+
+  assert.equal(restore('A', 'B'), 120);
+  assert.equal(restore('B', 'C'), 120);
+  assert.deepEqual(wallets, { A: 0, B: 0, C: 120 });
+  assert.equal(total(), 120);
+
+  // The same archive cannot be restored twice
+  assert.equal(restore('A', 'C', 120), 0);
+  assert.equal(total(), 120);
+});
+
+test('coinRestoreTransfer: coins the source spent after exporting are not moved', () => {
+  assert.equal(coinRestoreTransfer(30, 120), 30);
+  assert.equal(coinRestoreTransfer(200, 120), 120);
+  assert.equal(coinRestoreTransfer(50, -10), 0);
+  assert.equal(coinRestoreTransfer(0, 120), 0);
+});
+
+test('wordsToCsv: header plus quoted fields', () => {
+  const [header, line] = wordsToCsv([makeStudiedWord()]).split('\r\n');
+  assert.match(header, /^word,definition_cn,definition_en,phonetic,tags,image_url,audio_url,/);
+  assert.match(line, /^apple,"苹果, n\.",a round fruit,\/ˈæp\.əl\/,CET-4; Deck:My Cards,https:\/\/cdn\.example\/apple\.webp,/);
+});
+
+test('wordsToAnkiNotes: Anki headers, media refs and space-free tags', () => {
+  const lines = wordsToAnkiNotes([makeStudiedWord({ definition_en: 'a <round> fruit' })], 'Vibe').split('\n');
+  assert.ok(lines.includes('#separator:tab'));
+  assert.ok(lines.includes('#deck:Vibe'));
+  const [front, back, tags] = lines[lines.length - 1].split('\t');
+  assert.match(front, /^apple<br>.*<audio controls src='https:\/\/cdn\.example\/apple\.mp3'><\/audio>$/);
+  assert.match(back, /<i>a &lt;round&gt; fruit<\/i><br><img src='https:\/\/cdn\.example\/apple\.webp'>$/);
+  assert.equal(tags, 'CET-4 Deck:My_Cards');
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for the audio sprint tempo and scoring in utils/audioSprint.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  calculateSprintGameSummary,
+  checkSprintAnswer,
+  getSprintBestStreak,
+  getSprintWindowMs,
+  SPRINT_MIN_WINDOW_MS,
+  SPRINT_START_WINDOW_MS,
+} from '../../utils/audioSprint.ts';
+import type { SprintCardResult } from '../../types.ts';
+
+const result = (overrides: Partial<SprintCardResult> = {}): SprintCardResult => ({
+  wordId: 'w1',
+  wordText: 'apple',
+  correct: true,
+  timedOut: false,
+  windowMs: SPRINT_START_WINDOW_MS,
+  streakBefore: 0,
+  playedAtMs: 0,
+  activatedAtMs: 0,
+  answeredAtMs: 3000,
+  ...overrides,
+});
+
+test('getSprintWindowMs: shrinks with the streak, floors out, pads long words', () => {
+  assert.equal(getSprintWindowMs(0, 5), SPRINT_START_WINDOW_MS);
+  assert.ok(getSprintWindowMs(4, 5) < getSprintWindowMs(3, 5));
+  assert.equal(getSprintWindowMs(100, 5), SPRINT_MIN_WINDOW_MS);
+  assert.ok(getSprintWindowMs(0, 12) > getSprintWindowMs(0, 6));
+});
+
+test('checkSprintAnswer: case and whitespace insensitive, empty is wrong', () => {
+  assert.equal(checkSprintAnswer('  Apple ', 'apple'), true);
+  assert.equal(checkSprintAnswer('ice  cream', 'ice cream'), true);
+  assert.equal(checkSprintAnswer('appel', 'apple'), false);
+  assert.equal(checkSprintAnswer('   ', ''), false);
+});
+
+test('getSprintBestStreak: longest run of correct answers', () => {
+  const runs = [true, true, false, true, true, true, false].map((correct) => result({ correct }));
+  assert.equal(getSprintBestStreak(runs), 3);
+  assert.equal(getSprintBestStreak([]), 0);
+});
+
+test('calculateSprintGameSummary: a faster tempo scores higher than the same answers at the start tempo', () => {
+  const steady = Array.from({ length: 10 }, () => result());
+  const ramped = Array.from({ length: 10 }, (_, index) => result({
+    streakBefore: index,
+    windowMs: getSprintWindowMs(index, 5),
+  }));
+
+  const steadySummary = calculateSprintGameSummary(steady, 45000, 'random', 0, true);
+  const rampedSummary = calculateSprintGameSummary(ramped, 45000, 'random', 0, true);
+  assert.equal(steadySummary.accuracyRate, 1);
+  assert.equal(steadySummary.bestStreak, 10);
+  assert.equal(steadySummary.timeUsedSeconds, 45);
+  assert.ok(rampedSummary.totalScore > steadySummary.totalScore);
+  assert.equal(rampedSummary.fastestWindowMs, getSprintWindowMs(9, 5));
+
+  const poor = calculateSprintGameSummary(
+    [result(), result({ correct: false, timedOut: true, answeredAtMs: null })],
+    20000,
+    'smart',
+    0.9,
+    false,
+    'overlap_too_high',
+  );
+  assert.equal(poor.speedScore, 0);
+  assert.equal(poor.rankingIneligibleReason, 'overlap_too_high');
+});
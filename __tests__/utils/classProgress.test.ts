@@ -0,0 +1,77 @@
+/**
+ * Tests for classroom assignment slicing and progress in utils/classProgress.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildClassProgress, daysUntilDue, sliceLibraryWords } from '../../utils/classProgress.ts';
+import type { ClassAssignment, ClassStudent, StudentDailyRow, StudentWordRow } from '../../utils/classProgress.ts';
+import { validateLibraryTag } from '../../utils/libraryManifest.ts';
+
+const DAY = 24 * 60 * 60 * 1000;
+const SET_AT = Date.UTC(2026, 9, 1, 2); // 2026-10-01 10:00 Beijing
+
+const assignment = (overrides: Partial<ClassAssignment> = {}): ClassAssignment => ({
+  id: 'a1',
+  classId: 'c1',
+  title: 'Week 1',
+  source: { kind: 'session', label: 'Week 1' },
+  words: [{ text: 'apple', meaning: null }, { text: 'Banana', meaning: null }, { text: 'cherry', meaning: null }, { text: 'date', meaning: null }],
+  dueAt: SET_AT + 7 * DAY,
+  createdAt: SET_AT,
+  ...overrides,
+});
+
+const students: ClassStudent[] = [
+  { userId: 's1', name: 'Ann', joinedAt: SET_AT - DAY },
+  { userId: 's2', name: null, joinedAt: SET_AT - DAY },
+];
+
+test('sliceLibraryWords: filters by level, then takes a 1-based range', () => {
+  const words = ['a', 'b', 'c', 'd', 'e'].map((text, i) => ({ text, meaning: `m${i}`, level: i % 2 === 0 ? 1 : 2 }));
+  assert.deepEqual(sliceLibraryWords(words, { level: 1 }).map(w => w.text), ['a', 'c', 'e']);
+  assert.deepEqual(sliceLibraryWords(words, { from: 2, to: 3 }), [{ text: 'b', meaning: 'm1' }, { text: 'c', meaning: 'm2' }]);
+  assert.deepEqual(sliceLibraryWords(words, { level: 1, from: 2 }).map(w => w.text), ['c', 'e']);
+});
+
+test('buildClassProgress: completion counts words tested since the assignment was set', () => {
+  const words: StudentWordRow[] = [
+    { userId: 's1', text: 'apple', tested: true, correct: true, errorCount: 0, lastTested: SET_AT + DAY },
+    { userId: 's1', text: 'banana', tested: true, correct: false, errorCount: 3, lastTested: SET_AT + DAY },
+    // Tested before the assignment: does not count
+    { userId: 's1', text: 'cherry', tested: true, correct: true, errorCount: 2, lastTested: SET_AT - DAY },
+  ];
+  const daily: StudentDailyRow[] = [
+    { userId: 's1', date: '2026-09-30', total: 50, correct: 10 },
+    { userId: 's1', date: '2026-10-02', total: 10, correct: 8 },
+    { userId: 's1', date: '2026-10-03', total: 10, correct: 6 },
+  ];
+
+  const [ann, second] = buildClassProgress(students, [assignment()], words, daily, SET_AT + 2 * DAY);
+  assert.equal(ann.studied, 2);
+  assert.equal(ann.completionRate, 50);
+  assert.equal(ann.accuracy, 70);
+  assert.equal(ann.errorCount, 5);
+  assert.deepEqual(ann.strugglingWords, ['Banana', 'cherry']);
+  assert.equal(ann.status, 'in_progress');
+
+  assert.equal(second.studied, 0);
+  assert.equal(second.accuracy, null);
+  assert.equal(second.status, 'not_started');
+});
+
+test('buildClassProgress: complete beats overdue, unfinished work past the due date is overdue', () => {
+  const all = ['apple', 'banana', 'cherry', 'date'].map(text => ({
+    userId: 's1', text, tested: true, correct: true, errorCount: 0, lastTested: SET_AT + DAY,
+  }));
+  const progress = buildClassProgress(students, [assignment()], all, [], SET_AT + 10 * DAY);
+  assert.equal(progress[0].status, 'complete');
+  assert.equal(progress[1].status, 'overdue');
+});
+
+test('daysUntilDue and class tags', () => {
+  assert.equal(daysUntilDue(null), null);
+  assert.equal(daysUntilDue(SET_AT + 36 * 60 * 60 * 1000, SET_AT), 2);
+  assert.equal(daysUntilDue(SET_AT - DAY, SET_AT), -1);
+  assert.notEqual(validateLibraryTag('Class:Year 7'), null);
+});
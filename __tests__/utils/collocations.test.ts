@@ -0,0 +1,98 @@
+/**
+ * Tests for collocation suggestions and the phrase cloze in
+ * utils/collocations.ts, against the shipped collocations.json.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+
+import {
+  buildPhraseClozeItems,
+  calculatePhraseClozeSummary,
+  checkPhraseClozeAnswer,
+  formatClozePhrase,
+  getClozeBlankIndex,
+  normalizeCollocationCandidates,
+  parseCollocationList,
+  suggestCollocations,
+} from '../../utils/collocations.ts';
+import { makeWord } from '../fixtures/words.ts';
+
+const entries = parseCollocationList(
+  JSON.parse(readFileSync(new URL('../../public/dictionaries/collocations.json', import.meta.url), 'utf8')),
+);
+
+test('parseCollocationList: the shipped list is 2-3 word verb / adjective + noun phrases', () => {
+  assert.ok(entries.length > 200);
+  assert.ok(entries.every((e) => e.phrase.split(' ').length <= 3));
+  assert.ok(entries.some((e) => e.phrase === 'make a decision' && e.pattern === 'verb_noun' && e.meaningZh === '做决定'));
+  assert.deepEqual(parseCollocationList({ format: 'other', formatVersion: 1, entries: [] }), []);
+});
+
+test('suggestCollocations: keyed by first / last token, skipping saved and repeated phrases', () => {
+  const words = [
+    makeWord({ id: '1', text: 'decision' }),
+    makeWord({ id: '2', text: 'rain' }),
+    makeWord({ id: '3', text: 'animal' }),
+    makeWord({ id: '4', text: 'make a decision' }),
+    makeWord({ id: '5', text: 'difficult' }),
+  ];
+  const suggestions = suggestCollocations(words, entries, 3);
+
+  const phrases = suggestions.map((s) => s.phrase);
+  assert.ok(phrases.includes('heavy rain'));
+  assert.ok(phrases.includes('wild animals'), 'plural nouns match the singular library word');
+  assert.ok(!phrases.includes('make a decision'), 'already saved');
+  assert.equal(new Set(phrases).size, phrases.length);
+
+  const decision = suggestions.filter((s) => s.headWordId === '1');
+  assert.ok(decision.length > 0 && decision.length <= 3);
+  assert.ok(decision.every((s) => s.source === 'local' && s.phrase.endsWith('decision')));
+  // "difficult decision" went to decision first
+  assert.ok(!suggestions.some((s) => s.headWordId === '5' && s.phrase === 'difficult decision'));
+});
+
+test('normalizeCollocationCandidates: provider output must be a known pattern containing the word', () => {
+  const candidates = normalizeCollocationCandidates([
+    { phrase: '  Reach  a  Compromise ', pattern: 'verb_noun', meaningZh: '达成妥协' },
+    { phrase: 'reach a compromise', pattern: 'verb_noun', meaningZh: null },
+    { phrase: 'fair compromise', pattern: 'adj_noun' },
+    { phrase: 'compromise', pattern: 'verb_noun' },
+    { phrase: 'come to a compromise', pattern: 'verb_noun' },
+    { phrase: 'make peace', pattern: 'verb_noun' },
+    { phrase: 'willing to compromise', pattern: 'adverb' },
+  ], 'compromise');
+
+  assert.deepEqual(candidates, [
+    { phrase: 'reach a compromise', pattern: 'verb_noun', meaningZh: '达成妥协' },
+    { phrase: 'fair compromise', pattern: 'adj_noun', meaningZh: null },
+  ]);
+  assert.deepEqual(normalizeCollocationCandidates({ phrase: 'x y' }, 'x'), []);
+});
+
+test('buildPhraseClozeItems: blanks the first content word of saved phrases only', () => {
+  assert.equal(getClozeBlankIndex('take part in'), 0);
+  assert.equal(getClozeBlankIndex('the heavy rain'), 1);
+
+  const words = [
+    makeWord({ id: '1', text: 'Heavy Rain', definition_cn: '大雨' }),
+    makeWord({ id: '2', text: 'decision' }),
+    makeWord({ id: '3', text: 'do your best' }),
+  ];
+  const items = buildPhraseClozeItems(words, 10, () => 0.5);
+  assert.deepEqual(items.map((i) => i.wordId).sort(), ['1', '3']);
+
+  const rain = items.find((i) => i.wordId === '1')!;
+  assert.equal(rain.answer, 'heavy');
+  assert.equal(rain.meaningZh, '大雨');
+  assert.equal(formatClozePhrase(rain), '_____ rain');
+  assert.ok(checkPhraseClozeAnswer(rain, ' HEAVY '));
+  assert.ok(!checkPhraseClozeAnswer(rain, 'strong'));
+
+  const summary = calculatePhraseClozeSummary([
+    { wordId: '1', phrase: 'heavy rain', answer: 'heavy', typed: 'heavy', correct: true, answeredInMs: 900 },
+    { wordId: '3', phrase: 'do your best', answer: 'do', typed: 'try', correct: false, answeredInMs: 1200 },
+  ]);
+  assert.equal(summary.wordsCorrect, 1);
+  assert.equal(summary.accuracyRate, 0.5);
+});
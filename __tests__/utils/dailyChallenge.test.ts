@@ -0,0 +1,76 @@
+/**
+ * Tests for the day's word set, share cards and challenge dates in
+ * utils/dailyChallenge.ts and supabase/functions/verify-round/dailyChallenge.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildDailyShareCard, dailyChallengeWordMeta } from '../../utils/dailyChallenge.ts';
+import {
+  challengeDayIndex,
+  dailyChallengeWordIds,
+  type DailyChallengePackWord,
+  isChallengeDate,
+  parseDailyChallengePackFile,
+  selectDailyChallengeWords,
+  shanghaiDateOf,
+} from '../../supabase/functions/verify-round/dailyChallenge.ts';
+
+const pack: DailyChallengePackWord[] = [
+  'apple', 'banana', 'cat', 'dog', 'egg', 'fish', 'garden', 'house', 'ice cream', 'a', 'jacket', 'kite', 'lemon', 'Apple',
+].map((text, i) => ({ text, meaning: i === 0 ? 'n. 苹果' : null }));
+
+test('everyone gets the same six words for a day, whatever order their pack file lists them in', () => {
+  const words = selectDailyChallengeWords(pack, '2026-10-19', 'primary');
+  const again = selectDailyChallengeWords([...pack].reverse(), '2026-10-19', 'primary');
+
+  assert.equal(words.length, 6);
+  assert.deepEqual(again, words);
+  assert.equal(new Set(words.map(w => w.text)).size, 6);
+  assert.ok(words.every(w => /^[a-z]{3,}$/.test(w.text)), 'no phrases, one-letter words or capitals');
+  assert.notDeepEqual(selectDailyChallengeWords(pack, '2026-10-20', 'primary').map(w => w.text), words.map(w => w.text));
+
+  const apple = selectDailyChallengeWords(pack, '2026-10-19', 'primary', 11).find(w => w.text === 'apple');
+  assert.deepEqual(apple, { text: 'apple', definitionCn: 'n. 苹果' });
+  assert.deepEqual(dailyChallengeWordMeta(apple!), { text: 'apple', pos: 'noun', definitionCn: 'n. 苹果' });
+});
+
+test('the server reads built-in word lists in both pack file formats', () => {
+  assert.deepEqual(parseDailyChallengePackFile('/dictionaries/wordlists/primary.txt', '\uFEFFapple\nbanana\tn. 香蕉\r\n'), [
+    { text: 'apple', meaning: null },
+    { text: 'banana', meaning: 'n. 香蕉' },
+    { text: '', meaning: null },
+  ]);
+  assert.deepEqual(
+    parseDailyChallengePackFile('/dictionaries/packs/gre.json', '["apathy", {"text": "anomaly", "meaning": "n. 异常"}]'),
+    [{ text: 'apathy', meaning: null }, { text: 'anomaly', meaning: 'n. 异常' }],
+  );
+});
+
+test('the share card shows first-try, retried and missed words as an emoji row', () => {
+  const card = buildDailyShareCard({
+    date: '2026-10-19',
+    marks: [
+      { correct: true, attemptsUsed: 1 },
+      { correct: true, attemptsUsed: 2 },
+      { correct: false, attemptsUsed: 3 },
+      { correct: false, attemptsUsed: 0 },
+    ],
+    totalScore: 611.6,
+    timeUsedSeconds: 84,
+  });
+
+  assert.equal(card, 'Vibe Word Daily 2026-10-19\n🟩🟨🟥🟥\n2/4 · 612 pts · 1:24');
+});
+
+test('challenge dates follow Shanghai time and pick the weekday mascot', () => {
+  // 2026-10-18 17:30 UTC is already Monday the 19th in Shanghai
+  assert.equal(shanghaiDateOf(Date.UTC(2026, 9, 18, 17, 30)), '2026-10-19');
+  assert.equal(shanghaiDateOf(Date.UTC(2026, 9, 18, 15, 59)), '2026-10-18');
+  assert.equal(challengeDayIndex('2026-10-19'), 1);
+
+  assert.ok(isChallengeDate('2026-10-19'));
+  assert.equal(isChallengeDate('2026-13-40'), false);
+  assert.equal(isChallengeDate('19/10/2026'), false);
+  assert.deepEqual(dailyChallengeWordIds('2026-10-19', 2), ['daily:2026-10-19:0', 'daily:2026-10-19:1']);
+});
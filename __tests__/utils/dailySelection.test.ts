@@ -0,0 +1,69 @@
+/**
+ * Tests for the shared daily-overlap selection in utils/dailySelection.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  calculateMaxOverlapRate,
+  createDailySelectionHistory,
+  enforceDailyOverlapCap,
+  shuffleWords,
+} from '../../utils/dailySelection.ts';
+
+const words = (...ids: string[]) => ids.map(id => ({ id }));
+const ids = (list: Array<{ id: string }>) => list.map(w => w.id);
+
+test('enforceDailyOverlapCap: skips words that would repeat too much of an earlier round', () => {
+  const pool = words('a', 'b', 'c', 'd', 'e', 'f', 'g');
+  // count 5 → at most 3 words from round [a, b, c, d]
+  assert.deepEqual(ids(enforceDailyOverlapCap(pool, [['a', 'b', 'c', 'd']], 5)), ['a', 'b', 'c', 'e', 'f']);
+  assert.deepEqual(ids(enforceDailyOverlapCap(pool, [], 3)), ['a', 'b', 'c']);
+});
+
+test('enforceDailyOverlapCap: a pool too small for the cap is filled in priority order', () => {
+  const pool = words('a', 'b', 'c', 'd');
+  // The cap allows two of them; c and d are added back after the first pass
+  assert.deepEqual(ids(enforceDailyOverlapCap(pool, [['a', 'b', 'c', 'd']], 4)), ['a', 'b', 'c', 'd']);
+  assert.deepEqual(ids(enforceDailyOverlapCap(words('c', 'd', 'a', 'x'), [['a', 'c', 'd']], 3)), ['c', 'x', 'd']);
+});
+
+test('calculateMaxOverlapRate: worst earlier round wins', () => {
+  const selection = words('a', 'b', 'c', 'd');
+  assert.equal(calculateMaxOverlapRate(selection, [['a', 'x'], ['b', 'c', 'd']]), 0.75);
+  assert.equal(calculateMaxOverlapRate(selection, []), 0);
+  assert.equal(calculateMaxOverlapRate([], [['a']]), 0);
+});
+
+test('shuffleWords: returns a new array with the same items', () => {
+  const input = ['a', 'b', 'c', 'd'];
+  const shuffled = shuffleWords(input);
+  assert.notEqual(shuffled, input);
+  assert.deepEqual([...shuffled].sort(), input);
+});
+
+test('createDailySelectionHistory: keeps today\'s rounds per key, capped at the limit', () => {
+  const store = new Map<string, string>();
+  (globalThis as any).window = {
+    localStorage: {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => { store.set(key, value); },
+    },
+  };
+  try {
+    const puzzle = createDailySelectionHistory('puzzle_history', 2);
+    const scene = createDailySelectionHistory('scene_history', 2);
+    puzzle.save(words('a'));
+    puzzle.save(words('b'));
+    puzzle.save(words('c'));
+    scene.save(words('z'));
+    assert.deepEqual(puzzle.load().rounds, [['b'], ['c']]);
+    assert.deepEqual(scene.load().rounds, [['z']]);
+
+    // Yesterday's history is dropped
+    store.set('puzzle_history', JSON.stringify({ date: '2000-01-01', rounds: [['a']] }));
+    assert.deepEqual(puzzle.load().rounds, []);
+  } finally {
+    delete (globalThis as any).window;
+  }
+});
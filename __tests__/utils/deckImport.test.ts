@@ -0,0 +1,138 @@
+/**
+ * Tests for CSV / Anki deck parsing and column mapping in utils/deckImport.ts
+ * (and the zip / SQLite readers underneath it).
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DatabaseSync } from 'node:sqlite';
+import { deflateRawSync } from 'node:zlib';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  ankiCardToSchedule,
+  buildDeckImportPreview,
+  cleanDeckField,
+  guessColumnMapping,
+  parseAnkiPackage,
+  parseDelimitedDeck,
+} from '../../utils/deckImport.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Single-entry deflate zip (CRC left at 0; the reader does not check it) */
+const buildZip = (name: string, content: Uint8Array): ArrayBuffer => {
+  const nameBytes = new TextEncoder().encode(name);
+  const data = deflateRawSync(content);
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(content.length, 22);
+  local.writeUInt16LE(nameBytes.length, 26);
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(content.length, 24);
+  central.writeUInt16LE(nameBytes.length, 28);
+  const centralOffset = local.length + nameBytes.length + data.length;
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(1, 8);
+  eocd.writeUInt16LE(1, 10);
+  eocd.writeUInt32LE(central.length + nameBytes.length, 12);
+  eocd.writeUInt32LE(centralOffset, 16);
+  const zip = Buffer.concat([local, nameBytes, data, central, nameBytes, eocd]);
+  return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.length);
+};
+
+test('parseDelimitedDeck: quoted CSV fields with commas, quotes and newlines', () => {
+  const table = parseDelimitedDeck('word,meaning\napple,"苹果, n."\n"say ""hi""","line1\nline2"\n', 'deck.csv', true);
+  assert.equal(table.format, 'csv');
+  assert.deepEqual(table.columns, ['word', 'meaning']);
+  assert.deepEqual(table.rows.map(r => r.values), [['apple', '苹果, n.'], ['say "hi"', 'line1\nline2']]);
+});
+
+test('parseDelimitedDeck: Anki plain-text headers set separator and columns', () => {
+  const table = parseDelimitedDeck('#separator:tab\n#html:true\n#columns:Front\tBack\nabandon\t放弃\n', 'notes.txt', false);
+  assert.equal(table.format, 'tsv');
+  assert.deepEqual(table.columns, ['Front', 'Back']);
+  assert.deepEqual(table.rows[0].values, ['abandon', '放弃']);
+});
+
+test('guessColumnMapping: recognises common header names', () => {
+  assert.deepEqual(guessColumnMapping(['单词', '音标', '中文释义', 'Tags']), {
+    word: 0, phonetic: 1, definitionCn: 2, definitionEn: null, tags: 3,
+  });
+  assert.deepEqual(guessColumnMapping(['Column 1', 'Column 2']).word, 0);
+  assert.deepEqual(guessColumnMapping(['Column 1', 'Column 2']).definitionCn, 1);
+});
+
+test('cleanDeckField: strips HTML, sound refs and entities', () => {
+  assert.equal(cleanDeckField('<b>run</b>[sound:run.mp3]'), 'run');
+  assert.equal(cleanDeckField('v. 跑<br>n. 跑步&nbsp;&amp;&#x41;'), 'v. 跑; n. 跑步 &A');
+});
+
+test('buildDeckImportPreview: splits new words, existing duplicates and file repeats', () => {
+  const table = parseDelimitedDeck('word,meaning\nApple,苹果\nbanana,香蕉\napple,苹果\n,空\n', 'deck.csv', true);
+  const preview = buildDeckImportPreview(table, guessColumnMapping(table.columns), [{ id: 'w1', text: 'banana' }]);
+  assert.deepEqual(preview.newRecords.map(r => r.text), ['Apple']);
+  assert.deepEqual(preview.duplicates.map(d => d.existingWordId), ['w1']);
+  assert.equal(preview.repeatedInFile, 1);
+  assert.equal(preview.emptyRows, 1);
+});
+
+test('ankiCardToSchedule: review card maps interval, ease and due day', () => {
+  const crt = Date.UTC(2026, 0, 1) / 1000;
+  const schedule = ankiCardToSchedule({ type: 2, due: 300, ivl: 20, factor: 2300, reps: 8, lapses: 2 }, crt, null)!;
+  assert.equal(schedule.sm2_interval, 20);
+  assert.equal(schedule.sm2_ease_factor, 2.3);
+  assert.equal(schedule.sm2_repetitions, 6);
+  assert.equal(schedule.error_count, 2);
+  assert.equal(schedule.next_review_at, (crt + 300 * 86400) * 1000);
+  assert.equal(schedule.last_tested, schedule.next_review_at! - 20 * DAY_MS);
+  assert.equal(ankiCardToSchedule({ type: 0, due: 1, ivl: 0, factor: 0, reps: 0, lapses: 0 }, crt, null), null);
+});
+
+test('parseAnkiPackage: reads notes, fields and card scheduling from an .apkg', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'deck-import-'));
+  try {
+    const dbPath = join(dir, 'collection.anki2');
+    const db = new DatabaseSync(dbPath);
+    db.exec(`
+      CREATE TABLE col (id integer primary key, crt integer not null, models text not null);
+      CREATE TABLE notes (id integer primary key, mid integer not null, tags text not null, flds text not null);
+      CREATE TABLE cards (id integer primary key, nid integer not null, ord integer not null, type integer not null,
+        queue integer not null, due integer not null, ivl integer not null, factor integer not null,
+        reps integer not null, lapses integer not null, data text not null);
+      CREATE TABLE revlog (id integer primary key, cid integer not null);
+    `);
+    const models = { 1: { flds: [{ name: 'Front', ord: 0 }, { name: 'Back', ord: 1 }] } };
+    db.prepare('INSERT INTO col VALUES (1, ?, ?)').run(1767225600, JSON.stringify(models));
+    db.prepare('INSERT INTO notes VALUES (?, 1, ?, ?)').run(101, ' cet4 verbs ', 'abandon\x1f<div>放弃</div>');
+    db.prepare('INSERT INTO notes VALUES (?, 1, ?, ?)').run(102, '', 'apple\x1f苹果');
+    db.prepare('INSERT INTO cards VALUES (?, ?, 0, ?, ?, ?, ?, ?, ?, ?, ?)').run(201, 101, 2, -1, 100, 15, 2500, 5, 1, '{"s":12.5,"d":4.2}');
+    db.prepare('INSERT INTO cards VALUES (?, ?, 0, 0, 0, 1, 0, 0, 0, 0, ?)').run(202, 102, '');
+    db.prepare('INSERT INTO revlog VALUES (?, ?)').run(1767225600000 + 5000, 201);
+    db.close();
+
+    const table = await parseAnkiPackage(buildZip('collection.anki2', new Uint8Array(readFileSync(dbPath))));
+    assert.equal(table.format, 'apkg');
+    assert.deepEqual(table.columns, ['Front', 'Back', 'Tags']);
+
+    const preview = buildDeckImportPreview(table, guessColumnMapping(table.columns), []);
+    const [abandon, apple] = preview.newRecords;
+    assert.equal(abandon.text, 'abandon');
+    assert.equal(abandon.definition_cn, '放弃');
+    assert.deepEqual(abandon.tags, ['cet4', 'verbs']);
+    assert.equal(abandon.suspended, true);
+    assert.equal(abandon.schedule?.sm2_interval, 15);
+    assert.equal(abandon.schedule?.fsrs_stability, 12.5);
+    assert.equal(abandon.schedule?.last_tested, 1767225605000);
+    assert.equal(apple.schedule, null);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for the FSRS memory model (utils/fsrsAlgorithm.ts) and the offline
+ * weight optimizer (utils/fsrsOptimizer.ts).
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  retrievability,
+  nextIntervalDays,
+  calculateNextFSRSState,
+  qualityToFSRSGrade,
+} from '../../utils/fsrsAlgorithm.ts';
+import { evaluateFSRSLoss, optimizeFSRSWeights } from '../../utils/fsrsOptimizer.ts';
+import type { FSRSReviewSequence } from '../../utils/fsrsOptimizer.ts';
+
+const WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206,
+  5.1618, 1.2298, 0.8975, 0.031,
+  1.6474, 0.1367, 1.0461,
+  2.1072, 0.0793, 0.3246, 1.587,
+  0.2272, 2.8755,
+];
+const PARAMS = { weights: WEIGHTS, requestRetention: 0.9, maximumIntervalDays: 365 };
+
+test('retrievability: 90% after exactly `stability` days', () => {
+  assert.ok(Math.abs(retrievability(10, 10) - 0.9) < 1e-9);
+  assert.equal(retrievability(0, 10), 1);
+});
+
+test('nextIntervalDays: at 90% retention the interval equals stability', () => {
+  assert.equal(nextIntervalDays(10, PARAMS), 10);
+  assert.equal(nextIntervalDays(0.2, PARAMS), 1);
+  assert.equal(nextIntervalDays(10_000, PARAMS), 365);
+});
+
+test('calculateNextFSRSState: first review uses per-grade initial stability', () => {
+  assert.equal(calculateNextFSRSState(null, 3, 0, WEIGHTS).stability, WEIGHTS[2]);
+  assert.equal(calculateNextFSRSState(null, 1, 0, WEIGHTS).stability, WEIGHTS[0]);
+});
+
+test('calculateNextFSRSState: recall grows stability, lapse shrinks it', () => {
+  const state = { stability: 5, difficulty: 5 };
+  assert.ok(calculateNextFSRSState(state, 3, 5, WEIGHTS).stability > 5);
+  assert.ok(calculateNextFSRSState(state, 1, 5, WEIGHTS).stability < 5);
+  assert.ok(calculateNextFSRSState(state, 1, 5, WEIGHTS).difficulty > 5);
+});
+
+test('qualityToFSRSGrade: failure is Again, hinted is Hard, clean is Good', () => {
+  assert.equal(qualityToFSRSGrade(1), 1);
+  assert.equal(qualityToFSRSGrade(4), 2);
+  assert.equal(qualityToFSRSGrade(5), 3);
+});
+
+test('optimizeFSRSWeights: skips optimization with too little history', () => {
+  const sequences: FSRSReviewSequence[] = [[{ elapsedDays: 0, grade: 3 }, { elapsedDays: 3, grade: 3 }]];
+  const result = optimizeFSRSWeights(sequences, WEIGHTS, { iterations: 5, stepSize: 0.05, minReviews: 10 });
+  assert.equal(result.optimized, false);
+  assert.deepEqual(result.weights, WEIGHTS);
+});
+
+test('optimizeFSRSWeights: never increases the loss', () => {
+  // A learner who forgets much faster than the defaults predict
+  const sequences: FSRSReviewSequence[] = Array.from({ length: 20 }, () => [
+    { elapsedDays: 0, grade: 3 },
+    { elapsedDays: 4, grade: 1 },
+    { elapsedDays: 1, grade: 3 },
+    { elapsedDays: 3, grade: 1 },
+  ]);
+  const result = optimizeFSRSWeights(sequences, WEIGHTS, { iterations: 5, stepSize: 0.1, minReviews: 10 });
+  assert.equal(result.optimized, true);
+  assert.ok(result.finalLoss < result.initialLoss);
+  assert.ok(Math.abs(evaluateFSRSLoss(sequences, result.weights) - result.finalLoss) < 1e-3);
+});
+
+test('optimizeFSRSWeights: reports rising progress that ends at 1', () => {
+  const sequences: FSRSReviewSequence[] = Array.from({ length: 20 }, () => [
+    { elapsedDays: 0, grade: 3 },
+    { elapsedDays: 4, grade: 1 },
+  ]);
+  const progress: number[] = [];
+  optimizeFSRSWeights(sequences, WEIGHTS, { iterations: 3, stepSize: 0.1, minReviews: 10 }, p => progress.push(p));
+  assert.ok(progress.length > 1);
+  assert.ok(progress.every((p, i) => p > 0 && p <= 1 && (i === 0 || p >= progress[i - 1])));
+  assert.equal(progress[progress.length - 1], 1);
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for the library pack manifest, word-list parsing and coverage in
+ * utils/libraryManifest.ts (and the shipped manifest under public/).
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import {
+  computePackCoverage,
+  LIBRARY_MANIFEST_FORMAT,
+  LibraryManifestError,
+  libraryPackFromRow,
+  parseLibraryManifest,
+  parsePackWordFile,
+  parsePackWordText,
+  validateLibraryTag,
+} from '../../utils/libraryManifest.ts';
+
+const PUBLIC_DIR = join(import.meta.dirname, '..', '..', 'public');
+
+const manifestWith = (packs: unknown[]) => ({ format: LIBRARY_MANIFEST_FORMAT, formatVersion: 1, packs });
+
+test('parseLibraryManifest: shipped manifest lists every pack and its word file exists', () => {
+  const packs = parseLibraryManifest(JSON.parse(readFileSync(join(PUBLIC_DIR, 'dictionaries', 'manifest.json'), 'utf8')));
+  assert.deepEqual(
+    packs.map(p => p.tag),
+    ['Primary', 'Junior', 'Senior', 'CET-4', 'CET-6', 'Kaoyan', 'IELTS', 'TOEFL', 'GRE']
+  );
+  // The exam packs ship a short starter list and must say so
+  assert.deepEqual(packs.filter(p => p.sample).map(p => p.tag), ['Kaoyan', 'IELTS', 'TOEFL', 'GRE']);
+
+  for (const pack of packs) {
+    const words = parsePackWordFile(pack.wordList!, readFileSync(join(PUBLIC_DIR, pack.wordList!), 'utf8'));
+    assert.equal(words.length, pack.wordCount, `${pack.tag} wordCount`);
+    if (pack.levels.length > 0) {
+      const levels = new Set(pack.levels.map(l => l.level));
+      assert.ok(words.every(w => w.meaning && levels.has(w.level!)), `${pack.tag} meanings and levels`);
+    }
+  }
+});
+
+test('parseLibraryManifest: rejects foreign files, newer formats and bad tags', () => {
+  assert.throws(() => parseLibraryManifest({ packs: [] }), LibraryManifestError);
+  assert.throws(() => parseLibraryManifest({ ...manifestWith([]), formatVersion: 2 }), /not supported/);
+  const pack = { id: 'a', name: 'A', tag: 'A', wordList: '/a.txt' };
+  assert.throws(() => parseLibraryManifest(manifestWith([pack, { ...pack, id: 'b' }])), /used twice/);
+  assert.throws(() => parseLibraryManifest(manifestWith([{ ...pack, tag: 'Custom' }])), /reserved/);
+
+  const [parsed] = parseLibraryManifest(manifestWith([{ ...pack, levels: [{ level: 2, name: 'Hard' }, { level: 1, name: 'Easy' }] }]));
+  assert.equal(parsed.version, 1);
+  assert.equal(parsed.source, 'builtin');
+  assert.deepEqual(parsed.levels.map(l => l.level), [1, 2]);
+});
+
+test('validateLibraryTag: keeps deck and reserved tags out', () => {
+  assert.equal(validateLibraryTag('Unit 3'), null);
+  assert.match(validateLibraryTag('Deck:Mine')!, /imported decks/);
+  assert.match(validateLibraryTag('  ')!, /empty/);
+});
+
+test('parsePackWordText: plain lists, pasted spreadsheets and CSV quoting', () => {
+  assert.deepEqual(parsePackWordText('apple\n\nPear\napple\n').map(w => w.text), ['apple', 'Pear']);
+
+  const tsv = parsePackWordText('word\tmeaning\tlevel\nabandon\tv. 放弃\t2\nable\t\t');
+  assert.deepEqual(tsv, [
+    { text: 'abandon', meaning: 'v. 放弃', level: 2 },
+    { text: 'able', meaning: null, level: null },
+  ]);
+
+  const [csv] = parsePackWordText('"run, ran",v. 跑,1');
+  assert.deepEqual(csv, { text: 'run, ran', meaning: 'v. 跑', level: 1 });
+});
+
+test('libraryPackFromRow: private packs carry inline words and share code', () => {
+  const pack = libraryPackFromRow({
+    id: 'p1', owner_id: 'teacher', name: 'Unit 3', tag: 'Unit 3', version: 4, share_code: 'AB12CD34',
+    words: [{ text: 'orbit', meaning: 'n. 轨道', level: 1 }, { text: 'Orbit' }],
+    levels: [{ level: 1, name: 'Core' }],
+  });
+  assert.equal(pack.source, 'private');
+  assert.equal(pack.wordList, null);
+  assert.equal(pack.wordCount, 1);
+  assert.equal(pack.shareCode, 'AB12CD34');
+});
+
+test('computePackCoverage: completion, missing sample and per-level progress', () => {
+  const words = parsePackWordText('alpha\t\t1\nbeta\t\t1\ngamma\t\t2\nDelta\t\t2\nepsilon');
+  const coverage = computePackCoverage(
+    words,
+    new Set(['alpha', 'delta']),
+    [{ level: 1, name: 'Easy' }, { level: 2, name: 'Hard' }],
+    2
+  );
+  assert.equal(coverage.matched, 2);
+  assert.equal(coverage.completionRate, 40);
+  assert.deepEqual(coverage.missingWords, ['beta', 'gamma']);
+  assert.deepEqual(coverage.levels, [
+    { level: 1, name: 'Easy', present: 1, total: 2 },
+    { level: 2, name: 'Hard', present: 1, total: 2 },
+  ]);
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for library upgrade diffs and plans in utils/libraryUpgrade.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  computeLibraryDiff,
+  planLibraryUpgrade,
+  wordEditDistance,
+} from '../../utils/libraryUpgrade.ts';
+import type { UpgradeWordRow } from '../../utils/libraryUpgrade.ts';
+import type { LibraryPackWord } from '../../utils/libraryManifest.ts';
+
+const w = (text: string, meaning: string | null = null): LibraryPackWord => ({ text, meaning, level: null });
+
+test('wordEditDistance: counts adjacent transpositions as one edit', () => {
+  assert.equal(wordEditDistance('colour', 'color'), 1);
+  assert.equal(wordEditDistance('centre', 'center'), 1);
+  assert.equal(wordEditDistance('abroad', 'aboard'), 2);
+  assert.equal(wordEditDistance('apple', 'apple'), 0);
+  assert.equal(wordEditDistance('', 'abc'), 3);
+});
+
+test('computeLibraryDiff: added, removed, renamed and unchanged', () => {
+  const diff = computeLibraryDiff(
+    [w('apple'), w('colour'), w('organise'), w('zebra'), w('Banana')],
+    [w('apple'), w('color'), w('organize'), w('banana'), w('kiwi')]
+  );
+  assert.deepEqual(diff.added.map(x => x.text), ['kiwi']);
+  assert.deepEqual(diff.removed.map(x => x.text), ['zebra']);
+  assert.deepEqual(diff.renamed.map(r => [r.from.text, r.to.text]), [['colour', 'color'], ['organise', 'organize']]);
+  // Case-only differences are the same word
+  assert.equal(diff.unchanged, 2);
+});
+
+test('computeLibraryDiff: different meanings or distant spellings are not renames', () => {
+  const diff = computeLibraryDiff(
+    [w('abroad', 'adv. 在国外'), w('cat')],
+    [w('aboard', 'adv. 在船上'), w('dog')]
+  );
+  assert.equal(diff.renamed.length, 0);
+  assert.deepEqual(diff.removed.map(x => x.text), ['abroad', 'cat']);
+});
+
+test('computeLibraryDiff: tagged words outside the installed version are left alone', () => {
+  const diff = computeLibraryDiff([w('apple'), w('pear'), w('mine')], [w('apple')], [w('apple'), w('pear')]);
+  assert.deepEqual(diff.removed.map(x => x.text), ['pear']);
+});
+
+test('planLibraryUpgrade: keeps progress, cleans tags and deletes only unstudied library-only words', () => {
+  const words: UpgradeWordRow[] = [
+    { id: '1', text: 'colour', tags: ['IELTS'], tested: true },
+    { id: '2', text: 'zebra', tags: ['IELTS', 'Junior'], tested: false },
+    { id: '3', text: 'yak', tags: ['IELTS'], tested: true },
+    { id: '4', text: 'xylem', tags: ['IELTS'], tested: false },
+    { id: '5', text: 'vapour', tags: ['IELTS'], tested: true },
+    { id: '6', text: 'vapor', tags: ['Custom'], tested: false },
+  ];
+  const diff = computeLibraryDiff(
+    words.filter(x => x.tags.includes('IELTS')).map(x => w(x.text)),
+    [w('color'), w('vapor'), w('kiwi')]
+  );
+  const plan = planLibraryUpgrade(diff, words, 'IELTS');
+
+  assert.deepEqual(plan.rename, [{ id: '1', from: 'colour', to: 'color', meaning: null }]);
+  // vapour → vapor already exists: tag the existing word, vapour leaves
+  assert.deepEqual(plan.add.map(x => x.text), ['kiwi', 'vapor']);
+  assert.deepEqual(plan.retag, [
+    { id: '5', text: 'vapour', tags: ['Custom'] },
+    { id: '2', text: 'zebra', tags: ['Junior'] },
+    { id: '3', text: 'yak', tags: ['Custom'] },
+  ]);
+  assert.deepEqual(plan.remove, [{ id: '4', text: 'xylem' }]);
+});
+
+test('planLibraryUpgrade: a rename shared with another library adds the new spelling instead', () => {
+  const words: UpgradeWordRow[] = [
+    { id: '1', text: 'colour', tags: ['IELTS', 'Junior'], tested: true },
+    { id: '2', text: 'organise', tags: ['IELTS', 'Mistake'], tested: true },
+  ];
+  const diff = computeLibraryDiff(
+    words.map(x => w(x.text)),
+    [w('color'), w('organize')]
+  );
+  const plan = planLibraryUpgrade(diff, words, 'IELTS');
+
+  // Junior still teaches "colour": keep that row, insert "color" for IELTS
+  assert.deepEqual(plan.add.map(x => x.text), ['color']);
+  assert.deepEqual(plan.retag, [{ id: '1', text: 'colour', tags: ['Junior'] }]);
+  // Mistake is not a library, so organise is renamed in place
+  assert.deepEqual(plan.rename, [{ id: '2', from: 'organise', to: 'organize', meaning: null }]);
+});
+
+test('planLibraryUpgrade: a word left with only status tags moves to Custom', () => {
+  const words: UpgradeWordRow[] = [
+    { id: '1', text: 'zebra', tags: ['IELTS', 'Mistake'], tested: true },
+  ];
+  const diff = computeLibraryDiff([w('zebra')], [w('kiwi')]);
+  const plan = planLibraryUpgrade(diff, words, 'IELTS');
+
+  assert.deepEqual(plan.retag, [{ id: '1', text: 'zebra', tags: ['Custom', 'Mistake'] }]);
+  assert.deepEqual(plan.remove, []);
+});
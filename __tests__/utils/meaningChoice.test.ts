@@ -0,0 +1,68 @@
+/**
+ * Tests for multiple-choice question building in utils/meaningChoice.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  buildChoiceQuestion,
+  calculateChoiceQuizSummary,
+  rankChoiceDistractors,
+} from '../../utils/meaningChoice.ts';
+import { makeWord } from '../fixtures/words.ts';
+
+// Deterministic stand-in for Math.random
+const seeded = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+const library = [
+  makeWord({ id: 't', text: 'brave', definition_cn: 'adj. 勇敢的' }),
+  makeWord({ id: 'a1', text: 'brace', definition_cn: 'adj. 支撑的' }),
+  makeWord({ id: 'a2', text: 'grave', definition_cn: 'adj. 严肃的' }),
+  makeWord({ id: 'a3', text: 'calm', definition_cn: 'adj. 平静的' }),
+  makeWord({ id: 's1', text: 'bold', definition_cn: 'adj. 大胆的；勇敢的' }),
+  makeWord({ id: 'n1', text: 'bravery', definition_cn: 'n. 勇气' }),
+  makeWord({ id: 'n2', text: 'table', definition_cn: 'n. 桌子' }),
+  makeWord({ id: 'x', text: 'empty' }),
+];
+
+test('rankChoiceDistractors: same POS first, similar spelling first, synonyms excluded', () => {
+  const ranked = rankChoiceDistractors(library[0], library).map((c) => c.word.text);
+  assert.deepEqual(ranked.slice(0, 3).sort(), ['brace', 'calm', 'grave']);
+  assert.ok(ranked.indexOf('brace') < ranked.indexOf('calm'));
+  assert.ok(!ranked.includes('bold'), 'shares the gloss 勇敢的');
+  assert.ok(!ranked.includes('empty'), 'has no meaning');
+  assert.deepEqual(ranked.slice(3), ['bravery', 'table']);
+});
+
+test('buildChoiceQuestion: four options, exactly one correct, no repeated meanings', () => {
+  const question = buildChoiceQuestion(library[0], library, seeded(7));
+  assert.ok(question);
+  assert.equal(question.options.length, 4);
+  assert.equal(question.options.filter((o) => o.correct).length, 1);
+  assert.equal(question.options.find((o) => o.correct)?.meaningZh, '勇敢的');
+  assert.equal(new Set(question.options.map((o) => o.meaningZh)).size, 4);
+  assert.deepEqual(question.options.filter((o) => !o.correct).map((o) => o.wordId).sort(), ['a1', 'a2', 'a3']);
+});
+
+test('buildChoiceQuestion: falls back to other POS, gives up without three distractors', () => {
+  const small = [library[0], library[1], library[5], library[6]];
+  const question = buildChoiceQuestion(library[0], small, seeded(3));
+  assert.deepEqual(question?.options.filter((o) => !o.correct).map((o) => o.wordId).sort(), ['a1', 'n1', 'n2']);
+
+  assert.equal(buildChoiceQuestion(library[0], library.slice(0, 3)), null);
+  assert.equal(buildChoiceQuestion(library[7], library), null);
+});
+
+test('calculateChoiceQuizSummary: accuracy and average answer time', () => {
+  const summary = calculateChoiceQuizSummary([
+    { wordId: 'a', wordText: 'a', correct: true, chosenWordId: null, answeredInMs: 1000 },
+    { wordId: 'b', wordText: 'b', correct: false, chosenWordId: 'c', answeredInMs: 3000 },
+    { wordId: 'c', wordText: 'c', correct: false, chosenWordId: null, answeredInMs: null },
+  ]);
+  assert.equal(summary.wordsCorrect, 1);
+  assert.equal(summary.accuracyRate, 0.3333);
+  assert.equal(summary.averageAnswerMs, 2000);
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for the meaning-recall (Chinese → English) prompts and scoring in
+ * utils/meaningRecall.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  buildRecallHint,
+  buildRecallPrompts,
+  calculateRecallGameSummary,
+  checkRecallAnswer,
+  getRecallMeaning,
+  splitRecallGlosses,
+} from '../../utils/meaningRecall.ts';
+import type { RecallCardResult } from '../../types.ts';
+import { makeWord } from '../fixtures/words.ts';
+
+const result = (overrides: Partial<RecallCardResult> = {}): RecallCardResult => ({
+  wordId: 'w1',
+  wordText: 'happy',
+  correct: true,
+  attemptsUsed: 1,
+  hintUsed: false,
+  ambiguous: false,
+  activatedAtMs: 0,
+  solvedAtMs: 4000,
+  ...overrides,
+});
+
+test('getRecallMeaning: selected meaning option wins, definition_cn is the fallback', () => {
+  const bank = makeWord({
+    text: 'bank',
+    meaning_options: [
+      { key: 'noun::银行', meaningZh: '银行', partOfSpeech: 'noun', definitionEn: 'a financial institution' },
+      { key: 'noun::河岸', meaningZh: '河岸', partOfSpeech: 'n.' },
+    ],
+    selected_meaning_key: 'noun::河岸',
+  });
+  assert.deepEqual(getRecallMeaning(bank), { meaningZh: '河岸', partOfSpeech: 'noun', definitionEn: null });
+
+  assert.deepEqual(getRecallMeaning(makeWord({ definition_cn: 'adj. 快乐的' })), { meaningZh: '快乐的', partOfSpeech: 'adjective', definitionEn: null });
+  assert.deepEqual(getRecallMeaning(makeWord({ definition_cn: '苹果, n.' })), { meaningZh: '苹果', partOfSpeech: 'noun', definitionEn: null });
+  assert.equal(getRecallMeaning(makeWord()), null);
+});
+
+test('splitRecallGlosses: splits on Chinese separators and drops notes', () => {
+  assert.deepEqual(splitRecallGlosses('快乐的；高兴的（心情）, 愉快的'), ['快乐的', '高兴的', '愉快的']);
+});
+
+test('buildRecallPrompts: shared gloss with the same POS makes the prompt ambiguous', () => {
+  const happy = makeWord({ id: 'h', text: 'happy', definition_cn: 'adj. 快乐的；幸福的', definition_en: 'feeling happy or content' });
+  const glad = makeWord({ id: 'g', text: 'glad', definition_cn: 'adj. 高兴的；快乐的' });
+  const joy = makeWord({ id: 'j', text: 'joy', definition_cn: 'n. 快乐的' });
+  const table = makeWord({ id: 't', text: 'table', definition_cn: 'n. 桌子' });
+
+  const [happyPrompt, tablePrompt] = buildRecallPrompts([happy, table], [happy, glad, joy, table]);
+  assert.equal(happyPrompt.ambiguous, true);
+  assert.deepEqual(happyPrompt.synonyms, ['glad']);
+  assert.equal(happyPrompt.firstLetter, 'h');
+  assert.equal(happyPrompt.letterCount, 5);
+  assert.equal(happyPrompt.definitionEn, 'feeling ___ or content');
+
+  assert.equal(tablePrompt.ambiguous, false);
+  assert.equal(tablePrompt.firstLetter, null);
+  assert.equal(tablePrompt.definitionEn, null);
+});
+
+test('checkRecallAnswer: synonyms are not wrong answers', () => {
+  const happy = makeWord({ text: 'happy', definition_cn: 'adj. 快乐的' });
+  const glad = makeWord({ id: 'g', text: 'glad', definition_cn: 'adj. 快乐的' });
+  const [prompt] = buildRecallPrompts([happy], [happy, glad]);
+
+  assert.equal(checkRecallAnswer(prompt, 'happy', '  Happy '), 'correct');
+  assert.equal(checkRecallAnswer(prompt, 'happy', 'glad'), 'synonym');
+  assert.equal(checkRecallAnswer(prompt, 'happy', 'hapy'), 'wrong');
+  assert.equal(checkRecallAnswer(prompt, 'happy', ''), 'wrong');
+  assert.equal(buildRecallHint('give up'), 'g___ _p');
+});
+
+test('calculateRecallGameSummary: clues and hints lower the quality bonus', () => {
+  const clean = calculateRecallGameSummary(Array.from({ length: 10 }, () => result()), 60000, 'random', 0, true);
+  const clued = calculateRecallGameSummary(Array.from({ length: 10 }, () => result({ ambiguous: true })), 60000, 'random', 0, true);
+  const hinted = calculateRecallGameSummary(Array.from({ length: 10 }, () => result({ hintUsed: true })), 60000, 'random', 0, true);
+
+  assert.equal(clean.accuracyRate, 1);
+  assert.equal(clean.secondsRemaining, 60);
+  assert.equal(clean.speedScore, 500);
+  assert.ok(clean.totalScore > clued.totalScore && clued.totalScore > hinted.totalScore);
+  assert.equal(hinted.noHintScore, 0);
+
+  const poor = calculateRecallGameSummary([result(), result({ correct: false, solvedAtMs: null })], 130000, 'smart', 0.9, false, 'overlap_too_high');
+  assert.equal(poor.timeUsedSeconds, 120);
+  assert.equal(poor.speedScore, 0);
+  assert.equal(poor.rankingIneligibleReason, 'overlap_too_high');
+});
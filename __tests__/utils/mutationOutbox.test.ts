@@ -0,0 +1,95 @@
+/**
+ * Tests for the mutation outbox's ordering, backoff and dead-letter rules in utils/mutationOutbox.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  classifyOutboxError,
+  getOutboxOrderingKey,
+  markOutboxFailure,
+  OUTBOX_MAX_ATTEMPTS,
+  reviveOutboxItem,
+  runOutboxPass,
+} from '../../utils/mutationOutbox.ts';
+import type { OutboxItem, OutboxOperation } from '../../types.ts';
+
+const NOW = 1_000_000;
+
+const item = (key: string, seq: number, op: OutboxOperation, overrides: Partial<OutboxItem> = {}): OutboxItem => ({
+  key,
+  seq,
+  userId: 'u1',
+  orderingKey: getOutboxOrderingKey(op),
+  op,
+  status: 'pending',
+  attempts: 0,
+  createdAt: NOW,
+  nextAttemptAt: NOW,
+  ...overrides,
+});
+
+const tag = (wordId: string): OutboxOperation => ({ type: 'mistake_tag', payload: { wordId } });
+
+test('runOutboxPass: a failure holds later writes to the same word, other words carry on', async () => {
+  const ran: string[] = [];
+  const items = [
+    item('a2', 2, tag('a')),
+    item('a1', 1, tag('a')),
+    item('b1', 3, tag('b')),
+  ];
+
+  const { applied, updated } = await runOutboxPass(items, async (i) => {
+    ran.push(i.key);
+    if (i.key === 'a1') throw new Error('Failed to fetch');
+    return true;
+  }, NOW);
+
+  assert.deepEqual(ran, ['a1', 'b1']);
+  assert.deepEqual(applied.map(i => i.key), ['b1']);
+  assert.equal(updated.length, 1);
+  assert.equal(updated[0].status, 'pending');
+  assert.equal(updated[0].attempts, 1);
+  assert.ok(updated[0].nextAttemptAt > NOW);
+});
+
+test('runOutboxPass: backing-off items and missing handlers hold their key, dead letters do not', async () => {
+  const items = [
+    item('a1', 1, tag('a'), { nextAttemptAt: NOW + 5000 }),
+    item('a2', 2, tag('a')),
+    item('b1', 3, tag('b'), { status: 'dead', deadAt: NOW }),
+    item('b2', 4, tag('b')),
+    item('c1', 5, tag('c')),
+    item('c2', 6, tag('c')),
+  ];
+
+  const { applied } = await runOutboxPass(items, async (i) => i.key !== 'c1', NOW);
+  assert.deepEqual(applied.map(i => i.key), ['b2']);
+});
+
+test('markOutboxFailure: permanent errors and exhausted retries move to the dead-letter view', () => {
+  const base = item('a1', 1, tag('a'));
+
+  const rejected = markOutboxFailure(base, { code: '23505', message: 'duplicate key' }, NOW);
+  assert.equal(rejected.status, 'dead');
+  assert.equal(rejected.deadAt, NOW);
+  assert.equal(rejected.lastError, 'duplicate key');
+
+  const exhausted = markOutboxFailure({ ...base, attempts: OUTBOX_MAX_ATTEMPTS - 1 }, new Error('Failed to fetch'), NOW);
+  assert.equal(exhausted.status, 'dead');
+
+  const revived = reviveOutboxItem(exhausted, NOW + 1);
+  assert.equal(revived.status, 'pending');
+  assert.equal(revived.attempts, 0);
+  assert.equal(revived.nextAttemptAt, NOW + 1);
+  assert.equal('deadAt' in revived, false);
+});
+
+test('classifyOutboxError: network, rate limits and server errors retry; rejected requests do not', () => {
+  assert.equal(classifyOutboxError(new TypeError('Failed to fetch')), 'retryable');
+  assert.equal(classifyOutboxError({ status: 429 }), 'retryable');
+  assert.equal(classifyOutboxError({ status: 503 }), 'retryable');
+  assert.equal(classifyOutboxError({ status: 400 }), 'permanent');
+  assert.equal(classifyOutboxError({ code: 'PGRST116', message: 'no rows' }), 'permanent');
+  assert.equal(classifyOutboxError(new Error('something odd')), 'retryable');
+});
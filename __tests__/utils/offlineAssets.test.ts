@@ -0,0 +1,48 @@
+/**
+ * Tests for picking the service worker's offline media in utils/offlineAssets.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { collectOfflineAssetUrls } from '../../utils/offlineAssets.ts';
+import type { WordEntry } from '../../types.ts';
+import { makeWord } from '../fixtures/words.ts';
+
+const word = (id: string, overrides: Partial<WordEntry> = {}): WordEntry => makeWord({ id, text: id, ...overrides });
+
+test('collectOfflineAssetUrls: due words first, then cached audio, deduplicated', () => {
+  const urls = collectOfflineAssetUrls(
+    [
+      word('later', { next_review_at: 2000, image_url: 'https://cdn.test/later.webp' }),
+      word('never', { image_url: 'https://cdn.test/never.webp' }),
+      word('soon', {
+        next_review_at: 1000,
+        image_url: 'https://cdn.test/soon.webp',
+        audio_url: 'https://audio.test/soon.mp3',
+      }),
+    ],
+    ['https://audio.test/soon.mp3', 'https://audio.test/extra.mp3'],
+  );
+
+  assert.deepEqual(urls, [
+    'https://cdn.test/soon.webp',
+    'https://audio.test/soon.mp3',
+    'https://cdn.test/later.webp',
+    'https://cdn.test/never.webp',
+    'https://audio.test/extra.mp3',
+  ]);
+});
+
+test('collectOfflineAssetUrls: skips hidden words, non-network URLs and stops at the limit', () => {
+  const words = [
+    word('known', { known: true, image_url: 'https://cdn.test/known.webp' }),
+    word('deleted', { deleted: true, image_url: 'https://cdn.test/deleted.webp' }),
+    word('inline', { image_url: 'data:image/webp;base64,AAAA', audio_url: 'blob:https://app/1' }),
+    word('a', { next_review_at: 1, image_url: 'https://cdn.test/a.webp' }),
+    word('b', { next_review_at: 2, image_url: 'https://cdn.test/b.webp' }),
+  ];
+
+  assert.deepEqual(collectOfflineAssetUrls(words), ['https://cdn.test/a.webp', 'https://cdn.test/b.webp']);
+  assert.deepEqual(collectOfflineAssetUrls(words, ['https://audio.test/x.mp3'], 1), ['https://cdn.test/a.webp']);
+  assert.equal(words[0].id, 'known', 'input order untouched');
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for room codes, seeded card selection, the live event stream and
+ * duel winners in utils/puzzleDuel.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  applyDuelEvent,
+  createLocalDuelHub,
+  decideDuelWinner,
+  generateRoomCode,
+  initialDuelState,
+  isValidRoomCode,
+  normalizeRoomCode,
+  selectDuelCards,
+} from '../../utils/puzzleDuel.ts';
+import type { DuelEvent } from '../../utils/puzzleDuel.ts';
+
+const candidates = Array.from({ length: 20 }, (_, i) => ({ id: `word-${String(i).padStart(2, '0')}` }));
+
+test('the same seed picks the same nine cards in the same order, whatever the candidate order', () => {
+  const host = selectDuelCards(candidates, 12345);
+  const guest = selectDuelCards([...candidates].reverse(), 12345);
+
+  assert.equal(host.length, 9);
+  assert.equal(new Set(host.map(c => c.id)).size, 9);
+  assert.deepEqual(guest.map(c => c.id), host.map(c => c.id));
+  assert.notDeepEqual(selectDuelCards(candidates, 54321).map(c => c.id), host.map(c => c.id));
+});
+
+test('room codes survive being typed back in lowercase with separators', () => {
+  let n = 0;
+  const code = generateRoomCode(() => ((n++ * 7) % 32) / 32);
+
+  assert.ok(isValidRoomCode(code));
+  assert.equal(normalizeRoomCode(` ${code.slice(0, 3).toLowerCase()}-${code.slice(3)} `), code);
+  assert.equal(isValidRoomCode('ABC10O'), false);
+});
+
+test('the local hub relays each side\'s solves to the other side only', () => {
+  const hub = createLocalDuelHub();
+  const host = hub.connect();
+  const guest = hub.connect();
+  const heardByHost: DuelEvent[] = [];
+  const heardByGuest: DuelEvent[] = [];
+  host.subscribe(event => heardByHost.push(event));
+  guest.subscribe(event => heardByGuest.push(event));
+
+  guest.send({ type: 'hello', playerId: 'guest', name: 'Mia' });
+  guest.send({ type: 'solved', playerId: 'guest', wordId: 'word-03', solvedAtMs: 4200 });
+  guest.send({ type: 'solved', playerId: 'guest', wordId: 'word-03', solvedAtMs: 4200 });
+  host.send({ type: 'start', startInMs: 4000 });
+
+  assert.equal(heardByGuest.length, 1);
+  assert.equal(heardByHost.length, 3);
+
+  const state = heardByHost.reduce(applyDuelEvent, initialDuelState);
+  assert.equal(state.players.guest.name, 'Mia');
+  assert.deepEqual(state.players.guest.solvedIds, ['word-03']);
+  assert.equal(state.started, false);
+  assert.equal(heardByGuest.reduce(applyDuelEvent, initialDuelState).started, true);
+
+  guest.close();
+  host.send({ type: 'start', startInMs: 4000 });
+  assert.equal(heardByGuest.length, 1);
+});
+
+test('duels go to the higher score, then more words, then the faster player', () => {
+  const score = (totalScore: number, wordsCorrect: number, timeUsedSeconds: number) => ({ totalScore, wordsCorrect, timeUsedSeconds });
+
+  assert.equal(decideDuelWinner({ playerId: 'a', score: score(700, 7, 80) }, { playerId: 'b', score: score(650, 9, 40) }), 'a');
+  assert.equal(decideDuelWinner({ playerId: 'a', score: score(700, 7, 80) }, { playerId: 'b', score: score(700, 8, 90) }), 'b');
+  assert.equal(decideDuelWinner({ playerId: 'a', score: score(700, 8, 60) }, { playerId: 'b', score: score(700, 8, 75) }), 'a');
+  assert.equal(decideDuelWinner({ playerId: 'a', score: score(700, 8, 60) }, { playerId: 'b', score: score(700, 8, 60) }), null);
+});
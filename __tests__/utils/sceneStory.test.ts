@@ -0,0 +1,49 @@
+/**
+ * Tests for board order and chapter gating of story-mode scenes in
+ * utils/sceneStory.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { firstOpenPanel, orderWordsByPanels, panelIndexOfWords } from '../../utils/sceneStory.ts';
+import type { ScenePanel } from '../../types';
+
+const panel = (index: number, words: string[]): ScenePanel => ({
+  index,
+  imageUrl: `https://x/p${index}.webp`,
+  storagePath: `scenes/p${index}.webp`,
+  words,
+});
+
+const PANELS = [panel(0, ['moon', 'apple']), panel(1, ['run']), panel(2, ['quickly', 'angry'])];
+
+test('panelIndexOfWords maps each word to its panel, case-insensitively', () => {
+  const words = [{ text: 'Apple' }, { text: 'angry' }, { text: 'run' }, { text: 'moon' }];
+  assert.deepEqual(panelIndexOfWords(words, PANELS), [0, 2, 1, 0]);
+});
+
+test('panelIndexOfWords plays a word no panel lists in the last panel', () => {
+  assert.deepEqual(panelIndexOfWords([{ text: 'river' }, { text: 'run' }], PANELS), [2, 1]);
+});
+
+test('orderWordsByPanels sorts panel by panel, each panel in its own order', () => {
+  const words = ['apple', 'angry', 'run', 'quickly', 'moon'].map((text, i) => ({ id: `w${i}`, text }));
+  assert.deepEqual(orderWordsByPanels(words, PANELS).map((w) => w.text), ['moon', 'apple', 'run', 'quickly', 'angry']);
+});
+
+test('orderWordsByPanels keeps unlisted words at the end in their original order', () => {
+  const words = ['river', 'run', 'cloud', 'moon'].map((text) => ({ text }));
+  assert.deepEqual(orderWordsByPanels(words, PANELS).map((w) => w.text), ['moon', 'run', 'river', 'cloud']);
+});
+
+test('firstOpenPanel is the first panel with an unresolved word', () => {
+  const panelOf = [0, 0, 1, 2, 2];
+  assert.equal(firstOpenPanel(panelOf, [false, true, false, false, false]), 0);
+  assert.equal(firstOpenPanel(panelOf, [true, true, false, false, false]), 1);
+  assert.equal(firstOpenPanel(panelOf, [true, true, true, true, false]), 2);
+});
+
+test('firstOpenPanel stays on the last panel once every word is resolved', () => {
+  assert.equal(firstOpenPanel([0, 1, 2], [true, true, true]), 2);
+  assert.equal(firstOpenPanel([], []), 0);
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for sentence dictation grading in utils/sentenceDictation.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { diffSentenceTokens, gradeDictation, pickExampleSentence, tokenizeSentence } from '../../utils/sentenceDictation.ts';
+
+const kinds = (sentence: string, typed: string) =>
+  diffSentenceTokens(tokenizeSentence(sentence), tokenizeSentence(typed)).map(t => `${t.kind}:${t.expected ?? ''}/${t.typed ?? ''}`);
+
+test('tokenizeSentence: ignores case and punctuation, keeps contractions and hyphens', () => {
+  assert.deepEqual(tokenizeSentence('The well-known chef didn’t smile.'), ['the', 'well-known', 'chef', "didn't", 'smile']);
+  assert.deepEqual(tokenizeSentence('  '), []);
+});
+
+test('diffSentenceTokens: reports missing, extra and misspelled words in order', () => {
+  assert.deepEqual(kinds('The cat sat on the mat', 'the cat sat on the mat!'), [
+    'match:the/the', 'match:cat/cat', 'match:sat/sat', 'match:on/on', 'match:the/the', 'match:mat/mat',
+  ]);
+  assert.deepEqual(kinds('She bought a beautiful necklace', 'she bought beautifull necklace today'), [
+    'match:she/she', 'match:bought/bought', 'missing:a/', 'misspelled:beautiful/beautifull', 'match:necklace/necklace', 'extra:/today',
+  ]);
+  // Unrelated words are not misspellings
+  assert.deepEqual(kinds('I like tea', 'I like coffee'), ['match:i/i', 'match:like/like', 'missing:tea/', 'extra:/coffee']);
+});
+
+test('gradeDictation: accuracy and target word', () => {
+  const grade = gradeDictation('The river flows through the valley.', 'the river flows thru the valley', 'river');
+  assert.equal(grade.targetCorrect, true);
+  assert.equal(grade.counts.match, 5);
+  assert.equal(grade.accuracy, 5 / 6);
+
+  const miss = gradeDictation('The river flows through the valley.', 'the rivver flows through the valley', 'river');
+  assert.equal(miss.targetCorrect, false);
+  assert.equal(miss.counts.misspelled, 1);
+});
+
+test('gradeDictation: phrase targets need every token', () => {
+  assert.equal(gradeDictation('Never give up on your dreams.', 'never give up on your dreams', 'give up').targetCorrect, true);
+  assert.equal(gradeDictation('Never give up on your dreams.', 'never give on your dreams', 'give up').targetCorrect, false);
+  assert.equal(gradeDictation('Hello there.', '', 'hello').accuracy, 0);
+});
+
+test('pickExampleSentence: needs the exact word and a dictatable length', () => {
+  const examples = [
+    'She ran to the shop.', // inflected form only
+    'Run!',
+    '  I   run every   morning before work. ',
+  ];
+  assert.equal(pickExampleSentence(examples, 'run'), 'I run every morning before work.');
+  assert.equal(pickExampleSentence(['They had to give up the search.'], 'give up'), 'They had to give up the search.');
+  assert.equal(pickExampleSentence(['They gave up the search.'], 'give up'), null);
+  assert.equal(pickExampleSentence(examples, ''), null);
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for the persisted SM-2 scheduling helpers in utils/sm2Algorithm.ts
+ * (quality mapping, due-date calculation and the "due today" queue).
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  reviewOutcomeToQuality,
+  scheduleWordReview,
+  isWordDue,
+  getDueWords,
+} from '../../utils/sm2Algorithm.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 9, 19, 4, 0, 0);
+
+test('reviewOutcomeToQuality: clean correct answer is perfect', () => {
+  assert.equal(reviewOutcomeToQuality(true, false, 0), 5);
+});
+
+test('reviewOutcomeToQuality: hinted correct answer is capped below perfect', () => {
+  assert.equal(reviewOutcomeToQuality(true, true, 0.3), 4);
+});
+
+test('reviewOutcomeToQuality: failure is below the SM-2 pass mark', () => {
+  assert.ok(reviewOutcomeToQuality(false, false, 1) < 3);
+});
+
+test('scheduleWordReview: first success is due in 1 day, second in 6', () => {
+  const first = scheduleWordReview({}, 5, NOW);
+  assert.equal(first.sm2_repetitions, 1);
+  assert.equal(first.sm2_interval, 1);
+  assert.equal(first.next_review_at, NOW + DAY_MS);
+
+  const second = scheduleWordReview(first, 5, NOW);
+  assert.equal(second.sm2_repetitions, 2);
+  assert.equal(second.sm2_interval, 6);
+  assert.equal(second.next_review_at, NOW + 6 * DAY_MS);
+});
+
+test('scheduleWordReview: failure resets repetitions and lowers ease', () => {
+  const learned = { sm2_interval: 15, sm2_repetitions: 3, sm2_ease_factor: 2.5 };
+  const failed = scheduleWordReview(learned, 2, NOW);
+  assert.equal(failed.sm2_repetitions, 0);
+  assert.equal(failed.sm2_interval, 1);
+  assert.ok(failed.sm2_ease_factor < 2.5);
+});
+
+test('isWordDue: scheduled words compare next_review_at to the cutoff', () => {
+  assert.equal(isWordDue({ next_review_at: NOW - 1 }, NOW), true);
+  assert.equal(isWordDue({ next_review_at: NOW + DAY_MS }, NOW), false);
+});
+
+test('isWordDue: legacy tested words are due, new words are not', () => {
+  assert.equal(isWordDue({ tested: true, last_tested: NOW - DAY_MS, next_review_at: null }, NOW), true);
+  assert.equal(isWordDue({ tested: false, last_tested: null, next_review_at: null }, NOW), false);
+});
+
+test('getDueWords: returns due words most overdue first', () => {
+  const words = [
+    { id: 'a', next_review_at: NOW - DAY_MS },
+    { id: 'b', next_review_at: NOW + DAY_MS },
+    { id: 'c', next_review_at: NOW - 3 * DAY_MS },
+  ];
+  assert.deepEqual(getDueWords(words, NOW).map(w => w.id), ['c', 'a']);
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for lemma grouping and the derivation drill in utils/wordFamily.ts,
+ * against the shipped en.aff with a small hand-picked .dic.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import nspell from 'nspell';
+
+import {
+  buildFamilyDrillPrompts,
+  checkFamilyAnswer,
+  getDerivationKind,
+  getWordLemma,
+  groupWordFamilies,
+} from '../../utils/wordFamily.ts';
+import type { AffixDictionary } from '../../utils/wordFamily.ts';
+import { makeWord } from '../fixtures/words.ts';
+
+const aff = readFileSync(new URL('../../public/dictionaries/en.aff', import.meta.url), 'utf8');
+const dic = [
+  'act/ASDGV',
+  'action/ASM',
+  'active/IKY',
+  'activity/IM',
+  'happy/URTP',
+  'numb/RT',
+  'number/ASDGM',
+  'total/MS',
+  'tot/SM',
+  'table/MGDS',
+].join('\n');
+// `data` / `rules` are nspell internals (not in its typings), as in LocalProvider
+const spell = nspell(aff, `${dic.split('\n').length}\n${dic}`) as unknown as {
+  data: AffixDictionary['stems'];
+  rules: AffixDictionary['rules'];
+};
+const dictionary: AffixDictionary = { stems: spell.data, rules: spell.rules };
+
+test('getWordLemma: affix flags and suffix stripping lead back to the root', () => {
+  assert.equal(getWordLemma('actively', dictionary), 'act');
+  assert.equal(getWordLemma('Activity', dictionary), 'act');
+  assert.equal(getWordLemma('action', dictionary), 'act');
+  assert.equal(getWordLemma('happiness', dictionary), 'happy');
+  assert.equal(getWordLemma('number', dictionary), 'number', 'a flagged stem is not an inflection of numb');
+  assert.equal(getWordLemma('inactive', dictionary), 'act');
+  assert.equal(getWordLemma('total', dictionary), 'total', 'short roots are not split off');
+});
+
+test('getDerivationKind: class of the derived form', () => {
+  assert.equal(getDerivationKind('active', dictionary), 'adjective');
+  assert.equal(getDerivationKind('actively', dictionary), 'adverb');
+  assert.equal(getDerivationKind('unhappy', dictionary), 'opposite');
+  assert.equal(getDerivationKind('activity', dictionary), 'noun');
+  assert.equal(getDerivationKind('act', dictionary), null);
+});
+
+test('groupWordFamilies: only families with two or more library words', () => {
+  const words = [
+    makeWord({ id: '1', text: 'act' }),
+    makeWord({ id: '2', text: 'activity' }),
+    makeWord({ id: '3', text: 'action' }),
+    makeWord({ id: '4', text: 'happy' }),
+    makeWord({ id: '5', text: 'table' }),
+    makeWord({ id: '6', text: 'take off' }),
+  ];
+  const families = groupWordFamilies(words, dictionary);
+  assert.equal(families.length, 1);
+  assert.equal(families[0].root, 'act');
+  assert.deepEqual(families[0].members.map((m) => m.text), ['act', 'action', 'activity']);
+});
+
+test('buildFamilyDrillPrompts: answers of another class, library members preferred', () => {
+  const words = [makeWord({ id: '1', text: 'act' }), makeWord({ id: '2', text: 'activity' }), makeWord({ id: '3', text: 'happy' })];
+  const prompts = buildFamilyDrillPrompts(words, dictionary, 8, () => 0.3);
+
+  const actPrompt = prompts.find((p) => p.baseWord === 'act');
+  assert.ok(actPrompt);
+  assert.equal(actPrompt.targetKind, 'noun', 'activity is the only class with a library word');
+  assert.equal(actPrompt.expected, 'activity');
+  assert.equal(actPrompt.answerWordId, '2');
+  assert.deepEqual(actPrompt.answers, ['activity']);
+
+  const happyPrompt = prompts.find((p) => p.baseWord === 'happy');
+  assert.ok(happyPrompt);
+  assert.ok(checkFamilyAnswer(happyPrompt, ` ${happyPrompt.answers[0].toUpperCase()} `));
+  assert.ok(!checkFamilyAnswer(happyPrompt, 'happy'));
+});
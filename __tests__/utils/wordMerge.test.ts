@@ -0,0 +1,91 @@
+/**
+ * Tests for the per-word three-way merge in utils/wordMerge.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  compareVersionVectors,
+  mergeVersionVectors,
+  mergeWordEdits,
+} from '../../utils/wordMerge.ts';
+import type { WordMergeState } from '../../utils/wordMerge.ts';
+
+const base: WordMergeState = {
+  text: 'resilient',
+  definition_cn: '有弹性的',
+  selected_meaning_key: 'm1',
+  error_count: 2,
+  tags: ['Custom'],
+  field_versions: {},
+};
+
+test('compareVersionVectors: dominance and concurrency', () => {
+  assert.equal(compareVersionVectors({ a: 1 }, { a: 1 }), 'equal');
+  assert.equal(compareVersionVectors({ a: 2, b: 1 }, { a: 1 }), 'after');
+  assert.equal(compareVersionVectors({ a: 1 }, { a: 1, b: 1 }), 'before');
+  assert.equal(compareVersionVectors({ a: 2 }, { a: 1, b: 1 }), 'concurrent');
+  assert.deepEqual(mergeVersionVectors({ a: 2 }, { a: 1, b: 1 }), { a: 2, b: 1 });
+});
+
+test('mergeWordEdits: error_count deltas from both devices add up', () => {
+  // Phone added 2 mistakes offline, laptop added 3 meanwhile
+  const { patch } = mergeWordEdits(base, { ...base, error_count: 4 }, { ...base, error_count: 5 }, 'phone');
+  assert.equal(patch.error_count, 7);
+
+  // Untouched counters are not written back
+  const untouched = mergeWordEdits(base, { ...base, text: 'resilience' }, { ...base, error_count: 5 }, 'phone');
+  assert.equal('error_count' in untouched.patch, false);
+});
+
+test('mergeWordEdits: tag additions and removals apply to the remote set', () => {
+  const { patch } = mergeWordEdits(
+    { ...base, tags: ['Custom', 'Mistake'] },
+    { ...base, tags: ['Custom', 'Starred'] },
+    { ...base, tags: ['Custom', 'Mistake', 'CET-4'] },
+    'phone'
+  );
+  assert.deepEqual(patch.tags, ['Custom', 'CET-4', 'Starred']);
+});
+
+test('mergeWordEdits: concurrent meaning edits settle on the later one on every device', () => {
+  const phoneEdit = { ...base, selected_meaning_key: 'm2' };
+  const laptopRow = {
+    ...base,
+    selected_meaning_key: 'm3',
+    field_versions: { selected_meaning_key: { vv: { laptop: 1 }, at: 1000, device: 'laptop' } },
+  };
+
+  const later = mergeWordEdits(base, phoneEdit, laptopRow, 'phone', 2000);
+  assert.deepEqual(later.conflicts, ['selected_meaning_key']);
+  assert.equal(later.patch.selected_meaning_key, 'm2');
+  assert.deepEqual(later.patch.field_versions?.selected_meaning_key.vv, { phone: 1, laptop: 1 });
+
+  const earlier = mergeWordEdits(base, phoneEdit, laptopRow, 'phone', 500);
+  assert.deepEqual(earlier.conflicts, ['selected_meaning_key']);
+  assert.deepEqual(earlier.patch, {});
+});
+
+test('mergeWordEdits: an edit that already saw the other write wins; a stale one does not', () => {
+  const seen = { selected_meaning_key: { vv: { laptop: 1 }, at: 1000, device: 'laptop' } };
+
+  // Remote changed by an unstamped write after the phone loaded the laptop's edit
+  const newer = mergeWordEdits(
+    { ...base, field_versions: seen },
+    { ...base, selected_meaning_key: 'm2', field_versions: seen },
+    { ...base, selected_meaning_key: 'm9', field_versions: seen },
+    'phone',
+    1
+  );
+  assert.equal(newer.patch.selected_meaning_key, 'm2');
+
+  // The laptop edited twice since the phone's base (which had neither)
+  const stale = mergeWordEdits(
+    base,
+    { ...base, selected_meaning_key: 'm2' },
+    { ...base, selected_meaning_key: 'm3', field_versions: { selected_meaning_key: { vv: { laptop: 2, phone: 1 }, at: 1, device: 'laptop' } } },
+    'phone',
+    5000
+  );
+  assert.equal('selected_meaning_key' in stale.patch, false);
+});
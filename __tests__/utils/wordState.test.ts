@@ -0,0 +1,37 @@
+/**
+ * Tests for the suspend / bury / known study states in utils/wordState.ts.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { getWordStudyState, isWordStudyable, filterStudyableWords } from '../../utils/wordState.ts';
+
+const NOW = Date.UTC(2026, 9, 19, 4, 0, 0);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+test('getWordStudyState: plain word is active', () => {
+  assert.equal(getWordStudyState({}, NOW), 'active');
+});
+
+test('getWordStudyState: bury expires at buried_until', () => {
+  assert.equal(getWordStudyState({ buried_until: NOW + DAY_MS }, NOW), 'buried');
+  assert.equal(getWordStudyState({ buried_until: NOW - 1 }, NOW), 'active');
+});
+
+test('getWordStudyState: known outranks suspended outranks buried', () => {
+  assert.equal(getWordStudyState({ known: true, suspended: true, buried_until: NOW + DAY_MS }, NOW), 'known');
+  assert.equal(getWordStudyState({ suspended: true, buried_until: NOW + DAY_MS }, NOW), 'suspended');
+});
+
+test('filterStudyableWords: drops deleted, suspended, buried and known words', () => {
+  const words = [
+    { id: 'a' },
+    { id: 'b', deleted: true },
+    { id: 'c', suspended: true },
+    { id: 'd', known: true },
+    { id: 'e', buried_until: NOW + DAY_MS },
+    { id: 'f', buried_until: NOW - DAY_MS },
+  ];
+  assert.deepEqual(filterStudyableWords(words, NOW).map(w => w.id), ['a', 'f']);
+  assert.equal(isWordStudyable({ deleted: true }, NOW), false);
+});
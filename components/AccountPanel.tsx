@@ -8,9 +8,20 @@ import { LearningAnalyticsSection } from './AccountPanel/LearningAnalyticsSectio
 import { StatsOverviewSection } from './AccountPanel/StatsOverviewSection';
 import { SmartSelectionSection } from './AccountPanel/SmartSelectionSection';
 import { AchievementsSection } from './AccountPanel/AchievementsSection';
+import { DataExportSection } from './AccountPanel/DataExportSection';
+import { RemindersSection } from './AccountPanel/RemindersSection';
+import { SyncOutboxSection } from './AccountPanel/SyncOutboxSection';
 import { AccountChartTab } from './AccountPanel/types';
 import { ProfileEditModal } from './ProfileEditModal';
 import { PuzzleLeaderboardPanel } from './PuzzleLeaderboardPanel';
+import {
+  optimizeAndSaveFSRSWeights,
+  reviewLogToFSRSSequences,
+  ReviewSchedulerKind,
+  ReviewSchedulerSettings,
+} from '../services/reviewScheduler';
+import { fetchUserReviewLog } from '../services/dataService';
+import { WORD_LEARNING_CONFIG } from '../config/wordLearningConfig';
 import {
   getProfile,
   getCachedProfile,
@@ -28,9 +39,10 @@ interface AccountPanelProps {
   persistedUnlocks?: Set<string>;
   onClose: () => void;
   onLogout: () => void;
+  onDataRestored?: () => void;
 }
 
-export const AccountPanel: React.FC<AccountPanelProps> = ({ user, words, sessions, dailyStats, persistedUnlocks, onClose, onLogout }) => {
+export const AccountPanel: React.FC<AccountPanelProps> = ({ user, words, sessions, dailyStats, persistedUnlocks, onClose, onLogout, onDataRestored }) => {
   const t = useT();
   const [activeChartTab, setActiveChartTab] = useState<AccountChartTab>('progress');
   const [aiSelectionEnabled, setAiSelectionEnabled] = useState(() => {
@@ -39,6 +51,10 @@ export const AccountPanel: React.FC<AccountPanelProps> = ({ user, words, session
     }
     return false;
   });
+  const [schedulerKind, setSchedulerKind] = useState<ReviewSchedulerKind>(() => ReviewSchedulerSettings.getKind());
+  const [isOptimizingFsrs, setIsOptimizingFsrs] = useState(false);
+  const [fsrsOptimizeMessage, setFsrsOptimizeMessage] = useState<string | null>(null);
+  const [fsrsOptimizeProgress, setFsrsOptimizeProgress] = useState(0);
   // Initialise immediately from localStorage so avatar shows without a network round-trip
   const [profile, setProfile] = useState<UserProfile | null>(() =>
     user?.id ? getCachedProfile(user.id) : null
@@ -54,6 +70,35 @@ export const AccountPanel: React.FC<AccountPanelProps> = ({ user, words, session
     localStorage.setItem('vibe_ai_selection', String(newState));
   };
 
+  const changeScheduler = (kind: ReviewSchedulerKind) => {
+    setSchedulerKind(kind);
+    ReviewSchedulerSettings.setKind(kind);
+  };
+
+  // Fit FSRS weights to this user's review log (runs locally in a worker, result kept in localStorage)
+  const optimizeFsrs = async () => {
+    if (!user?.id || isOptimizingFsrs) return;
+    setIsOptimizingFsrs(true);
+    setFsrsOptimizeMessage(null);
+    setFsrsOptimizeProgress(0);
+    try {
+      const log = await fetchUserReviewLog(user.id);
+      const result = await optimizeAndSaveFSRSWeights(reviewLogToFSRSSequences(log), setFsrsOptimizeProgress);
+      if (!result.optimized) {
+        setFsrsOptimizeMessage(t.fsrsOptimizeTooFew(result.reviewCount, WORD_LEARNING_CONFIG.scheduler.fsrs.optimizer.minReviews));
+      } else if (result.finalLoss < result.initialLoss) {
+        setFsrsOptimizeMessage(t.fsrsOptimizeDone(result.reviewCount));
+      } else {
+        setFsrsOptimizeMessage(t.fsrsOptimizeNoGain(result.reviewCount));
+      }
+    } catch (error) {
+      console.error('[AccountPanel] FSRS optimization failed:', error);
+      setFsrsOptimizeMessage(t.fsrsOptimizeFailed);
+    } finally {
+      setIsOptimizingFsrs(false);
+    }
+  };
+
   useEffect(() => {
     // 锁定主页面滚动
     const originalStyle = window.getComputedStyle(document.body).overflow;
@@ -139,11 +184,29 @@ export const AccountPanel: React.FC<AccountPanelProps> = ({ user, words, session
             />
             <StatsOverviewSection stats={stats} />
             <PuzzleLeaderboardPanel />
-            <SmartSelectionSection enabled={aiSelectionEnabled} onToggle={toggleAiSelection} />
+            <SmartSelectionSection
+              enabled={aiSelectionEnabled}
+              onToggle={toggleAiSelection}
+              schedulerKind={schedulerKind}
+              onSchedulerChange={changeScheduler}
+              onOptimizeFsrs={optimizeFsrs}
+              isOptimizingFsrs={isOptimizingFsrs}
+              fsrsOptimizeProgress={fsrsOptimizeProgress}
+              fsrsOptimizeMessage={fsrsOptimizeMessage}
+            />
+            {user?.id && <RemindersSection userId={user.id} />}
+            {user?.id && <SyncOutboxSection />}
             <AchievementsSection
               unlockedCount={unlockedCount}
               achievementStatuses={stats.achievementStatuses}
             />
+            {user?.id && (
+              <DataExportSection
+                userId={user.id}
+                words={words}
+                onRestored={onDataRestored}
+              />
+            )}
           </div>
 
           {/* 底部操作 */}
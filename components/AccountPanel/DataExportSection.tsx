@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { HoverTranslationText } from '../HoverTranslationText';
+import { useT } from '../../hooks/useT';
+import type { WordEntry } from '../../types';
+import {
+  downloadAccountArchive,
+  downloadAnkiDeck,
+  downloadWordsCsv,
+  restoreAccountArchive,
+} from '../../services/exportService';
+import { parseAccountArchive } from '../../utils/accountArchive';
+
+interface DataExportSectionProps {
+  userId: string;
+  words: WordEntry[];
+  onRestored?: () => void;
+}
+
+export const DataExportSection: React.FC<DataExportSectionProps> = ({ userId, words, onRestored }) => {
+  const t = useT();
+  const [busy, setBusy] = useState<'archive' | 'restore' | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const exportArchive = async () => {
+    setBusy('archive');
+    setMessage(null);
+    try {
+      await downloadAccountArchive(userId);
+    } catch (error) {
+      console.error('[DataExportSection] Archive export failed:', error);
+      setMessage(t.dataExportFailed);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const restoreArchive = async (file: File) => {
+    setMessage(null);
+    try {
+      const archive = parseAccountArchive(await file.text());
+      if (!window.confirm(t.dataRestoreConfirm(archive.words.length))) return;
+
+      setBusy('restore');
+      const result = await restoreAccountArchive(userId, archive);
+      const coinNote = result.coins && 'error' in result.coins ? ` ${t.dataRestoreCoinsSkipped(result.coins.error)}` : '';
+      setMessage(`${t.dataRestoreDone(result.words, result.reviews)}${coinNote}`);
+      onRestored?.();
+    } catch (error: any) {
+      console.error('[DataExportSection] Restore failed:', error);
+      setMessage(t.dataRestoreFailed(error?.message || String(error)));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttonClass = 'flex-1 px-3 py-2 rounded-full font-mono text-xs bg-light-charcoal/40 text-text-light hover:text-white transition-all disabled:opacity-50 flex items-center justify-center gap-1';
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-headline text-lg text-text-dark tracking-[0.2em] uppercase"><HoverTranslationText text="Data" translation="数据" /></h3>
+      <div className="bg-dark-charcoal p-5 rounded-3xl border border-mid-charcoal/30 space-y-4">
+        <div className="text-[10px] text-text-light font-mono leading-tight">{t.dataExportDescription}</div>
+        <div className="flex gap-2">
+          <button onClick={exportArchive} disabled={busy !== null} className={buttonClass}>
+            <span className={`material-symbols-outlined text-sm ${busy === 'archive' ? 'animate-spin' : ''}`}>{busy === 'archive' ? 'sync' : 'backup'}</span>
+            <HoverTranslationText text="Backup" translation="备份" />
+          </button>
+          <button onClick={() => downloadWordsCsv(words)} disabled={busy !== null || words.length === 0} className={buttonClass}>
+            <span className="material-symbols-outlined text-sm">table_view</span>
+            CSV
+          </button>
+          <button onClick={() => downloadAnkiDeck(words)} disabled={busy !== null || words.length === 0} className={buttonClass}>
+            <span className="material-symbols-outlined text-sm">style</span>
+            Anki
+          </button>
+        </div>
+        <label className={`${buttonClass} cursor-pointer ${busy !== null ? 'opacity-50 pointer-events-none' : ''}`}>
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) void restoreArchive(file);
+              e.target.value = '';
+            }}
+          />
+          <span className={`material-symbols-outlined text-sm ${busy === 'restore' ? 'animate-spin' : ''}`}>{busy === 'restore' ? 'sync' : 'settings_backup_restore'}</span>
+          <HoverTranslationText text="Restore from backup" translation="从备份恢复" />
+        </label>
+        {message && (
+          <div className="text-[10px] text-text-light font-mono leading-tight">{message}</div>
+        )}
+      </div>
+    </div>
+  );
+};
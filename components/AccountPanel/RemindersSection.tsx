@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { ToggleSwitch } from '../ToggleSwitch';
+import { HoverTranslationText } from '../HoverTranslationText';
+import { useT } from '../../hooks/useT';
+import {
+  fetchReminderPreferences,
+  getLocalTimeZone,
+  getPushSubscription,
+  isPushSupported,
+  PushPermissionError,
+  saveReminderPreferences,
+  sendTestReminder,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from '../../services/pushNotifications';
+import {
+  minutesToTime,
+  ReminderFrequency,
+  ReminderPreferences,
+  timeToMinutes,
+} from '../../supabase/functions/send-reminders/reminderRules';
+
+interface RemindersSectionProps {
+  userId: string;
+}
+
+const FREQUENCY_OPTIONS: { value: ReminderFrequency; label: string; translation: string }[] = [
+  { value: 'daily', label: '1×/day', translation: '每天 1 次' },
+  { value: 'twice_daily', label: '2×/day', translation: '每天 2 次' },
+  { value: 'every_4_hours', label: '4h', translation: '每 4 小时' },
+];
+
+export const RemindersSection: React.FC<RemindersSectionProps> = ({ userId }) => {
+  const t = useT();
+  const supported = isPushSupported();
+  const [prefs, setPrefs] = useState<ReminderPreferences | null>(null);
+  const [subscribed, setSubscribed] = useState(false);
+  const [busy, setBusy] = useState<'toggle' | 'save' | 'test' | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!supported) return;
+    let cancelled = false;
+    void Promise.all([fetchReminderPreferences(userId), getPushSubscription()]).then(([nextPrefs, subscription]) => {
+      if (cancelled) return;
+      setPrefs(nextPrefs);
+      setSubscribed(Boolean(subscription));
+    });
+    return () => { cancelled = true; };
+  }, [userId, supported]);
+
+  // Reminders are on for this device only while it also holds a subscription
+  const enabled = Boolean(prefs?.enabled && subscribed);
+
+  const persist = async (next: ReminderPreferences, kind: 'toggle' | 'save' = 'save') => {
+    setBusy(kind);
+    setMessage(null);
+    try {
+      await saveReminderPreferences(userId, next);
+      setPrefs(next);
+    } catch (error) {
+      console.error('[RemindersSection] Saving preferences failed:', error);
+      setMessage(t.remindersFailed);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleReminders = async () => {
+    if (!prefs) return;
+    setBusy('toggle');
+    setMessage(null);
+    try {
+      if (enabled) {
+        await unsubscribeFromPush();
+        setSubscribed(false);
+        await persist({ ...prefs, enabled: false }, 'toggle');
+      } else {
+        await subscribeToPush();
+        setSubscribed(true);
+        await persist({ ...prefs, enabled: true, timeZone: getLocalTimeZone() }, 'toggle');
+      }
+    } catch (error) {
+      console.error('[RemindersSection] Toggling reminders failed:', error);
+      setMessage(error instanceof PushPermissionError ? t.remindersBlocked : t.remindersFailed);
+      setBusy(null);
+    }
+  };
+
+  const changeQuietHours = (field: 'quietStartMinutes' | 'quietEndMinutes', value: string) => {
+    const minutes = timeToMinutes(value);
+    if (!prefs || minutes === null || minutes === prefs[field]) return;
+    void persist({ ...prefs, [field]: minutes, timeZone: getLocalTimeZone() });
+  };
+
+  const testReminder = async () => {
+    setBusy('test');
+    setMessage(null);
+    try {
+      await sendTestReminder();
+      setMessage(t.remindersTestSent);
+    } catch (error: any) {
+      console.error('[RemindersSection] Test reminder failed:', error);
+      setMessage(t.remindersTestFailed(error?.message || String(error)));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const timeInputClass = 'bg-light-charcoal/40 rounded-full px-3 py-1 font-mono text-xs text-text-light focus:text-white outline-none disabled:opacity-50 [color-scheme:dark]';
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-headline text-lg text-text-dark tracking-[0.2em] uppercase"><HoverTranslationText text="Reminders" translation="提醒" /></h3>
+      <div className="bg-dark-charcoal p-5 rounded-3xl border border-mid-charcoal/30 flex items-center justify-between gap-4">
+        <div>
+          <div className="text-white font-mono text-sm mb-1"><HoverTranslationText text="Review Reminders" translation="复习提醒" /></div>
+          <div className="text-[10px] text-text-light font-mono max-w-[200px] leading-tight">
+            {supported ? t.remindersDescription : t.remindersUnsupported}
+          </div>
+        </div>
+        <ToggleSwitch
+          checked={enabled}
+          onChange={() => void toggleReminders()}
+          disabled={!supported || !prefs || busy !== null}
+          ariaLabel="Toggle review reminders"
+        />
+      </div>
+      {enabled && prefs && (
+        <div className="bg-dark-charcoal p-5 rounded-3xl border border-mid-charcoal/30 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="text-white font-mono text-sm"><HoverTranslationText text="Frequency" translation="频率" /></div>
+            <div className="flex bg-light-charcoal/40 rounded-full p-1 shrink-0" role="radiogroup" aria-label="Reminder frequency">
+              {FREQUENCY_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  role="radio"
+                  aria-checked={prefs.frequency === option.value}
+                  disabled={busy !== null}
+                  onClick={() => void persist({ ...prefs, frequency: option.value })}
+                  className={`px-3 py-1 rounded-full font-mono text-xs transition-all ${
+                    prefs.frequency === option.value
+                      ? 'bg-electric-blue text-charcoal font-bold'
+                      : 'text-text-light hover:text-white'
+                  }`}
+                >
+                  <HoverTranslationText text={option.label} translation={option.translation} />
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="text-white font-mono text-sm">{t.remindersQuietHours(prefs.timeZone)}</div>
+            <div className="flex items-center gap-2 shrink-0">
+              <input
+                type="time"
+                value={minutesToTime(prefs.quietStartMinutes)}
+                disabled={busy !== null}
+                onChange={e => changeQuietHours('quietStartMinutes', e.target.value)}
+                className={timeInputClass}
+                aria-label="Quiet hours start"
+              />
+              <span className="text-text-dark font-mono text-xs">–</span>
+              <input
+                type="time"
+                value={minutesToTime(prefs.quietEndMinutes)}
+                disabled={busy !== null}
+                onChange={e => changeQuietHours('quietEndMinutes', e.target.value)}
+                className={timeInputClass}
+                aria-label="Quiet hours end"
+              />
+            </div>
+          </div>
+          <button
+            onClick={() => void testReminder()}
+            disabled={busy !== null}
+            className="w-full px-3 py-2 rounded-full font-mono text-xs bg-light-charcoal/40 text-text-light hover:text-white transition-all disabled:opacity-50 flex items-center justify-center gap-1"
+          >
+            <span className={`material-symbols-outlined text-sm ${busy === 'test' ? 'animate-spin' : ''}`}>{busy === 'test' ? 'sync' : 'notifications_active'}</span>
+            <HoverTranslationText text="Send test reminder" translation="发送测试提醒" />
+          </button>
+        </div>
+      )}
+      {message && (
+        <div className="text-[10px] text-text-light font-mono leading-tight">{message}</div>
+      )}
+    </div>
+  );
+};
@@ -2,13 +2,34 @@ import React from 'react';
 import { ToggleSwitch } from '../ToggleSwitch';
 import { HoverTranslationText } from '../HoverTranslationText';
 import { useT } from '../../hooks/useT';
+import type { ReviewSchedulerKind } from '../../services/reviewScheduler';
 
 interface SmartSelectionSectionProps {
   enabled: boolean;
   onToggle: () => void;
+  schedulerKind: ReviewSchedulerKind;
+  onSchedulerChange: (kind: ReviewSchedulerKind) => void;
+  onOptimizeFsrs: () => void;
+  isOptimizingFsrs: boolean;
+  fsrsOptimizeProgress: number;  // 0-1 while optimizing
+  fsrsOptimizeMessage: string | null;
 }
 
-export const SmartSelectionSection: React.FC<SmartSelectionSectionProps> = ({ enabled, onToggle }) => {
+const SCHEDULER_OPTIONS: { kind: ReviewSchedulerKind; label: string }[] = [
+  { kind: 'sm2', label: 'SM-2' },
+  { kind: 'fsrs', label: 'FSRS' },
+];
+
+export const SmartSelectionSection: React.FC<SmartSelectionSectionProps> = ({
+  enabled,
+  onToggle,
+  schedulerKind,
+  onSchedulerChange,
+  onOptimizeFsrs,
+  isOptimizingFsrs,
+  fsrsOptimizeProgress,
+  fsrsOptimizeMessage,
+}) => {
   const t = useT();
   return (
     <div className="space-y-4">
@@ -27,6 +48,53 @@ export const SmartSelectionSection: React.FC<SmartSelectionSectionProps> = ({ en
           ariaLabel="Toggle smart selection"
         />
       </div>
+      <div className="bg-dark-charcoal p-5 rounded-3xl border border-mid-charcoal/30 flex items-center justify-between gap-4">
+        <div>
+          <div className="text-white font-mono text-sm mb-1"><HoverTranslationText text="Review Scheduler" translation="复习调度器" /></div>
+          <div className="text-[10px] text-text-light font-mono max-w-[200px] leading-tight">
+            {schedulerKind === 'fsrs' ? t.schedulerFsrsDescription : t.schedulerSm2Description}
+          </div>
+        </div>
+        <div className="flex bg-light-charcoal/40 rounded-full p-1 shrink-0" role="radiogroup" aria-label="Review scheduler">
+          {SCHEDULER_OPTIONS.map(option => (
+            <button
+              key={option.kind}
+              role="radio"
+              aria-checked={schedulerKind === option.kind}
+              onClick={() => onSchedulerChange(option.kind)}
+              className={`px-3 py-1 rounded-full font-mono text-xs transition-all ${
+                schedulerKind === option.kind
+                  ? 'bg-electric-blue text-charcoal font-bold'
+                  : 'text-text-light hover:text-white'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {schedulerKind === 'fsrs' && (
+        <div className="bg-dark-charcoal p-5 rounded-3xl border border-mid-charcoal/30 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <div className="text-white font-mono text-sm"><HoverTranslationText text="Tune FSRS to My History" translation="按我的复习记录调优 FSRS" /></div>
+            <button
+              onClick={onOptimizeFsrs}
+              disabled={isOptimizingFsrs}
+              className="px-4 py-1.5 rounded-full font-mono text-xs bg-light-charcoal/40 text-text-light hover:text-white transition-all disabled:opacity-50"
+            >
+              {isOptimizingFsrs
+                ? <HoverTranslationText
+                    text={`Optimizing... ${Math.round(fsrsOptimizeProgress * 100)}%`}
+                    translation={`优化中... ${Math.round(fsrsOptimizeProgress * 100)}%`}
+                  />
+                : <HoverTranslationText text="Optimize" translation="优化" />}
+            </button>
+          </div>
+          {fsrsOptimizeMessage && (
+            <div className="text-[10px] text-text-light font-mono leading-tight">{fsrsOptimizeMessage}</div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
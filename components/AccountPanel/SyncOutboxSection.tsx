@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { HoverTranslationText } from '../HoverTranslationText';
+import { useT } from '../../hooks/useT';
+import type { OutboxItem } from '../../types';
+import {
+  discardOutboxItem,
+  getOutboxItems,
+  isBrowserOffline,
+  processOutbox,
+  retryOutboxItem,
+  subscribeToOutbox,
+} from '../../services/offlineSyncQueue';
+import { describeOutboxOperation } from '../../utils/mutationOutbox';
+
+/** Queued offline writes and the dead-letter view (services/offlineSyncQueue.ts) */
+export const SyncOutboxSection: React.FC = () => {
+  const t = useT();
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      void getOutboxItems().then(next => {
+        if (!cancelled) setItems(next);
+      });
+    };
+    load();
+    const unsubscribe = subscribeToOutbox(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const dead = items.filter(item => item.status === 'dead');
+  const pendingCount = items.length - dead.length;
+
+  const syncNow = async () => {
+    if (isBrowserOffline()) {
+      setMessage(t.syncNowOffline);
+      return;
+    }
+    setBusy('sync');
+    setMessage(null);
+    try {
+      const result = await processOutbox();
+      setMessage(t.syncNowDone(result.applied));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const retry = async (key: string) => {
+    setBusy(key);
+    setMessage(null);
+    try {
+      await retryOutboxItem(key);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const discard = async (key: string) => {
+    setBusy(key);
+    try {
+      await discardOutboxItem(key);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-headline text-lg text-text-dark tracking-[0.2em] uppercase"><HoverTranslationText text="Sync" translation="同步" /></h3>
+      <div className="bg-dark-charcoal p-5 rounded-3xl border border-mid-charcoal/30 flex items-center justify-between gap-4">
+        <div>
+          <div className="text-white font-mono text-sm mb-1"><HoverTranslationText text="Offline Changes" translation="离线修改" /></div>
+          <div className="text-[10px] text-text-light font-mono max-w-[200px] leading-tight">
+            {t.syncStatus(pendingCount, dead.length)}
+          </div>
+        </div>
+        <button
+          onClick={() => void syncNow()}
+          disabled={busy !== null || pendingCount === 0}
+          className="px-3 py-2 rounded-full font-mono text-xs bg-light-charcoal/40 text-text-light hover:text-white transition-all disabled:opacity-50 flex items-center gap-1 shrink-0"
+        >
+          <span className={`material-symbols-outlined text-sm ${busy === 'sync' ? 'animate-spin' : ''}`}>sync</span>
+          <HoverTranslationText text="Sync now" translation="立即同步" />
+        </button>
+      </div>
+      {dead.length > 0 && (
+        <div className="bg-dark-charcoal p-5 rounded-3xl border border-mid-charcoal/30 space-y-3">
+          <div className="text-[10px] text-text-light font-mono leading-tight">{t.syncDeadDescription}</div>
+          {dead.map(item => (
+            <div key={item.key} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="text-white font-mono text-xs truncate">{describeOutboxOperation(item.op)}</div>
+                <div className="text-[10px] text-text-dark font-mono truncate" title={item.lastError}>
+                  {new Date(item.createdAt).toLocaleString()}{item.lastError ? ` · ${item.lastError}` : ''}
+                </div>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <button
+                  onClick={() => void retry(item.key)}
+                  disabled={busy !== null}
+                  className="px-3 py-1 rounded-full font-mono text-xs bg-electric-blue text-charcoal font-bold disabled:opacity-50"
+                >
+                  <HoverTranslationText text="Retry" translation="重试" />
+                </button>
+                <button
+                  onClick={() => void discard(item.key)}
+                  disabled={busy !== null}
+                  className="px-3 py-1 rounded-full font-mono text-xs bg-light-charcoal/40 text-text-light hover:text-white disabled:opacity-50"
+                >
+                  <HoverTranslationText text="Discard" translation="丢弃" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {message && (
+        <div className="text-[10px] text-text-light font-mono leading-tight">{message}</div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { adminService, AdminStats } from '../services/adminService';
+import { adminService, AdminStats, ModeratedRoundMode, ModerationDecision, ModerationLogEntry, ModerationQueueEntry } from '../services/adminService';
 import { AISettings, AEServiceProvider, AITask } from '../services/ai/settings';
 import { generateImagesForMissingWords, cancelGeneration } from '../services/imageGenerationTask';
 import { getCurrentUserId } from '../services/dataService';
@@ -96,7 +96,7 @@ const formatBytes = (bytes: number): string => {
 };
 
 export const AdminConsole: React.FC<{ onClose: () => void, onDataChange?: () => void }> = ({ onClose, onDataChange }) => {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'text' | 'scene'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'text' | 'scene' | 'moderation'>('dashboard');
   const [logs, setLogs] = useState<string[]>([]);
   const [stats, setStats] = useState<AdminStats | null>(null);
   const [isRunning, setIsRunning] = useState(false);
@@ -189,6 +189,7 @@ export const AdminConsole: React.FC<{ onClose: () => void, onDataChange?: () =>
         <button style={TAB_BUTTON_STYLE(activeTab === 'dashboard')} onClick={() => setActiveTab('dashboard')}>概览</button>
         <button style={TAB_BUTTON_STYLE(activeTab === 'text')} onClick={() => setActiveTab('text')}>普通文本</button>
         <button style={TAB_BUTTON_STYLE(activeTab === 'scene')} onClick={() => setActiveTab('scene')}>场景游戏</button>
+        <button style={TAB_BUTTON_STYLE(activeTab === 'moderation')} onClick={() => setActiveTab('moderation')}>排行审核</button>
       </div>
 
       <div style={CONTENT_STYLE}>
@@ -272,6 +273,7 @@ export const AdminConsole: React.FC<{ onClose: () => void, onDataChange?: () =>
 
         {activeTab === 'text' && <TaskSettingsPanel task="TEXT" title="普通文本思考配置" onLog={addLog} />}
         {activeTab === 'scene' && <SceneGameSettingsPanel onLog={addLog} />}
+        {activeTab === 'moderation' && <LeaderboardModerationPanel onLog={addLog} />}
       </div>
     </div>
   );
@@ -518,3 +520,122 @@ const TaskSettingsPanel: React.FC<{ task: AITask, title: string, onLog: (m: stri
     </div>
   );
 };
+
+// ----------------------------------------------------------------
+// Leaderboard moderation — rounds verify-round flagged as suspicious
+// (roundFlags.ts). Hiding removes a round from the puzzle, scene, recall,
+// sprint, daily and global leaderboards; every decision lands in the audit trail.
+// ----------------------------------------------------------------
+const FLAG_LABELS: Record<string, string> = {
+  typing_too_fast: '输入快于人类打字速度',
+  perfect_streak_too_fast: '连续满分且速度异常',
+  repeated_word_set: '反复刷同一组单词',
+};
+
+const MODERATION_MODE_ICONS: Record<ModeratedRoundMode, string> = {
+  PUZZLE: '🧩',
+  SCENE: '🎬',
+  RECALL: '🈶',
+  SPRINT: '🎧',
+  DAILY: '📅',
+};
+
+const MODERATION_STATUS_LABELS: Record<string, string> = {
+  visible: '正常',
+  flagged: '待审核',
+  hidden: '已隐藏',
+  cleared: '已放行',
+};
+
+const LeaderboardModerationPanel: React.FC<{ onLog: (m: string) => void }> = ({ onLog }) => {
+  const [queue, setQueue] = useState<ModerationQueueEntry[]>([]);
+  const [auditLog, setAuditLog] = useState<ModerationLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const [entries, log] = await Promise.all([adminService.getModerationQueue(), adminService.getModerationLog()]);
+      setQueue(entries);
+      setAuditLog(log);
+    } catch (error) {
+      onLog(`Moderation queue failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const handleDecision = async (entry: ModerationQueueEntry, decision: ModerationDecision) => {
+    const note = prompt(decision === 'hide' ? '隐藏原因（写入审核记录，可留空）' : '备注（写入审核记录，可留空）', '');
+    if (note === null) return;
+    setBusyId(entry.id);
+    try {
+      const status = await adminService.moderateRound(entry.mode, entry.id, decision, note);
+      onLog(`Moderation: ${decision} ${entry.mode} round ${entry.id} (${entry.displayName}) → ${status}`);
+      await load();
+    } catch (error) {
+      onLog(`Moderation failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+        <h4>排行榜审核队列</h4>
+        <button style={{ ...BUTTON_STYLE, opacity: loading ? 0.6 : 1 }} onClick={() => void load()} disabled={loading}>
+          {loading ? '加载中…' : '刷新'}
+        </button>
+      </div>
+      <p style={{ fontSize: '11px', color: '#aaa', marginBottom: '12px', lineHeight: 1.6 }}>
+        被判定可疑的字谜 / 场景 / 每日挑战成绩会在这里等待审核，审核前仍计入排行榜。「隐藏」会把该局从字谜、场景、每日挑战和全站排行榜中移除；所有操作都会记入审核记录。
+      </p>
+
+      {queue.length === 0 && !loading && (
+        <div style={{ fontSize: '12px', color: '#888', marginBottom: '16px' }}>队列为空。</div>
+      )}
+
+      {queue.map((entry) => (
+        <div key={`${entry.mode}:${entry.id}`} style={{ background: '#202020', border: '1px solid #333', borderRadius: '8px', padding: '10px 12px', marginBottom: '8px', fontSize: '12px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '4px' }}>
+            <span>{MODERATION_MODE_ICONS[entry.mode]} {entry.displayName}</span>
+            <span style={{ color: entry.status === 'hidden' ? '#FF8A8A' : '#ffb74d' }}>{MODERATION_STATUS_LABELS[entry.status] || entry.status}</span>
+          </div>
+          <div style={{ color: '#bdbdbd', marginBottom: '4px' }}>
+            {Math.round(entry.totalScore)} 分 · 正确 {entry.wordsCorrect}/{entry.wordsTotal} · 用时 {entry.timeUsedSeconds}s · {new Date(entry.playedAt).toLocaleString()}
+          </div>
+          <div style={{ color: '#ffb74d', marginBottom: '8px' }}>
+            {entry.flags.map((flag) => FLAG_LABELS[flag] || flag).join('，') || '—'}
+          </div>
+          <div>
+            {entry.status === 'hidden' ? (
+              <button style={{ ...BUTTON_STYLE, backgroundColor: '#666' }} disabled={busyId === entry.id} onClick={() => void handleDecision(entry, 'restore')}>恢复</button>
+            ) : (
+              <>
+                <button style={{ ...BUTTON_STYLE, backgroundColor: '#f44336' }} disabled={busyId === entry.id} onClick={() => void handleDecision(entry, 'hide')}>隐藏</button>
+                <button style={{ ...BUTTON_STYLE, backgroundColor: '#666' }} disabled={busyId === entry.id} onClick={() => void handleDecision(entry, 'clear')}>放行</button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <h4 style={{ margin: '20px 0 8px' }}>审核记录</h4>
+      <div style={{ ...LOG_STYLE, marginTop: 0 }}>
+        {auditLog.length === 0 && <div style={{ color: '#888' }}>暂无记录</div>}
+        {auditLog.map((row) => (
+          <div key={row.id}>
+            [{new Date(row.createdAt).toLocaleString()}] {row.moderatorEmail} {row.action} {row.mode} {row.roundId.slice(0, 8)} {row.previousStatus}→{row.newStatus}
+            {row.note ? ` · ${row.note}` : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
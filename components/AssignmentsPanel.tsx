@@ -0,0 +1,141 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { HoverTranslationText } from './HoverTranslationText';
+import { ClassroomModal } from './ClassroomModal';
+import { DayStats, InputSession, WordEntry } from '../types';
+import { Classroom, fetchClassAssignments, fetchMyClasses } from '../services/classroomService';
+import { buildClassProgress, ClassAssignment, daysUntilDue } from '../utils/classProgress';
+
+interface AssignmentsPanelProps {
+  userId: string;
+  words: WordEntry[];
+  sessions: InputSession[];
+  stats: Record<string, DayStats>;
+  /** Start the assignment as a CLASSIC test; resolves once the test is open */
+  onStartAssignment: (assignment: ClassAssignment, className: string) => Promise<void>;
+}
+
+/**
+ * AssignmentsPanel - Class assignments on the dashboard
+ * Lists open assignments from joined classes with the learner's own
+ * progress, and opens the classroom modal for joining or teaching.
+ */
+export const AssignmentsPanel: React.FC<AssignmentsPanelProps> = ({ userId, words, sessions, stats, onStartAssignment }) => {
+  const [classes, setClasses] = useState<Classroom[]>([]);
+  const [assignments, setAssignments] = useState<ClassAssignment[]>([]);
+  const [showClassroom, setShowClassroom] = useState(false);
+  const [startingId, setStartingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const list = await fetchMyClasses();
+    setClasses(list);
+    setAssignments(await fetchClassAssignments(list.filter(c => c.teacherId !== userId).map(c => c.id)));
+  }, [userId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  // Same maths as the teacher's table, over the learner's local words and stats
+  const progress = useMemo(() => buildClassProgress(
+    [{ userId, name: null, joinedAt: 0 }],
+    assignments,
+    words.map(w => ({
+      userId,
+      text: w.text,
+      tested: w.tested,
+      correct: w.correct,
+      errorCount: w.error_count || 0,
+      lastTested: w.last_tested,
+    })),
+    Object.values<DayStats>(stats).map(s => ({ userId, date: s.date, total: s.total, correct: s.correct }))
+  ), [userId, assignments, words, stats]);
+
+  const open = assignments
+    .map(a => ({ assignment: a, progress: progress.find(p => p.assignmentId === a.id)! }))
+    .filter(x => x.progress.status !== 'complete')
+    .sort((a, b) => (a.assignment.dueAt ?? Infinity) - (b.assignment.dueAt ?? Infinity));
+  const teachesAny = classes.some(c => c.teacherId === userId);
+
+  const handleStart = async (assignment: ClassAssignment) => {
+    setStartingId(assignment.id);
+    try {
+      await onStartAssignment(assignment, classes.find(c => c.id === assignment.classId)?.name ?? 'Class');
+    } finally {
+      setStartingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-light-charcoal p-6 rounded-3xl border border-mid-charcoal shadow-2xl flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-headline text-xl text-white flex items-center gap-2">
+          <span className="material-symbols-outlined text-electric-blue">assignment</span>
+          <HoverTranslationText text="ASSIGNMENTS" translation="班级作业" />
+        </h3>
+        <button
+          onClick={() => setShowClassroom(true)}
+          className="px-3 py-1 rounded-full bg-dark-charcoal font-mono text-xs text-text-light hover:text-white transition-colors flex items-center gap-1"
+        >
+          <span className="material-symbols-outlined text-sm">groups</span>
+          {teachesAny
+            ? <HoverTranslationText text="My classes" translation="我的班级" />
+            : <HoverTranslationText text="Join" translation="加入班级" />}
+        </button>
+      </div>
+
+      {open.length === 0 ? (
+        <p className="font-mono text-xs text-text-dark">
+          {assignments.length > 0
+            ? <HoverTranslationText text="All assignments done 🎉" translation="作业全部完成 🎉" />
+            : <HoverTranslationText text="No assignments. Join a class with your teacher's code." translation="暂无作业，输入老师的邀请码加入班级。" />}
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto custom-scrollbar pr-1">
+          {open.map(({ assignment, progress: p }) => {
+            const days = daysUntilDue(assignment.dueAt);
+            return (
+              <div key={assignment.id} className="flex items-center justify-between gap-3 bg-dark-charcoal rounded-2xl px-4 py-3">
+                <div className="min-w-0 font-mono text-xs">
+                  <div className="text-white truncate">{assignment.title}</div>
+                  <div className="text-text-dark">
+                    {p.studied}/{p.total} · {classes.find(c => c.id === assignment.classId)?.name}
+                  </div>
+                  {days != null && (
+                    <div className={p.status === 'overdue' ? 'text-red-400' : days <= 1 ? 'text-yellow-400' : 'text-text-dark'}>
+                      {p.status === 'overdue'
+                        ? <HoverTranslationText text="Overdue" translation="已逾期" />
+                        : <HoverTranslationText text={days <= 0 ? 'Due today' : `Due in ${days}d`} translation={days <= 0 ? '今天截止' : `${days} 天后截止`} />}
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleStart(assignment)}
+                  disabled={startingId !== null}
+                  className="px-3 py-2 rounded-lg font-headline tracking-wider bg-electric-blue text-charcoal hover:bg-electric-blue/80 disabled:opacity-40 disabled:cursor-not-allowed transition-colors flex items-center gap-1 text-sm"
+                >
+                  <span className={`material-symbols-outlined text-sm ${startingId === assignment.id ? 'animate-spin' : ''}`}>
+                    {startingId === assignment.id ? 'sync' : 'play_arrow'}
+                  </span>
+                  START
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showClassroom && (
+        <ClassroomModal
+          userId={userId}
+          sessions={sessions}
+          words={words}
+          onClose={() => {
+            setShowClassroom(false);
+            void load();
+          }}
+          onClassesChanged={() => void load()}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,287 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { HoverTranslationText } from './HoverTranslationText';
+import { playWordPronunciation, stopCurrentAudio } from '../services/pronunciationService';
+import { playBuzzer, playDing } from '../utils/audioFeedback';
+import {
+  ChoiceCardResult,
+  ChoiceQuestion,
+  ChoiceQuizPhase,
+  ChoiceQuizSummary,
+  InputSession,
+  WordEntry,
+} from '../types';
+import { calculateChoiceQuizSummary, CHOICE_QUIZ_WORDS } from '../utils/meaningChoice';
+import { selectChoiceQuizQuestions } from '../services/choiceQuiz';
+import { getRecallCandidateWords } from '../services/recallGame';
+import { submitWordReviews } from '../services/dataService';
+
+interface ChoiceQuizModeProps {
+  allWords: WordEntry[];
+  sessions: InputSession[];
+  onComplete: (summary: ChoiceQuizSummary) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+// How long the right answer stays highlighted before the next word
+const REVEAL_DELAY_MS = 900;
+const MIN_QUESTIONS = 4;
+
+/**
+ * ChoiceQuizMode - Multiple-choice meaning quiz
+ * Shows a word (auto-played via playWordPronunciation) and four Chinese
+ * meanings; keys 1-4 or a click answer. A low-friction recognition step
+ * before the spelling modes.
+ */
+const ChoiceQuizMode: React.FC<ChoiceQuizModeProps> = ({ allWords, sessions, onComplete, onCancel }) => {
+  const [phase, setPhase] = useState<ChoiceQuizPhase>('INTRO');
+  const [questions, setQuestions] = useState<ChoiceQuestion[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [chosenIndex, setChosenIndex] = useState<number | null>(null);
+  const [results, setResults] = useState<ChoiceCardResult[]>([]);
+  const [summary, setSummary] = useState<ChoiceQuizSummary | null>(null);
+  const [preparationError, setPreparationError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const shownAtRef = useRef(0);
+  const advanceTimerRef = useRef<number | null>(null);
+
+  const candidateCount = useMemo(() => getRecallCandidateWords(allWords).length, [allWords]);
+  const question = questions[currentIndex] as ChoiceQuestion | undefined;
+
+  useEffect(() => {
+    return () => {
+      if (advanceTimerRef.current) window.clearTimeout(advanceTimerRef.current);
+      void stopCurrentAudio();
+    };
+  }, []);
+
+  // Play each new word as it comes up
+  useEffect(() => {
+    if (phase !== 'PLAYING' || !question) return;
+    shownAtRef.current = Date.now();
+    void playWordPronunciation(question.word.text, question.word.language || 'en');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phase, currentIndex]);
+
+  const startQuiz = () => {
+    setPreparationError(null);
+    const smartSelectionEnabled = localStorage.getItem('vibe_ai_selection') === 'true';
+    const nextQuestions = selectChoiceQuizQuestions(allWords, sessions, smartSelectionEnabled, CHOICE_QUIZ_WORDS);
+    if (nextQuestions.length < MIN_QUESTIONS) {
+      setPreparationError('Not enough words with distinct Chinese meanings in your library yet.');
+      return;
+    }
+    setQuestions(nextQuestions);
+    setCurrentIndex(0);
+    setChosenIndex(null);
+    setResults([]);
+    setPhase('PLAYING');
+  };
+
+  const finishQuiz = async (finalResults: ChoiceCardResult[]) => {
+    await stopCurrentAudio();
+    const nextSummary = calculateChoiceQuizSummary(finalResults);
+    setSummary(nextSummary);
+    setPhase('RESULT');
+
+    // Log every question to the review history (non-fatal); typing speed
+    // does not apply to a recognition answer
+    void submitWordReviews(finalResults.map((r) => ({
+      wordId: r.wordId,
+      mode: 'CHOICE',
+      correct: r.correct,
+      attempts: 1,
+      hintLevel: 0,
+      timeSpentMs: r.answeredInMs,
+      charsPerMinute: null,
+    })), crypto.randomUUID());
+
+    setIsSubmitting(true);
+    try {
+      await onComplete(nextSummary);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const choose = (optionIndex: number) => {
+    if (phase !== 'PLAYING' || !question || chosenIndex !== null) return;
+    const option = question.options[optionIndex];
+    if (!option) return;
+
+    setChosenIndex(optionIndex);
+    if (option.correct) playDing();
+    else playBuzzer();
+
+    const nextResults = [...results, {
+      wordId: question.word.id,
+      wordText: question.word.text,
+      correct: option.correct,
+      chosenWordId: option.correct ? null : option.wordId,
+      answeredInMs: Date.now() - shownAtRef.current,
+    }];
+    setResults(nextResults);
+
+    advanceTimerRef.current = window.setTimeout(() => {
+      if (currentIndex >= questions.length - 1) {
+        void finishQuiz(nextResults);
+        return;
+      }
+      setCurrentIndex(currentIndex + 1);
+      setChosenIndex(null);
+    }, REVEAL_DELAY_MS);
+  };
+
+  useEffect(() => {
+    if (phase !== 'PLAYING') return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const optionIndex = Number(event.key) - 1;
+      if (optionIndex >= 0 && optionIndex < 4) {
+        event.preventDefault();
+        choose(optionIndex);
+      } else if (event.key === ' ' && question) {
+        event.preventDefault();
+        void playWordPronunciation(question.word.text, question.word.language || 'en');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const optionClass = (index: number) => {
+    if (chosenIndex === null) {
+      return 'border-mid-charcoal bg-light-charcoal/30 text-white hover:border-electric-blue hover:bg-electric-blue/10';
+    }
+    if (question?.options[index].correct) return 'border-electric-green bg-electric-green/15 text-electric-green';
+    if (index === chosenIndex) return 'border-red-500 bg-red-500/15 text-red-300';
+    return 'border-mid-charcoal bg-light-charcoal/10 text-text-dark';
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] overflow-hidden bg-[linear-gradient(180deg,_rgba(9,12,16,0.96),_rgba(12,14,18,1))]">
+      <div className="relative flex h-[100dvh] flex-col px-4 pb-4 pt-20 md:px-8 md:pb-6 md:pt-24">
+        <div className="sticky top-16 z-30 mb-4 flex shrink-0 items-start justify-between gap-4 pb-3">
+          <div>
+            <div className="text-xs font-mono uppercase tracking-[0.35em] text-electric-blue/80">OPTION 7</div>
+            <h2 className="font-headline text-3xl text-white md:text-4xl">
+              <HoverTranslationText text="Meaning Quiz" translation="释义选择" />
+            </h2>
+          </div>
+          <button
+            onClick={onCancel}
+            className="rounded-2xl border border-mid-charcoal bg-dark-charcoal/70 px-4 py-2 text-xs font-mono uppercase tracking-[0.25em] text-text-light transition-colors hover:border-white hover:text-white"
+          >
+            <HoverTranslationText text="Exit" translation="退出" />
+          </button>
+        </div>
+
+        {phase === 'INTRO' && (
+          <div className="flex flex-1 items-center justify-center">
+            <div className="w-full max-w-xl space-y-6 rounded-[32px] border border-mid-charcoal bg-dark-charcoal/80 p-8 text-center shadow-2xl">
+              <p className="text-sm leading-7 text-text-light">
+                <HoverTranslationText
+                  text={`Hear a word, pick its meaning from four. ${CHOICE_QUIZ_WORDS} words, no timer. Wrong options come from your own library.`}
+                  translation={`听单词，从四个释义中选出正确的一个。共 ${CHOICE_QUIZ_WORDS} 个单词，不计时。干扰项来自你自己的词库。`}
+                />
+              </p>
+              <p className="text-xs font-mono text-text-dark">
+                <HoverTranslationText
+                  text={`Words with a Chinese meaning: ${candidateCount}`}
+                  translation={`带中文释义的单词：${candidateCount}`}
+                />
+              </p>
+              <button
+                onClick={startQuiz}
+                className="w-full rounded-2xl bg-electric-blue px-5 py-4 font-headline text-sm uppercase tracking-[0.3em] text-charcoal transition-transform hover:-translate-y-1"
+              >
+                <HoverTranslationText text="Start Quiz" translation="开始测验" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {phase === 'PLAYING' && question && (
+          <div className="flex flex-1 flex-col items-center justify-center gap-6">
+            <div className="font-mono text-xs uppercase tracking-[0.3em] text-text-dark">
+              {currentIndex + 1} / {questions.length}
+            </div>
+            <button
+              onClick={() => void playWordPronunciation(question.word.text, question.word.language || 'en')}
+              className="flex items-center gap-3 font-headline text-5xl text-white md:text-6xl"
+              title="Space to replay"
+            >
+              {question.word.text}
+              <span className="material-symbols-outlined text-3xl text-electric-blue">volume_up</span>
+            </button>
+            {question.word.phonetic && (
+              <div className="font-mono text-sm text-text-dark">{question.word.phonetic}</div>
+            )}
+
+            <div className="grid w-full max-w-2xl gap-3 sm:grid-cols-2">
+              {question.options.map((option, index) => (
+                <button
+                  key={option.wordId}
+                  onClick={() => choose(index)}
+                  disabled={chosenIndex !== null}
+                  className={`flex items-center gap-3 rounded-2xl border px-5 py-4 text-left text-lg transition-colors ${optionClass(index)}`}
+                >
+                  <span className="font-mono text-xs text-text-dark">{index + 1}</span>
+                  <span>{option.meaningZh}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {phase === 'RESULT' && summary && (
+          <div className="flex flex-1 items-start justify-center overflow-y-auto py-4">
+            <div className="w-full max-w-2xl space-y-6 rounded-[34px] border border-mid-charcoal bg-dark-charcoal/85 p-8 shadow-2xl">
+              <div className="text-center">
+                <div className="text-xs font-mono uppercase tracking-[0.35em] text-electric-blue/80">
+                  <HoverTranslationText text="Quiz Complete" translation="测验完成" />
+                </div>
+                <div className="mt-3 font-headline text-5xl text-white">
+                  {summary.wordsCorrect}/{summary.wordsTotal}
+                </div>
+                <div className="mt-2 font-mono text-xs text-text-dark">
+                  {Math.round(summary.accuracyRate * 100)}%
+                  {summary.averageAnswerMs != null && ` · ${(summary.averageAnswerMs / 1000).toFixed(1)}s / word`}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {questions.map((q, index) => {
+                  const result = summary.results[index];
+                  return (
+                    <div key={q.word.id} className="flex items-center justify-between gap-3 rounded-2xl border border-mid-charcoal bg-light-charcoal/20 px-4 py-2 text-sm">
+                      <span className="font-headline text-white">{q.word.text}</span>
+                      <span className={`truncate ${result?.correct ? 'text-electric-green' : 'text-red-300'}`}>
+                        {q.options.find((o) => o.correct)?.meaningZh} {result?.correct ? '✓' : '✗'}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <button
+                onClick={onCancel}
+                disabled={isSubmitting}
+                className="w-full rounded-2xl bg-electric-blue px-4 py-4 font-headline text-sm uppercase tracking-[0.3em] text-charcoal transition-transform hover:-translate-y-1 disabled:opacity-50"
+              >
+                <HoverTranslationText text="Return to Dashboard" translation="返回主界面" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {preparationError && (
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 rounded-2xl border border-red-500/40 bg-red-500/15 px-4 py-3 text-sm text-red-200 shadow-2xl">
+            {preparationError}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChoiceQuizMode;
@@ -0,0 +1,457 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { HoverTranslationText } from './HoverTranslationText';
+import { InputSession, WordEntry } from '../types';
+import {
+  Classroom,
+  ClassProgressReport,
+  createAssignment,
+  createClass,
+  deleteAssignment,
+  fetchClassAssignments,
+  fetchClassProgress,
+  fetchMyClasses,
+  joinClass,
+  removeClassMember,
+} from '../services/classroomService';
+import { discoverLibraryPacks, loadLibraryPackWords } from '../services/libraryPacks';
+import { AssignmentStatus, ClassAssignment, ClassAssignmentWord, sliceLibraryWords } from '../utils/classProgress';
+import type { LibraryPack } from '../utils/libraryManifest';
+
+interface ClassroomModalProps {
+  userId: string;
+  /** The teacher's own sessions and words, for session assignments */
+  sessions: InputSession[];
+  words: WordEntry[];
+  onClose: () => void;
+  /** Called after joining or leaving a class */
+  onClassesChanged: () => void;
+}
+
+/** Matches the class_assignments word-count check */
+const MAX_ASSIGNMENT_WORDS = 500;
+
+const STATUS_STYLE: Record<AssignmentStatus, { className: string; label: string }> = {
+  complete: { className: 'text-electric-green', label: '已完成' },
+  in_progress: { className: 'text-electric-blue', label: '进行中' },
+  not_started: { className: 'text-text-dark', label: '未开始' },
+  overdue: { className: 'text-red-400', label: '已逾期' },
+};
+
+const formatDay = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
+/**
+ * ClassroomModal - Classes and assigned word sets
+ * Students join a class by invite code; teachers create classes, assign
+ * sessions or library slices with due dates, and follow each student's
+ * completion, accuracy and errors.
+ */
+export const ClassroomModal: React.FC<ClassroomModalProps> = ({ userId, sessions, words, onClose, onClassesChanged }) => {
+  const [classes, setClasses] = useState<Classroom[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [assignments, setAssignments] = useState<ClassAssignment[]>([]);
+  const [report, setReport] = useState<ClassProgressReport | null>(null);
+  const [inviteCode, setInviteCode] = useState('');
+  const [newClassName, setNewClassName] = useState('');
+  const [busy, setBusy] = useState<'join' | 'create' | 'assign' | null>(null);
+  const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+
+  // Assignment form
+  const [title, setTitle] = useState('');
+  const [sourceKind, setSourceKind] = useState<'session' | 'library'>('session');
+  const [sessionId, setSessionId] = useState('');
+  const [packs, setPacks] = useState<LibraryPack[]>([]);
+  const [packTag, setPackTag] = useState('');
+  const [level, setLevel] = useState('');
+  const [rangeFrom, setRangeFrom] = useState('1');
+  const [rangeTo, setRangeTo] = useState('50');
+  const [libraryWords, setLibraryWords] = useState<ClassAssignmentWord[]>([]);
+  const [dueDate, setDueDate] = useState('');
+
+  const teaching = classes.filter(c => c.teacherId === userId);
+  const joined = classes.filter(c => c.teacherId !== userId);
+  const selected = teaching.find(c => c.id === selectedId) ?? null;
+  const pack = packs.find(p => p.tag === packTag) ?? null;
+
+  const loadClasses = useCallback(async () => {
+    const list = await fetchMyClasses();
+    setClasses(list);
+    setSelectedId(prev => prev ?? list.find(c => c.teacherId === userId)?.id ?? null);
+  }, [userId]);
+
+  useEffect(() => {
+    void loadClasses();
+    discoverLibraryPacks().then(setPacks);
+  }, [loadClasses]);
+
+  const loadProgress = useCallback(async (classId: string) => {
+    const list = await fetchClassAssignments([classId]);
+    setAssignments(list);
+    const result = await fetchClassProgress(classId, list);
+    setReport('error' in result ? null : result);
+  }, []);
+
+  useEffect(() => {
+    setReport(null);
+    setAssignments([]);
+    if (selectedId) void loadProgress(selectedId);
+  }, [selectedId, loadProgress]);
+
+  const sessionWords = useMemo<ClassAssignmentWord[]>(() => words
+    .filter(w => w.sessionId === sessionId && !w.deleted)
+    .map(w => ({ text: w.text, meaning: w.definition_cn })), [words, sessionId]);
+
+  useEffect(() => {
+    if (!pack) {
+      setLibraryWords([]);
+      return;
+    }
+    let cancelled = false;
+    loadLibraryPackWords(pack)
+      .then(all => {
+        if (cancelled) return;
+        setLibraryWords(sliceLibraryWords(all, {
+          level: level ? Number(level) : null,
+          from: Number(rangeFrom) || 1,
+          to: Number(rangeTo) || undefined,
+        }));
+      })
+      .catch(e => {
+        console.error('[ClassroomModal] Failed to load pack words:', e);
+        if (!cancelled) setLibraryWords([]);
+      });
+    return () => { cancelled = true; };
+  }, [pack, level, rangeFrom, rangeTo]);
+
+  const assignedWords = sourceKind === 'session' ? sessionWords : libraryWords;
+  const canAssign = busy === null && !!selected && title.trim() !== ''
+    && assignedWords.length > 0 && assignedWords.length <= MAX_ASSIGNMENT_WORDS;
+
+  const handleJoin = async () => {
+    if (!inviteCode.trim()) return;
+    setBusy('join');
+    setMessage(null);
+    const result = await joinClass(inviteCode);
+    setBusy(null);
+    if ('error' in result) {
+      setMessage({ kind: 'error', text: result.error === 'not_found' ? '邀请码无效' : result.error });
+      return;
+    }
+    setInviteCode('');
+    setMessage({ kind: 'ok', text: `已加入「${result.name}」，作业会显示在首页` });
+    await loadClasses();
+    onClassesChanged();
+  };
+
+  const handleLeave = async (classroom: Classroom) => {
+    if (!window.confirm(`退出「${classroom.name}」？已添加的单词会保留。`)) return;
+    if (await removeClassMember(classroom.id, userId)) {
+      await loadClasses();
+      onClassesChanged();
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newClassName.trim()) return;
+    setBusy('create');
+    setMessage(null);
+    const result = await createClass(userId, newClassName);
+    setBusy(null);
+    if ('error' in result) {
+      setMessage({ kind: 'error', text: result.error });
+      return;
+    }
+    setNewClassName('');
+    setClasses(prev => [...prev, result]);
+    setSelectedId(result.id);
+  };
+
+  const handleAssign = async () => {
+    if (!canAssign || !selected) return;
+    setBusy('assign');
+    setMessage(null);
+
+    const session = sessions.find(s => s.id === sessionId);
+    const result = await createAssignment({
+      classId: selected.id,
+      title,
+      source: sourceKind === 'library' && pack
+        ? { kind: 'library', label: pack.name, tag: pack.tag, level: level ? Number(level) : null }
+        : { kind: 'session', label: session ? `${session.libraryTag || 'Custom'} · ${formatDay(session.timestamp)}` : title },
+      words: assignedWords,
+      // Due at the end of the chosen day
+      dueAt: dueDate ? new Date(`${dueDate}T23:59:59`).getTime() : null,
+    });
+    setBusy(null);
+
+    if ('error' in result) {
+      setMessage({ kind: 'error', text: result.error });
+      return;
+    }
+    setTitle('');
+    setMessage({ kind: 'ok', text: `已布置「${result.title}」：${result.words.length} 个单词` });
+    await loadProgress(selected.id);
+  };
+
+  const handleDeleteAssignment = async (assignment: ClassAssignment) => {
+    if (!selected || !window.confirm(`删除作业「${assignment.title}」？`)) return;
+    if (await deleteAssignment(assignment.id)) await loadProgress(selected.id);
+  };
+
+  const handleRemoveStudent = async (studentId: string, name: string) => {
+    if (!selected || !window.confirm(`将 ${name} 移出班级？`)) return;
+    if (await removeClassMember(selected.id, studentId)) await loadProgress(selected.id);
+  };
+
+  const inputClass = 'w-full bg-dark-charcoal border border-mid-charcoal rounded-lg px-3 py-2 text-white font-mono text-sm focus:border-electric-blue outline-none disabled:opacity-50';
+  const buttonClass = 'px-4 py-2 rounded-lg font-headline tracking-wider bg-electric-blue text-charcoal hover:bg-electric-blue/80 disabled:opacity-40 disabled:cursor-not-allowed transition-colors flex items-center gap-2';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[200] flex items-center justify-center p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="bg-light-charcoal border border-mid-charcoal rounded-3xl w-full max-w-4xl max-h-[90vh] overflow-y-auto custom-scrollbar shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4 p-6 border-b border-mid-charcoal">
+          <h2 className="font-headline text-2xl text-electric-blue flex items-center gap-2">
+            <span className="material-symbols-outlined">groups</span>
+            <HoverTranslationText text="CLASSES" translation="班级" />
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-mid-charcoal rounded-full text-text-light transition-colors"
+            aria-label="Close"
+          >
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {message && (
+            <div className={`flex items-center gap-2 p-3 rounded-xl font-mono text-xs border ${message.kind === 'ok' ? 'bg-electric-green/10 border-electric-green/30 text-electric-green' : 'bg-red-500/10 border-red-500/30 text-red-400'}`}>
+              <span className="material-symbols-outlined text-sm">{message.kind === 'ok' ? 'check_circle' : 'error'}</span>
+              {message.text}
+            </div>
+          )}
+
+          {/* Student: join by code */}
+          <div className="space-y-3">
+            <h3 className="font-headline text-lg text-white">
+              <HoverTranslationText text="JOIN A CLASS" translation="加入班级" />
+            </h3>
+            <div className="flex gap-2">
+              <input
+                value={inviteCode}
+                onChange={e => setInviteCode(e.target.value.toUpperCase())}
+                onKeyDown={e => { if (e.key === 'Enter') void handleJoin(); }}
+                placeholder="A1B2C3D4"
+                maxLength={8}
+                className={`${inputClass} tracking-[0.3em] uppercase`}
+              />
+              <button onClick={handleJoin} disabled={busy !== null || !inviteCode.trim()} className={buttonClass}>
+                {busy === 'join' && <span className="material-symbols-outlined text-sm animate-spin">sync</span>}
+                JOIN
+              </button>
+            </div>
+            {joined.map(classroom => (
+              <div key={classroom.id} className="flex items-center justify-between bg-dark-charcoal rounded-lg px-3 py-2 font-mono text-xs">
+                <span className="text-text-light">{classroom.name}</span>
+                <button onClick={() => handleLeave(classroom)} className="text-text-dark hover:text-red-400 transition-colors" title="退出">
+                  <span className="material-symbols-outlined text-sm">logout</span>
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-px bg-mid-charcoal opacity-50"></div>
+
+          {/* Teacher: classes */}
+          <div className="space-y-3">
+            <h3 className="font-headline text-lg text-white">
+              <HoverTranslationText text="TEACH" translation="我的班级" />
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {teaching.map(classroom => (
+                <button
+                  key={classroom.id}
+                  onClick={() => setSelectedId(classroom.id)}
+                  className={`px-3 py-1 rounded-full font-mono text-xs transition-colors ${selectedId === classroom.id ? 'bg-electric-blue text-charcoal' : 'bg-dark-charcoal text-text-light hover:text-white'}`}
+                >
+                  {classroom.name}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                value={newClassName}
+                onChange={e => setNewClassName(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') void handleCreate(); }}
+                placeholder="新班级名称 New class"
+                className={inputClass}
+              />
+              <button onClick={handleCreate} disabled={busy !== null || !newClassName.trim()} className={buttonClass}>
+                {busy === 'create' && <span className="material-symbols-outlined text-sm animate-spin">sync</span>}
+                CREATE
+              </button>
+            </div>
+          </div>
+
+          {selected && (
+            <>
+              <div className="flex items-center justify-between bg-dark-charcoal rounded-lg px-3 py-2 font-mono text-xs">
+                <span className="text-text-light">{selected.name}</span>
+                <span className="text-text-dark">邀请码 <span className="text-electric-green tracking-widest">{selected.inviteCode}</span></span>
+              </div>
+
+              {/* Assignment form */}
+              <div className="space-y-3">
+                <h3 className="font-headline text-lg text-white">
+                  <HoverTranslationText text="ASSIGN WORDS" translation="布置单词" />
+                </h3>
+                <div className="grid grid-cols-2 gap-3">
+                  <input value={title} onChange={e => setTitle(e.target.value)} placeholder="标题 Title" className={inputClass} />
+                  <input type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} className={inputClass} title="截止日期 Due date" />
+                </div>
+                <div className="flex gap-2 font-mono text-xs">
+                  {(['session', 'library'] as const).map(kind => (
+                    <button
+                      key={kind}
+                      onClick={() => setSourceKind(kind)}
+                      className={`px-3 py-1 rounded-full transition-colors ${sourceKind === kind ? 'bg-electric-blue text-charcoal' : 'bg-dark-charcoal text-text-light hover:text-white'}`}
+                    >
+                      {kind === 'session'
+                        ? <HoverTranslationText text="My session" translation="我的单词组" />
+                        : <HoverTranslationText text="Library slice" translation="词库片段" />}
+                    </button>
+                  ))}
+                </div>
+
+                {sourceKind === 'session' ? (
+                  <select value={sessionId} onChange={e => setSessionId(e.target.value)} className={inputClass}>
+                    <option value="">选择单词组 Choose a session</option>
+                    {sessions.filter(s => !s.deleted && s.wordCount > 0).map(s => (
+                      <option key={s.id} value={s.id}>
+                        {formatDay(s.timestamp)} · {s.libraryTag || 'Custom'} · {s.wordCount} 词
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="grid grid-cols-4 gap-3">
+                    <select value={packTag} onChange={e => { setPackTag(e.target.value); setLevel(''); }} className={`${inputClass} col-span-4 sm:col-span-1`}>
+                      <option value="">词库 Library</option>
+                      {packs.map(p => <option key={p.id} value={p.tag}>{p.name}</option>)}
+                    </select>
+                    <select value={level} onChange={e => setLevel(e.target.value)} disabled={!pack || pack.levels.length === 0} className={`${inputClass} col-span-4 sm:col-span-1`}>
+                      <option value="">全部等级 All levels</option>
+                      {pack?.levels.map(l => <option key={l.level} value={l.level}>{l.name}</option>)}
+                    </select>
+                    <input type="number" min={1} value={rangeFrom} onChange={e => setRangeFrom(e.target.value)} placeholder="从 From" className={`${inputClass} col-span-2 sm:col-span-1`} />
+                    <input type="number" min={1} value={rangeTo} onChange={e => setRangeTo(e.target.value)} placeholder="到 To" className={`${inputClass} col-span-2 sm:col-span-1`} />
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between gap-3">
+                  <p className={`font-mono text-[10px] ${assignedWords.length > MAX_ASSIGNMENT_WORDS ? 'text-red-400' : 'text-text-dark'}`}>
+                    <HoverTranslationText
+                      text={`${assignedWords.length} words (max ${MAX_ASSIGNMENT_WORDS})${assignedWords.length ? ` · ${assignedWords.slice(0, 6).map(w => w.text).join(', ')}…` : ''}`}
+                      translation={`${assignedWords.length} 个单词（最多 ${MAX_ASSIGNMENT_WORDS}）`}
+                    />
+                  </p>
+                  <button onClick={handleAssign} disabled={!canAssign} className={buttonClass}>
+                    {busy === 'assign' && <span className="material-symbols-outlined text-sm animate-spin">sync</span>}
+                    ASSIGN
+                  </button>
+                </div>
+              </div>
+
+              {/* Progress */}
+              <div className="space-y-3">
+                <h3 className="font-headline text-lg text-white">
+                  <HoverTranslationText text="PROGRESS" translation="学生进度" />
+                </h3>
+                {!report ? (
+                  <p className="font-mono text-xs text-text-dark">
+                    <HoverTranslationText text="Loading..." translation="加载中..." />
+                  </p>
+                ) : report.students.length === 0 ? (
+                  <p className="font-mono text-xs text-text-dark">
+                    <HoverTranslationText
+                      text={`No students yet — share the invite code ${selected.inviteCode}`}
+                      translation={`还没有学生 — 分享邀请码 ${selected.inviteCode}`}
+                    />
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto custom-scrollbar">
+                    <table className="w-full font-mono text-xs">
+                      <thead>
+                        <tr className="text-text-dark text-left">
+                          <th className="py-2 pr-3 font-normal">学生</th>
+                          {assignments.map(a => (
+                            <th key={a.id} className="py-2 pr-3 font-normal align-bottom">
+                              <div className="flex items-center gap-1 text-text-light">
+                                {a.title}
+                                <button onClick={() => handleDeleteAssignment(a)} className="text-text-dark hover:text-red-400 transition-colors" title="删除作业">
+                                  <span className="material-symbols-outlined text-xs">delete</span>
+                                </button>
+                              </div>
+                              <div>{a.words.length} 词{a.dueAt ? ` · 截止 ${formatDay(a.dueAt)}` : ''}</div>
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.students.map((student, index) => {
+                          const name = student.name || `学生 ${index + 1}`;
+                          return (
+                            <tr key={student.userId} className="border-t border-mid-charcoal/60">
+                              <td className="py-2 pr-3 text-text-light whitespace-nowrap">
+                                <span className="flex items-center gap-1">
+                                  {name}
+                                  <button onClick={() => handleRemoveStudent(student.userId, name)} className="text-text-dark hover:text-red-400 transition-colors" title="移出班级">
+                                    <span className="material-symbols-outlined text-xs">person_remove</span>
+                                  </button>
+                                </span>
+                              </td>
+                              {assignments.map(a => {
+                                const p = report.progress.find(x => x.assignmentId === a.id && x.userId === student.userId);
+                                if (!p) return <td key={a.id} className="py-2 pr-3 text-text-dark">—</td>;
+                                const style = STATUS_STYLE[p.status];
+                                return (
+                                  <td
+                                    key={a.id}
+                                    className="py-2 pr-3 whitespace-nowrap"
+                                    title={p.strugglingWords.length ? `易错：${p.strugglingWords.join(', ')}` : undefined}
+                                  >
+                                    <div className={style.className}>{p.completionRate}% · {style.label}</div>
+                                    <div className="text-text-dark">
+                                      {p.accuracy != null ? `正确率 ${p.accuracy}%` : '正确率 —'} · 错 {p.errorCount}
+                                    </div>
+                                  </td>
+                                );
+                              })}
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-mid-charcoal">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg font-headline tracking-wider text-text-light hover:bg-mid-charcoal transition-colors"
+          >
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
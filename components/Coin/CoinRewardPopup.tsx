@@ -5,13 +5,13 @@ import { playCoinReward } from '../../utils/audioFeedback';
 
 interface CoinRewardPopupProps {
   amount: number;
-  source: 'quiz' | 'puzzle' | 'achievement_bonus';
+  source: 'quiz' | 'puzzle' | 'choice' | 'achievement_bonus';
   onClose: () => void;
 }
 
 /**
  * Compact gold coin reward popup. Shown after any coin-earning action
- * (quiz completion, puzzle completion, all-achievements bonus).
+ * (quiz completion, puzzle completion, choice quiz, all-achievements bonus).
  *
  * Plays a short gold confetti burst, displays "+N" with a large coin icon,
  * then auto-dismisses after 3s. User can also tap to dismiss early.
@@ -46,6 +46,8 @@ export const CoinRewardPopup: React.FC<CoinRewardPopupProps> = ({ amount, source
     ? 'Quiz Reward'
     : source === 'puzzle'
     ? 'Puzzle Reward'
+    : source === 'choice'
+    ? 'Choice Quiz Reward'
     : 'All Achievements Bonus!';
 
   return (
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { HoverTranslationText } from './HoverTranslationText';
+import SceneGameMode from './SceneGameMode';
+import { SceneGameSummary } from '../types';
+import { DailyChallenge, loadDailyChallenge } from '../services/dailyChallenge';
+
+interface DailyChallengeModeProps {
+  onComplete: (summary: SceneGameSummary) => Promise<void> | void;
+  onExit: () => void;
+}
+
+const ERROR_MESSAGES: Record<string, { en: string; zh: string }> = {
+  pack_not_found: { en: "Today's word library is not available.", zh: '今日挑战的词库暂不可用。' },
+  not_enough_words: { en: "Today's word library has too few words.", zh: '今日挑战的词库单词不足。' },
+};
+
+const describeError = (code: string) => ERROR_MESSAGES[code] || { en: code, zh: code };
+
+/**
+ * Loads today's shared challenge (words + the player's attempt) and hands
+ * it to SceneGameMode, which plays it as a one-shot ranked scene round.
+ */
+const DailyChallengeMode: React.FC<DailyChallengeModeProps> = ({ onComplete, onExit }) => {
+  const [challenge, setChallenge] = useState<DailyChallenge | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [retryTick, setRetryTick] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    loadDailyChallenge().then((loaded) => {
+      if (cancelled) return;
+      if ('error' in loaded) setError(loaded.error);
+      else setChallenge(loaded);
+    });
+    return () => { cancelled = true; };
+  }, [retryTick]);
+
+  if (challenge) {
+    return (
+      <SceneGameMode
+        allWords={[]}
+        sessions={[]}
+        dailyChallenge={challenge}
+        onComplete={onComplete}
+        onCancel={onExit}
+      />
+    );
+  }
+
+  const message = error ? describeError(error) : null;
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center bg-[radial-gradient(circle_at_top,_rgba(168,85,247,0.14),_transparent_30%),linear-gradient(180deg,_rgba(9,12,16,0.96),_rgba(12,14,18,1))] p-4">
+      <div className="w-full max-w-md rounded-[32px] border border-mid-charcoal bg-dark-charcoal/80 p-8 text-center shadow-2xl backdrop-blur-md">
+        <div className="font-mono text-xs uppercase tracking-[0.35em] text-purple-400/80">
+          <HoverTranslationText text="Daily Challenge" translation="每日挑战" />
+        </div>
+        {message ? (
+          <>
+            <div className="mt-5 rounded-xl border border-red-500/40 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+              <HoverTranslationText text={message.en} translation={message.zh} />
+            </div>
+            <button
+              onClick={() => setRetryTick((t) => t + 1)}
+              className="mt-6 rounded-2xl bg-purple-500 px-5 py-3 font-headline text-sm uppercase tracking-[0.25em] text-white transition-transform hover:-translate-y-1"
+            >
+              <HoverTranslationText text="Retry" translation="重试" />
+            </button>
+          </>
+        ) : (
+          <div className="mt-6 flex items-center justify-center gap-3 text-text-light">
+            <span className="material-symbols-outlined animate-spin text-2xl text-purple-300">progress_activity</span>
+            <HoverTranslationText text="Loading today's words…" translation="正在加载今日单词…" />
+          </div>
+        )}
+        <button
+          onClick={onExit}
+          className="mt-6 block w-full rounded-2xl border border-mid-charcoal bg-light-charcoal/20 px-4 py-3 font-mono text-xs uppercase tracking-[0.25em] text-text-light transition-colors hover:border-white hover:text-white"
+        >
+          <HoverTranslationText text="Exit" translation="退出" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DailyChallengeMode;
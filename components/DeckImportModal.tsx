@@ -0,0 +1,323 @@
+import React, { useMemo, useState } from 'react';
+import { HoverTranslationText } from './HoverTranslationText';
+import { importDeckWords, DeckDuplicateStrategy } from '../services/dataService';
+import {
+  buildDeckImportPreview,
+  deckTagFromFileName,
+  DECK_IMPORT_FIELDS,
+  DECK_TAG_PREFIX,
+  DeckColumnMapping,
+  DeckImportField,
+  DeckTable,
+  guessColumnMapping,
+  parseAnkiPackage,
+  parseDelimitedDeck,
+} from '../utils/deckImport';
+
+interface DeckImportModalProps {
+  userId: string;
+  existingWords: Array<{ id: string; text: string }>;
+  onClose: () => void;
+  onImported: (tag: string) => void;
+}
+
+const FIELD_LABELS: Record<DeckImportField, { text: string; translation: string }> = {
+  word: { text: 'Word', translation: '单词' },
+  definitionCn: { text: 'Chinese meaning', translation: '中文释义' },
+  definitionEn: { text: 'English definition', translation: '英文释义' },
+  phonetic: { text: 'Phonetic', translation: '音标' },
+  tags: { text: 'Tags', translation: '标签' },
+};
+
+const PREVIEW_ROW_COUNT = 5;
+
+/**
+ * DeckImportModal - Import CSV / TSV files and Anki .apkg decks
+ * file → column mapping + duplicate preview → import
+ */
+export const DeckImportModal: React.FC<DeckImportModalProps> = ({ userId, existingWords, onClose, onImported }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [table, setTable] = useState<DeckTable | null>(null);
+  const [mapping, setMapping] = useState<DeckColumnMapping | null>(null);
+  const [libraryName, setLibraryName] = useState('');
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DeckDuplicateStrategy>('merge');
+  const [status, setStatus] = useState<'idle' | 'parsing' | 'importing' | 'done'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ inserted: number; updated: number; skipped: number } | null>(null);
+
+  const preview = useMemo(
+    () => (table && mapping ? buildDeckImportPreview(table, mapping, existingWords) : null),
+    [table, mapping, existingWords]
+  );
+  const scheduledCount = preview
+    ? [...preview.newRecords, ...preview.duplicates.map(d => d.record)].filter(r => r.schedule).length
+    : 0;
+
+  const applyTable = (parsed: DeckTable) => {
+    setTable(parsed);
+    setMapping(guessColumnMapping(parsed.columns));
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setStatus('parsing');
+    setFileName(file.name);
+    setLibraryName(deckTagFromFileName(file.name).slice(DECK_TAG_PREFIX.length));
+    try {
+      if (/\.apkg$/i.test(file.name)) {
+        setFileText(null);
+        applyTable(await parseAnkiPackage(await file.arrayBuffer()));
+      } else {
+        const text = await file.text();
+        setFileText(text);
+        applyTable(parseDelimitedDeck(text, file.name, hasHeader));
+      }
+    } catch (e: any) {
+      console.error('[DeckImportModal] Failed to parse deck:', e);
+      setTable(null);
+      setMapping(null);
+      setError(e?.message || 'Failed to read this file');
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const handleToggleHeader = () => {
+    const next = !hasHeader;
+    setHasHeader(next);
+    if (fileText !== null && fileName) applyTable(parseDelimitedDeck(fileText, fileName, next));
+  };
+
+  const handleImport = async () => {
+    if (!preview || !libraryName.trim()) return;
+    setStatus('importing');
+    setError(null);
+    const tag = `${DECK_TAG_PREFIX}${libraryName.trim()}`;
+    try {
+      const records = [...preview.newRecords, ...preview.duplicates.map(d => d.record)];
+      setResult(await importDeckWords(userId, records, tag, duplicateStrategy));
+      setStatus('done');
+      onImported(tag);
+    } catch (e: any) {
+      console.error('[DeckImportModal] Import failed:', e);
+      setError(e?.message || 'Import failed');
+      setStatus('idle');
+    }
+  };
+
+  const canImport = status === 'idle' && !!preview && mapping?.word !== null && !!libraryName.trim()
+    && (preview.newRecords.length > 0 || (duplicateStrategy === 'merge' && preview.duplicates.length > 0));
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[200] flex items-center justify-center p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="bg-light-charcoal border border-mid-charcoal rounded-3xl w-full max-w-3xl max-h-[90vh] overflow-y-auto custom-scrollbar shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4 p-6 border-b border-mid-charcoal">
+          <h2 className="font-headline text-2xl text-electric-blue flex items-center gap-2">
+            <span className="material-symbols-outlined">upload_file</span>
+            <HoverTranslationText text="IMPORT DECK" translation="导入词卡" />
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-mid-charcoal rounded-full text-text-light transition-colors"
+            aria-label="Close"
+          >
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Step 1: file */}
+          <label className="block border-2 border-dashed border-mid-charcoal hover:border-electric-blue rounded-2xl p-6 text-center cursor-pointer transition-colors">
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,.apkg"
+              className="hidden"
+              disabled={status === 'importing'}
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) void handleFile(file);
+                e.target.value = '';
+              }}
+            />
+            <span className={`material-symbols-outlined text-4xl text-text-dark ${status === 'parsing' ? 'animate-spin' : ''}`}>
+              {status === 'parsing' ? 'sync' : 'description'}
+            </span>
+            <p className="font-mono text-sm text-text-light mt-2">
+              {fileName || <HoverTranslationText text="Choose a CSV / TSV file or an Anki .apkg deck" translation="选择 CSV / TSV 文件或 Anki .apkg 词卡包" />}
+            </p>
+            <p className="font-mono text-[10px] text-text-dark mt-1">
+              <HoverTranslationText
+                text='Anki 2.1.50+: export with "Support older Anki versions" ticked'
+                translation="Anki 2.1.50 及以上版本导出时请勾选“兼容旧版本 Anki”"
+              />
+            </p>
+          </label>
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 font-mono text-xs">
+              <span className="material-symbols-outlined text-sm">error</span>
+              {error}
+            </div>
+          )}
+
+          {table && mapping && preview && (
+            <>
+              {/* Step 2: column mapping */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-headline text-lg text-white">
+                    <HoverTranslationText text="COLUMN MAPPING" translation="列映射" />
+                  </h3>
+                  {table.format !== 'apkg' && (
+                    <label className="flex items-center gap-2 font-mono text-xs text-text-light cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={hasHeader}
+                        onChange={handleToggleHeader}
+                        className="w-4 h-4 rounded border-mid-grey bg-transparent text-electric-blue focus:ring-0 focus:ring-offset-0"
+                      />
+                      <HoverTranslationText text="First row is a header" translation="首行为表头" />
+                    </label>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {DECK_IMPORT_FIELDS.map(field => (
+                    <label key={field} className="flex items-center justify-between gap-3 bg-dark-charcoal rounded-lg px-3 py-2">
+                      <span className="font-mono text-xs text-text-light">
+                        <HoverTranslationText text={FIELD_LABELS[field].text} translation={FIELD_LABELS[field].translation} />
+                        {field === 'word' && <span className="text-red-400"> *</span>}
+                      </span>
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={e => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                        className="bg-light-charcoal border border-mid-charcoal rounded px-2 py-1 text-white font-mono text-xs focus:border-electric-blue outline-none max-w-[55%]"
+                      >
+                        <option value="">—</option>
+                        {table.columns.map((column, index) => (
+                          <option key={index} value={index}>{column}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="overflow-x-auto custom-scrollbar rounded-lg border border-mid-charcoal">
+                  <table className="w-full font-mono text-[11px]">
+                    <thead className="bg-dark-charcoal text-text-dark">
+                      <tr>
+                        {table.columns.map((column, index) => (
+                          <th key={index} className="px-2 py-1.5 text-left whitespace-nowrap">{column}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {table.rows.slice(0, PREVIEW_ROW_COUNT).map((row, rowIndex) => (
+                        <tr key={rowIndex} className="border-t border-mid-charcoal text-text-light">
+                          {table.columns.map((_, index) => (
+                            <td key={index} className="px-2 py-1.5 max-w-[12rem] truncate">{row.values[index] ?? ''}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Step 3: duplicate preview */}
+              <div className="space-y-3">
+                <h3 className="font-headline text-lg text-white">
+                  <HoverTranslationText text="PREVIEW" translation="预览" />
+                </h3>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 font-mono text-center">
+                  <div className="bg-dark-charcoal rounded-lg p-3">
+                    <div className="text-xl text-electric-green">{preview.newRecords.length}</div>
+                    <div className="text-[10px] text-text-dark uppercase"><HoverTranslationText text="New" translation="新单词" /></div>
+                  </div>
+                  <div className="bg-dark-charcoal rounded-lg p-3">
+                    <div className="text-xl text-yellow-400">{preview.duplicates.length}</div>
+                    <div className="text-[10px] text-text-dark uppercase"><HoverTranslationText text="Already in library" translation="已存在" /></div>
+                  </div>
+                  <div className="bg-dark-charcoal rounded-lg p-3">
+                    <div className="text-xl text-text-light">{preview.repeatedInFile + preview.emptyRows}</div>
+                    <div className="text-[10px] text-text-dark uppercase"><HoverTranslationText text="Ignored rows" translation="忽略行" /></div>
+                  </div>
+                  <div className="bg-dark-charcoal rounded-lg p-3">
+                    <div className="text-xl text-electric-purple">{scheduledCount}</div>
+                    <div className="text-[10px] text-text-dark uppercase"><HoverTranslationText text="With progress" translation="含学习进度" /></div>
+                  </div>
+                </div>
+
+                {preview.duplicates.length > 0 && (
+                  <div className="bg-dark-charcoal rounded-lg p-3 space-y-2">
+                    <p className="font-mono text-[11px] text-text-dark break-words">
+                      {preview.duplicates.slice(0, 20).map(d => d.record.text).join(', ')}
+                      {preview.duplicates.length > 20 ? ` … +${preview.duplicates.length - 20}` : ''}
+                    </p>
+                    <div className="flex flex-wrap gap-4 font-mono text-xs text-text-light">
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="radio" checked={duplicateStrategy === 'merge'} onChange={() => setDuplicateStrategy('merge')} />
+                        <HoverTranslationText text="Merge (add tag, fill empty fields)" translation="合并（添加标签，补全空字段）" />
+                      </label>
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="radio" checked={duplicateStrategy === 'skip'} onChange={() => setDuplicateStrategy('skip')} />
+                        <HoverTranslationText text="Skip" translation="跳过" />
+                      </label>
+                    </div>
+                  </div>
+                )}
+
+                <label className="flex items-center gap-3">
+                  <span className="font-mono text-xs text-text-light whitespace-nowrap">
+                    <HoverTranslationText text="Library name" translation="词库名称" />
+                  </span>
+                  <input
+                    value={libraryName}
+                    onChange={e => setLibraryName(e.target.value)}
+                    className="flex-1 bg-dark-charcoal border border-mid-charcoal rounded-lg px-3 py-2 text-white font-mono text-sm focus:border-electric-blue outline-none"
+                  />
+                </label>
+              </div>
+            </>
+          )}
+
+          {status === 'done' && result && (
+            <div className="flex items-center gap-2 p-3 rounded-xl bg-electric-green/10 border border-electric-green/30 text-electric-green font-mono text-xs">
+              <span className="material-symbols-outlined text-sm">check_circle</span>
+              <HoverTranslationText
+                text={`Imported ${result.inserted} new, merged ${result.updated}, skipped ${result.skipped}`}
+                translation={`新增 ${result.inserted}，合并 ${result.updated}，跳过 ${result.skipped}`}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-mid-charcoal">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg font-headline tracking-wider text-text-light hover:bg-mid-charcoal transition-colors"
+          >
+            {status === 'done' ? 'DONE' : 'CANCEL'}
+          </button>
+          {status !== 'done' && (
+            <button
+              onClick={handleImport}
+              disabled={!canImport}
+              className="px-4 py-2 rounded-lg font-headline tracking-wider bg-electric-blue text-charcoal hover:bg-electric-blue/80 disabled:opacity-40 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+            >
+              {status === 'importing' && <span className="material-symbols-outlined text-sm animate-spin">sync</span>}
+              IMPORT
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
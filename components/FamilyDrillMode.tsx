@@ -0,0 +1,272 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HoverTranslationText } from './HoverTranslationText';
+import { playBuzzer, playDing } from '../utils/audioFeedback';
+import {
+  DerivationKind,
+  FamilyDrillPhase,
+  FamilyDrillPrompt,
+  FamilyDrillResult,
+  FamilyDrillSummary,
+  WordEntry,
+} from '../types';
+import { calculateFamilyDrillSummary, checkFamilyAnswer, FAMILY_DRILL_WORDS } from '../utils/wordFamily';
+import { prepareFamilyDrill } from '../services/wordFamily';
+import { submitWordReviews } from '../services/dataService';
+
+interface FamilyDrillModeProps {
+  allWords: WordEntry[];
+  onComplete: (summary: FamilyDrillSummary) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+const MIN_PROMPTS = 3;
+
+const KIND_LABELS: Record<DerivationKind, { en: string; zh: string }> = {
+  noun: { en: 'noun', zh: '名词' },
+  adjective: { en: 'adjective', zh: '形容词' },
+  adverb: { en: 'adverb', zh: '副词' },
+  opposite: { en: 'opposite (un- / in- / dis-)', zh: '反义（加前缀）' },
+};
+
+/**
+ * FamilyDrillMode - Word-family derivation drill
+ * Shows a library word and a target word class; the learner types the
+ * family member of that class (act → noun: action). One try per prompt,
+ * then every accepted form is shown.
+ */
+const FamilyDrillMode: React.FC<FamilyDrillModeProps> = ({ allWords, onComplete, onCancel }) => {
+  const [phase, setPhase] = useState<FamilyDrillPhase>('INTRO');
+  const [prompts, setPrompts] = useState<FamilyDrillPrompt[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [inputValue, setInputValue] = useState('');
+  const [results, setResults] = useState<FamilyDrillResult[]>([]);
+  const [summary, setSummary] = useState<FamilyDrillSummary | null>(null);
+  const [preparationError, setPreparationError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const shownAtRef = useRef(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const prompt = prompts[currentIndex] as FamilyDrillPrompt | undefined;
+  const answered = results.length > currentIndex ? results[currentIndex] : null;
+
+  useEffect(() => {
+    if (phase !== 'PLAYING' || answered) return;
+    shownAtRef.current = Date.now();
+    setTimeout(() => inputRef.current?.focus(), 0);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phase, currentIndex]);
+
+  const startDrill = async () => {
+    setPreparationError(null);
+    setPhase('LOADING');
+    const nextPrompts = await prepareFamilyDrill(allWords, FAMILY_DRILL_WORDS);
+    if (nextPrompts.length < MIN_PROMPTS) {
+      setPreparationError('Not enough words with known derivations in your library yet.');
+      setPhase('INTRO');
+      return;
+    }
+    setPrompts(nextPrompts);
+    setCurrentIndex(0);
+    setInputValue('');
+    setResults([]);
+    setPhase('PLAYING');
+  };
+
+  const finishDrill = async (finalResults: FamilyDrillResult[]) => {
+    const nextSummary = calculateFamilyDrillSummary(finalResults);
+    setSummary(nextSummary);
+    setPhase('RESULT');
+
+    // Producing a derivation the learner owns counts as a review of that
+    // word; prompts whose answer isn't in the library leave no log (non-fatal)
+    void submitWordReviews(finalResults
+      .filter((r) => r.answerWordId)
+      .map((r) => ({
+        wordId: r.answerWordId!,
+        mode: 'FAMILY',
+        correct: r.correct,
+        attempts: 1,
+        hintLevel: 1,
+        timeSpentMs: r.answeredInMs,
+        charsPerMinute: null,
+      })), crypto.randomUUID());
+
+    setIsSubmitting(true);
+    try {
+      await onComplete(nextSummary);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitAnswer = () => {
+    if (phase !== 'PLAYING' || !prompt || answered || !inputValue.trim()) return;
+    const correct = checkFamilyAnswer(prompt, inputValue);
+    if (correct) playDing();
+    else playBuzzer();
+    setResults([...results, {
+      wordId: prompt.wordId,
+      baseWord: prompt.baseWord,
+      expected: prompt.expected,
+      typed: inputValue.trim(),
+      correct,
+      answerWordId: prompt.answerWordId,
+      answeredInMs: Date.now() - shownAtRef.current,
+    }]);
+  };
+
+  const goNext = () => {
+    if (!answered) return;
+    if (currentIndex >= prompts.length - 1) {
+      void finishDrill(results);
+      return;
+    }
+    setCurrentIndex(currentIndex + 1);
+    setInputValue('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] overflow-hidden bg-[radial-gradient(circle_at_top,_rgba(192,132,252,0.12),_transparent_28%),linear-gradient(180deg,_rgba(9,12,16,0.96),_rgba(12,14,18,1))]">
+      <div className="relative flex h-[100dvh] flex-col px-4 pb-4 pt-20 md:px-8 md:pb-6 md:pt-24">
+        <div className="sticky top-16 z-30 mb-4 flex shrink-0 items-start justify-between gap-4 pb-3">
+          <div>
+            <div className="text-xs font-mono uppercase tracking-[0.35em] text-purple-300/80">OPTION 9</div>
+            <h2 className="font-headline text-3xl text-white md:text-4xl">
+              <HoverTranslationText text="Word Families" translation="词族派生" />
+            </h2>
+          </div>
+          <button
+            onClick={onCancel}
+            className="rounded-2xl border border-mid-charcoal bg-dark-charcoal/70 px-4 py-2 text-xs font-mono uppercase tracking-[0.25em] text-text-light transition-colors hover:border-white hover:text-white"
+          >
+            <HoverTranslationText text="Exit" translation="退出" />
+          </button>
+        </div>
+
+        {phase === 'INTRO' && (
+          <div className="flex flex-1 items-center justify-center">
+            <div className="w-full max-w-xl space-y-6 rounded-[32px] border border-mid-charcoal bg-dark-charcoal/80 p-8 text-center shadow-2xl">
+              <p className="text-sm leading-7 text-text-light">
+                <HoverTranslationText
+                  text={`Turn a word into another part of speech: act → noun → action. ${FAMILY_DRILL_WORDS} prompts built from your library; answering with a word you already saved also reviews it.`}
+                  translation={`把单词变成另一种词性：act → 名词 → action。共 ${FAMILY_DRILL_WORDS} 题，取自你的词库；答出词库中已有的派生词也会计为一次复习。`}
+                />
+              </p>
+              <button
+                onClick={() => void startDrill()}
+                className="w-full rounded-2xl bg-purple-400 px-5 py-4 font-headline text-sm uppercase tracking-[0.3em] text-charcoal transition-transform hover:-translate-y-1"
+              >
+                <HoverTranslationText text="Start Drill" translation="开始训练" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {phase === 'LOADING' && (
+          <div className="flex flex-1 flex-col items-center justify-center gap-4 text-text-dark">
+            <span className="material-symbols-outlined animate-spin text-4xl text-purple-300">progress_activity</span>
+            <span className="font-mono text-xs uppercase tracking-[0.3em]">
+              <HoverTranslationText text="Loading dictionary..." translation="正在加载词典..." />
+            </span>
+          </div>
+        )}
+
+        {phase === 'PLAYING' && prompt && (
+          <div className="flex flex-1 flex-col items-center justify-center gap-6">
+            <div className="font-mono text-xs uppercase tracking-[0.3em] text-text-dark">
+              {currentIndex + 1} / {prompts.length}
+            </div>
+            <div className="w-full max-w-2xl space-y-6 rounded-[32px] border border-purple-400/20 bg-dark-charcoal/85 p-8 text-center shadow-2xl">
+              <div>
+                <div className="font-headline text-5xl text-white">{prompt.baseWord}</div>
+                {prompt.meaningZh && <div className="mt-2 text-sm text-text-dark">{prompt.meaningZh}</div>}
+              </div>
+              <div className="inline-flex items-center gap-2 rounded-full border border-purple-400/40 bg-purple-500/10 px-4 py-1 font-mono text-xs text-purple-300">
+                <span className="material-symbols-outlined text-sm">arrow_forward</span>
+                <HoverTranslationText text={KIND_LABELS[prompt.targetKind].en} translation={KIND_LABELS[prompt.targetKind].zh} />
+              </div>
+
+              {answered ? (
+                <div className="space-y-2">
+                  <div className={`font-headline text-4xl ${answered.correct ? 'text-electric-green' : 'text-red-300'}`}>
+                    {answered.correct ? answered.typed : prompt.expected}
+                  </div>
+                  {prompt.answers.length > 1 && (
+                    <div className="font-mono text-xs text-text-dark">
+                      <HoverTranslationText text="Also accepted:" translation="同样正确：" />{' '}
+                      {prompt.answers.filter((a) => a !== answered.typed.toLowerCase() && a !== prompt.expected).join(' · ') || '—'}
+                    </div>
+                  )}
+                  <button
+                    onClick={goNext}
+                    autoFocus
+                    className="mt-4 rounded-2xl bg-purple-400 px-6 py-3 font-headline text-sm uppercase tracking-[0.25em] text-charcoal transition-transform hover:-translate-y-0.5"
+                  >
+                    <HoverTranslationText text="Next" translation="下一题" />
+                  </button>
+                </div>
+              ) : (
+                <input
+                  ref={inputRef}
+                  value={inputValue}
+                  onChange={(event) => setInputValue(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') submitAnswer();
+                  }}
+                  autoComplete="off"
+                  autoCapitalize="off"
+                  spellCheck={false}
+                  placeholder="type the derived word"
+                  className="w-full rounded-2xl border border-white/10 bg-black/40 px-5 py-4 text-center font-serif text-2xl text-white outline-none focus:border-purple-400"
+                />
+              )}
+            </div>
+          </div>
+        )}
+
+        {phase === 'RESULT' && summary && (
+          <div className="flex flex-1 items-start justify-center overflow-y-auto py-4">
+            <div className="w-full max-w-2xl space-y-6 rounded-[34px] border border-mid-charcoal bg-dark-charcoal/85 p-8 shadow-2xl">
+              <div className="text-center">
+                <div className="text-xs font-mono uppercase tracking-[0.35em] text-purple-300/80">
+                  <HoverTranslationText text="Drill Complete" translation="训练完成" />
+                </div>
+                <div className="mt-3 font-headline text-5xl text-white">
+                  {summary.wordsCorrect}/{summary.wordsTotal}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {summary.results.map((r, index) => (
+                  <div key={`${r.wordId}-${index}`} className="flex items-center justify-between gap-3 rounded-2xl border border-mid-charcoal bg-light-charcoal/20 px-4 py-2 text-sm">
+                    <span className="font-headline text-white">{r.baseWord}</span>
+                    <span className={`truncate font-mono ${r.correct ? 'text-electric-green' : 'text-red-300'}`}>
+                      {r.correct ? r.typed : r.expected} {r.correct ? '✓' : '✗'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={onCancel}
+                disabled={isSubmitting}
+                className="w-full rounded-2xl bg-purple-400 px-4 py-4 font-headline text-sm uppercase tracking-[0.3em] text-charcoal transition-transform hover:-translate-y-1 disabled:opacity-50"
+              >
+                <HoverTranslationText text="Return to Dashboard" translation="返回主界面" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {preparationError && (
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 rounded-2xl border border-red-500/40 bg-red-500/15 px-4 py-3 text-sm text-red-200 shadow-2xl">
+            {preparationError}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FamilyDrillMode;
@@ -1,6 +1,6 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
-  ChampionCategory,
+  LeaderboardCategory,
   LeaderboardRow,
   fetchGlobalLeaderboard,
 } from '../services/globalLeaderboard';
@@ -11,7 +11,7 @@ interface GlobalLeaderboardModalProps {
 }
 
 interface CategoryMeta {
-  key: ChampionCategory;
+  key: LeaderboardCategory;
   labelZh: string;
   labelEn: string;
   icon: string;
@@ -24,6 +24,7 @@ const CATEGORIES: CategoryMeta[] = [
   { key: 'game_total', labelZh: '游戏总分', labelEn: 'Game', icon: 'sports_esports', accent: 'text-electric-green' },
   { key: 'word_mastery', labelZh: '单词掌握', labelEn: 'Master', icon: 'verified', accent: 'text-electric-blue' },
   { key: 'coins', labelZh: '财富榜', labelEn: 'Coins', icon: 'monetization_on', accent: 'text-amber-400' },
+  { key: 'daily_challenge', labelZh: '每日挑战', labelEn: 'Today', icon: 'today', accent: 'text-purple-400' },
 ];
 
 const MEDAL_EMOJI: Record<number, string> = {
@@ -35,7 +36,8 @@ const MEDAL_EMOJI: Record<number, string> = {
 const medalFor = (rank: number) => MEDAL_EMOJI[rank] ?? '';
 
 /**
- * Floating "Global Hall of Fame" panel with 5 category tabs.
+ * Floating "Global Hall of Fame" panel with 5 category tabs plus today's
+ * daily challenge.
  * Each tab lazy-loads its data on first activation, then caches it
  * in-module for instant back-navigation.
  *
@@ -45,7 +47,7 @@ const GlobalLeaderboardModal: React.FC<GlobalLeaderboardModalProps> = ({
   open,
   onClose,
 }) => {
-  const [active, setActive] = useState<ChampionCategory>('daily_total');
+  const [active, setActive] = useState<LeaderboardCategory>('daily_total');
   // Per-category cache so switching back is instant.
   const [cache, setCache] = useState<Record<string, LeaderboardRow[]>>({});
   const [loading, setLoading] = useState<Record<string, boolean>>({});
@@ -71,7 +73,7 @@ const GlobalLeaderboardModal: React.FC<GlobalLeaderboardModalProps> = ({
   }, [open, onClose]);
 
   const loadCategory = useCallback(
-    async (category: ChampionCategory) => {
+    async (category: LeaderboardCategory) => {
       // Already cached — no-op.
       if (cache[category]) return;
       const token = ++fetchTokenRef.current;
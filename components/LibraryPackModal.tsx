@@ -0,0 +1,244 @@
+import React, { useMemo, useState } from 'react';
+import { HoverTranslationText } from './HoverTranslationText';
+import {
+  publishLibraryPack,
+  subscribeLibraryPack,
+  unsubscribeLibraryPack,
+} from '../services/libraryPacks';
+import { LibraryPack, LibraryPackWord, parsePackWordText, validateLibraryTag } from '../utils/libraryManifest';
+
+interface LibraryPackModalProps {
+  userId: string;
+  packs: LibraryPack[];
+  onClose: () => void;
+  /** Called after joining, leaving or publishing, so the caller can re-discover packs */
+  onPacksChanged: () => void;
+}
+
+const PUBLISH_ERRORS: Record<string, string> = {
+  empty_pack: '词表为空',
+  too_many_words: '单个词库最多 5000 个单词',
+  invalid_tag: '标签不可用',
+  tag_taken: '你已有同名标签的词库',
+  not_found: '词库不存在或不属于你',
+};
+
+const wordsToText = (words: LibraryPackWord[]) => words
+  .map(w => [w.text, w.meaning ?? '', w.level ?? ''].join('\t').replace(/\t+$/, ''))
+  .join('\n');
+
+/**
+ * LibraryPackModal - Class packs
+ * Students join a teacher's private pack by share code; teachers publish
+ * word lists as packs and push new versions to everyone who joined.
+ */
+export const LibraryPackModal: React.FC<LibraryPackModalProps> = ({ userId, packs, onClose, onPacksChanged }) => {
+  const [shareCode, setShareCode] = useState('');
+  const [editing, setEditing] = useState<LibraryPack | null>(null);
+  const [name, setName] = useState('');
+  const [tag, setTag] = useState('');
+  const [description, setDescription] = useState('');
+  const [wordText, setWordText] = useState('');
+  const [busy, setBusy] = useState<'join' | 'publish' | null>(null);
+  const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+
+  const ownPacks = packs.filter(p => p.source === 'private' && p.ownerId === userId);
+  const joinedPacks = packs.filter(p => p.source === 'private' && p.ownerId !== userId);
+
+  const parsedWords = useMemo(() => parsePackWordText(wordText), [wordText]);
+  const tagProblem = editing ? null : validateLibraryTag(tag);
+  const canPublish = busy === null && name.trim() !== '' && !tagProblem && parsedWords.length > 0;
+
+  const startEdit = (pack: LibraryPack | null) => {
+    setEditing(pack);
+    setName(pack?.name ?? '');
+    setTag(pack?.tag ?? '');
+    setDescription(pack?.description ?? '');
+    setWordText(pack?.words ? wordsToText(pack.words) : '');
+    setMessage(null);
+  };
+
+  const handleJoin = async () => {
+    if (!shareCode.trim()) return;
+    setBusy('join');
+    setMessage(null);
+    const result = await subscribeLibraryPack(shareCode);
+    setBusy(null);
+    if ('error' in result) {
+      setMessage({ kind: 'error', text: result.error === 'not_found' ? '邀请码无效' : result.error });
+      return;
+    }
+    setShareCode('');
+    setMessage({ kind: 'ok', text: `已加入「${result.name}」，可在词库列表中下载` });
+    onPacksChanged();
+  };
+
+  const handleLeave = async (pack: LibraryPack) => {
+    if (!window.confirm(`移除「${pack.name}」？已下载的单词会保留。`)) return;
+    if (await unsubscribeLibraryPack(userId, pack.id)) onPacksChanged();
+  };
+
+  const handlePublish = async () => {
+    if (!canPublish) return;
+    setBusy('publish');
+    setMessage(null);
+
+    const levelNumbers = Array.from<number>(new Set(parsedWords.map(w => w.level).filter((l): l is number => l != null))).sort((a, b) => a - b);
+    const result = await publishLibraryPack({
+      packId: editing?.id,
+      name,
+      tag: editing?.tag ?? tag,
+      description: description.trim() || null,
+      levels: levelNumbers.map(level => editing?.levels.find(l => l.level === level) ?? { level, name: `Level ${level}` }),
+      words: parsedWords,
+    });
+    setBusy(null);
+
+    if ('error' in result) {
+      setMessage({ kind: 'error', text: PUBLISH_ERRORS[result.error] ?? result.error });
+      return;
+    }
+    setMessage({ kind: 'ok', text: `已发布 v${result.version}，邀请码 ${result.shareCode}` });
+    startEdit(null);
+    onPacksChanged();
+  };
+
+  const inputClass = 'w-full bg-dark-charcoal border border-mid-charcoal rounded-lg px-3 py-2 text-white font-mono text-sm focus:border-electric-blue outline-none disabled:opacity-50';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[200] flex items-center justify-center p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="bg-light-charcoal border border-mid-charcoal rounded-3xl w-full max-w-2xl max-h-[90vh] overflow-y-auto custom-scrollbar shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4 p-6 border-b border-mid-charcoal">
+          <h2 className="font-headline text-2xl text-electric-blue flex items-center gap-2">
+            <span className="material-symbols-outlined">school</span>
+            <HoverTranslationText text="CLASS PACKS" translation="班级词库" />
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-mid-charcoal rounded-full text-text-light transition-colors"
+            aria-label="Close"
+          >
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {message && (
+            <div className={`flex items-center gap-2 p-3 rounded-xl font-mono text-xs border ${message.kind === 'ok' ? 'bg-electric-green/10 border-electric-green/30 text-electric-green' : 'bg-red-500/10 border-red-500/30 text-red-400'}`}>
+              <span className="material-symbols-outlined text-sm">{message.kind === 'ok' ? 'check_circle' : 'error'}</span>
+              {message.text}
+            </div>
+          )}
+
+          {/* Join by code */}
+          <div className="space-y-3">
+            <h3 className="font-headline text-lg text-white">
+              <HoverTranslationText text="JOIN WITH CODE" translation="输入邀请码" />
+            </h3>
+            <div className="flex gap-2">
+              <input
+                value={shareCode}
+                onChange={e => setShareCode(e.target.value.toUpperCase())}
+                onKeyDown={e => { if (e.key === 'Enter') void handleJoin(); }}
+                placeholder="A1B2C3D4"
+                maxLength={8}
+                className={`${inputClass} tracking-[0.3em] uppercase`}
+              />
+              <button
+                onClick={handleJoin}
+                disabled={busy !== null || !shareCode.trim()}
+                className="px-4 py-2 rounded-lg font-headline tracking-wider bg-electric-blue text-charcoal hover:bg-electric-blue/80 disabled:opacity-40 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+              >
+                {busy === 'join' && <span className="material-symbols-outlined text-sm animate-spin">sync</span>}
+                JOIN
+              </button>
+            </div>
+            {joinedPacks.map(pack => (
+              <div key={pack.id} className="flex items-center justify-between bg-dark-charcoal rounded-lg px-3 py-2 font-mono text-xs">
+                <span className="text-text-light">{pack.name} <span className="text-text-dark">v{pack.version} · {pack.wordCount} 词</span></span>
+                <button onClick={() => handleLeave(pack)} className="text-text-dark hover:text-red-400 transition-colors" title="移除">
+                  <span className="material-symbols-outlined text-sm">logout</span>
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-px bg-mid-charcoal opacity-50"></div>
+
+          {/* Teacher: own packs + editor */}
+          <div className="space-y-3">
+            <h3 className="font-headline text-lg text-white">
+              <HoverTranslationText text="PUBLISH A PACK" translation="发布词库" />
+            </h3>
+
+            {ownPacks.map(pack => (
+              <div key={pack.id} className={`flex items-center justify-between gap-3 bg-dark-charcoal rounded-lg px-3 py-2 font-mono text-xs ${editing?.id === pack.id ? 'border border-electric-blue' : ''}`}>
+                <div className="flex flex-col">
+                  <span className="text-text-light">{pack.name} <span className="text-text-dark">v{pack.version} · {pack.wordCount} 词</span></span>
+                  <span className="text-text-dark">邀请码 <span className="text-electric-green tracking-widest">{pack.shareCode}</span></span>
+                </div>
+                <button
+                  onClick={() => startEdit(pack)}
+                  className="px-3 py-1 rounded-full bg-light-charcoal/40 text-text-light hover:text-white transition-colors"
+                >
+                  <HoverTranslationText text="New version" translation="发布新版本" />
+                </button>
+              </div>
+            ))}
+
+            <div className="grid grid-cols-2 gap-3">
+              <input value={name} onChange={e => setName(e.target.value)} placeholder="名称 Name" className={inputClass} />
+              <input
+                value={tag}
+                onChange={e => setTag(e.target.value)}
+                disabled={editing !== null}
+                placeholder="标签 Tag"
+                className={inputClass}
+              />
+            </div>
+            {tag && tagProblem && <p className="font-mono text-[10px] text-red-400">{tagProblem}</p>}
+            <input value={description} onChange={e => setDescription(e.target.value)} placeholder="说明 Description" className={inputClass} />
+            <textarea
+              value={wordText}
+              onChange={e => setWordText(e.target.value)}
+              rows={8}
+              placeholder={'word<Tab>meaning<Tab>level\nabandon\tv. 放弃\t1'}
+              className={`${inputClass} custom-scrollbar`}
+            />
+            <p className="font-mono text-[10px] text-text-dark">
+              <HoverTranslationText
+                text={`${parsedWords.length} words · one per line, optionally followed by a meaning and a level (tab- or comma-separated)`}
+                translation={`${parsedWords.length} 个单词 · 每行一个，可附释义和难度等级（Tab 或逗号分隔）`}
+              />
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-mid-charcoal">
+          {editing && (
+            <button
+              onClick={() => startEdit(null)}
+              className="px-4 py-2 rounded-lg font-headline tracking-wider text-text-light hover:bg-mid-charcoal transition-colors"
+            >
+              NEW PACK
+            </button>
+          )}
+          <button
+            onClick={handlePublish}
+            disabled={!canPublish}
+            className="px-4 py-2 rounded-lg font-headline tracking-wider bg-electric-blue text-charcoal hover:bg-electric-blue/80 disabled:opacity-40 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+          >
+            {busy === 'publish' && <span className="material-symbols-outlined text-sm animate-spin">sync</span>}
+            {editing ? `PUBLISH v${editing.version + 1}` : 'PUBLISH'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,14 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { importDictionaryWords, verifyAllLibraries, LibraryVerificationResult, DICTIONARY_CONFIG, fetchLocalWordList } from '../services/dataService';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { installLibraryPack, verifyAllLibraries, LibraryVerificationResult } from '../services/dataService';
+import { discoverLibraryPacks, fetchLibraryInstalls } from '../services/libraryPacks';
 import { WORD_LEARNING_CONFIG } from '../config/wordLearningConfig';
 import { HoverTranslationText } from './HoverTranslationText';
-
-// Use centralized dictionary config
-const DICTIONARIES = DICTIONARY_CONFIG;
+import { DeckImportModal } from './DeckImportModal';
+import { LibraryPackModal } from './LibraryPackModal';
+import { LibraryUpgradeModal } from './LibraryUpgradeModal';
+import { DECK_TAG_PREFIX } from '../utils/deckImport';
+import { CLASS_TAG_PREFIX } from '../utils/classProgress';
+import type { LibraryPack } from '../utils/libraryManifest';
 
 // Completeness threshold from config - library must have at least this % of words to be "installed"
 const COMPLETENESS_THRESHOLD = WORD_LEARNING_CONFIG.library.completenessThreshold;
@@ -14,6 +18,7 @@ interface LibrarySelectorProps {
     onChange: (libraries: Set<string>) => void;
     availableLibraries: string[];
     userId: string;
+    existingWords: Array<{ id: string; text: string }>;
     onImportComplete: () => void;
 }
 
@@ -22,9 +27,17 @@ export const LibrarySelector: React.FC<LibrarySelectorProps> = ({
     onChange,
     availableLibraries,
     userId,
+    existingWords,
     onImportComplete
 }) => {
     const [isOpen, setIsOpen] = useState(false);
+    const [showDeckImport, setShowDeckImport] = useState(false);
+    const [showPackModal, setShowPackModal] = useState(false);
+    const [upgradePack, setUpgradePack] = useState<LibraryPack | null>(null);
+    // Built-in manifest packs + private packs the user owns or joined
+    const [packs, setPacks] = useState<LibraryPack[]>([]);
+    // Installed pack version per tag, to offer updates
+    const [installedVersions, setInstalledVersions] = useState<Record<string, number>>({});
     const dropdownRef = useRef<HTMLDivElement>(null);
     const [downloadStatus, setDownloadStatus] = useState<Record<string, 'idle' | 'loading' | 'success' | 'error'>>({});
     
@@ -32,15 +45,26 @@ export const LibrarySelector: React.FC<LibrarySelectorProps> = ({
     const [verifiedLibraries, setVerifiedLibraries] = useState<Record<string, LibraryVerificationResult>>({});
     const [isVerifying, setIsVerifying] = useState(false);
 
-    // Verify library completeness on mount and when availableLibraries changes
+    const loadPacks = useCallback(async () => {
+        if (!userId) return;
+        const [discovered, installs] = await Promise.all([discoverLibraryPacks(), fetchLibraryInstalls(userId)]);
+        setPacks(discovered);
+        setInstalledVersions(installs);
+    }, [userId]);
+
+    useEffect(() => {
+        loadPacks();
+    }, [loadPacks]);
+
+    // Verify library completeness when packs load and when availableLibraries changes
     useEffect(() => {
         const verifyLibraries = async () => {
-            if (!userId) return;
+            if (!userId || packs.length === 0) return;
             
             setIsVerifying(true);
             try {
-                // Use full verification that compares with GitHub source
-                const results = await verifyAllLibraries(userId);
+                // Full verification against each pack's word list
+                const results = await verifyAllLibraries(userId, packs);
                 setVerifiedLibraries(results);
                 console.log('[LibrarySelector] Verified library completeness:', results);
             } catch (e) {
@@ -51,7 +75,7 @@ export const LibrarySelector: React.FC<LibrarySelectorProps> = ({
         };
         
         verifyLibraries();
-    }, [userId, availableLibraries]);
+    }, [userId, availableLibraries, packs]);
 
     // Close on click outside
     useEffect(() => {
@@ -79,7 +103,7 @@ export const LibrarySelector: React.FC<LibrarySelectorProps> = ({
         const needsCleanup = Array.from(selectedLibraries).some((lib: string) => {
             if (lib === 'All' || lib === 'Custom') return false;
             // Check if this is a dictionary that is no longer complete
-            const isDictionary = DICTIONARIES.some(d => d.tag === lib);
+            const isDictionary = packs.some(d => d.tag === lib);
             if (isDictionary && !isLibraryComplete(lib)) {
                 return true;
             }
@@ -136,27 +160,20 @@ export const LibrarySelector: React.FC<LibrarySelectorProps> = ({
         onChange(newSet);
     };
 
-    const handleImport = async (e: React.MouseEvent, dict: typeof DICTIONARIES[0]) => {
+    const handleImport = async (e: React.MouseEvent, dict: LibraryPack) => {
         e.stopPropagation(); // Prevent toggling the dropdown item click
         if (downloadStatus[dict.tag] === 'loading') return;
 
         setDownloadStatus(prev => ({ ...prev, [dict.tag]: 'loading' }));
         try {
-            // Fetch from local gold standard wordlist file
-            const wordList = await fetchLocalWordList(dict.localPath);
-            
-            if (wordList.length === 0) {
-                throw new Error(`Failed to load wordlist from ${dict.localPath}`);
-            }
-
-            console.log(`[LibrarySelector] Loaded ${wordList.length} words from ${dict.localPath} for ${dict.tag}`);
-
-            await importDictionaryWords(userId, wordList, dict.tag);
+            // Load the pack word list (manifest file or published words) and import it
+            await installLibraryPack(userId, dict);
             
             setDownloadStatus(prev => ({ ...prev, [dict.tag]: 'success' }));
+            setInstalledVersions(prev => ({ ...prev, [dict.tag]: dict.version }));
             
             // Re-verify all libraries after import (full verification with source comparison)
-            const results = await verifyAllLibraries(userId);
+            const results = await verifyAllLibraries(userId, packs);
             setVerifiedLibraries(results);
             
             onImportComplete();
@@ -173,17 +190,17 @@ export const LibrarySelector: React.FC<LibrarySelectorProps> = ({
     const isAll = selectedLibraries.has('All');
     
     // Filter installed dictionaries (those with >= COMPLETENESS_THRESHOLD)
-    const installedDictionaries = DICTIONARIES.filter(d => isLibraryComplete(d.tag));
+    const installedDictionaries = packs.filter(d => isLibraryComplete(d.tag));
     const installedDictTags = new Set(installedDictionaries.map(d => d.tag));
     
     // Incomplete dictionaries - have some words but not complete
-    const incompleteDictionaries = DICTIONARIES.filter(d => {
+    const incompleteDictionaries = packs.filter(d => {
         const result = verifiedLibraries[d.tag];
         return result && result.completionRate > 0 && result.completionRate < COMPLETENESS_THRESHOLD;
     });
     
     // Uninstalled dictionaries - no words at all
-    const uninstalledDictionaries = DICTIONARIES.filter(d => {
+    const uninstalledDictionaries = packs.filter(d => {
         const result = verifiedLibraries[d.tag];
         return !result || result.status === 'empty' || result.completionRate === 0;
     });
@@ -197,11 +214,18 @@ export const LibrarySelector: React.FC<LibrarySelectorProps> = ({
         installedSet.add('Custom');
     }
     installedDictionaries.forEach(d => installedSet.add(d.tag));
+    // Imported decks (CSV / Anki) and class assignments are libraries too
+    availableLibraries
+        .filter(tag => tag.startsWith(DECK_TAG_PREFIX) || tag.startsWith(CLASS_TAG_PREFIX))
+        .forEach(tag => installedSet.add(tag));
     
     // Map installed tags to display names if possible
     const getDisplayName = (tag: string) => {
-        const found = DICTIONARIES.find(d => d.tag === tag);
-        return found ? found.name : tag;
+        const found = packs.find(d => d.tag === tag);
+        if (found) return found.name;
+        if (tag.startsWith(DECK_TAG_PREFIX)) return tag.slice(DECK_TAG_PREFIX.length);
+        if (tag.startsWith(CLASS_TAG_PREFIX)) return `班级 · ${tag.slice(CLASS_TAG_PREFIX.length)}`;
+        return tag;
     };
 
     return (
@@ -248,7 +272,12 @@ export const LibrarySelector: React.FC<LibrarySelectorProps> = ({
                             {/* Installed Libraries - Use verified installedSet */}
                             {Array.from(installedSet).filter(l => l !== 'All').map(lib => {
                                 const result = verifiedLibraries[lib];
-                                const isDictionary = DICTIONARIES.some(d => d.tag === lib);
+                                const pack = packs.find(d => d.tag === lib);
+                                const isDictionary = !!pack;
+                                // Newer pack version, or an untracked install whose words drifted from the pack
+                                const hasUpdate = !!pack && (installedVersions[lib] != null
+                                    ? installedVersions[lib] < pack.version
+                                    : (result?.extraWordCount ?? 0) > 0);
                                 
                                 return (
                                     <label key={lib} className="flex items-center p-2 hover:bg-dark-charcoal rounded cursor-pointer group">
@@ -264,12 +293,30 @@ export const LibrarySelector: React.FC<LibrarySelectorProps> = ({
                                             </span>
                                             {isDictionary && result && (
                                                 <span className="text-xs text-mid-grey">
-                                                    {result.userWordCount.toLocaleString()}/{result.sourceWordCount.toLocaleString()} 词 ({result.completionRate}%)
+                                                    {result.userWordCount.toLocaleString()}/{result.sourceWordCount.toLocaleString()} 词 ({result.completionRate}%){result.knownWordCount ? ` · 已掌握 ${result.knownWordCount}` : ''}
+                                                </span>
+                                            )}
+                                            {isDictionary && result?.levels && (
+                                                <span className="text-[10px] text-mid-grey">
+                                                    {result.levels.map(l => `${l.name} ${l.present}/${l.total}`).join(' · ')}
                                                 </span>
                                             )}
                                         </div>
-                                        {/* Show checkmark if complete */}
-                                        {isDictionary && (
+                                        {/* Offer the newer pack version, otherwise show checkmark if complete */}
+                                        {pack && hasUpdate ? (
+                                            <button
+                                                onClick={(e) => {
+                                                    e.preventDefault();
+                                                    e.stopPropagation();
+                                                    setUpgradePack(pack);
+                                                }}
+                                                className="ml-auto flex items-center gap-1 px-2 py-0.5 rounded-full bg-electric-blue/20 text-electric-blue text-xs font-mono hover:bg-electric-blue/30 transition-colors"
+                                                title={`更新到 v${pack.version}`}
+                                            >
+                                                <span className="material-symbols-outlined text-sm">upgrade</span>
+                                                v{pack.version}
+                                            </button>
+                                        ) : isDictionary && (
                                             <span className="ml-auto material-symbols-outlined text-sm text-green-400">check_circle</span>
                                         )}
                                     </label>
@@ -296,7 +343,7 @@ export const LibrarySelector: React.FC<LibrarySelectorProps> = ({
                                             >
                                                 <div className="flex flex-col ml-7">
                                                     <span className="font-mono text-yellow-400 group-hover:text-yellow-300 transition-colors">
-                                                        {dict.name}
+                                                        {dict.name}{dict.sample ? ' · 样例 Sample' : ''}
                                                     </span>
                                                     {result && (
                                                         <span className="text-xs text-mid-grey">
@@ -337,9 +384,22 @@ export const LibrarySelector: React.FC<LibrarySelectorProps> = ({
                                             >
                                                 <div className="flex items-center">
                                                     <div className="w-4 h-4 rounded border border-mid-grey bg-transparent opacity-50 mr-3"></div>
-                                                    <span className="font-mono text-mid-grey group-hover:text-white transition-colors">
-                                                        {dict.name}
-                                                    </span>
+                                                    <div className="flex flex-col">
+                                                        <span className="font-mono text-mid-grey group-hover:text-white transition-colors flex items-center gap-1">
+                                                            {dict.source === 'private' && <span className="material-symbols-outlined text-sm">school</span>}
+                                                            {dict.name}
+                                                            {dict.sample && (
+                                                                <span className="px-1 rounded border border-yellow-500/40 text-[10px] text-yellow-400" title="Sample list, not the full syllabus / 样例词表，非完整大纲">
+                                                                    <HoverTranslationText text="SAMPLE" translation="样例" />
+                                                                </span>
+                                                            )}
+                                                        </span>
+                                                        {dict.wordCount > 0 && (
+                                                            <span className="text-xs text-mid-grey" title={dict.description ?? undefined}>
+                                                                {dict.wordCount.toLocaleString()} 词{dict.levels.length > 0 ? ` · ${dict.levels.length} 个难度` : ''}
+                                                            </span>
+                                                        )}
+                                                    </div>
                                                 </div>
                                                 
                                                 <button
@@ -361,6 +421,58 @@ export const LibrarySelector: React.FC<LibrarySelectorProps> = ({
                     </div>
                 )}
             </div>
+
+            <div className="mt-3 flex gap-2">
+                <button
+                    onClick={() => setShowDeckImport(true)}
+                    className="flex-1 flex items-center justify-center gap-2 rounded-lg px-4 py-2 border border-dashed border-mid-charcoal text-mid-grey hover:text-electric-blue hover:border-electric-blue font-mono text-sm transition-colors"
+                >
+                    <span className="material-symbols-outlined text-lg">upload_file</span>
+                    <HoverTranslationText text="Import CSV / Anki deck" translation="导入 CSV / Anki 词卡" />
+                </button>
+                <button
+                    onClick={() => setShowPackModal(true)}
+                    className="flex-1 flex items-center justify-center gap-2 rounded-lg px-4 py-2 border border-dashed border-mid-charcoal text-mid-grey hover:text-electric-blue hover:border-electric-blue font-mono text-sm transition-colors"
+                >
+                    <span className="material-symbols-outlined text-lg">school</span>
+                    <HoverTranslationText text="Class packs" translation="班级词库" />
+                </button>
+            </div>
+
+            {upgradePack && (
+                <LibraryUpgradeModal
+                    userId={userId}
+                    pack={upgradePack}
+                    fromVersion={installedVersions[upgradePack.tag] ?? null}
+                    onClose={() => setUpgradePack(null)}
+                    onUpgraded={async () => {
+                        setInstalledVersions(prev => ({ ...prev, [upgradePack.tag]: upgradePack.version }));
+                        setVerifiedLibraries(await verifyAllLibraries(userId, packs));
+                        onImportComplete();
+                    }}
+                />
+            )}
+
+            {showPackModal && (
+                <LibraryPackModal
+                    userId={userId}
+                    packs={packs}
+                    onClose={() => setShowPackModal(false)}
+                    onPacksChanged={loadPacks}
+                />
+            )}
+
+            {showDeckImport && (
+                <DeckImportModal
+                    userId={userId}
+                    existingWords={existingWords}
+                    onClose={() => setShowDeckImport(false)}
+                    onImported={(tag) => {
+                        onImportComplete();
+                        if (!selectedLibraries.has('All') && !selectedLibraries.has(tag)) toggleLibrary(tag);
+                    }}
+                />
+            )}
         </div>
     );
 };
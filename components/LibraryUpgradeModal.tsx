@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { HoverTranslationText } from './HoverTranslationText';
+import {
+  applyLibraryUpgrade,
+  LibraryUpgradePreview,
+  LibraryUpgradeResult,
+  prepareLibraryUpgrade,
+} from '../services/dataService';
+import type { LibraryPack } from '../utils/libraryManifest';
+
+interface LibraryUpgradeModalProps {
+  userId: string;
+  pack: LibraryPack;
+  /** Installed version, null when unknown */
+  fromVersion: number | null;
+  onClose: () => void;
+  onUpgraded: () => void;
+}
+
+const LIST_LIMIT = 40;
+
+const WordList: React.FC<{ words: string[] }> = ({ words }) => (
+  <p className="font-mono text-[11px] text-text-light break-words">
+    {words.slice(0, LIST_LIMIT).join(', ')}
+    {words.length > LIST_LIMIT ? ` … +${words.length - LIST_LIMIT}` : ''}
+  </p>
+);
+
+/**
+ * LibraryUpgradeModal - Preview and apply a library pack upgrade
+ * Shows added / renamed / leaving words before anything is written.
+ */
+export const LibraryUpgradeModal: React.FC<LibraryUpgradeModalProps> = ({ userId, pack, fromVersion, onClose, onUpgraded }) => {
+  const [preview, setPreview] = useState<LibraryUpgradePreview | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'applying' | 'done' | 'error'>('loading');
+  const [result, setResult] = useState<LibraryUpgradeResult | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    prepareLibraryUpgrade(userId, pack, fromVersion)
+      .then(p => {
+        if (cancelled) return;
+        setPreview(p);
+        setStatus('ready');
+      })
+      .catch(e => {
+        console.error('[LibraryUpgradeModal] Failed to prepare upgrade:', e);
+        if (!cancelled) setStatus('error');
+      });
+    return () => { cancelled = true; };
+  }, [userId, pack, fromVersion]);
+
+  const handleApply = async () => {
+    if (!preview) return;
+    setStatus('applying');
+    try {
+      setResult(await applyLibraryUpgrade(userId, preview));
+      setStatus('done');
+      onUpgraded();
+    } catch (e) {
+      console.error('[LibraryUpgradeModal] Upgrade failed:', e);
+      setStatus('error');
+    }
+  };
+
+  const diff = preview?.diff;
+  const plan = preview?.plan;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[200] flex items-center justify-center p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="bg-light-charcoal border border-mid-charcoal rounded-3xl w-full max-w-2xl max-h-[90vh] overflow-y-auto custom-scrollbar shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4 p-6 border-b border-mid-charcoal">
+          <h2 className="font-headline text-2xl text-electric-blue flex items-center gap-2">
+            <span className="material-symbols-outlined">upgrade</span>
+            <span>
+              {pack.name} <span className="font-mono text-sm text-text-dark">{fromVersion != null ? `v${fromVersion} → ` : ''}v{pack.version}</span>
+            </span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-mid-charcoal rounded-full text-text-light transition-colors"
+            aria-label="Close"
+          >
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {status === 'loading' && (
+            <div className="flex items-center justify-center gap-2 py-8 font-mono text-sm text-text-light">
+              <span className="material-symbols-outlined animate-spin">sync</span>
+              <HoverTranslationText text="Comparing word lists..." translation="正在比对词表..." />
+            </div>
+          )}
+
+          {status === 'error' && (
+            <div className="flex items-center gap-2 p-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 font-mono text-xs">
+              <span className="material-symbols-outlined text-sm">error</span>
+              <HoverTranslationText text="Upgrade failed, please try again" translation="更新失败，请重试" />
+            </div>
+          )}
+
+          {diff && plan && (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 font-mono text-center">
+                <div className="bg-dark-charcoal rounded-lg p-3">
+                  <div className="text-xl text-electric-green">{diff.added.length}</div>
+                  <div className="text-[10px] text-text-dark uppercase"><HoverTranslationText text="Added" translation="新增" /></div>
+                </div>
+                <div className="bg-dark-charcoal rounded-lg p-3">
+                  <div className="text-xl text-electric-blue">{diff.renamed.length}</div>
+                  <div className="text-[10px] text-text-dark uppercase"><HoverTranslationText text="Renamed" translation="拼写变更" /></div>
+                </div>
+                <div className="bg-dark-charcoal rounded-lg p-3">
+                  <div className="text-xl text-yellow-400">{diff.removed.length}</div>
+                  <div className="text-[10px] text-text-dark uppercase"><HoverTranslationText text="Leaving" translation="移出" /></div>
+                </div>
+                <div className="bg-dark-charcoal rounded-lg p-3">
+                  <div className="text-xl text-text-light">{diff.unchanged}</div>
+                  <div className="text-[10px] text-text-dark uppercase"><HoverTranslationText text="Unchanged" translation="不变" /></div>
+                </div>
+              </div>
+
+              {diff.added.length > 0 && (
+                <div className="bg-dark-charcoal rounded-lg p-3 space-y-1">
+                  <div className="text-xs text-electric-green font-mono"><HoverTranslationText text="Added" translation="新增" /></div>
+                  <WordList words={diff.added.map(w => w.text)} />
+                </div>
+              )}
+
+              {diff.renamed.length > 0 && (
+                <div className="bg-dark-charcoal rounded-lg p-3 space-y-1">
+                  <div className="text-xs text-electric-blue font-mono">
+                    <HoverTranslationText text="Renamed — progress is kept" translation="拼写变更 — 保留学习进度" />
+                  </div>
+                  <WordList words={diff.renamed.map(r => `${r.from.text} → ${r.to.text}`)} />
+                </div>
+              )}
+
+              {plan.retag.length > 0 && (
+                <div className="bg-dark-charcoal rounded-lg p-3 space-y-1">
+                  <div className="text-xs text-yellow-400 font-mono">
+                    <HoverTranslationText text="Leaving — kept in your other libraries or Custom" translation="移出词库 — 保留在其他词库或自定义中" />
+                  </div>
+                  <WordList words={plan.retag.map(w => w.text)} />
+                </div>
+              )}
+
+              {plan.remove.length > 0 && (
+                <div className="bg-dark-charcoal rounded-lg p-3 space-y-1">
+                  <div className="text-xs text-red-400 font-mono">
+                    <HoverTranslationText text="Leaving — never studied, will be deleted" translation="移出词库 — 未学习过，将被删除" />
+                  </div>
+                  <WordList words={plan.remove.map(w => w.text)} />
+                </div>
+              )}
+            </>
+          )}
+
+          {status === 'done' && result && (
+            <div className="flex items-center gap-2 p-3 rounded-xl bg-electric-green/10 border border-electric-green/30 text-electric-green font-mono text-xs">
+              <span className="material-symbols-outlined text-sm">check_circle</span>
+              <HoverTranslationText
+                text={`Added ${result.added}, renamed ${result.renamed}, moved out ${result.retagged + result.removed}${result.failed ? `, ${result.failed} failed` : ''}`}
+                translation={`新增 ${result.added}，变更 ${result.renamed}，移出 ${result.retagged + result.removed}${result.failed ? `，失败 ${result.failed}` : ''}`}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-mid-charcoal">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg font-headline tracking-wider text-text-light hover:bg-mid-charcoal transition-colors"
+          >
+            {status === 'done' ? 'DONE' : 'CANCEL'}
+          </button>
+          {status !== 'done' && (
+            <button
+              onClick={handleApply}
+              disabled={status !== 'ready'}
+              className="px-4 py-2 rounded-lg font-headline tracking-wider bg-electric-blue text-charcoal hover:bg-electric-blue/80 disabled:opacity-40 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+            >
+              {status === 'applying' && <span className="material-symbols-outlined text-sm animate-spin">sync</span>}
+              APPLY
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,369 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { HoverTranslationText } from './HoverTranslationText';
+import { ClozeSentence } from './ClozeSentence';
+import { playBuzzer, playDing } from '../utils/audioFeedback';
+import {
+  CollocationSuggestion,
+  PhraseClozeItem,
+  PhraseClozeResult,
+  PhraseClozeSummary,
+  PhrasePracticePhase,
+  WordEntry,
+} from '../types';
+import { calculatePhraseClozeSummary, checkPhraseClozeAnswer, PHRASE_CLOZE_ITEMS } from '../utils/collocations';
+import { getPhraseSuggestions, preparePhraseCloze } from '../services/collocations';
+import { submitWordReviews } from '../services/dataService';
+
+interface PhrasePracticeModeProps {
+  allWords: WordEntry[];
+  /** Saves the chosen phrases; resolves to the number of new entries */
+  onSavePhrases: (suggestions: CollocationSuggestion[]) => Promise<number>;
+  onComplete: (summary: PhraseClozeSummary) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+const MIN_PHRASES = 3;
+
+const PATTERN_LABELS: Record<CollocationSuggestion['pattern'], { en: string; zh: string }> = {
+  verb_noun: { en: 'verb + noun', zh: '动词 + 名词' },
+  adj_noun: { en: 'adj + noun', zh: '形容词 + 名词' },
+};
+
+/**
+ * PhrasePracticeMode - Collocation suggestions and phrase cloze test
+ * Suggests verb + noun / adjective + noun phrases for library words, saves
+ * the chosen ones as phrase entries, and tests saved phrases by blanking
+ * their first content word (make a ____ → decision's verb).
+ */
+const PhrasePracticeMode: React.FC<PhrasePracticeModeProps> = ({ allWords, onSavePhrases, onComplete, onCancel }) => {
+  const [phase, setPhase] = useState<PhrasePracticePhase>('INTRO');
+  const [suggestions, setSuggestions] = useState<CollocationSuggestion[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const [items, setItems] = useState<PhraseClozeItem[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [inputValue, setInputValue] = useState('');
+  const [results, setResults] = useState<PhraseClozeResult[]>([]);
+  const [summary, setSummary] = useState<PhraseClozeSummary | null>(null);
+  const [preparationError, setPreparationError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const shownAtRef = useRef(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const phraseCount = useMemo(() => preparePhraseCloze(allWords, allWords.length).length, [allWords]);
+  const item = items[currentIndex] as PhraseClozeItem | undefined;
+  const answered = results.length > currentIndex ? results[currentIndex] : null;
+
+  useEffect(() => {
+    if (phase !== 'PLAYING' || answered) return;
+    shownAtRef.current = Date.now();
+    setTimeout(() => inputRef.current?.focus(), 0);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phase, currentIndex]);
+
+  const findPhrases = async () => {
+    setPreparationError(null);
+    setSavedMessage(null);
+    setPhase('SUGGESTING');
+    const nextSuggestions = await getPhraseSuggestions(allWords);
+    if (nextSuggestions.length === 0) {
+      setPreparationError('No new collocations found for your words yet.');
+      setPhase('INTRO');
+      return;
+    }
+    setSuggestions(nextSuggestions);
+    setSelected(new Set(nextSuggestions.map((s) => s.phrase)));
+    setPhase('SUGGEST');
+  };
+
+  const toggleSuggestion = (phrase: string) => {
+    const next = new Set(selected);
+    if (next.has(phrase)) next.delete(phrase);
+    else next.add(phrase);
+    setSelected(next);
+  };
+
+  const saveSelected = async () => {
+    const chosen = suggestions.filter((s) => selected.has(s.phrase));
+    if (chosen.length === 0) return;
+    setIsSaving(true);
+    try {
+      const inserted = await onSavePhrases(chosen);
+      setSavedMessage(`Saved ${inserted} phrase${inserted === 1 ? '' : 's'} to the Phrases library.`);
+      setPhase('INTRO');
+    } catch (error) {
+      console.error('[PhrasePracticeMode] saving phrases failed:', error);
+      setPreparationError('Could not save the phrases. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startCloze = () => {
+    setPreparationError(null);
+    setSavedMessage(null);
+    const nextItems = preparePhraseCloze(allWords, PHRASE_CLOZE_ITEMS);
+    if (nextItems.length < MIN_PHRASES) {
+      setPreparationError(`Save at least ${MIN_PHRASES} phrases to start the cloze test.`);
+      return;
+    }
+    setItems(nextItems);
+    setCurrentIndex(0);
+    setInputValue('');
+    setResults([]);
+    setPhase('PLAYING');
+  };
+
+  const finishCloze = async (finalResults: PhraseClozeResult[]) => {
+    const nextSummary = calculatePhraseClozeSummary(finalResults);
+    setSummary(nextSummary);
+    setPhase('RESULT');
+
+    // The rest of the phrase is on screen, so each answer is a hinted
+    // review of the phrase entry (non-fatal)
+    void submitWordReviews(finalResults.map((r) => ({
+      wordId: r.wordId,
+      mode: 'PHRASE',
+      correct: r.correct,
+      attempts: 1,
+      hintLevel: 1,
+      timeSpentMs: r.answeredInMs,
+      charsPerMinute: null,
+    })), crypto.randomUUID());
+
+    setIsSubmitting(true);
+    try {
+      await onComplete(nextSummary);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitAnswer = () => {
+    if (phase !== 'PLAYING' || !item || answered || !inputValue.trim()) return;
+    const correct = checkPhraseClozeAnswer(item, inputValue);
+    if (correct) playDing();
+    else playBuzzer();
+    setResults([...results, {
+      wordId: item.wordId,
+      phrase: item.phrase,
+      answer: item.answer,
+      typed: inputValue.trim(),
+      correct,
+      answeredInMs: Date.now() - shownAtRef.current,
+    }]);
+  };
+
+  const goNext = () => {
+    if (!answered) return;
+    if (currentIndex >= items.length - 1) {
+      void finishCloze(results);
+      return;
+    }
+    setCurrentIndex(currentIndex + 1);
+    setInputValue('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] overflow-hidden bg-[radial-gradient(circle_at_top,_rgba(45,212,191,0.12),_transparent_28%),linear-gradient(180deg,_rgba(9,12,16,0.96),_rgba(12,14,18,1))]">
+      <div className="relative flex h-[100dvh] flex-col px-4 pb-4 pt-20 md:px-8 md:pb-6 md:pt-24">
+        <div className="sticky top-16 z-30 mb-4 flex shrink-0 items-start justify-between gap-4 pb-3">
+          <div>
+            <div className="text-xs font-mono uppercase tracking-[0.35em] text-teal-300/80">OPTION 10</div>
+            <h2 className="font-headline text-3xl text-white md:text-4xl">
+              <HoverTranslationText text="Phrase Practice" translation="短语搭配" />
+            </h2>
+          </div>
+          <button
+            onClick={onCancel}
+            className="rounded-2xl border border-mid-charcoal bg-dark-charcoal/70 px-4 py-2 text-xs font-mono uppercase tracking-[0.25em] text-text-light transition-colors hover:border-white hover:text-white"
+          >
+            <HoverTranslationText text="Exit" translation="退出" />
+          </button>
+        </div>
+
+        {phase === 'INTRO' && (
+          <div className="flex flex-1 items-center justify-center">
+            <div className="w-full max-w-xl space-y-6 rounded-[32px] border border-mid-charcoal bg-dark-charcoal/80 p-8 text-center shadow-2xl">
+              <p className="text-sm leading-7 text-text-light">
+                <HoverTranslationText
+                  text="Find common collocations for your words (make a decision, heavy rain), save the ones you want as phrases, then fill in the missing word."
+                  translation="为你的单词找到常用搭配（make a decision、heavy rain），保存想学的短语，再做填空练习。"
+                />
+              </p>
+              <button
+                onClick={() => void findPhrases()}
+                className="w-full rounded-2xl bg-teal-400 px-5 py-4 font-headline text-sm uppercase tracking-[0.3em] text-charcoal transition-transform hover:-translate-y-1"
+              >
+                <HoverTranslationText text="Find Phrases" translation="查找搭配" />
+              </button>
+              <button
+                onClick={startCloze}
+                disabled={phraseCount < MIN_PHRASES}
+                className="w-full rounded-2xl border border-teal-400/50 px-5 py-4 font-headline text-sm uppercase tracking-[0.3em] text-teal-200 transition-colors hover:bg-teal-400/10 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                <HoverTranslationText
+                  text={`Cloze Test (${phraseCount} phrases)`}
+                  translation={`短语填空（${phraseCount} 个短语）`}
+                />
+              </button>
+              {savedMessage && <div className="font-mono text-xs text-electric-green">{savedMessage}</div>}
+            </div>
+          </div>
+        )}
+
+        {phase === 'SUGGESTING' && (
+          <div className="flex flex-1 flex-col items-center justify-center gap-4 text-text-dark">
+            <span className="material-symbols-outlined animate-spin text-4xl text-teal-300">progress_activity</span>
+            <span className="font-mono text-xs uppercase tracking-[0.3em]">
+              <HoverTranslationText text="Finding collocations..." translation="正在查找搭配..." />
+            </span>
+          </div>
+        )}
+
+        {phase === 'SUGGEST' && (
+          <div className="flex flex-1 items-start justify-center overflow-y-auto py-4">
+            <div className="w-full max-w-2xl space-y-4 rounded-[34px] border border-mid-charcoal bg-dark-charcoal/85 p-8 shadow-2xl">
+              <div className="space-y-2">
+                {suggestions.map((s) => (
+                  <label
+                    key={s.phrase}
+                    className={`flex cursor-pointer items-center gap-3 rounded-2xl border px-4 py-3 text-sm transition-colors ${
+                      selected.has(s.phrase) ? 'border-teal-400/50 bg-teal-400/10' : 'border-mid-charcoal bg-light-charcoal/20'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(s.phrase)}
+                      onChange={() => toggleSuggestion(s.phrase)}
+                      className="accent-teal-400"
+                    />
+                    <span className="flex-1">
+                      <span className="font-headline text-lg text-white">{s.phrase}</span>
+                      {s.meaningZh && <span className="ml-3 text-text-dark">{s.meaningZh}</span>}
+                    </span>
+                    <span className="font-mono text-[10px] uppercase tracking-widest text-text-dark">
+                      <HoverTranslationText text={PATTERN_LABELS[s.pattern].en} translation={PATTERN_LABELS[s.pattern].zh} />
+                    </span>
+                    {s.source === 'ai' && (
+                      <span className="material-symbols-outlined text-sm text-teal-300" title="Suggested by AI">auto_awesome</span>
+                    )}
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setPhase('INTRO')}
+                  disabled={isSaving}
+                  className="flex-1 rounded-2xl border border-mid-charcoal px-4 py-4 font-headline text-sm uppercase tracking-[0.25em] text-text-light transition-colors hover:border-white hover:text-white disabled:opacity-50"
+                >
+                  <HoverTranslationText text="Back" translation="返回" />
+                </button>
+                <button
+                  onClick={() => void saveSelected()}
+                  disabled={isSaving || selected.size === 0}
+                  className="flex-[2] rounded-2xl bg-teal-400 px-4 py-4 font-headline text-sm uppercase tracking-[0.25em] text-charcoal transition-transform hover:-translate-y-1 disabled:opacity-50"
+                >
+                  <HoverTranslationText text={`Save ${selected.size} Phrases`} translation={`保存 ${selected.size} 个短语`} />
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {phase === 'PLAYING' && item && (
+          <div className="flex flex-1 flex-col items-center justify-center gap-6">
+            <div className="font-mono text-xs uppercase tracking-[0.3em] text-text-dark">
+              {currentIndex + 1} / {items.length}
+            </div>
+            <div className="w-full max-w-2xl space-y-6 rounded-[32px] border border-teal-400/20 bg-dark-charcoal/85 p-8 text-center shadow-2xl">
+              {item.meaningZh && <div className="text-lg text-text-light">{item.meaningZh}</div>}
+              <ClozeSentence
+                sentence={item.phrase}
+                targetWord={item.answer}
+                isActive
+                status={answered ? (answered.correct ? 'correct' : 'revealed') : 'active'}
+                revealed={Boolean(answered)}
+              />
+
+              {answered ? (
+                <div className="space-y-2">
+                  {!answered.correct && (
+                    <div className="font-mono text-sm text-red-300">
+                      <HoverTranslationText text="You typed:" translation="你的答案：" /> {answered.typed}
+                    </div>
+                  )}
+                  <button
+                    onClick={goNext}
+                    autoFocus
+                    className="mt-4 rounded-2xl bg-teal-400 px-6 py-3 font-headline text-sm uppercase tracking-[0.25em] text-charcoal transition-transform hover:-translate-y-0.5"
+                  >
+                    <HoverTranslationText text="Next" translation="下一题" />
+                  </button>
+                </div>
+              ) : (
+                <input
+                  ref={inputRef}
+                  value={inputValue}
+                  onChange={(event) => setInputValue(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') submitAnswer();
+                  }}
+                  autoComplete="off"
+                  autoCapitalize="off"
+                  spellCheck={false}
+                  placeholder="type the missing word"
+                  className="w-full rounded-2xl border border-white/10 bg-black/40 px-5 py-4 text-center font-serif text-2xl text-white outline-none focus:border-teal-400"
+                />
+              )}
+            </div>
+          </div>
+        )}
+
+        {phase === 'RESULT' && summary && (
+          <div className="flex flex-1 items-start justify-center overflow-y-auto py-4">
+            <div className="w-full max-w-2xl space-y-6 rounded-[34px] border border-mid-charcoal bg-dark-charcoal/85 p-8 shadow-2xl">
+              <div className="text-center">
+                <div className="text-xs font-mono uppercase tracking-[0.35em] text-teal-300/80">
+                  <HoverTranslationText text="Cloze Complete" translation="填空完成" />
+                </div>
+                <div className="mt-3 font-headline text-5xl text-white">
+                  {summary.wordsCorrect}/{summary.wordsTotal}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {summary.results.map((r, index) => (
+                  <div key={`${r.wordId}-${index}`} className="flex items-center justify-between gap-3 rounded-2xl border border-mid-charcoal bg-light-charcoal/20 px-4 py-2 text-sm">
+                    <span className="font-headline text-white">{r.phrase}</span>
+                    <span className={`truncate font-mono ${r.correct ? 'text-electric-green' : 'text-red-300'}`}>
+                      {r.correct ? r.answer : r.typed} {r.correct ? '✓' : '✗'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={onCancel}
+                disabled={isSubmitting}
+                className="w-full rounded-2xl bg-teal-400 px-4 py-4 font-headline text-sm uppercase tracking-[0.3em] text-charcoal transition-transform hover:-translate-y-1 disabled:opacity-50"
+              >
+                <HoverTranslationText text="Return to Dashboard" translation="返回主界面" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {preparationError && (
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 rounded-2xl border border-red-500/40 bg-red-500/15 px-4 py-3 text-sm text-red-200 shadow-2xl">
+            {preparationError}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PhrasePracticeMode;
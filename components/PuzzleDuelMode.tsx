@@ -0,0 +1,458 @@
+import React, { useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import { HoverTranslationText } from './HoverTranslationText';
+import PuzzleGameMode from './PuzzleGameMode';
+import { PuzzleGameSummary, WordEntry } from '../types';
+import { calculatePuzzleGameSummary, getPuzzleCandidateWords } from '../services/puzzleGame';
+import {
+  createPuzzleDuel,
+  duelCardToWord,
+  expirePuzzleDuel,
+  fetchPuzzleDuel,
+  fetchPuzzleDuelLeaderboard,
+  joinPuzzleDuel,
+  leavePuzzleDuel,
+  openDuelChannel,
+  PuzzleDuelLeaderboardEntry,
+  PuzzleDuelRoom,
+  startPuzzleDuel,
+  submitPuzzleDuelResult,
+} from '../services/puzzleDuel';
+import {
+  applyDuelEvent,
+  decideDuelWinner,
+  DUEL_CARD_COUNT,
+  DUEL_RESULT_TIMEOUT_MS,
+  DUEL_START_DELAY_MS,
+  DuelEvent,
+  DuelTransport,
+  initialDuelState,
+  normalizeRoomCode,
+} from '../utils/puzzleDuel';
+
+interface PuzzleDuelModeProps {
+  allWords: WordEntry[];
+  userId: string;
+  playerName: string;
+  onExit: () => void;
+}
+
+type DuelPhase = 'LOBBY' | 'WAITING' | 'PLAYING' | 'RESULT';
+
+const ERROR_MESSAGES: Record<string, { en: string; zh: string }> = {
+  not_found: { en: 'No open room with that code.', zh: '没有找到这个房间码对应的房间。' },
+  room_full: { en: 'That room already has two players.', zh: '该房间已满。' },
+  not_enough_words: { en: `You need ${DUEL_CARD_COUNT} image-backed words to host a duel.`, zh: `至少需要 ${DUEL_CARD_COUNT} 个带图单词才能创建对战。` },
+  room_code_taken: { en: 'Could not reserve a room code. Try again.', zh: '暂时无法分配房间码，请重试。' },
+  no_ticket: { en: 'This round could not be verified, so it does not count.', zh: '本局未能通过服务器验证，成绩不计入对战。' },
+};
+
+// Re-check an overdue duel this often until the server closes it
+const DUEL_EXPIRY_RETRY_MS = 30_000;
+
+const describeError = (code: string) => ERROR_MESSAGES[code] || { en: code, zh: code };
+
+const PuzzleDuelMode: React.FC<PuzzleDuelModeProps> = ({ allWords, userId, playerName, onExit }) => {
+  const [phase, setPhase] = useState<DuelPhase>('LOBBY');
+  const [room, setRoom] = useState<PuzzleDuelRoom | null>(null);
+  const [joinCode, setJoinCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [leaderboard, setLeaderboard] = useState<PuzzleDuelLeaderboardEntry[]>([]);
+  const [duelState, dispatch] = useReducer(applyDuelEvent, initialDuelState);
+  const [startAtMs, setStartAtMs] = useState<number | null>(null);
+  const [mySummary, setMySummary] = useState<PuzzleGameSummary | null>(null);
+
+  const transportRef = useRef<DuelTransport | null>(null);
+  const greetedRef = useRef(new Set<string>());
+  const readyRef = useRef(false);
+
+  const canHost = useMemo(() => getPuzzleCandidateWords(allWords).length >= DUEL_CARD_COUNT, [allWords]);
+  const isHost = room?.hostId === userId;
+
+  const opponentId = Object.keys(duelState.players).find((id) => id !== userId) || null;
+  const opponent = opponentId ? duelState.players[opponentId] : null;
+  const opponentName = opponent?.name || (isHost ? 'Guest' : 'Host');
+
+  useEffect(() => {
+    if (phase !== 'LOBBY') return;
+    let disposed = false;
+    fetchPuzzleDuelLeaderboard(10)
+      .then((entries) => { if (!disposed) setLeaderboard(entries); })
+      .catch(() => { if (!disposed) setLeaderboard([]); });
+    return () => { disposed = true; };
+  }, [phase]);
+
+  // Live channel for the current room
+  const roomId = room?.id ?? null;
+  useEffect(() => {
+    if (!roomId) return;
+
+    const transport = openDuelChannel(roomId);
+    transportRef.current = transport;
+    greetedRef.current = new Set();
+
+    const unsubscribe = transport.subscribe((event: DuelEvent) => {
+      dispatch(event);
+      if (event.type === 'hello' && !greetedRef.current.has(event.playerId)) {
+        // Answer once so a player who joined later still learns who we are
+        greetedRef.current.add(event.playerId);
+        void transport.send({ type: 'hello', playerId: userId, name: playerName });
+        if (readyRef.current) void transport.send({ type: 'ready', playerId: userId });
+      }
+      if (event.type === 'start') {
+        setStartAtMs(Date.now() + event.startInMs);
+      }
+    });
+    void transport.send({ type: 'hello', playerId: userId, name: playerName });
+
+    return () => {
+      unsubscribe();
+      transport.close();
+      transportRef.current = null;
+    };
+  }, [roomId, userId, playerName]);
+
+  // The host waits in the room until the guest says hello
+  useEffect(() => {
+    if (phase === 'WAITING' && opponent && !opponent.left) {
+      setPhase('PLAYING');
+    }
+  }, [phase, opponent]);
+
+  // Once both results are in (or the other side left), read back the server's decision
+  const opponentFinished = Boolean(opponent?.finished);
+  const opponentLeft = Boolean(opponent?.left);
+  useEffect(() => {
+    if (phase !== 'RESULT' || !roomId || (!opponentFinished && !opponentLeft)) return;
+    const timeout = window.setTimeout(() => {
+      void fetchPuzzleDuel(roomId).then((latest) => { if (latest) setRoom(latest); });
+    }, 800);
+    return () => window.clearTimeout(timeout);
+  }, [phase, roomId, opponentFinished, opponentLeft]);
+
+  // A rival who never submits must not leave us waiting forever: once the
+  // duel is past its timeout, ask the server to close it
+  const roomStatus = room?.status ?? null;
+  const roomStartedAt = room?.startedAt ?? null;
+  const [expiryTick, setExpiryTick] = useState(0);
+  useEffect(() => {
+    if (phase !== 'RESULT' || !roomId || roomStatus !== 'playing' || !roomStartedAt) return;
+    const dueInMs = Date.parse(roomStartedAt) + DUEL_RESULT_TIMEOUT_MS - Date.now();
+    const timeout = window.setTimeout(() => {
+      void expirePuzzleDuel(roomId).then((latest) => {
+        if ('error' in latest) return;
+        setRoom(latest);
+        if (latest.status === 'playing') setExpiryTick((t) => t + 1);
+      });
+    }, Math.max(dueInMs, expiryTick > 0 ? DUEL_EXPIRY_RETRY_MS : 0));
+    return () => window.clearTimeout(timeout);
+  }, [phase, roomId, roomStatus, roomStartedAt, expiryTick]);
+
+  const send = (event: DuelEvent) => {
+    void transportRef.current?.send(event);
+  };
+
+  const enterRoom = async (result: PuzzleDuelRoom | { error: string }) => {
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+    setRoom(result);
+    setPhase(result.hostId === userId && !result.guestId ? 'WAITING' : 'PLAYING');
+  };
+
+  const handleCreate = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await enterRoom(await createPuzzleDuel(allWords));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await enterRoom(await joinPuzzleDuel(joinCode));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExit = async () => {
+    if (room && room.status !== 'finished' && !mySummary) {
+      send({ type: 'leave', playerId: userId });
+      await leavePuzzleDuel(room.id);
+    }
+    onExit();
+  };
+
+  const handleRequestStart = async () => {
+    if (!room) return;
+    const started = await startPuzzleDuel(room.id);
+    if ('error' in started) {
+      setError(started.error);
+      return;
+    }
+    setRoom(started);
+    send({ type: 'start', startInMs: DUEL_START_DELAY_MS });
+    setStartAtMs(Date.now() + DUEL_START_DELAY_MS);
+  };
+
+  const handleComplete = async (summary: PuzzleGameSummary) => {
+    setMySummary(summary);
+    setPhase('RESULT');
+    send({ type: 'finished', playerId: userId, results: summary.results, elapsedMs: summary.timeUsedSeconds * 1000 });
+    if (!room) return;
+    const updated = await submitPuzzleDuelResult(summary);
+    if ('error' in updated) {
+      setError(updated.error);
+      return;
+    }
+    setRoom(updated);
+  };
+
+  const opponentSummary = useMemo(() => (
+    opponent?.finished
+      ? calculatePuzzleGameSummary(opponent.finished.results, opponent.finished.elapsedMs, 'random', 0, false)
+      : null
+  ), [opponent?.finished]);
+
+  // The server's decision wins (it also covers forfeits); until then, the live results
+  const winnerId = room?.status === 'finished'
+    ? room.winnerId
+    : mySummary && opponentSummary && opponentId
+      ? decideDuelWinner(
+        { playerId: userId, score: mySummary },
+        { playerId: opponentId, score: opponentSummary },
+      )
+      : undefined;
+  const isDecided = room?.status === 'finished' || room?.status === 'abandoned' || (mySummary != null && opponentSummary != null);
+
+  const duelCards = useMemo(() => (room?.cards || []).map(duelCardToWord), [room?.cards]);
+
+  if (phase === 'PLAYING' && room) {
+    return (
+      <PuzzleGameMode
+        allWords={allWords}
+        sessions={[]}
+        onComplete={handleComplete}
+        onCancel={() => void handleExit()}
+        duel={{
+          duelId: room.id,
+          cards: duelCards,
+          opponentName,
+          opponentReady: Boolean(opponent?.ready),
+          opponentSolvedIds: opponent?.solvedIds || [],
+          startAtMs,
+          onRequestStart: isHost ? () => void handleRequestStart() : undefined,
+          onReady: () => {
+            readyRef.current = true;
+            send({ type: 'ready', playerId: userId });
+          },
+          onCardSolved: (wordId, solvedAtMs) => send({ type: 'solved', playerId: userId, wordId, solvedAtMs }),
+        }}
+      />
+    );
+  }
+
+  const errorText = error ? describeError(error) : null;
+
+  return (
+    <div className="fixed inset-0 z-[90] overflow-y-auto bg-[radial-gradient(circle_at_top,_rgba(96,165,250,0.12),_transparent_28%),linear-gradient(180deg,_rgba(9,12,16,0.96),_rgba(12,14,18,1))]">
+      <div className="relative mx-auto flex min-h-[100dvh] max-w-4xl flex-col px-4 pb-6 pt-20 md:px-8 md:pt-24">
+        <div className="mb-6 flex items-start justify-between gap-4">
+          <div>
+            <div className="text-xs font-mono uppercase tracking-[0.35em] text-electric-blue/80">OPTION 11</div>
+            <h2 className="font-headline text-3xl text-white md:text-4xl">
+              <HoverTranslationText text="Puzzle Duel" translation="字谜对战" />
+            </h2>
+          </div>
+          <button
+            onClick={() => void handleExit()}
+            className="rounded-2xl border border-mid-charcoal bg-dark-charcoal/70 px-4 py-2 text-xs font-mono uppercase tracking-[0.25em] text-text-light transition-colors hover:border-white hover:text-white"
+          >
+            <HoverTranslationText text="Exit" translation="退出" />
+          </button>
+        </div>
+
+        {phase === 'LOBBY' && (
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-4 rounded-[32px] border border-mid-charcoal bg-dark-charcoal/80 p-6 shadow-2xl">
+              <p className="text-sm leading-7 text-text-light">
+                <HoverTranslationText
+                  text="Two players, the same nine picture cards, 90 seconds. You see each card your rival solves as it happens."
+                  translation="两名玩家、同样的九张图片卡、90 秒。对手每答对一张卡，你都会实时看到。"
+                />
+              </p>
+              <button
+                onClick={() => void handleCreate()}
+                disabled={busy || !canHost}
+                className={`w-full rounded-2xl px-5 py-4 font-headline text-sm uppercase tracking-[0.3em] transition-all ${
+                  !busy && canHost
+                    ? 'bg-electric-blue text-charcoal hover:-translate-y-1'
+                    : 'cursor-not-allowed bg-mid-charcoal text-text-dark'
+                }`}
+              >
+                <HoverTranslationText text="Create Room" translation="创建房间" />
+              </button>
+              {!canHost && (
+                <div className="text-xs font-mono text-text-dark">
+                  <HoverTranslationText
+                    text={describeError('not_enough_words').en}
+                    translation={describeError('not_enough_words').zh}
+                  />
+                </div>
+              )}
+
+              <div className="border-t border-mid-charcoal pt-4">
+                <div className="mb-2 text-xs font-mono uppercase tracking-[0.3em] text-text-dark">
+                  <HoverTranslationText text="Join with a room code" translation="输入房间码加入" />
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    value={joinCode}
+                    onChange={(event) => setJoinCode(normalizeRoomCode(event.target.value))}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter' && joinCode.length > 0) void handleJoin();
+                    }}
+                    placeholder="ABC234"
+                    className="min-w-0 flex-1 rounded-2xl border border-mid-charcoal bg-light-charcoal/30 px-4 py-3 text-center font-mono text-lg tracking-[0.4em] text-white outline-none focus:border-electric-blue"
+                  />
+                  <button
+                    onClick={() => void handleJoin()}
+                    disabled={busy || joinCode.length === 0}
+                    className="rounded-2xl border border-electric-blue/40 px-4 py-3 text-xs font-mono uppercase tracking-[0.25em] text-electric-blue transition-colors hover:bg-electric-blue/10 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <HoverTranslationText text="Join" translation="加入" />
+                  </button>
+                </div>
+              </div>
+
+              {errorText && (
+                <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+                  <HoverTranslationText text={errorText.en} translation={errorText.zh} />
+                </div>
+              )}
+            </div>
+
+            <div className="rounded-[32px] border border-mid-charcoal bg-dark-charcoal/80 p-6 shadow-2xl">
+              <div className="mb-4 text-xs font-mono uppercase tracking-[0.3em] text-electric-blue/80">
+                <HoverTranslationText text="Duel Ranking" translation="对战排行" />
+              </div>
+              {leaderboard.length === 0 ? (
+                <div className="text-sm text-text-dark">
+                  <HoverTranslationText text="No duels finished yet." translation="还没有完成的对战。" />
+                </div>
+              ) : (
+                <ol className="space-y-2">
+                  {leaderboard.map((entry) => (
+                    <li
+                      key={entry.user_id}
+                      className={`flex items-center justify-between rounded-2xl border px-4 py-3 text-sm ${
+                        entry.is_current_user ? 'border-electric-blue/50 bg-electric-blue/10' : 'border-mid-charcoal bg-light-charcoal/20'
+                      }`}
+                    >
+                      <span className="truncate text-white">
+                        <span className="mr-3 font-mono text-text-dark">#{entry.rank_position}</span>
+                        {entry.display_name || '—'}
+                      </span>
+                      <span className="shrink-0 font-mono text-xs text-text-light">
+                        {entry.wins}W {entry.losses}L {entry.draws}D · {Math.round(Number(entry.win_rate) * 100)}%
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        )}
+
+        {phase === 'WAITING' && room && (
+          <div className="flex flex-1 items-center justify-center">
+            <div className="w-full max-w-xl rounded-[32px] border border-mid-charcoal bg-dark-charcoal/80 p-8 text-center shadow-2xl">
+              <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">
+                <HoverTranslationText text="Share this room code" translation="把房间码发给对手" />
+              </div>
+              <div className="mt-4 font-mono text-5xl tracking-[0.4em] text-electric-blue">{room.roomCode}</div>
+              <div className="mt-6 animate-pulse text-sm text-text-light">
+                <HoverTranslationText text="Waiting for your rival to join..." translation="等待对手加入..." />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {phase === 'RESULT' && mySummary && (
+          <div className="flex flex-1 items-center justify-center">
+            <div className="w-full max-w-3xl rounded-[32px] border border-mid-charcoal bg-dark-charcoal/85 p-8 shadow-2xl">
+              <div className="text-center">
+                <div className="text-xs font-mono uppercase tracking-[0.35em] text-electric-blue/80">
+                  <HoverTranslationText text="Duel Result" translation="对战结果" />
+                </div>
+                <h3 className="mt-3 font-headline text-4xl text-white">
+                  {!isDecided ? (
+                    <HoverTranslationText text={`Waiting for ${opponentName}...`} translation={`等待 ${opponentName} 完成...`} />
+                  ) : room?.status === 'abandoned' ? (
+                    <HoverTranslationText text="No result" translation="无有效成绩" />
+                  ) : winnerId === userId ? (
+                    <HoverTranslationText text="You win!" translation="你赢了！" />
+                  ) : winnerId == null ? (
+                    <HoverTranslationText text="Draw" translation="平局" />
+                  ) : (
+                    <HoverTranslationText text={`${opponentName} wins`} translation={`${opponentName} 获胜`} />
+                  )}
+                </h3>
+                {opponentLeft && !opponentSummary && (
+                  <div className="mt-2 text-sm text-text-light">
+                    <HoverTranslationText text={`${opponentName} left the duel.`} translation={`${opponentName} 已离开对战。`} />
+                  </div>
+                )}
+              </div>
+
+              <div className="mt-8 grid gap-4 sm:grid-cols-2">
+                {[
+                  { name: playerName, summary: mySummary, self: true },
+                  { name: opponentName, summary: opponentSummary, self: false },
+                ].map(({ name, summary, self }) => (
+                  <div
+                    key={self ? 'self' : 'rival'}
+                    className={`rounded-3xl border p-5 ${self ? 'border-electric-green/30 bg-electric-green/5' : 'border-electric-blue/30 bg-electric-blue/5'}`}
+                  >
+                    <div className="truncate text-xs font-mono uppercase tracking-[0.3em] text-text-dark">{name}</div>
+                    {summary ? (
+                      <>
+                        <div className="mt-2 font-headline text-4xl text-white">{Math.round(summary.totalScore)}</div>
+                        <div className="mt-2 text-xs font-mono text-text-light">
+                          {summary.wordsCorrect}/{summary.wordsTotal} · {summary.timeUsedSeconds}s · {summary.hintsUsed} hints
+                        </div>
+                      </>
+                    ) : (
+                      <div className="mt-2 font-headline text-2xl text-text-dark">—</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {errorText && (
+                <div className="mt-6 rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+                  <HoverTranslationText text={errorText.en} translation={errorText.zh} />
+                </div>
+              )}
+
+              <button
+                onClick={onExit}
+                className="mt-8 w-full rounded-2xl bg-electric-blue px-4 py-4 font-headline text-sm uppercase tracking-[0.3em] text-charcoal transition-transform hover:-translate-y-1"
+              >
+                <HoverTranslationText text="Return to Dashboard" translation="返回主界面" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PuzzleDuelMode;
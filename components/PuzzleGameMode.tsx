@@ -18,12 +18,36 @@ import {
   normalizePuzzleAnswer,
   selectPuzzleWords,
 } from '../services/puzzleGame';
+import { gameResultsToReviewLog, submitWordReviews } from '../services/dataService';
+import { startVerifiedRound } from '../services/roundVerification';
+import type { SignedRoundTicket } from '../supabase/functions/verify-round/roundScoring';
+
+/**
+ * Head-to-head duel (PuzzleDuelMode): the cards are fixed, both players
+ * start together and each sees the other's solved cards. Duel rounds are
+ * never ranked on the puzzle leaderboard; their ticket is bound to the
+ * duel, and verify-round scores them for the duel only.
+ */
+export interface PuzzleDuelBinding {
+  duelId: string;
+  cards: WordEntry[];
+  opponentName: string;
+  opponentReady: boolean;
+  opponentSolvedIds: string[];
+  /** Local Date.now() at which the shared round starts; null until the host starts it */
+  startAtMs: number | null;
+  /** Host only */
+  onRequestStart?: () => void;
+  onReady: () => void;
+  onCardSolved: (wordId: string, solvedAtMs: number) => void;
+}
 
 interface PuzzleGameModeProps {
   allWords: WordEntry[];
   sessions: InputSession[];
   onComplete: (summary: PuzzleGameSummary) => Promise<void> | void;
   onCancel: () => void;
+  duel?: PuzzleDuelBinding;
 }
 
 const TOTAL_SECONDS = 90;
@@ -47,7 +71,7 @@ const formatClock = (seconds: number) => {
   return `${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
 };
 
-const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onComplete, onCancel }) => {
+const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onComplete, onCancel, duel }) => {
   const [phase, setPhase] = useState<PuzzleGamePhase>('INTRO');
   const [selectionMode, setSelectionMode] = useState<PuzzleGameSelectionMode>('random');
   const [selectionOverlapRate, setSelectionOverlapRate] = useState(0);
@@ -70,9 +94,11 @@ const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onC
   const thirtySecondAlertRef = useRef(false);
   const inputRefs = useRef<Record<string, HTMLInputElement | null>>({});
   const finalizeGuardRef = useRef(false);
+  // Server ticket for ranked rounds, requested as the countdown starts
+  const roundTicketRef = useRef<Promise<SignedRoundTicket | null> | null>(null);
 
   const candidateCount = useMemo(() => getPuzzleCandidateWords(allWords).length, [allWords]);
-  const canPrepare = candidateCount >= 9;
+  const canPrepare = duel ? duel.cards.length >= 9 : candidateCount >= 9;
 
   useEffect(() => {
     if (phase !== 'PLAYING') {
@@ -162,10 +188,22 @@ const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onC
     setPreparationError(null);
     setPhase('PREPARING');
 
-    const smartSelectionEnabled = localStorage.getItem('vibe_ai_selection') === 'true';
-    setSelectionMessage(smartSelectionEnabled ? 'Smart Selection Assistant is choosing 9 image words...' : 'Random selection is choosing 9 image words...');
+    const smartSelectionEnabled = !duel && localStorage.getItem('vibe_ai_selection') === 'true';
+    setSelectionMessage(
+      duel
+        ? 'Loading the duel cards...'
+        : smartSelectionEnabled ? 'Smart Selection Assistant is choosing 9 image words...' : 'Random selection is choosing 9 image words...'
+    );
 
-    const selection = selectPuzzleWords(allWords, sessions, smartSelectionEnabled, 9);
+    const selection = duel
+      ? {
+        words: duel.cards,
+        selectionMode: 'random' as const,
+        overlapRate: 0,
+        rankingEligible: false,
+        rankingIneligibleReason: 'Duel rounds count towards the duel ranking only.',
+      }
+      : selectPuzzleWords(allWords, sessions, smartSelectionEnabled, 9);
     setSelectionMode(selection.selectionMode);
     setSelectionOverlapRate(selection.overlapRate);
     setRankingEligible(selection.rankingEligible);
@@ -207,11 +245,22 @@ const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onC
 
     setSelectionMessage(`All ${selection.words.length} audio files are ready.`);
     setPhase('READY');
+    duel?.onReady();
+  };
+
+  const beginPlaying = () => {
+    finalizeGuardRef.current = false;
+    thirtySecondAlertRef.current = false;
+    gameStartTimeRef.current = Date.now();
+    setTimeLeft(TOTAL_SECONDS);
+    setBannerMessage('GO!');
+    setPhase('PLAYING');
   };
 
   const startCountdown = () => {
     setPhase('COUNTDOWN');
     setCountdownValue(3);
+    roundTicketRef.current = startVerifiedRound('PUZZLE', selectedWords.map((word) => word.id));
 
     if (countdownTimerRef.current) {
       window.clearInterval(countdownTimerRef.current);
@@ -223,14 +272,7 @@ const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onC
           if (countdownTimerRef.current) {
             window.clearInterval(countdownTimerRef.current);
           }
-          setTimeout(() => {
-            finalizeGuardRef.current = false;
-            thirtySecondAlertRef.current = false;
-            gameStartTimeRef.current = Date.now();
-            setTimeLeft(TOTAL_SECONDS);
-            setBannerMessage('GO!');
-            setPhase('PLAYING');
-          }, 250);
+          setTimeout(beginPlaying, 250);
           return 0;
         }
         return current - 1;
@@ -238,6 +280,39 @@ const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onC
     }, 900);
   };
 
+  // Duels load their fixed cards straight away
+  useEffect(() => {
+    if (duel && phase === 'INTRO') {
+      void prepareGame();
+    }
+  }, []);
+
+  // Duels count down to the shared start instead of a local button press
+  const duelStartAtMs = duel?.startAtMs ?? null;
+  useEffect(() => {
+    if (duelStartAtMs == null || phase !== 'READY') return;
+
+    setPhase('COUNTDOWN');
+    roundTicketRef.current = startVerifiedRound('PUZZLE', selectedWords.map((word) => word.id), { duelId: duel?.duelId });
+    const tick = () => {
+      const remainingMs = duelStartAtMs - Date.now();
+      if (remainingMs <= 0) {
+        if (countdownTimerRef.current) {
+          window.clearInterval(countdownTimerRef.current);
+        }
+        beginPlaying();
+        return;
+      }
+      setCountdownValue(Math.min(3, Math.ceil(remainingMs / 1000)));
+    };
+
+    if (countdownTimerRef.current) {
+      window.clearInterval(countdownTimerRef.current);
+    }
+    tick();
+    countdownTimerRef.current = window.setInterval(tick, 100);
+  }, [duelStartAtMs, phase]);
+
   const updateCard = (wordId: string, updater: (card: PuzzleGameCardState) => PuzzleGameCardState) => {
     setCards((previous) => previous.map((card) => (card.word.id === wordId ? updater(card) : card)));
   };
@@ -246,12 +321,15 @@ const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onC
     if (phase !== 'PLAYING' || card.isSolved || card.isLocked) return;
 
     setActiveCardId(card.word.id);
-    const activatedAtMs = card.activatedAtMs ?? (gameStartTimeRef.current ? Date.now() - gameStartTimeRef.current : 0);
-    updateCard(card.word.id, (current) => ({
-      ...current,
-      isInputOpen: true,
-      activatedAtMs,
-    }));
+    // One card is open at a time and its window restarts on every activation,
+    // so solved cards' activation → solve windows never overlap
+    // (verify-round rejects a PUZZLE log where they do).
+    const activatedAtMs = gameStartTimeRef.current ? Date.now() - gameStartTimeRef.current : 0;
+    setCards((previous) => previous.map((current) => (
+      current.word.id === card.word.id
+        ? { ...current, isInputOpen: true, activatedAtMs }
+        : current.isInputOpen ? { ...current, isInputOpen: false } : current
+    )));
 
     setTimeout(() => inputRefs.current[card.word.id]?.focus(), 0);
     await playWordPronunciation(card.word.text, card.word.language || 'en');
@@ -297,6 +375,7 @@ const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onC
       }));
       setActiveCardId(nextPlayableCard?.word.id || null);
       playDing();
+      duel?.onCardSolved(card.word.id, solvedAtMs);
       return;
     }
 
@@ -329,14 +408,17 @@ const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onC
       activatedAtMs: card.activatedAtMs,
     }));
 
-    const summary = calculatePuzzleGameSummary(
-      results,
-      elapsedMs,
-      selectionMode,
-      selectionOverlapRate,
-      rankingEligible,
-      rankingIneligibleReason,
-    );
+    const summary: PuzzleGameSummary = {
+      ...calculatePuzzleGameSummary(
+        results,
+        elapsedMs,
+        selectionMode,
+        selectionOverlapRate,
+        rankingEligible,
+        rankingIneligibleReason,
+      ),
+      roundTicket: await (roundTicketRef.current ?? Promise.resolve(null)),
+    };
     setResult(summary);
     setPhase('RESULT');
 
@@ -344,6 +426,15 @@ const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onC
       setBannerMessage('Time up');
     }
 
+    // Log every card to the review history, ranked or not (non-fatal).
+    // Duel cards can be the other player's words, so duels are skipped.
+    if (!duel) {
+      void submitWordReviews(
+        gameResultsToReviewLog('PUZZLE', summary.results),
+        summary.roundTicket?.ticket.roundId ?? crypto.randomUUID(),
+      );
+    }
+
     setIsSubmitting(true);
     try {
       await onComplete(summary);
@@ -395,9 +486,13 @@ const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onC
       <div className="relative flex h-[100dvh] flex-col px-4 pb-4 pt-20 md:px-8 md:pb-6 md:pt-24">
         <div className="sticky top-16 z-30 mb-4 flex shrink-0 items-start justify-between gap-4 bg-[linear-gradient(180deg,rgba(12,14,18,0.94),rgba(12,14,18,0.72),transparent)] pb-3 backdrop-blur-sm">
           <div>
-            <div className="text-xs font-mono uppercase tracking-[0.35em] text-electric-green/80">OPTION 3</div>
+            <div className="text-xs font-mono uppercase tracking-[0.35em] text-electric-green/80">{duel ? 'OPTION 11' : 'OPTION 3'}</div>
             <h2 className="font-headline text-3xl text-white md:text-4xl">
-              <HoverTranslationText text="Puzzle Game" translation="字谜游戏" />
+              {duel ? (
+                <HoverTranslationText text="Puzzle Duel" translation="字谜对战" />
+              ) : (
+                <HoverTranslationText text="Puzzle Game" translation="字谜游戏" />
+              )}
             </h2>
           </div>
           <button
@@ -540,17 +635,44 @@ const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onC
                   </p>
                 </div>
 
-                <button
-                  onClick={startCountdown}
-                  className="rounded-[28px] border border-electric-green/30 bg-electric-green/10 px-6 py-10 text-center text-charcoal animate-pulse shadow-[0_0_40px_rgba(163,255,0,0.15)]"
-                >
-                  <div className="font-headline text-3xl uppercase tracking-[0.28em] text-electric-green">
-                    <HoverTranslationText text="Start Game" translation="开始游戏" />
-                  </div>
-                  <div className="mt-3 text-xs font-mono uppercase tracking-[0.28em] text-electric-green/80">
-                    <HoverTranslationText text="Breathing button means everything is loaded." translation="按钮呼吸闪烁表示资源已全部就绪。" />
-                  </div>
-                </button>
+                {duel ? (
+                  <button
+                    onClick={duel.onRequestStart}
+                    disabled={!duel.onRequestStart || !duel.opponentReady}
+                    className={`rounded-[28px] border px-6 py-10 text-center text-charcoal ${
+                      duel.onRequestStart && duel.opponentReady
+                        ? 'border-electric-green/30 bg-electric-green/10 animate-pulse shadow-[0_0_40px_rgba(163,255,0,0.15)]'
+                        : 'cursor-not-allowed border-mid-charcoal bg-light-charcoal/20'
+                    }`}
+                  >
+                    <div className="font-headline text-3xl uppercase tracking-[0.28em] text-electric-green">
+                      {duel.onRequestStart ? (
+                        <HoverTranslationText text="Start Duel" translation="开始对战" />
+                      ) : (
+                        <HoverTranslationText text="Waiting for Host" translation="等待房主开始" />
+                      )}
+                    </div>
+                    <div className="mt-3 text-xs font-mono uppercase tracking-[0.28em] text-electric-green/80">
+                      {duel.opponentReady ? (
+                        <HoverTranslationText text={`${duel.opponentName} is ready.`} translation={`${duel.opponentName} 已就绪。`} />
+                      ) : (
+                        <HoverTranslationText text={`${duel.opponentName} is still loading...`} translation={`${duel.opponentName} 仍在加载...`} />
+                      )}
+                    </div>
+                  </button>
+                ) : (
+                  <button
+                    onClick={startCountdown}
+                    className="rounded-[28px] border border-electric-green/30 bg-electric-green/10 px-6 py-10 text-center text-charcoal animate-pulse shadow-[0_0_40px_rgba(163,255,0,0.15)]"
+                  >
+                    <div className="font-headline text-3xl uppercase tracking-[0.28em] text-electric-green">
+                      <HoverTranslationText text="Start Game" translation="开始游戏" />
+                    </div>
+                    <div className="mt-3 text-xs font-mono uppercase tracking-[0.28em] text-electric-green/80">
+                      <HoverTranslationText text="Breathing button means everything is loaded." translation="按钮呼吸闪烁表示资源已全部就绪。" />
+                    </div>
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -598,10 +720,17 @@ const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onC
                 <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">Solved</div>
                 <div className="mt-1 font-headline text-2xl text-electric-green">{cards.filter((card) => card.isSolved).length}/9</div>
               </div>
-              <div className="rounded-2xl border border-mid-charcoal bg-light-charcoal/30 px-4 py-3 text-center">
-                <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">Mode</div>
-                <div className="mt-1 font-headline text-xl text-white">{selectionMode === 'smart' ? 'SMART' : 'RANDOM'}</div>
-              </div>
+              {duel ? (
+                <div className="rounded-2xl border border-electric-blue/30 bg-electric-blue/10 px-4 py-3 text-center">
+                  <div className="max-w-[9rem] truncate text-xs font-mono uppercase tracking-[0.3em] text-electric-blue/80">{duel.opponentName}</div>
+                  <div className="mt-1 font-headline text-2xl text-electric-blue">{duel.opponentSolvedIds.length}/9</div>
+                </div>
+              ) : (
+                <div className="rounded-2xl border border-mid-charcoal bg-light-charcoal/30 px-4 py-3 text-center">
+                  <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">Mode</div>
+                  <div className="mt-1 font-headline text-xl text-white">{selectionMode === 'smart' ? 'SMART' : 'RANDOM'}</div>
+                </div>
+              )}
             </div>
 
             <div className="grid min-h-0 grid-cols-3 gap-3">
@@ -623,6 +752,12 @@ const PuzzleGameMode: React.FC<PuzzleGameModeProps> = ({ allWords, sessions, onC
                     }`}
                     style={{ gridTemplateRows: '1fr auto' }}
                   >
+                    {duel?.opponentSolvedIds.includes(card.word.id) && (
+                      <div className="absolute left-3 top-3 z-20 rounded-full border border-electric-blue/40 bg-dark-charcoal/80 px-2 py-1 text-[10px] font-mono uppercase tracking-[0.2em] text-electric-blue">
+                        <HoverTranslationText text="Rival solved" translation="对手已答对" />
+                      </div>
+                    )}
+
                     {isActiveCard && (
                       <div className="pointer-events-none absolute inset-0 z-10 rounded-[28px] border border-electric-blue/70 animate-pulse shadow-[0_0_0_1px_rgba(96,165,250,0.55),0_0_22px_rgba(96,165,250,0.4),0_0_42px_rgba(96,165,250,0.22)]" />
                     )}
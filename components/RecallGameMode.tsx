@@ -0,0 +1,556 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { HoverTranslationText } from './HoverTranslationText';
+import { RecallLeaderboardPanel } from './RecallLeaderboardPanel';
+import { playWordPronunciation, stopCurrentAudio } from '../services/pronunciationService';
+import { playBuzzer, playDing } from '../utils/audioFeedback';
+import {
+  InputSession,
+  PuzzleGameSelectionMode,
+  RecallCardResult,
+  RecallGamePhase,
+  RecallGameSummary,
+  RecallPrompt,
+  WordEntry,
+} from '../types';
+import {
+  buildRecallHint,
+  buildRecallPrompts,
+  calculateRecallGameSummary,
+  checkRecallAnswer,
+  RECALL_MAX_ATTEMPTS,
+  RECALL_POS_LABELS,
+  RECALL_TOTAL_SECONDS,
+  RECALL_TOTAL_WORDS,
+} from '../utils/meaningRecall';
+import { getRecallCandidateWords, selectRecallWords } from '../services/recallGame';
+import { gameResultsToReviewLog, submitWordReviews } from '../services/dataService';
+import { startVerifiedRound } from '../services/roundVerification';
+import type { SignedRoundTicket } from '../supabase/functions/verify-round/roundScoring';
+
+interface RecallGameModeProps {
+  allWords: WordEntry[];
+  sessions: InputSession[];
+  onComplete: (summary: RecallGameSummary) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+interface RecallCardState {
+  word: WordEntry;
+  prompt: RecallPrompt;
+  attemptsUsed: number;
+  hintUsed: boolean;
+  isSolved: boolean;
+  isLocked: boolean;
+  activatedAtMs: number | null;
+  solvedAtMs: number | null;
+}
+
+type RecallFeedback =
+  | { kind: 'correct' | 'revealed'; word: string }
+  | { kind: 'synonym'; typed: string }
+  | { kind: 'wrong'; attemptsLeft: number };
+
+// How long the answer stays on screen before the next prompt
+const REVEAL_DELAY_MS = 1100;
+
+const formatClock = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+};
+
+const posLabel = (pos: string | null) => (pos ? RECALL_POS_LABELS[pos] || pos : null);
+
+/**
+ * RecallGameMode - Meaning recall (reverse) test
+ * Shows the selected Chinese meaning with its part of speech and asks for
+ * the English spelling. Prompts shared with other library words get extra
+ * clues, and typing one of those other words asks again without costing an
+ * attempt.
+ */
+const RecallGameMode: React.FC<RecallGameModeProps> = ({ allWords, sessions, onComplete, onCancel }) => {
+  const [phase, setPhase] = useState<RecallGamePhase>('INTRO');
+  const [selectionMode, setSelectionMode] = useState<PuzzleGameSelectionMode>('random');
+  const [selectionOverlapRate, setSelectionOverlapRate] = useState(0);
+  const [rankingEligible, setRankingEligible] = useState(true);
+  const [rankingIneligibleReason, setRankingIneligibleReason] = useState<string | null>(null);
+  const [cards, setCards] = useState<RecallCardState[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [inputValue, setInputValue] = useState('');
+  const [feedback, setFeedback] = useState<RecallFeedback | null>(null);
+  const [timeLeft, setTimeLeft] = useState(RECALL_TOTAL_SECONDS);
+  const [preparationError, setPreparationError] = useState<string | null>(null);
+  const [result, setResult] = useState<RecallGameSummary | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const gameStartTimeRef = useRef<number | null>(null);
+  const roundTicketRef = useRef<Promise<SignedRoundTicket | null> | null>(null);
+  const advanceTimerRef = useRef<number | null>(null);
+  const finalizeGuardRef = useRef(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const candidateCount = useMemo(() => getRecallCandidateWords(allWords).length, [allWords]);
+  const canStart = candidateCount >= RECALL_TOTAL_WORDS;
+  const card = cards[currentIndex] as RecallCardState | undefined;
+  const isRevealing = feedback?.kind === 'correct' || feedback?.kind === 'revealed';
+
+  const elapsedMs = () => (gameStartTimeRef.current ? Date.now() - gameStartTimeRef.current : 0);
+
+  useEffect(() => {
+    return () => {
+      if (advanceTimerRef.current) window.clearTimeout(advanceTimerRef.current);
+      void stopCurrentAudio();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (phase !== 'PLAYING') return;
+
+    const timer = window.setInterval(() => {
+      if (gameStartTimeRef.current == null) return;
+      const nextTimeLeft = Math.max(RECALL_TOTAL_SECONDS - Math.floor(elapsedMs() / 1000), 0);
+      setTimeLeft(nextTimeLeft);
+      if (nextTimeLeft <= 0) {
+        window.clearInterval(timer);
+        void finishGame(cards);
+      }
+    }, 250);
+
+    return () => window.clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phase, cards]);
+
+  // Stamp the activation time of each prompt as it comes up
+  useEffect(() => {
+    if (phase !== 'PLAYING' || !card || card.activatedAtMs != null) return;
+    const activatedAtMs = elapsedMs();
+    setCards((previous) => previous.map((c, i) => (i === currentIndex ? { ...c, activatedAtMs } : c)));
+    setTimeout(() => inputRef.current?.focus(), 0);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phase, currentIndex]);
+
+  const startGame = () => {
+    if (!canStart) return;
+    setPreparationError(null);
+
+    const smartSelectionEnabled = localStorage.getItem('vibe_ai_selection') === 'true';
+    const selection = selectRecallWords(allWords, sessions, smartSelectionEnabled, RECALL_TOTAL_WORDS);
+    const prompts = buildRecallPrompts(selection.words, allWords);
+    if (prompts.length < RECALL_TOTAL_WORDS) {
+      setPreparationError('Not enough words with a Chinese meaning in your library yet.');
+      return;
+    }
+
+    const promptById = new Map(prompts.map((prompt) => [prompt.wordId, prompt]));
+    setSelectionMode(selection.selectionMode);
+    setSelectionOverlapRate(selection.overlapRate);
+    setRankingEligible(selection.rankingEligible);
+    setRankingIneligibleReason(selection.rankingIneligibleReason || null);
+    setCards(selection.words.map((word) => ({
+      word,
+      prompt: promptById.get(word.id)!,
+      attemptsUsed: 0,
+      hintUsed: false,
+      isSolved: false,
+      isLocked: false,
+      activatedAtMs: null,
+      solvedAtMs: null,
+    })));
+    setCurrentIndex(0);
+    setInputValue('');
+    setFeedback(null);
+    finalizeGuardRef.current = false;
+    roundTicketRef.current = startVerifiedRound('RECALL', selection.words.map((word) => word.id));
+    gameStartTimeRef.current = Date.now();
+    setTimeLeft(RECALL_TOTAL_SECONDS);
+    setPhase('PLAYING');
+  };
+
+  const finishGame = async (finalCards: RecallCardState[]) => {
+    if (finalizeGuardRef.current) return;
+    finalizeGuardRef.current = true;
+    if (advanceTimerRef.current) window.clearTimeout(advanceTimerRef.current);
+    await stopCurrentAudio();
+
+    const results: RecallCardResult[] = finalCards.map((c) => ({
+      wordId: c.word.id,
+      wordText: c.word.text,
+      correct: c.isSolved,
+      attemptsUsed: c.attemptsUsed,
+      hintUsed: c.hintUsed,
+      ambiguous: c.prompt.ambiguous,
+      solvedAtMs: c.solvedAtMs,
+      activatedAtMs: c.activatedAtMs,
+    }));
+
+    const summary: RecallGameSummary = {
+      ...calculateRecallGameSummary(
+        results,
+        elapsedMs(),
+        selectionMode,
+        selectionOverlapRate,
+        rankingEligible,
+        rankingIneligibleReason,
+      ),
+      roundTicket: await (roundTicketRef.current ?? Promise.resolve(null)),
+    };
+    setResult(summary);
+    setPhase('RESULT');
+
+    // Log every prompt to the review history, ranked or not (non-fatal)
+    void submitWordReviews(
+      gameResultsToReviewLog('RECALL', summary.results),
+      summary.roundTicket?.ticket.roundId ?? crypto.randomUUID(),
+    );
+
+    setIsSubmitting(true);
+    try {
+      await onComplete(summary);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /** Show the answer briefly, then move on (or finish after the last prompt) */
+  const revealAndAdvance = (nextCards: RecallCardState[]) => {
+    void playWordPronunciation(nextCards[currentIndex].word.text, nextCards[currentIndex].word.language || 'en');
+    advanceTimerRef.current = window.setTimeout(() => {
+      if (currentIndex >= nextCards.length - 1) {
+        void finishGame(nextCards);
+        return;
+      }
+      setCurrentIndex(currentIndex + 1);
+      setInputValue('');
+      setFeedback(null);
+    }, REVEAL_DELAY_MS);
+  };
+
+  const submitAnswer = () => {
+    if (phase !== 'PLAYING' || !card || isRevealing || !inputValue.trim()) return;
+
+    const verdict = checkRecallAnswer(card.prompt, card.word.text, inputValue);
+    if (verdict === 'synonym') {
+      setFeedback({ kind: 'synonym', typed: inputValue.trim() });
+      setInputValue('');
+      return;
+    }
+
+    const attemptsUsed = card.attemptsUsed + 1;
+    if (verdict === 'correct') {
+      playDing();
+      const nextCards = cards.map((c, i) => (i === currentIndex ? { ...c, attemptsUsed, isSolved: true, isLocked: true, solvedAtMs: elapsedMs() } : c));
+      setCards(nextCards);
+      setFeedback({ kind: 'correct', word: card.word.text });
+      revealAndAdvance(nextCards);
+      return;
+    }
+
+    playBuzzer();
+    const isLocked = attemptsUsed >= RECALL_MAX_ATTEMPTS;
+    const nextCards = cards.map((c, i) => (i === currentIndex ? { ...c, attemptsUsed, isLocked } : c));
+    setCards(nextCards);
+    setInputValue('');
+    if (isLocked) {
+      setFeedback({ kind: 'revealed', word: card.word.text });
+      revealAndAdvance(nextCards);
+    } else {
+      setFeedback({ kind: 'wrong', attemptsLeft: RECALL_MAX_ATTEMPTS - attemptsUsed });
+    }
+  };
+
+  const giveUp = () => {
+    if (phase !== 'PLAYING' || !card || isRevealing) return;
+    const nextCards = cards.map((c, i) => (i === currentIndex ? { ...c, attemptsUsed: Math.max(c.attemptsUsed, 1), isLocked: true } : c));
+    setCards(nextCards);
+    setFeedback({ kind: 'revealed', word: card.word.text });
+    revealAndAdvance(nextCards);
+  };
+
+  const useHint = () => {
+    if (phase !== 'PLAYING' || !card || card.hintUsed || isRevealing) return;
+    setCards((previous) => previous.map((c, i) => (i === currentIndex ? { ...c, hintUsed: true } : c)));
+    inputRef.current?.focus();
+  };
+
+  const summaryCards = result
+    ? [
+        { labelEn: 'Total Score', labelZh: '总分', value: Math.round(result.totalScore) },
+        { labelEn: 'Accuracy', labelZh: '正确率', value: `${Math.round(result.accuracyRate * 100)}%` },
+        { labelEn: 'Time Used', labelZh: '用时', value: `${result.timeUsedSeconds}s` },
+        { labelEn: 'Hint Usage', labelZh: '提示使用', value: `${result.hintsUsed}/${result.wordsTotal}` },
+      ]
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-[90] overflow-hidden bg-[radial-gradient(circle_at_top,_rgba(251,191,36,0.12),_transparent_28%),linear-gradient(180deg,_rgba(9,12,16,0.96),_rgba(12,14,18,1))]">
+      <div className="relative flex h-[100dvh] flex-col px-4 pb-4 pt-20 md:px-8 md:pb-6 md:pt-24">
+        <div className="sticky top-16 z-30 mb-4 flex shrink-0 items-start justify-between gap-4 pb-3">
+          <div>
+            <div className="text-xs font-mono uppercase tracking-[0.35em] text-amber-300/80">OPTION 6</div>
+            <h2 className="font-headline text-3xl text-white md:text-4xl">
+              <HoverTranslationText text="Meaning Recall" translation="释义回忆" />
+            </h2>
+          </div>
+          <button
+            onClick={onCancel}
+            className="rounded-2xl border border-mid-charcoal bg-dark-charcoal/70 px-4 py-2 text-xs font-mono uppercase tracking-[0.25em] text-text-light transition-colors hover:border-white hover:text-white"
+          >
+            <HoverTranslationText text="Exit" translation="退出" />
+          </button>
+        </div>
+
+        {phase === 'INTRO' && (
+          <div className="flex flex-1 items-center justify-center">
+            <div className="w-full max-w-3xl rounded-[32px] border border-mid-charcoal bg-dark-charcoal/80 p-8 shadow-2xl backdrop-blur-md md:p-10">
+              <div className="grid gap-8 md:grid-cols-[1.15fr_0.85fr]">
+                <div className="space-y-5">
+                  <p className="text-sm leading-7 text-text-light md:text-base">
+                    <HoverTranslationText
+                      text="Read the Chinese meaning and type the English word. The part of speech is always shown; when a meaning fits several of your words you also get the first letter and length."
+                      translation="看中文释义，写出英文单词。始终标注词性；若该释义对应你词库中的多个单词，还会给出首字母和长度。"
+                    />
+                  </p>
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <div className="rounded-3xl border border-mid-charcoal bg-light-charcoal/30 p-4">
+                      <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">Words</div>
+                      <div className="mt-2 text-2xl font-headline text-white">{RECALL_TOTAL_WORDS}</div>
+                    </div>
+                    <div className="rounded-3xl border border-mid-charcoal bg-light-charcoal/30 p-4">
+                      <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">Timer</div>
+                      <div className="mt-2 text-2xl font-headline text-white">{RECALL_TOTAL_SECONDS}s</div>
+                    </div>
+                    <div className="rounded-3xl border border-mid-charcoal bg-light-charcoal/30 p-4">
+                      <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">Attempts</div>
+                      <div className="mt-2 text-2xl font-headline text-white">{RECALL_MAX_ATTEMPTS} / word</div>
+                    </div>
+                    <div className="rounded-3xl border border-mid-charcoal bg-light-charcoal/30 p-4">
+                      <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">Hint</div>
+                      <div className="mt-2 text-2xl font-headline text-white">1 pattern</div>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="rounded-[28px] border border-amber-400/25 bg-amber-500/5 p-6">
+                  <div className="text-xs font-mono uppercase tracking-[0.3em] text-amber-300/70">
+                    <HoverTranslationText text="Preparation" translation="准备状态" />
+                  </div>
+                  <div className="mt-4 text-sm leading-7 text-text-light">
+                    <HoverTranslationText
+                      text={`Words with a Chinese meaning: ${candidateCount}. You need at least ${RECALL_TOTAL_WORDS} to start.`}
+                      translation={`当前带中文释义的单词：${candidateCount}。至少需要 ${RECALL_TOTAL_WORDS} 个才能开始。`}
+                    />
+                  </div>
+                  <button
+                    onClick={startGame}
+                    disabled={!canStart}
+                    className={`mt-8 w-full rounded-2xl px-5 py-4 font-headline text-sm uppercase tracking-[0.3em] transition-all ${
+                      canStart
+                        ? 'bg-amber-400 text-charcoal hover:-translate-y-1 hover:shadow-[0_0_30px_rgba(251,191,36,0.25)]'
+                        : 'cursor-not-allowed bg-mid-charcoal text-text-dark'
+                    }`}
+                  >
+                    <HoverTranslationText text="Start Recall Run" translation="开始回忆" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {phase === 'PLAYING' && card && (
+          <div className="flex flex-1 flex-col items-center gap-4 overflow-y-auto">
+            <div className="grid w-full max-w-3xl grid-cols-3 gap-3">
+              <div className="rounded-2xl border border-mid-charcoal bg-dark-charcoal/70 px-4 py-3 text-center">
+                <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">
+                  <HoverTranslationText text="Clock" translation="计时" />
+                </div>
+                <div className={`mt-1 font-headline text-3xl ${timeLeft <= 10 ? 'text-red-400' : 'text-white'}`}>{formatClock(timeLeft)}</div>
+              </div>
+              <div className="rounded-2xl border border-mid-charcoal bg-dark-charcoal/70 px-4 py-3 text-center">
+                <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">Word</div>
+                <div className="mt-1 font-headline text-3xl text-amber-300">{currentIndex + 1}/{cards.length}</div>
+              </div>
+              <div className="rounded-2xl border border-mid-charcoal bg-dark-charcoal/70 px-4 py-3 text-center">
+                <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">Solved</div>
+                <div className="mt-1 font-headline text-3xl text-electric-green">{cards.filter((c) => c.isSolved).length}</div>
+              </div>
+            </div>
+
+            <div className="w-full max-w-3xl space-y-6 rounded-[32px] border border-amber-400/20 bg-dark-charcoal/85 p-8 shadow-2xl">
+              <div className="flex flex-wrap items-center justify-center gap-2">
+                {posLabel(card.prompt.partOfSpeech) && (
+                  <span className="rounded-full border border-amber-400/40 bg-amber-500/10 px-3 py-1 font-mono text-xs text-amber-300">
+                    {posLabel(card.prompt.partOfSpeech)}
+                  </span>
+                )}
+                {card.prompt.hasSeveralMeanings && (
+                  <span className="rounded-full border border-mid-charcoal px-3 py-1 font-mono text-xs text-text-dark">
+                    <HoverTranslationText text="One of several meanings" translation="多义词 · 按此释义作答" />
+                  </span>
+                )}
+              </div>
+
+              <div className="text-center font-headline text-4xl leading-snug text-white md:text-5xl">{card.prompt.meaningZh}</div>
+
+              {card.prompt.ambiguous && (
+                <div className="rounded-2xl border border-amber-400/25 bg-amber-500/5 px-4 py-3 text-center text-sm text-text-light">
+                  <HoverTranslationText
+                    text={`This meaning fits several of your words. It starts with "${card.prompt.firstLetter}" and has ${card.prompt.letterCount} letters.`}
+                    translation={`该释义对应你词库中的多个单词：首字母 “${card.prompt.firstLetter}”，共 ${card.prompt.letterCount} 个字符。`}
+                  />
+                  {card.prompt.definitionEn && (
+                    <div className="mt-2 font-mono text-xs text-text-dark">{card.prompt.definitionEn}</div>
+                  )}
+                </div>
+              )}
+
+              {card.hintUsed && !isRevealing && (
+                <div className="text-center font-mono text-2xl tracking-[0.3em] text-amber-300">{buildRecallHint(card.word.text)}</div>
+              )}
+
+              {isRevealing ? (
+                <div className={`text-center font-headline text-4xl ${feedback?.kind === 'correct' ? 'text-electric-green' : 'text-red-300'}`}>
+                  {card.word.text}
+                </div>
+              ) : (
+                <input
+                  ref={inputRef}
+                  value={inputValue}
+                  onChange={(event) => setInputValue(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') submitAnswer();
+                  }}
+                  autoComplete="off"
+                  autoCapitalize="off"
+                  spellCheck={false}
+                  placeholder="type the English word"
+                  className="w-full rounded-2xl border border-white/10 bg-black/40 px-5 py-4 text-center font-serif text-2xl text-white outline-none focus:border-amber-400"
+                />
+              )}
+
+              <div className="min-h-[1.5rem] text-center font-mono text-xs">
+                {feedback?.kind === 'synonym' && (
+                  <span className="text-amber-300">
+                    <HoverTranslationText
+                      text={`"${feedback.typed}" also fits this meaning — we're looking for another word. No attempt used.`}
+                      translation={`“${feedback.typed}” 也符合该释义，但这里要的是另一个单词。不扣次数。`}
+                    />
+                  </span>
+                )}
+                {feedback?.kind === 'wrong' && (
+                  <span className="text-red-300">
+                    <HoverTranslationText text={`Not quite. ${feedback.attemptsLeft} attempts left.`} translation={`不对，还剩 ${feedback.attemptsLeft} 次机会。`} />
+                  </span>
+                )}
+              </div>
+
+              <div className="flex justify-center gap-3">
+                <button
+                  onClick={useHint}
+                  disabled={card.hintUsed || isRevealing}
+                  className="rounded-2xl border border-amber-400/30 px-5 py-3 font-mono text-xs uppercase tracking-[0.25em] text-amber-300 transition-colors hover:bg-amber-500/10 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  <HoverTranslationText text="Hint" translation="提示" />
+                </button>
+                <button
+                  onClick={giveUp}
+                  disabled={isRevealing}
+                  className="rounded-2xl border border-mid-charcoal px-5 py-3 font-mono text-xs uppercase tracking-[0.25em] text-text-light transition-colors hover:border-white disabled:opacity-40"
+                >
+                  <HoverTranslationText text="Show Answer" translation="看答案" />
+                </button>
+                <button
+                  onClick={submitAnswer}
+                  disabled={isRevealing || !inputValue.trim()}
+                  className="rounded-2xl bg-amber-400 px-6 py-3 font-headline text-sm uppercase tracking-[0.25em] text-charcoal transition-transform hover:-translate-y-0.5 disabled:opacity-40"
+                >
+                  <HoverTranslationText text="Submit" translation="提交" />
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {phase === 'RESULT' && result && (
+          <div className="flex flex-1 items-start justify-center overflow-y-auto py-4">
+            <div className="w-full max-w-4xl rounded-[34px] border border-mid-charcoal bg-dark-charcoal/85 p-8 shadow-2xl backdrop-blur-md md:p-10">
+              <div className="grid gap-8 md:grid-cols-[1.2fr_0.8fr]">
+                <div>
+                  <div className="text-xs font-mono uppercase tracking-[0.35em] text-amber-300/80">
+                    <HoverTranslationText text="Round Complete" translation="本局完成" />
+                  </div>
+                  <div className="mt-6 grid gap-3 sm:grid-cols-2">
+                    {summaryCards.map((item) => (
+                      <div key={item.labelEn} className="rounded-3xl border border-mid-charcoal bg-light-charcoal/25 p-4">
+                        <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">
+                          <HoverTranslationText text={item.labelEn} translation={item.labelZh} />
+                        </div>
+                        <div className="mt-2 font-headline text-3xl text-white">{item.value}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="mt-6 space-y-2 rounded-[28px] border border-mid-charcoal bg-light-charcoal/20 p-5 text-sm leading-7 text-text-light">
+                    {cards.map((c) => (
+                      <div key={c.word.id} className="flex items-center justify-between gap-3">
+                        <span className="truncate">{c.prompt.meaningZh}</span>
+                        <span className={`shrink-0 font-mono ${c.isSolved ? 'text-electric-green' : 'text-red-300'}`}>
+                          {c.word.text} {c.isSolved ? '✓' : '✗'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="mt-4 text-xs font-mono text-text-dark">
+                    <HoverTranslationText
+                      text={
+                        !result.rankingEligible
+                          ? `Overlap with today's earlier recall runs is ${Math.round(result.overlapRate * 100)}% — not ranked.`
+                          : isSubmitting
+                            ? 'Writing round data to the recall leaderboard...'
+                            : 'Round data has been sent to the recall leaderboard.'
+                      }
+                      translation={
+                        !result.rankingEligible
+                          ? `与今天更早回忆局的重复率为 ${Math.round(result.overlapRate * 100)}%，不计入排行榜。`
+                          : isSubmitting
+                            ? '正在将本局成绩写入释义回忆排行榜...'
+                            : '本局成绩已提交到释义回忆排行榜。'
+                      }
+                    />
+                  </div>
+
+                  <button
+                    onClick={onCancel}
+                    className="mt-6 w-full rounded-2xl bg-amber-400 px-4 py-4 font-headline text-sm uppercase tracking-[0.3em] text-charcoal transition-transform hover:-translate-y-1"
+                  >
+                    <HoverTranslationText text="Return to Dashboard" translation="返回主界面" />
+                  </button>
+                </div>
+
+                {/* Mounted after submission so the new round is already ranked */}
+                <div className="min-h-[360px]">
+                  {isSubmitting ? (
+                    <div className="flex h-full items-center justify-center text-text-dark">
+                      <span className="material-symbols-outlined animate-spin">progress_activity</span>
+                    </div>
+                  ) : (
+                    <RecallLeaderboardPanel />
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {preparationError && (
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 rounded-2xl border border-red-500/40 bg-red-500/15 px-4 py-3 text-sm text-red-200 shadow-2xl">
+            {preparationError}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecallGameMode;
@@ -28,6 +28,12 @@ import {
   selectSceneWords,
 } from '../services/sceneGame';
 import { fetchSceneTts } from '../services/sceneTts';
+import { gameResultsToReviewLog, submitWordReviews } from '../services/dataService';
+import { startVerifiedRound } from '../services/roundVerification';
+import { DailyChallenge, dailyChallengeWordEntries } from '../services/dailyChallenge';
+import { buildDailyShareCard } from '../utils/dailyChallenge';
+import { firstOpenPanel, orderWordsByPanels, panelIndexOfWords } from '../utils/sceneStory';
+import type { SignedRoundTicket } from '../supabase/functions/verify-round/roundScoring';
 
 interface SceneGameModeProps {
   allWords: WordEntry[];
@@ -36,9 +42,16 @@ interface SceneGameModeProps {
   onCancel: () => void;
   coinBalance?: number;
   onInsufficientCoins?: () => void;
+  /**
+   * Play today's shared challenge instead of the player's own words: fixed
+   * words and mascot, no coins, one ranked attempt, no replay, and a share
+   * card on the result screen.
+   */
+  dailyChallenge?: DailyChallenge;
 }
 
 const WORD_COUNT_KEY = 'vibe_scene_word_count';
+const STORY_MODE_KEY = 'vibe_scene_story_mode';
 
 const formatClock = (seconds: number) => {
   const mins = Math.floor(seconds / 60);
@@ -125,8 +138,9 @@ const sentenceForWord = (word: WordEntry, asset: SceneAsset | null): string | nu
 // tried to answer. No separate ReviewCard — keeps content + styling 1:1.
 // ----------------------------------------------------------------
 
-const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onComplete, onCancel, coinBalance = Infinity, onInsufficientCoins }) => {
-  const dayIndex = new Date().getDay();
+const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onComplete, onCancel, coinBalance = Infinity, onInsufficientCoins, dailyChallenge }) => {
+  const isDaily = Boolean(dailyChallenge);
+  const dayIndex = dailyChallenge ? dailyChallenge.dayIndex : new Date().getDay();
   const monsterImg = `/monsterImages/M${dayIndex}.webp`;
   const monsterName = MONSTER_NAMES[dayIndex] || MONSTER_NAMES[0];
 
@@ -136,6 +150,11 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
     return Number.isInteger(stored) && stored >= MIN_SCENE_WORDS && stored <= MAX_SCENE_WORDS ? stored : 6;
   });
 
+  /** Story chapters: a 3–4 panel picture story instead of one scene (never for the daily challenge). */
+  const [storyMode, setStoryMode] = useState<boolean>(
+    () => typeof window !== 'undefined' && window.localStorage.getItem(STORY_MODE_KEY) === 'true',
+  );
+
   const [selectedWords, setSelectedWords] = useState<WordEntry[]>([]);
   const [selectionMode, setSelectionMode] = useState<'smart' | 'random'>('random');
   const [overlapRate, setOverlapRate] = useState(0);
@@ -153,6 +172,10 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
    *  scene idea before play. Mirrors the AI-authored `storyboard` field sent on
    *  the `designed` event. Reset at the start of every run. */
   const [storyboard, setStoryboard] = useState<string | null>(null);
+  /** Story chapters: panels rendered so far during PREPARING (total 0 = single scene). */
+  const [panelsRendered, setPanelsRendered] = useState<{ done: number; total: number }>({ done: 0, total: 0 });
+  /** Story chapters: the panel shown in PLAYING (follows the active row, or the chapter buttons). */
+  const [viewedPanel, setViewedPanel] = useState(0);
 
   const [countdownValue, setCountdownValue] = useState(3);
   const [timeLeft, setTimeLeft] = useState(0);
@@ -165,6 +188,7 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
 
   const [result, setResult] = useState<SceneGameSummary | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [shareCopied, setShareCopied] = useState(false);
   /** Local toggle for the PREPARING-stage storyboard card (expanded vs. collapsed). */
   const [storyboardExpanded, setStoryboardExpanded] = useState(false);
 
@@ -196,6 +220,8 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
   // with an empty array, making the input permanently empty. Reading from
   // selectedWordsRef always gives us the latest list.
   const selectedWordsRef = useRef<WordEntry[]>([]);
+  // Server ticket for the ranking, requested as each countdown starts
+  const roundTicketRef = useRef<Promise<SignedRoundTicket | null> | null>(null);
 
   useEffect(() => { wordStatesRef.current = wordStates; }, [wordStates]);
   useEffect(() => { selectedWordsRef.current = selectedWords; }, [selectedWords]);
@@ -302,6 +328,7 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
     setAsset(null);
     setDegraded(false);
     setStoryboard(null);
+    setPanelsRendered({ done: 0, total: 0 });
     // Reset TTS state for the new round and revoke any stale blob URLs.
     setSentenceAudios({});
     setAudioProgress({ done: 0, total: 0, failed: 0 });
@@ -317,7 +344,10 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
     let ttsPromise: Promise<void> | null = null;
 
     const smart = typeof window !== 'undefined' && window.localStorage.getItem('vibe_ai_selection') === 'true';
-    const selection = selectSceneWords(allWords, sessions, smart, n);
+    // The daily set is fixed for everyone; it leaves the overlap history alone
+    const selection = dailyChallenge
+      ? { words: dailyChallengeWordEntries(dailyChallenge), selectionMode: 'random' as const, overlapRate: 0, rankingEligible: true, rankingIneligibleReason: null }
+      : selectSceneWords(allWords, sessions, smart, n);
     setSelectionMode(selection.selectionMode);
     setOverlapRate(selection.overlapRate);
     setRankingEligible(selection.rankingEligible);
@@ -336,7 +366,7 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
     abortRef.current = controller;
 
     try {
-      const meta = gatherWordMeta(selection.words);
+      const meta = dailyChallenge ? dailyChallenge.words : gatherWordMeta(selection.words);
       const res = await requestSceneGeneration(
         meta,
         dayIndex,
@@ -351,6 +381,8 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
               // the PREPARING stage preview card.
               const sb = typeof payload?.storyboard === 'string' ? payload.storyboard.trim() : '';
               if (sb) setStoryboard(sb);
+              const panelCount = Number(payload?.story?.panelCount) || 0;
+              if (panelCount > 0) setPanelsRendered({ done: 0, total: panelCount });
               // Kick off parallel TTS prefetch as soon as we have sentences.
               // The image render (stage 'rendered' → 'done') is slow, so TTS
               // usually finishes first; we still await ttsPromise below
@@ -363,14 +395,20 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
               if (sentences.length) {
                 ttsPromise = prefetchSentenceAudios(sentences);
               }
+            } else if (stage === 'panel-rendered') {
+              setPanelsRendered((p) => ({ ...p, done: Math.min(p.done + 1, p.total) }));
             } else if (stage === 'rendered') setPreparingStage(2);
           },
         },
+        { dailyChallengeDate: dailyChallenge?.date, storyMode: !dailyChallenge && storyMode },
       );
       if (controller.signal.aborted) return;
       console.log('[SceneGameMode] asset received', { source: res.source, imageUrl: res.asset.imageUrl, regionCount: res.asset.regions.length });
       setAsset(res.asset);
       setDegraded(res.degraded);
+      // A story is played panel by panel, so its rows follow the panels
+      const boardWords = res.asset.panels ? orderWordsByPanels(selection.words, res.asset.panels) : selection.words;
+      setSelectedWords(boardWords);
       // Wait for TTS to finish before COUNTDOWN. Usually already done since
       // image gen is the slow leg — but never block gameplay on TTS failure
       // (prefetchSentenceAudios never throws).
@@ -378,6 +416,7 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
         try { await ttsPromise; } catch { /* unreachable — prefetch never throws */ }
       }
       // No MODE_SELECT any more — go straight to COUNTDOWN → PLAYING.
+      roundTicketRef.current = startVerifiedRound('SCENE', boardWords.map((w) => w.id), { challengeDate: dailyChallenge?.date });
       setPhase('COUNTDOWN');
       setCountdownValue(3);
       if (countdownTimerRef.current) window.clearInterval(countdownTimerRef.current);
@@ -405,7 +444,7 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
       setGenError(err instanceof Error ? err.message : 'Scene generation failed. Please try again.');
       setPhase('INTRO');
     }
-  }, [allWords, sessions, dayIndex, prefetchSentenceAudios]);
+  }, [allWords, sessions, dayIndex, dailyChallenge, storyMode, prefetchSentenceAudios]);
 
   useEffect(() => {
     if (phase !== 'PREPARING') return;
@@ -524,6 +563,31 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
     });
   }, [activeWordIndex]);
 
+  // ---------------------------------------------------------------
+  // Story chapters — a panel's rows open only once every row of the
+  // panels before it is solved or locked, so the story plays in order.
+  // ---------------------------------------------------------------
+  const panels = asset?.panels ?? null;
+  const panelOf = useMemo(
+    () => (panels ? panelIndexOfWords(selectedWords, panels) : null),
+    [panels, selectedWords],
+  );
+
+  const isRowPlayable = useCallback((i: number, states: WordState[]) => {
+    const s = states[i];
+    if (!s || s.solved || s.locked) return false;
+    if (!panelOf) return true;
+    return panelOf[i] === firstOpenPanel(panelOf, states.map((st) => st.solved || st.locked));
+  }, [panelOf]);
+
+  const openPanel = panelOf ? firstOpenPanel(panelOf, wordStates.map((s) => s.solved || s.locked)) : 0;
+  const storyRequested = storyMode && !isDaily;
+
+  // Follow the active row to its panel (e.g. when the last row of a panel resolves)
+  useEffect(() => {
+    if (panelOf && activeWordIndex != null) setViewedPanel(panelOf[activeWordIndex] ?? 0);
+  }, [panelOf, activeWordIndex]);
+
   // ---------------------------------------------------------------
   // Move active row up / down
   // ---------------------------------------------------------------
@@ -549,14 +613,12 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
     // Pick the next non-locked, non-solved row. If none, finish.
     let next = -1;
     for (let i = activeWordIndex + 1; i < selectedWords.length; i++) {
-      const s = wordStatesRef.current[i];
-      if (s && !s.solved && !s.locked) { next = i; break; }
+      if (isRowPlayable(i, wordStatesRef.current)) { next = i; break; }
     }
     if (next === -1) {
       // Try from the beginning (some earlier row may still be playable).
       for (let i = 0; i < activeWordIndex; i++) {
-        const s = wordStatesRef.current[i];
-        if (s && !s.solved && !s.locked) { next = i; break; }
+        if (isRowPlayable(i, wordStatesRef.current)) { next = i; break; }
       }
     }
     if (next === -1) {
@@ -564,7 +626,7 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
       return;
     }
     moveToIndex(next);
-  }, [activeWordIndex, selectedWords.length, moveToIndex]);
+  }, [activeWordIndex, selectedWords.length, moveToIndex, isRowPlayable]);
 
   const submitActive = useCallback(() => {
     if (activeWordIndex == null || phase !== 'PLAYING') return;
@@ -642,8 +704,7 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
       // Find next playable row in this direction (skip solved/locked).
       let idx = activeWordIndex + dir;
       while (idx >= 0 && idx < selectedWords.length) {
-        const s = wordStatesRef.current[idx];
-        if (s && !s.solved && !s.locked) {
+        if (isRowPlayable(idx, wordStatesRef.current)) {
           moveToIndex(idx);
           return;
         }
@@ -652,7 +713,7 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
     };
     window.addEventListener('keydown', onKey);
     return () => window.removeEventListener('keydown', onKey);
-  }, [phase, activeWordIndex, selectedWords, moveToIndex, playSentenceAudio]);
+  }, [phase, activeWordIndex, selectedWords, moveToIndex, playSentenceAudio, isRowPlayable]);
 
   // ---------------------------------------------------------------
   // finishGame
@@ -690,6 +751,7 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
       rankingIneligibleReason,
       sceneAssetId: asset?.id || null,
     });
+    summary.roundTicket = await (roundTicketRef.current ?? Promise.resolve(null));
 
     setWordStates((prev) => prev.map((s) => (s.solved ? s : { ...s, revealed: true })));
 
@@ -705,6 +767,15 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
   const proceedToResult = async () => {
     if (!result) return;
     setPhase('RESULT');
+    // Log every card to the review history, ranked or not (non-fatal).
+    // Daily challenge words are nobody's words, so there is nothing to log.
+    if (!isDaily) {
+      void submitWordReviews(
+        gameResultsToReviewLog('SCENE', result.results),
+        result.roundTicket?.ticket.roundId ?? crypto.randomUUID(),
+      );
+    }
+
     setIsSubmitting(true);
     try {
       await onComplete(result);
@@ -746,6 +817,7 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
     finalizeGuardRef.current = false;
 
     // Jump straight to COUNTDOWN — no PREPARING since the asset is already loaded.
+    roundTicketRef.current = startVerifiedRound('SCENE', selectedWordsRef.current.map((w) => w.id));
     setPhase('COUNTDOWN');
     setCountdownValue(3);
     if (countdownTimerRef.current) window.clearInterval(countdownTimerRef.current);
@@ -785,6 +857,59 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
 
   const solvedCount = useMemo(() => wordStates.filter((s) => s.solved).length, [wordStates]);
 
+  // Daily only: this round's result, or the attempt already played today
+  const shareCard = dailyChallenge
+    ? result
+      ? buildDailyShareCard({ date: dailyChallenge.date, marks: result.results, totalScore: result.totalScore, timeUsedSeconds: result.timeUsedSeconds })
+      : dailyChallenge.attempt?.status === 'submitted'
+        ? buildDailyShareCard({
+          date: dailyChallenge.date,
+          marks: dailyChallenge.attempt.marks,
+          totalScore: dailyChallenge.attempt.totalScore ?? 0,
+          timeUsedSeconds: dailyChallenge.attempt.timeUsedSeconds ?? 0,
+        })
+        : null
+    : null;
+
+  const shareResult = async () => {
+    if (!shareCard) return;
+    try {
+      if (navigator.share) {
+        await navigator.share({ text: shareCard });
+        return;
+      }
+      await navigator.clipboard.writeText(shareCard);
+      setShareCopied(true);
+      window.setTimeout(() => setShareCopied(false), 2000);
+    } catch (err) {
+      // Dismissing the share sheet rejects too; nothing to report
+      console.warn('[SceneGameMode] share failed', err);
+    }
+  };
+
+  const shareCardPanel = shareCard && (
+    <div className="rounded-[28px] border border-purple-400/25 bg-[linear-gradient(180deg,rgba(168,85,247,0.12),rgba(168,85,247,0.03))] p-6">
+      <div className="font-mono text-[10px] uppercase tracking-[0.3em] text-purple-400/70">
+        <HoverTranslationText text="Share Your Result" translation="分享成绩" />
+      </div>
+      <pre className="mt-4 whitespace-pre-wrap font-mono text-sm leading-7 text-white">{shareCard}</pre>
+      <button
+        onClick={() => { void shareResult(); }}
+        className="mt-5 w-full rounded-2xl bg-purple-500 px-5 py-3 font-headline text-sm uppercase tracking-[0.25em] text-white transition-transform hover:-translate-y-1"
+      >
+        {shareCopied
+          ? <HoverTranslationText text="Copied" translation="已复制" />
+          : <HoverTranslationText text="Share" translation="分享" />}
+      </button>
+      <div className="mt-3 text-[11px] text-text-dark">
+        <HoverTranslationText
+          text="Today's ranking is in the Daily Challenge tab of the global leaderboard."
+          translation="今日排名见全球排行榜的“每日挑战”标签。"
+        />
+      </div>
+    </div>
+  );
+
   const summaryCards = result
     ? [
         { labelEn: 'Total Score', labelZh: '总分', value: Math.round(result.totalScore) },
@@ -817,9 +942,13 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
       <div className="relative flex h-[100dvh] flex-col px-4 pb-4 pt-20 md:px-8 md:pb-6 md:pt-24">
         <div className="sticky top-16 z-30 mb-4 flex shrink-0 items-start justify-between gap-4 bg-[linear-gradient(180deg,rgba(12,14,18,0.94),rgba(12,14,18,0.72),transparent)] pb-3 backdrop-blur-sm">
           <div>
-            <div className="font-mono text-xs uppercase tracking-[0.35em] text-purple-400/80">OPTION 4</div>
+            <div className="font-mono text-xs uppercase tracking-[0.35em] text-purple-400/80">
+              {dailyChallenge ? `DAILY · ${dailyChallenge.date}` : 'OPTION 4'}
+            </div>
             <h2 className="font-headline text-3xl text-white md:text-4xl">
-              <HoverTranslationText text="Scene Fusion Game" translation="场景融合游戏" />
+              {dailyChallenge
+                ? <HoverTranslationText text="Daily Challenge" translation="每日挑战" />
+                : <HoverTranslationText text="Scene Fusion Game" translation="场景融合游戏" />}
             </h2>
           </div>
           <button
@@ -830,8 +959,60 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
           </button>
         </div>
 
+        {/* ---------------- INTRO (daily challenge) ---------------- */}
+        {phase === 'INTRO' && dailyChallenge && (
+          <div className="flex flex-1 items-center justify-center overflow-y-auto py-2">
+            <div className="w-full max-w-3xl rounded-[32px] border border-mid-charcoal bg-dark-charcoal/80 p-8 shadow-2xl backdrop-blur-md md:p-10">
+              <div className="grid gap-8 md:grid-cols-[1.15fr_0.85fr]">
+                <div className="space-y-5">
+                  <p className="max-w-2xl text-sm leading-7 text-text-light md:text-base">
+                    <HoverTranslationText
+                      text={`Everyone gets the same ${dailyChallenge.words.length} words and the same scene today. You have ONE ranked attempt — no replays — so take a breath before you start.`}
+                      translation={`今天所有人挑战同样的 ${dailyChallenge.words.length} 个单词和同一张场景图。每人仅有一次计入排名的机会，不能重玩，准备好再开始。`}
+                    />
+                  </p>
+                  <div className="flex items-center gap-3 rounded-3xl border border-mid-charcoal bg-light-charcoal/30 p-4">
+                    <img src={monsterImg} alt="monster" className="h-14 w-14 rounded-2xl border border-mid-charcoal object-cover" />
+                    <div>
+                      <div className="font-mono text-[10px] uppercase tracking-[0.3em] text-purple-400/70"><HoverTranslationText text="Today's Monster Theme" translation="今日小怪兽主题" /></div>
+                      <div className="mt-1 text-sm text-white"><HoverTranslationText text={monsterName.en} translation={monsterName.zh} /></div>
+                      <div className="mt-1 font-headline text-base text-white">{dailyChallenge.words.length}×30s</div>
+                    </div>
+                  </div>
+                  {genError && (
+                    <div className="rounded-xl border border-red-500/40 bg-red-500/10 px-3 py-2 text-xs text-red-200">{genError}</div>
+                  )}
+                </div>
+
+                {dailyChallenge.attempt ? (
+                  shareCardPanel || (
+                    <div className="rounded-[28px] border border-mid-charcoal bg-light-charcoal/20 p-6 text-sm leading-7 text-text-light">
+                      <HoverTranslationText
+                        text="You already started today's challenge. Come back tomorrow for a new one!"
+                        translation="你今天已经开始过挑战了，明天再来挑战新的一局吧！"
+                      />
+                    </div>
+                  )
+                ) : (
+                  <div className="rounded-[28px] border border-purple-400/25 bg-[linear-gradient(180deg,rgba(168,85,247,0.12),rgba(168,85,247,0.03))] p-6">
+                    <div className="text-sm leading-7 text-text-light">
+                      <HoverTranslationText text="Free to play — the scene is shared by all players." translation="免费参与——场景图全员共享。" />
+                    </div>
+                    <button
+                      onClick={() => { void runGeneration(dailyChallenge.words.length, false); }}
+                      className="mt-6 w-full rounded-2xl bg-purple-500 px-5 py-4 font-headline text-sm uppercase tracking-[0.3em] text-white transition-all hover:-translate-y-1 hover:shadow-[0_0_30px_rgba(168,85,247,0.3)]"
+                    >
+                      <HoverTranslationText text="Start Challenge" translation="开始挑战" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* ---------------- INTRO ---------------- */}
-        {phase === 'INTRO' && (
+        {phase === 'INTRO' && !dailyChallenge && (
           <div className="flex flex-1 items-center justify-center overflow-y-auto py-2">
             <div className="w-full max-w-3xl rounded-[32px] border border-mid-charcoal bg-dark-charcoal/80 p-8 shadow-2xl backdrop-blur-md md:p-10">
               <div className="grid gap-8 md:grid-cols-[1.15fr_0.85fr]">
@@ -877,6 +1058,28 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
                       />
                     </div>
                   </div>
+
+                  <button
+                    type="button"
+                    onClick={() => { const next = !storyMode; setStoryMode(next); window.localStorage.setItem(STORY_MODE_KEY, String(next)); }}
+                    aria-pressed={storyMode}
+                    className={`flex w-full items-center justify-between gap-4 rounded-3xl border p-4 text-left transition-colors ${
+                      storyMode ? 'border-purple-400 bg-purple-500/15' : 'border-mid-charcoal bg-light-charcoal/30 hover:border-purple-400/50'
+                    }`}
+                  >
+                    <div>
+                      <div className="font-mono text-xs uppercase tracking-[0.3em] text-text-dark"><HoverTranslationText text="Story Chapters" translation="故事章节" /></div>
+                      <div className="mt-1 text-[11px] text-text-dark">
+                        <HoverTranslationText
+                          text="3–4 pictures tell one story. Finish a chapter's sentences to turn the page."
+                          translation="用 3–4 张图讲一个连续的故事，答完本章的句子才能翻到下一章。"
+                        />
+                      </div>
+                    </div>
+                    <span className={`material-symbols-outlined text-3xl ${storyMode ? 'text-purple-300' : 'text-text-dark'}`}>
+                      {storyMode ? 'toggle_on' : 'toggle_off'}
+                    </span>
+                  </button>
                 </div>
 
                 <div className="rounded-[28px] border border-purple-400/25 bg-[linear-gradient(180deg,rgba(168,85,247,0.12),rgba(168,85,247,0.03))] p-6">
@@ -976,13 +1179,23 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
                 <HoverTranslationText text="Building Your Scene" translation="正在构建场景" />
               </div>
               <h3 className="mt-6 font-headline text-2xl text-white md:text-3xl">
-                <HoverTranslationText text="Fusing words into one scene" translation="把单词融合进同一张图" />
+                {storyRequested
+                  ? <HoverTranslationText text="Turning words into a picture story" translation="把单词编成一个图画故事" />
+                  : <HoverTranslationText text="Fusing words into one scene" translation="把单词融合进同一张图" />}
               </h3>
               <div className="mx-auto mt-6 max-w-md space-y-2.5 text-left">
                 {([
                   { stage: 0, icon: 'checklist', en: 'Selecting words', zh: '抽取单词', hint: 'Smart/random pick from your library' },
                   { stage: 1, icon: 'auto_awesome', en: 'Designing scene', zh: '场景导演构思', hint: 'LLM arranges words into one scene + prompt' },
-                  { stage: 2, icon: 'image', en: 'Rendering image', zh: '渲染场景图', hint: 'Image model draws the isometric scene' },
+                  storyRequested
+                    ? {
+                      stage: 2,
+                      icon: 'collections',
+                      en: panelsRendered.total > 0 ? `Rendering chapters ${panelsRendered.done}/${panelsRendered.total}` : 'Rendering chapters',
+                      zh: panelsRendered.total > 0 ? `渲染故事章节 ${panelsRendered.done}/${panelsRendered.total}` : '渲染故事章节',
+                      hint: 'Image model draws every panel of the story',
+                    }
+                    : { stage: 2, icon: 'image', en: 'Rendering image', zh: '渲染场景图', hint: 'Image model draws the isometric scene' },
                 ] as const).map((step) => {
                   const done = preparingStage > step.stage;
                   const active = preparingStage === step.stage;
@@ -1129,8 +1342,8 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
                   area on the right gets all remaining width via flex-1. */}
               <div className="flex min-h-0 shrink-0 items-center justify-center">
                 <SceneImageWithRegions
-                  imageUrl={asset?.imageUrl || ''}
-                  regions={asset?.regions || []}
+                  imageUrl={panels ? panels[viewedPanel]?.imageUrl || '' : asset?.imageUrl || ''}
+                  regions={(asset?.regions || []).filter((r) => !panels || r.panel === viewedPanel)}
                   activeWordIndex={null}
                   solvedWordIndices={[]}
                   revealedWordIndices={[]}
@@ -1142,6 +1355,49 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
 
               {/* Right: sentence list + LargeWordInput — flex-1 takes ALL remaining width */}
               <div className="flex min-h-0 min-w-0 flex-1 flex-col gap-3 md:overflow-hidden">
+                {/* Story chapters — earlier chapters can be revisited, later ones open in order */}
+                {panels && (
+                  <div className="flex shrink-0 items-center justify-between gap-3 rounded-[24px] border border-purple-400/25 bg-purple-500/5 px-3 py-2">
+                    <button
+                      onClick={() => setViewedPanel((p) => Math.max(p - 1, 0))}
+                      disabled={viewedPanel === 0}
+                      aria-label="Previous chapter"
+                      className="flex h-9 w-9 items-center justify-center rounded-xl border border-mid-charcoal text-text-light transition-colors hover:border-purple-400 hover:text-white disabled:cursor-not-allowed disabled:opacity-30"
+                    >
+                      <span className="material-symbols-outlined text-xl">chevron_left</span>
+                    </button>
+                    <div className="min-w-0 flex-1 text-center">
+                      <div className="font-mono text-[10px] uppercase tracking-[0.3em] text-purple-300">
+                        <HoverTranslationText
+                          text={`Chapter ${viewedPanel + 1}/${panels.length}`}
+                          translation={`第 ${viewedPanel + 1}/${panels.length} 章`}
+                        />
+                      </div>
+                      {panels[viewedPanel]?.title && (
+                        <div className="truncate text-sm text-white">{panels[viewedPanel].title}</div>
+                      )}
+                      <div className="mt-1.5 flex justify-center gap-1.5">
+                        {panels.map((panel, i) => (
+                          <span
+                            key={panel.index}
+                            className={`h-1.5 w-6 rounded-full ${
+                              i < openPanel ? 'bg-electric-green/70' : i === openPanel ? 'bg-purple-400' : 'bg-mid-charcoal'
+                            } ${i === viewedPanel ? 'ring-1 ring-white/60' : ''}`}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => setViewedPanel((p) => Math.min(p + 1, openPanel))}
+                      disabled={viewedPanel >= openPanel}
+                      aria-label="Next chapter"
+                      className="flex h-9 w-9 items-center justify-center rounded-xl border border-mid-charcoal text-text-light transition-colors hover:border-purple-400 hover:text-white disabled:cursor-not-allowed disabled:opacity-30"
+                    >
+                      <span className="material-symbols-outlined text-xl">chevron_right</span>
+                    </button>
+                  </div>
+                )}
+
                 {/* Sentence list — scrollable */}
                 <div className="flex min-h-0 flex-1 flex-col gap-2 overflow-y-auto rounded-[28px] border border-mid-charcoal bg-dark-charcoal/50 p-3 md:p-4">
                   <div className="flex items-center justify-between px-1 pb-1">
@@ -1154,6 +1410,7 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
                   </div>
                   <div className="flex flex-col gap-1.5">
                     {selectedWords.map((word, i) => {
+                      if (panelOf && panelOf[i] !== viewedPanel) return null;
                       const s = wordStates[i] || createWordState();
                       const isActive = i === activeWordIndex;
                       const sentence = sentenceForWord(word, asset);
@@ -1182,7 +1439,7 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
                           isAudioPlaying={playingWord === word.text.toLowerCase()}
                           onPlayAudio={() => playSentenceAudio(word.text)}
                           onSelect={() => {
-                            if (!s.solved && !s.locked) moveToIndex(i);
+                            if (isRowPlayable(i, wordStates)) moveToIndex(i);
                           }}
                         />
                       );
@@ -1190,8 +1447,9 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
                   </div>
                 </div>
 
-                {/* Input — the standard LargeWordInput from CLASSIC mode */}
-                {activeWord && (
+                {/* Input — the standard LargeWordInput from CLASSIC mode
+                    (hidden while looking back at an earlier chapter) */}
+                {activeWord && (!panelOf || panelOf[activeWordIndex!] === viewedPanel) && (
                   <div className="shrink-0 rounded-[28px] border border-mid-charcoal bg-dark-charcoal/70 p-2">
                     <LargeWordInput
                       key={`input-${activeWord.id}-${activeWordIndex}`}
@@ -1244,16 +1502,22 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
                   const cardBorder = wasCorrect
                     ? 'border-electric-green/30 bg-electric-green/5'
                     : 'border-mid-charcoal bg-light-charcoal/20';
+                  const panel = panels && panelOf && (i === 0 || panelOf[i] !== panelOf[i - 1]) ? panels[panelOf[i]] : null;
+                  const chapterHeading = panel && (
+                    <div className="px-1 pt-2 font-mono text-[10px] uppercase tracking-[0.3em] text-purple-300">
+                      <HoverTranslationText text={`Chapter ${panel.index + 1}`} translation={`第 ${panel.index + 1} 章`} />
+                      {panel.title ? ` · ${panel.title}` : ''}
+                    </div>
+                  );
 
                   if (!sentence) {
                     // No real sentence — show just the word. No ClozeSentence,
                     // no speaker icon, no fallback template text. This is the
                     // "picture only" case: the learner guessed from the image.
                     return (
-                      <div
-                        key={word.id}
-                        className={`rounded-2xl border p-3 ${cardBorder}`}
-                      >
+                      <React.Fragment key={word.id}>
+                      {chapterHeading}
+                      <div className={`rounded-2xl border p-3 ${cardBorder}`}>
                         <div className="flex items-center justify-between gap-3">
                           <span className={`font-headline text-xl ${wasCorrect ? 'text-electric-green' : 'text-text-light'}`}>
                             {word.text}
@@ -1268,14 +1532,14 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
                           {attemptLabel}
                         </div>
                       </div>
+                      </React.Fragment>
                     );
                   }
 
                   return (
-                    <div
-                      key={word.id}
-                      className={`rounded-2xl border p-2 ${cardBorder}`}
-                    >
+                    <React.Fragment key={word.id}>
+                    {chapterHeading}
+                    <div className={`rounded-2xl border p-2 ${cardBorder}`}>
                       <ClozeSentence
                         sentence={sentence}
                         targetWord={word.text}
@@ -1292,6 +1556,7 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
                         {attemptLabel}
                       </div>
                     </div>
+                    </React.Fragment>
                   );
                 })}
               </div>
@@ -1304,13 +1569,15 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
                 >
                   <HoverTranslationText text="Next Step" translation="下一步" />
                 </button>
-                <button
-                  onClick={replaySameScene}
-                  disabled={isSubmitting}
-                  className="rounded-2xl border border-purple-400/40 bg-purple-500/10 px-4 py-3 font-headline text-sm uppercase tracking-[0.25em] text-purple-300 transition-colors hover:border-purple-400 hover:bg-purple-500/20 disabled:cursor-not-allowed disabled:opacity-50"
-                >
-                  <HoverTranslationText text="Replay" translation="重玩此局" />
-                </button>
+                {!isDaily && (
+                  <button
+                    onClick={replaySameScene}
+                    disabled={isSubmitting}
+                    className="rounded-2xl border border-purple-400/40 bg-purple-500/10 px-4 py-3 font-headline text-sm uppercase tracking-[0.25em] text-purple-300 transition-colors hover:border-purple-400 hover:bg-purple-500/20 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <HoverTranslationText text="Replay" translation="重玩此局" />
+                  </button>
+                )}
                 <button
                   onClick={onCancel}
                   disabled={isSubmitting}
@@ -1351,25 +1618,29 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
                   </div>
 
                   <div className="mt-4 flex flex-wrap gap-2">
-                    <button
-                      onClick={replaySameScene}
-                      className="rounded-2xl border border-purple-400/40 bg-purple-500/10 px-4 py-3 font-headline text-sm uppercase tracking-[0.25em] text-purple-300 transition-colors hover:border-purple-400 hover:bg-purple-500/20"
-                    >
-                      <HoverTranslationText text="Replay Scene" translation="重玩此场景" />
-                    </button>
-                    <button
-                      onClick={() => {
-                        setResult(null);
-                        setWordStates([]);
-                        wordStatesRef.current = [];
-                        setActiveWordIndex(null);
-                        finalizeGuardRef.current = false;
-                        setPhase('INTRO');
-                      }}
-                      className="rounded-2xl bg-purple-500 px-4 py-3 font-headline text-sm uppercase tracking-[0.25em] text-white transition-transform hover:-translate-y-1"
-                    >
-                      <HoverTranslationText text="Play another round" translation="再来一局" />
-                    </button>
+                    {!isDaily && (
+                      <>
+                        <button
+                          onClick={replaySameScene}
+                          className="rounded-2xl border border-purple-400/40 bg-purple-500/10 px-4 py-3 font-headline text-sm uppercase tracking-[0.25em] text-purple-300 transition-colors hover:border-purple-400 hover:bg-purple-500/20"
+                        >
+                          <HoverTranslationText text="Replay Scene" translation="重玩此场景" />
+                        </button>
+                        <button
+                          onClick={() => {
+                            setResult(null);
+                            setWordStates([]);
+                            wordStatesRef.current = [];
+                            setActiveWordIndex(null);
+                            finalizeGuardRef.current = false;
+                            setPhase('INTRO');
+                          }}
+                          className="rounded-2xl bg-purple-500 px-4 py-3 font-headline text-sm uppercase tracking-[0.25em] text-white transition-transform hover:-translate-y-1"
+                        >
+                          <HoverTranslationText text="Play another round" translation="再来一局" />
+                        </button>
+                      </>
+                    )}
                     <button
                       onClick={onCancel}
                       className="rounded-2xl border border-mid-charcoal bg-light-charcoal/20 px-4 py-3 font-headline text-sm uppercase tracking-[0.25em] text-text-light transition-colors hover:border-white hover:text-white"
@@ -1380,7 +1651,7 @@ const SceneGameMode: React.FC<SceneGameModeProps> = ({ allWords, sessions, onCom
                 </div>
 
                 <div className="min-h-[280px]">
-                  <SceneLeaderboardPanel playMode="cloze" />
+                  {shareCardPanel || <SceneLeaderboardPanel playMode="cloze" />}
                 </div>
               </div>
             </div>
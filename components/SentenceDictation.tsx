@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { WordEntry } from '../types';
+import { fetchSceneTts } from '../services/sceneTts';
+import { DictationGrade, DictationToken, gradeDictation } from '../utils/sentenceDictation';
+
+export interface DictationItem {
+  word: WordEntry;
+  sentence: string;
+}
+
+export interface DictationResult {
+  wordId: string;
+  sentence: string;
+  typed: string;
+  grade: DictationGrade;
+}
+
+interface SentenceDictationProps {
+  items: DictationItem[];
+  onComplete: (results: DictationResult[]) => void;
+  onSkip: () => void;
+}
+
+const TOKEN_STYLE: Record<DictationToken['kind'], string> = {
+  match: 'text-electric-green',
+  misspelled: 'text-yellow-400',
+  missing: 'text-red-400 underline decoration-dotted underline-offset-4',
+  extra: 'text-gray-500 line-through',
+};
+
+const TokenView: React.FC<{ token: DictationToken }> = ({ token }) => {
+  if (token.kind === 'misspelled') {
+    return (
+      <span className={TOKEN_STYLE.misspelled} title={`You typed "${token.typed}"`}>
+        <span className="line-through opacity-60 mr-1">{token.typed}</span>{token.expected}
+      </span>
+    );
+  }
+  return <span className={TOKEN_STYLE[token.kind]}>{token.kind === 'extra' ? token.typed : token.expected}</span>;
+};
+
+/**
+ * SentenceDictation - Post-test sentence dictation phase of TestModeV2
+ * Plays a sentence containing each target word (scene-tts), the learner types
+ * the whole sentence, and a token diff shows missing / extra / misspelled words.
+ */
+export const SentenceDictation: React.FC<SentenceDictationProps> = ({ items, onComplete, onSkip }) => {
+  const [index, setIndex] = useState(0);
+  const [typed, setTyped] = useState('');
+  const [grade, setGrade] = useState<DictationGrade | null>(null);
+  const [results, setResults] = useState<DictationResult[]>([]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const audioUrlsRef = useRef<Map<number, Promise<string | null>>>(new Map());
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  const item = items[index];
+
+  // Fetch every sentence's audio up front; null = use speech synthesis
+  useEffect(() => {
+    const urls = audioUrlsRef.current;
+    items.forEach((entry, i) => {
+      urls.set(i, fetchSceneTts(entry.sentence)
+        .then(blob => URL.createObjectURL(blob))
+        .catch(error => {
+          console.warn('[SentenceDictation] scene-tts failed, falling back to speech synthesis:', error);
+          return null;
+        }));
+    });
+    return () => {
+      audioRef.current?.pause();
+      window.speechSynthesis.cancel();
+      urls.forEach(promise => { void promise.then(url => { if (url) URL.revokeObjectURL(url); }); });
+      urls.clear();
+    };
+  }, [items]);
+
+  const play = useCallback(async () => {
+    if (!item) return;
+    audioRef.current?.pause();
+    window.speechSynthesis.cancel();
+    setIsPlaying(true);
+
+    const url = await audioUrlsRef.current.get(index);
+    if (url) {
+      const audio = new Audio(url);
+      audioRef.current = audio;
+      audio.onended = () => setIsPlaying(false);
+      audio.onerror = () => setIsPlaying(false);
+      audio.play().catch(() => setIsPlaying(false));
+    } else {
+      const utterance = new SpeechSynthesisUtterance(item.sentence);
+      utterance.lang = 'en-US';
+      utterance.rate = 0.9;
+      utterance.onend = () => setIsPlaying(false);
+      utterance.onerror = () => setIsPlaying(false);
+      window.speechSynthesis.speak(utterance);
+    }
+  }, [index, item]);
+
+  // Auto-play each new sentence
+  useEffect(() => {
+    void play();
+    inputRef.current?.focus();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [index]);
+
+  const handleCheck = () => {
+    if (!item || grade || !typed.trim()) return;
+    const result = gradeDictation(item.sentence, typed, item.word.text);
+    setGrade(result);
+    setResults(prev => [...prev, { wordId: item.word.id, sentence: item.sentence, typed, grade: result }]);
+  };
+
+  const handleNext = () => {
+    if (index >= items.length - 1) {
+      onComplete(results);
+      return;
+    }
+    setIndex(prev => prev + 1);
+    setTyped('');
+    setGrade(null);
+  };
+
+  if (!item) return null;
+
+  return (
+    <div className="fixed top-16 inset-x-0 bottom-0 bg-[#0a0a0a] flex flex-col z-50 text-white overflow-hidden">
+      <div className="h-2 w-full bg-white/5 border-b border-white/5">
+        <div
+          className="h-full bg-gradient-to-r from-blue-700 via-electric-blue to-cyan-300 transition-all duration-500 ease-out"
+          style={{ width: `${((index + (grade ? 1 : 0.3)) / items.length) * 100}%` }}
+        />
+      </div>
+
+      <div className="p-6 flex justify-between items-center bg-[#0b0f14]/80 backdrop-blur-sm border-b border-electric-blue/10">
+        <div className="flex flex-col">
+          <span className="text-[10px] font-mono text-gray-600 uppercase tracking-widest leading-none mb-1">Sentence Dictation</span>
+          <span className="text-sm font-bold font-mono text-electric-blue">{index + 1} / {items.length}</span>
+        </div>
+        <button
+          onClick={onSkip}
+          className="px-4 py-2 rounded-xl border border-white/10 bg-white/5 text-gray-400 hover:text-white font-mono text-xs uppercase tracking-wider transition-all"
+        >
+          Skip Dictation
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar pb-20">
+        <div className="flex flex-col items-center justify-center p-6 min-h-[500px]">
+          <div className="w-full max-w-3xl rounded-[2rem] border border-electric-blue/15 bg-gradient-to-b from-[#0f141a] to-[#0a0d11] p-8 shadow-[0_24px_80px_rgba(0,0,0,0.55)] ring-1 ring-white/5 space-y-6">
+            <div className="text-center space-y-2">
+              <p className="text-sm text-gray-400 font-body">听写整句 · Type the whole sentence you hear</p>
+              <p className="text-xs text-gray-600 font-mono">目标单词 · {item.word.definition_cn || '—'}</p>
+            </div>
+
+            <div className="flex justify-center">
+              <button
+                onClick={() => void play()}
+                className="w-20 h-20 rounded-full bg-electric-blue/10 border border-electric-blue/30 text-electric-blue hover:bg-electric-blue/20 transition-all flex items-center justify-center"
+                aria-label="Replay sentence"
+              >
+                <span className={`material-symbols-outlined text-4xl ${isPlaying ? 'animate-pulse' : ''}`}>volume_up</span>
+              </button>
+            </div>
+
+            <textarea
+              ref={inputRef}
+              value={typed}
+              onChange={e => setTyped(e.target.value)}
+              onKeyDown={e => {
+                if (e.key !== 'Enter' || e.shiftKey) return;
+                e.preventDefault();
+                if (grade) handleNext();
+                else handleCheck();
+              }}
+              readOnly={grade !== null}
+              rows={3}
+              placeholder="Type what you hear..."
+              className={`w-full bg-black/40 border border-white/10 rounded-2xl px-5 py-4 text-lg text-white font-body focus:border-electric-blue outline-none resize-none ${grade ? 'opacity-70' : ''}`}
+            />
+
+            {grade && (
+              <div className="space-y-3">
+                <p className="text-lg leading-relaxed font-body flex flex-wrap gap-x-2 gap-y-1">
+                  {grade.tokens.map((token, i) => <TokenView key={i} token={token} />)}
+                </p>
+                <p className="text-sm text-gray-400 font-body">{item.sentence}</p>
+                <div className="flex flex-wrap gap-4 font-mono text-xs">
+                  <span className="text-electric-green">正确 {grade.counts.match}</span>
+                  <span className="text-yellow-400">拼错 {grade.counts.misspelled}</span>
+                  <span className="text-red-400">漏写 {grade.counts.missing}</span>
+                  <span className="text-gray-500">多写 {grade.counts.extra}</span>
+                  <span className={grade.targetCorrect ? 'text-electric-green' : 'text-red-400'}>
+                    {item.word.text} {grade.targetCorrect ? '✓' : '✗'}
+                  </span>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-center">
+              {grade ? (
+                <button
+                  onClick={handleNext}
+                  className="px-8 py-3 rounded-2xl bg-electric-blue text-charcoal font-headline text-lg uppercase tracking-wide hover:bg-electric-blue/80 transition-all"
+                >
+                  {index >= items.length - 1 ? 'Finish' : 'Next Sentence'}
+                </button>
+              ) : (
+                <button
+                  onClick={handleCheck}
+                  disabled={!typed.trim()}
+                  className="px-8 py-3 rounded-2xl bg-electric-blue text-charcoal font-headline text-lg uppercase tracking-wide hover:bg-electric-blue/80 transition-all disabled:opacity-40"
+                >
+                  Check
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,501 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { HoverTranslationText } from './HoverTranslationText';
+import { SprintLeaderboardPanel } from './SprintLeaderboardPanel';
+import { playWordPronunciation, preloadWordAudio, stopCurrentAudio } from '../services/pronunciationService';
+import { playBuzzer, playDing } from '../utils/audioFeedback';
+import {
+  InputSession,
+  PuzzleGameSelectionMode,
+  SprintCardResult,
+  SprintGamePhase,
+  SprintGameSummary,
+  WordEntry,
+} from '../types';
+import {
+  calculateSprintGameSummary,
+  checkSprintAnswer,
+  getSprintTempo,
+  getSprintWindowMs,
+  SPRINT_MIN_WINDOW_MS,
+  SPRINT_START_WINDOW_MS,
+  SPRINT_TOTAL_WORDS,
+  wordLetterCount,
+} from '../utils/audioSprint';
+import { getSprintCandidateWords, selectSprintWords } from '../services/audioSprint';
+import { gameResultsToReviewLog, submitWordReviews } from '../services/dataService';
+import { startVerifiedRound } from '../services/roundVerification';
+import type { SignedRoundTicket } from '../supabase/functions/verify-round/roundScoring';
+
+interface SprintGameModeProps {
+  allWords: WordEntry[];
+  sessions: InputSession[];
+  onComplete: (summary: SprintGameSummary) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+type SprintFeedback = { kind: 'correct' | 'wrong' | 'timeout'; word: string };
+
+// How long the answer stays on screen before the next word plays
+const REVEAL_DELAY_MS = 700;
+// Per-word cap while warming the audio cache before the round starts
+const PRELOAD_TIMEOUT_MS = 5000;
+
+/**
+ * SprintGameMode - Listening-only audio sprint
+ * Plays the words back to back; the answer window opens once the word has
+ * been heard and shrinks as the streak grows. One try per word: a miss or
+ * a timeout resets the tempo.
+ */
+const SprintGameMode: React.FC<SprintGameModeProps> = ({ allWords, sessions, onComplete, onCancel }) => {
+  const [phase, setPhase] = useState<SprintGamePhase>('INTRO');
+  const [selectionMode, setSelectionMode] = useState<PuzzleGameSelectionMode>('random');
+  const [selectionOverlapRate, setSelectionOverlapRate] = useState(0);
+  const [rankingEligible, setRankingEligible] = useState(true);
+  const [rankingIneligibleReason, setRankingIneligibleReason] = useState<string | null>(null);
+  const [words, setWords] = useState<WordEntry[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [inputValue, setInputValue] = useState('');
+  const [feedback, setFeedback] = useState<SprintFeedback | null>(null);
+  const [streak, setStreak] = useState(0);
+  const [windowEndsAt, setWindowEndsAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [preparationError, setPreparationError] = useState<string | null>(null);
+  const [result, setResult] = useState<SprintGameSummary | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const gameStartTimeRef = useRef<number | null>(null);
+  const resultsRef = useRef<SprintCardResult[]>([]);
+  const streakRef = useRef(0);
+  const windowMsRef = useRef(SPRINT_START_WINDOW_MS);
+  const playedAtRef = useRef<number | null>(null);
+  const activatedAtRef = useRef<number | null>(null);
+  const roundTicketRef = useRef<Promise<SignedRoundTicket | null> | null>(null);
+  const settledRef = useRef(false);
+  const windowTimerRef = useRef<number | null>(null);
+  const advanceTimerRef = useRef<number | null>(null);
+  const finalizeGuardRef = useRef(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const candidateCount = useMemo(() => getSprintCandidateWords(allWords).length, [allWords]);
+  const canStart = candidateCount >= SPRINT_TOTAL_WORDS;
+  const word = words[currentIndex] as WordEntry | undefined;
+
+  const elapsedMs = () => (gameStartTimeRef.current ? Date.now() - gameStartTimeRef.current : 0);
+
+  const clearTimers = () => {
+    if (windowTimerRef.current) window.clearTimeout(windowTimerRef.current);
+    if (advanceTimerRef.current) window.clearTimeout(advanceTimerRef.current);
+    windowTimerRef.current = null;
+    advanceTimerRef.current = null;
+  };
+
+  useEffect(() => {
+    return () => {
+      clearTimers();
+      void stopCurrentAudio();
+    };
+  }, []);
+
+  // Drive the countdown bar
+  useEffect(() => {
+    if (phase !== 'PLAYING' || windowEndsAt == null) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 100);
+    return () => window.clearInterval(timer);
+  }, [phase, windowEndsAt]);
+
+  // Play each word; its answer window opens once playback has finished
+  useEffect(() => {
+    if (phase !== 'PLAYING' || !word) return;
+    let cancelled = false;
+    const windowMs = getSprintWindowMs(streakRef.current, wordLetterCount(word.text));
+    windowMsRef.current = windowMs;
+    playedAtRef.current = elapsedMs();
+    activatedAtRef.current = null;
+    settledRef.current = false;
+    setWindowEndsAt(null);
+    setInputValue('');
+    setFeedback(null);
+    setTimeout(() => inputRef.current?.focus(), 0);
+
+    void playWordPronunciation(word.text, word.language || 'en').finally(() => {
+      if (cancelled || settledRef.current) return;
+      activatedAtRef.current = elapsedMs();
+      setWindowEndsAt(Date.now() + windowMs);
+      windowTimerRef.current = window.setTimeout(() => settleWord(null), windowMs);
+    });
+
+    return () => {
+      cancelled = true;
+      if (windowTimerRef.current) window.clearTimeout(windowTimerRef.current);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phase, currentIndex]);
+
+  const startGame = async () => {
+    if (!canStart) return;
+    setPreparationError(null);
+
+    const smartSelectionEnabled = localStorage.getItem('vibe_ai_selection') === 'true';
+    const selection = selectSprintWords(allWords, sessions, smartSelectionEnabled, SPRINT_TOTAL_WORDS);
+    if (selection.words.length < SPRINT_TOTAL_WORDS) {
+      setPreparationError('Not enough words in your library yet.');
+      return;
+    }
+
+    // Warm the audio first so network latency never eats an answer window
+    setPhase('LOADING');
+    roundTicketRef.current = startVerifiedRound('SPRINT', selection.words.map((w) => w.id));
+    await Promise.all(selection.words.map((w) => preloadWordAudio(w.text, w.language || 'en', PRELOAD_TIMEOUT_MS)));
+
+    setSelectionMode(selection.selectionMode);
+    setSelectionOverlapRate(selection.overlapRate);
+    setRankingEligible(selection.rankingEligible);
+    setRankingIneligibleReason(selection.rankingIneligibleReason || null);
+    setWords(selection.words);
+    setCurrentIndex(0);
+    setStreak(0);
+    streakRef.current = 0;
+    resultsRef.current = [];
+    finalizeGuardRef.current = false;
+    gameStartTimeRef.current = Date.now();
+    setPhase('PLAYING');
+  };
+
+  const finishGame = async (results: SprintCardResult[]) => {
+    if (finalizeGuardRef.current) return;
+    finalizeGuardRef.current = true;
+    clearTimers();
+    await stopCurrentAudio();
+
+    const summary: SprintGameSummary = {
+      ...calculateSprintGameSummary(
+        results,
+        elapsedMs(),
+        selectionMode,
+        selectionOverlapRate,
+        rankingEligible,
+        rankingIneligibleReason,
+      ),
+      roundTicket: await (roundTicketRef.current ?? Promise.resolve(null)),
+    };
+    setResult(summary);
+    setPhase('RESULT');
+
+    // Log every word to the review history, ranked or not (non-fatal)
+    void submitWordReviews(
+      gameResultsToReviewLog('SPRINT', summary.results.map((r) => ({
+        ...r,
+        attemptsUsed: 1,
+        hintUsed: false,
+        solvedAtMs: r.answeredAtMs,
+      }))),
+      summary.roundTicket?.ticket.roundId ?? crypto.randomUUID(),
+    );
+
+    setIsSubmitting(true);
+    try {
+      await onComplete(summary);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /** Close the current word (typed === null means the window ran out) */
+  const settleWord = (typed: string | null) => {
+    if (phase !== 'PLAYING' || !word || settledRef.current) return;
+    settledRef.current = true;
+    if (windowTimerRef.current) window.clearTimeout(windowTimerRef.current);
+
+    const answeredAtMs = typed == null ? null : elapsedMs();
+    const correct = typed != null && checkSprintAnswer(typed, word.text);
+    resultsRef.current = [...resultsRef.current, {
+      wordId: word.id,
+      wordText: word.text,
+      correct,
+      timedOut: typed == null,
+      windowMs: windowMsRef.current,
+      streakBefore: streakRef.current,
+      playedAtMs: playedAtRef.current,
+      // Answered while the word was still playing: full marks for speed
+      activatedAtMs: activatedAtRef.current ?? answeredAtMs,
+      answeredAtMs,
+    }];
+
+    streakRef.current = correct ? streakRef.current + 1 : 0;
+    setStreak(streakRef.current);
+    if (correct) playDing();
+    else playBuzzer();
+    setFeedback({ kind: correct ? 'correct' : typed == null ? 'timeout' : 'wrong', word: word.text });
+    setWindowEndsAt(null);
+
+    advanceTimerRef.current = window.setTimeout(() => {
+      if (currentIndex >= words.length - 1) {
+        void finishGame(resultsRef.current);
+        return;
+      }
+      setCurrentIndex(currentIndex + 1);
+    }, REVEAL_DELAY_MS);
+  };
+
+  const submitAnswer = () => {
+    if (!inputValue.trim() || feedback) return;
+    settleWord(inputValue);
+  };
+
+  const replay = () => {
+    if (phase !== 'PLAYING' || !word || feedback) return;
+    void playWordPronunciation(word.text, word.language || 'en');
+    inputRef.current?.focus();
+  };
+
+  const windowFraction = windowEndsAt != null
+    ? Math.max(0, Math.min(1, (windowEndsAt - now) / windowMsRef.current))
+    : feedback ? 0 : 1;
+
+  const summaryCards = result
+    ? [
+        { labelEn: 'Total Score', labelZh: '总分', value: Math.round(result.totalScore) },
+        { labelEn: 'Accuracy', labelZh: '正确率', value: `${Math.round(result.accuracyRate * 100)}%` },
+        { labelEn: 'Best Streak', labelZh: '最长连对', value: `×${result.bestStreak}` },
+        { labelEn: 'Top Tempo', labelZh: '最快节奏', value: `${(result.fastestWindowMs / 1000).toFixed(1)}s` },
+      ]
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-[90] overflow-hidden bg-[radial-gradient(circle_at_top,_rgba(56,189,248,0.12),_transparent_28%),linear-gradient(180deg,_rgba(9,12,16,0.96),_rgba(12,14,18,1))]">
+      <div className="relative flex h-[100dvh] flex-col px-4 pb-4 pt-20 md:px-8 md:pb-6 md:pt-24">
+        <div className="sticky top-16 z-30 mb-4 flex shrink-0 items-start justify-between gap-4 pb-3">
+          <div>
+            <div className="text-xs font-mono uppercase tracking-[0.35em] text-sky-300/80">OPTION 8</div>
+            <h2 className="font-headline text-3xl text-white md:text-4xl">
+              <HoverTranslationText text="Audio Sprint" translation="听音冲刺" />
+            </h2>
+          </div>
+          <button
+            onClick={onCancel}
+            className="rounded-2xl border border-mid-charcoal bg-dark-charcoal/70 px-4 py-2 text-xs font-mono uppercase tracking-[0.25em] text-text-light transition-colors hover:border-white hover:text-white"
+          >
+            <HoverTranslationText text="Exit" translation="退出" />
+          </button>
+        </div>
+
+        {phase === 'INTRO' && (
+          <div className="flex flex-1 items-center justify-center">
+            <div className="w-full max-w-3xl rounded-[32px] border border-mid-charcoal bg-dark-charcoal/80 p-8 shadow-2xl backdrop-blur-md md:p-10">
+              <div className="grid gap-8 md:grid-cols-[1.15fr_0.85fr]">
+                <div className="space-y-5">
+                  <p className="text-sm leading-7 text-text-light md:text-base">
+                    <HoverTranslationText
+                      text="Listen only: each word plays once and you type it before the bar runs out. Every correct answer in a row shortens the next window; a miss resets the tempo."
+                      translation="只听不看：每个单词播放一次，在进度条耗尽前拼出来。连续答对会缩短下一题的作答时间；答错或超时则恢复初始节奏。"
+                    />
+                  </p>
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <div className="rounded-3xl border border-mid-charcoal bg-light-charcoal/30 p-4">
+                      <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">Words</div>
+                      <div className="mt-2 text-2xl font-headline text-white">{SPRINT_TOTAL_WORDS}</div>
+                    </div>
+                    <div className="rounded-3xl border border-mid-charcoal bg-light-charcoal/30 p-4">
+                      <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">Window</div>
+                      <div className="mt-2 text-2xl font-headline text-white">
+                        {SPRINT_START_WINDOW_MS / 1000}s → {SPRINT_MIN_WINDOW_MS / 1000}s
+                      </div>
+                    </div>
+                    <div className="rounded-3xl border border-mid-charcoal bg-light-charcoal/30 p-4">
+                      <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">Attempts</div>
+                      <div className="mt-2 text-2xl font-headline text-white">1 / word</div>
+                    </div>
+                    <div className="rounded-3xl border border-mid-charcoal bg-light-charcoal/30 p-4">
+                      <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">Replay</div>
+                      <div className="mt-2 text-2xl font-headline text-white">Free</div>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="rounded-[28px] border border-sky-400/25 bg-sky-500/5 p-6">
+                  <div className="text-xs font-mono uppercase tracking-[0.3em] text-sky-300/70">
+                    <HoverTranslationText text="Preparation" translation="准备状态" />
+                  </div>
+                  <div className="mt-4 text-sm leading-7 text-text-light">
+                    <HoverTranslationText
+                      text={`Words available: ${candidateCount}. You need at least ${SPRINT_TOTAL_WORDS} to start. Turn your sound on.`}
+                      translation={`当前可用单词：${candidateCount}。至少需要 ${SPRINT_TOTAL_WORDS} 个才能开始。请打开声音。`}
+                    />
+                  </div>
+                  <button
+                    onClick={() => void startGame()}
+                    disabled={!canStart}
+                    className={`mt-8 w-full rounded-2xl px-5 py-4 font-headline text-sm uppercase tracking-[0.3em] transition-all ${
+                      canStart
+                        ? 'bg-sky-400 text-charcoal hover:-translate-y-1 hover:shadow-[0_0_30px_rgba(56,189,248,0.25)]'
+                        : 'cursor-not-allowed bg-mid-charcoal text-text-dark'
+                    }`}
+                  >
+                    <HoverTranslationText text="Start Sprint" translation="开始冲刺" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {phase === 'LOADING' && (
+          <div className="flex flex-1 flex-col items-center justify-center gap-4 text-text-dark">
+            <span className="material-symbols-outlined animate-spin text-4xl text-sky-300">progress_activity</span>
+            <span className="font-mono text-xs uppercase tracking-[0.3em]">
+              <HoverTranslationText text="Loading audio..." translation="正在加载发音..." />
+            </span>
+          </div>
+        )}
+
+        {phase === 'PLAYING' && word && (
+          <div className="flex flex-1 flex-col items-center gap-4 overflow-y-auto">
+            <div className="grid w-full max-w-3xl grid-cols-3 gap-3">
+              <div className="rounded-2xl border border-mid-charcoal bg-dark-charcoal/70 px-4 py-3 text-center">
+                <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">Word</div>
+                <div className="mt-1 font-headline text-3xl text-sky-300">{currentIndex + 1}/{words.length}</div>
+              </div>
+              <div className="rounded-2xl border border-mid-charcoal bg-dark-charcoal/70 px-4 py-3 text-center">
+                <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">
+                  <HoverTranslationText text="Streak" translation="连对" />
+                </div>
+                <div className="mt-1 font-headline text-3xl text-electric-green">×{streak}</div>
+              </div>
+              <div className="rounded-2xl border border-mid-charcoal bg-dark-charcoal/70 px-4 py-3 text-center">
+                <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">
+                  <HoverTranslationText text="Tempo" translation="节奏" />
+                </div>
+                <div className="mt-1 font-headline text-3xl text-white">{getSprintTempo(streak).toFixed(1)}×</div>
+              </div>
+            </div>
+
+            <div className="w-full max-w-3xl space-y-6 rounded-[32px] border border-sky-400/20 bg-dark-charcoal/85 p-8 shadow-2xl">
+              <div className="h-2 w-full overflow-hidden rounded-full bg-mid-charcoal">
+                <div
+                  className={`h-full rounded-full transition-[width] duration-100 ${windowFraction < 0.25 ? 'bg-red-400' : 'bg-sky-400'}`}
+                  style={{ width: `${windowFraction * 100}%` }}
+                />
+              </div>
+
+              <div className="flex justify-center">
+                <button
+                  onClick={replay}
+                  disabled={Boolean(feedback)}
+                  className="flex h-24 w-24 items-center justify-center rounded-full border border-sky-400/40 bg-sky-500/10 text-sky-300 transition-colors hover:bg-sky-500/20 disabled:opacity-40"
+                  title="Replay"
+                >
+                  <span className="material-symbols-outlined text-5xl">volume_up</span>
+                </button>
+              </div>
+
+              {feedback ? (
+                <div className={`text-center font-headline text-4xl ${feedback.kind === 'correct' ? 'text-electric-green' : 'text-red-300'}`}>
+                  {feedback.word}
+                  {feedback.kind === 'timeout' && (
+                    <div className="mt-2 font-mono text-xs uppercase tracking-[0.25em] text-text-dark">
+                      <HoverTranslationText text="Time's up" translation="超时" />
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <input
+                  ref={inputRef}
+                  value={inputValue}
+                  onChange={(event) => setInputValue(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') submitAnswer();
+                  }}
+                  autoComplete="off"
+                  autoCapitalize="off"
+                  spellCheck={false}
+                  placeholder="type what you hear"
+                  className="w-full rounded-2xl border border-white/10 bg-black/40 px-5 py-4 text-center font-serif text-2xl text-white outline-none focus:border-sky-400"
+                />
+              )}
+            </div>
+          </div>
+        )}
+
+        {phase === 'RESULT' && result && (
+          <div className="flex flex-1 items-start justify-center overflow-y-auto py-4">
+            <div className="w-full max-w-4xl rounded-[34px] border border-mid-charcoal bg-dark-charcoal/85 p-8 shadow-2xl backdrop-blur-md md:p-10">
+              <div className="grid gap-8 md:grid-cols-[1.2fr_0.8fr]">
+                <div>
+                  <div className="text-xs font-mono uppercase tracking-[0.35em] text-sky-300/80">
+                    <HoverTranslationText text="Sprint Complete" translation="冲刺完成" />
+                  </div>
+                  <div className="mt-6 grid gap-3 sm:grid-cols-2">
+                    {summaryCards.map((item) => (
+                      <div key={item.labelEn} className="rounded-3xl border border-mid-charcoal bg-light-charcoal/25 p-4">
+                        <div className="text-xs font-mono uppercase tracking-[0.3em] text-text-dark">
+                          <HoverTranslationText text={item.labelEn} translation={item.labelZh} />
+                        </div>
+                        <div className="mt-2 font-headline text-3xl text-white">{item.value}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="mt-6 grid gap-x-6 gap-y-1 rounded-[28px] border border-mid-charcoal bg-light-charcoal/20 p-5 font-mono text-sm text-text-light sm:grid-cols-2">
+                    {result.results.map((r) => (
+                      <div key={r.wordId} className="flex items-center justify-between gap-3">
+                        <span className="truncate">{r.wordText}</span>
+                        <span className={r.correct ? 'text-electric-green' : 'text-red-300'}>
+                          {r.correct ? '✓' : r.timedOut ? '⏱' : '✗'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="mt-4 text-xs font-mono text-text-dark">
+                    <HoverTranslationText
+                      text={
+                        !result.rankingEligible
+                          ? `Overlap with today's earlier sprints is ${Math.round(result.overlapRate * 100)}% — not ranked.`
+                          : isSubmitting
+                            ? 'Writing round data to the sprint leaderboard...'
+                            : 'Round data has been sent to the sprint leaderboard.'
+                      }
+                      translation={
+                        !result.rankingEligible
+                          ? `与今天更早冲刺局的重复率为 ${Math.round(result.overlapRate * 100)}%，不计入排行榜。`
+                          : isSubmitting
+                            ? '正在将本局成绩写入听音冲刺排行榜...'
+                            : '本局成绩已提交到听音冲刺排行榜。'
+                      }
+                    />
+                  </div>
+
+                  <button
+                    onClick={onCancel}
+                    className="mt-6 w-full rounded-2xl bg-sky-400 px-4 py-4 font-headline text-sm uppercase tracking-[0.3em] text-charcoal transition-transform hover:-translate-y-1"
+                  >
+                    <HoverTranslationText text="Return to Dashboard" translation="返回主界面" />
+                  </button>
+                </div>
+
+                {/* Mounted after submission so the new round is already ranked */}
+                <div className="min-h-[360px]">
+                  {isSubmitting ? (
+                    <div className="flex h-full items-center justify-center text-text-dark">
+                      <span className="material-symbols-outlined animate-spin">progress_activity</span>
+                    </div>
+                  ) : (
+                    <SprintLeaderboardPanel />
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {preparationError && (
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 rounded-2xl border border-red-500/40 bg-red-500/15 px-4 py-3 text-sm text-red-200 shadow-2xl">
+            {preparationError}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SprintGameMode;
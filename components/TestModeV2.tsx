@@ -1,17 +1,21 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { WordEntry, InputSession, CompletedTestSummary } from '../types';
-import { updateWordStatusV2, updateWordMetadata } from '../services/dataService';
-import { supabase } from '../lib/supabaseClient'; // Adjusted import for supabase
+import { updateWordMetadata, recordDictationResults, submitWordReviews } from '../services/dataService';
+import { submitMutation } from '../services/offlineSyncQueue';
+import { fetchDictationSentences } from '../services/sceneGame';
 import { fetchDictionaryData, playWordAudio as playWordAudioService, preloadWordAudio } from '../services/dictionaryService';
 import { stopCurrentAudio as stopPronunciationAudio, clearAudioCache } from '../services/pronunciationService';
 import { playDing, playBuzzer, playCheer } from '../utils/audioFeedback';
 import { adaptiveWordSelector } from '../services/adaptiveWordSelector';
 import { LargeWordInput } from './LargeWordInput';
+import { DictationItem, DictationResult, SentenceDictation } from './SentenceDictation';
 import { Confetti } from './Confetti';
 import { MeaningFlipCard } from './MeaningFlipCard';
 import { HoverTranslationText } from './HoverTranslationText';
 import { useT } from '../hooks/useT';
 import { WORD_LEARNING_CONFIG } from '../config/wordLearningConfig';
+import { computeWordScheduleUpdate } from '../services/reviewScheduler';
+import { filterStudyableWords } from '../utils/wordState';
 
 interface TestModeV2Props {
   allWords: WordEntry[];
@@ -23,7 +27,7 @@ interface TestModeV2Props {
   onUpdateWord?: (id: string, updates: Partial<WordEntry>) => void;
 }
 
-type TestPhase = 'TESTING' | 'REVIEW_SUMMARY' | 'REVIEW_DRILL' | 'REVIEW_CONFIRM' | 'REVIEW_INSTANT_TEST' | 'FINAL_RESULT';
+type TestPhase = 'TESTING' | 'DICTATION' | 'REVIEW_SUMMARY' | 'REVIEW_DRILL' | 'REVIEW_CONFIRM' | 'REVIEW_INSTANT_TEST' | 'FINAL_RESULT';
 
 type ReviewReason = 'revealed' | 'unmastered_hint' | 'both';
 
@@ -189,6 +193,7 @@ const TestModeV2: React.FC<TestModeV2Props> = ({
     const [phase, setPhase] = useState<TestPhase>('TESTING');
   const [coverage, setCoverage] = useState(100);
   const [tempCoverage, setTempCoverage] = useState(100);
+  const [skippedInactiveCount, setSkippedInactiveCount] = useState(0);
   const [isSelectionConfirmed, setIsSelectionConfirmed] = useState(false);
   const [availablePool, setAvailablePool] = useState<WordEntry[]>([]);
   const [queue, setQueue] = useState<WordEntry[]>([]);
@@ -256,6 +261,9 @@ const TestModeV2: React.FC<TestModeV2Props> = ({
   // Milestone tracking settings
   const milestonesReached = useRef<Set<string>>(new Set());
   const nextTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Sentence dictation runs between the last word and the review flow
+  const [dictationItems, setDictationItems] = useState<DictationItem[]>([]);
+  const pendingReviewItemsRef = useRef<ReviewItem[]>([]);
 
   // Time tracking
   const [elapsedTime, setElapsedTime] = useState(0);
@@ -287,6 +295,14 @@ const TestModeV2: React.FC<TestModeV2Props> = ({
       }
       
       if (pool.length > 0) {
+        // Suspended / buried / known words stay out of the coverage pool,
+        // unless every picked word is inactive (then respect the explicit pick)
+        const studyablePool = filterStudyableWords(pool);
+        if (studyablePool.length > 0) {
+            setSkippedInactiveCount(pool.length - studyablePool.length);
+            pool = studyablePool;
+        }
+
         // Ensure uniqueness by word text (standardize to lowercase for comparison)
         const uniqueTextMap = new Map();
         pool.forEach(item => {
@@ -657,6 +673,58 @@ const TestModeV2: React.FC<TestModeV2Props> = ({
         setPhase('REVIEW_DRILL');
     }, [finalizeSession, reviewIndex, reviewQueue.length, resetReviewState]);
 
+    // Sentences for the dictation phase, fetched once the word list is final
+    useEffect(() => {
+        if (!WORD_LEARNING_CONFIG.dictation.enabled || !isStarted || queue.length === 0) return;
+        let cancelled = false;
+        const maxSentences = WORD_LEARNING_CONFIG.dictation.maxSentences;
+        fetchDictationSentences(queue.map(w => w.text), maxSentences).then(sentences => {
+            if (cancelled) return;
+            setDictationItems(queue
+                .filter(w => sentences[w.text.trim().toLowerCase()])
+                .slice(0, maxSentences)
+                .map(w => ({ word: w, sentence: sentences[w.text.trim().toLowerCase()] })));
+        });
+        return () => { cancelled = true; };
+    }, [isStarted, queue]);
+
+    const continueAfterDictation = useCallback(() => {
+        const reviewItems = pendingReviewItemsRef.current;
+        pendingReviewItemsRef.current = [];
+        if (reviewItems.length > 0) {
+            startReviewFlow(reviewItems);
+        } else {
+            finalizeSession();
+        }
+    }, [finalizeSession, startReviewFlow]);
+
+    const handleDictationComplete = useCallback((dictationResults: DictationResult[]) => {
+        const penalty = WORD_LEARNING_CONFIG.dictation.targetMissPenalty;
+        const dictationId = crypto.randomUUID();
+        // Non-blocking, like the per-word sync during the test
+        void recordDictationResults(
+            dictationResults.map(r => ({ wordId: r.wordId, targetCorrect: r.grade.targetCorrect })),
+            penalty,
+            dictationId
+        );
+        void submitWordReviews(dictationResults.map(r => ({
+            wordId: r.wordId,
+            mode: 'DICTATION',
+            correct: r.grade.targetCorrect,
+            attempts: 1,
+            hintLevel: 0,
+            timeSpentMs: null,
+            charsPerMinute: null,
+        })), dictationId);
+        if (onUpdateWord) {
+            dictationResults.filter(r => !r.grade.targetCorrect).forEach(r => {
+                const word = allWords.find(w => w.id === r.wordId);
+                onUpdateWord(r.wordId, { error_count: (word?.error_count || 0) + penalty, consecutive_correct: 0 });
+            });
+        }
+        continueAfterDictation();
+    }, [allWords, continueAfterDictation, onUpdateWord]);
+
   const stopAudio = useCallback(() => {
     // 1. Stop all cached audio elements to prevent overlaps during transitions
     resourceCacheRef.current.forEach(audio => {
@@ -797,18 +865,6 @@ const TestModeV2: React.FC<TestModeV2Props> = ({
   };
   
   // Tag "Mistake" helper
-  const addMistakeTag = async (wordId: string, currentTags: string[] = []) => {
-      if (currentTags.includes('Mistake')) return;
-      
-      const newTags = [...currentTags, 'Mistake'];
-      const { error } = await supabase
-        .from('words')
-        .update({ tags: newTags })
-        .eq('id', wordId);
-        
-      if (error) console.error("Failed to tag word as Mistake:", error.message);
-  };
-
     const handleNext = useCallback(async (score: number, resolvedDurationMs?: number) => {
       // Clear any pending timeouts
       if (nextTimeoutRef.current) {
@@ -876,17 +932,50 @@ const TestModeV2: React.FC<TestModeV2Props> = ({
           consecutiveCorrect: currentWordSnapshot?.consecutive_correct || 0  // Error decay: current consecutive correct count
       };
 
-      // Non-blocking DB sync: updateWordStatusV2 is a per-word read-modify-write (error decay,
-      // best_time, consecutive_correct). Keep per-word for correctness + crash recovery, but
-      // fire-and-forget so word advancement never waits on the network.
-      void updateWordStatusV2(currentWordSnapshot.id, dbUpdates).catch((e) => {
-        console.error("Failed to sync word status to DB:", e);
-      });
-
-      // --- Add to Mistake Bank if Score is 0 ---
-      if (!success) {
-        addMistakeTag(currentWordSnapshot.id, currentWordSnapshot.tags);
-      }
+      const wrongAttempts = currentAttempts + currentHintAttemptsSnapshot;
+      const reviewEntry = {
+          wordId: currentWordSnapshot.id,
+          mode: 'CLASSIC' as const,
+          correct: success,
+          attempts: success ? wrongAttempts + 1 : Math.max(1, wrongAttempts),
+          hintLevel: hasUsedHintSnapshot ? Math.max(1, hintLevel) : 0,
+          timeSpentMs: wordDurationMs > 0 ? wordDurationMs : null,
+          charsPerMinute: wordDurationMs > 0 ? calculateAverageCharsPerMinute(currentWordSnapshot.text, wordDurationMs) : null
+      };
+      const answeredAt = Date.now();
+      const wordId = currentWordSnapshot.id;
+      const answerId = crypto.randomUUID();
+      // Non-blocking DB sync through the outbox: run now when online, queued on the subway and
+      // replayed on reconnect. updateWordStatusV2 is a per-word read-modify-write (error decay,
+      // best_time, consecutive_correct), so the three writes share the word's ordering key and
+      // a later answer never overtakes a queued one. Word advancement never waits on the network.
+      void (async () => {
+          try {
+              await submitMutation({
+                  type: 'word_status',
+                  payload: {
+                      wordId,
+                      correct: success,
+                      score,
+                      errorCountIncrement: errorCountDelta,
+                      bestTimeMs: dbUpdates.best_time_ms,
+                      hasUsedHint: hasUsedHintSnapshot,
+                      reviewedAt: answeredAt
+                  }
+              }, { key: `word_status:${answerId}` });
+              // --- Add to Mistake Bank if Score is 0 ---
+              if (!success && !(currentWordSnapshot.tags || []).includes('Mistake')) {
+                  await submitMutation({ type: 'mistake_tag', payload: { wordId } }, { key: `mistake_tag:${answerId}` });
+              }
+              // Then append this attempt to the per-word review log
+              await submitMutation(
+                  { type: 'review_log', payload: { ...reviewEntry, reviewedAt: answeredAt } },
+                  { key: `review_log:${answerId}` }
+              );
+          } catch (e) {
+              console.error("Failed to submit word result:", e);
+          }
+      })();
 
       // 2. Real-time Local Update (for Calendar/Library synchronization)
       if (onUpdateWord) {
@@ -925,14 +1014,23 @@ const TestModeV2: React.FC<TestModeV2Props> = ({
             newTags = newTags.filter((t: string) => t !== 'Mistake');
           }
 
+          // Mirror the schedule updateWordStatusV2 persists, so the due queue stays current
+          const reviewedAt = Date.now();
+          const schedule = computeWordScheduleUpdate(
+              currentWordSnapshot,
+              { correct: success, hasUsedHint: hasUsedHintSnapshot, errorIncrement: errorCountDelta },
+              reviewedAt
+          );
+
           onUpdateWord(currentWordSnapshot.id, {
               correct: success,
               score: score,
               tested: true,
-              last_tested: Date.now(),
+              last_tested: reviewedAt,
               error_count: updatedErrorCount,
               consecutive_correct: newConsecutiveCorrect,
-              tags: newTags
+              tags: newTags,
+              ...schedule
           });
       }
 
@@ -1005,7 +1103,10 @@ const TestModeV2: React.FC<TestModeV2Props> = ({
           const reviewItems = buildReviewQueue(newResults);
 
           setTimeout(() => {
-              if (reviewItems.length > 0) {
+              if (dictationItems.length > 0) {
+                  pendingReviewItemsRef.current = reviewItems;
+                  setPhase('DICTATION');
+              } else if (reviewItems.length > 0) {
                   startReviewFlow(reviewItems);
               } else {
                   finalizeSession();
@@ -1026,7 +1127,7 @@ const TestModeV2: React.FC<TestModeV2Props> = ({
                     hintWrongLettersByPositionRef.current = new Map();
           resetWordTimingState();
       }
-                }, [buildReviewQueue, currentAttempts, currentIndex, currentWord, currentWordStartTime, finalizeSession, hasUsedHint, hintAttempts, hintLetterTrialCount, isRevealed, onUpdateWord, queue, resetWordTimingState, results, startReviewFlow, streak]);
+                }, [buildReviewQueue, currentAttempts, currentIndex, currentWord, currentWordStartTime, dictationItems.length, finalizeSession, hasUsedHint, hintAttempts, hintLetterTrialCount, hintLevel, isRevealed, onUpdateWord, queue, resetWordTimingState, results, startReviewFlow, streak]);
 
   const handleReveal = () => {
       const resolvedDurationMs = currentWordStartTime > 0 ? Math.max(0, Date.now() - currentWordStartTime) : 0;
@@ -1211,6 +1312,16 @@ const TestModeV2: React.FC<TestModeV2Props> = ({
     // Reversed history is used by both the active session and final result views.
     const historyItems = [...results].reverse();
 
+    if (phase === 'DICTATION') {
+        return (
+            <SentenceDictation
+                items={dictationItems}
+                onComplete={handleDictationComplete}
+                onSkip={continueAfterDictation}
+            />
+        );
+    }
+
     if (phase === 'FINAL_RESULT') {
       const completionSummary = buildCompletionSummary(results);
       const correctCount = results.filter(r => r.correct).length;
@@ -1321,6 +1432,14 @@ const TestModeV2: React.FC<TestModeV2Props> = ({
                 </p>
                 <p className="text-xs text-gray-500 mb-8 font-body">
                     Listen carefully to the audio and spell the word correctly.
+                    {skippedInactiveCount > 0 && (
+                        <span className="block mt-1 text-yellow-400/80">
+                            <HoverTranslationText
+                                text={`${skippedInactiveCount} suspended, buried or known words skipped.`}
+                                translation={`已跳过 ${skippedInactiveCount} 个暂停、搁置或已掌握的单词。`}
+                            />
+                        </span>
+                    )}
                 </p>
 
                 {/* Coverage Slider */}
@@ -0,0 +1,96 @@
+import React from 'react';
+import { WordReviewLogEntry } from '../types';
+import { HoverTranslationText } from './HoverTranslationText';
+
+interface WordAttemptsChartProps {
+  entries: WordReviewLogEntry[];
+}
+
+const POINT_COLORS = {
+  correct: '#22c55e',
+  hinted: '#facc15',
+  failed: '#ef4444',
+};
+
+const getOutcome = (entry: WordReviewLogEntry): keyof typeof POINT_COLORS => {
+  if (!entry.correct) return 'failed';
+  return entry.hintLevel > 0 ? 'hinted' : 'correct';
+};
+
+/**
+ * WordAttemptsChart - One point per logged attempt at a word
+ * X = attempt order, Y = time spent; colour = correct / hinted / failed
+ */
+export const WordAttemptsChart: React.FC<WordAttemptsChartProps> = ({ entries }) => {
+  if (entries.length === 0) {
+    return (
+      <div className="h-[160px] flex flex-col items-center justify-center text-text-dark">
+        <span className="material-symbols-outlined text-4xl mb-2">show_chart</span>
+        <p className="font-mono text-xs"><HoverTranslationText text="No attempts recorded yet" translation="暂无答题记录" /></p>
+      </div>
+    );
+  }
+
+  const chartWidth = 400;
+  const chartHeight = 160;
+  const padding = { top: 16, right: 16, bottom: 24, left: 40 };
+  const plotHeight = chartHeight - padding.top - padding.bottom;
+
+  const seconds = entries.map(e => (e.timeSpentMs != null ? e.timeSpentMs / 1000 : 0));
+  const maxSeconds = Math.max(1, ...seconds);
+
+  const points = entries.map((entry, index) => ({
+    x: padding.left + (index / (entries.length - 1 || 1)) * (chartWidth - padding.left - padding.right),
+    y: padding.top + (1 - seconds[index] / maxSeconds) * plotHeight,
+    entry,
+    outcome: getOutcome(entry),
+  }));
+
+  const pathD = `M ${points[0].x} ${points[0].y} ` + points.slice(1).map(p => `L ${p.x} ${p.y}`).join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${chartWidth} ${chartHeight}`} className="w-full h-auto" style={{ maxHeight: '180px' }}>
+        <text x={padding.left - 8} y={padding.top + 4} textAnchor="end" className="fill-text-dark font-mono text-xs">
+          {Math.round(maxSeconds)}s
+        </text>
+        <text x={padding.left - 8} y={chartHeight - padding.bottom} textAnchor="end" className="fill-text-dark font-mono text-xs">
+          0s
+        </text>
+
+        {[0, 0.5, 1].map(ratio => (
+          <line
+            key={ratio}
+            x1={padding.left}
+            y1={padding.top + ratio * plotHeight}
+            x2={chartWidth - padding.right}
+            y2={padding.top + ratio * plotHeight}
+            stroke="#374151"
+            strokeWidth="0.5"
+            strokeDasharray="4 4"
+          />
+        ))}
+
+        <path d={pathD} fill="none" stroke="#3b82f6" strokeWidth="1.5" strokeOpacity="0.5" />
+
+        {points.map((point) => (
+          <circle key={point.entry.id} cx={point.x} cy={point.y} r="4" fill={POINT_COLORS[point.outcome]}>
+            <title>
+              {new Date(point.entry.reviewedAt).toLocaleString()}
+              {'\n'}{point.entry.mode} · {point.outcome}
+              {'\n'}Attempts: {point.entry.attempts}
+              {point.entry.timeSpentMs != null ? `\nTime: ${(point.entry.timeSpentMs / 1000).toFixed(1)}s` : ''}
+              {point.entry.charsPerMinute != null ? `\nCPM: ${point.entry.charsPerMinute}` : ''}
+            </title>
+          </circle>
+        ))}
+      </svg>
+
+      <div className="flex justify-center gap-4 mt-1 font-mono text-[10px] text-text-dark">
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-green-500" /><HoverTranslationText text="Correct" translation="正确" /></span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-yellow-400" /><HoverTranslationText text="Hinted" translation="提示" /></span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-red-500" /><HoverTranslationText text="Failed" translation="错误" /></span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,432 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { WordEntry, WordMeaningOption, WordReviewLogEntry } from '../types';
+import { HoverTranslationText } from './HoverTranslationText';
+import { WordAttemptsChart } from './WordAttemptsChart';
+import {
+  fetchWordReviewTimeline,
+  resetWordProgress,
+  updateWordStudyState,
+  WordStudyStatePatch,
+} from '../services/dataService';
+import { submitMutation } from '../services/offlineSyncQueue';
+import { playWordAudio } from '../services/dictionaryService';
+import { daysUntilDue } from '../utils/sm2Algorithm';
+import { getShanghaiEndOfDayTimestamp } from '../utils/timezone';
+import { getWordStudyState } from '../utils/wordState';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface WordDetailModalProps {
+  word: WordEntry;
+  isGeneratingImage: boolean;
+  onClose: () => void;
+  onUpdateWord: (id: string, updates: Partial<WordEntry>) => void;
+  onRegenerateImage: () => void;
+}
+
+const formatDate = (timestamp: number | null | undefined) => (
+  timestamp ? new Date(timestamp).toLocaleDateString() : '—'
+);
+
+const formatDue = (word: WordEntry) => {
+  const days = daysUntilDue(word);
+  if (days === null) return word.tested ? 'Due (unscheduled)' : 'New';
+  if (days <= 0) return days > -1 ? 'Due today' : `Overdue ${Math.floor(-days)}d`;
+  return `In ${Math.ceil(days)}d`;
+};
+
+const StatRow: React.FC<{ label: React.ReactNode; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex justify-between items-center py-1 border-b border-mid-charcoal/30 last:border-0">
+    <span className="text-[10px] text-text-dark uppercase font-mono">{label}</span>
+    <span className="text-xs text-text-light font-mono">{value}</span>
+  </div>
+);
+
+/**
+ * WordDetailModal - Everything known about one word in one place:
+ * meanings, phonetic, image, tags, scheduling state, attempt timeline,
+ * and per-word actions (reset, suspend / bury / mark known, change meaning,
+ * regenerate image).
+ * Opened from the LIBRARY grid.
+ */
+export const WordDetailModal: React.FC<WordDetailModalProps> = ({
+  word,
+  isGeneratingImage,
+  onClose,
+  onUpdateWord,
+  onRegenerateImage,
+}) => {
+  const [timeline, setTimeline] = useState<WordReviewLogEntry[]>([]);
+  const [timelineLoading, setTimelineLoading] = useState(true);
+  const [timelineError, setTimelineError] = useState(false);
+  const [busyAction, setBusyAction] = useState<'reset' | 'state' | 'meaning' | null>(null);
+  const [confirmReset, setConfirmReset] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setTimelineLoading(true);
+    setTimelineError(false);
+    fetchWordReviewTimeline(word.id)
+      .then(entries => { if (!cancelled) setTimeline(entries); })
+      .catch(() => { if (!cancelled) setTimelineError(true); })
+      .finally(() => { if (!cancelled) setTimelineLoading(false); });
+    return () => { cancelled = true; };
+  }, [word.id]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const meaningOptions = (word.meaning_options || []).filter(option => option?.meaningZh?.trim());
+  const selectedKey = word.selected_meaning_key || meaningOptions[0]?.key || null;
+
+  // Error history: every failed or hinted attempt, newest first
+  const errorHistory = useMemo(
+    () => timeline.filter(e => !e.correct || e.hintLevel > 0).reverse(),
+    [timeline]
+  );
+
+  const handlePlay = async () => {
+    if (isPlaying) return;
+    setIsPlaying(true);
+    try {
+      await playWordAudio(word.text, word.language || 'en');
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  const handleSelectMeaning = async (option: WordMeaningOption) => {
+    if (busyAction || option.key === selectedKey) return;
+    setBusyAction('meaning');
+    try {
+      const updates = {
+        selected_meaning_key: option.key,
+        definition_cn: option.meaningZh,
+        definition_en: option.definitionEn || word.definition_en || undefined,
+      };
+      // Latest choice wins: a queued (offline) selection is replaced, not stacked
+      const base = {
+        selected_meaning_key: word.selected_meaning_key ?? null,
+        definition_cn: word.definition_cn,
+        definition_en: word.definition_en,
+        field_versions: word.field_versions,
+      };
+      const outcome = await submitMutation(
+        { type: 'word_metadata', payload: { wordId: word.id, updates, base, editedAt: Date.now() } },
+        { key: `word_metadata:${word.id}`, supersede: true },
+      );
+      if (outcome.status === 'dead') throw new Error(outcome.error);
+      onUpdateWord(word.id, updates);
+    } catch (error) {
+      console.error('[WordDetailModal] Change meaning failed:', error);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const applyStudyState = async (patch: WordStudyStatePatch) => {
+    if (busyAction) return;
+    setBusyAction('state');
+    try {
+      await updateWordStudyState([word.id], patch);
+      onUpdateWord(word.id, patch);
+    } catch (error) {
+      console.error('[WordDetailModal] Study state update failed:', error);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  // Bury until the end of today (Shanghai) plus `extraDays`
+  const buryFor = (extraDays: number) => applyStudyState({
+    buried_until: getShanghaiEndOfDayTimestamp() + extraDays * DAY_MS,
+  });
+
+  const handleReset = async () => {
+    if (busyAction) return;
+    setBusyAction('reset');
+    try {
+      const reset = await resetWordProgress(word.id, word.tags);
+      onUpdateWord(word.id, reset);
+      setConfirmReset(false);
+    } catch (error) {
+      console.error('[WordDetailModal] Reset progress failed:', error);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const correctCount = timeline.filter(e => e.correct).length;
+  const studyState = getWordStudyState(word);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[200] flex items-center justify-center p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="bg-light-charcoal border border-mid-charcoal rounded-3xl w-full max-w-4xl max-h-[90vh] overflow-y-auto custom-scrollbar shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4 p-6 border-b border-mid-charcoal">
+          <div className="min-w-0">
+            <div className="flex items-center gap-3 flex-wrap">
+              <h2 className="font-headline text-4xl text-white tracking-wide break-all">{word.text}</h2>
+              <button
+                onClick={handlePlay}
+                className={`w-9 h-9 rounded-full flex items-center justify-center hover:bg-electric-blue hover:text-charcoal transition-colors ${isPlaying ? 'text-electric-green animate-pulse' : 'text-text-light'}`}
+                aria-label={`Play pronunciation for ${word.text}`}
+              >
+                <span className="material-symbols-outlined">volume_up</span>
+              </button>
+              {studyState === 'known' && (
+                <span className="px-2 py-0.5 rounded-full bg-electric-green/10 border border-electric-green/40 text-electric-green font-mono text-[10px] uppercase">
+                  <HoverTranslationText text="Known" translation="已掌握" />
+                </span>
+              )}
+              {studyState === 'suspended' && (
+                <span className="px-2 py-0.5 rounded-full bg-yellow-400/10 border border-yellow-400/40 text-yellow-400 font-mono text-[10px] uppercase">
+                  <HoverTranslationText text="Suspended" translation="已暂停" />
+                </span>
+              )}
+              {studyState === 'buried' && (
+                <span className="px-2 py-0.5 rounded-full bg-yellow-400/10 border border-yellow-400/40 text-yellow-400 font-mono text-[10px] uppercase">
+                  <HoverTranslationText
+                    text={`Buried until ${new Date(word.buried_until!).toLocaleDateString()}`}
+                    translation="搁置中"
+                  />
+                </span>
+              )}
+            </div>
+            {word.phonetic && <p className="font-mono text-sm text-electric-blue mt-1">{word.phonetic}</p>}
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              {(word.tags || []).map(tag => (
+                <span
+                  key={tag}
+                  className={`px-2 py-0.5 rounded-full font-mono text-[10px] border ${tag === 'Mistake' ? 'border-red-500/40 text-red-400 bg-red-500/10' : 'border-mid-charcoal text-text-light bg-dark-charcoal'}`}
+                >
+                  {tag}
+                </span>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-mid-charcoal rounded-full text-text-light transition-colors flex-shrink-0"
+            aria-label="Close"
+          >
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-6">
+          {/* Left column: image + meanings */}
+          <div className="space-y-6">
+            <div className="relative aspect-square rounded-2xl overflow-hidden bg-dark-charcoal border border-mid-charcoal">
+              {word.image_url ? (
+                <img src={word.image_url} alt={word.text} className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full flex flex-col items-center justify-center text-text-dark">
+                  <span className="material-symbols-outlined text-5xl mb-2">image</span>
+                  <span className="font-mono text-xs"><HoverTranslationText text="No image yet" translation="暂无图片" /></span>
+                </div>
+              )}
+              <button
+                onClick={onRegenerateImage}
+                disabled={isGeneratingImage}
+                className={`absolute bottom-3 right-3 px-3 py-1.5 rounded-full bg-dark-charcoal/80 border border-mid-charcoal font-mono text-xs flex items-center gap-1 transition-colors ${isGeneratingImage ? 'opacity-70 cursor-wait text-text-dark' : 'text-text-light hover:text-electric-blue'}`}
+              >
+                <span className={`material-symbols-outlined text-sm ${isGeneratingImage ? 'animate-spin' : ''}`}>{isGeneratingImage ? 'sync' : 'refresh'}</span>
+                {word.image_url
+                  ? <HoverTranslationText text="Regenerate" translation="重新生成" />
+                  : <HoverTranslationText text="Generate" translation="生成" />}
+              </button>
+            </div>
+
+            <div>
+              <h3 className="font-headline text-lg text-electric-blue tracking-widest uppercase mb-3">
+                <HoverTranslationText text="Meanings" translation="释义" />
+              </h3>
+              {meaningOptions.length === 0 ? (
+                <p className="text-sm text-text-light">{word.definition_cn?.trim() || '暂无中文释义'}</p>
+              ) : (
+                <div className="space-y-2">
+                  {meaningOptions.map(option => {
+                    const isSelected = option.key === selectedKey;
+                    return (
+                      <button
+                        key={option.key}
+                        onClick={() => handleSelectMeaning(option)}
+                        disabled={busyAction !== null}
+                        className={`w-full text-left px-4 py-3 rounded-xl border transition-all ${isSelected ? 'bg-electric-blue/10 border-electric-blue' : 'bg-dark-charcoal border-mid-charcoal hover:border-text-light'} ${busyAction === 'meaning' ? 'cursor-wait' : ''}`}
+                      >
+                        <div className="flex items-center gap-2">
+                          {option.partOfSpeech && <span className="font-mono text-[10px] text-text-dark">{option.partOfSpeech}</span>}
+                          <span className={`text-sm ${isSelected ? 'text-white' : 'text-text-light'}`}>{option.meaningZh}</span>
+                          {isSelected && <span className="material-symbols-outlined text-electric-blue text-sm ml-auto">check_circle</span>}
+                        </div>
+                        {option.definitionEn && <p className="text-[11px] text-text-dark mt-1 leading-snug">{option.definitionEn}</p>}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Right column: progress + timeline + actions */}
+          <div className="space-y-6">
+            <div>
+              <h3 className="font-headline text-lg text-electric-blue tracking-widest uppercase mb-3">
+                <HoverTranslationText text="Progress" translation="学习进度" />
+              </h3>
+              <div className="bg-dark-charcoal rounded-2xl p-4 border border-mid-charcoal/50">
+                <StatRow label="Error count" value={word.error_count.toFixed(1)} />
+                <StatRow label="Correct streak" value={word.consecutive_correct || 0} />
+                <StatRow label="Best time" value={word.best_time_ms ? `${(word.best_time_ms / 1000).toFixed(1)}s` : '—'} />
+                <StatRow label="Last tested" value={formatDate(word.last_tested)} />
+                <StatRow label="Next review" value={formatDue(word)} />
+                <StatRow label="SM-2 interval" value={`${word.sm2_interval || 0}d`} />
+                <StatRow label="SM-2 reps / ease" value={`${word.sm2_repetitions || 0} / ${(word.sm2_ease_factor ?? 2.5).toFixed(2)}`} />
+                {word.fsrs_stability != null && (
+                  <StatRow label="FSRS stability / difficulty" value={`${word.fsrs_stability.toFixed(1)}d / ${(word.fsrs_difficulty ?? 0).toFixed(1)}`} />
+                )}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-baseline justify-between mb-3">
+                <h3 className="font-headline text-lg text-electric-blue tracking-widest uppercase">
+                  <HoverTranslationText text="Attempts" translation="答题记录" />
+                </h3>
+                {timeline.length > 0 && (
+                  <span className="font-mono text-[10px] text-text-dark">{correctCount}/{timeline.length} correct</span>
+                )}
+              </div>
+              {timelineLoading ? (
+                <div className="h-[160px] flex items-center justify-center">
+                  <div className="animate-spin rounded-full h-6 w-6 border-4 border-electric-blue border-t-transparent" />
+                </div>
+              ) : timelineError ? (
+                <p className="text-text-dark font-mono text-xs"><HoverTranslationText text="Failed to load history" translation="历史记录加载失败" /></p>
+              ) : (
+                <WordAttemptsChart entries={timeline} />
+              )}
+            </div>
+
+            {errorHistory.length > 0 && (
+              <div>
+                <h3 className="font-headline text-lg text-electric-blue tracking-widest uppercase mb-3">
+                  <HoverTranslationText text="Error History" translation="错误记录" />
+                </h3>
+                <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+                  {errorHistory.map(entry => (
+                    <div key={entry.id} className="flex items-center gap-2 font-mono text-[11px] text-text-light">
+                      <span className={`material-symbols-outlined text-sm ${entry.correct ? 'text-yellow-400' : 'text-red-400'}`}>
+                        {entry.correct ? 'lightbulb' : 'close'}
+                      </span>
+                      <span className="text-text-dark">{new Date(entry.reviewedAt).toLocaleString()}</span>
+                      <span>{entry.mode}</span>
+                      <span className="ml-auto text-text-dark">×{entry.attempts}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-2">
+              {studyState === 'buried' ? (
+                <button
+                  onClick={() => applyStudyState({ buried_until: null })}
+                  disabled={busyAction !== null}
+                  className="col-span-3 py-2 rounded-xl bg-mid-charcoal text-text-light hover:bg-yellow-400 hover:text-charcoal transition-all font-mono text-xs flex items-center justify-center gap-1 disabled:opacity-50"
+                >
+                  <span className="material-symbols-outlined text-sm">wb_sunny</span>
+                  <HoverTranslationText text="Unbury" translation="取消搁置" />
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={() => buryFor(0)}
+                    disabled={busyAction !== null}
+                    className="py-2 rounded-xl bg-mid-charcoal text-text-light hover:bg-yellow-400 hover:text-charcoal transition-all font-mono text-xs flex items-center justify-center gap-1 disabled:opacity-50"
+                  >
+                    <span className="material-symbols-outlined text-sm">bedtime</span>
+                    <HoverTranslationText text="Bury 1 day" translation="搁置 1 天" />
+                  </button>
+                  <button
+                    onClick={() => buryFor(6)}
+                    disabled={busyAction !== null}
+                    className="py-2 rounded-xl bg-mid-charcoal text-text-light hover:bg-yellow-400 hover:text-charcoal transition-all font-mono text-xs flex items-center justify-center gap-1 disabled:opacity-50"
+                  >
+                    <span className="material-symbols-outlined text-sm">bedtime</span>
+                    <HoverTranslationText text="Bury 1 week" translation="搁置 1 周" />
+                  </button>
+                </>
+              )}
+              {studyState !== 'buried' && (
+                <button
+                  onClick={() => applyStudyState({ known: !word.known })}
+                  disabled={busyAction !== null}
+                  className="py-2 rounded-xl bg-mid-charcoal text-text-light hover:bg-electric-green hover:text-charcoal transition-all font-mono text-xs flex items-center justify-center gap-1 disabled:opacity-50"
+                >
+                  <span className="material-symbols-outlined text-sm">{word.known ? 'undo' : 'verified'}</span>
+                  {word.known
+                    ? <HoverTranslationText text="Not known" translation="取消已掌握" />
+                    : <HoverTranslationText text="I know it" translation="已掌握" />}
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                onClick={() => applyStudyState({ suspended: !word.suspended })}
+                disabled={busyAction !== null}
+                className="py-3 rounded-xl bg-mid-charcoal text-text-light hover:bg-yellow-400 hover:text-charcoal transition-all font-headline tracking-wider flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                <span className="material-symbols-outlined text-base">{word.suspended ? 'play_arrow' : 'pause'}</span>
+                {word.suspended
+                  ? <HoverTranslationText text="Resume" translation="恢复" />
+                  : <HoverTranslationText text="Suspend" translation="暂停" />}
+              </button>
+              {confirmReset ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => setConfirmReset(false)}
+                    disabled={busyAction !== null}
+                    className="py-3 rounded-xl bg-mid-charcoal text-text-light hover:bg-text-dark hover:text-charcoal transition-all font-headline tracking-wider"
+                  >
+                    取消
+                  </button>
+                  <button
+                    onClick={handleReset}
+                    disabled={busyAction !== null}
+                    className="py-3 rounded-xl bg-red-500 text-white hover:bg-red-400 transition-all font-headline tracking-wider disabled:opacity-50"
+                  >
+                    {busyAction === 'reset' ? '...' : '确认'}
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setConfirmReset(true)}
+                  disabled={busyAction !== null}
+                  className="py-3 rounded-xl bg-red-500/10 text-red-400 border border-red-500/20 hover:bg-red-500/20 transition-all font-headline tracking-wider flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  <span className="material-symbols-outlined text-base">restart_alt</span>
+                  <HoverTranslationText text="Reset Progress" translation="重置进度" />
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -11,6 +11,7 @@
  * 1. Error Tracking - How errors are counted / 错误追踪 - 如何计算错误
  * 2. Error Decay - How errors are reduced over time / 错误衰减 - 如何随时间减少错误
  * 3. Adaptive Selection - How words are prioritized for testing / 自适应选择 - 如何优先选择测试单词
+ * 3b. Review Scheduler - SM-2 / FSRS review intervals / 复习调度器 - SM-2 / FSRS 复习间隔
  * 4. Scoring System - How performance is scored / 评分系统 - 如何评分
  */
 
@@ -193,13 +194,77 @@ export const WORD_LEARNING_CONFIG = {
     /**
      * Legacy SRS queue weights (deprecated, kept for reference)
      * 旧版 SRS 队列权重（已弃用，保留作为参考）
-     * Formula: (error_count × this value) + daysSinceLast
-     * 公式：（error_count × 此值）+ 距离上次天数
+     * Formula: (error_count × this value) + forgettingRisk × defaultDaysSinceLastTest
+     * 公式：（error_count × 此值）+ 遗忘风险 × defaultDaysSinceLastTest
+     * forgettingRisk (0-1) comes from the active review scheduler
+     * 遗忘风险（0-1）由当前复习调度器给出
      */
     legacyErrorWeight: 5,
     legacyRandomBonus: 10,
   },
 
+  // ============================================
+  // 3b. REVIEW SCHEDULER CONFIGURATION
+  // 3b. 复习调度器配置
+  // ============================================
+  scheduler: {
+    /**
+     * Scheduler used when the user has not picked one in the Account panel
+     * 用户未在账户面板中选择时使用的调度器
+     * 'sm2': SM-2 intervals (see utils/sm2Algorithm.ts)
+     * 'fsrs': FSRS memory model (see utils/fsrsAlgorithm.ts)
+     * Default: 'sm2'
+     */
+    defaultKind: 'sm2' as 'sm2' | 'fsrs',
+
+    /**
+     * FSRS memory model parameters
+     * FSRS 记忆模型参数
+     */
+    fsrs: {
+      /**
+       * Target recall probability when a word becomes due
+       * 单词到期时的目标回忆概率
+       * Higher = shorter intervals, more reviews / 更高 = 间隔更短，复习更多
+       * Default: 0.9
+       */
+      requestRetention: 0.9,
+
+      /**
+       * Upper bound for a scheduled interval (days)
+       * 调度间隔上限（天）
+       * Default: 365
+       */
+      maximumIntervalDays: 365,
+
+      /**
+       * Default FSRS-4.5 weights (w0..w16), used until per-user weights are optimized
+       * 默认 FSRS-4.5 权重（w0..w16），在个人权重优化前使用
+       * w0-w3: initial stability per grade / 各评级的初始稳定性
+       * w4-w7: difficulty / 难度
+       * w8-w10, w15, w16: stability after recall / 回忆后的稳定性
+       * w11-w14: stability after lapse / 遗忘后的稳定性
+       */
+      defaultWeights: [
+        0.4872, 1.4003, 3.7145, 13.8206,
+        5.1618, 1.2298, 0.8975, 0.031,
+        1.6474, 0.1367, 1.0461,
+        2.1072, 0.0793, 0.3246, 1.587,
+        0.2272, 2.8755,
+      ],
+
+      /**
+       * Offline weight optimizer (fits per-user weights from review history)
+       * 离线权重优化器（根据复习历史拟合个人权重）
+       */
+      optimizer: {
+        minReviews: 200,   // Scored reviews required before optimizing / 优化所需的最少复习次数
+        iterations: 30,    // Coordinate-descent passes / 坐标下降轮数
+        stepSize: 0.05,    // Relative step per weight / 每个权重的相对步长
+      },
+    },
+  },
+
   // ============================================
   // 4. SCORING SYSTEM CONFIGURATION
   // 4. 评分系统配置
@@ -396,6 +461,33 @@ export const WORD_LEARNING_CONFIG = {
     },
   },
 
+  // ============================================
+  // 8b. SENTENCE DICTATION CONFIGURATION
+  // 8b. 句子听写配置
+  // ============================================
+  dictation: {
+    /**
+     * Run a sentence dictation phase after a CLASSIC test
+     * CLASSIC 测试结束后进入句子听写环节
+     * Sentences come from earlier scene rounds first, then dictionary examples
+     * 优先使用场景游戏中生成的例句，其次使用词典例句
+     */
+    enabled: true,
+
+    /**
+     * Maximum sentences per test / 每次测试最多听写的句子数
+     */
+    maxSentences: 3,
+
+    /**
+     * error_count increment when the target word is missed or misspelled in the sentence
+     * 句中目标单词漏写或拼错时的错误增量
+     * Lower than a failed spelling: the word was heard in context, not in isolation
+     * 低于单词拼写失败的惩罚：在语境中听写难度更高
+     */
+    targetMissPenalty: 0.5,
+  },
+
   // ============================================
   // 9. PRONUNCIATION ASSET CONFIGURATION
   // 9. 发音资产配置
@@ -464,6 +556,10 @@ Object.freeze(WORD_LEARNING_CONFIG.errorTracking.hintPenalties);
 Object.freeze(WORD_LEARNING_CONFIG.errorDecay);
 Object.freeze(WORD_LEARNING_CONFIG.adaptiveSelection);
 Object.freeze(WORD_LEARNING_CONFIG.adaptiveSelection.weights);
+Object.freeze(WORD_LEARNING_CONFIG.scheduler);
+Object.freeze(WORD_LEARNING_CONFIG.scheduler.fsrs);
+Object.freeze(WORD_LEARNING_CONFIG.scheduler.fsrs.defaultWeights);
+Object.freeze(WORD_LEARNING_CONFIG.scheduler.fsrs.optimizer);
 Object.freeze(WORD_LEARNING_CONFIG.scoring);
 Object.freeze(WORD_LEARNING_CONFIG.ui);
 Object.freeze(WORD_LEARNING_CONFIG.ui.coverageSlider);
@@ -476,6 +572,7 @@ Object.freeze(WORD_LEARNING_CONFIG.leaderboard.qualification);
 Object.freeze(WORD_LEARNING_CONFIG.leaderboard.display);
 Object.freeze(WORD_LEARNING_CONFIG.leaderboard.cache);
 Object.freeze(WORD_LEARNING_CONFIG.leaderboard.privacy);
+Object.freeze(WORD_LEARNING_CONFIG.dictation);
 Object.freeze(WORD_LEARNING_CONFIG.pronunciation);
 
 /**
@@ -56,6 +56,36 @@ export const translations = {
     // Smart selection descriptions
     smartSelectionOff: 'OFF: Random selection from checked words',
     smartSelectionOn: 'ON: Intelligent selection based on error history & forgetting curve',
+    schedulerSm2Description: 'SM-2: fixed interval growth by ease factor',
+    schedulerFsrsDescription: 'FSRS: memory model targeting 90% recall',
+    fsrsOptimizeTooFew: (n: number, min: number) => `Need ${min} repeat reviews to tune FSRS (have ${n}).`,
+    fsrsOptimizeDone: (n: number) => `FSRS weights tuned from ${n} reviews.`,
+    fsrsOptimizeNoGain: (n: number) => `Default FSRS weights already fit your ${n} reviews.`,
+    fsrsOptimizeFailed: 'Could not tune FSRS from your review history.',
+
+    // Data export / restore
+    dataExportDescription: 'Full backup restores into a new account; CSV and Anki export your word list.',
+    dataExportFailed: 'Export failed. Please try again.',
+    dataRestoreConfirm: (n: number) => `Restore ${n} words from this backup into the current account? Coins move here and leave the backed-up account.`,
+    dataRestoreDone: (words: number, reviews: number) => `Restored ${words} words and ${reviews} reviews.`,
+    dataRestoreCoinsSkipped: (reason: string) => `Coins were not restored (${reason}).`,
+    dataRestoreFailed: (reason: string) => `Restore failed: ${reason}`,
+
+    // Reminders
+    remindersDescription: 'Push a reminder when words are due or your check-in streak is about to break.',
+    remindersUnsupported: 'This browser (or build) does not support push notifications.',
+    remindersBlocked: 'Notifications are blocked. Allow them in your browser settings, then try again.',
+    remindersFailed: 'Could not update reminders. Please try again.',
+    remindersQuietHours: (tz: string) => `Quiet hours (${tz})`,
+    remindersTestSent: 'Test reminder sent.',
+    remindersTestFailed: (reason: string) => `Test reminder failed: ${reason}`,
+
+    // Sync (mutation outbox)
+    syncStatus: (pending: number, dead: number) =>
+      pending + dead === 0 ? 'Everything is synced.' : `${pending} waiting to sync, ${dead} failed.`,
+    syncDeadDescription: 'These changes could not be saved to the cloud. Retry them, or discard them for good.',
+    syncNowDone: (applied: number) => `Synced ${applied} change(s).`,
+    syncNowOffline: 'You are offline. Changes sync automatically when the connection is back.',
 
     // Account panel
     terminateSession: 'Terminate Session',
@@ -176,6 +206,36 @@ export const translations = {
     // Smart selection descriptions
     smartSelectionOff: '关闭：从勾选的单词中随机选择',
     smartSelectionOn: '开启：根据错误历史和遗忘曲线智能选择',
+    schedulerSm2Description: 'SM-2：按难度系数递增复习间隔',
+    schedulerFsrsDescription: 'FSRS：以 90% 回忆率为目标的记忆模型',
+    fsrsOptimizeTooFew: (n: number, min: number) => `需要 ${min} 次重复复习才能调优 FSRS（当前 ${n} 次）。`,
+    fsrsOptimizeDone: (n: number) => `已根据 ${n} 次复习调优 FSRS 参数。`,
+    fsrsOptimizeNoGain: (n: number) => `默认 FSRS 参数已适合你的 ${n} 次复习。`,
+    fsrsOptimizeFailed: '无法根据复习记录调优 FSRS。',
+
+    // Data export / restore
+    dataExportDescription: '完整备份可恢复到新账号；CSV 和 Anki 导出单词列表。',
+    dataExportFailed: '导出失败，请重试。',
+    dataRestoreConfirm: (n: number) => `将备份中的 ${n} 个单词恢复到当前账号？金币会转入当前账号，并从备份的原账号中扣除。`,
+    dataRestoreDone: (words: number, reviews: number) => `已恢复 ${words} 个单词和 ${reviews} 条复习记录。`,
+    dataRestoreCoinsSkipped: (reason: string) => `金币未恢复（${reason}）。`,
+    dataRestoreFailed: (reason: string) => `恢复失败：${reason}`,
+
+    // Reminders
+    remindersDescription: '有单词到期或连续签到即将中断时推送提醒。',
+    remindersUnsupported: '当前浏览器（或版本）不支持推送通知。',
+    remindersBlocked: '通知已被屏蔽，请在浏览器设置中允许后重试。',
+    remindersFailed: '提醒设置更新失败，请重试。',
+    remindersQuietHours: (tz: string) => `免打扰时段（${tz}）`,
+    remindersTestSent: '测试提醒已发送。',
+    remindersTestFailed: (reason: string) => `测试提醒发送失败：${reason}`,
+
+    // Sync (mutation outbox)
+    syncStatus: (pending: number, dead: number) =>
+      pending + dead === 0 ? '所有记录均已同步。' : `${pending} 条待同步，${dead} 条失败。`,
+    syncDeadDescription: '以下修改未能保存到云端，可以重试，或永久丢弃。',
+    syncNowDone: (applied: number) => `已同步 ${applied} 条修改。`,
+    syncNowOffline: '当前处于离线状态，联网后会自动同步。',
 
     // Account panel
     terminateSession: '退出登录',
@@ -3,12 +3,17 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { LanguageProvider } from './contexts/LanguageContext';
+import { registerServiceWorker } from './services/offlineCache';
+import { installOutboxHandlers } from './services/outboxHandlers';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Replay handlers for writes queued offline (services/offlineSyncQueue.ts)
+installOutboxHandlers();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -17,3 +22,8 @@ root.render(
     </LanguageProvider>
   </React.StrictMode>
 );
+
+// Offline support (public/sw.js). Dev servers skip it so modules are never served stale.
+if ((import.meta as any).env?.PROD) {
+  window.addEventListener('load', () => { void registerServiceWorker(); });
+}
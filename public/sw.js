@@ -0,0 +1,236 @@
+/**
+ * Vocab Monster service worker
+ *
+ * Offline: precaches the app shell and public/dictionaries on install
+ * (pack word lists are read from /dictionaries/manifest.json), keeps built
+ * assets, fonts and word media as they are fetched, and stores the image /
+ * audio URLs the app posts after a library load ({ type: 'CACHE_URLS' },
+ * services/offlineCache.ts). Pages fall back to the cached shell without
+ * signal; Supabase API calls are never cached.
+ *
+ * Push: shows review reminders pushed by the send-reminders edge function
+ * (payload shape: ReminderMessage in
+ * supabase/functions/send-reminders/reminderRules.ts) and focuses or opens
+ * the app when one is clicked.
+ */
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `vibe-shell-${CACHE_VERSION}`;
+const MEDIA_CACHE = `vibe-media-${CACHE_VERSION}`;
+const MEDIA_CACHE_MAX_ENTRIES = 800;
+
+const SHELL_URLS = [
+  '/',
+  '/manifest.webmanifest',
+  '/monsterImages/home-logo.webp',
+  '/monsterImages/M0.webp',
+  '/monsterImages/M1.webp',
+  '/monsterImages/M2.webp',
+  '/monsterImages/M3.webp',
+  '/monsterImages/M4.webp',
+  '/monsterImages/M5.webp',
+  '/monsterImages/M6.webp',
+  '/dictionaries/manifest.json',
+  '/dictionaries/en.aff',
+  '/dictionaries/en.dic',
+  '/dictionaries/collocations.json',
+];
+
+// Cross-origin hosts the shell needs to render (Tailwind CDN, fonts)
+const SHELL_HOSTS = ['cdn.tailwindcss.com', 'fonts.loli.net', 'gstatic.loli.net', 'fonts.gstatic.com'];
+
+const AUDIO_PATH = /\.(mp3|wav|ogg|m4a|aac)(\?|$)/i;
+const STORAGE_PATH = '/storage/v1/object/public/';
+
+const precacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+  try {
+    const manifest = await (await cache.match('/dictionaries/manifest.json')).json();
+    const packUrls = (manifest.packs || []).map((pack) => pack.wordList).filter(Boolean);
+    await cache.addAll(packUrls);
+  } catch (error) {
+    console.warn('[sw] pack word lists not precached:', error);
+  }
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('vibe-') && key !== SHELL_CACHE && key !== MEDIA_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const trimMediaCache = async () => {
+  const cache = await caches.open(MEDIA_CACHE);
+  const keys = await cache.keys();
+  const excess = keys.length - MEDIA_CACHE_MAX_ENTRIES;
+  // Cache keys come back in insertion order: drop the oldest
+  for (let i = 0; i < excess; i++) await cache.delete(keys[i]);
+};
+
+// Audio elements ask for byte ranges; answer them from the full cached body
+const toRangeResponse = async (request, response) => {
+  const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('range') || '');
+  if (!range || response.type === 'opaque') return response;
+  const body = await response.arrayBuffer();
+  const start = range[1] ? Number(range[1]) : Math.max(0, body.byteLength - Number(range[2]));
+  const end = range[1] && range[2] ? Math.min(Number(range[2]), body.byteLength - 1) : body.byteLength - 1;
+  if (start >= body.byteLength || start > end) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${body.byteLength}` } });
+  }
+  const headers = new Headers(response.headers);
+  headers.set('Content-Range', `bytes ${start}-${end}/${body.byteLength}`);
+  headers.set('Content-Length', String(end - start + 1));
+  return new Response(body.slice(start, end + 1), { status: 206, statusText: 'Partial Content', headers });
+};
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request.url, { ignoreVary: true });
+  if (cached) return request.headers.has('range') ? toRangeResponse(request, cached) : cached;
+
+  const response = await fetch(request);
+  // Partial (206) bodies cannot be stored; the full file comes via CACHE_URLS
+  if (response.status === 200 || response.type === 'opaque') {
+    const copy = response.clone();
+    caches.open(cacheName)
+      .then((cache) => cache.put(request.url, copy))
+      .then(() => (cacheName === MEDIA_CACHE ? trimMediaCache() : undefined))
+      .catch(() => {});
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request, { ignoreVary: true });
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || network;
+};
+
+// Network first so deploys show up at once; the cached shell when offline
+const navigate = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const copy = response.clone();
+      caches.open(SHELL_CACHE).then((cache) => cache.put('/', copy));
+    }
+    return response;
+  } catch {
+    return (await caches.match('/')) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(navigate(request));
+    return;
+  }
+
+  if (sameOrigin) {
+    if (url.pathname.startsWith('/assets/')) {
+      event.respondWith(cacheFirst(request, SHELL_CACHE));
+    } else if (
+      url.pathname.startsWith('/dictionaries/')
+      || url.pathname.startsWith('/monsterImages/')
+      || url.pathname.startsWith('/publicImages/')
+      || url.pathname === '/manifest.webmanifest'
+    ) {
+      event.respondWith(staleWhileRevalidate(request));
+    } else if (AUDIO_PATH.test(url.pathname)) {
+      event.respondWith(cacheFirst(request, MEDIA_CACHE));
+    }
+    return;
+  }
+
+  if (SHELL_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+    return;
+  }
+
+  // Word images in Supabase Storage and pronunciation audio from any host
+  if (
+    url.pathname.includes(STORAGE_PATH)
+    || request.destination === 'image'
+    || request.destination === 'audio'
+    || AUDIO_PATH.test(url.pathname)
+  ) {
+    event.respondWith(cacheFirst(request, MEDIA_CACHE));
+  }
+});
+
+const cacheUrls = async (urls) => {
+  const cache = await caches.open(MEDIA_CACHE);
+  for (const url of urls) {
+    if (await cache.match(url, { ignoreVary: true })) continue;
+    try {
+      // CORS first: <audio crossorigin> cannot play an opaque response
+      const response = await fetch(url, { mode: 'cors', credentials: 'omit' })
+        .catch(() => fetch(url, { mode: 'no-cors', credentials: 'omit' }));
+      if (response.ok || response.type === 'opaque') await cache.put(url, response);
+    } catch {
+      // Offline again or the URL is gone; the next warm-up retries it
+    }
+  }
+  await trimMediaCache();
+};
+
+self.addEventListener('message', (event) => {
+  const data = event.data || {};
+  if (data.type === 'CACHE_URLS' && Array.isArray(data.urls)) {
+    event.waitUntil(cacheUrls(data.urls.filter((url) => typeof url === 'string')));
+  }
+});
+
+self.addEventListener('push', (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = message.title || 'Vocab Monster';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: message.body || '',
+      tag: message.tag || 'vibe-reminder',
+      renotify: true,
+      icon: '/monsterImages/home-logo.webp',
+      data: { url: message.url || '/', kind: message.kind || 'due' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const targetUrl = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (existing) return existing.focus();
+      return self.clients.openWindow(targetUrl);
+    })
+  );
+});
@@ -7,6 +7,8 @@
 
 import { WordEntry, InputSession } from '@/types';
 import { WORD_LEARNING_CONFIG } from '../config/wordLearningConfig';
+import { getActiveReviewScheduler, ReviewScheduler } from './reviewScheduler';
+import { filterStudyableWords } from '../utils/wordState';
 
 /**
  * Normalized weight configuration (sums to 1.0)
@@ -83,16 +85,18 @@ export class AdaptiveWordSelector {
    * @param availablePool - 当前可用的单词池
    * @param targetCount - 目标单词数量
    * @param sessions - 历史会话（可选，未来扩展用）
+   * @param scheduler - 复习调度器（SM-2 / FSRS，默认为用户当前选择）
    * @returns 选中的单词队列
    */
   calculateQueue(
     allWords: WordEntry[],
     availablePool: WordEntry[],
     targetCount: number,
-    sessions?: InputSession[]
+    sessions?: InputSession[],
+    scheduler: ReviewScheduler = getActiveReviewScheduler()
   ): WordEntry[] {
-    // 1. 过滤候选词（去除已删除）
-    const candidates = availablePool.filter(w => !w.deleted);
+    // 1. 过滤候选词（去除已删除 / 暂停 / 搁置 / 已掌握）
+    const candidates = filterStudyableWords(availablePool);
 
     if (candidates.length === 0) {
       console.warn('⚠️ [Adaptive Selector] No candidates available');
@@ -102,7 +106,7 @@ export class AdaptiveWordSelector {
     // 2. 计算每个单词的紧急度分数
     const scoredWords: ScoredWord[] = candidates.map(word => ({
       word,
-      urgency: this.calculateUrgency(word),
+      urgency: this.calculateUrgency(word, scheduler),
       probability: 0 // 待计算
     }));
 
@@ -170,7 +174,7 @@ export class AdaptiveWordSelector {
    * 计算单词紧急度分数（0-90分）
    * 分数越高，表示该单词越需要被测试
    */
-  private calculateUrgency(word: WordEntry): number {
+  private calculateUrgency(word: WordEntry, scheduler: ReviewScheduler): number {
     const adaptiveConfig = WORD_LEARNING_CONFIG.adaptiveSelection;
     const now = Date.now();
     const daysSinceTested = word.last_tested
@@ -186,8 +190,8 @@ export class AdaptiveWordSelector {
     );
 
     // 2. 遗忘风险（使用动态计算的最大分数）
-    // 基于 last_tested 和 error_count 估算遗忘概率
-    const forgettingRisk = this.calculateForgettingRisk(daysSinceTested, word.error_count);
+    // 由复习调度器给出 0-1 的风险：SM-2 按到期进度，FSRS 按 1 - 可提取性
+    const forgettingRisk = this.calculateForgettingRisk(word, now, scheduler);
 
     // 3. 新鲜度奖励（使用动态计算的最大分数）
     // 长时间未测试的单词获得加分
@@ -203,22 +207,16 @@ export class AdaptiveWordSelector {
   }
 
   /**
-   * 遗忘风险计算（简化版艾宾浩斯）
+   * 遗忘风险计算（委托给复习调度器）
    *
-   * @param daysSince - 距离上次测试的天数
-   * @param errorCount - 错误次数
+   * @param word - 单词
+   * @param now - 当前时间戳
+   * @param scheduler - 复习调度器
    * @returns 遗忘风险分数（0-maxForgettingRiskScore）
    */
-  private calculateForgettingRisk(daysSince: number, errorCount: number): number {
-    // 基础遗忘曲线：基于记忆衰减模型
-    // error_count 越高，遗忘越快（需要更频繁复习）
-    const effectiveInterval = Math.max(1, 7 - errorCount);
-    const retentionRate = Math.exp(-daysSince / effectiveInterval);
-
-    // 转换为 0-maxForgettingRiskScore 分的遗忘风险（使用动态计算的最大分数）
-    const forgettingRisk = (1 - retentionRate) * this.maxScores.maxForgettingRiskScore;
-
-    return Math.max(0, Math.min(this.maxScores.maxForgettingRiskScore, forgettingRisk));
+  private calculateForgettingRisk(word: WordEntry, now: number, scheduler: ReviewScheduler): number {
+    const risk = Math.max(0, Math.min(1, scheduler.forgettingRisk(word, now)));
+    return risk * this.maxScores.maxForgettingRiskScore;
   }
 
   /**
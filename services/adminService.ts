@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabaseClient';
-import { DICTIONARY_CONFIG, fetchLocalWordList, importDictionaryWords, getCurrentUserId } from './dataService';
+import { installLibraryPack, getCurrentUserId } from './dataService';
+import { fetchLibraryManifest } from './libraryPacks';
 import { aiService } from './ai';
 import { compressToWebP } from '../utils/imageUtils';
 import { getMascotPrompt } from '../utils/mascotDescriptions';
@@ -31,6 +32,41 @@ export interface PronunciationReplacementStatus {
   finishedAt?: string | null;
 }
 
+export type ModeratedRoundMode = 'PUZZLE' | 'SCENE' | 'RECALL' | 'SPRINT' | 'DAILY';
+export type ModerationStatus = 'visible' | 'flagged' | 'hidden' | 'cleared';
+export type ModerationDecision = 'hide' | 'restore' | 'clear';
+
+/** A flagged or hidden leaderboard round in the review queue */
+export interface ModerationQueueEntry {
+  id: string;
+  mode: ModeratedRoundMode;
+  userId: string;
+  displayName: string;
+  playedAt: string;
+  totalScore: number;
+  accuracyRate: number;
+  timeUsedSeconds: number;
+  wordsCorrect: number;
+  wordsTotal: number;
+  flags: string[];
+  status: ModerationStatus;
+}
+
+/** One row of the moderation audit trail */
+export interface ModerationLogEntry {
+  id: string;
+  mode: ModeratedRoundMode;
+  roundId: string;
+  roundUserId: string;
+  action: ModerationDecision;
+  previousStatus: ModerationStatus;
+  newStatus: ModerationStatus;
+  flags: string[];
+  note: string | null;
+  moderatorEmail: string;
+  createdAt: string;
+}
+
 export type GenerationStatus = 'idle' | 'running' | 'paused';
 
 class AdminService {
@@ -148,15 +184,13 @@ class AdminService {
 
     onProgress("Starting library synchronization...");
     
-    for (const config of DICTIONARY_CONFIG) {
-      onProgress(`Fetching wordlist: ${config.name}...`);
-      const words = await fetchLocalWordList(config.localPath);
-      
-      onProgress(`Importing/Merging ${words.length} words for ${config.name}...`);
-      // This function handles deduplication (if word exists, it updates tags)
-      const result = await importDictionaryWords(userId, words, config.tag);
+    const packs = await fetchLibraryManifest();
+    for (const pack of packs) {
+      onProgress(`Importing/Merging ${pack.name} (v${pack.version})...`);
+      // This handles deduplication (if word exists, it updates tags)
+      const result = await installLibraryPack(userId, pack);
       
-      onProgress(`✓ ${config.name}: Updated ${result.updated}, Inserted ${result.inserted}`);
+      onProgress(`✓ ${pack.name}: Updated ${result.updated}, Inserted ${result.inserted}`);
     }
     onProgress("All libraries synchronized.");
   }
@@ -568,6 +602,52 @@ class AdminService {
     }
   }
 
+  async getModerationQueue(): Promise<ModerationQueueEntry[]> {
+    const data = await this._invokeFn('admin-console', { action: 'moderation_queue' });
+    return ((data?.entries || []) as any[]).map((row) => ({
+      id: row.id,
+      mode: row.mode,
+      userId: row.user_id,
+      displayName: row.display_name || '',
+      playedAt: row.played_at,
+      totalScore: Number(row.total_score || 0),
+      accuracyRate: Number(row.accuracy_rate || 0),
+      timeUsedSeconds: Number(row.time_used_seconds || 0),
+      wordsCorrect: Number(row.words_correct || 0),
+      wordsTotal: Number(row.words_total || 0),
+      flags: Array.isArray(row.flags) ? row.flags : [],
+      status: row.moderation_status,
+    }));
+  }
+
+  async moderateRound(mode: ModeratedRoundMode, roundId: string, decision: ModerationDecision, note?: string): Promise<ModerationStatus> {
+    const data = await this._invokeFn('admin-console', {
+      action: 'moderate',
+      mode,
+      round_id: roundId,
+      decision,
+      note: note || null,
+    });
+    return data?.result?.moderation_status;
+  }
+
+  async getModerationLog(): Promise<ModerationLogEntry[]> {
+    const data = await this._invokeFn('admin-console', { action: 'moderation_log' });
+    return ((data?.entries || []) as any[]).map((row) => ({
+      id: row.id,
+      mode: row.round_mode,
+      roundId: row.round_id,
+      roundUserId: row.round_user_id,
+      action: row.action,
+      previousStatus: row.previous_status,
+      newStatus: row.new_status,
+      flags: Array.isArray(row.flags) ? row.flags : [],
+      note: row.note || null,
+      moderatorEmail: row.moderator_email,
+      createdAt: row.created_at,
+    }));
+  }
+
   async getPronunciationReplacementStatus(runId: string): Promise<PronunciationReplacementStatus> {
     const data = await this._invokeFn('pronunciation-rebuild', {
       action: 'status',
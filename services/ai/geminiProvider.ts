@@ -1,7 +1,7 @@
 
 import { GoogleGenAI, Modality, Type } from "@google/genai";
 import { AIService, SpellingResult } from "./types";
-import { WordEntry, InputSession } from "../../types";
+import { WordEntry, InputSession, CollocationCandidate } from "../../types";
 import { requestImageGenerationViaEdge } from '../imageGenerationEdge';
 
 const readRuntimeEnv = (key: string): string => {
@@ -166,6 +166,43 @@ export class GeminiProvider implements AIService {
     }
   }
 
+  async suggestCollocations(word: string, apiKey?: string, endpoint?: string): Promise<CollocationCandidate[]> {
+    try {
+      const ai = this.getClient(apiKey, endpoint);
+      const response = await ai.models.generateContent({
+        model: 'gemini-3-flash-preview',
+        contents: `List up to 5 common English collocations that contain the word "${word}".
+
+                  Rules:
+                  - Only verb + noun (e.g. "make a decision") or adjective + noun (e.g. "heavy rain") patterns
+                  - 2 or 3 words each, lowercase, using "${word}" itself or its plural
+                  - pattern: "verb_noun" or "adj_noun"
+                  - meaningZh: a short Simplified Chinese translation of the whole phrase`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                phrase: { type: Type.STRING },
+                pattern: { type: Type.STRING, enum: ['verb_noun', 'adj_noun'] },
+                meaningZh: { type: Type.STRING, nullable: true }
+              },
+              required: ['phrase', 'pattern']
+            }
+          }
+        }
+      });
+
+      const result = JSON.parse(response.text || "[]");
+      return Array.isArray(result) ? result : [];
+    } catch (error) {
+      console.error("Gemini collocation suggestion failed:", error);
+      return [];
+    }
+  }
+
   private decodeBase64(base64: string) {
     const binaryString = atob(base64);
     const bytes = new Uint8Array(binaryString.length);
@@ -1,12 +1,13 @@
 
 import { AIService, AIProviderType, SpellingResult } from "./types";
-import { WordEntry, InputSession } from "../../types";
+import { WordEntry, InputSession, CollocationCandidate } from "../../types";
 import { GeminiProvider } from "./geminiProvider";
 import { OpenAIProvider } from "./openaiProvider";
 import { LocalProvider } from "./localProvider";
 import { AISettings, AEServiceProvider, AITask } from "./settings";
 import { isSupabaseConfigured, supabase } from "../../lib/supabaseClient";
 import { getImageGenerationEdgeDebugInfo, requestImageGenerationViaEdge } from '../imageGenerationEdge';
+import type { AffixDictionary } from '../../utils/wordFamily';
 
 const readRuntimeEnv = (key: string): string | undefined => {
   const viteEnv = (import.meta as any)?.env;
@@ -317,6 +318,13 @@ class AIServiceManager implements AIService {
     return await this.validateSpelling(phrase);
   }
 
+  /**
+   * Stems + affix rules of the local Hunspell dictionary (word families).
+   */
+  async getAffixDictionary(): Promise<AffixDictionary | null> {
+    return this.local.getAffixDictionary();
+  }
+
   /**
    * Validates if a 2-word phrase is a common collocation.
    * Returns { isCommon: boolean } with 5-second timeout and graceful degradation.
@@ -346,6 +354,26 @@ class AIServiceManager implements AIService {
     }
   }
 
+  /**
+   * Collocations for a word the local list doesn't cover.
+   * Returns [] when AI is unavailable, times out (8s) or fails.
+   */
+  async suggestCollocations(word: string): Promise<CollocationCandidate[]> {
+    await this.checkAvailability();
+    if (!this.enabled || !this.available) return [];
+
+    const { providerType, apiKey, endpoint } = this.resolveConfig('TEXT');
+    const provider = this.getProvider(providerType);
+    if (!provider.suggestCollocations) return [];
+
+    try {
+      return await this.withTimeout(provider.suggestCollocations(word, apiKey, endpoint), 8000, []);
+    } catch (error) {
+      console.error('Collocation suggestion failed:', error);
+      return [];
+    }
+  }
+
   private async performCollocationCheck(phrase: string): Promise<{ isCommon: boolean }> {
     const { providerType, apiKey, endpoint } = this.resolveConfig('TEXT');
     const provider = this.getProvider(providerType);
@@ -1,6 +1,7 @@
 
 import { AIService, SpellingResult } from "./types";
 import nspell from "nspell";
+import type { AffixDictionary } from "../../utils/wordFamily";
 
 /**
  * A local spelling provider that uses a full Hunspell dictionary (loaded via nspell).
@@ -101,6 +102,20 @@ export class LocalProvider implements Partial<AIService> {
     }
   }
 
+  /**
+   * Exposes the loaded stems and affix rules (read-only) for the word-family
+   * index. Returns null when the dictionary failed to load.
+   */
+  async getAffixDictionary(): Promise<AffixDictionary | null> {
+    await this.ensureLoaded();
+
+    if (!this.spell) {
+      return null;
+    }
+
+    return { stems: this.spell.data, rules: this.spell.rules };
+  }
+
   /**
    * Validates a phrase (2-3 words).
    * Splits phrase and validates each word's spelling.
@@ -1,6 +1,6 @@
 
 import { AIService, SpellingResult } from "./types";
-import { WordEntry, InputSession } from "../../types";
+import { WordEntry, InputSession, CollocationCandidate } from "../../types";
 import { requestImageGenerationViaEdge } from '../imageGenerationEdge';
 
 const readRuntimeEnv = (key: string): string => {
@@ -314,4 +314,34 @@ Return true if this is a common, natural phrase. Return false if the words are s
       return { isCommon: true };
     }
   }
+
+  async suggestCollocations(word: string, apiKey?: string, endpoint?: string): Promise<CollocationCandidate[]> {
+    try {
+      const data = await this.fetchOpenAI("chat/completions", {
+        model: "gpt-4o-mini",
+        messages: [
+          {
+            role: "system",
+            content: "You are an English language expert. Suggest common word collocations. Respond with JSON: { \"collocations\": [{ \"phrase\": string, \"pattern\": \"verb_noun\" | \"adj_noun\", \"meaningZh\": string | null }] }"
+          },
+          {
+            role: "user",
+            content: `List up to 5 common English collocations that contain the word "${word}".
+
+Rules:
+- Only verb + noun (e.g. "make a decision") or adjective + noun (e.g. "heavy rain") patterns
+- 2 or 3 words each, lowercase, using "${word}" itself or its plural
+- meaningZh: a short Simplified Chinese translation of the whole phrase`
+          }
+        ],
+        response_format: { type: "json_object" }
+      }, apiKey, endpoint);
+
+      const result = JSON.parse(data.choices[0].message.content);
+      return Array.isArray(result.collocations) ? result.collocations : [];
+    } catch (error) {
+      console.error("OpenAI collocation suggestion failed:", error);
+      return [];
+    }
+  }
 }
@@ -1,4 +1,4 @@
-import { WordEntry, InputSession } from "../../types";
+import { WordEntry, InputSession, CollocationCandidate } from "../../types";
 
 export interface WordAnalysisData {
   id: string;
@@ -67,6 +67,12 @@ export interface AIService {
    * Returns { isCommon: boolean } - true if common, false if uncommon
    */
   validateCollocation(phrase: string, apiKey?: string, endpoint?: string): Promise<{ isCommon: boolean }>;
+
+  /**
+   * Suggests common verb + noun / adjective + noun collocations for a word.
+   * Returns raw candidates; callers normalize them (utils/collocations.ts).
+   */
+  suggestCollocations?(word: string, apiKey?: string, endpoint?: string): Promise<CollocationCandidate[]>;
 }
 
 export type AIProviderType = 'gemini' | 'openai';
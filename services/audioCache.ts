@@ -153,6 +153,19 @@ class AudioCacheManager {
     return this.cache.has(key);
   }
 
+  /**
+   * All unexpired network URLs, for the service worker's offline precache
+   * (data:/blob: URLs already live in memory)
+   */
+  getUrls(): string[] {
+    const now = Date.now();
+    const urls = new Set<string>();
+    this.cache.forEach(entry => {
+      if (entry.expiresAt > now && /^https?:/i.test(entry.url)) urls.add(entry.url);
+    });
+    return Array.from(urls);
+  }
+
   /**
    * Delete a cached entry
    */
@@ -0,0 +1,47 @@
+import { adaptiveWordSelector } from './adaptiveWordSelector';
+import { getRecallCandidateWords } from './recallGame';
+import { buildChoiceQuestion, CHOICE_QUIZ_WORDS } from '../utils/meaningChoice';
+import { ChoiceQuestion, InputSession, WordEntry } from '../types';
+
+// ================================================================
+// Multiple-choice Meaning Quiz — client service
+// Word selection only; question building lives in utils/meaningChoice.ts.
+// No daily-overlap cap: the quiz is unranked practice.
+// ================================================================
+
+const shuffleWords = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let index = result.length - 1; index > 0; index -= 1) {
+    const swapIndex = Math.floor(Math.random() * (index + 1));
+    [result[index], result[swapIndex]] = [result[swapIndex], result[index]];
+  }
+  return result;
+};
+
+/**
+ * Pick up to `count` words and build their questions. Candidates are the
+ * studyable words with a Chinese meaning; distractors may come from any
+ * word in the library. Words that cannot get three distractors are skipped.
+ */
+export const selectChoiceQuizQuestions = (
+  allWords: WordEntry[],
+  sessions: InputSession[],
+  smartSelectionEnabled: boolean,
+  count: number = CHOICE_QUIZ_WORDS,
+): ChoiceQuestion[] => {
+  const candidates = getRecallCandidateWords(allWords);
+  let ordered = shuffleWords(candidates);
+  if (smartSelectionEnabled) {
+    const prioritized = adaptiveWordSelector.calculateQueue(allWords, candidates, candidates.length, sessions);
+    ordered = [...prioritized, ...ordered.filter((w) => !prioritized.includes(w))];
+  }
+  const library = allWords.filter((word) => !word.deleted);
+
+  const questions: ChoiceQuestion[] = [];
+  for (const word of ordered) {
+    if (questions.length >= count) break;
+    const question = buildChoiceQuestion(word, library);
+    if (question) questions.push(question);
+  }
+  return smartSelectionEnabled ? shuffleWords(questions) : questions;
+};
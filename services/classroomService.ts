@@ -0,0 +1,259 @@
+/**
+ * Classroom Service - classes, invite codes and assigned word sets.
+ *
+ * Teachers create classes (students join by invite code via join_class) and
+ * assign word sets with due dates. Students start an assignment as a CLASSIC
+ * test over their own copies of the words; prepareAssignmentWordIds adds any
+ * missing ones first. Progress summaries are computed by utils/classProgress.ts
+ * from get_class_progress.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import { importDictionaryWords } from './dataService';
+import {
+  AssignmentProgress,
+  buildClassProgress,
+  CLASS_TAG_PREFIX,
+  ClassAssignment,
+  ClassAssignmentSource,
+  ClassAssignmentWord,
+  ClassStudent,
+} from '../utils/classProgress';
+
+export interface Classroom {
+  id: string;
+  teacherId: string;
+  name: string;
+  inviteCode: string;
+  createdAt: number;
+}
+
+export interface ClassAssignmentDraft {
+  classId: string;
+  title: string;
+  source: ClassAssignmentSource;
+  words: ClassAssignmentWord[];
+  dueAt: number | null;
+}
+
+export interface ClassProgressReport {
+  students: ClassStudent[];
+  progress: AssignmentProgress[];
+}
+
+const classroomFromRow = (row: any): Classroom => ({
+  id: row.id,
+  teacherId: row.teacher_id,
+  name: row.name,
+  inviteCode: row.invite_code,
+  createdAt: new Date(row.created_at).getTime(),
+});
+
+const assignmentFromRow = (row: any): ClassAssignment => ({
+  id: row.id,
+  classId: row.class_id,
+  title: row.title,
+  source: row.source?.kind === 'library'
+    ? { kind: 'library', label: row.source.label ?? row.title, tag: row.source.tag, level: row.source.level ?? null }
+    : { kind: 'session', label: row.source?.label ?? row.title },
+  words: Array.isArray(row.words) ? row.words.map((w: any) => ({ text: String(w.text), meaning: w.meaning ?? null })) : [],
+  dueAt: row.due_at ? new Date(row.due_at).getTime() : null,
+  createdAt: new Date(row.created_at).getTime(),
+});
+
+/**
+ * Classes the user teaches or has joined (RLS limits the rows).
+ */
+export const fetchMyClasses = async (): Promise<Classroom[]> => {
+  const { data, error } = await supabase
+    .from('classes')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('[fetchMyClasses] Error:', error.message);
+    return [];
+  }
+  return (data || []).map(classroomFromRow);
+};
+
+/**
+ * Create a class; the invite code is generated by the database.
+ */
+export const createClass = async (userId: string, name: string): Promise<Classroom | { error: string }> => {
+  const { data, error } = await supabase
+    .from('classes')
+    .insert({ teacher_id: userId, name: name.trim() })
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('[createClass] Error:', error.message);
+    return { error: error.message };
+  }
+  return classroomFromRow(data);
+};
+
+/**
+ * Join a class by invite code.
+ */
+export const joinClass = async (inviteCode: string): Promise<Classroom | { error: string }> => {
+  const { data, error } = await supabase.rpc('join_class', { p_invite_code: inviteCode });
+  if (error || data?.error) {
+    console.error('[joinClass] Error:', error?.message || data?.error);
+    return { error: error?.message || data.error };
+  }
+  return classroomFromRow(data.class);
+};
+
+/**
+ * Leave a class (students) or remove a student from it (teachers).
+ */
+export const removeClassMember = async (classId: string, userId: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('class_members')
+    .delete()
+    .eq('class_id', classId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('[removeClassMember] Error:', error.message);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Assignments of the given classes, newest first.
+ */
+export const fetchClassAssignments = async (classIds: string[]): Promise<ClassAssignment[]> => {
+  if (classIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('class_assignments')
+    .select('*')
+    .in('class_id', classIds)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[fetchClassAssignments] Error:', error.message);
+    return [];
+  }
+  return (data || []).map(assignmentFromRow);
+};
+
+/**
+ * Assign a word set to a class (teacher only, enforced by RLS).
+ */
+export const createAssignment = async (draft: ClassAssignmentDraft): Promise<ClassAssignment | { error: string }> => {
+  const { data, error } = await supabase
+    .from('class_assignments')
+    .insert({
+      class_id: draft.classId,
+      title: draft.title.trim(),
+      source: draft.source,
+      words: draft.words,
+      due_at: draft.dueAt != null ? new Date(draft.dueAt).toISOString() : null,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('[createAssignment] Error:', error.message);
+    return { error: error.message };
+  }
+  return assignmentFromRow(data);
+};
+
+export const deleteAssignment = async (assignmentId: string): Promise<boolean> => {
+  const { error } = await supabase.from('class_assignments').delete().eq('id', assignmentId);
+  if (error) {
+    console.error('[deleteAssignment] Error:', error.message);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Students of a class and their progress on each assignment (teacher only).
+ */
+export const fetchClassProgress = async (
+  classId: string,
+  assignments: ClassAssignment[]
+): Promise<ClassProgressReport | { error: string }> => {
+  const { data, error } = await supabase.rpc('get_class_progress', { p_class_id: classId });
+  if (error || data?.error) {
+    console.error('[fetchClassProgress] Error:', error?.message || data?.error);
+    return { error: error?.message || data.error };
+  }
+
+  const students: ClassStudent[] = (data.students || []).map((s: any) => ({
+    userId: s.user_id,
+    name: s.username ?? null,
+    joinedAt: new Date(s.joined_at).getTime(),
+  }));
+  const words = (data.words || []).map((w: any) => ({
+    userId: w.user_id,
+    text: w.text,
+    tested: !!w.tested,
+    correct: !!w.correct,
+    errorCount: Number(w.error_count) || 0,
+    lastTested: w.last_tested ? new Date(w.last_tested).getTime() : null,
+  }));
+  const daily = (data.daily || []).map((d: any) => ({
+    userId: d.user_id,
+    date: d.date,
+    total: Number(d.total_count) || 0,
+    correct: Number(d.correct_count) || 0,
+  }));
+
+  return {
+    students,
+    progress: buildClassProgress(students, assignments.filter(a => a.classId === classId), words, daily),
+  };
+};
+
+/**
+ * Word ids of an assignment in the student's account, ready for a CLASSIC
+ * test config. Assigned words the student does not have yet are added under
+ * a "Class:<class name>" library first.
+ */
+export const prepareAssignmentWordIds = async (
+  userId: string,
+  assignment: ClassAssignment,
+  className: string
+): Promise<string[]> => {
+  const meanings = new Map<string, string>();
+  assignment.words.forEach(w => { if (w.meaning) meanings.set(w.text.toLowerCase(), w.meaning); });
+  await importDictionaryWords(userId, assignment.words.map(w => w.text), `${CLASS_TAG_PREFIX}${className}`, meanings);
+
+  const wanted = new Set(assignment.words.map(w => w.text.toLowerCase().trim()));
+  const ids = new Map<string, string>();
+  let page = 0;
+  const PAGE_SIZE = 1000;
+  let hasMore = true;
+  while (hasMore) {
+    const from = page * PAGE_SIZE;
+    const { data, error } = await supabase
+      .from('words')
+      .select('id, text')
+      .eq('user_id', userId)
+      .or('deleted.eq.false,deleted.is.null')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[prepareAssignmentWordIds] Error fetching words page:', error.message);
+      throw error;
+    }
+    (data || []).forEach((w: any) => {
+      const key = w.text.toLowerCase().trim();
+      if (wanted.has(key)) ids.set(key, w.id);
+    });
+    hasMore = (data?.length || 0) === PAGE_SIZE;
+    page++;
+  }
+
+  // Keep the teacher's order
+  return assignment.words
+    .map(w => ids.get(w.text.toLowerCase().trim()))
+    .filter((id): id is string => !!id);
+};
@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabaseClient';
+import { submitMutation } from './offlineSyncQueue';
 
 // ─── Constants ───────────────────────────────────────────────────────────────
 export const SCENE_GAME_COST = 25;
@@ -56,6 +57,38 @@ export const claimDailyLoginReward = async (): Promise<DailyLoginReward | null>
   }
 };
 
+type GameCoinType = 'quiz_score' | 'puzzle_score' | 'choice_score';
+
+/**
+ * award_game_coins RPC; throws on failure (outbox replay handler).
+ * @returns the delta when newly awarded, 0 when the reference was already paid
+ */
+export const awardGameCoins = async (type: GameCoinType, reference: string, delta: number): Promise<number> => {
+  const { data, error } = await supabase.rpc('award_game_coins', {
+    p_type: type,
+    p_reference: reference,
+    p_delta: delta,
+  });
+  if (error) throw error;
+  return data?.awarded ? delta : 0;
+};
+
+// Through the outbox so an award earned offline is paid on reconnect; the
+// round reference doubles as the idempotency key the server checks
+const submitCoinAward = async (type: GameCoinType, reference: string, delta: number): Promise<number> => {
+  if (delta <= 0) return 0;
+  try {
+    const outcome = await submitMutation(
+      { type: 'coin_award', payload: { coinType: type, reference, delta } },
+      { key: `coin_award:${type}:${reference}` },
+    );
+    return outcome.status === 'applied' ? Number(outcome.result) || 0 : 0;
+  } catch (e) {
+    console.error(`[coinService] ${type} award exception:`, e);
+    return 0;
+  }
+};
+
 /**
  * Award coins for a CLASSIC quiz round.
  *
@@ -67,7 +100,7 @@ export const claimDailyLoginReward = async (): Promise<DailyLoginReward | null>
  * Matches user expectation: "328 leaderboard points → 3 coins".
  *
  * Idempotent: calling twice with the same roundId returns 0 (already awarded).
- * @returns number of coins actually awarded (0 if already awarded or error)
+ * @returns number of coins actually awarded (0 if already awarded, queued offline or failed)
  */
 export const awardQuizCoins = async (
   roundId: string,
@@ -78,22 +111,7 @@ export const awardQuizCoins = async (
   const testComponent = Math.min(wordCount / 100, 1) * 250;
   const accuracyComponent = (correctCount / wordCount) * 300;
   const delta = Math.round((testComponent + accuracyComponent) / 100);
-  if (delta <= 0) return 0;
-  try {
-    const { data, error } = await supabase.rpc('award_game_coins', {
-      p_type: 'quiz_score',
-      p_reference: roundId,
-      p_delta: delta,
-    });
-    if (error) {
-      console.error('[coinService] awardQuizCoins error:', error.message);
-      return 0;
-    }
-    return data?.awarded ? delta : 0;
-  } catch (e) {
-    console.error('[coinService] awardQuizCoins exception:', e);
-    return 0;
-  }
+  return submitCoinAward('quiz_score', roundId, delta);
 };
 
 /**
@@ -102,22 +120,18 @@ export const awardQuizCoins = async (
  */
 export const awardPuzzleCoins = async (roundId: string, score: number): Promise<number> => {
   const delta = Math.round(score / 100);
-  if (delta <= 0) return 0;
-  try {
-    const { data, error } = await supabase.rpc('award_game_coins', {
-      p_type: 'puzzle_score',
-      p_reference: roundId,
-      p_delta: delta,
-    });
-    if (error) {
-      console.error('[coinService] awardPuzzleCoins error:', error.message);
-      return 0;
-    }
-    return data?.awarded ? delta : 0;
-  } catch (e) {
-    console.error('[coinService] awardPuzzleCoins exception:', e);
-    return 0;
-  }
+  return submitCoinAward('puzzle_score', roundId, delta);
+};
+
+/**
+ * Award coins for a multiple-choice meaning quiz round: one coin per five
+ * correct answers. Recognition is easier than spelling, so a perfect
+ * 10-word round earns 2 (a CLASSIC round earns 3).
+ * Idempotent via roundId.
+ */
+export const awardChoiceQuizCoins = async (roundId: string, correctCount: number): Promise<number> => {
+  const delta = Math.floor(correctCount / 5);
+  return submitCoinAward('choice_score', roundId, delta);
 };
 
 /**
@@ -0,0 +1,115 @@
+/**
+ * Collocations - phrase suggestions and phrase entries.
+ *
+ * Suggestions come from /dictionaries/collocations.json first; when that
+ * leaves room, a few recent words the list doesn't cover are sent to the
+ * text provider (aiService.suggestCollocations). Matching and the cloze test
+ * live in utils/collocations.ts; saved phrases are written through
+ * dataService.importDeckWords under the "Phrases" library.
+ */
+
+import { aiService } from './ai';
+import { importDeckWords } from './dataService';
+import { isWordStudyable } from '../utils/wordState';
+import {
+  buildPhraseClozeItems,
+  normalizeCollocationCandidates,
+  parseCollocationList,
+  PHRASE_CLOZE_ITEMS,
+  PHRASE_SUGGESTIONS_PER_WORD,
+  suggestCollocations,
+} from '../utils/collocations';
+import type { DeckImportRecord } from '../utils/deckImport';
+import { CollocationCandidate, CollocationSuggestion, PhraseClozeItem, WordEntry } from '../types';
+
+export const COLLOCATION_LIST_URL = '/dictionaries/collocations.json';
+export const PHRASE_LIBRARY_TAG = 'Phrases';
+
+/** Suggestions shown per round */
+export const PHRASE_SUGGESTION_LIMIT = 24;
+/** Uncovered words sent to the text provider per round */
+const AI_FALLBACK_WORDS = 3;
+
+let listPromise: Promise<CollocationCandidate[]> | null = null;
+
+/**
+ * The local collocation list (fetched once per page load).
+ */
+export const fetchCollocationList = (): Promise<CollocationCandidate[]> => {
+  if (!listPromise) {
+    listPromise = fetch(COLLOCATION_LIST_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to fetch collocation list: ${response.status}`);
+        return response.json();
+      })
+      .then(parseCollocationList)
+      .catch(error => {
+        console.error('[fetchCollocationList] Error:', error);
+        listPromise = null; // Retry on next call
+        return [];
+      });
+  }
+  return listPromise;
+};
+
+/**
+ * Collocations for the learner's words, most recently added words first.
+ * Local matches come first; AI suggestions only fill what is left.
+ */
+export const getPhraseSuggestions = async (
+  words: WordEntry[],
+  limit: number = PHRASE_SUGGESTION_LIMIT,
+): Promise<CollocationSuggestion[]> => {
+  const library = words
+    .filter((word) => !word.deleted)
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  const entries = await fetchCollocationList();
+  const suggestions = suggestCollocations(library, entries).slice(0, limit);
+  if (suggestions.length >= limit) return suggestions;
+
+  const taken = new Set([
+    ...library.map((word) => word.text.trim().toLowerCase()),
+    ...suggestions.map((s) => s.phrase),
+  ]);
+  const covered = new Set(suggestions.map((s) => s.headWordId));
+  const uncovered = library
+    .filter((word) => !covered.has(word.id) && /^[a-z][a-z'-]*$/i.test(word.text.trim()) && isWordStudyable(word))
+    .slice(0, AI_FALLBACK_WORDS);
+
+  for (const word of uncovered) {
+    if (suggestions.length >= limit) break;
+    const candidates = normalizeCollocationCandidates(await aiService.suggestCollocations(word.text), word.text)
+      .filter((candidate) => !taken.has(candidate.phrase))
+      .slice(0, PHRASE_SUGGESTIONS_PER_WORD);
+    candidates.forEach((candidate) => {
+      taken.add(candidate.phrase);
+      suggestions.push({ ...candidate, headWordId: word.id, headWord: word.text, source: 'ai' });
+    });
+  }
+  return suggestions.slice(0, limit);
+};
+
+/**
+ * Save chosen suggestions as phrase entries in the "Phrases" library.
+ * Phrases already in the library are left untouched.
+ */
+export const savePhraseEntries = async (userId: string, suggestions: CollocationSuggestion[]) => {
+  const records: DeckImportRecord[] = suggestions.map((suggestion) => ({
+    text: suggestion.phrase,
+    definition_cn: suggestion.meaningZh,
+    definition_en: null,
+    phonetic: null,
+    tags: [],
+    schedule: null,
+    suspended: false,
+  }));
+  return importDeckWords(userId, records, PHRASE_LIBRARY_TAG, 'skip');
+};
+
+/** Cloze items from studyable phrase entries */
+export const preparePhraseCloze = (
+  words: WordEntry[],
+  count: number = PHRASE_CLOZE_ITEMS,
+): PhraseClozeItem[] =>
+  buildPhraseClozeItems(words.filter((word) => !word.deleted && isWordStudyable(word)), count);
@@ -0,0 +1,131 @@
+/**
+ * Daily Challenge Service - today's shared scene words and the player's attempt.
+ *
+ * verify-round picks the day's words from the configured library pack and
+ * stores them in daily_challenges (its `daily` action, called by whoever
+ * opens the challenge first); clients only read the stored set. The round
+ * itself is a SceneGameMode round whose ticket carries the challenge date:
+ * verify-round allows one ticket per user per day and scores it into
+ * daily_challenge_attempts, and scene-generate serves the one shared image.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import { getShanghaiDateString } from '../utils/timezone';
+import { DailyShareMark, dailyChallengeWordMeta } from '../utils/dailyChallenge';
+import { challengeDayIndex, dailyChallengeWordIds } from '../supabase/functions/verify-round/dailyChallenge';
+import type { SceneWordMeta, WordEntry } from '../types';
+
+export interface DailyChallengeAttempt {
+  status: 'started' | 'submitted';
+  totalScore: number | null;
+  wordsCorrect: number | null;
+  timeUsedSeconds: number | null;
+  /** Per word in board order; empty until submitted */
+  marks: DailyShareMark[];
+}
+
+export interface DailyChallenge {
+  date: string;
+  packId: string;
+  dayIndex: number;
+  words: SceneWordMeta[];
+  /** The player's attempt today, null if they have not started one */
+  attempt: DailyChallengeAttempt | null;
+}
+
+const attemptFromRow = (row: any): DailyChallengeAttempt => ({
+  status: row.status,
+  totalScore: row.total_score == null ? null : Number(row.total_score),
+  wordsCorrect: row.words_correct ?? null,
+  timeUsedSeconds: row.time_used_seconds ?? null,
+  marks: Array.isArray(row.results)
+    ? row.results.map((r: any) => ({ correct: Boolean(r?.correct), attemptsUsed: Number(r?.attemptsUsed) || 0 }))
+    : [],
+});
+
+/**
+ * The player's attempt on a day's challenge (RLS: own rows only).
+ */
+export const fetchDailyChallengeAttempt = async (date: string): Promise<DailyChallengeAttempt | null> => {
+  const { data, error } = await supabase
+    .from('daily_challenge_attempts')
+    .select('*')
+    .eq('challenge_date', date)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[fetchDailyChallengeAttempt] Error:', error.message);
+    return null;
+  }
+  return data ? attemptFromRow(data) : null;
+};
+
+/** Ask verify-round for today's row; it stores the words if nobody has opened the challenge yet */
+const requestDailyChallenge = async (): Promise<any | { error: string }> => {
+  const { data, error } = await supabase.functions.invoke('verify-round', { body: { action: 'daily' } });
+  if (error) {
+    const body = await ((error as any)?.context as Response | undefined)?.json?.().catch(() => null);
+    console.error('[requestDailyChallenge] Error:', body?.error || error.message);
+    return { error: body?.error || error.message };
+  }
+  if (!data?.success) {
+    console.error('[requestDailyChallenge] Error:', data?.error);
+    return { error: data?.error || 'unknown_error' };
+  }
+  return data.challenge;
+};
+
+/**
+ * Today's challenge (Shanghai date) with the player's attempt.
+ */
+export const loadDailyChallenge = async (): Promise<DailyChallenge | { error: string }> => {
+  const date = getShanghaiDateString();
+  const { data: stored, error } = await supabase
+    .from('daily_challenges')
+    .select('*')
+    .eq('challenge_date', date)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[loadDailyChallenge] Error:', error.message);
+    return { error: error.message };
+  }
+
+  const row = stored ?? await requestDailyChallenge();
+  if ('error' in row) return row;
+
+  // The server's day wins if this device's clock disagrees around midnight
+  const challengeDate: string = row.challenge_date ?? date;
+  return {
+    date: challengeDate,
+    packId: row.pack_id,
+    dayIndex: challengeDayIndex(challengeDate),
+    words: Array.isArray(row.words) ? row.words.map(dailyChallengeWordMeta) : [],
+    attempt: await fetchDailyChallengeAttempt(challengeDate),
+  };
+};
+
+/**
+ * The challenge's words as WordEntries SceneGameMode can play. They are
+ * nobody's words, so nothing about them is ever written back.
+ */
+export const dailyChallengeWordEntries = (challenge: DailyChallenge): WordEntry[] => {
+  const ids = dailyChallengeWordIds(challenge.date, challenge.words.length);
+  return challenge.words.map((word, i) => ({
+    id: ids[i],
+    text: word.text,
+    language: 'en',
+    image_url: null,
+    timestamp: 0,
+    sessionId: '',
+    correct: false,
+    tested: false,
+    error_count: 0,
+    best_time_ms: null,
+    last_tested: null,
+    phonetic: null,
+    audio_url: null,
+    definition_cn: word.definitionCn || null,
+    definition_en: null,
+  }));
+};
@@ -6,13 +6,23 @@ import {
   PuzzleLeaderboardEntry,
   PuzzleLeaderboardMetric,
   PuzzleLeaderboardScope,
+  ReviewLogMode,
   WordEntry,
   WordMeaningOption,
+  WordReviewLogEntry,
 } from '../types';
 import { compressToWebP } from '../utils/imageUtils';
 import { aiService } from './ai';
 import { getShanghaiDateString } from '../utils/timezone';
 import { WORD_LEARNING_CONFIG } from '../config/wordLearningConfig';
+import { computeWordScheduleUpdate, getActiveReviewScheduler, ReviewScheduler, WordScheduleUpdate } from './reviewScheduler';
+import { submitMutation } from './offlineSyncQueue';
+import { submitVerifiedRound } from './roundVerification';
+import { mergeWordEdits, WordLwwField, WordMergeState } from '../utils/wordMerge';
+import type { DeckImportRecord } from '../utils/deckImport';
+import { computePackCoverage, LibraryLevelProgress, LibraryPack } from '../utils/libraryManifest';
+import { fetchLibraryManifest, fetchLibraryPackVersionWords, loadLibraryPackWords, recordLibraryInstall } from './libraryPacks';
+import { computeLibraryDiff, LibraryPackDiff, LibraryUpgradePlan, planLibraryUpgrade, UpgradeWordRow } from '../utils/libraryUpgrade';
 
 let wordsMeaningFieldsSupported: boolean | null = null;
 
@@ -296,6 +306,7 @@ export const fetchUserData = async (userId: string) => {
     last_tested: w.last_tested ? new Date(w.last_tested).getTime() : null,
     phonetic: w.phonetic || null,
     audio_url: w.audio_url || null,
+    language: w.language || 'en',
     lexeme_id: w.lexeme_id || null,
     definition_cn: w.definition_cn || null,
     definition_en: w.definition_en || null,
@@ -303,7 +314,19 @@ export const fetchUserData = async (userId: string) => {
     selected_meaning_key: w.selected_meaning_key || null,
     deleted: w.deleted || false,
     tags: w.tags || ['Custom'],
-    consecutive_correct: w.consecutive_correct || 0
+    score: w.score != null ? Number(w.score) : 0,
+    consecutive_correct: w.consecutive_correct || 0,
+    sm2_interval: w.sm2_interval ?? 0,
+    sm2_repetitions: w.sm2_repetitions ?? 0,
+    sm2_ease_factor: w.sm2_ease_factor != null ? Number(w.sm2_ease_factor) : 2.5,
+    next_review_at: w.next_review_at ? new Date(w.next_review_at).getTime() : null,
+    fsrs_stability: w.fsrs_stability != null ? Number(w.fsrs_stability) : null,
+    fsrs_difficulty: w.fsrs_difficulty != null ? Number(w.fsrs_difficulty) : null,
+    suspended: w.suspended || false,
+    buried_until: w.buried_until ? new Date(w.buried_until).getTime() : null,
+    known: w.known || false,
+    version: w.version ?? 0,
+    field_versions: w.field_versions || {}
   }));
 
   // Batch-resolve image URLs from shared image_assets
@@ -441,7 +464,8 @@ export const modifySession = async (
   sessionId: string,
   addedWords: { text: string, imageBase64?: string, definition_cn?: string, definition_en?: string, language?: string, meaning_options?: WordMeaningOption[] | null, selected_meaning_key?: string | null }[],
   removedWordIds: string[],
-  updatedWords: { id: string, text: string, imageBase64?: string, definition_cn?: string, definition_en?: string, language?: string, meaning_options?: WordMeaningOption[] | null, selected_meaning_key?: string | null }[] = []
+  // base: the word as loaded before editing; merges with other devices' edits (saveWordEdits)
+  updatedWords: { id: string, text: string, imageBase64?: string, definition_cn?: string, definition_en?: string, language?: string, meaning_options?: WordMeaningOption[] | null, selected_meaning_key?: string | null, base?: WordMergeState }[] = []
 ) => {
     // Get session's library_tag - words added to this session belong to its library
     const { data: sessionInfo } = await supabase
@@ -547,6 +571,11 @@ export const modifySession = async (
                 triggerImageGenerationBatch([{ text: w.text, language: w.language }]);
             }
 
+            if (w.base) {
+                await saveWordEdits(w.id, w.base, { ...w.base, ...updates });
+                continue;
+            }
+
             const { error: upError } = await executeWordsMutationWithCompatibility(
               () => supabase
                 .from('words')
@@ -726,31 +755,8 @@ export const getTodaysStats = async () => {
     return Array.isArray(data) && data.length > 0 ? data[0] : data;
 };
 
-export const recordPuzzleGameRound = async (summary: PuzzleGameSummary) => {
-  const clientDate = getShanghaiDateString();
-
-  const { data, error } = await supabase.rpc('record_puzzle_game_round', {
-    p_total_score: summary.totalScore,
-    p_accuracy_rate: summary.accuracyRate,
-    p_speed_score: summary.speedScore,
-    p_no_hint_score: summary.noHintScore,
-    p_time_used_seconds: summary.timeUsedSeconds,
-    p_seconds_remaining: summary.secondsRemaining,
-    p_hints_used: summary.hintsUsed,
-    p_words_total: summary.wordsTotal,
-    p_words_correct: summary.wordsCorrect,
-    p_solved_without_hint: summary.solvedWithoutHint,
-    p_selection_mode: summary.selectionMode,
-    p_client_date: clientDate,
-  });
-
-  if (error) {
-    console.error('[recordPuzzleGameRound] Failed to record puzzle round:', error.message);
-    throw error;
-  }
-
-  return Array.isArray(data) && data.length > 0 ? data[0] : data;
-};
+/** Record a finished round; the verify-round function re-scores it from the log */
+export const recordPuzzleGameRound = (summary: PuzzleGameSummary) => submitVerifiedRound('PUZZLE', summary);
 
 export const fetchPuzzleGameLeaderboard = async (
   scope: PuzzleLeaderboardScope,
@@ -842,6 +848,31 @@ const applyErrorDecay = async (
   return { newErrorCount, newConsecutiveCorrect: newConsecutiveCorrect, shouldRemoveMistakeTag };
 };
 
+/**
+ * Add the Mistake tag to a word (CLASSIC wrong answers, via the outbox's
+ * mistake_tag operation). Reads the current tags so a replay never
+ * overwrites tags changed since.
+ */
+export const addMistakeTag = async (wordId: string): Promise<void> => {
+  const { data: currentWord, error: readError } = await supabase
+    .from('words')
+    .select('tags')
+    .eq('id', wordId)
+    .single();
+
+  if (readError) throw Object.assign(new Error(`Failed to read tags for ${wordId}: ${readError.message}`), { code: readError.code });
+
+  const currentTags: string[] = currentWord?.tags || [];
+  if (currentTags.includes('Mistake')) return;
+
+  const { error } = await supabase
+    .from('words')
+    .update({ tags: [...currentTags, 'Mistake'] })
+    .eq('id', wordId);
+
+  if (error) throw Object.assign(new Error(`Failed to tag word as Mistake: ${error.message}`), { code: error.code });
+};
+
 /**
  * Remove Mistake tag from a word
  */
@@ -873,29 +904,65 @@ const removeMistakeTag = async (wordId: string): Promise<void> => {
   }
 };
 
+export interface WordStatusUpdate {
+    correct: boolean;
+    score?: number;
+    error_count_increment?: number;
+    best_time_ms?: number;
+    phonetic?: string;
+    audio_url?: string;
+    language?: string;
+    definition_cn?: string;
+    definition_en?: string;
+    // New parameters for error decay
+    hasUsedHint?: boolean;
+    consecutiveCorrect?: number;
+    // When the answer was given; set when replaying results queued offline
+    reviewedAt?: number;
+    // Outbox key of the answer; an answer whose key the word already holds is not applied again
+    answerKey?: string;
+}
+
+// Answer keys kept per word: enough to cover any replay still in an outbox
+const WORD_ANSWER_KEYS_KEPT = 50;
+
+/**
+ * Record one answer on a word. The counters are read-modify-write, so the
+ * write is guarded by the row's version: if another device answered in
+ * between, the answer is re-applied on top of its result instead of
+ * overwriting it (error_count increments commute). With an answerKey the
+ * same write also stores the key, and an answer already recorded under it
+ * resolves without changing the word.
+ */
 export const updateWordStatusV2 = async (
   wordId: string,
-  updates: {
-    correct: boolean,
-    score?: number,
-    error_count_increment?: number,
-    best_time_ms?: number,
-    phonetic?: string,
-    audio_url?: string,
-    language?: string,
-    definition_cn?: string,
-    definition_en?: string,
-    // New parameters for error decay
-    hasUsedHint?: boolean,
-    consecutiveCorrect?: number
+  updates: WordStatusUpdate
+): Promise<WordScheduleUpdate | null> => {
+  for (let attempt = 0; attempt < WORD_MERGE_ATTEMPTS; attempt++) {
+    const result = await applyWordStatus(wordId, updates);
+    if (result.applied) return result.schedule;
   }
-) => {
-  const { data: currentWord } = await supabase
+  throw new VersionConflictError(`Word ${wordId} kept changing while recording an answer`, 0);
+};
+
+const applyWordStatus = async (
+  wordId: string,
+  updates: WordStatusUpdate
+): Promise<{ applied: boolean; schedule: WordScheduleUpdate | null }> => {
+  const { data: currentWord, error: readError } = await supabase
     .from('words')
-    .select('error_count, best_time_ms, consecutive_correct, tags')
+    .select('version, error_count, best_time_ms, consecutive_correct, tags, last_tested, sm2_interval, sm2_repetitions, sm2_ease_factor, fsrs_stability, fsrs_difficulty, applied_answer_keys')
     .eq('id', wordId)
     .single();
 
+  // Without the current counters the update below would reset them, so give up
+  // and let the caller queue or log the result
+  if (readError) throw Object.assign(new Error(`Failed to read word ${wordId}: ${readError.message}`), { code: readError.code });
+
+  // Replay of an answer that already landed (its response was lost)
+  const appliedKeys: string[] = currentWord?.applied_answer_keys || [];
+  if (updates.answerKey && appliedKeys.includes(updates.answerKey)) return { applied: true, schedule: null };
+
   const currentErrorCount = currentWord?.error_count || 0;
   const currentConsecutiveCorrect = currentWord?.consecutive_correct || 0;
 
@@ -927,28 +994,65 @@ export const updateWordStatusV2 = async (
     new_best_time = new_best_time ? Math.min(new_best_time, updates.best_time_ms) : updates.best_time_ms;
   }
 
+  const reviewedAt = updates.reviewedAt ?? Date.now();
   const payload: any = {
     correct: updates.correct,
     score: updates.score,
     tested: true,
-    last_tested: new Date().toISOString(),
+    last_tested: new Date(reviewedAt).toISOString(),
     error_count: new_error_count,
     best_time_ms: new_best_time,
     consecutive_correct: new_consecutive_correct
   };
 
+  // Review scheduling: every CLASSIC / PUZZLE / SCENE result lands here, so the
+  // next review date is derived from the same outcome that moved error_count.
+  // Both SM-2 and FSRS state are updated; the active scheduler picks the due date.
+  // Metadata-only calls (no score, e.g. dictionary backfill) are not reviews.
+  let schedule: WordScheduleUpdate | null = null;
+  if (updates.score !== undefined) {
+    schedule = computeWordScheduleUpdate(
+      {
+        error_count: currentErrorCount,
+        last_tested: currentWord?.last_tested ? new Date(currentWord.last_tested).getTime() : null,
+        sm2_interval: currentWord?.sm2_interval,
+        sm2_repetitions: currentWord?.sm2_repetitions,
+        sm2_ease_factor: currentWord?.sm2_ease_factor != null ? Number(currentWord.sm2_ease_factor) : null,
+        fsrs_stability: currentWord?.fsrs_stability != null ? Number(currentWord.fsrs_stability) : null,
+        fsrs_difficulty: currentWord?.fsrs_difficulty != null ? Number(currentWord.fsrs_difficulty) : null,
+      },
+      {
+        correct: updates.correct,
+        hasUsedHint: Boolean(updates.hasUsedHint),
+        errorIncrement: updates.error_count_increment || 0,
+      },
+      reviewedAt
+    );
+    payload.sm2_interval = schedule.sm2_interval;
+    payload.sm2_repetitions = schedule.sm2_repetitions;
+    payload.sm2_ease_factor = schedule.sm2_ease_factor;
+    payload.fsrs_stability = schedule.fsrs_stability;
+    payload.fsrs_difficulty = schedule.fsrs_difficulty;
+    payload.next_review_at = new Date(schedule.next_review_at).toISOString();
+  }
+
   if (updates.phonetic) payload.phonetic = updates.phonetic;
   if (updates.audio_url) payload.audio_url = updates.audio_url;
   if (updates.language) payload.language = updates.language;
   if (updates.definition_cn) payload.definition_cn = updates.definition_cn;
   if (updates.definition_en) payload.definition_en = updates.definition_en;
+  if (updates.answerKey) payload.applied_answer_keys = [...appliedKeys, updates.answerKey].slice(-WORD_ANSWER_KEYS_KEPT);
 
-  const { error } = await supabase
+  const { data: written, error } = await supabase
     .from('words')
     .update(payload)
-    .eq('id', wordId);
+    .eq('id', wordId)
+    .eq('version', currentWord?.version ?? 0)
+    .select('id');
 
-  if (error) console.error("Error updating word status V2:", error.message);
+  if (error) throw Object.assign(new Error(`Error updating word status V2: ${error.message}`), { code: error.code });
+  // Another device wrote in between: nothing was changed, start over from its row
+  if (!Array.isArray(written) || written.length === 0) return { applied: false, schedule: null };
 
   // Remove Mistake tag if error_count reached 0
   if (shouldRemoveMistakeTag) {
@@ -959,6 +1063,8 @@ export const updateWordStatusV2 = async (
   // via recordTestAndSyncStats(), which records to daily_test_records
   // and aggregates to daily_stats incrementally.
   // Individual word updates no longer trigger immediate stats sync.
+
+  return { applied: true, schedule };
 };
 
 /**
@@ -994,32 +1100,356 @@ export interface GameWordResult {
  *      the scoring rules (score=3 on correct, +1 error_count on wrong)
  *      stay uniform across modes.
  *
- * Errors are logged but non-fatal — a failed word-stats sync must not block
- * the round from being recorded.
+ * Errors are non-fatal — a failed word-stats sync must not block the round
+ * from being recorded; the update waits in the mutation outbox instead.
+ *
+ * Returns the new review schedule per word id so callers can patch their local
+ * WordEntry copies without a full refetch.
  */
-export const syncGameResultsToWordStats = async (results: GameWordResult[]): Promise<void> => {
+export const syncGameResultsToWordStats = async (
+  results: GameWordResult[]
+): Promise<Record<string, WordScheduleUpdate>> => {
+  const schedules: Record<string, WordScheduleUpdate> = {};
   // Serial loop because updateWordStatusV2 does a read-then-write
   // (SELECT current error_count → compute new → UPDATE). Parallel calls
   // on the same user's words can race and lose increments.
+  const reviewedAt = Date.now();
   for (const r of results) {
     if (!r.wordId) continue;
     try {
-      await updateWordStatusV2(r.wordId, {
-        correct: r.correct,
-        // Score 3 mirrors CLASSIC's "direct correct (no hint)" path, which
-        // is the threshold for triggering error decay. Game modes today
-        // don't expose a "hint" path that maps cleanly to score=2.4, so we
-        // treat all correct answers as full-score. hintUsed still blocks
-        // decay because hasUsedHint short-circuits it inside updateWordStatusV2.
-        score: r.correct ? 3 : 0,
-        error_count_increment: r.correct ? 0 : 1,
-        hasUsedHint: r.hintUsed,
-        best_time_ms: r.correct && r.durationMs ? r.durationMs : undefined,
+      // Through the outbox: offline or failed updates are replayed later
+      // instead of being lost (the schedule then arrives with the next refresh)
+      const outcome = await submitMutation({
+        type: 'word_status',
+        payload: {
+          wordId: r.wordId,
+          correct: r.correct,
+          // Score 3 mirrors CLASSIC's "direct correct (no hint)" path, which
+          // is the threshold for triggering error decay. Game modes today
+          // don't expose a "hint" path that maps cleanly to score=2.4, so we
+          // treat all correct answers as full-score. hintUsed still blocks
+          // decay because hasUsedHint short-circuits it inside updateWordStatusV2.
+          score: r.correct ? 3 : 0,
+          errorCountIncrement: r.correct ? 0 : 1,
+          hasUsedHint: r.hintUsed,
+          bestTimeMs: r.correct && r.durationMs ? r.durationMs : undefined,
+          reviewedAt,
+        },
       });
+      const schedule = outcome.status === 'applied' ? outcome.result as WordScheduleUpdate | null : null;
+      if (schedule) schedules[r.wordId] = schedule;
     } catch (err) {
       console.error('[syncGameResultsToWordStats] word sync failed:', r.wordId, err);
     }
   }
+  return schedules;
+};
+
+/**
+ * Raise a word's error_count and reset its decay streak without recording
+ * a review (schedules and last_tested are left alone). Version-guarded like
+ * updateWordStatusV2, so a concurrent answer is not overwritten, and keyed
+ * like it: a penalty the word already holds under `answerKey` is skipped.
+ * Resolves to the word's error_count afterwards.
+ */
+export const addWordErrorPenalty = async (
+  wordId: string,
+  increment: number,
+  answerKey?: string
+): Promise<number> => {
+  for (let attempt = 0; attempt < WORD_MERGE_ATTEMPTS; attempt++) {
+    const { data: current, error: readError } = await supabase
+      .from('words')
+      .select('version, error_count, applied_answer_keys')
+      .eq('id', wordId)
+      .single();
+    if (readError) throw Object.assign(new Error(`Failed to read word ${wordId}: ${readError.message}`), { code: readError.code });
+
+    const appliedKeys: string[] = current?.applied_answer_keys || [];
+    const errorCount = Number(current?.error_count || 0);
+    if (answerKey && appliedKeys.includes(answerKey)) return errorCount;
+
+    const payload: any = { error_count: errorCount + increment, consecutive_correct: 0 };
+    if (answerKey) payload.applied_answer_keys = [...appliedKeys, answerKey].slice(-WORD_ANSWER_KEYS_KEPT);
+
+    const { data: written, error } = await supabase
+      .from('words')
+      .update(payload)
+      .eq('id', wordId)
+      .eq('version', current?.version ?? 0)
+      .select('id');
+    if (error) throw Object.assign(new Error(`Error adding error penalty: ${error.message}`), { code: error.code });
+    if (Array.isArray(written) && written.length > 0) return errorCount + increment;
+  }
+  throw new VersionConflictError(`Word ${wordId} kept changing while adding an error penalty`, 0);
+};
+
+/**
+ * Feed sentence dictation results back into error_count.
+ *
+ * The words were already reviewed by the spelling part of the test, so this
+ * is not another review: schedules are left alone. A target word missed or
+ * misspelled in its sentence adds `penalty` to error_count and resets the
+ * decay streak; correctly dictated words are unchanged. Each penalty goes
+ * through the outbox (error_penalty) keyed by dictation and word, so it is
+ * replayed when offline and counted once.
+ * @param dictationId - Stable per dictation run
+ */
+export const recordDictationResults = async (
+  results: Array<{ wordId: string; targetCorrect: boolean }>,
+  penalty: number,
+  dictationId: string
+): Promise<void> => {
+  for (const r of results) {
+    if (!r.wordId || r.targetCorrect) continue;
+    try {
+      await submitMutation(
+        { type: 'error_penalty', payload: { wordId: r.wordId, errorCountIncrement: penalty } },
+        { key: `error_penalty:${dictationId}:${r.wordId}` }
+      );
+    } catch (err) {
+      console.error('[recordDictationResults] Failed to queue penalty:', r.wordId, err);
+    }
+  }
+};
+
+/**
+ * Input for one review log row. reviewedAt defaults to now.
+ */
+export type WordReviewLogInput = Omit<WordReviewLogEntry, 'id' | 'reviewedAt'> & { reviewedAt?: number };
+
+const mapReviewLogRow = (row: any): WordReviewLogEntry => ({
+  id: row.id,
+  wordId: row.word_id,
+  mode: row.mode,
+  reviewedAt: new Date(row.reviewed_at).getTime(),
+  correct: Boolean(row.correct),
+  attempts: row.attempts ?? 1,
+  hintLevel: row.hint_level ?? 0,
+  timeSpentMs: row.time_spent_ms ?? null,
+  charsPerMinute: row.chars_per_minute ?? null,
+});
+
+/**
+ * Characters per minute for one word, or null when there is no usable timing.
+ */
+export const calculateCharsPerMinute = (wordText: string, durationMs: number | null | undefined): number | null => {
+  if (!durationMs || durationMs <= 0) return null;
+  return Math.round((wordText.length * 60000) / durationMs);
+};
+
+/**
+ * Append attempts to the per-word review log (public.word_reviews).
+ *
+ * The log is append-only and feeds the word timeline, FSRS weight
+ * optimization and analytics. Like syncGameResultsToWordStats, failures are
+ * logged but non-fatal — losing a log row must never block a test or round.
+ * Resolves to whether the rows were written, for the offline replay.
+ */
+export const recordWordReviews = async (entries: WordReviewLogInput[]): Promise<boolean> => {
+  const valid = entries.filter(e => e.wordId);
+  if (valid.length === 0) return true;
+
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return false;
+
+    const rows = valid.map(e => ({
+      user_id: userId,
+      word_id: e.wordId,
+      mode: e.mode,
+      reviewed_at: new Date(e.reviewedAt ?? Date.now()).toISOString(),
+      correct: e.correct,
+      attempts: Math.max(1, Math.round(e.attempts)),
+      hint_level: Math.max(0, Math.round(e.hintLevel)),
+      time_spent_ms: e.timeSpentMs != null ? Math.max(0, Math.round(e.timeSpentMs)) : null,
+      chars_per_minute: e.charsPerMinute != null ? Math.max(0, Math.round(e.charsPerMinute)) : null,
+    }));
+
+    const { error } = await supabase.from('word_reviews').insert(rows);
+    if (error) {
+      console.error('[recordWordReviews] Failed to append review log:', error.message);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('[recordWordReviews] Failed to append review log:', err);
+    return false;
+  }
+};
+
+/**
+ * Append a finished round's attempts to the review log through the outbox:
+ * one review_log item per attempt, keyed by round and position, so an
+ * offline round is replayed later and a replayed round is logged once.
+ * Non-fatal like recordWordReviews.
+ * @param roundId - Stable per round (the verified round's ticket id when there is one)
+ */
+export const submitWordReviews = async (entries: WordReviewLogInput[], roundId: string): Promise<void> => {
+  const reviewedAt = Date.now();
+  for (const [index, e] of entries.entries()) {
+    if (!e.wordId) continue;
+    try {
+      await submitMutation(
+        { type: 'review_log', payload: { ...e, reviewedAt: e.reviewedAt ?? reviewedAt } },
+        { key: `review_log:${roundId}:${index}` },
+      );
+    } catch (err) {
+      console.error('[submitWordReviews] Failed to queue review log:', e.wordId, err);
+    }
+  }
+};
+
+/**
+ * Build review log rows from a game round's per-card results
+ * (PuzzleCardResult / SceneCardResult share this shape).
+ */
+export const gameResultsToReviewLog = (
+  mode: ReviewLogMode,
+  results: {
+    wordId: string;
+    wordText: string;
+    correct: boolean;
+    attemptsUsed: number;
+    hintUsed: boolean;
+    solvedAtMs: number | null;
+    activatedAtMs: number | null;
+  }[],
+  reviewedAt: number = Date.now()
+): WordReviewLogInput[] => results.map(r => {
+  const timeSpentMs = r.activatedAtMs != null && r.solvedAtMs != null
+    ? r.solvedAtMs - r.activatedAtMs
+    : null;
+  return {
+    wordId: r.wordId,
+    mode,
+    reviewedAt,
+    correct: r.correct,
+    attempts: Math.max(1, r.attemptsUsed),
+    hintLevel: r.hintUsed ? 1 : 0,
+    timeSpentMs,
+    charsPerMinute: calculateCharsPerMinute(r.wordText, timeSpentMs),
+  };
+});
+
+/**
+ * Full review timeline of one word, oldest first.
+ */
+export const fetchWordReviewTimeline = async (wordId: string): Promise<WordReviewLogEntry[]> => {
+  const { data, error } = await supabase
+    .from('word_reviews')
+    .select('id, word_id, mode, reviewed_at, correct, attempts, hint_level, time_spent_ms, chars_per_minute')
+    .eq('word_id', wordId)
+    .order('reviewed_at', { ascending: true });
+
+  if (error) {
+    console.error('[fetchWordReviewTimeline] Failed to fetch review timeline:', error.message);
+    throw error;
+  }
+
+  return (data || []).map(mapReviewLogRow);
+};
+
+/**
+ * Every review of the current user, oldest first (for scheduler tuning / analytics).
+ * Paged because PostgREST caps a single response.
+ */
+export const fetchUserReviewLog = async (userId: string): Promise<WordReviewLogEntry[]> => {
+  const PAGE_SIZE = 1000;
+  const all: WordReviewLogEntry[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('word_reviews')
+      .select('id, word_id, mode, reviewed_at, correct, attempts, hint_level, time_spent_ms, chars_per_minute')
+      .eq('user_id', userId)
+      .order('reviewed_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[fetchUserReviewLog] Failed to fetch review log:', error.message);
+      throw error;
+    }
+
+    const rows = data || [];
+    all.push(...rows.map(mapReviewLogRow));
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return all;
+};
+
+/**
+ * Reset a word's learning progress to "never tested".
+ * Clears error/streak/scheduling state and the Mistake tag; the append-only
+ * review log is kept so the timeline still shows what happened before.
+ *
+ * @returns The reset fields, for patching the local WordEntry
+ */
+export const resetWordProgress = async (wordId: string, tags: string[] = []): Promise<Partial<WordEntry>> => {
+  const nextTags = tags.filter(t => t !== 'Mistake');
+  const reset = {
+    correct: false,
+    tested: false,
+    score: undefined,
+    error_count: 0,
+    consecutive_correct: 0,
+    best_time_ms: null,
+    last_tested: null,
+    sm2_interval: 0,
+    sm2_repetitions: 0,
+    sm2_ease_factor: 2.5,
+    next_review_at: null,
+    fsrs_stability: null,
+    fsrs_difficulty: null,
+    tags: nextTags.length > 0 ? nextTags : ['Custom'],
+  };
+
+  const { error } = await supabase
+    .from('words')
+    .update({ ...reset, score: null })
+    .eq('id', wordId);
+
+  if (error) {
+    console.error('[resetWordProgress] Failed to reset word progress:', error.message);
+    throw error;
+  }
+
+  return reset;
+};
+
+/**
+ * Study-state changes that take words in or out of rotation
+ * (see utils/wordState.ts). Progress and history are untouched.
+ */
+export interface WordStudyStatePatch {
+  suspended?: boolean;
+  known?: boolean;
+  buried_until?: number | null;
+}
+
+/**
+ * Suspend / bury / mark words as known (or undo it), in one update.
+ */
+export const updateWordStudyState = async (wordIds: string[], patch: WordStudyStatePatch): Promise<void> => {
+  if (wordIds.length === 0) return;
+
+  const payload: Record<string, unknown> = {};
+  if (patch.suspended !== undefined) payload.suspended = patch.suspended;
+  if (patch.known !== undefined) payload.known = patch.known;
+  if (patch.buried_until !== undefined) {
+    payload.buried_until = patch.buried_until != null ? new Date(patch.buried_until).toISOString() : null;
+  }
+
+  const { error } = await supabase
+    .from('words')
+    .update(payload)
+    .in('id', wordIds);
+
+  if (error) {
+    console.error('[updateWordStudyState] Failed to update study state:', error.message);
+    throw error;
+  }
 };
 
 export const updateWordImage = async (wordId: string, imagePath: string) => {
@@ -1036,15 +1466,44 @@ export const updateWordImage = async (wordId: string, imagePath: string) => {
 /**
  * Update word metadata like audio URL and phonetic transcription
  */
-export const updateWordMetadata = async (wordId: string, updates: { 
-  audio_url?: string, 
+type WordMetadataUpdates = {
+  audio_url?: string,
   phonetic?: string,
   definition_cn?: string,
   definition_en?: string,
   language?: string,
   meaning_options?: WordMeaningOption[] | null,
   selected_meaning_key?: string | null,
-}) => {
+};
+
+/**
+ * Best-effort metadata backfill (dictionary lookups, audio URLs): errors are
+ * logged. Learner choices go through saveWordMetadata via the outbox.
+ */
+export const updateWordMetadata = async (wordId: string, updates: WordMetadataUpdates) => {
+  try {
+    await saveWordMetadata(wordId, updates);
+  } catch (error) {
+    console.error("Error updating word metadata:", (error as Error).message);
+  }
+};
+
+/**
+ * Update word metadata and throw on failure (outbox replay handler).
+ * With `base` (the values the learner saw when editing) the edit is merged
+ * field by field with whatever other devices wrote since, see saveWordEdits.
+ */
+export const saveWordMetadata = async (
+  wordId: string,
+  updates: WordMetadataUpdates,
+  base?: WordMergeState,
+  editedAt?: number
+): Promise<void> => {
+  if (base) {
+    await saveWordEdits(wordId, base, { ...base, ...updates }, editedAt);
+    return;
+  }
+
   const { error } = await executeWordsMutationWithCompatibility(
     () => supabase
       .from('words')
@@ -1056,14 +1515,88 @@ export const updateWordMetadata = async (wordId: string, updates: {
       .eq('id', wordId),
     'updateWordMetadata'
   );
-    
-  if (error) console.error("Error updating word metadata:", error.message);
+
+  if (error) throw error;
+};
+
+const DEVICE_ID_KEY = 'vibe_device_id';
+const WORD_MERGE_ATTEMPTS = 3;
+
+/** Stable id for this browser, stamped on the word fields it edits */
+export const getDeviceId = (): string => {
+  try {
+    const existing = localStorage.getItem(DEVICE_ID_KEY);
+    if (existing) return existing;
+    const id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+    return id;
+  } catch {
+    return 'unknown-device';
+  }
+};
+
+/**
+ * Write a local word edit without clobbering other devices.
+ *
+ * Reads the server row, three-way merges `base` → `local` into it
+ * (utils/wordMerge.ts) and writes only the merged fields, guarded by the
+ * row's version. If another device wrote in between, the merge is redone
+ * against the new row.
+ * @returns the text / meaning fields both sides had changed (resolved last-writer-wins)
+ */
+export const saveWordEdits = async (
+  wordId: string,
+  base: WordMergeState,
+  local: WordMergeState,
+  editedAt: number = Date.now()
+): Promise<WordLwwField[]> => {
+  const columns = wordsMeaningFieldsSupported === false
+    ? 'version, field_versions, text, language, definition_cn, definition_en, error_count, tags'
+    : 'version, field_versions, text, language, definition_cn, definition_en, meaning_options, selected_meaning_key, error_count, tags';
+
+  for (let attempt = 0; attempt < WORD_MERGE_ATTEMPTS; attempt++) {
+    const { data: remote, error: readError } = await supabase
+      .from('words')
+      .select(columns)
+      .eq('id', wordId)
+      .single();
+    if (readError) throw Object.assign(new Error(`Failed to read word ${wordId}: ${readError.message}`), { code: readError.code });
+
+    const row = remote as any;
+    const { patch, conflicts } = mergeWordEdits(base, local, row, getDeviceId(), editedAt);
+    if (conflicts.length > 0) {
+      console.warn('[saveWordEdits] Concurrent edits resolved last-writer-wins:', { wordId, conflicts });
+    }
+    if (Object.keys(patch).length === 0) return conflicts;
+
+    const { data, error } = await executeWordsMutationWithCompatibility(
+      () => supabase
+        .from('words')
+        .update(patch)
+        .eq('id', wordId)
+        .eq('version', row.version ?? 0)
+        .select('id'),
+      () => supabase
+        .from('words')
+        .update(stripMeaningFields(patch))
+        .eq('id', wordId)
+        .eq('version', row.version ?? 0)
+        .select('id'),
+      'saveWordEdits'
+    );
+    if (error) throw error;
+    if (Array.isArray(data) && data.length > 0) return conflicts;
+    // Another device wrote in between: merge again against its row
+  }
+
+  throw new VersionConflictError(`Word ${wordId} kept changing while saving`, 0);
 };
 
 export const generateSRSQueue = (
     allWords: WordEntry[],
     selectedWordIds: string[],
-    targetSize: number = 20
+    targetSize: number = 20,
+    scheduler: ReviewScheduler = getActiveReviewScheduler()
 ): WordEntry[] => {
     // 1. Core Selection (70%)
     const selectedWords = allWords.filter(w => selectedWordIds.includes(w.id));
@@ -1075,13 +1608,13 @@ export const generateSRSQueue = (
     const adaptiveConfig = WORD_LEARNING_CONFIG.adaptiveSelection;
 
     // Calculate weights for all words in pool
-    // Weight = error_count * legacyErrorWeight + (time since last tested in days)
+    // Weight = error_count * legacyErrorWeight + forgetting risk (0-1, from the
+    // active scheduler) scaled to the same "days" range as the default gap
+    const now = Date.now();
     const scoredPool = pool.map(w => {
-        const daysSinceLast = w.last_tested
-            ? (Date.now() - w.last_tested) / (1000 * 60 * 60 * 24)
-            : adaptiveConfig.defaultDaysSinceLastTest; // Use config for default days
-
-        const score = (w.error_count * adaptiveConfig.legacyErrorWeight) + daysSinceLast;
+        const risk = scheduler.forgettingRisk(w, now);
+        const score = (w.error_count * adaptiveConfig.legacyErrorWeight)
+            + risk * adaptiveConfig.defaultDaysSinceLastTest;
         return { word: w, score };
     });
 
@@ -1367,12 +1900,12 @@ export const getWordsMissingImage = async (userId: string) => {
 };
 
 
-export const importDictionaryWords = async (userId: string, words: string[], tag: string) => {
-  // 1. Get or create a library-specific session
-  // Each library (CET-4, CET-6, TOEFL, etc.) gets its own session
-  // This allows proper organization and library-specific deduplication
-  let sessionId: string;
-  
+/**
+ * Get or create the session that holds a library's words.
+ * Each library (CET-4, CET-6, imported decks, etc.) gets its own session
+ * (target_count -999) for organization and library-specific deduplication.
+ */
+const getOrCreateLibrarySession = async (userId: string, tag: string): Promise<string> => {
   const { data: existingSessions } = await supabase
     .from('sessions')
     .select('id')
@@ -1382,23 +1915,39 @@ export const importDictionaryWords = async (userId: string, words: string[], tag
     .limit(1);
 
   if (existingSessions && existingSessions.length > 0) {
-     sessionId = existingSessions[0].id;
-  } else {
-     const { data: newSession, error } = await supabase
-        .from('sessions')
-        .insert({
-            user_id: userId,
-            word_count: 0,
-            target_count: -999,
-            library_tag: tag
-        })
-        .select()
-        .single();
-     
-     if (error) throw error;
-     sessionId = newSession.id;
+     return existingSessions[0].id;
   }
 
+  const { data: newSession, error } = await supabase
+     .from('sessions')
+     .insert({
+         user_id: userId,
+         word_count: 0,
+         target_count: -999,
+         library_tag: tag
+     })
+     .select()
+     .single();
+
+  if (error) throw error;
+  return newSession.id;
+};
+
+/**
+ * Add a word list to a library tag: new words are inserted, existing ones get
+ * the tag added.
+ * @param meanings - Optional Chinese meanings keyed by lower-cased word; used
+ *                   for new words and existing words without a definition_cn
+ */
+export const importDictionaryWords = async (
+  userId: string,
+  words: string[],
+  tag: string,
+  meanings?: Map<string, string>
+) => {
+  // 1. Get or create a library-specific session
+  const sessionId = await getOrCreateLibrarySession(userId, tag);
+
   // 1.5 Validate Words (Filter single letters and check spelling)
   console.log(`[importDictionaryWords] Validating ${words.length} words...`);
   const validatedWords: string[] = [];
@@ -1426,7 +1975,7 @@ export const importDictionaryWords = async (userId: string, words: string[], tag
 
   // 2. Fetch all existing ACTIVE words for deduplication and tagging
   // IMPORTANT: Supabase has a default limit of 1000 rows, so we need to paginate
-  const wordMap = new Map<string, { id: string, tags: string[] }>();
+  const wordMap = new Map<string, { id: string, tags: string[], definition_cn: string | null }>();
   
   let page = 0;
   const PAGE_SIZE = 1000;
@@ -1438,7 +1987,7 @@ export const importDictionaryWords = async (userId: string, words: string[], tag
     
     const { data: userWords, error: fetchError } = await supabase
       .from('words')
-      .select('id, text, tags')
+      .select('id, text, tags, definition_cn')
       .eq('user_id', userId)
       .or('deleted.eq.false,deleted.is.null')
       .range(from, to);
@@ -1451,7 +2000,7 @@ export const importDictionaryWords = async (userId: string, words: string[], tag
     if (!userWords || userWords.length === 0) {
       hasMore = false;
     } else {
-      userWords.forEach((w: any) => wordMap.set(w.text.toLowerCase().trim(), { id: w.id, tags: w.tags || [] }));
+      userWords.forEach((w: any) => wordMap.set(w.text.toLowerCase().trim(), { id: w.id, tags: w.tags || [], definition_cn: w.definition_cn }));
       hasMore = userWords.length === PAGE_SIZE;
       page++;
     }
@@ -1472,14 +2021,15 @@ export const importDictionaryWords = async (userId: string, words: string[], tag
     if (processedTexts.has(lowerText)) continue;
     processedTexts.add(lowerText);
     
+    const meaning = meanings?.get(lowerText) || null;
     if (wordMap.has(lowerText)) {
       const existing = wordMap.get(lowerText)!;
-      // Only update if tag doesn't exist
-      if (!existing.tags.includes(tag)) {
-        updates.push({
-          id: existing.id,
-          tags: [...existing.tags, tag]
-        });
+      // Only update if tag doesn't exist (or a missing meaning can be filled)
+      const patch: Record<string, unknown> = {};
+      if (!existing.tags.includes(tag)) patch.tags = [...existing.tags, tag];
+      if (meaning && !existing.definition_cn) patch.definition_cn = meaning;
+      if (Object.keys(patch).length > 0) {
+        updates.push({ id: existing.id, patch });
       }
     } else {
       inserts.push({
@@ -1489,6 +2039,7 @@ export const importDictionaryWords = async (userId: string, words: string[], tag
         // Most lists are lowercase, but some might be Capitalized. 
         // We'll keep input case but use lower for comparison.
         tags: [tag],
+        definition_cn: meaning,
         correct: false,
         tested: false,
         error_count: 0
@@ -1528,7 +2079,7 @@ export const importDictionaryWords = async (userId: string, words: string[], tag
           // Update in parallel within batch
           const results = await Promise.allSettled(
             chunk.map(u => 
-              supabase.from('words').update({ tags: u.tags }).eq('id', u.id)
+              supabase.from('words').update(u.patch).eq('id', u.id)
             )
           );
           
@@ -1542,43 +2093,153 @@ export const importDictionaryWords = async (userId: string, words: string[], tag
   return { updated: updatedCount, inserted: insertedCount };
 };
 
-/**
- * Dictionary configuration - uses local pre-cleaned wordlist files
- * These files are stored in /public/dictionaries/wordlists/ as "gold standard"
- * Format: one word per line, lowercase, sorted, deduplicated
- */
-export const DICTIONARY_CONFIG = [
-  { name: 'Primary School (小学)', localPath: '/dictionaries/wordlists/primary.txt', tag: 'Primary', wordCount: 439 },
-  { name: 'Junior High (初中)', localPath: '/dictionaries/wordlists/junior.txt', tag: 'Junior', wordCount: 1887 },
-  { name: 'Senior High (高中)', localPath: '/dictionaries/wordlists/senior.txt', tag: 'Senior', wordCount: 3429 },
-  { name: 'CET-4 (四级)', localPath: '/dictionaries/wordlists/cet4.txt', tag: 'CET-4', wordCount: 4551 },
-  { name: 'CET-6 (六级)', localPath: '/dictionaries/wordlists/cet6.txt', tag: 'CET-6', wordCount: 2219 },
-];
+export type DeckDuplicateStrategy = 'skip' | 'merge';
 
 /**
- * Parse pre-cleaned word list (one word per line, already lowercase)
+ * Import mapped deck records (CSV / TSV / Anki, see utils/deckImport.ts).
+ *
+ * New words are inserted with their meanings, phonetic and any carried-over
+ * scheduling state. Words that already exist are either skipped, or merged:
+ * the deck tag and extra tags are added, empty meaning / phonetic fields are
+ * filled, and scheduling is copied only if the word was never tested here.
  */
-const parseCleanWordList = (text: string): string[] => {
-  return text.split('\n')
-    .map(l => l.trim())
-    .filter(l => l.length > 0);
+export const importDeckWords = async (
+  userId: string,
+  records: DeckImportRecord[],
+  tag: string,
+  duplicateStrategy: DeckDuplicateStrategy = 'merge'
+) => {
+  const sessionId = await getOrCreateLibrarySession(userId, tag);
+
+  // Existing ACTIVE words (paginated, Supabase returns at most 1000 rows)
+  const wordMap = new Map<string, any>();
+  let page = 0;
+  const PAGE_SIZE = 1000;
+  let hasMore = true;
+  while (hasMore) {
+    const from = page * PAGE_SIZE;
+    const { data: userWords, error: fetchError } = await supabase
+      .from('words')
+      .select('id, text, tags, definition_cn, definition_en, phonetic, tested')
+      .eq('user_id', userId)
+      .or('deleted.eq.false,deleted.is.null')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (fetchError) {
+      console.error('[importDeckWords] Error fetching words page:', fetchError.message);
+      throw fetchError;
+    }
+    (userWords || []).forEach((w: any) => wordMap.set(w.text.toLowerCase().trim(), w));
+    hasMore = (userWords?.length || 0) === PAGE_SIZE;
+    page++;
+  }
+
+  const scheduleColumns = (schedule: DeckImportRecord['schedule']) => schedule ? {
+    tested: schedule.tested,
+    correct: schedule.correct,
+    error_count: schedule.error_count,
+    last_tested: schedule.last_tested ? new Date(schedule.last_tested).toISOString() : null,
+    sm2_interval: schedule.sm2_interval,
+    sm2_repetitions: schedule.sm2_repetitions,
+    sm2_ease_factor: schedule.sm2_ease_factor,
+    next_review_at: schedule.next_review_at ? new Date(schedule.next_review_at).toISOString() : null,
+    fsrs_stability: schedule.fsrs_stability,
+    fsrs_difficulty: schedule.fsrs_difficulty,
+  } : {};
+
+  const inserts: any[] = [];
+  const updates: Array<{ id: string; patch: Record<string, any> }> = [];
+  let skipped = 0;
+  const processedTexts = new Set<string>();
+
+  for (const record of records) {
+    const lowerText = record.text.toLowerCase().trim();
+    if (!lowerText || processedTexts.has(lowerText)) continue;
+    processedTexts.add(lowerText);
+
+    const existing = wordMap.get(lowerText);
+    if (!existing) {
+      inserts.push({
+        user_id: userId,
+        session_id: sessionId,
+        text: record.text.trim(),
+        tags: Array.from(new Set([tag, ...record.tags])),
+        definition_cn: record.definition_cn,
+        definition_en: record.definition_en,
+        phonetic: record.phonetic,
+        correct: false,
+        tested: false,
+        error_count: 0,
+        suspended: record.suspended,
+        ...scheduleColumns(record.schedule),
+      });
+      continue;
+    }
+
+    if (duplicateStrategy === 'skip') {
+      skipped++;
+      continue;
+    }
+
+    const existingTags: string[] = existing.tags || [];
+    const patch: Record<string, any> = {};
+    const mergedTags = Array.from(new Set([...existingTags, tag, ...record.tags]));
+    if (mergedTags.length !== existingTags.length) patch.tags = mergedTags;
+    if (!existing.definition_cn && record.definition_cn) patch.definition_cn = record.definition_cn;
+    if (!existing.definition_en && record.definition_en) patch.definition_en = record.definition_en;
+    if (!existing.phonetic && record.phonetic) patch.phonetic = record.phonetic;
+    if (!existing.tested) Object.assign(patch, scheduleColumns(record.schedule));
+
+    if (Object.keys(patch).length > 0) updates.push({ id: existing.id, patch });
+    else skipped++;
+  }
+
+  console.log(`[importDeckWords] ${tag}: ${records.length} records, ${inserts.length} to insert, ${updates.length} to merge, ${skipped} skipped`);
+
+  let insertedCount = 0;
+  const CHUNK_SIZE = 500;
+  for (let i = 0; i < inserts.length; i += CHUNK_SIZE) {
+    const chunk = inserts.slice(i, i + CHUNK_SIZE);
+    const { error } = await supabase.from('words').insert(chunk);
+    if (error) {
+      console.error(`[importDeckWords] Error inserting chunk ${Math.floor(i / CHUNK_SIZE) + 1}:`, error.message);
+      continue;
+    }
+    insertedCount += chunk.length;
+    triggerPronunciationBatch(chunk.map((w: any) => ({ text: w.text, language: w.language })));
+  }
+
+  let updatedCount = 0;
+  const UPDATE_BATCH_SIZE = 100;
+  for (let i = 0; i < updates.length; i += UPDATE_BATCH_SIZE) {
+    const chunk = updates.slice(i, i + UPDATE_BATCH_SIZE);
+    const results = await Promise.allSettled(
+      chunk.map(u => supabase.from('words').update(u.patch).eq('id', u.id))
+    );
+    updatedCount += results.filter(r => r.status === 'fulfilled' && !r.value.error).length;
+  }
+
+  console.log(`[importDeckWords] ✅ Completed: inserted ${insertedCount}/${inserts.length}, merged ${updatedCount}/${updates.length}`);
+  return { inserted: insertedCount, updated: updatedCount, skipped };
 };
 
 /**
- * Fetch word list from local file
+ * Install (or top up) a library pack: loads its word list and imports it
+ * under the pack tag, then records the installed version.
  */
-export const fetchLocalWordList = async (localPath: string): Promise<string[]> => {
-  try {
-    const response = await fetch(localPath);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch local wordlist: ${response.status}`);
-    }
-    const text = await response.text();
-    return parseCleanWordList(text);
-  } catch (error) {
-    console.error(`[fetchLocalWordList] Error fetching ${localPath}:`, error);
-    return [];
+export const installLibraryPack = async (userId: string, pack: LibraryPack) => {
+  const packWords = await loadLibraryPackWords(pack);
+  if (packWords.length === 0) {
+    throw new Error(`Library pack ${pack.tag} has no words`);
   }
+
+  const meanings = new Map<string, string>();
+  packWords.forEach(w => { if (w.meaning) meanings.set(w.text.toLowerCase(), w.meaning); });
+
+  console.log(`[installLibraryPack] Installing ${pack.tag} v${pack.version}: ${packWords.length} words`);
+  const result = await importDictionaryWords(userId, packWords.map(w => w.text), pack.tag, meanings);
+  await recordLibraryInstall(userId, pack);
+  return result;
 };
 
 /**
@@ -1589,42 +2250,31 @@ export interface LibraryVerificationResult {
   name: string;
   isComplete: boolean;
   userWordCount: number;       // How many words user has with this tag
+  knownWordCount?: number;     // Of those, how many are marked as known (still count as present)
   sourceWordCount: number;     // How many words in source
   completionRate: number;      // Percentage (0-100)
   missingWords: string[];      // Sample of missing words (max 10)
+  extraWordCount?: number;     // Tagged words no longer in the pack (see prepareLibraryUpgrade)
+  levels?: LibraryLevelProgress[]; // Per difficulty level, for packs that define levels
   status: 'complete' | 'incomplete' | 'empty' | 'error';
 }
 
 /**
- * Verify library completeness by comparing with local gold standard
- * This performs a full comparison with the pre-cleaned word list
+ * Verify library completeness by comparing with the pack's word list
+ * This performs a full comparison with the manifest (or published) word list
  */
 export const verifyLibraryCompleteness = async (
   userId: string, 
-  tag: string
+  pack: LibraryPack
 ): Promise<LibraryVerificationResult> => {
-  const config = DICTIONARY_CONFIG.find(d => d.tag === tag);
-  
-  if (!config) {
-    return {
-      tag,
-      name: tag,
-      isComplete: false,
-      userWordCount: 0,
-      sourceWordCount: 0,
-      completionRate: 0,
-      missingWords: [],
-      status: 'error'
-    };
-  }
+  const { tag } = pack;
 
   try {
-    // 1. Fetch source word list from local gold standard file
-    const sourceWords = await fetchLocalWordList(config.localPath);
+    // 1. Load the pack word list
+    const sourceWords = await loadLibraryPackWords(pack);
     if (sourceWords.length === 0) {
-      throw new Error(`Failed to load local wordlist: ${config.localPath}`);
+      throw new Error(`Library pack ${tag} has no words`);
     }
-    const sourceWordSet = new Set(sourceWords);
     
     // 2. Fetch user's words with this tag (with pagination to handle > 1000 words)
     const userWords: any[] = [];
@@ -1638,7 +2288,7 @@ export const verifyLibraryCompleteness = async (
       
       const { data: pageData, error } = await supabase
         .from('words')
-        .select('text, tags')
+        .select('text, tags, known')
         .eq('user_id', userId)
         .or('deleted.eq.false,deleted.is.null')
         .contains('tags', [tag])
@@ -1656,37 +2306,32 @@ export const verifyLibraryCompleteness = async (
         page++;
       }
     }
+    // Known words stay in the library, so they count as present here —
+    // learners no longer need to delete them (which lowered completeness).
     const userWordSet = new Set(userWords.map((w: any) => w.text.toLowerCase().trim()));
+    const knownWordCount = userWords.filter((w: any) => w.known).length;
     
-    // 3. Calculate missing words
-    const missingWords: string[] = [];
-    for (const sourceWord of sourceWords) {
-      if (!userWordSet.has(sourceWord)) {
-        missingWords.push(sourceWord);
-        if (missingWords.length >= 10) break; // Only sample first 10
-      }
-    }
-
-    // 4. Calculate completion rate
-    const matchedCount = sourceWords.filter(w => userWordSet.has(w)).length;
-    const completionRate = sourceWords.length > 0 
-      ? Math.round((matchedCount / sourceWords.length) * 100) 
-      : 0;
+    // 3. Missing words, completion rate and per-level progress
+    const coverage = computePackCoverage(sourceWords, userWordSet, pack.levels);
+    const completionRate = coverage.completionRate;
 
     // Library is considered "complete" if 95%+ of source words exist
     const COMPLETENESS_THRESHOLD = 95;
     const isComplete = completionRate >= COMPLETENESS_THRESHOLD;
 
-    console.log(`[verifyLibraryCompleteness] ${tag}: ${matchedCount}/${sourceWords.length} = ${completionRate}%`);
+    console.log(`[verifyLibraryCompleteness] ${tag}: ${coverage.matched}/${coverage.total} = ${completionRate}%`);
 
     return {
       tag,
-      name: config.name,
+      name: pack.name,
       isComplete,
       userWordCount: userWords.length,
-      sourceWordCount: sourceWords.length,
+      knownWordCount,
+      sourceWordCount: coverage.total,
       completionRate,
-      missingWords,
+      missingWords: coverage.missingWords,
+      extraWordCount: coverage.extraWords,
+      levels: coverage.levels.length > 0 ? coverage.levels : undefined,
       status: userWords.length === 0 ? 'empty' : (isComplete ? 'complete' : 'incomplete')
     };
 
@@ -1694,7 +2339,7 @@ export const verifyLibraryCompleteness = async (
     console.error(`[verifyLibraryCompleteness] Error for ${tag}:`, error);
     return {
       tag,
-      name: config.name,
+      name: pack.name,
       isComplete: false,
       userWordCount: 0,
       sourceWordCount: 0,
@@ -1707,13 +2352,18 @@ export const verifyLibraryCompleteness = async (
 
 /**
  * Verify all libraries at once
+ * @param packs - Packs to check; defaults to the built-in manifest
  */
-export const verifyAllLibraries = async (userId: string): Promise<Record<string, LibraryVerificationResult>> => {
+export const verifyAllLibraries = async (
+  userId: string,
+  packs?: LibraryPack[]
+): Promise<Record<string, LibraryVerificationResult>> => {
   const results: Record<string, LibraryVerificationResult> = {};
+  const packList = packs ?? await fetchLibraryManifest();
   
-  // Verify all dictionaries in parallel
+  // Verify all packs in parallel
   const verifications = await Promise.all(
-    DICTIONARY_CONFIG.map(config => verifyLibraryCompleteness(userId, config.tag))
+    packList.map(pack => verifyLibraryCompleteness(userId, pack))
   );
   
   verifications.forEach(result => {
@@ -1723,6 +2373,129 @@ export const verifyAllLibraries = async (userId: string): Promise<Record<string,
   return results;
 };
 
+export interface LibraryUpgradePreview {
+  pack: LibraryPack;
+  /** Installed version, null for installs that predate version tracking */
+  fromVersion: number | null;
+  diff: LibraryPackDiff;
+  plan: LibraryUpgradePlan;
+}
+
+export interface LibraryUpgradeResult {
+  added: number;
+  renamed: number;
+  retagged: number;
+  removed: number;
+  failed: number;
+}
+
+/**
+ * Diff a user's installed library against the pack's current word list and
+ * plan the upgrade (see utils/libraryUpgrade.ts). Nothing is written.
+ */
+export const prepareLibraryUpgrade = async (
+  userId: string,
+  pack: LibraryPack,
+  fromVersion: number | null
+): Promise<LibraryUpgradePreview> => {
+  const nextWords = await loadLibraryPackWords(pack);
+
+  // All ACTIVE words: renames and additions must see words outside the library too
+  const userWords: UpgradeWordRow[] = [];
+  let page = 0;
+  const PAGE_SIZE = 1000;
+  let hasMore = true;
+  while (hasMore) {
+    const from = page * PAGE_SIZE;
+    const { data, error } = await supabase
+      .from('words')
+      .select('id, text, tags, tested, known, definition_cn')
+      .eq('user_id', userId)
+      .or('deleted.eq.false,deleted.is.null')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[prepareLibraryUpgrade] Error fetching words page:', error.message);
+      throw error;
+    }
+    (data || []).forEach((w: any) => userWords.push({ ...w, tags: w.tags || [] }));
+    hasMore = (data?.length || 0) === PAGE_SIZE;
+    page++;
+  }
+
+  const installed = userWords
+    .filter(w => w.tags.includes(pack.tag))
+    .map(w => ({ text: w.text, meaning: w.definition_cn ?? null, level: null }));
+  const previousVersion = pack.source === 'private' && fromVersion != null
+    ? await fetchLibraryPackVersionWords(pack.id, fromVersion)
+    : null;
+
+  const diff = computeLibraryDiff(installed, nextWords, previousVersion ?? undefined);
+  const plan = planLibraryUpgrade(diff, userWords, pack.tag);
+  console.log(`[prepareLibraryUpgrade] ${pack.tag} v${fromVersion ?? '?'} → v${pack.version}: +${diff.added.length} -${diff.removed.length} ~${diff.renamed.length}`);
+  return { pack, fromVersion, diff, plan };
+};
+
+/**
+ * Apply an upgrade plan. Renamed words are edited in place so their progress
+ * and review history stay; pronunciation is regenerated for the new spelling.
+ */
+export const applyLibraryUpgrade = async (userId: string, preview: LibraryUpgradePreview): Promise<LibraryUpgradeResult> => {
+  const { pack, plan } = preview;
+  const result: LibraryUpgradeResult = { added: 0, renamed: 0, retagged: 0, removed: 0, failed: 0 };
+
+  // 1. Renames first, so the new spellings are not inserted as fresh words
+  const renamed: { text: string; language?: string }[] = [];
+  for (const r of plan.rename) {
+    const { error } = await supabase
+      .from('words')
+      .update({ text: r.to, phonetic: null, audio_url: null })
+      .eq('id', r.id)
+      .eq('user_id', userId);
+    if (error) {
+      // e.g. a soft-deleted row already uses the new spelling
+      console.error(`[applyLibraryUpgrade] Rename ${r.from} → ${r.to} failed:`, error.message);
+      result.failed++;
+    } else {
+      result.renamed++;
+      renamed.push({ text: r.to, language: pack.language });
+    }
+  }
+  triggerPronunciationBatch(renamed);
+
+  // 2. Words leaving the library lose the tag
+  const UPDATE_BATCH_SIZE = 100;
+  for (let i = 0; i < plan.retag.length; i += UPDATE_BATCH_SIZE) {
+    const chunk = plan.retag.slice(i, i + UPDATE_BATCH_SIZE);
+    const results = await Promise.allSettled(
+      chunk.map(w => supabase.from('words').update({ tags: w.tags }).eq('id', w.id).eq('user_id', userId))
+    );
+    const ok = results.filter(r => r.status === 'fulfilled' && !r.value.error).length;
+    result.retagged += ok;
+    result.failed += chunk.length - ok;
+  }
+  if (plan.remove.length > 0) {
+    try {
+      await deleteWordsByIds(userId, plan.remove.map(w => w.id));
+      result.removed = plan.remove.length;
+    } catch {
+      result.failed += plan.remove.length;
+    }
+  }
+
+  // 3. New words (existing ones just gain the tag)
+  if (plan.add.length > 0) {
+    const meanings = new Map<string, string>();
+    plan.add.forEach(w => { if (w.meaning) meanings.set(w.text.toLowerCase(), w.meaning); });
+    const imported = await importDictionaryWords(userId, plan.add.map(w => w.text), pack.tag, meanings);
+    result.added = imported.inserted + imported.updated;
+  }
+
+  await recordLibraryInstall(userId, pack);
+  console.log(`[applyLibraryUpgrade] ✅ ${pack.tag} → v${pack.version}:`, result);
+  return result;
+};
+
 /**
  * Simple verification - just counts words (fast, no network)
  * Returns a map of library tags to their word counts
@@ -538,3 +538,31 @@ export const fetchDictionaryData = async (word: string, lang: string = 'en'): Pr
     };
   }
 };
+
+/**
+ * Example sentences for an English word from dictionaryapi.dev, in entry
+ * order. Empty when the word is unknown or the lookup fails.
+ */
+export const fetchExampleSentences = async (word: string): Promise<string[]> => {
+  const query = word.trim().toLowerCase();
+  if (!query) return [];
+  try {
+    const response = await fetchWithTimeout(`https://api.dictionaryapi.dev/api/v2/entries/en/${encodeURIComponent(query)}`, 4000);
+    if (!response.ok) return [];
+    const data = await response.json();
+    if (!Array.isArray(data)) return [];
+
+    const examples: string[] = [];
+    for (const entry of data) {
+      for (const meaning of entry?.meanings || []) {
+        for (const definition of meaning?.definitions || []) {
+          if (typeof definition?.example === 'string' && definition.example.trim()) examples.push(definition.example);
+        }
+      }
+    }
+    return examples;
+  } catch (error) {
+    console.warn('Example sentence lookup failed:', error);
+    return [];
+  }
+};
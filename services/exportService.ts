@@ -0,0 +1,173 @@
+/**
+ * Export Service - account archive (JSON), CSV and Anki exports, and
+ * restoring an archive into a fresh account.
+ *
+ * Formats live in utils/accountArchive.ts; this module gathers the data
+ * from Supabase and writes it back.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import { DayStats, WordEntry } from '../types';
+import { fetchUserData, fetchUserReviewLog, fetchUserStats } from './dataService';
+import {
+  AccountArchive,
+  AccountArchiveError,
+  ACCOUNT_ARCHIVE_FORMAT,
+  ACCOUNT_ARCHIVE_VERSION,
+  ArchivedAchievement,
+  planArchiveRestore,
+  SignedCoinLedger,
+  wordsToAnkiNotes,
+  wordsToCsv,
+} from '../utils/accountArchive';
+
+export interface ArchiveRestoreResult {
+  sessions: number;
+  words: number;
+  reviews: number;
+  dayStats: number;
+  achievements: number;
+  /** null when the archive had no ledger; otherwise restored count or the RPC error code */
+  coins: { restored: number } | { error: string } | null;
+}
+
+const fetchArchivedAchievements = async (userId: string): Promise<ArchivedAchievement[]> => {
+  const { data, error } = await supabase
+    .from('user_achievements')
+    .select('achievement_id, unlocked_at')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('[exportService] Failed to fetch achievements:', error.message);
+    throw error;
+  }
+  return data || [];
+};
+
+const fetchSignedCoinLedger = async (): Promise<SignedCoinLedger | null> => {
+  const { data, error } = await supabase.rpc('export_coin_ledger');
+  if (error || !data || data.error) {
+    // Non-fatal: the archive is still useful without coins
+    console.error('[exportService] export_coin_ledger failed:', error?.message || data?.error);
+    return null;
+  }
+  return data as SignedCoinLedger;
+};
+
+/**
+ * Collect the whole account into a versioned archive.
+ */
+export const buildAccountArchive = async (userId: string): Promise<AccountArchive> => {
+  const [{ sessions, words }, stats, achievements, reviews, coins] = await Promise.all([
+    fetchUserData(userId),
+    fetchUserStats(userId),
+    fetchArchivedAchievements(userId),
+    fetchUserReviewLog(userId),
+    fetchSignedCoinLedger(),
+  ]);
+
+  const dayStats: DayStats[] = stats.map((s: any) => ({
+    date: s.date,
+    total: s.total_count || s.total || 0,
+    correct: s.correct_count || s.correct || 0,
+    points: s.total_points ?? s.points ?? 0,
+    is_frozen: s.is_frozen || false,
+  }));
+
+  return {
+    format: ACCOUNT_ARCHIVE_FORMAT,
+    version: ACCOUNT_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    // Sync state is device-local and meaningless in another account
+    sessions: sessions.map(({ syncStatus: _syncStatus, ...session }) => session),
+    words,
+    dayStats,
+    achievements,
+    reviews,
+    coins,
+  };
+};
+
+/**
+ * Restore an archive into the signed-in account, which must have no words yet.
+ * Everything — rows and coins — is written by restore_account_archive in
+ * one transaction, so a failed restore leaves the account untouched and
+ * can be retried. Coins go first so achievement coin awards triggered
+ * later by the app are recognised as already paid.
+ */
+export const restoreAccountArchive = async (userId: string, archive: AccountArchive): Promise<ArchiveRestoreResult> => {
+  const plan = planArchiveRestore(archive, userId, () => crypto.randomUUID());
+
+  const { data, error } = await supabase.rpc('restore_account_archive', {
+    p_sessions: plan.sessions,
+    p_words: plan.words,
+    p_reviews: plan.reviews,
+    p_day_stats: plan.dayStats,
+    p_achievements: plan.achievements,
+    p_ledger: archive.coins?.ledger ?? null,
+    p_signature: archive.coins?.signature ?? null,
+  });
+
+  if (error) {
+    console.error('[restoreAccountArchive] restore_account_archive failed:', error.message);
+    throw new AccountArchiveError(`Restore failed: ${error.message}`);
+  }
+  if (data?.error === 'account_not_empty') {
+    throw new AccountArchiveError('Archives can only be restored into an account without words');
+  }
+  if (data?.error) {
+    throw new AccountArchiveError(`Restore failed: ${data.error}`);
+  }
+
+  let coins: ArchiveRestoreResult['coins'] = null;
+  if (data.coins?.error) {
+    console.error('[restoreAccountArchive] restore_coin_ledger failed:', data.coins.error);
+    coins = { error: data.coins.error };
+  } else if (data.coins) {
+    coins = { restored: data.coins.restored ?? 0 };
+  }
+
+  const result: ArchiveRestoreResult = {
+    sessions: data.sessions ?? 0,
+    words: data.words ?? 0,
+    reviews: data.reviews ?? 0,
+    dayStats: data.day_stats ?? 0,
+    achievements: data.achievements ?? 0,
+    coins,
+  };
+
+  console.log('[restoreAccountArchive] ✅ Restored archive:', result);
+  return result;
+};
+
+/**
+ * Save text as a file through a temporary download link.
+ */
+export const downloadTextFile = (fileName: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const exportDateSuffix = () => new Date().toISOString().slice(0, 10);
+
+export const downloadAccountArchive = async (userId: string) => {
+  const archive = await buildAccountArchive(userId);
+  downloadTextFile(`vibe-word-master-${exportDateSuffix()}.json`, JSON.stringify(archive), 'application/json');
+  return archive;
+};
+
+export const downloadWordsCsv = (words: WordEntry[]) => {
+  // BOM so Excel opens the Chinese meanings as UTF-8
+  downloadTextFile(`vibe-words-${exportDateSuffix()}.csv`, `\uFEFF${wordsToCsv(words)}`, 'text/csv');
+};
+
+export const downloadAnkiDeck = (words: WordEntry[], deckName = 'Vibe Word Master') => {
+  downloadTextFile(`vibe-words-anki-${exportDateSuffix()}.txt`, wordsToAnkiNotes(words, deckName), 'text/plain');
+};
@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabaseClient';
+import { getShanghaiDateString } from '../utils/timezone';
 
 // ------------------------------------------------------------------
 // Types
@@ -10,6 +11,9 @@ export type ChampionCategory =
   | 'word_mastery'
   | 'coins';
 
+/** Modal tabs: every champion category plus today's daily challenge (no champion) */
+export type LeaderboardCategory = ChampionCategory | 'daily_challenge';
+
 export interface ChampionInfo {
   category: ChampionCategory;
   categoryLabel: string;
@@ -116,16 +120,21 @@ const normalizeRow = (row: any): LeaderboardRow => ({
  * Fetch the ranked leaderboard for a single category. Always hits the
  * network (the modal is opened on user intent → fresh data expected).
  * Returns top-`limit` rows plus the current user's row if they're outside
- * the top N.
+ * the top N. `daily_challenge` ranks today's (Shanghai) challenge attempts.
  */
 export const fetchGlobalLeaderboard = async (
-  category: ChampionCategory,
+  category: LeaderboardCategory,
   limit = 10,
 ): Promise<LeaderboardRow[]> => {
-  const { data, error } = await supabase.rpc('get_global_leaderboard', {
-    p_category: category,
-    p_limit: limit,
-  });
+  const { data, error } = category === 'daily_challenge'
+    ? await supabase.rpc('get_daily_challenge_leaderboard', {
+      p_date: getShanghaiDateString(),
+      p_limit: limit,
+    })
+    : await supabase.rpc('get_global_leaderboard', {
+      p_category: category,
+      p_limit: limit,
+    });
 
   if (error) {
     console.error(
@@ -0,0 +1,221 @@
+/**
+ * Library Packs - discovery of built-in and private word libraries.
+ *
+ * Built-in packs come from /dictionaries/manifest.json; private packs are
+ * published by teachers (publish_library_pack) and added by students with a
+ * share code (subscribe_library_pack). Formats and coverage maths live in
+ * utils/libraryManifest.ts; installing words is dataService.installLibraryPack.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import {
+  LibraryLevel,
+  LibraryPack,
+  LibraryPackWord,
+  libraryPackFromRow,
+  normalizePackWords,
+  parseLibraryManifest,
+  parsePackWordFile,
+} from '../utils/libraryManifest';
+
+export const LIBRARY_MANIFEST_URL = '/dictionaries/manifest.json';
+
+export interface LibraryPackDraft {
+  /** Omit to create a new pack; set to publish the next version of an owned pack */
+  packId?: string;
+  name: string;
+  tag: string;
+  language?: string;
+  description?: string | null;
+  levels?: LibraryLevel[];
+  words: LibraryPackWord[];
+}
+
+export interface PublishedLibraryPack {
+  id: string;
+  version: number;
+  shareCode: string;
+}
+
+let manifestPromise: Promise<LibraryPack[]> | null = null;
+const wordCache = new Map<string, LibraryPackWord[]>();
+
+/**
+ * Built-in packs from the manifest (fetched once per page load).
+ */
+export const fetchLibraryManifest = (): Promise<LibraryPack[]> => {
+  if (!manifestPromise) {
+    manifestPromise = fetch(LIBRARY_MANIFEST_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to fetch library manifest: ${response.status}`);
+        return response.json();
+      })
+      .then(parseLibraryManifest)
+      .catch(error => {
+        console.error('[fetchLibraryManifest] Error:', error);
+        manifestPromise = null; // Retry on next call
+        return [];
+      });
+  }
+  return manifestPromise;
+};
+
+/**
+ * Word list of a pack. Built-in files are cached per pack version.
+ * @throws Error when a built-in word file cannot be loaded
+ */
+export const loadLibraryPackWords = async (pack: LibraryPack): Promise<LibraryPackWord[]> => {
+  if (pack.words) return pack.words;
+  if (!pack.wordList) return [];
+
+  const cacheKey = `${pack.id}@${pack.version}`;
+  const cached = wordCache.get(cacheKey);
+  if (cached) return cached;
+
+  const response = await fetch(pack.wordList);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch word list ${pack.wordList}: ${response.status}`);
+  }
+  const words = parsePackWordFile(pack.wordList, await response.text());
+  wordCache.set(cacheKey, words);
+  return words;
+};
+
+/**
+ * Private packs the user owns or has subscribed to (RLS limits the rows).
+ */
+export const fetchPrivateLibraryPacks = async (): Promise<LibraryPack[]> => {
+  const { data, error } = await supabase
+    .from('library_packs')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('[fetchPrivateLibraryPacks] Error:', error.message);
+    return [];
+  }
+  return (data || []).map(libraryPackFromRow);
+};
+
+/**
+ * All packs a user can install: built-in first, then private packs.
+ * A private pack whose tag collides with an earlier pack is left out.
+ */
+export const discoverLibraryPacks = async (): Promise<LibraryPack[]> => {
+  const [builtin, privatePacks] = await Promise.all([fetchLibraryManifest(), fetchPrivateLibraryPacks()]);
+  const tags = new Set(builtin.map(p => p.tag));
+  const visiblePrivate = privatePacks.filter(p => {
+    if (tags.has(p.tag)) {
+      console.warn(`[discoverLibraryPacks] Skipping private pack "${p.name}": tag ${p.tag} is already in use`);
+      return false;
+    }
+    tags.add(p.tag);
+    return true;
+  });
+  return [...builtin, ...visiblePrivate];
+};
+
+/**
+ * Word list of an earlier published version of a private pack, or null if
+ * it is not available (built-in packs keep no history).
+ */
+export const fetchLibraryPackVersionWords = async (packId: string, version: number): Promise<LibraryPackWord[] | null> => {
+  const { data, error } = await supabase
+    .from('library_pack_versions')
+    .select('words')
+    .eq('pack_id', packId)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[fetchLibraryPackVersionWords] Error:', error.message);
+    return null;
+  }
+  return data ? normalizePackWords(Array.isArray(data.words) ? data.words : []) : null;
+};
+
+/**
+ * Create a private pack or publish the next version of one the user owns.
+ * @returns Pack id, new version and share code, or the RPC error code
+ */
+export const publishLibraryPack = async (draft: LibraryPackDraft): Promise<PublishedLibraryPack | { error: string }> => {
+  const { data, error } = await supabase.rpc('publish_library_pack', {
+    p_pack_id: draft.packId ?? null,
+    p_name: draft.name.trim(),
+    p_tag: draft.tag.trim(),
+    p_language: draft.language ?? 'en',
+    p_description: draft.description ?? null,
+    p_levels: draft.levels ?? [],
+    p_words: draft.words,
+  });
+
+  if (error || data?.error) {
+    console.error('[publishLibraryPack] Error:', error?.message || data?.error);
+    return { error: error?.message || data.error };
+  }
+  return { id: data.id, version: data.version, shareCode: data.share_code };
+};
+
+/**
+ * Add a teacher's pack to the user's library list by share code.
+ */
+export const subscribeLibraryPack = async (shareCode: string): Promise<LibraryPack | { error: string }> => {
+  const { data, error } = await supabase.rpc('subscribe_library_pack', { p_share_code: shareCode });
+  if (error || data?.error) {
+    console.error('[subscribeLibraryPack] Error:', error?.message || data?.error);
+    return { error: error?.message || data.error };
+  }
+  return libraryPackFromRow(data.pack);
+};
+
+/**
+ * Remove a subscribed pack from the library list (installed words stay).
+ */
+export const unsubscribeLibraryPack = async (userId: string, packId: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('library_pack_subscriptions')
+    .delete()
+    .eq('user_id', userId)
+    .eq('pack_id', packId);
+
+  if (error) {
+    console.error('[unsubscribeLibraryPack] Error:', error.message);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Remember which version of a pack the user installed.
+ */
+export const recordLibraryInstall = async (userId: string, pack: LibraryPack): Promise<void> => {
+  const { error } = await supabase
+    .from('library_installs')
+    .upsert({
+      user_id: userId,
+      tag: pack.tag,
+      pack_id: pack.source === 'private' ? pack.id : null,
+      version: pack.version,
+      installed_at: new Date().toISOString(),
+    }, { onConflict: 'user_id, tag' });
+
+  if (error) {
+    console.error('[recordLibraryInstall] Error:', error.message);
+  }
+};
+
+/**
+ * Installed pack version per library tag.
+ */
+export const fetchLibraryInstalls = async (userId: string): Promise<Record<string, number>> => {
+  const { data, error } = await supabase
+    .from('library_installs')
+    .select('tag, version')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('[fetchLibraryInstalls] Error:', error.message);
+    return {};
+  }
+  return Object.fromEntries((data || []).map((row: any) => [row.tag, row.version]));
+};
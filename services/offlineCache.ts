@@ -0,0 +1,43 @@
+/**
+ * Offline Cache - installable PWA support.
+ *
+ * public/sw.js precaches the app shell and public/dictionaries on install
+ * and answers from its caches when there is no signal. After each library
+ * load the app sends it the media a CLASSIC test needs (word images and
+ * pronunciation URLs, see utils/offlineAssets.ts) so the next test also runs
+ * on the subway. Answers given offline go through services/offlineSyncQueue.ts.
+ */
+
+import type { WordEntry } from '../types';
+import { audioCacheManager } from './audioCache';
+import { collectOfflineAssetUrls } from '../utils/offlineAssets';
+
+export const SERVICE_WORKER_URL = '/sw.js';
+
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (error) {
+    console.error('[registerServiceWorker] failed:', error);
+    return null;
+  }
+};
+
+/**
+ * Ask the service worker to keep this library's images and audio.
+ * Fire-and-forget: the worker skips URLs it already holds and ignores
+ * ones that fail, so calling this after every refresh is cheap.
+ */
+export const warmOfflineCache = async (words: WordEntry[]): Promise<number> => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return 0;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const worker = registration?.active;
+  if (!worker) return 0;
+
+  const urls = collectOfflineAssetUrls(words, audioCacheManager.getUrls());
+  if (urls.length > 0) {
+    worker.postMessage({ type: 'CACHE_URLS', urls });
+  }
+  return urls.length;
+};
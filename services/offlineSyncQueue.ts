@@ -1,171 +1,465 @@
 /**
- * Offline Sync Queue Service (Phase C)
+ * Mutation Outbox (offline sync queue)
  *
- * Provides localStorage-based queue for pending test syncs when offline or sync fails.
- * Implements exponential backoff retry strategy (1s, 5s, 15s).
- * Max 3 retries per item before discarding.
+ * Cloud writes that must not be lost — CLASSIC answers and game word stats,
+ * dictation penalties, review log rows, daily test totals, game rounds, coin
+ * awards, meaning selections and deletions — go through submitMutation().
+ * Online with nothing queued ahead of it, the write runs at once; offline, or
+ * when it fails with a retryable error, it is stored as an OutboxItem and
+ * replayed later by the handler registered for its type
+ * (services/outboxHandlers.ts).
+ *
+ * - Storage: IndexedDB (vibe-outbox), localStorage when IndexedDB is missing.
+ * - Idempotency: every item has a key; queueing the same key twice is a no-op
+ *   (or replaces the older write when `supersede` is set, e.g. a meaning
+ *   selection). Handlers get the key too: answers store it on the word
+ *   (words.applied_answer_keys) and game rounds use their ticket's nonce, so
+ *   a replay of a write that already landed is skipped server-side. Coin
+ *   awards reuse their round reference, which the server already
+ *   deduplicates.
+ * - Ownership: items replay only for the user who queued them. A write
+ *   queued without a session is kept and attached at the next sign-in.
+ * - Ordering, backoff and dead letters: utils/mutationOutbox.ts. Nothing is
+ *   discarded silently: after OUTBOX_MAX_ATTEMPTS, or on an error the server
+ *   will repeat, an item moves to the dead-letter view (Account → Sync) where
+ *   the learner can retry or discard it.
  *
  * @module services/offlineSyncQueue
  */
 
-import { PendingSyncItem } from '../types';
-import { recordTestAndSyncStats } from './dataService';
+import { supabase } from '../lib/supabaseClient';
+import type { OutboxItem, OutboxOperation, OutboxOperationType } from '../types';
+import {
+  getOutboxOrderingKey,
+  hasPendingForKey,
+  markOutboxFailure,
+  reviveOutboxItem,
+  runOutboxPass,
+} from '../utils/mutationOutbox';
+
+const INDEXED_DB_NAME = 'vibe-outbox';
+const INDEXED_DB_VERSION = 1;
+const INDEXED_DB_STORE = 'mutations';
+const FALLBACK_STORAGE_KEY = 'vibe_outbox';
+// Queues from before the outbox; moved into it on first use
+const LEGACY_STATS_KEY = 'vibe_pending_syncs';
+const LEGACY_WORD_RESULTS_KEY = 'vibe_pending_word_results';
+// Owner of writes queued while no session could be read; claimed at the next sign-in
+const PENDING_OWNER = 'pending-owner';
 
-const STORAGE_KEY = 'vibe_pending_syncs';
-const MAX_RETRY_COUNT = 3;
-const RETRY_DELAYS = [1000, 5000, 15000];  // 1s, 5s, 15s
+type OutboxPayload<T extends OutboxOperationType> = Extract<OutboxOperation, { type: T }>['payload'];
 
 /**
- * Get all pending sync items from localStorage
- *
- * @returns {PendingSyncItem[]} Array of pending items (empty array if parse fails)
+ * Replays one operation; throws to signal failure. The resolved value goes back to submitMutation callers.
+ * `key` is the item's idempotency key, for handlers whose server write can dedupe on it.
+ */
+export type OutboxHandler<T extends OutboxOperationType> = (payload: OutboxPayload<T>, key: string) => Promise<unknown>;
+
+export interface MutationOptions {
+  /** Idempotency key; defaults to a fresh one (the write is unique) */
+  key?: string;
+  /** Defaults to getOutboxOrderingKey(op) */
+  orderingKey?: string;
+  /** Replace a queued item with the same key instead of keeping the older one */
+  supersede?: boolean;
+}
+
+export type MutationOutcome =
+  | { status: 'applied'; result: unknown }
+  | { status: 'queued' }
+  | { status: 'dead'; error: string };
+
+export interface OutboxProcessResult {
+  applied: number;
+  failed: number;  // Still pending, will retry
+  dead: number;  // Moved to the dead-letter view in this pass
+  appliedTypes: OutboxOperationType[];
+}
+
+const handlers: { [T in OutboxOperationType]?: OutboxHandler<T> } = {};
+const listeners = new Set<() => void>();
+let outboxDbPromise: Promise<IDBDatabase | null> | null = null;
+let processing: Promise<OutboxProcessResult> | null = null;
+let lastSeq = 0;
+let legacyMigrated = false;
+
+/**
+ * Whether the browser reports no network. navigator.onLine is only trusted
+ * when false: "online" can still mean a captive portal or a dead tunnel.
  */
-export const getPendingSyncs = (): PendingSyncItem[] => {
+export const isBrowserOffline = (): boolean =>
+  typeof navigator !== 'undefined' && navigator.onLine === false;
+
+export const registerOutboxHandler = <T extends OutboxOperationType>(type: T, handler: OutboxHandler<T>) => {
+  (handlers as Record<string, OutboxHandler<any>>)[type] = handler;
+};
+
+/** Called whenever items are added, replayed or discarded */
+export const subscribeToOutbox = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const notifyOutboxChanged = () => {
+  listeners.forEach(listener => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('[offlineSyncQueue] Listener failed:', error);
+    }
+  });
+};
+
+// Microsecond-scaled clock: unique and increasing within a tab, ordered across reloads
+const nextSeq = (): number => {
+  lastSeq = Math.max(Date.now() * 1000, lastSeq + 1);
+  return lastSeq;
+};
+
+// The session is read from local storage, so this works without signal
+const getSignedInUserId = async (): Promise<string | null> => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user?.id ?? null;
+};
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+const openOutboxDatabase = async (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === 'undefined') return null;
+
+  if (!outboxDbPromise) {
+    outboxDbPromise = new Promise((resolve) => {
+      try {
+        const request = indexedDB.open(INDEXED_DB_NAME, INDEXED_DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(INDEXED_DB_STORE)) {
+            db.createObjectStore(INDEXED_DB_STORE, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.error('[offlineSyncQueue] Failed to open IndexedDB outbox:', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.error('[offlineSyncQueue] IndexedDB unavailable:', error);
+        resolve(null);
+      }
+    });
+  }
+
+  return outboxDbPromise;
+};
+
+const readFallback = (): OutboxItem[] => {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    const stored = localStorage.getItem(FALLBACK_STORAGE_KEY);
     return stored ? JSON.parse(stored) : [];
   } catch (error) {
-    console.error('[getPendingSyncs] Failed to parse:', error);
+    console.error('[offlineSyncQueue] Failed to parse fallback outbox:', error);
     return [];
   }
 };
 
-/**
- * Add a new pending sync item to the queue
- *
- * @param {Omit<PendingSyncItem, 'id' | 'retryCount'>} item - Item to enqueue (without id/retryCount)
- */
-export const enqueuePendingSync = async (item: Omit<PendingSyncItem, 'id' | 'retryCount'>) => {
-  const pending = getPendingSyncs();
+const writeFallback = (items: OutboxItem[]) => {
+  localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify(items));
+};
 
-  const newItem: PendingSyncItem = {
-    ...item,
-    id: crypto.randomUUID(),
-    retryCount: 0
+const readAllItems = async (): Promise<OutboxItem[]> => {
+  const db = await openOutboxDatabase();
+  if (!db) return readFallback();
+
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(INDEXED_DB_STORE, 'readonly').objectStore(INDEXED_DB_STORE).getAll();
+    request.onsuccess = () => resolve((request.result || []) as OutboxItem[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/** Write items and delete keys in one transaction */
+const commitItems = async (put: OutboxItem[], remove: string[] = []): Promise<void> => {
+  if (put.length === 0 && remove.length === 0) return;
+  const db = await openOutboxDatabase();
+
+  if (!db) {
+    const replaced = new Set([...put.map(item => item.key), ...remove]);
+    writeFallback([...readFallback().filter(item => !replaced.has(item.key)), ...put]);
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(INDEXED_DB_STORE, 'readwrite');
+    const store = transaction.objectStore(INDEXED_DB_STORE);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    remove.forEach(key => store.delete(key));
+    put.forEach(item => store.put(item));
+  });
+};
+
+const createItem = (op: OutboxOperation, userId: string, options: MutationOptions): OutboxItem => {
+  const now = Date.now();
+  return {
+    key: options.key || `${op.type}:${crypto.randomUUID()}`,
+    seq: nextSeq(),
+    userId,
+    orderingKey: options.orderingKey || getOutboxOrderingKey(op),
+    op,
+    status: 'pending',
+    attempts: 0,
+    createdAt: now,
+    nextAttemptAt: now,
   };
+};
 
-  pending.push(newItem);
+/**
+ * Move the localStorage queues of the previous sync queue into the outbox,
+ * for the signed-in user (they were written by this browser's last session).
+ */
+const migrateLegacyQueues = async (userId: string) => {
+  if (legacyMigrated) return;
+  legacyMigrated = true;
 
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(pending));
-    console.log('[enqueuePendingSync] Added to queue:', newItem.id);
+    const items: OutboxItem[] = [];
+    const legacyStats = JSON.parse(localStorage.getItem(LEGACY_STATS_KEY) || '[]');
+    const legacyAnswers = JSON.parse(localStorage.getItem(LEGACY_WORD_RESULTS_KEY) || '[]');
+
+    legacyAnswers.forEach((r: any) => {
+      const orderingKey = `word:${r.wordId}`;
+      if (!r.statsSynced) {
+        items.push(createItem({
+          type: 'word_status',
+          payload: {
+            wordId: r.wordId,
+            correct: r.correct,
+            score: r.score,
+            errorCountIncrement: r.errorCountIncrement,
+            bestTimeMs: r.bestTimeMs,
+            hasUsedHint: r.hasUsedHint,
+            reviewedAt: r.reviewedAt,
+          },
+        }, userId, { key: `word_status:${r.id}`, orderingKey }));
+      }
+      if (!r.correct) {
+        items.push(createItem({ type: 'mistake_tag', payload: { wordId: r.wordId } }, userId, { key: `mistake_tag:${r.id}`, orderingKey }));
+      }
+      items.push(createItem({
+        type: 'review_log',
+        payload: {
+          wordId: r.wordId,
+          mode: 'CLASSIC',
+          correct: r.correct,
+          attempts: r.attempts,
+          hintLevel: r.hintLevel,
+          timeSpentMs: r.timeSpentMs,
+          charsPerMinute: r.charsPerMinute,
+          reviewedAt: r.reviewedAt,
+        },
+      }, userId, { key: `review_log:${r.id}`, orderingKey }));
+    });
+
+    legacyStats.forEach((s: any) => {
+      items.push(createItem({
+        type: 'test_stats',
+        payload: {
+          date: s.date,
+          testCount: s.testCount,
+          correctCount: s.correctCount,
+          points: s.points,
+          expectedVersion: s.expectedVersion ?? 0,
+        },
+      }, userId, { key: `test_stats:${s.id}` }));
+    });
+
+    if (items.length > 0) {
+      await commitItems(items);
+      console.log(`[offlineSyncQueue] Migrated ${items.length} legacy queue items into the outbox`);
+    }
+    localStorage.removeItem(LEGACY_STATS_KEY);
+    localStorage.removeItem(LEGACY_WORD_RESULTS_KEY);
   } catch (error) {
-    console.error('[enqueuePendingSync] Failed to save:', error);
+    console.error('[offlineSyncQueue] Legacy queue migration failed:', error);
   }
 };
 
 /**
- * Process all pending sync items in the queue
- *
- * - Items exceeding max retries are discarded
- * - Successful syncs are removed from queue
- * - Failed items have retry count incremented and remain in queue
- * - Implements exponential backoff: retries wait before next attempt
- *
- * @returns {Promise<{ success: number; failed: number }>} Count of successful and failed syncs
+ * Hand writes queued without a session (PENDING_OWNER) to the user who signs
+ * in next — like the legacy queues, they were written by this browser's
+ * last session.
  */
-export const processPendingSyncs = async (): Promise<{ success: number; failed: number }> => {
-  const pending = getPendingSyncs();
+const claimPendingItems = async (userId: string) => {
+  const unclaimed = (await readAllItems()).filter(item => item.userId === PENDING_OWNER);
+  if (unclaimed.length === 0) return;
+
+  await commitItems(unclaimed.map(item => ({ ...item, userId })));
+  console.log(`[offlineSyncQueue] Attached ${unclaimed.length} writes queued while signed out`);
+};
+
+/** Bring writes stored outside the signed-in user's queue into it */
+const adoptLocalQueues = async (userId: string) => {
+  await migrateLegacyQueues(userId);
+  await claimPendingItems(userId);
+};
 
-  if (pending.length === 0) {
-    return { success: 0, failed: 0 };
+// ============================================================================
+// Queueing
+// ============================================================================
+
+/**
+ * Queue a write for later replay. Without a readable session (it expired
+ * while offline) the write is kept for whoever signs in next rather than
+ * dropped.
+ * @returns false when an item with the same key is already queued (and `supersede` is off)
+ */
+export const enqueueMutation = async (op: OutboxOperation, options: MutationOptions = {}): Promise<boolean> => {
+  const userId = (await getSignedInUserId()) ?? PENDING_OWNER;
+  if (userId === PENDING_OWNER) {
+    console.warn('[enqueueMutation] No session; keeping', op.type, 'until the next sign-in');
   }
 
-  console.log(`[processPendingSyncs] Processing ${pending.length} items...`);
+  const item = createItem(op, userId, options);
+  const existing = (await readAllItems()).find(i => i.key === item.key);
+  if (existing && !options.supersede) return false;
 
-  let successCount = 0;
-  let failedCount = 0;
-  const remaining: PendingSyncItem[] = [];
+  await commitItems([item]);
+  notifyOutboxChanged();
+  return true;
+};
 
-  for (const item of pending) {
-    try {
-      // Check retry limit
-      if (item.retryCount && item.retryCount >= MAX_RETRY_COUNT) {
-        console.error('[processPendingSyncs] Max retries exceeded:', item.id);
-        failedCount++;
-        continue;  // Discard item
-      }
+/**
+ * Run a write now, or queue it.
+ *
+ * Queued instead of run when the browser is offline, when no handler is
+ * registered yet, or when an earlier write with the same ordering key is
+ * still waiting (so this one cannot overtake it). A failed run is queued
+ * for retry, or dead-lettered when the error is permanent.
+ */
+export const submitMutation = async (op: OutboxOperation, options: MutationOptions = {}): Promise<MutationOutcome> => {
+  const userId = await getSignedInUserId();
+  if (!userId) throw new Error('Not signed in');
 
-      // Attempt sync
-      await recordTestAndSyncStats(
-        item.testCount,
-        item.correctCount,
-        item.points
-      );
+  const item = createItem(op, userId, options);
+  const handler = handlers[op.type] as OutboxHandler<any> | undefined;
+  const queued = (await readAllItems()).filter(i => i.userId === userId);
+  const duplicate = queued.find(i => i.key === item.key);
 
-      // Success: remove from queue
-      successCount++;
-      console.log('[processPendingSyncs] Synced:', item.id);
+  if (duplicate && !options.supersede) return { status: 'queued' };
 
-    } catch (error) {
-      // Failure: increment retry count
-      item.retryCount = (item.retryCount || 0) + 1;
-      item.lastError = error instanceof Error ? error.message : String(error);
-
-      // Calculate next retry delay
-      const delayIndex = Math.min(
-        item.retryCount - 1,
-        RETRY_DELAYS.length - 1
-      );
-      const delay = RETRY_DELAYS[delayIndex];
-
-      // Check if should delay retry
-      if (delay > 0) {
-        const nextRetry = item.timestamp + delay;
-        if (Date.now() < nextRetry) {
-          // Not yet time to retry, keep in queue
-          remaining.push(item);
-          continue;
-        }
-      }
+  if (!handler || isBrowserOffline() || hasPendingForKey(queued.filter(i => i.key !== item.key), item.orderingKey)) {
+    await commitItems([item]);
+    notifyOutboxChanged();
+    return { status: 'queued' };
+  }
 
-      remaining.push(item);
-      console.error('[processPendingSyncs] Failed, retrying:', item.id, item.retryCount);
+  try {
+    const result = await handler(op.payload, item.key);
+    // A superseded write that just landed no longer needs its queued copy
+    if (duplicate) {
+      await commitItems([], [item.key]);
+      notifyOutboxChanged();
     }
+    return { status: 'applied', result };
+  } catch (error) {
+    const failed = markOutboxFailure(item, error);
+    await commitItems([failed]);
+    notifyOutboxChanged();
+    console.error(`[submitMutation] ${op.type} failed, ${failed.status === 'dead' ? 'dead-lettered' : 'queued'}:`, failed.lastError);
+    return failed.status === 'dead'
+      ? { status: 'dead', error: failed.lastError || 'Unknown error' }
+      : { status: 'queued' };
   }
+};
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+const replayOutbox = async (): Promise<OutboxProcessResult> => {
+  const empty: OutboxProcessResult = { applied: 0, failed: 0, dead: 0, appliedTypes: [] };
+  const userId = await getSignedInUserId();
+  if (!userId || isBrowserOffline()) return empty;
 
-  // Save remaining items
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(remaining));
+  await adoptLocalQueues(userId);
+  const items = (await readAllItems()).filter(item => item.userId === userId);
+  if (!items.some(item => item.status === 'pending')) return empty;
 
-  console.log(`[processPendingSyncs] Completed: ${successCount} success, ${failedCount} failed, ${remaining.length} pending`);
+  const { applied, updated } = await runOutboxPass(
+    items,
+    async (item) => {
+      const handler = handlers[item.op.type] as OutboxHandler<any> | undefined;
+      if (!handler) return false;
+      await handler(item.op.payload, item.key);
+      return true;
+    },
+    Date.now(),
+    () => !isBrowserOffline()
+  );
+
+  await commitItems(updated, applied.map(item => item.key));
+  if (applied.length > 0 || updated.length > 0) notifyOutboxChanged();
 
-  return { success: successCount, failed: failedCount };
+  const dead = updated.filter(item => item.status === 'dead').length;
+  console.log(`[processOutbox] ${applied.length} applied, ${updated.length - dead} retrying, ${dead} dead-lettered`);
+  return {
+    applied: applied.length,
+    failed: updated.length - dead,
+    dead,
+    appliedTypes: Array.from(new Set(applied.map(item => item.op.type))),
+  };
 };
 
 /**
- * Clear the pending sync queue (use with caution)
- *
- * This permanently discards all pending sync items.
+ * Replay the signed-in user's queued writes. Concurrent calls (reconnect,
+ * login, the periodic timer) share one pass.
  */
-export const clearPendingSyncs = () => {
-  localStorage.removeItem(STORAGE_KEY);
-  console.log('[clearPendingSyncs] Queue cleared');
+export const processOutbox = (): Promise<OutboxProcessResult> => {
+  if (!processing) {
+    processing = replayOutbox()
+      .catch((error) => {
+        console.error('[processOutbox] Replay failed:', error);
+        return { applied: 0, failed: 0, dead: 0, appliedTypes: [] };
+      })
+      .finally(() => { processing = null; });
+  }
+  return processing;
 };
 
-/**
- * Get the number of pending sync items in the queue
- *
- * @returns {number} Queue size
- */
-export const getPendingSyncCount = (): number => {
-  return getPendingSyncs().length;
+// ============================================================================
+// Inspection and dead letters
+// ============================================================================
+
+/** The signed-in user's queued and dead-lettered writes, in queue order */
+export const getOutboxItems = async (): Promise<OutboxItem[]> => {
+  const userId = await getSignedInUserId();
+  if (!userId) return [];
+  await adoptLocalQueues(userId);
+  return (await readAllItems())
+    .filter(item => item.userId === userId)
+    .sort((a, b) => a.seq - b.seq);
 };
 
-/**
- * Get summary of pending syncs for UI display
- *
- * @returns {{ count: number; oldestTimestamp: number | null }} Queue summary
- */
-export const getPendingSyncSummary = (): { count: number; oldestTimestamp: number | null } => {
-  const pending = getPendingSyncs();
-  if (pending.length === 0) {
-    return { count: 0, oldestTimestamp: null };
-  }
+export const getOutboxSummary = async (): Promise<{ pending: number; dead: number }> => {
+  const items = await getOutboxItems();
+  const dead = items.filter(item => item.status === 'dead').length;
+  return { pending: items.length - dead, dead };
+};
 
-  const oldest = pending.reduce((min, item) =>
-    item.timestamp < min ? item.timestamp : min,
-    pending[0].timestamp
-  );
+/** Give a dead letter another round of attempts and replay right away */
+export const retryOutboxItem = async (key: string): Promise<OutboxProcessResult> => {
+  const item = (await getOutboxItems()).find(i => i.key === key);
+  if (item) {
+    await commitItems([reviveOutboxItem(item)]);
+    notifyOutboxChanged();
+  }
+  return processOutbox();
+};
 
-  return { count: pending.length, oldestTimestamp: oldest };
+/** Drop a write for good (the learner chose to discard it) */
+export const discardOutboxItem = async (key: string): Promise<void> => {
+  await commitItems([], [key]);
+  notifyOutboxChanged();
 };
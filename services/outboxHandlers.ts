@@ -0,0 +1,84 @@
+/**
+ * Outbox Replay Handlers
+ *
+ * Binds every OutboxOperation type to the service call that applies it, so
+ * services/offlineSyncQueue.ts can replay queued writes without importing the
+ * services that enqueue them. Every handler throws on failure; the outbox
+ * decides whether to retry or dead-letter the item.
+ */
+
+import {
+  addMistakeTag,
+  addWordErrorPenalty,
+  deleteSessions,
+  deleteWordsByIds,
+  recordPuzzleGameRound,
+  recordTestAndSyncStats,
+  recordWordReviews,
+  saveWordMetadata,
+  updateWordStatusV2,
+} from './dataService';
+import { awardGameCoins, awardPuzzleCoins } from './coinService';
+import { recordSceneGameRound } from './sceneGame';
+import { recordRecallGameRound } from './recallGame';
+import { recordSprintGameRound } from './audioSprint';
+import { registerOutboxHandler } from './offlineSyncQueue';
+
+let installed = false;
+
+export const installOutboxHandlers = () => {
+  if (installed) return;
+  installed = true;
+
+  registerOutboxHandler('test_stats', p =>
+    recordTestAndSyncStats(p.testCount, p.correctCount, p.points, p.expectedVersion)
+  );
+
+  registerOutboxHandler('word_status', (p, key) =>
+    updateWordStatusV2(p.wordId, {
+      correct: p.correct,
+      score: p.score,
+      error_count_increment: p.errorCountIncrement,
+      best_time_ms: p.bestTimeMs,
+      hasUsedHint: p.hasUsedHint,
+      reviewedAt: p.reviewedAt,
+      answerKey: key,
+    })
+  );
+
+  registerOutboxHandler('mistake_tag', p => addMistakeTag(p.wordId));
+
+  registerOutboxHandler('error_penalty', (p, key) => addWordErrorPenalty(p.wordId, p.errorCountIncrement, key));
+
+  registerOutboxHandler('review_log', async p => {
+    if (!(await recordWordReviews([p]))) {
+      throw new Error('Failed to record review log');
+    }
+  });
+
+  registerOutboxHandler('word_metadata', p => saveWordMetadata(p.wordId, p.updates, p.base, p.editedAt));
+
+  registerOutboxHandler('game_round', async p => {
+    switch (p.mode) {
+      case 'PUZZLE': {
+        const round = await recordPuzzleGameRound(p.summary);
+        // Coins go through their own outbox item so a failed award never replays the round.
+        // The award follows the server's score, not the one the client computed.
+        const coinsAwarded = round?.round_id ? await awardPuzzleCoins(round.round_id, Number(round.total_score)) : 0;
+        return { round, coinsAwarded };
+      }
+      case 'SCENE':
+        return { round: await recordSceneGameRound(p.summary) };
+      case 'RECALL':
+        return { round: await recordRecallGameRound(p.summary) };
+      case 'SPRINT':
+        return { round: await recordSprintGameRound(p.summary) };
+    }
+  });
+
+  registerOutboxHandler('coin_award', p => awardGameCoins(p.coinType, p.reference, p.delta));
+
+  registerOutboxHandler('delete_words', p => deleteWordsByIds(p.userId, p.wordIds));
+
+  registerOutboxHandler('delete_sessions', p => deleteSessions(p.userId, p.sessionIds));
+};
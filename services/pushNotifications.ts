@@ -0,0 +1,142 @@
+/**
+ * Push Notifications - Web Push review reminders.
+ *
+ * The browser subscribes through the service worker in public/sw.js
+ * (registered by services/offlineCache.ts) using the VAPID public key
+ * (VITE_VAPID_PUBLIC_KEY); the subscription and the
+ * learner's quiet hours / frequency are stored in Supabase and read by the
+ * send-reminders edge function, which decides when to push
+ * (supabase/functions/send-reminders/reminderRules.ts).
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import { registerServiceWorker, SERVICE_WORKER_URL } from './offlineCache';
+import {
+  DEFAULT_REMINDER_PREFERENCES,
+  normalizeReminderPreferences,
+  ReminderPreferences,
+  reminderPreferencesToRow,
+} from '../supabase/functions/send-reminders/reminderRules';
+
+export class PushPermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PushPermissionError';
+  }
+}
+
+const getVapidPublicKey = (): string => (import.meta as any).env?.VITE_VAPID_PUBLIC_KEY || '';
+
+/** Browser supports push and the app was built with a VAPID key */
+export const isPushSupported = (): boolean =>
+  typeof window !== 'undefined'
+  && 'serviceWorker' in navigator
+  && 'PushManager' in window
+  && 'Notification' in window
+  && getVapidPublicKey().length > 0;
+
+/** The learner's browser-local zone, stored with the quiet hours */
+export const getLocalTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_REMINDER_PREFERENCES.timeZone;
+  } catch {
+    return DEFAULT_REMINDER_PREFERENCES.timeZone;
+  }
+};
+
+// VAPID keys are URL-safe base64; PushManager wants the raw bytes
+const urlBase64ToUint8Array = (base64: string): Uint8Array => {
+  const padding = '='.repeat((4 - (base64.length % 4)) % 4);
+  const raw = atob((base64 + padding).replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+};
+
+/** This browser's current push subscription, if any */
+export const getPushSubscription = async (): Promise<PushSubscription | null> => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+/**
+ * Ask for notification permission, subscribe this browser and store the
+ * subscription for the signed-in user (register_push_subscription takes
+ * the endpoint over from an account that used this browser before).
+ * @throws PushPermissionError when the learner blocks notifications
+ */
+export const subscribeToPush = async (): Promise<PushSubscription> => {
+  if (!isPushSupported()) throw new Error('Push notifications are not supported in this browser');
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new PushPermissionError('Notifications are blocked for this site');
+  }
+
+  const registration = await registerServiceWorker();
+  if (!registration) throw new Error('Service worker registration failed');
+  await navigator.serviceWorker.ready;
+
+  const subscription = await registration.pushManager.getSubscription()
+    || await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(getVapidPublicKey()) as BufferSource,
+    });
+
+  const json = subscription.toJSON();
+  const { data, error } = await supabase.rpc('register_push_subscription', {
+    p_endpoint: subscription.endpoint,
+    p_p256dh: json.keys?.p256dh || '',
+    p_auth: json.keys?.auth || '',
+    p_user_agent: navigator.userAgent.slice(0, 255),
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(`Failed to store push subscription: ${data.error}`);
+  return subscription;
+};
+
+/**
+ * Unsubscribe this browser; other devices keep their subscriptions. Also
+ * run on sign-out (before the session ends), so the next account on this
+ * browser gets no reminders meant for the previous one.
+ */
+export const unsubscribeFromPush = async (): Promise<void> => {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+  const { error } = await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+  if (error) console.error('[unsubscribeFromPush] failed to delete subscription row:', error.message);
+  await subscription.unsubscribe();
+};
+
+export const fetchReminderPreferences = async (userId: string): Promise<ReminderPreferences> => {
+  const { data, error } = await supabase
+    .from('reminder_preferences')
+    .select('enabled, frequency, quiet_start_minutes, quiet_end_minutes, time_zone')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    console.error('[fetchReminderPreferences] failed:', error.message);
+  }
+  return data
+    ? normalizeReminderPreferences(data)
+    : { ...DEFAULT_REMINDER_PREFERENCES, timeZone: getLocalTimeZone() };
+};
+
+export const saveReminderPreferences = async (userId: string, prefs: ReminderPreferences): Promise<void> => {
+  const { error } = await supabase
+    .from('reminder_preferences')
+    .upsert({
+      user_id: userId,
+      ...reminderPreferencesToRow(prefs),
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id' });
+  if (error) throw error;
+};
+
+/** Push a sample reminder to the signed-in user's devices */
+export const sendTestReminder = async (): Promise<void> => {
+  const { data, error } = await supabase.functions.invoke('send-reminders', { body: { action: 'test' } });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Test reminder was not delivered');
+};
@@ -0,0 +1,252 @@
+/**
+ * Puzzle Duel Service - rooms, live channel and the duel ranking.
+ *
+ * The host opens a room (create_puzzle_duel) with nine of their picture
+ * words picked by a seeded shuffle; the guest joins with the room code and
+ * plays the host's cards. While both play, progress is broadcast over the
+ * Realtime channel `puzzle-duel:<duelId>`. Each side plays on a
+ * verify-round ticket bound to the duel and submits its round log there;
+ * the server scores it and the database decides the duel. A duel one side
+ * never finishes is closed by expire_puzzle_duel after
+ * DUEL_RESULT_TIMEOUT_MS. The rules themselves live in utils/puzzleDuel.ts.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import { getPuzzleCandidateWords } from './puzzleGame';
+import { submitVerifiedDuelRound } from './roundVerification';
+import {
+  DUEL_CARD_COUNT,
+  DuelEvent,
+  DuelTransport,
+  generateRoomCode,
+  normalizeRoomCode,
+  selectDuelCards,
+} from '../utils/puzzleDuel';
+import type { PuzzleGameSummary, WordEntry } from '../types';
+
+/** What the guest needs to play one of the host's words */
+export interface DuelCard {
+  id: string;
+  text: string;
+  language: string | null;
+  image_url: string | null;
+}
+
+export type PuzzleDuelStatus = 'waiting' | 'playing' | 'finished' | 'abandoned';
+
+export interface PuzzleDuelSide {
+  totalScore: number;
+  wordsCorrect: number;
+  timeUsedSeconds: number;
+}
+
+export interface PuzzleDuelRoom {
+  id: string;
+  roomCode: string;
+  hostId: string;
+  guestId: string | null;
+  cards: DuelCard[];
+  status: PuzzleDuelStatus;
+  host: PuzzleDuelSide | null;
+  guest: PuzzleDuelSide | null;
+  winnerId: string | null;
+  isDraw: boolean;
+  /** When the host started the round; null while waiting */
+  startedAt: string | null;
+}
+
+export interface PuzzleDuelLeaderboardEntry {
+  user_id: string;
+  rank_position: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  duels_played: number;
+  win_rate: number;
+  display_name?: string;
+  is_current_user?: boolean;
+}
+
+const ROOM_CODE_ATTEMPTS = 3;
+
+const sideFromRow = (score: any, words: any, seconds: any): PuzzleDuelSide | null =>
+  score == null
+    ? null
+    : { totalScore: Number(score), wordsCorrect: Number(words) || 0, timeUsedSeconds: Number(seconds) || 0 };
+
+const duelFromRow = (row: any): PuzzleDuelRoom => ({
+  id: row.id,
+  roomCode: row.room_code,
+  hostId: row.host_id,
+  guestId: row.guest_id ?? null,
+  cards: Array.isArray(row.cards) ? row.cards : [],
+  status: row.status,
+  host: sideFromRow(row.host_total_score, row.host_words_correct, row.host_time_used_seconds),
+  guest: sideFromRow(row.guest_total_score, row.guest_words_correct, row.guest_time_used_seconds),
+  winnerId: row.winner_id ?? null,
+  isDraw: Boolean(row.is_draw),
+  startedAt: row.started_at ?? null,
+});
+
+const toDuelCard = (word: WordEntry): DuelCard => ({
+  id: word.id,
+  text: word.text,
+  language: word.language ?? null,
+  image_url: word.image_url ?? null,
+});
+
+/**
+ * A duel card as a WordEntry PuzzleGameMode can play. The guest does not
+ * own these words, so nothing about them is ever written back.
+ */
+export const duelCardToWord = (card: DuelCard): WordEntry => ({
+  id: card.id,
+  text: card.text,
+  language: card.language,
+  image_url: card.image_url,
+  timestamp: 0,
+  sessionId: '',
+  correct: false,
+  tested: false,
+  error_count: 0,
+  best_time_ms: null,
+  last_tested: null,
+  phonetic: null,
+  audio_url: null,
+  definition_cn: null,
+  definition_en: null,
+});
+
+const callDuelRpc = async (fn: string, params: Record<string, unknown>): Promise<PuzzleDuelRoom | { error: string }> => {
+  const { data, error } = await supabase.rpc(fn, params);
+  if (error || data?.error) {
+    console.error(`[${fn}] Error:`, error?.message || data?.error);
+    return { error: error?.message || data.error };
+  }
+  return duelFromRow(data.duel);
+};
+
+/**
+ * Open a room with nine of the host's picture words.
+ */
+export const createPuzzleDuel = async (words: WordEntry[]): Promise<PuzzleDuelRoom | { error: string }> => {
+  const candidates = getPuzzleCandidateWords(words);
+  if (candidates.length < DUEL_CARD_COUNT) return { error: 'not_enough_words' };
+
+  const seed = Math.floor(Math.random() * 2 ** 31);
+  const cards = selectDuelCards(candidates, seed).map(toDuelCard);
+
+  let result: PuzzleDuelRoom | { error: string } = { error: 'room_code_taken' };
+  for (let attempt = 0; attempt < ROOM_CODE_ATTEMPTS; attempt++) {
+    result = await callDuelRpc('create_puzzle_duel', {
+      p_room_code: generateRoomCode(),
+      p_seed: seed,
+      p_cards: cards,
+    });
+    if (!('error' in result) || result.error !== 'room_code_taken') break;
+  }
+  return result;
+};
+
+export const joinPuzzleDuel = (roomCode: string) =>
+  callDuelRpc('join_puzzle_duel', { p_room_code: normalizeRoomCode(roomCode) });
+
+export const startPuzzleDuel = (duelId: string) =>
+  callDuelRpc('start_puzzle_duel', { p_duel_id: duelId });
+
+/**
+ * Submit this side's round. The server scores the log against the duel
+ * ticket the round started with; without one the side cannot count.
+ */
+export const submitPuzzleDuelResult = async (summary: PuzzleGameSummary): Promise<PuzzleDuelRoom | { error: string }> => {
+  if (!summary.roundTicket?.ticket.duelId) return { error: 'no_ticket' };
+  try {
+    return duelFromRow(await submitVerifiedDuelRound(summary));
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+};
+
+export const leavePuzzleDuel = (duelId: string) =>
+  callDuelRpc('leave_puzzle_duel', { p_duel_id: duelId });
+
+/** Close a duel that ran past DUEL_RESULT_TIMEOUT_MS; returns it either way */
+export const expirePuzzleDuel = (duelId: string) =>
+  callDuelRpc('expire_puzzle_duel', { p_duel_id: duelId });
+
+/**
+ * Re-read a duel (RLS: players only), e.g. to pick up the final result
+ * after the other side submitted.
+ */
+export const fetchPuzzleDuel = async (duelId: string): Promise<PuzzleDuelRoom | null> => {
+  const { data, error } = await supabase
+    .from('puzzle_duels')
+    .select('*')
+    .eq('id', duelId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[fetchPuzzleDuel] Error:', error.message);
+    return null;
+  }
+  return data ? duelFromRow(data) : null;
+};
+
+export const fetchPuzzleDuelLeaderboard = async (limit: number = 10): Promise<PuzzleDuelLeaderboardEntry[]> => {
+  const { data, error } = await supabase.rpc('get_puzzle_duel_leaderboard', { p_limit: limit });
+
+  if (error) {
+    console.error('[fetchPuzzleDuelLeaderboard] Failed to fetch duel leaderboard:', error.message);
+    throw error;
+  }
+
+  return (data || []) as PuzzleDuelLeaderboardEntry[];
+};
+
+/**
+ * The duel's Realtime broadcast channel as a DuelTransport. Events sent
+ * before the channel is subscribed are held and flushed once it is.
+ */
+export const openDuelChannel = (duelId: string): DuelTransport => {
+  const listeners = new Set<(event: DuelEvent) => void>();
+  const pending: DuelEvent[] = [];
+  let subscribed = false;
+
+  const channel = supabase.channel(`puzzle-duel:${duelId}`, {
+    config: { broadcast: { self: false } },
+  });
+
+  const push = (event: DuelEvent) =>
+    channel.send({ type: 'broadcast', event: 'duel', payload: event });
+
+  channel
+    .on('broadcast', { event: 'duel' }, ({ payload }) => {
+      listeners.forEach(listener => listener(payload as DuelEvent));
+    })
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        subscribed = true;
+        pending.splice(0).forEach(push);
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.warn(`[openDuelChannel] ${duelId}:`, status);
+      }
+    });
+
+  return {
+    send: async (event) => {
+      if (!subscribed) {
+        pending.push(event);
+        return;
+      }
+      await push(event);
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: () => {
+      listeners.clear();
+      supabase.removeChannel(channel);
+    },
+  };
+};
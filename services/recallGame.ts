@@ -0,0 +1,134 @@
+import { adaptiveWordSelector } from './adaptiveWordSelector';
+import { supabase } from '../lib/supabaseClient';
+import { isWordStudyable } from '../utils/wordState';
+import {
+  calculateMaxOverlapRate,
+  createDailySelectionHistory,
+  enforceDailyOverlapCap,
+  shuffleWords,
+} from '../utils/dailySelection';
+import { hasRecallMeaning, RECALL_TOTAL_WORDS } from '../utils/meaningRecall';
+import { submitVerifiedRound } from './roundVerification';
+import {
+  InputSession,
+  PuzzleGameSelectionMode,
+  RecallGameSummary,
+  RecallLeaderboardEntry,
+  RecallLeaderboardMetric,
+  RecallLeaderboardScope,
+  WordEntry,
+} from '../types';
+
+// ================================================================
+// Meaning Recall — client service
+// Selection (smart/random) with its own daily-overlap history, plus the
+// verified round submission and the leaderboard RPC wrapper. Prompt
+// building and scoring live in utils/meaningRecall.ts so they can be unit
+// tested.
+// ================================================================
+
+const RECALL_DAILY_SELECTION_HISTORY_KEY = 'vibe_recall_daily_selection_history';
+const MAX_SCORING_OVERLAP_RATE = 0.8;
+
+interface RecallSelectionResult {
+  words: WordEntry[];
+  selectionMode: PuzzleGameSelectionMode;
+  overlapRate: number;
+  rankingEligible: boolean;
+  rankingIneligibleReason?: string | null;
+}
+
+const normalizeText = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// ----------------------------------------------------------------
+// Daily-overlap history (utils/dailySelection.ts, own storage key)
+// ----------------------------------------------------------------
+const { load: loadDailyHistory, save: saveDailyHistory } = createDailySelectionHistory(RECALL_DAILY_SELECTION_HISTORY_KEY);
+
+// ----------------------------------------------------------------
+// Word selection
+// ----------------------------------------------------------------
+/** Candidate pool: studyable words with a Chinese meaning, deduped by text. */
+export const getRecallCandidateWords = (words: WordEntry[]): WordEntry[] => {
+  const uniqueWords = new Map<string, WordEntry>();
+  words
+    .filter((word) => isWordStudyable(word) && hasRecallMeaning(word))
+    .forEach((word) => {
+      const key = normalizeText(word.text);
+      if (!uniqueWords.has(key)) uniqueWords.set(key, word);
+    });
+  return Array.from(uniqueWords.values());
+};
+
+export const selectRecallWords = (
+  allWords: WordEntry[],
+  sessions: InputSession[],
+  smartSelectionEnabled: boolean,
+  targetCount: number = RECALL_TOTAL_WORDS,
+): RecallSelectionResult => {
+  const candidates = getRecallCandidateWords(allWords);
+  const count = Math.min(targetCount, candidates.length);
+
+  if (count <= 0) {
+    return {
+      words: [],
+      selectionMode: smartSelectionEnabled ? 'smart' : 'random',
+      overlapRate: 0,
+      rankingEligible: true,
+      rankingIneligibleReason: null,
+    };
+  }
+
+  const dailyHistory = loadDailyHistory();
+  let selection: WordEntry[];
+  if (smartSelectionEnabled) {
+    const prioritized = adaptiveWordSelector.calculateQueue(allWords, candidates, candidates.length, sessions);
+    const pool = prioritized.length >= candidates.length
+      ? prioritized
+      : [...prioritized, ...shuffleWords(candidates.filter((w) => !prioritized.includes(w)))];
+    selection = shuffleWords(enforceDailyOverlapCap(pool, dailyHistory.rounds, count));
+  } else {
+    selection = shuffleWords(candidates).slice(0, count);
+  }
+
+  const overlapRate = calculateMaxOverlapRate(selection, dailyHistory.rounds);
+  saveDailyHistory(selection);
+  return {
+    words: selection,
+    selectionMode: smartSelectionEnabled ? 'smart' : 'random',
+    overlapRate,
+    rankingEligible: overlapRate <= MAX_SCORING_OVERLAP_RATE,
+    rankingIneligibleReason: overlapRate > MAX_SCORING_OVERLAP_RATE ? 'overlap_too_high' : null,
+  };
+};
+
+// ----------------------------------------------------------------
+// DB sync wrappers
+// ----------------------------------------------------------------
+/** Verified by the verify-round function, which re-scores the log and writes the ranking row */
+export const recordRecallGameRound = (summary: RecallGameSummary) => submitVerifiedRound('RECALL', summary);
+
+export const fetchRecallGameLeaderboard = async (
+  scope: RecallLeaderboardScope,
+  metric: RecallLeaderboardMetric,
+  date?: Date,
+  limit: number = 8,
+): Promise<RecallLeaderboardEntry[]> => {
+  const targetDate = date || new Date();
+  const year = targetDate.getFullYear();
+  const month = String(targetDate.getMonth() + 1).padStart(2, '0');
+  const day = String(targetDate.getDate()).padStart(2, '0');
+  const dateStr = `${year}-${month}-${day}`;
+
+  const { data, error } = await supabase.rpc('get_recall_game_leaderboard', {
+    p_scope: scope,
+    p_metric: metric,
+    p_date: dateStr,
+    p_limit: limit,
+  });
+  if (error) {
+    console.error('[fetchRecallGameLeaderboard] failed:', error.message);
+    throw error;
+  }
+  return (data || []) as RecallLeaderboardEntry[];
+};
@@ -0,0 +1,307 @@
+/**
+ * Review Scheduler
+ *
+ * 可插拔的复习调度器：SM-2 或 FSRS
+ * Both AdaptiveWordSelector.calculateQueue and generateSRSQueue ask the active
+ * scheduler how likely a word is to have been forgotten; updateWordStatusV2
+ * asks it when the word is next due.
+ *
+ * Both memory models are updated on every review regardless of which one is
+ * active, so switching schedulers in the Account panel never loses state.
+ */
+
+import { WordEntry, WordReviewLogEntry } from '../types';
+import { WORD_LEARNING_CONFIG } from '../config/wordLearningConfig';
+import {
+  calculateNextReviewDate,
+  reviewOutcomeToQuality,
+  scheduleWordReview,
+  SM2ScheduleUpdate,
+} from '../utils/sm2Algorithm';
+import {
+  calculateNextFSRSState,
+  FSRSGrade,
+  FSRSParameters,
+  nextIntervalDays,
+  qualityToFSRSGrade,
+  retrievability,
+} from '../utils/fsrsAlgorithm';
+import {
+  FSRSOptimizationResult,
+  FSRSOptimizerMessage,
+  FSRSOptimizerRequest,
+  FSRSReviewSequence,
+  optimizeFSRSWeights,
+} from '../utils/fsrsOptimizer';
+
+export type ReviewSchedulerKind = 'sm2' | 'fsrs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** One test / game result, as recorded by updateWordStatusV2 */
+export interface ReviewOutcome {
+  correct: boolean;
+  hasUsedHint: boolean;
+  errorIncrement: number;
+}
+
+/** Scheduling columns persisted on a `words` row after a review */
+export interface WordScheduleUpdate extends SM2ScheduleUpdate {
+  fsrs_stability: number;
+  fsrs_difficulty: number;
+}
+
+/** Fields a scheduler reads from a word (a subset of WordEntry) */
+export type SchedulableWord = Pick<WordEntry, 'error_count' | 'last_tested'> &
+  Partial<Pick<WordEntry,
+    'tested' | 'sm2_interval' | 'sm2_repetitions' | 'sm2_ease_factor' |
+    'next_review_at' | 'fsrs_stability' | 'fsrs_difficulty'
+  >>;
+
+export interface ReviewScheduler {
+  kind: ReviewSchedulerKind;
+  /**
+   * Probability-like forgetting risk (0-1) at `now`.
+   * 0 = just reviewed / safely remembered, 1 = due or likely forgotten.
+   */
+  forgettingRisk(word: SchedulableWord, now: number): number;
+  /** Interval in days for a word whose post-review state is `next` */
+  intervalDays(next: WordScheduleUpdate): number;
+}
+
+const daysSince = (word: SchedulableWord, now: number): number => (
+  word.last_tested
+    ? Math.max(0, (now - word.last_tested) / DAY_MS)
+    : WORD_LEARNING_CONFIG.adaptiveSelection.defaultDaysSinceLastTest
+);
+
+/**
+ * 遗忘风险（简化版艾宾浩斯）— used for words with no scheduling state yet.
+ * error_count 越高，遗忘越快（需要更频繁复习）
+ */
+const legacyForgettingRisk = (word: SchedulableWord, now: number): number => {
+  const effectiveInterval = Math.max(1, 7 - word.error_count);
+  return 1 - Math.exp(-daysSince(word, now) / effectiveInterval);
+};
+
+export const sm2Scheduler: ReviewScheduler = {
+  kind: 'sm2',
+  forgettingRisk(word, now) {
+    // 有 SM-2 排期时按到期进度计算：到期（≥1）即满分，未到期的已掌握单词风险线性降低
+    if (word.next_review_at != null && (word.sm2_interval || 0) > 0) {
+      return Math.min(1, daysSince(word, now) / word.sm2_interval!);
+    }
+    return legacyForgettingRisk(word, now);
+  },
+  intervalDays(next) {
+    return next.sm2_interval;
+  },
+};
+
+export const fsrsScheduler: ReviewScheduler = {
+  kind: 'fsrs',
+  forgettingRisk(word, now) {
+    if (word.fsrs_stability != null && word.fsrs_stability > 0) {
+      return 1 - retrievability(daysSince(word, now), word.fsrs_stability);
+    }
+    return sm2Scheduler.forgettingRisk(word, now);
+  },
+  intervalDays(next) {
+    return nextIntervalDays(next.fsrs_stability, getFSRSParameters());
+  },
+};
+
+const SCHEDULERS: Record<ReviewSchedulerKind, ReviewScheduler> = {
+  sm2: sm2Scheduler,
+  fsrs: fsrsScheduler,
+};
+
+// ----------------------------------------------------------------
+// Settings (client-side, non-sensitive)
+// ----------------------------------------------------------------
+
+const PREFIX = 'vibe-word-scheduler-';
+const KIND_KEY = `${PREFIX}kind`;
+const FSRS_WEIGHTS_KEY = `${PREFIX}fsrs-weights`;
+
+const safeGet = (key: string): string => {
+  if (typeof window === 'undefined') return '';
+  try {
+    return window.localStorage.getItem(key) || '';
+  } catch {
+    return '';
+  }
+};
+
+const safeSet = (key: string, value: string | null) => {
+  if (typeof window === 'undefined') return;
+  try {
+    if (value === null) window.localStorage.removeItem(key);
+    else window.localStorage.setItem(key, value);
+  } catch {
+    // ignore quota / privacy-mode errors
+  }
+};
+
+export const ReviewSchedulerSettings = {
+  getKind(): ReviewSchedulerKind {
+    const stored = safeGet(KIND_KEY);
+    return stored === 'sm2' || stored === 'fsrs' ? stored : WORD_LEARNING_CONFIG.scheduler.defaultKind;
+  },
+
+  setKind(kind: ReviewSchedulerKind) {
+    safeSet(KIND_KEY, kind);
+  },
+
+  /** Per-user optimized FSRS weights, or null when the defaults are in use */
+  getFSRSWeights(): number[] | null {
+    const raw = safeGet(FSRS_WEIGHTS_KEY);
+    if (!raw) return null;
+    try {
+      const parsed = JSON.parse(raw);
+      const expected = WORD_LEARNING_CONFIG.scheduler.fsrs.defaultWeights.length;
+      return Array.isArray(parsed) && parsed.length === expected && parsed.every(n => typeof n === 'number')
+        ? parsed
+        : null;
+    } catch {
+      return null;
+    }
+  },
+
+  setFSRSWeights(weights: number[] | null) {
+    safeSet(FSRS_WEIGHTS_KEY, weights ? JSON.stringify(weights) : null);
+  },
+};
+
+export const getFSRSParameters = (): FSRSParameters => {
+  const fsrsConfig = WORD_LEARNING_CONFIG.scheduler.fsrs;
+  return {
+    weights: ReviewSchedulerSettings.getFSRSWeights() || fsrsConfig.defaultWeights,
+    requestRetention: fsrsConfig.requestRetention,
+    maximumIntervalDays: fsrsConfig.maximumIntervalDays,
+  };
+};
+
+export const getReviewScheduler = (kind: ReviewSchedulerKind): ReviewScheduler => SCHEDULERS[kind];
+
+export const getActiveReviewScheduler = (): ReviewScheduler => getReviewScheduler(ReviewSchedulerSettings.getKind());
+
+/**
+ * Apply one review to both memory models and let the scheduler pick the due date.
+ *
+ * @param word - Current word scheduling fields
+ * @param outcome - Result of this review
+ * @param reviewedAt - Review timestamp (ms)
+ * @param scheduler - Scheduler that decides next_review_at (defaults to the active one)
+ */
+export const computeWordScheduleUpdate = (
+  word: SchedulableWord,
+  outcome: ReviewOutcome,
+  reviewedAt: number = Date.now(),
+  scheduler: ReviewScheduler = getActiveReviewScheduler()
+): WordScheduleUpdate => {
+  const quality = reviewOutcomeToQuality(outcome.correct, outcome.hasUsedHint, outcome.errorIncrement);
+  const sm2 = scheduleWordReview(word, quality, reviewedAt);
+
+  const hasFSRSState = word.fsrs_stability != null && word.fsrs_difficulty != null;
+  const fsrs = calculateNextFSRSState(
+    hasFSRSState ? { stability: word.fsrs_stability!, difficulty: word.fsrs_difficulty! } : null,
+    qualityToFSRSGrade(quality),
+    word.last_tested ? Math.max(0, (reviewedAt - word.last_tested) / DAY_MS) : 0,
+    getFSRSParameters().weights
+  );
+
+  const update: WordScheduleUpdate = {
+    ...sm2,
+    fsrs_stability: Number(fsrs.stability.toFixed(4)),
+    fsrs_difficulty: Number(fsrs.difficulty.toFixed(4)),
+  };
+  update.next_review_at = calculateNextReviewDate(reviewedAt, scheduler.intervalDays(update)).getTime();
+  return update;
+};
+
+/**
+ * FSRS grade for one review log entry: failure = Again, hinted or
+ * multi-try = Hard, clean first-try recall = Good.
+ */
+const reviewLogEntryToFSRSGrade = (entry: WordReviewLogEntry): FSRSGrade => {
+  if (!entry.correct) return 1;
+  if (entry.hintLevel > 0 || entry.attempts > 1) return 2;
+  return 3;
+};
+
+/**
+ * Group the review log into per-word chronological sequences for the optimizer.
+ *
+ * @param entries - Review log entries (any order)
+ */
+export const reviewLogToFSRSSequences = (entries: WordReviewLogEntry[]): FSRSReviewSequence[] => {
+  const byWord = new Map<string, WordReviewLogEntry[]>();
+  for (const entry of entries) {
+    const list = byWord.get(entry.wordId);
+    if (list) list.push(entry);
+    else byWord.set(entry.wordId, [entry]);
+  }
+
+  return Array.from(byWord.values()).map(list => {
+    const sorted = [...list].sort((a, b) => a.reviewedAt - b.reviewedAt);
+    return sorted.map((entry, index) => ({
+      elapsedDays: index === 0 ? 0 : Math.max(0, (entry.reviewedAt - sorted[index - 1].reviewedAt) / DAY_MS),
+      grade: reviewLogEntryToFSRSGrade(entry),
+    }));
+  });
+};
+
+/**
+ * Run the optimizer in a Web Worker so a long history does not freeze the
+ * page; in place where workers are unavailable.
+ */
+const runFSRSOptimizer = (
+  request: FSRSOptimizerRequest,
+  onProgress?: (progress: number) => void
+): Promise<FSRSOptimizationResult> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(optimizeFSRSWeights(request.sequences, request.initialWeights, request.options, onProgress));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../utils/fsrsOptimizer.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<FSRSOptimizerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'FSRS optimizer worker failed'));
+    };
+    worker.postMessage(request);
+  });
+};
+
+/**
+ * Fit per-user FSRS weights from review history and store them.
+ * Runs offline (Account panel action), never on the review path.
+ *
+ * @param sequences - Chronological reviews, one sequence per word
+ * @param onProgress - Share of the optimizer's steps done (0-1)
+ */
+export const optimizeAndSaveFSRSWeights = async (
+  sequences: FSRSReviewSequence[],
+  onProgress?: (progress: number) => void
+): Promise<FSRSOptimizationResult> => {
+  const fsrsConfig = WORD_LEARNING_CONFIG.scheduler.fsrs;
+  const result = await runFSRSOptimizer(
+    { sequences, initialWeights: fsrsConfig.defaultWeights, options: fsrsConfig.optimizer },
+    onProgress
+  );
+  if (result.optimized && result.finalLoss < result.initialLoss) {
+    ReviewSchedulerSettings.setFSRSWeights(result.weights);
+  }
+  return result;
+};
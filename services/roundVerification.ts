@@ -0,0 +1,150 @@
+/**
+ * Round Verification
+ *
+ * Client side of the verify-round edge function. Puzzle, scene, recall and
+ * sprint rounds fetch a signed ticket when they start and submit the round log against
+ * it when they end; the server re-scores the log and writes the ranking
+ * row itself. There is no other way to record these rounds.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import { getShanghaiDateString } from '../utils/timezone';
+import { isBrowserOffline } from './offlineSyncQueue';
+import type { PuzzleGameSummary, RecallGameSummary, SceneGameSummary, SprintGameSummary } from '../types';
+import type {
+  RoundLog,
+  RoundLogEntry,
+  SignedRoundTicket,
+  VerifiedRoundMode,
+} from '../supabase/functions/verify-round/roundScoring';
+
+export interface VerifiedRound {
+  round_id: string;
+  played_date: string;
+  total_score: number;
+}
+
+/**
+ * Ask the server for a ticket for this word set.
+ * Resolves to null when it can't be had (offline, not signed in, function
+ * down, daily challenge already played); the round is still playable,
+ * just not ranked.
+ * @param binding - challengeDate for the daily challenge round (its word
+ *   ids are synthetic), duelId for one side of a puzzle duel
+ */
+export const startVerifiedRound = async (
+  mode: VerifiedRoundMode,
+  wordIds: string[],
+  binding: { challengeDate?: string; duelId?: string } = {},
+): Promise<SignedRoundTicket | null> => {
+  if (isBrowserOffline() || wordIds.length === 0) return null;
+  try {
+    const { data, error } = await supabase.functions.invoke('verify-round', {
+      body: { action: 'start', mode, wordIds, ...binding },
+    });
+    if (error || !data?.success) {
+      console.warn('[startVerifiedRound] no ticket:', error?.message || data?.error);
+      return null;
+    }
+    return { ticket: data.ticket, signature: data.signature };
+  } catch (error) {
+    console.warn('[startVerifiedRound] no ticket:', (error as Error).message);
+    return null;
+  }
+};
+
+type VerifiedRoundSummary = PuzzleGameSummary | SceneGameSummary | RecallGameSummary | SprintGameSummary;
+
+// Only the fields the server scores; display-only fields stay on the client
+const toRoundLog = (
+  mode: VerifiedRoundMode,
+  summary: PuzzleGameSummary | SceneGameSummary | RecallGameSummary,
+): RoundLog => ({
+  mode,
+  // timeUsedSeconds is already ceil(elapsed), so this scores identically
+  elapsedMs: summary.timeUsedSeconds * 1000,
+  results: summary.results.map((r): RoundLogEntry => ({
+    wordId: r.wordId,
+    correct: r.correct,
+    attemptsUsed: r.attemptsUsed,
+    hintUsed: r.hintUsed,
+    activatedAtMs: r.activatedAtMs,
+    solvedAtMs: r.solvedAtMs,
+    ...('ambiguous' in r ? { ambiguous: r.ambiguous } : {}),
+  })),
+});
+
+// The server replays streaks and windows itself, so only timings and outcomes go up
+const toSprintRoundLog = (summary: SprintGameSummary): RoundLog => ({
+  mode: 'SPRINT',
+  elapsedMs: summary.timeUsedSeconds * 1000,
+  results: summary.results.map((r): RoundLogEntry => ({
+    wordId: r.wordId,
+    correct: r.correct,
+    attemptsUsed: r.timedOut ? 0 : 1,
+    hintUsed: false,
+    activatedAtMs: r.playedAtMs,
+    solvedAtMs: r.answeredAtMs,
+    windowOpenedAtMs: r.activatedAtMs,
+  })),
+});
+
+/** POST the log against its ticket; throws with `status` set on HTTP errors */
+const invokeSubmit = async (
+  mode: VerifiedRoundMode,
+  summary: VerifiedRoundSummary,
+): Promise<any> => {
+  const signed = summary.roundTicket;
+  if (!signed) {
+    throw Object.assign(new Error('Round has no verification ticket'), { status: 400 });
+  }
+
+  const meta = 'playMode' in summary
+    ? {
+      selectionMode: summary.selectionMode,
+      clientDate: getShanghaiDateString(),
+      playMode: summary.playMode,
+      dayIndex: summary.dayIndex,
+      sceneAssetId: summary.sceneAssetId || null,
+    }
+    : { selectionMode: summary.selectionMode, clientDate: getShanghaiDateString() };
+
+  const { data, error } = await supabase.functions.invoke('verify-round', {
+    body: {
+      action: 'submit',
+      ...signed,
+      log: 'bestStreak' in summary ? toSprintRoundLog(summary) : toRoundLog(mode, summary),
+      meta,
+    },
+  });
+
+  if (error) {
+    const response = (error as any)?.context as Response | undefined;
+    const body = await response?.json?.().catch(() => null);
+    const message = body?.problems?.length
+      ? `${body.error}: ${body.problems.join(', ')}`
+      : body?.error || error.message;
+    console.error(`[submitVerifiedRound] ${mode} failed:`, message);
+    throw Object.assign(new Error(message), { status: response?.status });
+  }
+  if (!data?.success) throw new Error(data?.error || 'Round verification failed');
+  return data;
+};
+
+/**
+ * Submit a finished round for verification and ranking.
+ * Throws with `status` set on HTTP errors, so the outbox retries 5xx and
+ * dead-letters a rejected (422) log instead of replaying it forever.
+ */
+export const submitVerifiedRound = async (
+  mode: VerifiedRoundMode,
+  summary: VerifiedRoundSummary,
+): Promise<VerifiedRound> => (await invokeSubmit(mode, summary)).round as VerifiedRound;
+
+/**
+ * Submit one side of a puzzle duel (its ticket carries the duel id).
+ * Resolves to the duel row as record_puzzle_duel_result left it; throws
+ * like submitVerifiedRound.
+ */
+export const submitVerifiedDuelRound = async (summary: PuzzleGameSummary): Promise<any> =>
+  (await invokeSubmit('PUZZLE', summary)).duel;
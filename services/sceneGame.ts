@@ -1,6 +1,12 @@
 import { adaptiveWordSelector } from './adaptiveWordSelector';
 import { isSupabaseConfigured, supabase } from '../lib/supabaseClient';
-import { getShanghaiDateString } from '../utils/timezone';
+import { isWordStudyable } from '../utils/wordState';
+import {
+  calculateMaxOverlapRate,
+  createDailySelectionHistory,
+  enforceDailyOverlapCap,
+  shuffleWords,
+} from '../utils/dailySelection';
 import { SceneGameSettings } from './sceneGameSettings';
 import { compressToWebP } from '../utils/imageUtils';
 // Re-exported from the pure parser module so unit tests can import the parser
@@ -16,6 +22,11 @@ export type {
   ScenePipelineStage,
 } from './sceneStreamParser';
 import { normalizeAsset, parseSceneGenerateNdjsonStream } from './sceneStreamParser';
+// POS helpers live in a pure module so the choice quiz tests can use them
+export { categorizePos, posOf } from '../utils/partOfSpeech';
+import { posOf } from '../utils/partOfSpeech';
+import { pickExampleSentence } from '../utils/sentenceDictation';
+import { fetchExampleSentences } from './dictionaryService';
 import {
   InputSession,
   PuzzleGameSelectionMode,
@@ -30,28 +41,23 @@ import {
   WordEntry,
   WordRegion,
 } from '../types';
+import { roundDurationSeconds, scoreRound } from '../supabase/functions/verify-round/roundScoring';
+import { submitVerifiedRound } from './roundVerification';
 
 // ================================================================
 // Scene Fusion Game — client service
 // Selection (smart/random), prompt meta, scene generation request,
-// haystack candidates, and scoring. Self-contained: mirrors the
-// puzzleGame.ts structure but with a scene-specific daily-overlap
-// history key and scene scoring.
+// haystack candidates, and scoring. Mirrors the puzzleGame.ts
+// structure with a scene-specific daily-overlap history key and
+// scene scoring.
 // ================================================================
 
 const SCENE_DAILY_SELECTION_HISTORY_KEY = 'vibe_scene_daily_selection_history';
-const SCENE_DAILY_HISTORY_LIMIT = 12;
-const MAX_DAILY_OVERLAP_RATE = 0.6;
 const MAX_SCORING_OVERLAP_RATE = 0.8;
 
 export const MIN_SCENE_WORDS = 5;
 export const MAX_SCENE_WORDS = 10;
 
-interface SceneDailySelectionHistory {
-  date: string;
-  rounds: string[][];
-}
-
 interface SceneSelectionResult {
   words: WordEntry[];
   selectionMode: PuzzleGameSelectionMode;
@@ -60,40 +66,8 @@ interface SceneSelectionResult {
   rankingIneligibleReason?: string | null;
 }
 
-const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
-
 const normalizeText = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
 
-const shuffleWords = <T>(items: T[]): T[] => {
-  const result = [...items];
-  for (let index = result.length - 1; index > 0; index -= 1) {
-    const swapIndex = Math.floor(Math.random() * (index + 1));
-    [result[index], result[swapIndex]] = [result[swapIndex], result[index]];
-  }
-  return result;
-};
-
-// ----------------------------------------------------------------
-// POS helpers
-// ----------------------------------------------------------------
-/** Map a raw partOfSpeech token ('n.', 'adj.', ...) to a prompt category. */
-export const categorizePos = (raw: string | null | undefined): SceneWordMeta['pos'] => {
-  if (!raw) return 'noun';
-  const p = raw.trim().toLowerCase().replace(/\./g, '');
-  if (p === 'noun' || p === 'n') return 'noun';
-  if (p === 'adjective' || p === 'adj') return 'adjective';
-  if (p === 'verb' || p === 'v') return 'verb';
-  if (p === 'adverb' || p === 'adv') return 'adverb';
-  // determiners / prepositions / conjunctions etc. -> render as objects
-  return 'other';
-};
-
-/** POS category for a WordEntry, using its selected meaning. */
-export const posOf = (word: WordEntry): SceneWordMeta['pos'] => {
-  const selected = word.meaning_options?.find((m) => m.key === word.selected_meaning_key) || word.meaning_options?.[0];
-  return categorizePos(selected?.partOfSpeech);
-};
-
 const definitionCnOf = (word: WordEntry): string => {
   const selected = word.meaning_options?.find((m) => m.key === word.selected_meaning_key) || word.meaning_options?.[0];
   const fromMeaning = selected?.meaningZh?.trim();
@@ -110,83 +84,9 @@ export const gatherWordMeta = (words: WordEntry[]): SceneWordMeta[] =>
   }));
 
 // ----------------------------------------------------------------
-// Daily-overlap history (mirrors puzzle, separate storage key)
+// Daily-overlap history (utils/dailySelection.ts, own storage key)
 // ----------------------------------------------------------------
-const loadDailyHistory = (): SceneDailySelectionHistory => {
-  if (typeof window === 'undefined') return { date: getShanghaiDateString(), rounds: [] };
-  try {
-    const raw = window.localStorage.getItem(SCENE_DAILY_SELECTION_HISTORY_KEY);
-    if (!raw) return { date: getShanghaiDateString(), rounds: [] };
-    const parsed = JSON.parse(raw);
-    const today = getShanghaiDateString();
-    if (!parsed || typeof parsed !== 'object' || parsed.date !== today || !Array.isArray(parsed.rounds)) {
-      return { date: today, rounds: [] };
-    }
-    return {
-      date: today,
-      rounds: parsed.rounds
-        .filter((round: unknown): round is string[] => Array.isArray(round))
-        .map((round) => round.filter((value): value is string => typeof value === 'string')),
-    };
-  } catch {
-    return { date: getShanghaiDateString(), rounds: [] };
-  }
-};
-
-const saveDailyHistory = (words: WordEntry[]) => {
-  if (typeof window === 'undefined') return;
-  try {
-    const today = getShanghaiDateString();
-    const current = loadDailyHistory();
-    const nextRound = words.map((word) => word.id);
-    const rounds = current.date === today ? current.rounds : [];
-    window.localStorage.setItem(
-      SCENE_DAILY_SELECTION_HISTORY_KEY,
-      JSON.stringify({ date: today, rounds: [...rounds, nextRound].slice(-SCENE_DAILY_HISTORY_LIMIT) }),
-    );
-  } catch {
-    // ignore
-  }
-};
-
-const enforceDailyOverlapCap = (prioritized: WordEntry[], previousRounds: string[][], count: number) => {
-  if (previousRounds.length === 0) return prioritized.slice(0, count);
-
-  const maxOverlap = Math.floor(count * MAX_DAILY_OVERLAP_RATE);
-  const roundSets = previousRounds.map((round) => new Set(round));
-  const overlapCounts = roundSets.map(() => 0);
-  const selected: WordEntry[] = [];
-  const selectedIds = new Set<string>();
-
-  for (const word of prioritized) {
-    if (selected.length >= count || selectedIds.has(word.id)) continue;
-    const violatesCap = roundSets.some((set, i) => set.has(word.id) && overlapCounts[i] + 1 > maxOverlap);
-    if (violatesCap) continue;
-    selected.push(word);
-    selectedIds.add(word.id);
-    roundSets.forEach((set, i) => {
-      if (set.has(word.id)) overlapCounts[i] += 1;
-    });
-  }
-
-  if (selected.length >= count) return selected.slice(0, count);
-  for (const word of prioritized) {
-    if (selected.length >= count || selectedIds.has(word.id)) continue;
-    selected.push(word);
-    selectedIds.add(word.id);
-  }
-  return selected.slice(0, count);
-};
-
-const calculateMaxOverlapRate = (selectedWords: WordEntry[], previousRounds: string[][]) => {
-  if (selectedWords.length === 0 || previousRounds.length === 0) return 0;
-  const selectedIds = new Set(selectedWords.map((word) => word.id));
-  const maxOverlapCount = previousRounds.reduce((maxCount, round) => {
-    const overlapCount = round.reduce((count, wordId) => count + (selectedIds.has(wordId) ? 1 : 0), 0);
-    return Math.max(maxCount, overlapCount);
-  }, 0);
-  return maxOverlapCount / selectedWords.length;
-};
+const { load: loadDailyHistory, save: saveDailyHistory } = createDailySelectionHistory(SCENE_DAILY_SELECTION_HISTORY_KEY);
 
 // ----------------------------------------------------------------
 // Word selection
@@ -196,7 +96,7 @@ const calculateMaxOverlapRate = (selectedWords: WordEntry[], previousRounds: str
 export const getSceneCandidateWords = (words: WordEntry[]): WordEntry[] => {
   const uniqueWords = new Map<string, WordEntry>();
   words
-    .filter((word) => !word.deleted)
+    .filter((word) => isWordStudyable(word))
     .forEach((word) => {
       const key = normalizeText(word.text);
       if (!uniqueWords.has(key)) uniqueWords.set(key, word);
@@ -342,6 +242,7 @@ const callSceneGenerate = async (
       const asset = await finalizeClientPersistedScene(
         streamResult.pendingClientPersist.imageDataUrl,
         streamResult.pendingClientPersist.pendingAsset,
+        streamResult.pendingClientPersist.panelImageDataUrls,
       );
       return { source: streamResult.source, asset, degraded: streamResult.degraded };
     }
@@ -359,15 +260,38 @@ const callSceneGenerate = async (
   return await Promise.race([fetchPromise, timeoutPromise]);
 };
 
+export interface SceneGenerationOptions {
+  /**
+   * Set for the daily challenge: the server checks the words against that
+   * day's set, shares one cached image among all players and charges no coins
+   */
+  dailyChallengeDate?: string;
+  /** Story chapters: a 3–4 panel picture story instead of one fused scene */
+  storyMode?: boolean;
+}
+
+/**
+ * Generate (or fetch from cache) the scene for a word set.
+ */
 export const requestSceneGeneration = async (
   words: SceneWordMeta[],
   dayIndex: number,
   language: string = 'en',
   signal?: AbortSignal,
   callbacks?: SceneGenerationCallbacks,
+  options: SceneGenerationOptions = {},
 ): Promise<SceneGenerationResult> => {
   return callSceneGenerate(
-    { words, dayIndex, language, force: false, visionEnabled: SceneGameSettings.isVisionEnabled(), clientPersist: true },
+    {
+      words,
+      dayIndex,
+      language,
+      force: false,
+      visionEnabled: SceneGameSettings.isVisionEnabled(),
+      clientPersist: true,
+      ...(options.dailyChallengeDate ? { dailyChallengeDate: options.dailyChallengeDate } : {}),
+      ...(options.storyMode ? { storyMode: true } : {}),
+    },
     signal,
     callbacks,
     SCENE_GENERATION_TIMEOUT_MS,
@@ -392,12 +316,36 @@ export const requestSceneRegeneration = async (
 
 const SCENE_BUCKET = 'word-images';
 
+/** compressToWebP + upload one scene image; returns its public URL and size. */
+const uploadSceneWebp = async (imageDataUrl: string, storagePath: string): Promise<{ publicUrl: string; size: number }> => {
+  // Browser Canvas → true WebP (the same reliable encoder used by word image upload).
+  const webpBlob = await compressToWebP(imageDataUrl, 1024, 1024, 0.82);
+  // Verify the RIFF....WEBP magic — defends against ancient browsers that
+  // silently fall back to PNG inside canvas.toBlob.
+  const head = new Uint8Array(await webpBlob.slice(0, 12).arrayBuffer());
+  const isWebp = head[0] === 0x52 && head[1] === 0x49 && head[2] === 0x46 && head[3] === 0x46
+    && head[8] === 0x57 && head[9] === 0x45 && head[10] === 0x42 && head[11] === 0x50;
+  if (!isWebp) {
+    throw new Error('compressToWebP produced non-WebP bytes — browser Canvas encoder unavailable');
+  }
+
+  const { error: ulErr } = await supabase.storage
+    .from(SCENE_BUCKET)
+    .upload(storagePath, webpBlob, { contentType: 'image/webp', cacheControl: '31536000', upsert: true });
+  if (ulErr) throw new Error(`storage upload failed: ${ulErr.message}`);
+
+  const { data: urlData } = supabase.storage.from(SCENE_BUCKET).getPublicUrl(storagePath);
+  return { publicUrl: urlData.publicUrl, size: webpBlob.size };
+};
+
 /**
  * Client-side WebP conversion + finalize, mirroring imageProcessAndUpload.
  * Called after a `clientPersist:true` done event carries `imageDataUrl` +
  * `pendingAsset`. Steps:
  *   1. compressToWebP (browser Canvas, true WebP, magic-byte verified)
  *   2. Upload to storage at `scenes/{userId}/{dayIndex}/{wordSetHash}.webp`
+ *      (story chapters: panels 1..n go to `{wordSetHash}-p{n}.webp` and
+ *      their URLs are written into sceneDesign.panels)
  *   3. Call scene-generate action='finalize' to write scene_assets row
  *   4. Return a normalized SceneAsset so the caller can transition to PLAYING
  */
@@ -415,28 +363,26 @@ const finalizeClientPersistedScene = async (
     visionModel: string;
     userId: string;
   },
+  panelImageDataUrls?: string[],
 ): Promise<SceneAsset> => {
-  // 1. Browser Canvas → true WebP (the same reliable encoder used by word image upload).
-  const webpBlob = await compressToWebP(imageDataUrl, 1024, 1024, 0.82);
-  // Verify the RIFF....WEBP magic — defends against ancient browsers that
-  // silently fall back to PNG inside canvas.toBlob.
-  const head = new Uint8Array(await webpBlob.slice(0, 12).arrayBuffer());
-  const isWebp = head[0] === 0x52 && head[1] === 0x49 && head[2] === 0x46 && head[3] === 0x46
-    && head[8] === 0x57 && head[9] === 0x45 && head[10] === 0x42 && head[11] === 0x50;
-  if (!isWebp) {
-    throw new Error('compressToWebP produced non-WebP bytes — browser Canvas encoder unavailable');
+  // 1–2. Path mirrors the legacy .png layout but ends .webp.
+  const basePath = `scenes/${pending.userId}/${pending.dayIndex}/${pending.wordSetHash}`;
+  const storagePath = `${basePath}.webp`;
+  const { publicUrl, size } = await uploadSceneWebp(imageDataUrl, storagePath);
+  let fileSizeBytes = size;
+
+  let sceneDesign = pending.sceneDesign;
+  const designPanels = Array.isArray(sceneDesign?.panels) ? sceneDesign.panels : [];
+  if (designPanels.length > 0 && panelImageDataUrls?.length === designPanels.length) {
+    const panels = [{ ...designPanels[0], imageUrl: publicUrl, storagePath }];
+    for (let i = 1; i < designPanels.length; i++) {
+      const panelPath = `${basePath}-p${i}.webp`;
+      const uploaded = await uploadSceneWebp(panelImageDataUrls[i], panelPath);
+      fileSizeBytes += uploaded.size;
+      panels.push({ ...designPanels[i], imageUrl: uploaded.publicUrl, storagePath: panelPath });
+    }
+    sceneDesign = { ...sceneDesign, panels };
   }
-  const contentType = 'image/webp';
-
-  // 2. Upload storage (path mirrors the legacy .png layout but ends .webp).
-  const storagePath = `scenes/${pending.userId}/${pending.dayIndex}/${pending.wordSetHash}.webp`;
-  const { error: ulErr } = await supabase.storage
-    .from(SCENE_BUCKET)
-    .upload(storagePath, webpBlob, { contentType, cacheControl: '31536000', upsert: true });
-  if (ulErr) throw new Error(`storage upload failed: ${ulErr.message}`);
-
-  const { data: urlData } = supabase.storage.from(SCENE_BUCKET).getPublicUrl(storagePath);
-  const publicUrl = urlData.publicUrl;
 
   // 3. Call finalize to write scene_assets row (server stays authoritative).
   const { data, error } = await supabase.functions.invoke('scene-generate', {
@@ -449,24 +395,85 @@ const finalizeClientPersistedScene = async (
       language: pending.language,
       words: pending.words,
       regions: pending.regions,
-      sceneDesign: pending.sceneDesign,
+      sceneDesign,
       prompt: pending.prompt,
       model: pending.model,
       visionModel: pending.visionModel,
-      fileSizeBytes: webpBlob.size,
+      fileSizeBytes,
     },
   });
   if (error) throw new Error(`finalize invoke failed: ${error.message}`);
   if (!data || data.ok !== true || !data.asset) {
     throw new Error(data?.error || 'finalize returned no asset');
   }
-  console.log(`[sceneGame] client-persist finalized ${pending.wordSetHash}: ${storagePath} (${webpBlob.size}B)`);
+  console.log(`[sceneGame] client-persist finalized ${pending.wordSetHash}: ${storagePath} (${fileSizeBytes}B)`);
 
   // 4. Normalize to SceneAsset. The asset comes back with snake_case keys from
   // the DB row, so normalizeAsset handles the mapping.
   return normalizeAsset(data.asset);
 };
 
+/** How many recent scenes fetchSceneSentences searches */
+const SCENE_SENTENCE_LOOKBACK = 60;
+
+/**
+ * Cloze sentences from the user's recent scenes for the given words, keyed
+ * by lower-cased word (newest scene wins). Words that never appeared in a
+ * scene are simply absent; fetchDictationSentences fills those in.
+ */
+export const fetchSceneSentences = async (words: string[]): Promise<Record<string, string>> => {
+  if (!isSupabaseConfigured || words.length === 0) return {};
+  const wanted = new Set(words.map(w => w.trim().toLowerCase()));
+
+  // RLS returns the caller's own scenes
+  const { data, error } = await supabase
+    .from('scene_assets')
+    .select('regions, scene_design')
+    .eq('status', 'ready')
+    .order('created_at', { ascending: false })
+    .limit(SCENE_SENTENCE_LOOKBACK);
+
+  if (error) {
+    console.error('[fetchSceneSentences] Error:', error.message);
+    return {};
+  }
+
+  const found: Record<string, string> = {};
+  for (const row of data || []) {
+    const { sentences = {} } = normalizeAsset(row);
+    for (const [word, sentence] of Object.entries(sentences)) {
+      if (wanted.has(word) && !found[word]) found[word] = sentence;
+    }
+  }
+  return found;
+};
+
+/**
+ * Dictation sentences for up to `limit` of the given words, keyed by
+ * lower-cased word. Sentences from the user's own scenes come first; the
+ * remaining slots are filled, in word order, with a dictionary example
+ * sentence that contains the word exactly.
+ */
+export const fetchDictationSentences = async (words: string[], limit: number): Promise<Record<string, string>> => {
+  const sceneSentences = await fetchSceneSentences(words);
+  const found: Record<string, string> = {};
+  for (const word of words) {
+    const key = word.trim().toLowerCase();
+    if (Object.keys(found).length >= limit) return found;
+    if (sceneSentences[key]) found[key] = sceneSentences[key];
+  }
+
+  // One lookup at a time: only as many as there are free slots
+  for (const word of words) {
+    const key = word.trim().toLowerCase();
+    if (Object.keys(found).length >= limit) break;
+    if (found[key]) continue;
+    const example = pickExampleSentence(await fetchExampleSentences(word), word);
+    if (example) found[key] = example;
+  }
+  return found;
+};
+
 /**
  * Run orphan-cleanup on the server (deletes scene_assets rows that lack usable
  * sentence info, plus their PNG files). `dryRun` returns what would be deleted.
@@ -585,22 +592,6 @@ export const probeSceneDirector = async (): Promise<SceneDirectorProbeResult> =>
 // ----------------------------------------------------------------
 // Scoring
 // ----------------------------------------------------------------
-const getAttemptFactor = (attemptsUsed: number) => {
-  if (attemptsUsed <= 1) return 1;
-  if (attemptsUsed === 2) return 0.85;
-  return 0.7;
-};
-
-const getSpeedFactor = (activatedAtMs: number | null, solvedAtMs: number | null) => {
-  if (activatedAtMs == null || solvedAtMs == null || solvedAtMs <= activatedAtMs) return 0.75;
-  const seconds = (solvedAtMs - activatedAtMs) / 1000;
-  if (seconds <= 4) return 1.1;
-  if (seconds <= 8) return 1.0;
-  if (seconds <= 15) return 0.9;
-  if (seconds <= 25) return 0.8;
-  return 0.7;
-};
-
 /**
  * Total round duration for the cloze gameplay.
  *
@@ -608,7 +599,7 @@ const getSpeedFactor = (activatedAtMs: number | null, solvedAtMs: number | null)
  * sentence clue + free navigation between rows. (The old spell/haystack
  * split is gone.)
  */
-export const sceneDurationSeconds = (wordCount: number): number => wordCount * 30;
+export const sceneDurationSeconds = (wordCount: number): number => roundDurationSeconds('SCENE', wordCount);
 
 export const calculateSceneGameSummary = (params: {
   results: SceneCardResult[];
@@ -623,40 +614,21 @@ export const calculateSceneGameSummary = (params: {
 }): SceneGameSummary => {
   const { results, elapsedMs, selectionMode, dayIndex, wordCount, overlapRate, rankingEligible, rankingIneligibleReason, sceneAssetId } = params;
   const playMode: ScenePlayMode = 'cloze';
-  const totalDurationSeconds = sceneDurationSeconds(wordCount);
-  const wordsTotal = results.length || wordCount;
-  const wordsCorrect = results.filter((r) => r.correct).length;
-  const hintsUsed = results.filter((r) => r.hintUsed).length;
-  const solvedWithoutHint = results.filter((r) => r.correct && !r.hintUsed).length;
-  const accuracyRate = wordsTotal > 0 ? wordsCorrect / wordsTotal : 0;
-  const timeUsedSeconds = clamp(Math.ceil(elapsedMs / 1000), 0, totalDurationSeconds);
-  const secondsRemaining = clamp(totalDurationSeconds - timeUsedSeconds, 0, totalDurationSeconds);
-
-  const rawQualityTotal = results.reduce((sum, r) => {
-    if (!r.correct) return sum;
-    const attemptFactor = getAttemptFactor(r.attemptsUsed);
-    const hintFactor = r.hintUsed ? 0.8 : 1;
-    const speedFactor = getSpeedFactor(r.activatedAtMs, r.solvedAtMs);
-    return sum + 100 * attemptFactor * hintFactor * speedFactor;
-  }, 0);
-
-  const accuracyScore = accuracyRate * 700;
-  const speedScore = (secondsRemaining / totalDurationSeconds) * 200;
-  const efficiencyBonus = (rawQualityTotal / (wordsTotal * 110)) * 100;
-  const totalScore = Math.round(clamp(accuracyScore + speedScore + efficiencyBonus, 0, 1000));
+  // Same scoring the verify-round function re-runs on the submitted log
+  const score = scoreRound('SCENE', results, elapsedMs, wordCount);
 
   return {
-    totalScore,
-    accuracyRate: Number(accuracyRate.toFixed(4)),
-    speedScore: accuracyRate >= 0.85 ? Math.round((secondsRemaining / totalDurationSeconds) * 1000) : 0,
-    noHintScore: accuracyRate >= 0.85 ? Math.round((solvedWithoutHint / wordsTotal) * 1000) : 0,
-    wordsCorrect,
-    wordsTotal,
-    hintsUsed,
-    solvedWithoutHint,
-    timeUsedSeconds,
-    secondsRemaining,
-    totalDurationSeconds,
+    totalScore: score.totalScore,
+    accuracyRate: score.accuracyRate,
+    speedScore: score.speedScore,
+    noHintScore: score.noHintScore,
+    wordsCorrect: score.wordsCorrect,
+    wordsTotal: score.wordsTotal,
+    hintsUsed: score.hintsUsed,
+    solvedWithoutHint: score.solvedWithoutHint,
+    timeUsedSeconds: score.timeUsedSeconds,
+    secondsRemaining: score.secondsRemaining,
+    totalDurationSeconds: score.totalDurationSeconds,
     selectionMode,
     playMode,
     dayIndex,
@@ -672,33 +644,8 @@ export const calculateSceneGameSummary = (params: {
 // ----------------------------------------------------------------
 // DB sync wrappers
 // ----------------------------------------------------------------
-export const recordSceneGameRound = async (summary: SceneGameSummary) => {
-  const clientDate = getShanghaiDateString();
-  const { data, error } = await supabase.rpc('record_scene_game_round', {
-    p_play_mode: summary.playMode,
-    p_selection_mode: summary.selectionMode,
-    p_day_index: summary.dayIndex,
-    p_word_count: summary.wordCount,
-    p_total_duration_seconds: summary.totalDurationSeconds,
-    p_total_score: summary.totalScore,
-    p_accuracy_rate: summary.accuracyRate,
-    p_speed_score: summary.speedScore,
-    p_no_hint_score: summary.noHintScore,
-    p_time_used_seconds: summary.timeUsedSeconds,
-    p_seconds_remaining: summary.secondsRemaining,
-    p_hints_used: summary.hintsUsed,
-    p_words_total: summary.wordsTotal,
-    p_words_correct: summary.wordsCorrect,
-    p_solved_without_hint: summary.solvedWithoutHint,
-    p_scene_asset_id: summary.sceneAssetId || null,
-    p_client_date: clientDate,
-  });
-  if (error) {
-    console.error('[recordSceneGameRound] failed:', error.message);
-    throw error;
-  }
-  return Array.isArray(data) && data.length > 0 ? data[0] : data;
-};
+/** Record a finished round; the verify-round function re-scores it from the log */
+export const recordSceneGameRound = (summary: SceneGameSummary) => submitVerifiedRound('SCENE', summary);
 
 export const fetchSceneGameLeaderboard = async (
   scope: SceneLeaderboardScope,
@@ -9,6 +9,7 @@
 // ================================================================
 import type {
   SceneAsset,
+  ScenePanel,
   ScenePipelineStage,
   WordRegion,
 } from '../types';
@@ -25,6 +26,8 @@ export interface SceneGenerationResult {
   pendingClientPersist?: {
     imageDataUrl: string;
     pendingAsset: any;
+    /** Story chapters: every panel's raw image in story order (index 0 = imageDataUrl). */
+    panelImageDataUrls?: string[];
   };
 }
 
@@ -61,6 +64,9 @@ export const normalizeAsset = (raw: any): SceneAsset => {
     if (typeof r?.sentence === 'string' && r.sentence.trim()) {
       region.sentence = r.sentence.trim();
     }
+    if (Number.isInteger(r?.panel) && r.panel >= 0) {
+      region.panel = r.panel;
+    }
     return region;
   });
 
@@ -112,6 +118,24 @@ export const normalizeAsset = (raw: any): SceneAsset => {
   if (storyboard) {
     asset.storyboard = storyboard;
   }
+  // Story chapters: scene_design.panels carries one uploaded image per
+  // chapter. A row with any panel missing its image is played as a plain
+  // single-image scene rather than with a broken chapter.
+  const rawPanels = Array.isArray(rawSceneDesign?.panels) ? rawSceneDesign.panels : [];
+  const panels: ScenePanel[] = rawPanels.map((p: any, index: number) => {
+    const panel: ScenePanel = {
+      index,
+      imageUrl: String(p?.imageUrl || ''),
+      storagePath: String(p?.storagePath || ''),
+      words: Array.isArray(p?.words) ? p.words.map((w: any) => String(w)) : [],
+    };
+    if (typeof p?.title === 'string' && p.title.trim()) panel.title = p.title.trim();
+    if (typeof p?.narration === 'string' && p.narration.trim()) panel.narration = p.narration.trim();
+    return panel;
+  });
+  if (panels.length > 1 && panels.every((p) => p.imageUrl)) {
+    asset.panels = panels;
+  }
   return asset;
 };
 
@@ -122,7 +146,8 @@ export const normalizeAsset = (raw: any): SceneAsset => {
  *
  * Stages fired via callbacks.onStage:
  *   - 'designed'  : director returned a prompt
- *   - 'rendered'  : image provider returned bytes
+ *   - 'panel-rendered' : story chapters only, once per panel image
+ *   - 'rendered'  : image provider returned bytes (every panel, for a story)
  *   - 'persisted' : scene_assets row written
  *   - 'done'      : final asset is ready
  *
@@ -139,7 +164,7 @@ export const parseSceneGenerateNdjsonStream = async (
   let finalAsset: SceneAsset | null = null;
   let finalSource: 'cache-hit' | 'generated' = 'generated';
   let finalDegraded = false;
-  let pendingClientPersist: { imageDataUrl: string; pendingAsset: any } | undefined = undefined;
+  let pendingClientPersist: SceneGenerationResult['pendingClientPersist'] = undefined;
 
   while (true) {
     const { value, done } = await reader.read();
@@ -162,7 +187,7 @@ export const parseSceneGenerateNdjsonStream = async (
       if (stage === 'designed' && event?.fallbackReason) {
         console.warn('[sceneGame] director fallback reason:', event.fallbackReason);
       }
-      if (stage === 'designed' || stage === 'rendered' || stage === 'persisted') {
+      if (stage === 'designed' || stage === 'panel-rendered' || stage === 'rendered' || stage === 'persisted') {
         callbacks?.onStage?.(stage as ScenePipelineStage, event);
       } else if (stage === 'done') {
         callbacks?.onStage?.('done', event);
@@ -175,6 +200,9 @@ export const parseSceneGenerateNdjsonStream = async (
             imageDataUrl: event.imageDataUrl,
             pendingAsset: event.pendingAsset,
           };
+          if (Array.isArray(event.panelImageDataUrls)) {
+            pendingClientPersist.panelImageDataUrls = event.panelImageDataUrls.map((u: any) => String(u || ''));
+          }
           finalSource = event.source === 'cache-hit' ? 'cache-hit' : 'generated';
           finalDegraded = Boolean(event.degraded);
         } else {
@@ -50,6 +50,7 @@ const INDEXED_DB_NAME = 'vocab-monster-local';
 const INDEXED_DB_VERSION = 1;
 const INDEXED_DB_STORE = 'backup_store';
 const INDEXED_DB_BACKUP_KEY = 'session_backup';
+const INDEXED_DB_SNAPSHOT_PREFIX = 'library_snapshot:';
 const SYNC_THRESHOLD_TOLERANCE = 1000; // 1秒内的差异视为同时更新
 const STORAGE_CLEANUP_KEYS = [
   'vibe_audio_cache',
@@ -359,6 +360,66 @@ export const clearLocalBackup = async (): Promise<void> => {
   console.log('[SyncService] Local backup cleared');
 };
 
+/**
+ * 保存离线快照：最近一次从云端加载的 sessions + words（按用户区分），
+ * 无网络启动时用它渲染词库并进行 CLASSIC 测试
+ */
+export const saveLibrarySnapshot = async (
+  userId: string,
+  snapshot: { sessions: InputSession[]; words: WordEntry[] }
+): Promise<boolean> => {
+  const db = await openBackupDatabase();
+  if (!db) return false;
+
+  return new Promise((resolve) => {
+    try {
+      const transaction = db.transaction(INDEXED_DB_STORE, 'readwrite');
+      transaction.oncomplete = () => resolve(true);
+      transaction.onerror = () => {
+        console.error('[SyncService] Failed to save library snapshot:', transaction.error);
+        resolve(false);
+      };
+      transaction.objectStore(INDEXED_DB_STORE).put(
+        { ...snapshot, savedAt: Date.now() },
+        `${INDEXED_DB_SNAPSHOT_PREFIX}${userId}`
+      );
+    } catch (error) {
+      console.error('[SyncService] Library snapshot write failed:', error);
+      resolve(false);
+    }
+  });
+};
+
+/**
+ * 读取离线快照（不存在或格式无效时返回 null）
+ */
+export const loadLibrarySnapshot = async (
+  userId: string
+): Promise<{ sessions: InputSession[]; words: WordEntry[]; savedAt: number } | null> => {
+  const db = await openBackupDatabase();
+  if (!db) return null;
+
+  return new Promise((resolve) => {
+    try {
+      const request = db
+        .transaction(INDEXED_DB_STORE, 'readonly')
+        .objectStore(INDEXED_DB_STORE)
+        .get(`${INDEXED_DB_SNAPSHOT_PREFIX}${userId}`);
+      request.onsuccess = () => {
+        const result = request.result;
+        resolve(result && Array.isArray(result.sessions) && Array.isArray(result.words) ? result : null);
+      };
+      request.onerror = () => {
+        console.error('[SyncService] Failed to read library snapshot:', request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.error('[SyncService] Library snapshot read failed:', error);
+      resolve(null);
+    }
+  });
+};
+
 /**
  * 保存 Session 到本地备份
  */
@@ -0,0 +1,42 @@
+import { aiService } from './ai';
+import { isWordStudyable } from '../utils/wordState';
+import { buildFamilyDrillPrompts, FAMILY_DRILL_WORDS, groupWordFamilies } from '../utils/wordFamily';
+import { FamilyDrillPrompt, WordEntry, WordFamily } from '../types';
+
+// ================================================================
+// Word Families — client service
+// Loads the local Hunspell stems/affix rules (shared with spell checking
+// via LocalProvider) and hands them to the pure helpers in
+// utils/wordFamily.ts. Everything degrades to "no families" when the
+// dictionary can't be loaded.
+// ================================================================
+
+/** Families among the learner's (non-deleted) words */
+export const loadWordFamilies = async (words: WordEntry[]): Promise<WordFamily[]> => {
+  try {
+    const dictionary = await aiService.getAffixDictionary();
+    if (!dictionary) return [];
+    return groupWordFamilies(words.filter((word) => !word.deleted), dictionary);
+  } catch (error) {
+    console.error('[loadWordFamilies] failed:', error);
+    return [];
+  }
+};
+
+/**
+ * Drill prompts for studyable words. Known / suspended words may still
+ * supply the expected answer, they just aren't asked about.
+ */
+export const prepareFamilyDrill = async (
+  words: WordEntry[],
+  count: number = FAMILY_DRILL_WORDS,
+): Promise<FamilyDrillPrompt[]> => {
+  const dictionary = await aiService.getAffixDictionary();
+  if (!dictionary) return [];
+
+  const library = words.filter((word) => !word.deleted);
+  const studyableIds = new Set(library.filter((word) => isWordStudyable(word)).map((word) => word.id));
+  return buildFamilyDrillPrompts(library, dictionary, library.length)
+    .filter((prompt) => studyableIds.has(prompt.wordId))
+    .slice(0, count);
+};
@@ -17,6 +17,81 @@ const supabase = createClient(supabaseUrl, serviceRoleKey, {
 
 const normalizeWord = (text: string): string => text.toLowerCase().trim().replace(/\s+/g, ' ');
 
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// ----------------------------------------------------------------
+// Leaderboard moderation (flags come from verify-round/roundFlags.ts)
+// ----------------------------------------------------------------
+const MODERATION_TABLES = {
+  PUZZLE: 'puzzle_game_rounds',
+  SCENE: 'scene_game_rounds',
+  RECALL: 'recall_game_rounds',
+  SPRINT: 'sprint_game_rounds',
+  DAILY: 'daily_challenge_attempts',
+} as const;
+const ROUND_QUEUE_COLUMNS = 'id, user_id, played_at, total_score, accuracy_rate, time_used_seconds, words_total, words_correct, flags, moderation_status';
+// Daily attempts are addressed by their ticket's round id and have no accuracy column
+const DAILY_QUEUE_COLUMNS = 'round_nonce, user_id, submitted_at, total_score, time_used_seconds, words_total, words_correct, flags, moderation_status';
+
+const dailyQueueEntry = (row: any) => ({
+  ...row,
+  id: row.round_nonce,
+  played_at: row.submitted_at,
+  accuracy_rate: row.words_total ? Number(row.words_correct || 0) / Number(row.words_total) : 0,
+});
+const MODERATION_ACTIONS = ['hide', 'restore', 'clear'];
+const MODERATION_QUEUE_LIMIT = 100;
+
+const loadDisplayNames = async (userIds: string[]): Promise<Record<string, string>> => {
+  if (userIds.length === 0) return {};
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('user_id, username')
+    .in('user_id', userIds);
+  if (error) throw new Error(`Failed loading profiles: ${error.message}`);
+  const names: Record<string, string> = {};
+  for (const row of (data || []) as Array<{ user_id: string; username?: string | null }>) {
+    if ((row.username || '').trim()) names[row.user_id] = row.username!.trim();
+  }
+  return names;
+};
+
+/** Flagged rounds awaiting review plus hidden ones (to restore), newest first */
+const getModerationQueue = async () => {
+  const entries: any[] = [];
+  for (const [mode, table] of Object.entries(MODERATION_TABLES)) {
+    const daily = mode === 'DAILY';
+    const { data, error } = await supabase
+      .from(table)
+      .select(daily ? DAILY_QUEUE_COLUMNS : ROUND_QUEUE_COLUMNS)
+      .in('moderation_status', ['flagged', 'hidden'])
+      .order(daily ? 'submitted_at' : 'played_at', { ascending: false })
+      .limit(MODERATION_QUEUE_LIMIT);
+    if (error) throw new Error(`Failed loading ${table}: ${error.message}`);
+    (data || []).forEach((row: any) => entries.push({ ...(daily ? dailyQueueEntry(row) : row), mode }));
+  }
+
+  const names = await loadDisplayNames([...new Set(entries.map((e) => String(e.user_id)))]);
+  return entries
+    .map((e) => ({ ...e, display_name: names[String(e.user_id)] || `${String(e.user_id).slice(0, 8)}…` }))
+    .sort((a, b) => String(b.played_at).localeCompare(String(a.played_at)))
+    .slice(0, MODERATION_QUEUE_LIMIT);
+};
+
+const getModerationLog = async () => {
+  const { data, error } = await supabase
+    .from('leaderboard_moderation_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(MODERATION_QUEUE_LIMIT);
+  if (error) throw new Error(`Failed loading moderation log: ${error.message}`);
+  return data || [];
+};
+
 const getImageStorageStats = async (): Promise<{
   imageStorageBytes: number;
   imageObjectCount: number;
@@ -316,6 +391,30 @@ serve(async (req) => {
     const payload = await req.json().catch(() => ({}));
     const action = typeof payload?.action === 'string' ? payload.action : 'stats';
 
+    if (action === 'moderation_queue') {
+      return jsonResponse({ ok: true, entries: await getModerationQueue() });
+    }
+
+    if (action === 'moderation_log') {
+      return jsonResponse({ ok: true, entries: await getModerationLog() });
+    }
+
+    if (action === 'moderate') {
+      if (!(payload?.mode in MODERATION_TABLES) || !MODERATION_ACTIONS.includes(payload?.decision) || !payload?.round_id) {
+        return jsonResponse({ ok: false, error: 'mode, round_id and decision (hide | restore | clear) are required' }, 400);
+      }
+      const { data, error } = await supabase.rpc('moderate_game_round', {
+        p_mode: payload.mode,
+        p_round_id: payload.round_id,
+        p_action: payload.decision,
+        p_moderator_id: userData.user.id,
+        p_moderator_email: email,
+        p_note: typeof payload.note === 'string' ? payload.note : null,
+      });
+      if (error) throw new Error(`Moderation failed: ${error.message}`);
+      return jsonResponse({ ok: true, result: Array.isArray(data) ? data[0] : data });
+    }
+
     if (action !== 'stats') {
       return new Response(JSON.stringify({ ok: false, error: `Unsupported action: ${action}` }), {
         status: 400,
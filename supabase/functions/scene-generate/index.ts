@@ -5,14 +5,22 @@ import {
   buildSceneDirectorSystemPrompt,
   buildSceneDirectorUserPayload,
   buildFusionResult,
+  buildStoryDirectorSystemPrompt,
+  buildStoryDirectorUserPayload,
+  buildStoryFallback,
   deriveRegionsFromElements,
+  deriveStoryRegions,
+  joinStoryNarration,
   parseSceneDesign,
   parseSceneDesignWithDiagnostics,
+  parseStoryDesignWithDiagnostics,
   replaceMascotPlaceholder,
+  storyPanelWords,
   MASCOT_PLACEHOLDER,
   zoneToBbox,
   DEFAULT_ZONE,
 } from './sceneDesign.ts';
+import type { StoryDesign } from './sceneDesign.ts';
 
 // ================================================================
 // scene-generate edge function — refreshed pipeline (design doc v2 §3)
@@ -33,9 +41,29 @@ import {
 // is wired correctly without generating any image or touching scene_assets.
 //
 // Cache is per-user (scene_assets.user_id) keyed by
-// (user_id, word_set_hash, day_index, language).
+// (user_id, word_set_hash, day_index, language). The shared daily challenge
+// (`dailyChallengeDate` in the body, today's date only) is the exception:
+// its words are the same for everyone, so the cache is looked up across
+// all owners by word_set_hash and the scene is rendered once, free of
+// coins. A render claims the day's row (daily_challenges.
+// scene_render_claimed_at) first, so concurrent players wait for the one
+// render instead of each starting their own.
+//
+// Story chapters (`storyMode: true`) swap ①–② for a 3–4 panel storyboard
+// rendered as one image per panel (in parallel, each announced with a
+// `panel-rendered` event). Panels are persisted by the client only, and
+// vision ③ is not run on them. The row keeps panel 0 as its image and the
+// rest under scene_design.panels.
 // ================================================================
 
+// A daily render claim older than this (a render that died before the
+// client finalized it) can be taken over by the next player.
+const DAILY_SCENE_RENDER_LEASE_MS = 5 * 60 * 1000;
+const SHANGHAI_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+/** Today's daily challenge date: YYYY-MM-DD in Asia/Shanghai, as verify-round/dailyChallenge.ts */
+const shanghaiToday = (): string => new Date(Date.now() + SHANGHAI_OFFSET_MS).toISOString().slice(0, 10);
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -523,6 +551,68 @@ const designScene = async (
   return { design, diagnostics, failReason: null };
 };
 
+// ----------------------------------------------------------------
+// ①' Story director (text LLM) — story chapters
+//
+// Same endpoint as designScene, asked for a 3–4 panel storyboard instead of
+// one scene. A null design means "render buildStoryFallback instead".
+// ----------------------------------------------------------------
+const designStory = async (
+  words: SceneWordMetaInput[],
+  dayIndex: number,
+  cfg: DesignLLMConfig,
+): Promise<{ design: StoryDesign | null; diagnostics: any | null; failReason: string | null }> => {
+  if (!cfg.apiKey || !cfg.baseUrl) {
+    console.warn('[scene-generate] story design skipped: no design LLM key/endpoint');
+    return { design: null, diagnostics: null, failReason: 'no-key-or-endpoint' };
+  }
+  const url = chatCompletionsUrl(cfg.baseUrl);
+  const mascot = MASCOT_DESCRIPTIONS[dayIndex] || MASCOT_DESCRIPTIONS[0];
+  const userPayload = buildStoryDirectorUserPayload(words, dayIndex, mascot);
+  const userContent = JSON.stringify(userPayload) +
+    '\n\nRespond with a SINGLE JSON object only. No markdown fences, no prose before/after, no <think> tags. ' +
+    `The object MUST contain storyTitle (string) and panels (array of exactly ${userPayload.panelCount}). ` +
+    'Every input word MUST appear in exactly one panel, and EVERY element MUST include a non-empty "sentence". ' +
+    `Every panel's structuredPrompt MUST contain EXACTLY ONE ${MASCOT_PLACEHOLDER} token.`;
+  try {
+    const response = await withTimeout(
+      fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${cfg.apiKey}`, 'User-Agent': 'Supabase-Edge-Function' },
+        body: JSON.stringify({
+          model: cfg.model,
+          // A storyboard is 3–4 designs' worth of JSON, plus any reasoning block.
+          max_tokens: 6000,
+          temperature: 0.7,
+          messages: [
+            { role: 'system', content: buildStoryDirectorSystemPrompt() },
+            { role: 'user', content: userContent },
+          ],
+        }),
+      }),
+      55000,
+      'story design timeout after 55s',
+    );
+    const data = await parseResponseJson(response);
+    if (!response.ok) {
+      const failReason = `http ${response.status}: ${JSON.stringify(data?.error || data)?.substring(0, 200)}`;
+      console.warn(`[scene-generate] story design ${failReason}`);
+      return { design: null, diagnostics: null, failReason };
+    }
+    const content = typeof data?.choices?.[0]?.message?.content === 'string' ? data.choices[0].message.content : '';
+    const parsed = parseStoryDesignWithDiagnostics(content, words);
+    console.log(`[scene-generate] story design diagnostics: ${JSON.stringify(parsed.diagnostics)}`);
+    if (!parsed.design) {
+      return { design: null, diagnostics: parsed.diagnostics, failReason: parsed.diagnostics.failReason || 'invalid storyboard' };
+    }
+    return { design: parsed.design, diagnostics: parsed.diagnostics, failReason: null };
+  } catch (err) {
+    const failReason = `exception: ${err instanceof Error ? err.message : String(err)}`;
+    console.warn(`[scene-generate] story design ${failReason}`);
+    return { design: null, diagnostics: null, failReason };
+  }
+};
+
 // ----------------------------------------------------------------
 // ③ Vision region refinement (multimodal LLM) — OPTIONAL, default OFF
 // ----------------------------------------------------------------
@@ -795,6 +885,149 @@ const resolveVisionConfig = (designCfg: LLMConfig): LLMConfig => ({
   model: envStr('SCENE_VISION_MODEL') || 'gpt-4o',
 });
 
+// ----------------------------------------------------------------
+// Story chapters pipeline (`storyMode: true`)
+//
+// Runs after the cache check and the coin gate, in place of ①–② of the
+// single-scene pipeline. Always ends in a clientPersist `done` event: the
+// client uploads every panel, then finalize writes the one scene_assets row.
+// ----------------------------------------------------------------
+interface StoryPipelineContext {
+  send: (event: any) => void;
+  refundIfNeeded: (stage: string) => Promise<void>;
+  userId: string;
+  words: SceneWordMetaInput[];
+  dayIndex: number;
+  language: string;
+  wordSetHash: string;
+}
+
+const runStoryPipeline = async (ctx: StoryPipelineContext): Promise<void> => {
+  const { send, refundIfNeeded, userId, words, dayIndex, language, wordSetHash } = ctx;
+
+  // ①' Story director
+  let designResult: { design: StoryDesign | null; diagnostics: any | null; failReason: string | null };
+  try {
+    designResult = await designStory(words, dayIndex, resolveDesignConfig());
+  } catch (err) {
+    send({ stage: 'error', failedStage: 'designed', error: `story director threw: ${err instanceof Error ? err.message : String(err)}` });
+    await refundIfNeeded('designed');
+    return;
+  }
+  const fellBack = !designResult.design;
+  const story = designResult.design || buildStoryFallback(words, dayIndex);
+  if (fellBack) {
+    console.log(`[scene-generate] story director failed/absent -> buildStoryFallback (reason: ${designResult.failReason})`);
+  }
+
+  const mascotFetch = await fetchMascotDataUrl(dayIndex);
+  const mascotShortText = MASCOT_SHORT_DESCRIPTION[dayIndex] || MASCOT_SHORT_DESCRIPTION[0];
+  const prompts = story.panels.map((panel) => replaceMascotPlaceholder(panel.structuredPrompt, mascotShortText).prompt);
+  const panelWords = storyPanelWords(story, words).map((panel) => panel.map((w) => w.text));
+  const storyboard = joinStoryNarration(story);
+  const elementsForEvent = story.panels
+    .flatMap((panel) => panel.elements)
+    .filter((el) => el.sentence)
+    .map((el) => ({ word: el.word, sentence: el.sentence as string }));
+
+  send({
+    stage: 'designed',
+    prompt: prompts[0],
+    source: fellBack ? 'fallback' : 'director',
+    sceneTitle: story.storyTitle || null,
+    storyboard: storyboard || null,
+    elements: elementsForEvent,
+    story: {
+      panelCount: story.panels.length,
+      panels: story.panels.map((panel, index) => ({ title: panel.title || null, words: panelWords[index] })),
+    },
+    diagnostics: designResult.diagnostics || undefined,
+    mascot: { referenceImageAvailable: !!mascotFetch.dataUrl, source: mascotFetch.source },
+    ...(fellBack && designResult.failReason ? { fallbackReason: designResult.failReason } : {}),
+  });
+
+  // ②' Render every panel. They are independent images, so they render in
+  // parallel and a story takes about as long as one scene.
+  const providers = getProviderConfigs();
+  if (providers.length === 0) {
+    send({ stage: 'error', failedStage: 'rendered', error: 'No image generation providers configured' });
+    await refundIfNeeded('rendered_no_providers');
+    return;
+  }
+  const referenceImage = mascotFetch.dataUrl
+    ? { dataUrl: mascotFetch.dataUrl, label: `mascot-day-${dayIndex}` }
+    : null;
+  const failures: (ProviderAttemptFailure & { panel: number })[] = [];
+  const rendered = await Promise.all(prompts.map(async (prompt, panel) => {
+    for (let i = 0; i < providers.length; i++) {
+      const result = await tryGenerateByProvider(providers[i], prompt, providers.length > 1 && i === 0, { referenceImage });
+      if ('error' in result) { failures.push({ ...result.error, panel }); continue; }
+      send({ stage: 'panel-rendered', panel, panelCount: prompts.length, providerId: result.providerId, img2Img: result.img2Img });
+      return result;
+    }
+    return null;
+  }));
+  if (rendered.some((r) => !r)) {
+    send({ stage: 'error', failedStage: 'rendered', error: 'All image providers failed for a story panel', failures });
+    await refundIfNeeded('rendered_all_failed');
+    return;
+  }
+  const img2Img = rendered.every((r) => r.img2Img);
+  send({ stage: 'rendered', providerId: rendered[0].providerId, img2Img, panelCount: rendered.length });
+
+  const regions = deriveStoryRegions(story, words);
+  const sceneDesignPayload = {
+    mode: 'story',
+    sceneTitle: story.storyTitle || null,
+    sceneConcept: null,
+    storyboard: storyboard || null,
+    structuredPrompt: null, // one per panel, below
+    elements: story.panels.flatMap((panel) => panel.elements),
+    // imageUrl / storagePath are filled in by the client before finalize
+    panels: story.panels.map((panel, index) => ({
+      title: panel.title || null,
+      narration: panel.narration || null,
+      structuredPrompt: panel.structuredPrompt,
+      words: panelWords[index],
+    })),
+    source: fellBack ? 'fallback' : 'director',
+    ...(fellBack ? { fallbackReason: designResult.failReason } : {}),
+  };
+
+  console.log(`[scene-generate] generated story ${wordSetHash} day=${dayIndex} user=${userId.substring(0, 8)} panels=${rendered.length} design=${fellBack ? 'fallback' : 'director'} img2img=${img2Img} mascotSrc=${mascotFetch.source}`);
+
+  send({
+    stage: 'done',
+    source: 'generated',
+    degraded: false,
+    clientPersist: true,
+    imageDataUrl: rendered[0].dataUrl,
+    panelImageDataUrls: rendered.map((r) => r.dataUrl),
+    pendingAsset: {
+      wordSetHash,
+      dayIndex,
+      language,
+      words,
+      regions,
+      sceneDesign: sceneDesignPayload,
+      prompt: prompts[0],
+      model: rendered[0].model,
+      visionModel: '',
+      userId,
+    },
+    diagnostics: designResult.diagnostics || undefined,
+    pipeline: {
+      mode: 'story',
+      design: fellBack ? 'fallback' : 'director',
+      regions: fellBack ? 'default' : 'zone',
+      vision: 'off',
+      img2img: img2Img,
+      mascot: mascotFetch.source,
+      panelCount: rendered.length,
+    },
+  });
+};
+
 // ----------------------------------------------------------------
 // Handler
 // ----------------------------------------------------------------
@@ -805,11 +1038,12 @@ const json = (body: any, status = 200) =>
 // The frontend reads via res.body.getReader() + TextDecoder, parsing line-by-line.
 //
 // Event protocol (see plan §1):
-//   { stage: 'designed',  prompt, source: 'director'|'fallback', sceneTitle? }
+//   { stage: 'designed',  prompt, source: 'director'|'fallback', sceneTitle?, story? }
+//   { stage: 'panel-rendered', panel, panelCount, providerId }   (story chapters, once per panel)
 //   { stage: 'rendered',  providerId }
 //   { stage: 'persisted' }
 //   { stage: 'done',      source: 'generated'|'cache-hit', asset, degraded, pipeline? }
-//   { stage: 'error',     failedStage: 'designed'|'rendered'|'persisted'|'unknown', error, failures? }
+//   { stage: 'error',     failedStage: 'coin_gate'|'daily_claim'|'designed'|'rendered'|'persisted'|'unknown', code?, error, failures? }
 //
 // `Cache-Control: no-cache, no-transform` + `X-Accel-Buffering: no` ask intermediaries
 // (Nginx, CDN) not to buffer the whole stream before forwarding.
@@ -867,6 +1101,8 @@ serve(async (req) => {
     // write scene_assets. Mirrors image-generate@1eacefc client-persist pattern.
     // Default ON (matches Pipeline A). Pass false to keep legacy server upload.
     const clientPersist = body?.clientPersist !== false;
+    const dailyChallengeDate = typeof body?.dailyChallengeDate === 'string' ? body.dailyChallengeDate.trim() : '';
+    const storyMode = body?.storyMode === true;
 
     // ---- probe: verify the director can actually produce cloze sentences ----
     // Old probe sent `max_tokens:1, content:'ping'` — that only checked API key
@@ -1117,6 +1353,11 @@ serve(async (req) => {
         }
         deleted.push(String(row.id));
         if (typeof row.storage_path === 'string' && row.storage_path) storagePathsToDelete.push(row.storage_path);
+        // Story chapters keep panels 1..n next to the row's own image
+        for (const panel of Array.isArray(row.scene_design?.panels) ? row.scene_design.panels : []) {
+          const path = typeof panel?.storagePath === 'string' ? panel.storagePath : '';
+          if (path && path !== row.storage_path) storagePathsToDelete.push(path);
+        }
       }
       if (storagePathsToDelete.length > 0) {
         const { error: sdErr } = await sb.storage.from(NEW_BUCKET).remove(storagePathsToDelete);
@@ -1158,27 +1399,61 @@ serve(async (req) => {
     // reasoning-truncation fallback.
     const SCENE_HASH_VERSION = 'v5';
     const normalizedWords = words.map((w) => normalizeWord(w.text)).sort();
-    const wordSetHash = `${SCENE_HASH_VERSION}-${(await sha1Hex(normalizedWords.join('|'))).slice(0, 12)}`;
+    // Story chapters of a word set are cached apart from its single scene.
+    const hashPrefix = storyMode ? `${SCENE_HASH_VERSION}-story` : SCENE_HASH_VERSION;
+    const wordSetHash = `${hashPrefix}-${(await sha1Hex(normalizedWords.join('|'))).slice(0, 12)}`;
+
+    if (storyMode && dailyChallengeDate) return json({ error: 'Story mode is not available for the daily challenge' }, 400);
+    if (storyMode && !clientPersist) return json({ error: 'Story mode requires clientPersist' }, 400);
 
     const sb = getSupabaseClient();
 
+    // Daily challenge: only today's stored words on the day's mascot, and
+    // never a forced re-render of the image everyone shares.
+    if (dailyChallengeDate) {
+      if (dailyChallengeDate !== shanghaiToday()) {
+        return json({ error: 'Daily challenge is not open' }, 400);
+      }
+      const { data: challenge, error: challengeErr } = await sb
+        .from('daily_challenges')
+        .select('words')
+        .eq('challenge_date', dailyChallengeDate)
+        .maybeSingle();
+      if (challengeErr) return json({ error: `daily challenge lookup failed: ${challengeErr.message}` }, 500);
+      const challengeWords = Array.isArray(challenge?.words)
+        ? challenge.words.map((w: any) => normalizeWord(String(w?.text || ''))).sort()
+        : [];
+      const challengeDay = new Date(`${dailyChallengeDate}T00:00:00Z`).getUTCDay();
+      if (
+        !challenge
+        || force
+        || dayIndex !== challengeDay
+        || challengeWords.join('|') !== normalizedWords.join('|')
+      ) {
+        return json({ error: 'Not the daily challenge word set' }, 400);
+      }
+    }
+
     // === From here on, all responses are NDJSON streams. ===
     // Input-validation errors above still return JSON (400/401). Pipeline
     // progress, mid-pipeline failures, and the final asset all flow as NDJSON
     // events so the client can drive its preparing-stage UI off real signals.
     return ndjsonResponse(async (send) => {
-      // Cache check (per-user). A hit emits a single `done` event and closes.
+      // Cache check (per-user; any owner for the daily challenge, oldest
+      // first). A hit emits a single `done` event and closes.
       // If public_url is empty (defensive — should never happen), treat as miss.
       if (!force) {
-        const { data: cached } = await sb
+        let cacheQuery = sb
           .from('scene_assets')
           .select('*')
-          .eq('user_id', userId)
           .eq('word_set_hash', wordSetHash)
           .eq('day_index', dayIndex)
           .eq('language', language)
-          .eq('status', 'ready')
-          .maybeSingle();
+          .eq('status', 'ready');
+        cacheQuery = dailyChallengeDate
+          ? cacheQuery.order('created_at', { ascending: true }).limit(1)
+          : cacheQuery.eq('user_id', userId);
+        const { data: cached } = await cacheQuery.maybeSingle();
         if (cached) {
           if (!cached.public_url) {
             console.warn(`[scene-generate] cache hit ${wordSetHash} but public_url empty -> regenerate`);
@@ -1210,12 +1485,14 @@ serve(async (req) => {
 
       // ─── Coin gate ──────────────────────────────────────────────
       // Charge 25 coins BEFORE running the pipeline. Cache hits above
-      // already returned for free. On any downstream failure we refund
-      // via refundIfNeeded() so users never pay for a broken generation.
+      // already returned for free, and so does the daily challenge, whose
+      // first player renders the scene for everyone. On any downstream
+      // failure we refund via refundIfNeeded() so users never pay for a
+      // broken generation.
       const roundRef = `${userId}:${wordSetHash}:${dayIndex}:${Date.now()}`;
       const SCENE_COIN_COST = 25;
       let coinsCharged = false;
-      {
+      if (!dailyChallengeDate) {
         const { data: spendResult, error: spendErr } = await sb.rpc('spend_scene_game_coins', {
           p_user_id: userId,
           p_round_ref: roundRef,
@@ -1237,7 +1514,47 @@ serve(async (req) => {
         coinsCharged = true;
         console.log(`[scene-generate] coin_gate charged user=${userId.substring(0, 8)} roundRef=${roundRef} new_balance=${spendResult.new_balance}`);
       }
+
+      // ─── Daily render claim ─────────────────────────────────────
+      // The daily scene is free and shared: one render per day at a time.
+      // The claim is a conditional update of the day's row, so two players
+      // cannot both win it; the winner's cached asset serves everyone after.
+      let dailyRenderClaimed = false;
+      if (dailyChallengeDate) {
+        const leaseCutoff = new Date(Date.now() - DAILY_SCENE_RENDER_LEASE_MS).toISOString();
+        const { data: claimed, error: claimErr } = await sb
+          .from('daily_challenges')
+          .update({ scene_render_claimed_at: new Date().toISOString() })
+          .eq('challenge_date', dailyChallengeDate)
+          .or(`scene_render_claimed_at.is.null,scene_render_claimed_at.lt.${leaseCutoff}`)
+          .select('challenge_date');
+        if (claimErr) {
+          send({ stage: 'error', failedStage: 'daily_claim', error: `daily render claim failed: ${claimErr.message}` });
+          return;
+        }
+        if (!claimed || claimed.length === 0) {
+          console.log(`[scene-generate] daily render busy date=${dailyChallengeDate} user=${userId.substring(0, 8)}`);
+          send({
+            stage: 'error',
+            failedStage: 'daily_claim',
+            code: 'daily_scene_rendering',
+            error: "Today's scene is being drawn for another player. Try again in a minute.",
+          });
+          return;
+        }
+        dailyRenderClaimed = true;
+      }
+
+      // Every failure path below calls this: refunds the coins, or frees
+      // the daily render claim so the next player can retry right away.
       const refundIfNeeded = async (stage: string): Promise<void> => {
+        if (dailyRenderClaimed) {
+          const { error } = await sb
+            .from('daily_challenges')
+            .update({ scene_render_claimed_at: null })
+            .eq('challenge_date', dailyChallengeDate);
+          if (error) console.error(`[scene-generate] daily claim release error (${stage}):`, error.message);
+        }
         if (!coinsCharged) return;
         try {
           const { error } = await sb.rpc('refund_scene_game_coins', {
@@ -1253,6 +1570,11 @@ serve(async (req) => {
       };
       // ─── End coin gate ──────────────────────────────────────────
 
+      if (storyMode) {
+        await runStoryPipeline({ send, refundIfNeeded, userId, words, dayIndex, language, wordSetHash });
+        return;
+      }
+
       // ① Scene director
       const designCfg = resolveDesignConfig();
       let designResult: { design: { structuredPrompt: string; elements: any[]; sceneConcept?: string; sceneTitle?: string } | null; diagnostics: any | null; failReason: string | null; httpStatus?: number; rawHead?: string } = { design: null, diagnostics: null, failReason: 'not-called' };
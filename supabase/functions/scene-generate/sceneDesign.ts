@@ -9,6 +9,8 @@
 //   - §4 scene-director LLM contract parsing + validation
 //   - zone-derived regions (buildFusionPrompt is only a fallback)
 //   - the scene-director system / user prompt builders
+//   - story chapters: the 3–4 panel storyboard contract, its regions and
+//     its deterministic fallback
 //
 // Keep it dependency-free. Anything that needs fetch/env lives in index.ts.
 // ================================================================
@@ -575,6 +577,93 @@ export const parseSceneDesign = (raw: unknown, words: SceneWordInput[]): SceneDe
   return parseSceneDesignWithDiagnostics(raw, words).design;
 };
 
+type DirectorJsonFlags = { think: boolean; fence: boolean; prose: boolean };
+
+/**
+ * Pull the director's JSON object out of its raw text: strip <think> blocks
+ * and a surrounding ``` fence, try clean JSON, then fall back to the first
+ * embedded {...} that passes `shapeProbe`. Shared by the single-scene and the
+ * story-chapter parsers so both accept the same LLM quirks.
+ */
+const extractDirectorJson = (
+  raw: unknown,
+  shapeProbe: (obj: any) => boolean,
+): {
+  parsed: any;
+  originalRaw: string;
+  flags: DirectorJsonFlags;
+  failReason: 'empty-input' | 'unparseable-json' | null;
+} => {
+  const flags: DirectorJsonFlags = { think: false, fence: false, prose: false };
+  if (typeof raw !== 'string') return { parsed: null, originalRaw: '', flags, failReason: 'empty-input' };
+  let text = raw.trim();
+  if (text.length === 0) return { parsed: null, originalRaw: raw, flags, failReason: 'empty-input' };
+
+  // Strip reasoning-model <think>...</think> blocks first.
+  const beforeThink = text;
+  text = stripReasoningBlocks(text);
+  flags.think = text !== beforeThink;
+
+  // Strip a single surrounding ``` … ``` fence (with or without a language tag).
+  const fence = text.match(/^```[a-zA-Z]*\s*([\s\S]*?)\s*```$/);
+  if (fence) {
+    text = fence[1].trim();
+    flags.fence = true;
+  }
+
+  // Try clean JSON first to detect "extracted from prose" precisely.
+  let parsed: any = null;
+  try {
+    const obj = JSON.parse(text);
+    if (obj && typeof obj === 'object' && shapeProbe(obj)) parsed = obj;
+  } catch {
+    /* fall through to slow path */
+  }
+  if (!parsed) {
+    parsed = parseJsonLenient(text, shapeProbe);
+    if (parsed) flags.prose = true;
+  }
+
+  return { parsed, originalRaw: raw, flags, failReason: parsed ? null : 'unparseable-json' };
+};
+
+/**
+ * Turn one raw director element into a SceneDesignElement, or null when it
+ * names no input word. `sentenceReason` is null when the cloze sentence
+ * survived validation and is otherwise why it was dropped.
+ */
+const buildDesignElement = (
+  rawEl: any,
+  words: SceneWordInput[],
+  validWordKeys: Set<string>,
+): { el: SceneDesignElement; sentenceReason: SentenceInvalidReason | null } | null => {
+  if (!rawEl || typeof rawEl !== 'object') return null;
+  const wordRaw = typeof rawEl.word === 'string' ? rawEl.word.trim() : '';
+  if (wordRaw.length === 0) return null;
+  const key = normalizeWordKey(wordRaw);
+  if (!validWordKeys.has(key)) return null; // drop hallucinated / off-list words
+
+  // Map back to the canonical input word text so downstream matching is exact.
+  const canonical = words.find((w) => normalizeWordKey(w.text) === key)!.text;
+  const zone = normalizeZone(rawEl.positionZone);
+  const el: SceneDesignElement = { word: canonical };
+  if (typeof rawEl.element === 'string' && rawEl.element.trim()) el.element = rawEl.element.trim();
+  if (typeof rawEl.presentation === 'string' && rawEl.presentation.trim()) el.presentation = rawEl.presentation.trim();
+  if (zone) el.positionZone = zone;
+  // Validate the cloze sentence; if it fails, leave the element sentence-less.
+  // We deliberately do NOT backfill a fallback template like "The word X is
+  // hidden in today's scene" — that sentence is meaningless to the learner,
+  // wastes TTS resources, and clutters the REVIEW screen. Instead, the client
+  // shows "Picture only — guess word #N." in PLAYING and just the word itself
+  // in REVIEW. Also scrub the [TODAYS_MASCOT] placeholder if the LLM leaked it.
+  const scrubbedSentence = typeof rawEl.sentence === 'string'
+    ? scrubMascotPlaceholder(rawEl.sentence)
+    : rawEl.sentence;
+  const sentenceReason = validateSentence(scrubbedSentence, canonical);
+  if (sentenceReason === null) el.sentence = (scrubbedSentence as string).trim();
+  return { el, sentenceReason };
+};
+
 const emptyDropReasons = (): SceneDesignDiagnostics['dropReasons'] => ({
   notString: 0,
   tooShort: 0,
@@ -642,49 +731,16 @@ export const parseSceneDesignWithDiagnostics = (
 ): { design: SceneDesign | null; diagnostics: SceneDesignDiagnostics } => {
   const inputWordCount = Array.isArray(words) ? words.length : 0;
 
-  if (typeof raw !== 'string') {
-    return failDiagnostics('empty-input', '', { think: false, fence: false, prose: false }, inputWordCount);
-  }
-  const originalRaw = raw;
-  let text = raw.trim();
-  if (text.length === 0) {
-    return failDiagnostics('empty-input', originalRaw, { think: false, fence: false, prose: false }, inputWordCount);
-  }
-
-  // Strip reasoning-model <think>...</think> blocks first.
-  const beforeThink = text;
-  text = stripReasoningBlocks(text);
-  const thinkStripped = text !== beforeThink;
-
-  // Strip a single surrounding ``` … ``` fence (with or without a language tag).
-  const fence = text.match(/^```[a-zA-Z]*\s*([\s\S]*?)\s*```$/);
-  let fenceStripped = false;
-  if (fence) {
-    text = fence[1].trim();
-    fenceStripped = true;
-  }
-
-  // Try clean JSON first to detect "extracted from prose" precisely.
-  let parsed: any = null;
-  let jsonFromProse = false;
-  try {
-    const obj = JSON.parse(text);
-    if (obj && typeof obj === 'object' && (typeof obj.structuredPrompt === 'string' || Array.isArray(obj.elements))) {
-      parsed = obj;
-    }
-  } catch {
-    /* fall through to slow path */
-  }
-  if (!parsed) {
-    parsed = parseJsonLenient(text, (obj) =>
-      typeof obj.structuredPrompt === 'string' || Array.isArray(obj.elements),
-    );
-    if (parsed) jsonFromProse = true;
-  }
-
-  if (!parsed) {
-    return failDiagnostics('unparseable-json', originalRaw, { think: thinkStripped, fence: fenceStripped, prose: jsonFromProse }, inputWordCount);
+  const extracted = extractDirectorJson(raw, (obj) =>
+    typeof obj.structuredPrompt === 'string' || Array.isArray(obj.elements),
+  );
+  if (extracted.failReason) {
+    return failDiagnostics(extracted.failReason, extracted.originalRaw, extracted.flags, inputWordCount);
   }
+  const { parsed, originalRaw } = extracted;
+  const thinkStripped = extracted.flags.think;
+  const fenceStripped = extracted.flags.fence;
+  const jsonFromProse = extracted.flags.prose;
 
   const structuredPrompt = typeof parsed.structuredPrompt === 'string' ? parsed.structuredPrompt.trim() : '';
   if (structuredPrompt.length === 0) {
@@ -703,40 +759,15 @@ export const parseSceneDesignWithDiagnostics = (
   let validSentences = 0;
 
   for (const rawEl of parsed.elements) {
-    if (!rawEl || typeof rawEl !== 'object') continue;
-    const wordRaw = typeof rawEl.word === 'string' ? rawEl.word.trim() : '';
-    if (wordRaw.length === 0) continue;
-    const key = normalizeWordKey(wordRaw);
-    if (!validWordKeys.has(key)) continue; // drop hallucinated / off-list words
-
-    // Map back to the canonical input word text so downstream matching is exact.
-    const canonical = words.find((w) => normalizeWordKey(w.text) === key)!.text;
-    const zone = normalizeZone(rawEl.positionZone);
-    const el: SceneDesignElement = { word: canonical };
-    if (typeof rawEl.element === 'string' && rawEl.element.trim()) el.element = rawEl.element.trim();
-    if (typeof rawEl.presentation === 'string' && rawEl.presentation.trim()) el.presentation = rawEl.presentation.trim();
-    if (zone) {
-      el.positionZone = zone;
-      zonesAssigned += 1;
-    }
-    // Validate the cloze sentence; if it fails, leave the element sentence-less.
-    // We deliberately do NOT backfill a fallback template like "The word X is
-    // hidden in today's scene" — that sentence is meaningless to the learner,
-    // wastes TTS resources, and clutters the REVIEW screen. Instead, the client
-    // shows "Picture only — guess word #N." in PLAYING and just the word itself
-    // in REVIEW. Also scrub the [TODAYS_MASCOT] placeholder if the LLM leaked it.
-    const scrubbedSentence = typeof rawEl.sentence === 'string'
-      ? scrubMascotPlaceholder(rawEl.sentence)
-      : rawEl.sentence;
-    const sentenceReason = validateSentence(scrubbedSentence, canonical);
+    const built = buildDesignElement(rawEl, words, validWordKeys);
+    if (!built) continue;
+    const { el, sentenceReason } = built;
+    if (el.positionZone) zonesAssigned += 1;
     if (sentenceReason === null) {
-      el.sentence = (scrubbedSentence as string).trim();
       validSentences += 1;
     } else {
       dropReasons[reasonKey[sentenceReason]] += 1;
-      missingSentenceFields.push(canonical);
-      // No backfill — element.sentence stays undefined. The client handles
-      // the "no sentence" case gracefully (picture-only clue).
+      missingSentenceFields.push(el.word);
     }
     elements.push(el);
   }
@@ -1125,3 +1156,278 @@ export const buildFusionResult = (
   const storyboard = ''; // no storyboard without real sentences
   return { prompt, storyboard, sentences };
 };
+
+// ----------------------------------------------------------------
+// Story chapters (multi-image story mode)
+//
+// Instead of one fused scene, the director writes a 3–4 panel storyboard:
+// each panel is its own image with its own share of the words, and the
+// panels' cloze sentences continue one narrative from panel to panel. Every
+// input word lives in exactly one panel. Board order for the round is panel
+// order, then element order within the panel.
+// ----------------------------------------------------------------
+export const STORY_MIN_PANELS = 3;
+export const STORY_MAX_PANELS = 4;
+
+/** How many panels the director is asked for: 4 once there are 8+ words. */
+export const storyPanelCount = (wordCount: number): number =>
+  wordCount >= 8 ? STORY_MAX_PANELS : STORY_MIN_PANELS;
+
+export interface StoryPanelDesign {
+  title?: string;
+  /** This panel's part of the story; dropped when it fails parseStoryboard for the panel's words. */
+  narration?: string;
+  structuredPrompt: string;
+  elements: SceneDesignElement[];
+}
+
+export interface StoryDesign {
+  storyTitle?: string;
+  panels: StoryPanelDesign[];
+}
+
+export interface StoryDesignDiagnostics {
+  parsedSuccessfully: boolean;
+  failReason?:
+    | 'empty-input'
+    | 'unparseable-json'
+    | 'panels-not-array'
+    | 'panel-count'
+    | 'panel-without-prompt'
+    | 'panel-without-words';
+  /** Panels the director returned (0 when the JSON never parsed). */
+  panelCount: number;
+  rawContentLength: number;
+  rawContentHead: string;
+  thinkBlockStripped: boolean;
+  fenceBlockStripped: boolean;
+  jsonExtractedFromProse: boolean;
+  inputWordCount: number;
+  validSentences: number;
+  /** Words that ended up without a cloze sentence. */
+  missingSentenceFields: string[];
+  /** Words the director left out of every panel, moved to the emptiest panel. */
+  reassignedWords: string[];
+  /** Panels whose narration was dropped for breaking the storyboard rules. */
+  droppedNarrations: number;
+}
+
+/**
+ * Parse + validate the story director's output. Returns a null design on
+ * any structural failure (wrong panel count, a panel with no prompt or no
+ * words) so the caller can fall back to buildStoryFallback. Per-word
+ * problems are repaired rather than fatal, exactly like parseSceneDesign:
+ * bad sentences are dropped, a word claimed by two panels stays in the
+ * first, and a word no panel claimed joins the panel with the fewest words.
+ */
+export const parseStoryDesignWithDiagnostics = (
+  raw: unknown,
+  words: SceneWordInput[],
+): { design: StoryDesign | null; diagnostics: StoryDesignDiagnostics } => {
+  const wordList = Array.isArray(words) ? words : [];
+  const extracted = extractDirectorJson(raw, (obj) => Array.isArray(obj.panels));
+  const diagnostics: StoryDesignDiagnostics = {
+    parsedSuccessfully: false,
+    panelCount: 0,
+    rawContentLength: extracted.originalRaw.trim().length,
+    rawContentHead: extracted.originalRaw.trim().slice(0, 200),
+    thinkBlockStripped: extracted.flags.think,
+    fenceBlockStripped: extracted.flags.fence,
+    jsonExtractedFromProse: extracted.flags.prose,
+    inputWordCount: wordList.length,
+    validSentences: 0,
+    missingSentenceFields: [],
+    reassignedWords: [],
+    droppedNarrations: 0,
+  };
+  const fail = (reason: NonNullable<StoryDesignDiagnostics['failReason']>) => ({
+    design: null,
+    diagnostics: { ...diagnostics, failReason: reason },
+  });
+
+  if (extracted.failReason) return fail(extracted.failReason);
+  const rawPanels = extracted.parsed.panels;
+  if (!Array.isArray(rawPanels)) return fail('panels-not-array');
+  const panelObjects = rawPanels.filter((p: unknown) => p && typeof p === 'object');
+  diagnostics.panelCount = panelObjects.length;
+  if (panelObjects.length < STORY_MIN_PANELS || panelObjects.length > STORY_MAX_PANELS) {
+    return fail('panel-count');
+  }
+
+  const validWordKeys = new Set(wordList.map((w) => normalizeWordKey(w.text)));
+  const claimed = new Set<string>();
+  const panels: StoryPanelDesign[] = [];
+
+  for (const rawPanel of panelObjects) {
+    const structuredPrompt = typeof rawPanel.structuredPrompt === 'string' ? rawPanel.structuredPrompt.trim() : '';
+    if (structuredPrompt.length === 0) return fail('panel-without-prompt');
+
+    const elements: SceneDesignElement[] = [];
+    for (const rawEl of Array.isArray(rawPanel.elements) ? rawPanel.elements : []) {
+      const built = buildDesignElement(rawEl, wordList, validWordKeys);
+      if (!built) continue;
+      const key = normalizeWordKey(built.el.word);
+      if (claimed.has(key)) continue; // first panel wins
+      claimed.add(key);
+      if (built.sentenceReason === null) diagnostics.validSentences += 1;
+      else diagnostics.missingSentenceFields.push(built.el.word);
+      elements.push(built.el);
+    }
+
+    const panel: StoryPanelDesign = { structuredPrompt, elements };
+    if (typeof rawPanel.title === 'string' && rawPanel.title.trim()) panel.title = rawPanel.title.trim();
+    if (typeof rawPanel.narration === 'string' && rawPanel.narration.trim()) {
+      panel.narration = scrubMascotPlaceholder(rawPanel.narration);
+    }
+    panels.push(panel);
+  }
+
+  for (const w of wordList) {
+    if (claimed.has(normalizeWordKey(w.text))) continue;
+    const emptiest = panels.reduce((best, p) => (p.elements.length < best.elements.length ? p : best), panels[0]);
+    emptiest.elements.push({ word: w.text });
+    diagnostics.reassignedWords.push(w.text);
+    diagnostics.missingSentenceFields.push(w.text);
+  }
+  if (panels.some((p) => p.elements.length === 0)) return fail('panel-without-words');
+
+  // Narration is checked after reassignment so it is judged against the
+  // panel's final words; an invalid one is dropped, never fatal.
+  for (const panel of panels) {
+    if (!panel.narration) continue;
+    const panelWords = panel.elements.map((e) => ({ text: e.word }));
+    if (parseStoryboard(panel.narration, panelWords).violation !== null) {
+      delete panel.narration;
+      diagnostics.droppedNarrations += 1;
+    }
+  }
+
+  const design: StoryDesign = { panels };
+  const storyTitle = extracted.parsed.storyTitle;
+  if (typeof storyTitle === 'string' && storyTitle.trim()) design.storyTitle = storyTitle.trim();
+  diagnostics.parsedSuccessfully = true;
+  return { design, diagnostics };
+};
+
+/** Input words of each panel, in the panel's element order. */
+export const storyPanelWords = (design: StoryDesign, words: SceneWordInput[]): SceneWordInput[][] => {
+  const byKey = new Map(words.map((w) => [normalizeWordKey(w.text), w]));
+  return design.panels.map((panel) =>
+    panel.elements
+      .map((el) => byKey.get(normalizeWordKey(el.word)))
+      .filter((w): w is SceneWordInput => Boolean(w)),
+  );
+};
+
+export interface StoryRegion extends DerivedRegion {
+  /** Index of the panel whose image the region belongs to. */
+  panel: number;
+}
+
+/**
+ * One region per input word in board order (panel by panel), each placed on
+ * its own panel's image via deriveRegionsFromElements.
+ */
+export const deriveStoryRegions = (design: StoryDesign, words: SceneWordInput[]): StoryRegion[] => {
+  const perPanel = storyPanelWords(design, words);
+  return design.panels.flatMap((panel, index) =>
+    deriveRegionsFromElements(panel, perPanel[index]).map((region) => ({ ...region, panel: index })),
+  );
+};
+
+/** Storyboard text for the PREPARING preview: the panels' narrations, one paragraph each. */
+export const joinStoryNarration = (design: StoryDesign): string =>
+  design.panels.map((p) => p.narration || '').filter(Boolean).join('\n\n');
+
+export const buildStoryDirectorSystemPrompt = (): string => {
+  const zoneList = ZONE_KEYS.join(', ');
+  return [
+    'You are an art director AND a vocabulary teacher for a picture-story game.',
+    'Language learners read a short story told in 3–4 comic panels. Each panel is',
+    'ONE isometric-perspective cartoon image, and for each target word shown in',
+    'that panel they fill in ONE blank sentence you write.',
+    '',
+    'STORY RULES',
+    ' • Write ONE continuous story with a beginning, middle and end, told in',
+    '   exactly `panelCount` panels. The same characters and the same monster',
+    '   appear in every panel, and each panel follows on from the one before.',
+    ' • Put EVERY input word in EXACTLY ONE panel; spread the words evenly and',
+    '   give every panel at least one word.',
+    ' • For each word, write ONE cloze sentence: 6–12 words, CEFR A1–A2',
+    '   vocabulary except the target word, simple Subject-Verb-Object order, the',
+    '   word verbatim, describing something VISIBLE in that panel. Read in board',
+    '   order, the sentences must tell the story — no definitions, no "The word is X".',
+    ' • narration: 1–2 sentences per panel made from that panel\'s cloze sentences.',
+    ' • Refer to the monster as "monster" in narration and sentences. NEVER write',
+    '   "mascot", "creature" or "beast" there, and NEVER write [TODAYS_MASCOT] there.',
+    '',
+    'IMAGE RULES',
+    ' • structuredPrompt: one text-to-image prompt per panel. Isometric-perspective',
+    '   cartoon, HD, vibrant saturated colors, 1:1 square, ONE scene per image —',
+    '   never a grid or comic strip inside the image.',
+    ' • Insert the literal token [TODAYS_MASCOT] EXACTLY ONE time in every panel\'s',
+    '   structuredPrompt; do NOT describe the monster\'s colors or shape.',
+    ' • Repeat enough of the setting and characters in every prompt that the',
+    '   panels look like the same story.',
+    ' • No captions, speech bubbles, UI labels or watermarks. Every animal has',
+    '   species-correct anatomy — no extra limbs or duplicated features.',
+    '',
+    'OUTPUT — ONE JSON object (no markdown fences, no prose before/after)',
+    '{',
+    '  "storyTitle": string,',
+    '  "panels": [',
+    '    {',
+    '      "title": string,             // ≤ 6 words',
+    '      "narration": string,',
+    '      "structuredPrompt": string,  // contains EXACTLY ONE [TODAYS_MASCOT] token',
+    '      "elements": [',
+    '        {',
+    '          "word": string,          // MUST match an input word exactly',
+    '          "sentence": string,      // REQUIRED',
+    '          "element": string,',
+    '          "presentation": string,',
+    `          "positionZone": string   // ONE of: ${zoneList}`,
+    '        }',
+    '      ]',
+    '    }',
+    '    // …exactly panelCount panels, in story order',
+    '  ]',
+    '}',
+  ].join('\n');
+};
+
+export interface StoryDirectorUserPayload extends SceneDirectorUserPayload {
+  panelCount: number;
+}
+
+export const buildStoryDirectorUserPayload = (
+  words: SceneWordInput[],
+  dayIndex: number,
+  monsterProse: string,
+): StoryDirectorUserPayload => ({
+  ...buildSceneDirectorUserPayload(words, dayIndex, monsterProse),
+  panelCount: storyPanelCount(Array.isArray(words) ? words.length : 0),
+});
+
+/**
+ * Deterministic story used when the director fails: the words in input order
+ * split into storyPanelCount(N) near-equal panels, each with the fallback
+ * image prompt for its words and, as on the single-scene fallback path, no
+ * cloze sentences or narration.
+ */
+export const buildStoryFallback = (words: SceneWordInput[], dayIndex: number): StoryDesign => {
+  const safeWords = Array.isArray(words) ? words : [];
+  const panelCount = storyPanelCount(safeWords.length);
+  const panels: StoryPanelDesign[] = [];
+  let start = 0;
+  for (let i = 0; i < panelCount; i++) {
+    const size = Math.floor(safeWords.length / panelCount) + (i < safeWords.length % panelCount ? 1 : 0);
+    const chunk = safeWords.slice(start, start + size);
+    start += size;
+    panels.push({
+      structuredPrompt: `Panel ${i + 1} of ${panelCount} of one continuing picture story. ${buildFallbackImagePrompt(chunk, dayIndex)}`,
+      elements: chunk.map((w) => ({ word: String(w.text || '').trim() })),
+    });
+  }
+  return { panels };
+};
@@ -0,0 +1,215 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3.6.7';
+import {
+  buildTestMessage,
+  normalizeReminderPreferences,
+  planReminder,
+  ReminderMessage,
+} from './reminderRules.ts';
+
+/**
+ * Edge Function: Send Review Reminders (Web Push)
+ *
+ * Two callers:
+ * 1. A scheduler (cron every 30 minutes) with the service role key: checks
+ *    every user with reminders enabled and pushes at most one reminder each
+ *    (streak about to break, or words due), per reminderRules.ts.
+ * 2. A signed-in user with { "action": "test" }: pushes a test notification
+ *    to their own subscriptions (Account panel → Reminders).
+ *
+ * VAPID: generate a key pair locally (`npx web-push generate-vapid-keys`),
+ * set VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY / VAPID_SUBJECT for this
+ * function (supabase/functions/.env when serving locally, `supabase
+ * secrets set` when deployed) and the same public key as
+ * VITE_VAPID_PUBLIC_KEY for the client.
+ *
+ * Subscriptions the push service reports as gone (404 / 410) are deleted.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const vapidPublicKey = Deno.env.get('VAPID_PUBLIC_KEY') || '';
+const vapidPrivateKey = Deno.env.get('VAPID_PRIVATE_KEY') || '';
+const vapidSubject = Deno.env.get('VAPID_SUBJECT') || 'mailto:reminders@localhost';
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface SubscriptionRow {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+/**
+ * Push one message to every subscription of a user.
+ * Returns how many deliveries succeeded and how many dead endpoints were removed.
+ */
+const pushToSubscriptions = async (subscriptions: SubscriptionRow[], message: ReminderMessage) => {
+  let sent = 0;
+  const gone: string[] = [];
+
+  await Promise.all(subscriptions.map(async (sub) => {
+    try {
+      await webpush.sendNotification(
+        { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+        JSON.stringify(message),
+        { TTL: 60 * 60, topic: message.tag },
+      );
+      sent++;
+    } catch (error: any) {
+      if (error?.statusCode === 404 || error?.statusCode === 410) {
+        gone.push(sub.id);
+      } else {
+        console.error('[send-reminders] push failed:', sub.endpoint.slice(0, 60), error?.statusCode, error?.body || error?.message);
+      }
+    }
+  }));
+
+  const now = new Date().toISOString();
+  if (sent > 0) {
+    await supabase
+      .from('push_subscriptions')
+      .update({ last_sent_at: now })
+      .in('id', subscriptions.filter((s) => !gone.includes(s.id)).map((s) => s.id));
+  }
+  if (gone.length > 0) {
+    await supabase.from('push_subscriptions').delete().in('id', gone);
+  }
+  return { sent, removed: gone.length };
+};
+
+const fetchSubscriptions = async (userIds: string[]): Promise<SubscriptionRow[]> => {
+  if (userIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('push_subscriptions')
+    .select('id, user_id, endpoint, p256dh, auth')
+    .in('user_id', userIds);
+  if (error) throw new Error(`Failed loading subscriptions: ${error.message}`);
+  return (data || []) as SubscriptionRow[];
+};
+
+/** Scheduled run: one planned reminder per enabled user */
+const runScheduled = async () => {
+  const now = new Date();
+  const { data: prefRows, error } = await supabase
+    .from('reminder_preferences')
+    .select('*')
+    .eq('enabled', true);
+  if (error) throw new Error(`Failed loading reminder preferences: ${error.message}`);
+
+  const rows = prefRows || [];
+  const subscriptions = await fetchSubscriptions(rows.map((row: any) => row.user_id));
+  const subsByUser = new Map<string, SubscriptionRow[]>();
+  subscriptions.forEach((sub) => subsByUser.set(sub.user_id, [...(subsByUser.get(sub.user_id) || []), sub]));
+
+  let usersChecked = 0;
+  let sent = 0;
+  let removed = 0;
+
+  for (const row of rows as any[]) {
+    const userSubs = subsByUser.get(row.user_id) || [];
+    if (userSubs.length === 0) continue;
+    usersChecked++;
+
+    const { data: status, error: statusError } = await supabase.rpc('get_reminder_status', { p_user_id: row.user_id });
+    if (statusError || !status) {
+      console.error('[send-reminders] status failed for', row.user_id, statusError?.message);
+      continue;
+    }
+
+    const message = planReminder(
+      normalizeReminderPreferences(row),
+      {
+        dueCount: Number(status.due_count) || 0,
+        currentStreak: Number(status.current_streak) || 0,
+        checkedInToday: status.checked_in_today === true,
+      },
+      {
+        lastDueReminderAt: row.last_due_reminder_at ?? null,
+        lastStreakReminderOn: row.last_streak_reminder_on ?? null,
+      },
+      now,
+    );
+    if (!message) continue;
+
+    const result = await pushToSubscriptions(userSubs, message);
+    sent += result.sent;
+    removed += result.removed;
+    if (result.sent === 0) continue;
+
+    const patch = message.kind === 'streak'
+      ? { last_streak_reminder_on: message.streakDay }
+      : { last_due_reminder_at: now.toISOString() };
+    await supabase.from('reminder_preferences').update(patch).eq('user_id', row.user_id);
+  }
+
+  return { users_checked: usersChecked, sent, removed };
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    return jsonResponse({ success: false, error: 'Missing Supabase service env vars' }, 500);
+  }
+  if (!vapidPublicKey || !vapidPrivateKey) {
+    return jsonResponse({ success: false, error: 'Missing VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY' }, 500);
+  }
+  webpush.setVapidDetails(vapidSubject, vapidPublicKey, vapidPrivateKey);
+
+  try {
+    const authHeader = req.headers.get('Authorization') || req.headers.get('authorization') || '';
+    const token = authHeader.replace(/^Bearer\s+/i, '').trim();
+    if (!token) {
+      return jsonResponse({ success: false, error: 'Missing bearer token' }, 401);
+    }
+
+    if (token === serviceRoleKey) {
+      const result = await runScheduled();
+      return jsonResponse({ success: true, ...result, timestamp: new Date().toISOString() });
+    }
+
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !userData?.user) {
+      return jsonResponse({ success: false, error: 'Invalid auth token' }, 401);
+    }
+
+    const payload = await req.json().catch(() => ({}));
+    if (payload?.action !== 'test') {
+      return jsonResponse({ success: false, error: `Unsupported action: ${payload?.action}` }, 400);
+    }
+
+    const subscriptions = await fetchSubscriptions([userData.user.id]);
+    if (subscriptions.length === 0) {
+      return jsonResponse({ success: false, error: 'No push subscription for this user' }, 404);
+    }
+    const result = await pushToSubscriptions(subscriptions, buildTestMessage());
+    return jsonResponse({ success: result.sent > 0, ...result });
+  } catch (error) {
+    console.error('[send-reminders] error:', error);
+    return jsonResponse({ success: false, error: (error as Error).message || 'An unexpected error occurred' }, 500);
+  }
+});
@@ -0,0 +1,227 @@
+// ================================================================
+// reminderRules.ts — pure rules for Web Push review reminders.
+//
+// ZERO imports (no Deno / Node / network APIs), so it runs identically
+// under the Deno edge function (supabase/functions/send-reminders), under
+// `node --test`, and in the client (services/pushNotifications.ts reads
+// the preference shape and defaults from here). It decides:
+//   - whether "now" falls inside the learner's quiet hours
+//   - whether the login streak is about to break (check-in days roll over
+//     on Asia/Shanghai midnight, as in claim_daily_login_reward)
+//   - whether enough time has passed for another due-words reminder
+//   - the notification payload public/sw.js displays
+//
+// Keep it dependency-free. Anything that needs fetch/env lives in index.ts.
+// ================================================================
+
+export type ReminderFrequency = 'daily' | 'twice_daily' | 'every_4_hours';
+
+export const REMINDER_FREQUENCIES: ReminderFrequency[] = ['daily', 'twice_daily', 'every_4_hours'];
+
+/** Minimum gap between two due-words reminders */
+export const REMINDER_INTERVAL_HOURS: Record<ReminderFrequency, number> = {
+  daily: 20,
+  twice_daily: 8,
+  every_4_hours: 4,
+};
+
+export interface ReminderPreferences {
+  enabled: boolean;
+  frequency: ReminderFrequency;
+  /** Minutes after local midnight; start === end means no quiet hours */
+  quietStartMinutes: number;
+  quietEndMinutes: number;
+  /** IANA zone the quiet hours are read in */
+  timeZone: string;
+}
+
+export const DEFAULT_REMINDER_PREFERENCES: ReminderPreferences = {
+  enabled: false,
+  frequency: 'daily',
+  quietStartMinutes: 22 * 60,
+  quietEndMinutes: 8 * 60,
+  timeZone: 'Asia/Shanghai',
+};
+
+/** Check-in days roll over at midnight in this zone (claim_daily_login_reward) */
+export const STREAK_TIME_ZONE = 'Asia/Shanghai';
+
+/** Streak reminders start this many minutes before the check-in day ends */
+export const STREAK_WARNING_MINUTES = 4 * 60;
+
+/** get_reminder_status output */
+export interface ReminderStatus {
+  dueCount: number;
+  /** Consecutive check-in days ending today, or yesterday when not checked in yet */
+  currentStreak: number;
+  checkedInToday: boolean;
+}
+
+/** What was last sent (reminder_preferences.last_*) */
+export interface ReminderHistory {
+  lastDueReminderAt: string | null;
+  /** Check-in day (YYYY-MM-DD in STREAK_TIME_ZONE) of the last streak reminder */
+  lastStreakReminderOn: string | null;
+}
+
+export type ReminderKind = 'streak' | 'due' | 'test';
+
+/** JSON payload pushed to public/sw.js */
+export interface ReminderMessage {
+  kind: ReminderKind;
+  title: string;
+  body: string;
+  /** Same tag replaces an older notification instead of stacking */
+  tag: string;
+  url: string;
+  /** Set for 'streak': the check-in day it warns about */
+  streakDay?: string;
+}
+
+// ----------------------------------------------------------------
+// Clock helpers
+// ----------------------------------------------------------------
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const clampMinutes = (value: unknown, fallback: number): number => {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(MINUTES_PER_DAY - 1, Math.max(0, Math.round(n)));
+};
+
+/**
+ * Wall-clock date (YYYY-MM-DD) and minutes after midnight in `timeZone`.
+ * Unknown zones fall back to UTC.
+ */
+export const getZonedClock = (now: Date, timeZone: string): { date: string; minutes: number } => {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch {
+    return getZonedClock(now, 'UTC');
+  }
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '00';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    minutes: (Number(get('hour')) % 24) * 60 + Number(get('minute')),
+  };
+};
+
+/** Quiet hours may wrap midnight (22:00 → 08:00) */
+export const isInQuietHours = (minutes: number, startMinutes: number, endMinutes: number): boolean => {
+  if (startMinutes === endMinutes) return false;
+  if (startMinutes < endMinutes) return minutes >= startMinutes && minutes < endMinutes;
+  return minutes >= startMinutes || minutes < endMinutes;
+};
+
+/** "HH:MM" ↔ minutes, for <input type="time"> */
+export const minutesToTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const timeToMinutes = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value || '').trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+// ----------------------------------------------------------------
+// Preferences
+// ----------------------------------------------------------------
+
+/** reminder_preferences row → preferences (defaults for missing / bad fields) */
+export const normalizeReminderPreferences = (row: any): ReminderPreferences => {
+  const defaults = DEFAULT_REMINDER_PREFERENCES;
+  if (!row || typeof row !== 'object') return { ...defaults };
+  return {
+    enabled: row.enabled === true,
+    frequency: REMINDER_FREQUENCIES.includes(row.frequency) ? row.frequency : defaults.frequency,
+    quietStartMinutes: clampMinutes(row.quiet_start_minutes, defaults.quietStartMinutes),
+    quietEndMinutes: clampMinutes(row.quiet_end_minutes, defaults.quietEndMinutes),
+    timeZone: typeof row.time_zone === 'string' && row.time_zone.trim() ? row.time_zone.trim() : defaults.timeZone,
+  };
+};
+
+/** Preferences → reminder_preferences columns the client may write */
+export const reminderPreferencesToRow = (prefs: ReminderPreferences) => ({
+  enabled: prefs.enabled,
+  frequency: prefs.frequency,
+  quiet_start_minutes: clampMinutes(prefs.quietStartMinutes, DEFAULT_REMINDER_PREFERENCES.quietStartMinutes),
+  quiet_end_minutes: clampMinutes(prefs.quietEndMinutes, DEFAULT_REMINDER_PREFERENCES.quietEndMinutes),
+  time_zone: prefs.timeZone,
+});
+
+// ----------------------------------------------------------------
+// Planning
+// ----------------------------------------------------------------
+
+export const buildStreakMessage = (streak: number, streakDay: string): ReminderMessage => ({
+  kind: 'streak',
+  title: `🔥 ${streak}-day streak ends tonight`,
+  body: `Open Vocab Monster before midnight to keep it. 连续签到 ${streak} 天，午夜前打开应用即可保持。`,
+  tag: 'vibe-streak',
+  url: '/',
+  streakDay,
+});
+
+export const buildDueMessage = (dueCount: number): ReminderMessage => ({
+  kind: 'due',
+  title: `📚 ${dueCount} word${dueCount === 1 ? '' : 's'} due for review`,
+  body: `A quick review now keeps them fresh. ${dueCount} 个单词待复习。`,
+  tag: 'vibe-due',
+  url: '/',
+});
+
+export const buildTestMessage = (): ReminderMessage => ({
+  kind: 'test',
+  title: '🔔 Reminders are on',
+  body: 'This is how review reminders will look. 复习提醒已开启。',
+  tag: 'vibe-test',
+  url: '/',
+});
+
+/**
+ * The reminder to send now, or null. Quiet hours silence everything; a
+ * streak about to break wins over due words and is sent once per check-in
+ * day; due-word reminders respect the chosen frequency.
+ */
+export const planReminder = (
+  prefs: ReminderPreferences,
+  status: ReminderStatus,
+  history: ReminderHistory,
+  now: Date,
+): ReminderMessage | null => {
+  if (!prefs.enabled) return null;
+
+  const local = getZonedClock(now, prefs.timeZone);
+  if (isInQuietHours(local.minutes, prefs.quietStartMinutes, prefs.quietEndMinutes)) return null;
+
+  const streakClock = getZonedClock(now, STREAK_TIME_ZONE);
+  const streakAtRisk = status.currentStreak > 0
+    && !status.checkedInToday
+    && MINUTES_PER_DAY - streakClock.minutes <= STREAK_WARNING_MINUTES;
+  if (streakAtRisk && history.lastStreakReminderOn !== streakClock.date) {
+    return buildStreakMessage(status.currentStreak, streakClock.date);
+  }
+
+  if (status.dueCount > 0) {
+    const lastSent = history.lastDueReminderAt ? Date.parse(history.lastDueReminderAt) : NaN;
+    const intervalMs = REMINDER_INTERVAL_HOURS[prefs.frequency] * 60 * 60 * 1000;
+    if (!Number.isFinite(lastSent) || now.getTime() - lastSent >= intervalMs) {
+      return buildDueMessage(status.dueCount);
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,107 @@
+// ================================================================
+// dailyChallenge.ts — rules of the shared daily scene challenge.
+//
+// Everyone plays the same scene words on a given (Shanghai) day. The words
+// come from a library pack, not from anyone's own list, so a daily round
+// uses synthetic word ids `daily:<date>:<index>` in its ticket and log
+// instead of rows in `words`. verify-round picks them (`daily` action) from
+// the configured pack with a seed derived from the date and stores them in
+// daily_challenges; clients only read that row.
+//
+// No Deno / Node / network APIs (only seededPick.ts), same as
+// roundScoring.ts; the client (utils/dailyChallenge.ts) uses the same rules.
+// ================================================================
+
+import { seededPick } from './seededPick.ts';
+
+export const DAILY_CHALLENGE_WORD_COUNT = 6;
+/** Library pack (manifest id) the words come from unless DAILY_CHALLENGE_PACK_ID is set */
+export const DAILY_CHALLENGE_PACK_ID = 'primary';
+
+const CHALLENGE_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const SHANGHAI_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+export const isChallengeDate = (value: unknown): value is string =>
+  typeof value === 'string' && CHALLENGE_DATE_RE.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+
+/** YYYY-MM-DD in Asia/Shanghai (UTC+8, no DST), the day a challenge belongs to */
+export const shanghaiDateOf = (nowMs: number = Date.now()): string =>
+  new Date(nowMs + SHANGHAI_OFFSET_MS).toISOString().slice(0, 10);
+
+/** The scene mascot for the challenge's weekday, 0 = Sunday */
+export const challengeDayIndex = (date: string): number =>
+  new Date(`${date}T00:00:00Z`).getUTCDay();
+
+/** Word ids of a daily round, in board order */
+export const dailyChallengeWordIds = (date: string, count: number = DAILY_CHALLENGE_WORD_COUNT): string[] =>
+  Array.from({ length: count }, (_, i) => `daily:${date}:${i}`);
+
+// ----------------------------------------------------------------
+// The day's words
+// ----------------------------------------------------------------
+
+/** One entry of a pack's word file */
+export interface DailyChallengePackWord {
+  text: string;
+  meaning: string | null;
+}
+
+/** A stored challenge word: what daily_challenges.words holds, in board order */
+export interface DailyChallengeWord {
+  text: string;
+  definitionCn: string;
+}
+
+// Scene answers are typed as one token; very short words make poor pictures
+const CHALLENGE_WORD_RE = /^[a-z]{3,}$/i;
+
+/**
+ * Words of a built-in pack file (.json array of strings or { text, meaning },
+ * or a word per line with an optional tab- or comma-separated meaning).
+ * Only the word and its meaning matter here; utils/libraryManifest.ts is
+ * the full reader.
+ */
+export const parseDailyChallengePackFile = (path: string, text: string): DailyChallengePackWord[] => {
+  if (path.toLowerCase().endsWith('.json')) {
+    const raw = JSON.parse(text);
+    if (!Array.isArray(raw)) return [];
+    return raw.map((item: any) => (typeof item === 'string' ? { text: item, meaning: null } : {
+      text: typeof item?.text === 'string' ? item.text : '',
+      meaning: typeof item?.meaning === 'string' && item.meaning.trim() ? item.meaning.trim() : null,
+    }));
+  }
+  return text.replace(/^\uFEFF/, '').split(/\r?\n/).map((line) => {
+    const [word, meaning] = line.split(line.includes('\t') ? '\t' : ',');
+    return { text: word ?? '', meaning: meaning?.trim().replace(/^"|"$/g, '') || null };
+  });
+};
+
+/** FNV-1a over pack and date: a stable 32-bit seed per pack per day */
+export const dailyChallengeSeed = (date: string, packId: string): number => {
+  let hash = 0x811c9dc5;
+  for (const ch of `${packId}:${date}`) {
+    hash ^= ch.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+/**
+ * The day's words in board order. Same pack words + same date → same
+ * words, whatever order the pack file lists them in.
+ */
+export const selectDailyChallengeWords = (
+  packWords: DailyChallengePackWord[],
+  date: string,
+  packId: string,
+  count: number = DAILY_CHALLENGE_WORD_COUNT,
+): DailyChallengeWord[] => {
+  const candidates = new Map<string, DailyChallengePackWord>();
+  for (const word of packWords) {
+    const key = word.text.trim().toLowerCase();
+    if (CHALLENGE_WORD_RE.test(key) && !candidates.has(key)) candidates.set(key, word);
+  }
+
+  return seededPick([...candidates.keys()].map((id) => ({ id })), dailyChallengeSeed(date, packId), count)
+    .map(({ id }) => ({ text: id, definitionCn: candidates.get(id)?.meaning ?? '' }));
+};
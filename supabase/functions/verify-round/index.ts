@@ -0,0 +1,600 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  canonicalRoundTicket,
+  findRoundLogProblems,
+  RoundLog,
+  RoundScore,
+  RoundTicket,
+  replaySprintCards,
+  scoreRound,
+  scoreSprintRound,
+  VerifiedRoundMode,
+  wordLetterCount,
+} from './roundScoring.ts';
+import { findRoundFlags, REPEATED_WORD_SET_WINDOW_DAYS, RoundFlag, wordSetHash } from './roundFlags.ts';
+import {
+  DAILY_CHALLENGE_PACK_ID,
+  DAILY_CHALLENGE_WORD_COUNT,
+  dailyChallengeWordIds,
+  isChallengeDate,
+  parseDailyChallengePackFile,
+  selectDailyChallengeWords,
+  shanghaiDateOf,
+} from './dailyChallenge.ts';
+
+/**
+ * Edge Function: Verify Game Rounds (puzzle + scene + recall + sprint)
+ *
+ * The only way a puzzle, scene, recall or sprint round reaches the
+ * rankings.
+ * 1. { "action": "start", mode, wordIds } when a round begins: checks the
+ *    words belong to the caller and returns a ticket (round id, word set,
+ *    server start time) signed with HMAC-SHA256.
+ * 2. { "action": "submit", ticket, signature, log, meta } when it ends:
+ *    checks the signature and the log's plausibility (roundScoring.ts),
+ *    recomputes the score from the log and records it through the
+ *    service-role-only record_verified_* RPCs. Implausible logs get a 422
+ *    with the reasons and nothing is written. Suspicious but possible logs
+ *    are recorded with their roundFlags.ts flags and wait in the admin
+ *    moderation queue.
+ *
+ * Submitting the same ticket twice returns the round already recorded, so
+ * offline replays are safe.
+ *
+ * Daily challenge: { "action": "daily" } returns today's (Shanghai time)
+ * daily_challenges row; the first call of the day picks the words from the
+ * configured library pack (dailyChallenge.ts) and stores them, so no client
+ * chooses them. A start with `challengeDate` (today) is checked against
+ * that row instead of the caller's words, and claims the caller's one
+ * daily_challenge_attempts row; a second start that day gets a 409. Its
+ * submission scores and flags that row (moderated like any other round)
+ * and leaves the regular scene ranking alone.
+ *
+ * Puzzle duel: a start with `duelId` is checked against the duel's cards
+ * and claims the caller's side of that duel (one ticket per side). Its
+ * submission records the side through record_puzzle_duel_result, which
+ * decides the duel once both sides are in; duels never reach the puzzle
+ * ranking.
+ *
+ * Secret: ROUND_SIGNING_SECRET (`supabase secrets set`), any long random
+ * string. Rotating it invalidates tickets of rounds still in progress.
+ * LIBRARY_BASE_URL: origin the app's /dictionaries are served from (e.g.
+ * https://vibe-word.example.com). DAILY_CHALLENGE_PACK_ID (optional)
+ * overrides the daily pack; a change takes effect from the next day.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const signingSecret = Deno.env.get('ROUND_SIGNING_SECRET') || '';
+const libraryBaseUrl = (Deno.env.get('LIBRARY_BASE_URL') || '').replace(/\/+$/, '');
+const dailyChallengePackId = Deno.env.get('DAILY_CHALLENGE_PACK_ID') || DAILY_CHALLENGE_PACK_ID;
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const MODES: VerifiedRoundMode[] = ['PUZZLE', 'SCENE', 'RECALL', 'SPRINT'];
+const SELECTION_MODES = ['smart', 'random'];
+const MAX_ROUND_WORDS = 20;
+const LIBRARY_MANIFEST_PATH = '/dictionaries/manifest.json';
+
+let signingKey: Promise<CryptoKey> | null = null;
+const getSigningKey = () => {
+  if (!signingKey) {
+    signingKey = crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(signingSecret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+  }
+  return signingKey;
+};
+
+const signTicket = async (ticket: RoundTicket): Promise<string> => {
+  const sig = await crypto.subtle.sign('HMAC', await getSigningKey(), new TextEncoder().encode(canonicalRoundTicket(ticket)));
+  return Array.from(new Uint8Array(sig)).map((b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Constant-time compare so the signature can't be guessed byte by byte
+const sameSignature = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+const startRound = async (userId: string, payload: any) => {
+  const mode = payload?.mode as VerifiedRoundMode;
+  const wordIds: string[] = Array.isArray(payload?.wordIds) ? payload.wordIds.map(String) : [];
+  if (!MODES.includes(mode)) {
+    return jsonResponse({ success: false, error: `Unsupported mode: ${payload?.mode}` }, 400);
+  }
+  if (wordIds.length === 0 || wordIds.length > MAX_ROUND_WORDS || new Set(wordIds).size !== wordIds.length) {
+    return jsonResponse({ success: false, error: 'Invalid word set' }, 400);
+  }
+
+  if (payload?.challengeDate !== undefined) {
+    return await startDailyChallengeRound(userId, mode, wordIds, payload.challengeDate);
+  }
+  if (payload?.duelId !== undefined) {
+    return await startDuelRound(userId, mode, wordIds, payload.duelId);
+  }
+
+  const { data: owned, error } = await supabase
+    .from('words')
+    .select('id')
+    .eq('user_id', userId)
+    .in('id', wordIds);
+  if (error) throw new Error(`Failed loading words: ${error.message}`);
+  if ((owned || []).length !== wordIds.length) {
+    return jsonResponse({ success: false, error: 'Word set does not belong to this user' }, 403);
+  }
+
+  const ticket: RoundTicket = {
+    roundId: crypto.randomUUID(),
+    userId,
+    mode,
+    wordIds,
+    issuedAt: Date.now(),
+  };
+  return jsonResponse({ success: true, ticket, signature: await signTicket(ticket) });
+};
+
+/** Ticket for the day's shared challenge; claims the caller's single ranked attempt */
+const startDailyChallengeRound = async (userId: string, mode: VerifiedRoundMode, wordIds: string[], challengeDate: unknown) => {
+  if (mode !== 'SCENE' || !isChallengeDate(challengeDate)) {
+    return jsonResponse({ success: false, error: 'Invalid daily challenge' }, 400);
+  }
+  if (challengeDate !== shanghaiDateOf()) {
+    return jsonResponse({ success: false, error: 'Daily challenge is not open' }, 400);
+  }
+
+  const { data: challenge, error } = await supabase
+    .from('daily_challenges')
+    .select('words')
+    .eq('challenge_date', challengeDate)
+    .maybeSingle();
+  if (error) throw new Error(`Failed loading daily challenge: ${error.message}`);
+  const expected = dailyChallengeWordIds(challengeDate, Array.isArray(challenge?.words) ? challenge.words.length : 0);
+  if (!challenge || expected.length !== wordIds.length || !expected.every((id) => wordIds.includes(id))) {
+    return jsonResponse({ success: false, error: 'Word set is not today\'s daily challenge' }, 403);
+  }
+
+  const ticket: RoundTicket = {
+    roundId: crypto.randomUUID(),
+    userId,
+    mode,
+    wordIds,
+    issuedAt: Date.now(),
+    challengeDate,
+  };
+  const { error: claimError } = await supabase
+    .from('daily_challenge_attempts')
+    .insert({ user_id: userId, challenge_date: challengeDate, round_nonce: ticket.roundId });
+  if (claimError?.code === '23505') {
+    return jsonResponse({ success: false, error: 'Daily challenge already attempted' }, 409);
+  }
+  if (claimError) throw new Error(`Failed claiming daily attempt: ${claimError.message}`);
+
+  return jsonResponse({ success: true, ticket, signature: await signTicket(ticket) });
+};
+
+/** Ticket for one side of a running duel; each side gets exactly one */
+const startDuelRound = async (userId: string, mode: VerifiedRoundMode, wordIds: string[], duelId: unknown) => {
+  if (mode !== 'PUZZLE' || typeof duelId !== 'string' || !duelId) {
+    return jsonResponse({ success: false, error: 'Invalid duel' }, 400);
+  }
+
+  const { data: duel, error } = await supabase
+    .from('puzzle_duels')
+    .select('host_id, guest_id, status, cards')
+    .eq('id', duelId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed loading duel: ${error.message}`);
+  if (!duel || (duel.host_id !== userId && duel.guest_id !== userId)) {
+    return jsonResponse({ success: false, error: 'Duel not found' }, 404);
+  }
+  if (duel.status !== 'playing') {
+    return jsonResponse({ success: false, error: 'Duel is not running' }, 409);
+  }
+  const cardIds: string[] = Array.isArray(duel.cards) ? duel.cards.map((c: any) => String(c?.id)) : [];
+  if (cardIds.length !== wordIds.length || !cardIds.every((id) => wordIds.includes(id))) {
+    return jsonResponse({ success: false, error: 'Word set is not this duel\'s cards' }, 403);
+  }
+
+  const ticket: RoundTicket = {
+    roundId: crypto.randomUUID(),
+    userId,
+    mode,
+    wordIds,
+    issuedAt: Date.now(),
+    duelId,
+  };
+  const nonceColumn = duel.host_id === userId ? 'host_round_nonce' : 'guest_round_nonce';
+  const { data: claimed, error: claimError } = await supabase
+    .from('puzzle_duels')
+    .update({ [nonceColumn]: ticket.roundId })
+    .eq('id', duelId)
+    .eq('status', 'playing')
+    .is(nonceColumn, null)
+    .select('id');
+  if (claimError) throw new Error(`Failed claiming duel side: ${claimError.message}`);
+  if (!claimed || claimed.length === 0) {
+    return jsonResponse({ success: false, error: 'Duel round already started' }, 409);
+  }
+
+  return jsonResponse({ success: true, ticket, signature: await signTicket(ticket) });
+};
+
+/** Today's challenge row; the first call of the day picks and stores the words */
+const ensureDailyChallenge = async () => {
+  const date = shanghaiDateOf();
+  const loadChallenge = () => supabase
+    .from('daily_challenges')
+    .select('*')
+    .eq('challenge_date', date)
+    .maybeSingle();
+
+  const { data: stored, error } = await loadChallenge();
+  if (error) throw new Error(`Failed loading daily challenge: ${error.message}`);
+  if (stored) return jsonResponse({ success: true, challenge: stored });
+
+  if (!libraryBaseUrl) {
+    return jsonResponse({ success: false, error: 'Missing LIBRARY_BASE_URL' }, 500);
+  }
+  const manifestResponse = await fetch(`${libraryBaseUrl}${LIBRARY_MANIFEST_PATH}`);
+  if (!manifestResponse.ok) throw new Error(`Failed loading library manifest: ${manifestResponse.status}`);
+  const manifest = await manifestResponse.json();
+  const pack = Array.isArray(manifest?.packs)
+    ? manifest.packs.find((p: any) => p?.id === dailyChallengePackId && typeof p.wordList === 'string')
+    : null;
+  if (!pack) {
+    return jsonResponse({ success: false, error: 'pack_not_found' }, 404);
+  }
+
+  const listResponse = await fetch(new URL(pack.wordList, `${libraryBaseUrl}/`));
+  if (!listResponse.ok) throw new Error(`Failed loading word list ${pack.wordList}: ${listResponse.status}`);
+  const words = selectDailyChallengeWords(
+    parseDailyChallengePackFile(pack.wordList, await listResponse.text()),
+    date,
+    pack.id,
+  );
+  if (words.length < DAILY_CHALLENGE_WORD_COUNT) {
+    return jsonResponse({ success: false, error: 'not_enough_words' }, 422);
+  }
+
+  // Concurrent first calls pick the same words; the first insert wins
+  const { error: insertError } = await supabase
+    .from('daily_challenges')
+    .insert({ challenge_date: date, pack_id: pack.id, words });
+  if (insertError && insertError.code !== '23505') {
+    throw new Error(`Failed storing daily challenge: ${insertError.message}`);
+  }
+
+  const { data: challenge, error: readError } = await loadChallenge();
+  if (readError || !challenge) throw new Error(`Failed loading daily challenge: ${readError?.message || 'missing row'}`);
+  return jsonResponse({ success: true, challenge });
+};
+
+const ROUND_TABLES: Record<VerifiedRoundMode, string> = {
+  PUZZLE: 'puzzle_game_rounds',
+  SCENE: 'scene_game_rounds',
+  RECALL: 'recall_game_rounds',
+  SPRINT: 'sprint_game_rounds',
+};
+
+/** Letters per word id of the ticket's words (the log carries ids only) */
+const loadWordLengths = async (ticket: RoundTicket): Promise<Record<string, number>> => {
+  if (ticket.challengeDate) {
+    const { data: challenge, error } = await supabase
+      .from('daily_challenges')
+      .select('words')
+      .eq('challenge_date', ticket.challengeDate)
+      .maybeSingle();
+    if (error) throw new Error(`Failed loading daily challenge: ${error.message}`);
+    const words: any[] = Array.isArray(challenge?.words) ? challenge.words : [];
+    const ids = dailyChallengeWordIds(ticket.challengeDate, words.length);
+    const wordLengths: Record<string, number> = {};
+    words.forEach((w, i) => { wordLengths[ids[i]] = wordLetterCount(String(w?.text || '')); });
+    return wordLengths;
+  }
+
+  const { data: words, error } = await supabase
+    .from('words')
+    .select('id, text')
+    .in('id', ticket.wordIds);
+  if (error) throw new Error(`Failed loading words: ${error.message}`);
+  const wordLengths: Record<string, number> = {};
+  (words || []).forEach((w: any) => { wordLengths[w.id] = wordLetterCount(String(w.text || '')); });
+  return wordLengths;
+};
+
+/** Heuristic flags for a plausible log; needs the word lengths and the user's recent rounds */
+const flagRound = async (
+  userId: string,
+  ticket: RoundTicket,
+  log: RoundLog,
+  setHash: string,
+  wordLengths: Record<string, number>,
+): Promise<RoundFlag[]> => {
+  const since = new Date(Date.now() - REPEATED_WORD_SET_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { count, error: countError } = await supabase
+    .from(ROUND_TABLES[ticket.mode])
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('word_set_hash', setHash)
+    .neq('round_nonce', ticket.roundId)
+    .gte('played_at', since);
+  if (countError) throw new Error(`Failed loading recent rounds: ${countError.message}`);
+
+  return findRoundFlags(log.results, wordLengths, count || 0);
+};
+
+/** The mode's record_verified_* RPC; each keeps the first row per round_nonce */
+const recordVerifiedRound = (
+  ticket: RoundTicket,
+  log: RoundLog,
+  meta: any,
+  score: RoundScore,
+  common: Record<string, unknown>,
+) => {
+  switch (ticket.mode) {
+    case 'PUZZLE':
+      return supabase.rpc('record_verified_puzzle_round', common);
+    case 'SCENE':
+      return supabase.rpc('record_verified_scene_round', {
+        ...common,
+        p_play_mode: meta.playMode || 'cloze',
+        p_day_index: Number(meta.dayIndex) || 0,
+        p_word_count: ticket.wordIds.length,
+        p_total_duration_seconds: score.totalDurationSeconds,
+        p_scene_asset_id: meta.sceneAssetId || null,
+      });
+    case 'RECALL':
+      return supabase.rpc('record_verified_recall_round', {
+        ...common,
+        p_ambiguous_prompts: log.results.filter((r) => r.ambiguous).length,
+      });
+    case 'SPRINT':
+      throw new Error('Sprint rounds are recorded by submitSprintRound');
+  }
+};
+
+const submitRound = async (userId: string, payload: any) => {
+  const ticket = payload?.ticket as RoundTicket | undefined;
+  const log = payload?.log as RoundLog | undefined;
+  const meta = payload?.meta || {};
+  if (!ticket || !Array.isArray(ticket.wordIds) || !log || !Array.isArray(log.results)) {
+    return jsonResponse({ success: false, error: 'Missing ticket or round log' }, 400);
+  }
+  if (typeof payload?.signature !== 'string' || !sameSignature(payload.signature, await signTicket(ticket))) {
+    return jsonResponse({ success: false, error: 'Invalid ticket signature' }, 403);
+  }
+  if (ticket.userId !== userId) {
+    return jsonResponse({ success: false, error: 'Ticket belongs to another user' }, 403);
+  }
+  if (!SELECTION_MODES.includes(meta.selectionMode)) {
+    return jsonResponse({ success: false, error: `Unsupported selection mode: ${meta.selectionMode}` }, 400);
+  }
+
+  const wordLengths = await loadWordLengths(ticket);
+  const problems = findRoundLogProblems(log, ticket, Date.now() - ticket.issuedAt, wordLengths);
+  if (problems.length > 0) {
+    console.warn('[verify-round] rejected', ticket.roundId, userId, problems.join(', '));
+    return jsonResponse({ success: false, error: 'Round log failed verification', problems }, 422);
+  }
+
+  if (ticket.challengeDate) {
+    return await submitDailyChallengeRound(userId, ticket, log, wordLengths);
+  }
+  if (ticket.duelId) {
+    return await submitDuelRound(userId, ticket, log);
+  }
+
+  const setHash = wordSetHash(ticket.wordIds);
+  const flags = await flagRound(userId, ticket, log, setHash, wordLengths);
+  if (ticket.mode === 'SPRINT') {
+    return await submitSprintRound(userId, ticket, log, meta, setHash, flags, wordLengths);
+  }
+
+  const score = scoreRound(ticket.mode, log.results, log.elapsedMs, ticket.wordIds.length);
+  const common = {
+    p_user_id: userId,
+    p_round_nonce: ticket.roundId,
+    p_selection_mode: meta.selectionMode,
+    p_total_score: score.totalScore,
+    p_accuracy_rate: score.accuracyRate,
+    p_speed_score: score.speedScore,
+    p_no_hint_score: score.noHintScore,
+    p_time_used_seconds: score.timeUsedSeconds,
+    p_seconds_remaining: score.secondsRemaining,
+    p_hints_used: score.hintsUsed,
+    p_words_total: score.wordsTotal,
+    p_words_correct: score.wordsCorrect,
+    p_solved_without_hint: score.solvedWithoutHint,
+    p_client_date: typeof meta.clientDate === 'string' ? meta.clientDate : null,
+    // Stamped in the insert; a replay keeps the first row and a moderator's decision
+    p_word_set_hash: setHash,
+    p_flags: flags,
+  };
+
+  const { data, error } = await recordVerifiedRound(ticket, log, meta, score, common);
+  if (error) throw new Error(`Failed recording round: ${error.message}`);
+
+  const round = Array.isArray(data) && data.length > 0 ? data[0] : data;
+
+  if (flags.length > 0) console.warn('[verify-round] flagged', round?.round_id, userId, flags.join(', '));
+
+  return jsonResponse({ success: true, round, score });
+};
+
+/**
+ * Score a sprint round from its replayed windows (roundScoring.ts) and
+ * record it; sprint has its own columns (streak, tempo, timeouts) instead
+ * of hints and time left.
+ */
+const submitSprintRound = async (
+  userId: string,
+  ticket: RoundTicket,
+  log: RoundLog,
+  meta: any,
+  setHash: string,
+  flags: RoundFlag[],
+  wordLengths: Record<string, number>,
+) => {
+  const score = scoreSprintRound(replaySprintCards(log, wordLengths), log.elapsedMs, ticket.wordIds.length);
+  const { data, error } = await supabase.rpc('record_verified_sprint_round', {
+    p_user_id: userId,
+    p_round_nonce: ticket.roundId,
+    p_selection_mode: meta.selectionMode,
+    p_total_score: score.totalScore,
+    p_accuracy_rate: score.accuracyRate,
+    p_speed_score: score.speedScore,
+    p_best_streak: score.bestStreak,
+    p_fastest_window_ms: score.fastestWindowMs,
+    p_time_used_seconds: score.timeUsedSeconds,
+    p_words_total: score.wordsTotal,
+    p_words_correct: score.wordsCorrect,
+    p_timed_out: score.timedOut,
+    p_client_date: typeof meta.clientDate === 'string' ? meta.clientDate : null,
+    p_word_set_hash: setHash,
+    p_flags: flags,
+  });
+  if (error) throw new Error(`Failed recording round: ${error.message}`);
+
+  const round = Array.isArray(data) && data.length > 0 ? data[0] : data;
+  if (flags.length > 0) console.warn('[verify-round] flagged', round?.round_id, userId, flags.join(', '));
+
+  return jsonResponse({ success: true, round, score });
+};
+
+/**
+ * Score a daily round into the attempt its ticket claimed, with its flags
+ * (one attempt per day, so no repeated-set count); a replay returns the
+ * stored row.
+ */
+const submitDailyChallengeRound = async (
+  userId: string,
+  ticket: RoundTicket,
+  log: RoundLog,
+  wordLengths: Record<string, number>,
+) => {
+  const score = scoreRound(ticket.mode, log.results, log.elapsedMs, ticket.wordIds.length);
+  const flags = findRoundFlags(log.results, wordLengths, 0);
+  // Board order, for the share card; the ids carry the index
+  const results = [...log.results]
+    .sort((a, b) => ticket.wordIds.indexOf(a.wordId) - ticket.wordIds.indexOf(b.wordId))
+    .map((r) => ({ correct: r.correct, attemptsUsed: r.attemptsUsed }));
+
+  const { error } = await supabase
+    .from('daily_challenge_attempts')
+    .update({
+      status: 'submitted',
+      total_score: score.totalScore,
+      words_correct: score.wordsCorrect,
+      words_total: score.wordsTotal,
+      time_used_seconds: score.timeUsedSeconds,
+      results,
+      submitted_at: new Date().toISOString(),
+      flags,
+      moderation_status: flags.length > 0 ? 'flagged' : 'visible',
+    })
+    .eq('user_id', userId)
+    .eq('round_nonce', ticket.roundId)
+    .eq('status', 'started');
+  if (error) throw new Error(`Failed recording daily attempt: ${error.message}`);
+  if (flags.length > 0) console.warn('[verify-round] flagged daily', ticket.roundId, userId, flags.join(', '));
+
+  const { data: attempt, error: readError } = await supabase
+    .from('daily_challenge_attempts')
+    .select('round_nonce, challenge_date, total_score')
+    .eq('user_id', userId)
+    .eq('round_nonce', ticket.roundId)
+    .maybeSingle();
+  if (readError) throw new Error(`Failed loading daily attempt: ${readError.message}`);
+  if (!attempt) {
+    return jsonResponse({ success: false, error: 'Daily attempt not found' }, 404);
+  }
+
+  const round = { round_id: attempt.round_nonce, played_date: attempt.challenge_date, total_score: Number(attempt.total_score) };
+  return jsonResponse({ success: true, round, score });
+};
+
+/** Record one side of a duel from its scored log; the RPC decides the duel once both are in */
+const submitDuelRound = async (userId: string, ticket: RoundTicket, log: RoundLog) => {
+  const score = scoreRound(ticket.mode, log.results, log.elapsedMs, ticket.wordIds.length);
+  const { data, error } = await supabase.rpc('record_puzzle_duel_result', {
+    p_duel_id: ticket.duelId,
+    p_user_id: userId,
+    p_round_nonce: ticket.roundId,
+    p_total_score: score.totalScore,
+    p_words_correct: score.wordsCorrect,
+    p_time_used_seconds: score.timeUsedSeconds,
+  });
+  if (error) throw new Error(`Failed recording duel result: ${error.message}`);
+  if (data?.error) {
+    return jsonResponse({ success: false, error: data.error }, data.error === 'not_found' ? 404 : 409);
+  }
+
+  return jsonResponse({ success: true, duel: data.duel, score });
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    return jsonResponse({ success: false, error: 'Missing Supabase service env vars' }, 500);
+  }
+  if (!signingSecret) {
+    return jsonResponse({ success: false, error: 'Missing ROUND_SIGNING_SECRET' }, 500);
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization') || req.headers.get('authorization') || '';
+    const token = authHeader.replace(/^Bearer\s+/i, '').trim();
+    if (!token) {
+      return jsonResponse({ success: false, error: 'Missing bearer token' }, 401);
+    }
+
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !userData?.user) {
+      return jsonResponse({ success: false, error: 'Invalid auth token' }, 401);
+    }
+
+    const payload = await req.json().catch(() => ({}));
+    switch (payload?.action) {
+      case 'daily':
+        return await ensureDailyChallenge();
+      case 'start':
+        return await startRound(userData.user.id, payload);
+      case 'submit':
+        return await submitRound(userData.user.id, payload);
+      default:
+        return jsonResponse({ success: false, error: `Unsupported action: ${payload?.action}` }, 400);
+    }
+  } catch (error) {
+    console.error('[verify-round] error:', error);
+    return jsonResponse({ success: false, error: (error as Error).message || 'An unexpected error occurred' }, 500);
+  }
+});
@@ -0,0 +1,114 @@
+// ================================================================
+// roundFlags.ts — anti-cheat heuristics for verified PUZZLE / SCENE /
+// RECALL / SPRINT rounds.
+//
+// roundScoring.ts rejects logs that are impossible; these rules flag logs
+// that are merely suspicious. A flagged round is still recorded and ranked
+// until an admin hides it from the moderation queue (AdminConsole →
+// 排行审核), so a false positive costs nothing but a review.
+//
+// ZERO imports (no Deno / Node / network APIs), same as roundScoring.ts.
+// Keep it dependency-free. Anything that needs fetch/env lives in index.ts.
+// ================================================================
+
+export type RoundFlag = 'typing_too_fast' | 'perfect_streak_too_fast' | 'repeated_word_set';
+
+export interface RoundFlagThresholds {
+  idealCharsPerSecond: number;
+  perWordOverheadSeconds: number;
+}
+
+/**
+ * Mirrors WORD_LEARNING_CONFIG.scoring.timing (the edge function cannot
+ * import the client config); __tests__/rounds/roundFlags.test.ts keeps
+ * the two in sync.
+ */
+export const DEFAULT_FLAG_THRESHOLDS: RoundFlagThresholds = {
+  idealCharsPerSecond: 4.5,
+  perWordOverheadSeconds: 1.8,
+};
+
+/** A card typed faster than this multiple of the ideal typing speed is "too fast" */
+export const TYPING_SPEED_FACTOR = 2.5;
+export const FAST_CARDS_TO_FLAG = 2;
+/** Clean solves in a row, each under this share of the ideal time per word */
+export const PERFECT_PACE_FACTOR = 0.5;
+export const PERFECT_STREAK_TO_FLAG = 5;
+/** Earlier rounds with the same word set (within the window) before the next one is flagged */
+export const REPEATED_WORD_SET_LIMIT = 2;
+export const REPEATED_WORD_SET_WINDOW_DAYS = 7;
+
+/** Minimal card shape the rules read; RoundLogEntry satisfies it */
+export interface FlaggableCard {
+  wordId: string;
+  correct: boolean;
+  attemptsUsed: number;
+  hintUsed: boolean;
+  activatedAtMs: number | null;
+  solvedAtMs: number | null;
+}
+
+/**
+ * Order-independent hash of a word set (cyrb53, hex). Same ids in any
+ * order → same hash, so a replayed set is recognisable across rounds.
+ */
+export const wordSetHash = (wordIds: string[]): string => {
+  const input = [...wordIds].sort().join(',');
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+const solveSeconds = (card: FlaggableCard): number | null => {
+  if (!card.correct || card.solvedAtMs == null) return null;
+  const seconds = (card.solvedAtMs - (card.activatedAtMs ?? 0)) / 1000;
+  return seconds > 0 ? seconds : null;
+};
+
+/**
+ * Heuristic flags for one round.
+ * @param wordLengths - Letters per word id (the log carries ids only)
+ * @param previousSameSetRounds - The user's earlier rounds with this word set inside the window
+ */
+export const findRoundFlags = (
+  cards: FlaggableCard[],
+  wordLengths: Record<string, number>,
+  previousSameSetRounds: number,
+  thresholds: RoundFlagThresholds = DEFAULT_FLAG_THRESHOLDS,
+): RoundFlag[] => {
+  const flags: RoundFlag[] = [];
+  const maxCharsPerSecond = thresholds.idealCharsPerSecond * TYPING_SPEED_FACTOR;
+
+  const fastCards = cards.filter((card) => {
+    const seconds = solveSeconds(card);
+    const chars = wordLengths[card.wordId] ?? 0;
+    return seconds != null && chars > 0 && chars / seconds > maxCharsPerSecond;
+  });
+  if (fastCards.length >= FAST_CARDS_TO_FLAG) flags.push('typing_too_fast');
+
+  // Longest run of first-try, no-hint solves (in solve order) beating half the ideal pace
+  const solved = cards
+    .filter((card) => solveSeconds(card) != null)
+    .sort((a, b) => (a.solvedAtMs ?? 0) - (b.solvedAtMs ?? 0));
+  let run = 0;
+  let longestRun = 0;
+  for (const card of solved) {
+    const chars = wordLengths[card.wordId] ?? 0;
+    const idealSeconds = chars / thresholds.idealCharsPerSecond + thresholds.perWordOverheadSeconds;
+    const clean = card.attemptsUsed <= 1 && !card.hintUsed;
+    run = clean && (solveSeconds(card) ?? Infinity) < idealSeconds * PERFECT_PACE_FACTOR ? run + 1 : 0;
+    longestRun = Math.max(longestRun, run);
+  }
+  if (longestRun >= PERFECT_STREAK_TO_FLAG) flags.push('perfect_streak_too_fast');
+
+  if (previousSameSetRounds >= REPEATED_WORD_SET_LIMIT) flags.push('repeated_word_set');
+
+  return flags;
+};
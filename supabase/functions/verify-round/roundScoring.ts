@@ -0,0 +1,429 @@
+// ================================================================
+// roundScoring.ts — pure scoring + plausibility rules for PUZZLE, SCENE,
+// RECALL and SPRINT rounds.
+//
+// ZERO imports (no Deno / Node / network APIs), so it runs identically
+// under the Deno edge function (supabase/functions/verify-round), under
+// `node --test`, and in the client (services/puzzleGame.ts,
+// services/sceneGame.ts, utils/meaningRecall.ts and utils/audioSprint.ts
+// score their result screens with it). The server
+// recomputes every ranked score from the round log with the same code the
+// client showed, so the two can never disagree, and it rejects logs no
+// human could have produced before anything reaches the rankings.
+//
+// Keep it dependency-free. Anything that needs fetch/env lives in index.ts.
+// ================================================================
+
+export type VerifiedRoundMode = 'PUZZLE' | 'SCENE' | 'RECALL' | 'SPRINT';
+
+export const PUZZLE_TOTAL_WORDS = 9;
+export const PUZZLE_TOTAL_DURATION_SECONDS = 90;
+/** Scene cloze rounds get 30 seconds per word */
+export const SCENE_SECONDS_PER_WORD = 30;
+export const RECALL_TOTAL_DURATION_SECONDS = 120;
+
+export const SPRINT_TOTAL_WORDS = 15;
+export const SPRINT_START_WINDOW_MS = 9000;
+export const SPRINT_MIN_WINDOW_MS = 3500;
+/** Window lost per word of streak */
+export const SPRINT_WINDOW_STEP_MS = 500;
+/** Extra time per letter beyond SPRINT_SHORT_WORD_LENGTH */
+const SPRINT_LETTER_ALLOWANCE_MS = 350;
+const SPRINT_SHORT_WORD_LENGTH = 6;
+/** Longest a sprint pronunciation may play before its answer window opens */
+export const SPRINT_MAX_PLAYBACK_MS = 10_000;
+/** Ceiling for one sprint word: playback, the widest window and the reveal pause */
+const SPRINT_MAX_SECONDS_PER_WORD = 30;
+
+/** Fastest plausible solve of one card, activation → correct answer */
+export const MIN_SOLVE_MS = 500;
+/** Added to MIN_SOLVE_MS per letter of the answer (20 letters a second) */
+export const MIN_MS_PER_LETTER = 50;
+/** Slack for timers, rendering and network between client and server */
+export const ROUND_CLOCK_SKEW_MS = 3_000;
+/** A ticket older than this can no longer be submitted (covers offline replay) */
+export const ROUND_TICKET_TTL_MS = 24 * 60 * 60 * 1000;
+export const MAX_ATTEMPTS_PER_WORD = 20;
+/** A sprint word takes one answer (or none when its window runs out) */
+const SPRINT_MAX_ATTEMPTS_PER_WORD = 1;
+
+/** One card of a round, times in ms since the round started */
+export interface RoundLogEntry {
+  wordId: string;
+  correct: boolean;
+  attemptsUsed: number;
+  hintUsed: boolean;
+  activatedAtMs: number | null;
+  solvedAtMs: number | null;
+  /** RECALL: the prompt matched another library word and showed clues (self-reported, like hintUsed) */
+  ambiguous?: boolean;
+  /**
+   * SPRINT: the answer window opened (playback finished). A sprint card's
+   * activatedAtMs is when the word started playing, solvedAtMs when it was
+   * answered (right or wrong), and attemptsUsed is 0 when the window ran out.
+   */
+  windowOpenedAtMs?: number | null;
+}
+
+/** What the client submits for verification */
+export interface RoundLog {
+  mode: VerifiedRoundMode;
+  elapsedMs: number;
+  results: RoundLogEntry[];
+}
+
+/**
+ * Issued by the verify-round function when a round starts and signed with
+ * its secret; the word set and start time cannot be changed afterwards.
+ */
+export interface RoundTicket {
+  roundId: string;
+  userId: string;
+  mode: VerifiedRoundMode;
+  wordIds: string[];
+  issuedAt: number;
+  /** Set on the day's daily challenge round (dailyChallenge.ts); absent otherwise */
+  challengeDate?: string;
+  /** Set on one side of a puzzle duel (its wordIds are the duel's cards); absent otherwise */
+  duelId?: string;
+}
+
+export interface SignedRoundTicket {
+  ticket: RoundTicket;
+  signature: string;
+}
+
+export interface RoundScore {
+  totalScore: number;
+  accuracyRate: number;
+  speedScore: number;
+  noHintScore: number;
+  wordsCorrect: number;
+  wordsTotal: number;
+  hintsUsed: number;
+  solvedWithoutHint: number;
+  timeUsedSeconds: number;
+  secondsRemaining: number;
+  totalDurationSeconds: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const roundDurationSeconds = (mode: VerifiedRoundMode, wordCount: number): number => {
+  if (mode === 'PUZZLE') return PUZZLE_TOTAL_DURATION_SECONDS;
+  if (mode === 'RECALL') return RECALL_TOTAL_DURATION_SECONDS;
+  if (mode === 'SPRINT') return wordCount * SPRINT_MAX_SECONDS_PER_WORD;
+  return wordCount * SCENE_SECONDS_PER_WORD;
+};
+
+/** Modes that show one card at a time, so solve windows cannot overlap */
+const SEQUENTIAL_MODES: VerifiedRoundMode[] = ['PUZZLE', 'RECALL', 'SPRINT'];
+
+/** Solve-time bands (seconds) for the ×1.1 / ×1.0 / ×0.9 / ×0.8 speed factors; recall spells from memory, so it gets longer ones */
+const SPEED_BANDS_SECONDS: Record<VerifiedRoundMode, [number, number, number, number]> = {
+  PUZZLE: [4, 8, 15, 25],
+  SCENE: [4, 8, 15, 25],
+  RECALL: [5, 10, 18, 30],
+  SPRINT: [4, 8, 15, 25],
+};
+
+const getAttemptFactor = (attemptsUsed: number) => {
+  if (attemptsUsed <= 1) return 1;
+  if (attemptsUsed === 2) return 0.85;
+  return 0.7;
+};
+
+const getSpeedFactor = (mode: VerifiedRoundMode, activatedAtMs: number | null, solvedAtMs: number | null) => {
+  if (activatedAtMs == null || solvedAtMs == null || solvedAtMs <= activatedAtMs) return 0.75;
+  const seconds = (solvedAtMs - activatedAtMs) / 1000;
+  const [fastest, fast, steady, slow] = SPEED_BANDS_SECONDS[mode];
+  if (seconds <= fastest) return 1.1;
+  if (seconds <= fast) return 1.0;
+  if (seconds <= steady) return 0.9;
+  if (seconds <= slow) return 0.8;
+  return 0.7;
+};
+
+/**
+ * Score a round: 700 for accuracy, 200 for time left, 100 for per-card
+ * quality (attempts, hints, solve speed). Capped at 1000. Clues on an
+ * ambiguous RECALL prompt cost less than the hint (×0.9 vs ×0.8).
+ */
+export const scoreRound = (
+  mode: VerifiedRoundMode,
+  results: RoundLogEntry[],
+  elapsedMs: number,
+  wordCount: number = results.length,
+): RoundScore => {
+  const totalDurationSeconds = roundDurationSeconds(mode, wordCount);
+  const wordsTotal = results.length || (mode === 'PUZZLE' ? PUZZLE_TOTAL_WORDS : wordCount);
+  const wordsCorrect = results.filter((r) => r.correct).length;
+  const hintsUsed = results.filter((r) => r.hintUsed).length;
+  const solvedWithoutHint = results.filter((r) => r.correct && !r.hintUsed).length;
+  const accuracyRate = wordsTotal > 0 ? wordsCorrect / wordsTotal : 0;
+  const timeUsedSeconds = clamp(Math.ceil(elapsedMs / 1000), 0, totalDurationSeconds);
+  const secondsRemaining = clamp(totalDurationSeconds - timeUsedSeconds, 0, totalDurationSeconds);
+
+  const rawQualityTotal = results.reduce((sum, r) => {
+    if (!r.correct) return sum;
+    const attemptFactor = getAttemptFactor(r.attemptsUsed);
+    const hintFactor = r.hintUsed ? 0.8 : r.ambiguous ? 0.9 : 1;
+    const speedFactor = getSpeedFactor(mode, r.activatedAtMs, r.solvedAtMs);
+    return sum + 100 * attemptFactor * hintFactor * speedFactor;
+  }, 0);
+
+  const accuracyScore = accuracyRate * 700;
+  const speedScore = totalDurationSeconds > 0 ? (secondsRemaining / totalDurationSeconds) * 200 : 0;
+  const efficiencyBonus = wordsTotal > 0 ? (rawQualityTotal / (wordsTotal * 110)) * 100 : 0;
+  const totalScore = Math.round(clamp(accuracyScore + speedScore + efficiencyBonus, 0, 1000));
+
+  return {
+    totalScore,
+    accuracyRate: Number(accuracyRate.toFixed(4)),
+    speedScore: accuracyRate >= 0.85 && totalDurationSeconds > 0 ? Math.round((secondsRemaining / totalDurationSeconds) * 1000) : 0,
+    noHintScore: accuracyRate >= 0.85 && wordsTotal > 0 ? Math.round((solvedWithoutHint / wordsTotal) * 1000) : 0,
+    wordsCorrect,
+    wordsTotal,
+    hintsUsed,
+    solvedWithoutHint,
+    timeUsedSeconds,
+    secondsRemaining,
+    totalDurationSeconds,
+  };
+};
+
+/** Letters in a word, spaces excluded: the word lengths every check here reads */
+export const wordLetterCount = (text: string): number => text.replace(/\s+/g, '').length;
+
+/** Answer window for the next sprint word, given the streak going into it */
+export const getSprintWindowMs = (streak: number, wordLength: number): number => {
+  const tempoWindow = clamp(
+    SPRINT_START_WINDOW_MS - Math.max(0, streak) * SPRINT_WINDOW_STEP_MS,
+    SPRINT_MIN_WINDOW_MS,
+    SPRINT_START_WINDOW_MS,
+  );
+  return tempoWindow + Math.max(0, wordLength - SPRINT_SHORT_WORD_LENGTH) * SPRINT_LETTER_ALLOWANCE_MS;
+};
+
+/** One sprint word as scored; SprintCardResult satisfies it */
+export interface SprintScoredCard {
+  correct: boolean;
+  windowMs: number;
+  streakBefore: number;
+  /** Answer window opened */
+  activatedAtMs: number | null;
+  /** null = the window ran out */
+  answeredAtMs: number | null;
+}
+
+export interface SprintScore {
+  totalScore: number;
+  accuracyRate: number;
+  speedScore: number;
+  bestStreak: number;
+  fastestWindowMs: number;
+  wordsCorrect: number;
+  wordsTotal: number;
+  timedOut: number;
+  timeUsedSeconds: number;
+}
+
+export const getSprintBestStreak = (cards: { correct: boolean }[]): number => {
+  let best = 0;
+  let current = 0;
+  for (const card of cards) {
+    current = card.correct ? current + 1 : 0;
+    best = Math.max(best, current);
+  }
+  return best;
+};
+
+/** Share of the window still left when the answer came in (0 for misses) */
+const getRemainingFraction = (card: SprintScoredCard) => {
+  if (!card.correct || card.activatedAtMs == null || card.answeredAtMs == null || card.windowMs <= 0) return 0;
+  return clamp(1 - (card.answeredAtMs - card.activatedAtMs) / card.windowMs, 0, 1);
+};
+
+/**
+ * Score a sprint round: 600 for accuracy, 200 for quickness (window left
+ * at each answer), 200 for tempo (how far the windows had shrunk when the
+ * words were answered). Capped at 1000.
+ */
+export const scoreSprintRound = (
+  cards: SprintScoredCard[],
+  elapsedMs: number,
+  wordCount: number = cards.length,
+): SprintScore => {
+  const wordsTotal = cards.length || wordCount;
+  const wordsCorrect = cards.filter((c) => c.correct).length;
+  const accuracyRate = wordsTotal > 0 ? wordsCorrect / wordsTotal : 0;
+
+  const quickness = wordsTotal > 0 ? cards.reduce((sum, c) => sum + getRemainingFraction(c), 0) / wordsTotal : 0;
+  const tempoRange = SPRINT_START_WINDOW_MS - SPRINT_MIN_WINDOW_MS;
+  const tempo = wordsTotal > 0
+    ? cards.reduce((sum, c) => (c.correct ? sum + (SPRINT_START_WINDOW_MS - getSprintWindowMs(c.streakBefore, 0)) / tempoRange : sum), 0) / wordsTotal
+    : 0;
+
+  const totalScore = Math.round(clamp(accuracyRate * 600 + quickness * 200 + tempo * 200, 0, 1000));
+  const correctQuickness = wordsCorrect > 0 ? (quickness * wordsTotal) / wordsCorrect : 0;
+
+  return {
+    totalScore,
+    accuracyRate: Number(accuracyRate.toFixed(4)),
+    speedScore: accuracyRate >= 0.85 ? Math.round(correctQuickness * 1000) : 0,
+    bestStreak: getSprintBestStreak(cards),
+    fastestWindowMs: cards.length > 0 ? Math.min(...cards.map((c) => c.windowMs)) : SPRINT_START_WINDOW_MS,
+    wordsCorrect,
+    wordsTotal,
+    timedOut: cards.filter((c) => c.answeredAtMs == null).length,
+    timeUsedSeconds: Math.max(0, Math.ceil(elapsedMs / 1000)),
+  };
+};
+
+/**
+ * Rebuild a sprint log's cards from the play order: the streak going into
+ * each word and its window follow from the earlier answers and the word's
+ * length, so the client only reports what it cannot know (timings, right
+ * or wrong).
+ * @param wordLengths - wordLetterCount per word id
+ */
+export const replaySprintCards = (log: RoundLog, wordLengths: Record<string, number> = {}): SprintScoredCard[] => {
+  let streak = 0;
+  return log.results.map((r) => {
+    const card: SprintScoredCard = {
+      correct: r.correct,
+      windowMs: getSprintWindowMs(streak, wordLengths[r.wordId] ?? 0),
+      streakBefore: streak,
+      activatedAtMs: r.windowOpenedAtMs ?? null,
+      answeredAtMs: r.attemptsUsed > 0 ? r.solvedAtMs : null,
+    };
+    streak = r.correct ? streak + 1 : 0;
+    return card;
+  });
+};
+
+/**
+ * The exact string the ticket signature covers. challengeDate and duelId
+ * are appended only when present, so tickets issued before they existed
+ * still verify.
+ */
+export const canonicalRoundTicket = (ticket: RoundTicket): string => {
+  const fields: (string | number)[] = [ticket.roundId, ticket.userId, ticket.mode, ticket.issuedAt, ticket.wordIds.join(',')];
+  if (ticket.challengeDate) fields.push(ticket.challengeDate);
+  if (ticket.duelId) fields.push(`duel:${ticket.duelId}`);
+  return fields.join('|');
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/** Fastest plausible solve of a word with this many letters */
+export const minSolveMs = (letters: number): number =>
+  MIN_SOLVE_MS + Math.max(0, letters) * MIN_MS_PER_LETTER;
+
+/**
+ * SPRINT-only checks: words play in log order (the streak depends on it)
+ * and every answer lands inside the window its streak
+ * and length allow, which opens within SPRINT_MAX_PLAYBACK_MS of the word
+ * starting to play.
+ */
+const findSprintLogProblems = (log: RoundLog, wordLengths: Record<string, number>): string[] => {
+  const problems: string[] = [];
+  const cards = replaySprintCards(log, wordLengths);
+  let previousStartMs = -Infinity;
+  log.results.forEach((r, i) => {
+    if (!isFiniteNumber(r.activatedAtMs) || r.activatedAtMs <= previousStartMs) {
+      problems.push(`out_of_order:${r.wordId}`);
+    } else {
+      previousStartMs = r.activatedAtMs;
+    }
+    if (r.attemptsUsed < 1) return;
+
+    // An answered word without an answer time is reported by findRoundLogProblems when it counts
+    if (!isFiniteNumber(r.solvedAtMs)) return;
+    const startedMs = isFiniteNumber(r.activatedAtMs) ? r.activatedAtMs : 0;
+    const openedMs = r.windowOpenedAtMs;
+    if (!isFiniteNumber(openedMs)) {
+      problems.push(`missing_timing:${r.wordId}`);
+      return;
+    }
+    if (openedMs < startedMs || openedMs > startedMs + SPRINT_MAX_PLAYBACK_MS || openedMs > r.solvedAtMs) {
+      problems.push(`window_out_of_range:${r.wordId}`);
+    } else if (r.solvedAtMs - openedMs > cards[i].windowMs + ROUND_CLOCK_SKEW_MS) {
+      problems.push(`answered_after_window:${r.wordId}`);
+    }
+  });
+  return problems;
+};
+
+/**
+ * Reasons a log cannot be ranked; empty = plausible.
+ *
+ * Every solve must fall inside the round, take at least minSolveMs for
+ * its word, and the round must be long enough to hold all of them.
+ * PUZZLE, RECALL and SPRINT rounds have one open card at a time, so their
+ * solved cards' windows (activation → solve) must also follow one another.
+ * SPRINT answers must also fit their replayed windows.
+ * @param serverElapsedMs - Time between ticket issue and submission, by the server's clock
+ * @param wordLengths - Letters per word id; a word without one counts as 0 letters
+ */
+export const findRoundLogProblems = (
+  log: RoundLog,
+  ticket: RoundTicket,
+  serverElapsedMs: number,
+  wordLengths: Record<string, number> = {},
+): string[] => {
+  const problems: string[] = [];
+  if (log.mode !== ticket.mode) problems.push('mode_mismatch');
+  if (serverElapsedMs > ROUND_TICKET_TTL_MS) problems.push('ticket_expired');
+
+  const ids = log.results.map((r) => r.wordId);
+  const sameWords = ids.length === ticket.wordIds.length
+    && new Set(ids).size === ids.length
+    && ids.every((id) => ticket.wordIds.includes(id));
+  if (!sameWords) problems.push('word_set_mismatch');
+
+  const limitMs = roundDurationSeconds(ticket.mode, ticket.wordIds.length) * 1000 + ROUND_CLOCK_SKEW_MS;
+  if (!isFiniteNumber(log.elapsedMs) || log.elapsedMs < 0 || log.elapsedMs > limitMs) {
+    problems.push('elapsed_out_of_range');
+  }
+  // The round cannot have lasted longer than the ticket has existed
+  if (isFiniteNumber(log.elapsedMs) && log.elapsedMs > serverElapsedMs + ROUND_CLOCK_SKEW_MS) {
+    problems.push('elapsed_exceeds_server_time');
+  }
+
+  const roundEndMs = isFiniteNumber(log.elapsedMs) ? log.elapsedMs : 0;
+  const maxAttempts = ticket.mode === 'SPRINT' ? SPRINT_MAX_ATTEMPTS_PER_WORD : MAX_ATTEMPTS_PER_WORD;
+  const windows: { wordId: string; from: number; to: number }[] = [];
+  let minRoundMs = 0;
+  for (const r of log.results) {
+    if (!Number.isInteger(r.attemptsUsed) || r.attemptsUsed < 0 || r.attemptsUsed > maxAttempts) {
+      problems.push(`attempts_out_of_range:${r.wordId}`);
+    }
+    if (!r.correct) continue;
+    if (r.attemptsUsed < 1) problems.push(`solved_without_attempt:${r.wordId}`);
+    if (!isFiniteNumber(r.solvedAtMs)) {
+      problems.push(`missing_timing:${r.wordId}`);
+      continue;
+    }
+    // A card never explicitly activated has been open since the round began
+    const activatedAtMs = isFiniteNumber(r.activatedAtMs) ? r.activatedAtMs : 0;
+    if (activatedAtMs < 0 || r.solvedAtMs > roundEndMs) problems.push(`timing_outside_round:${r.wordId}`);
+    const cardMinMs = minSolveMs(wordLengths[r.wordId] ?? 0);
+    if (r.solvedAtMs - activatedAtMs < cardMinMs) problems.push(`solved_too_fast:${r.wordId}`);
+    windows.push({ wordId: r.wordId, from: activatedAtMs, to: r.solvedAtMs });
+    minRoundMs += cardMinMs;
+  }
+
+  if (isFiniteNumber(log.elapsedMs) && log.elapsedMs < minRoundMs) problems.push('elapsed_below_minimum');
+
+  if (ticket.mode === 'SPRINT') problems.push(...findSprintLogProblems(log, wordLengths));
+
+  if (SEQUENTIAL_MODES.includes(ticket.mode)) {
+    windows.sort((a, b) => a.from - b.from || a.to - b.to);
+    for (let i = 1; i < windows.length; i++) {
+      if (windows[i].from < windows[i - 1].to) problems.push(`overlapping_cards:${windows[i].wordId}`);
+    }
+  }
+
+  return problems;
+};
@@ -0,0 +1,36 @@
+// ================================================================
+// seededPick.ts — deterministic picks from a seed.
+//
+// The same candidates and the same seed give the same picks in the same
+// order on every JS engine, however the candidates were ordered. Duels
+// (utils/puzzleDuel.ts) pick both players' cards with it, and the daily
+// challenge (dailyChallenge.ts) picks the day's words.
+//
+// ZERO imports (no Deno / Node / network APIs), same as roundScoring.ts.
+// ================================================================
+
+/** mulberry32: small, fast, and identical on every JS engine */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * `count` candidates in pick order: sorted by id, then Fisher–Yates
+ * shuffled with the seeded random.
+ */
+export const seededPick = <T extends { id: string }>(candidates: T[], seed: number, count: number): T[] => {
+  const random = createSeededRandom(seed);
+  const pool = [...candidates].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+};
@@ -0,0 +1,43 @@
+-- ================================================================
+-- Migration: Persist per-word SM-2 spaced repetition state
+-- Date: 2026-10-19
+--
+-- Adds the SM-2 state (interval, repetitions, ease factor) and the
+-- resulting due date to public.words. The client computes the new
+-- state in updateWordStatusV2 after every CLASSIC / PUZZLE / SCENE
+-- result (see utils/sm2Algorithm.ts) and writes it alongside
+-- error_count / last_tested.
+-- ================================================================
+
+-- 1. SM-2 columns
+ALTER TABLE public.words
+  ADD COLUMN IF NOT EXISTS sm2_interval INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sm2_repetitions INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sm2_ease_factor NUMERIC(4,2) NOT NULL DEFAULT 2.50,
+  ADD COLUMN IF NOT EXISTS next_review_at TIMESTAMPTZ;
+
+ALTER TABLE public.words
+  DROP CONSTRAINT IF EXISTS words_sm2_ease_factor_min;
+ALTER TABLE public.words
+  ADD CONSTRAINT words_sm2_ease_factor_min CHECK (sm2_ease_factor >= 1.3);
+
+-- 2. Documentation
+COMMENT ON COLUMN public.words.sm2_interval IS
+'SM-2 interval in days between the last review and next_review_at.';
+COMMENT ON COLUMN public.words.sm2_repetitions IS
+'SM-2 count of consecutive successful reviews (reset on failure).';
+COMMENT ON COLUMN public.words.sm2_ease_factor IS
+'SM-2 easiness factor, clamped to >= 1.3.';
+COMMENT ON COLUMN public.words.next_review_at IS
+'When the word is next due for review. NULL = never scheduled.';
+
+-- 3. "Due today" queue lookups
+CREATE INDEX IF NOT EXISTS words_user_next_review_idx
+  ON public.words (user_id, next_review_at)
+  WHERE deleted IS NOT TRUE AND next_review_at IS NOT NULL;
+
+-- ================================================================
+-- Legacy rows: words tested before this migration keep
+-- next_review_at = NULL and are treated as due by the client
+-- (isWordDue), so they enter the schedule on their next review.
+-- ================================================================
@@ -0,0 +1,28 @@
+-- ================================================================
+-- Migration: Persist per-word FSRS memory state
+-- Date: 2026-10-19
+--
+-- Adds FSRS stability / difficulty to public.words so the client can
+-- run FSRS (utils/fsrsAlgorithm.ts) as an alternative to SM-2. Both
+-- models are updated on every review (services/reviewScheduler.ts);
+-- next_review_at is set by whichever scheduler the user picked.
+-- ================================================================
+
+-- 1. FSRS columns (NULL = never reviewed under FSRS)
+ALTER TABLE public.words
+  ADD COLUMN IF NOT EXISTS fsrs_stability NUMERIC(10,4),
+  ADD COLUMN IF NOT EXISTS fsrs_difficulty NUMERIC(6,4);
+
+ALTER TABLE public.words
+  DROP CONSTRAINT IF EXISTS words_fsrs_state_range;
+ALTER TABLE public.words
+  ADD CONSTRAINT words_fsrs_state_range CHECK (
+    (fsrs_stability IS NULL OR fsrs_stability > 0)
+    AND (fsrs_difficulty IS NULL OR fsrs_difficulty BETWEEN 1 AND 10)
+  );
+
+-- 2. Documentation
+COMMENT ON COLUMN public.words.fsrs_stability IS
+'FSRS stability: days until predicted recall falls to 90%. NULL = no FSRS state yet.';
+COMMENT ON COLUMN public.words.fsrs_difficulty IS
+'FSRS difficulty, 1 (easy) to 10 (hard). NULL = no FSRS state yet.';
@@ -0,0 +1,56 @@
+-- ================================================================
+-- Migration: Append-only per-attempt review log
+-- Date: 2026-10-19
+--
+-- Until now a test only updated the aggregate columns on public.words
+-- (error_count, consecutive_correct, last_tested, best_time_ms), so the
+-- history of individual attempts was lost. public.word_reviews keeps
+-- one row per word per CLASSIC / PUZZLE / SCENE attempt, written by
+-- recordWordReviews() in services/dataService.ts.
+--
+-- Rows are never updated: there are no UPDATE policies, and DELETE is
+-- only reachable through the words FK cascade.
+-- ================================================================
+
+-- ========== 1. word_reviews ==========
+CREATE TABLE IF NOT EXISTS public.word_reviews (
+    id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id           UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    word_id           UUID NOT NULL REFERENCES public.words(id) ON DELETE CASCADE,
+    mode              TEXT NOT NULL CHECK (mode IN ('CLASSIC', 'PUZZLE', 'SCENE')),
+    reviewed_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+    correct           BOOLEAN NOT NULL,
+    attempts          SMALLINT NOT NULL DEFAULT 1 CHECK (attempts >= 1),
+    hint_level        SMALLINT NOT NULL DEFAULT 0 CHECK (hint_level >= 0),
+    time_spent_ms     INTEGER CHECK (time_spent_ms IS NULL OR time_spent_ms >= 0),
+    chars_per_minute  INTEGER CHECK (chars_per_minute IS NULL OR chars_per_minute >= 0),
+    created_at        TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Per-word timeline and per-user history scans
+CREATE INDEX IF NOT EXISTS idx_word_reviews_word_reviewed
+    ON public.word_reviews (word_id, reviewed_at);
+CREATE INDEX IF NOT EXISTS idx_word_reviews_user_reviewed
+    ON public.word_reviews (user_id, reviewed_at DESC);
+
+-- ========== 2. RLS ==========
+ALTER TABLE public.word_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS word_reviews_select_self ON public.word_reviews;
+CREATE POLICY word_reviews_select_self ON public.word_reviews
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS word_reviews_insert_self ON public.word_reviews;
+CREATE POLICY word_reviews_insert_self ON public.word_reviews
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+-- No UPDATE/DELETE policies: the log is append-only.
+
+-- ========== 3. Documentation ==========
+COMMENT ON TABLE public.word_reviews IS
+'Append-only log of every attempt at a word (CLASSIC test, PUZZLE and SCENE games).';
+COMMENT ON COLUMN public.word_reviews.attempts IS
+'Tries used on this word in this attempt, including the final one (>= 1).';
+COMMENT ON COLUMN public.word_reviews.hint_level IS
+'Deepest hint used: 0 = none. CLASSIC: 1 = letter blocks, 2 = image + meaning. Games: 1 = hint used.';
+COMMENT ON COLUMN public.word_reviews.chars_per_minute IS
+'Word length * 60000 / time_spent_ms, rounded. NULL when no timing is available.';
@@ -0,0 +1,14 @@
+-- ================================================================
+-- Migration: Per-word "suspended" flag
+-- Date: 2026-10-19
+--
+-- Lets a learner pause a word from the word detail view without
+-- deleting it (deleting loses its history and library completeness).
+-- A suspended word keeps all of its progress and review log.
+-- ================================================================
+
+ALTER TABLE public.words
+  ADD COLUMN IF NOT EXISTS suspended BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN public.words.suspended IS
+'TRUE = paused by the learner; progress is kept.';
@@ -0,0 +1,20 @@
+-- ================================================================
+-- Migration: Bury-until and "known" states for words
+-- Date: 2026-10-19
+--
+-- Together with words.suspended these take a word out of rotation
+-- without deleting it (see utils/wordState.ts):
+--   buried_until - hidden from every selector until this time
+--   known        - learner already knows the word; it stays in the
+--                  library (so library completeness is unaffected)
+--                  but is never tested
+-- ================================================================
+
+ALTER TABLE public.words
+  ADD COLUMN IF NOT EXISTS buried_until TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS known BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN public.words.buried_until IS
+'Hidden from tests and games until this time. NULL = not buried.';
+COMMENT ON COLUMN public.words.known IS
+'TRUE = marked as already known; kept in the library but never tested.';
@@ -0,0 +1,356 @@
+-- ================================================================
+-- Migration: Add signed coin ledger export / restore
+-- Date: 2026-10-19
+--
+-- Account archives (services/exportService.ts) are plain JSON the user
+-- can edit, and coins can only be written by SECURITY DEFINER RPCs. So
+-- the coin ledger travels inside the archive with an HMAC signature:
+--
+--   export_coin_ledger()                     → { ledger, signature }
+--   restore_coin_ledger(ledger, signature)   → moves the ledger's coins
+--                                              into the caller's wallet
+--   restore_account_archive(rows…, ledger)   → the whole restore (rows +
+--                                              coins) in one transaction
+--
+-- The signing secret lives in the private schema (not exposed through
+-- the API). Each source account can be restored once, into a different
+-- account, and the coins move rather than copy: the source wallet is
+-- debited in the same transaction. So restoring A into B, then B into C,
+-- leaves the same coins in the system as before.
+-- ================================================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ========== 0. coin_transactions type ==========
+-- 'archive_transfer': coins leaving a restored source account, and the
+-- correction on the target when the source no longer holds them all
+ALTER TABLE public.coin_transactions DROP CONSTRAINT IF EXISTS coin_transactions_type_check;
+ALTER TABLE public.coin_transactions
+    ADD CONSTRAINT coin_transactions_type_check CHECK (type IN (
+        'daily_login',
+        'daily_login_7_bonus',
+        'daily_login_30_bonus',
+        'quiz_score',
+        'puzzle_score',
+        'achievement_unlock',
+        'all_achievements_bonus',
+        'scene_game_spend',
+        'scene_game_refund',
+        'archive_transfer',
+        'admin_adjust'
+    ));
+
+-- ========== 1. signing secret ==========
+CREATE SCHEMA IF NOT EXISTS private;
+REVOKE ALL ON SCHEMA private FROM PUBLIC, anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS private.app_secrets (
+    name  TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+
+INSERT INTO private.app_secrets (name, value)
+VALUES ('coin_ledger_archive', encode(extensions.gen_random_bytes(32), 'hex'))
+ON CONFLICT (name) DO NOTHING;
+
+-- ========== 2. coin_ledger_restores ==========
+CREATE TABLE IF NOT EXISTS public.coin_ledger_restores (
+    source_user_id    UUID PRIMARY KEY,
+    target_user_id    UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    transaction_count INTEGER NOT NULL,
+    restored_at       TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.coin_ledger_restores IS
+  'One row per restored archive ledger; source_user_id is the primary key so a ledger is restored at most once';
+
+ALTER TABLE public.coin_ledger_restores ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS coin_ledger_restores_select_self ON public.coin_ledger_restores;
+CREATE POLICY coin_ledger_restores_select_self ON public.coin_ledger_restores
+    FOR SELECT USING (auth.uid() = target_user_id);
+
+
+-- ================================================================
+-- RPC 1: export_coin_ledger()
+--
+-- Full wallet + ledger (oldest first) for the caller, signed with
+-- HMAC-SHA256 over the canonical jsonb text.
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.export_coin_ledger()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id      UUID;
+    v_wallet       RECORD;
+    v_transactions JSONB;
+    v_ledger       JSONB;
+    v_secret       TEXT;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'not_authenticated');
+    END IF;
+
+    SELECT * INTO v_wallet FROM user_wallets WHERE user_id = v_user_id;
+
+    SELECT COALESCE(jsonb_agg(row_to_json(t) ORDER BY t.created_at), '[]'::jsonb)
+    INTO v_transactions
+    FROM (
+        SELECT id, delta, balance_after, type, reference, note, created_at
+        FROM coin_transactions
+        WHERE user_id = v_user_id
+    ) t;
+
+    v_ledger := jsonb_build_object(
+        'source_user_id',  v_user_id,
+        'balance',         COALESCE(v_wallet.balance, 0),
+        'lifetime_earned', COALESCE(v_wallet.lifetime_earned, 0),
+        'lifetime_spent',  COALESCE(v_wallet.lifetime_spent, 0),
+        'transactions',    v_transactions
+    );
+
+    SELECT value INTO v_secret FROM private.app_secrets WHERE name = 'coin_ledger_archive';
+
+    RETURN jsonb_build_object(
+        'ledger',    v_ledger,
+        'signature', encode(extensions.hmac(v_ledger::TEXT, v_secret, 'sha256'), 'hex')
+    );
+END;
+$$;
+
+
+-- ================================================================
+-- RPC 2: restore_coin_ledger(p_ledger, p_signature)
+--
+-- Verifies the signature, then copies the archived transactions into
+-- the caller's ledger (original type / reference / timestamps kept, so
+-- idempotent awards such as achievement coins are not paid twice) and
+-- moves the coins: the caller is credited the copied deltas' net, capped
+-- at what the source wallet holds now, and the source is debited the
+-- same amount. Both wallets stay locked until the transaction ends.
+-- utils/accountArchive.ts coinRestoreTransfer mirrors the amount.
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.restore_coin_ledger(
+    p_ledger    JSONB,
+    p_signature TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id        UUID;
+    v_source_id      UUID;
+    v_secret         TEXT;
+    v_earned         INTEGER := 0;
+    v_spent          INTEGER := 0;
+    v_count          INTEGER := 0;
+    v_balance        INTEGER;
+    v_source_balance INTEGER;
+    v_transfer       INTEGER;
+    v_shortfall      INTEGER;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'not_authenticated');
+    END IF;
+
+    SELECT value INTO v_secret FROM private.app_secrets WHERE name = 'coin_ledger_archive';
+    IF p_signature IS NULL
+       OR encode(extensions.hmac(p_ledger::TEXT, v_secret, 'sha256'), 'hex') <> p_signature THEN
+        RETURN jsonb_build_object('error', 'invalid_signature');
+    END IF;
+
+    v_source_id := (p_ledger->>'source_user_id')::UUID;
+    IF v_source_id = v_user_id THEN
+        RETURN jsonb_build_object('error', 'same_account');
+    END IF;
+
+    -- Claim the source ledger; a second restore of the same archive fails here
+    INSERT INTO coin_ledger_restores (source_user_id, target_user_id, transaction_count)
+    VALUES (v_source_id, v_user_id, 0)
+    ON CONFLICT (source_user_id) DO NOTHING;
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'already_restored');
+    END IF;
+
+    INSERT INTO user_wallets (user_id) VALUES (v_user_id)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    -- Lock both wallets in id order so two crossing restores cannot deadlock
+    PERFORM 1 FROM user_wallets
+    WHERE user_id IN (v_user_id, v_source_id)
+    ORDER BY user_id
+    FOR UPDATE;
+
+    SELECT balance INTO v_balance FROM user_wallets WHERE user_id = v_user_id;
+    SELECT COALESCE(MAX(balance), 0) INTO v_source_balance FROM user_wallets WHERE user_id = v_source_id;
+
+    WITH inserted AS (
+        INSERT INTO coin_transactions (user_id, delta, balance_after, type, reference, note, created_at)
+        SELECT v_user_id,
+               (t->>'delta')::INTEGER,
+               (t->>'balance_after')::INTEGER,
+               t->>'type',
+               t->>'reference',
+               t->>'note',
+               (t->>'created_at')::TIMESTAMPTZ
+        FROM jsonb_array_elements(p_ledger->'transactions') AS t
+        ON CONFLICT (user_id, type, reference) DO NOTHING
+        RETURNING delta
+    )
+    SELECT COALESCE(SUM(delta) FILTER (WHERE delta > 0), 0),
+           COALESCE(-SUM(delta) FILTER (WHERE delta < 0), 0),
+           COUNT(*)
+    INTO v_earned, v_spent, v_count
+    FROM inserted;
+
+    v_transfer  := GREATEST(LEAST(v_source_balance, v_earned - v_spent), 0);
+    v_shortfall := GREATEST(v_earned - v_spent, 0) - v_transfer;
+    v_balance   := v_balance + v_transfer;
+
+    -- Coins the source spent after exporting never reach the target
+    IF v_shortfall > 0 THEN
+        INSERT INTO coin_transactions (user_id, delta, balance_after, type, reference, note)
+        VALUES (v_user_id, -v_shortfall, v_balance, 'archive_transfer', 'in:' || v_source_id,
+                'Archived coins the source account no longer holds');
+    END IF;
+
+    UPDATE user_wallets
+    SET balance         = v_balance,
+        lifetime_earned = lifetime_earned + v_earned,
+        lifetime_spent  = lifetime_spent + v_spent + v_shortfall,
+        updated_at      = now()
+    WHERE user_id = v_user_id;
+
+    IF v_transfer > 0 THEN
+        UPDATE user_wallets
+        SET balance        = balance - v_transfer,
+            lifetime_spent = lifetime_spent + v_transfer,
+            updated_at     = now()
+        WHERE user_id = v_source_id;
+
+        INSERT INTO coin_transactions (user_id, delta, balance_after, type, reference, note)
+        VALUES (v_source_id, -v_transfer, v_source_balance - v_transfer, 'archive_transfer', 'out:' || v_user_id,
+                'Coins moved to the account this archive was restored into');
+    END IF;
+
+    UPDATE coin_ledger_restores SET transaction_count = v_count
+    WHERE source_user_id = v_source_id;
+
+    RETURN jsonb_build_object('restored', v_count, 'transferred', v_transfer, 'new_balance', v_balance);
+END;
+$$;
+
+
+-- ================================================================
+-- RPC 3: restore_account_archive(p_sessions, p_words, p_reviews,
+--                                p_day_stats, p_achievements,
+--                                p_ledger, p_signature)
+--
+-- The rows of utils/accountArchive.ts planArchiveRestore plus the signed
+-- ledger, written in one transaction: any failure rolls everything back,
+-- the coin claim included, so a failed restore can simply be retried.
+-- SECURITY INVOKER — the rows go through the caller's RLS exactly as
+-- direct inserts would; user_id is always the caller's. A ledger the
+-- coin RPC refuses (e.g. already_restored) is reported, not fatal.
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.restore_account_archive(
+    p_sessions     JSONB,
+    p_words        JSONB,
+    p_reviews      JSONB,
+    p_day_stats    JSONB,
+    p_achievements JSONB,
+    p_ledger       JSONB DEFAULT NULL,
+    p_signature    TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id      UUID;
+    v_coins        JSONB := NULL;
+    v_sessions     INTEGER;
+    v_words        INTEGER;
+    v_reviews      INTEGER;
+    v_day_stats    INTEGER;
+    v_achievements INTEGER;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'not_authenticated');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM words
+        WHERE user_id = v_user_id AND (deleted IS NULL OR deleted = false)
+    ) THEN
+        RETURN jsonb_build_object('error', 'account_not_empty');
+    END IF;
+
+    -- Coins first, so achievement awards the app triggers later are
+    -- recognised as already paid
+    IF p_ledger IS NOT NULL THEN
+        v_coins := restore_coin_ledger(p_ledger, p_signature);
+    END IF;
+
+    INSERT INTO sessions (id, user_id, created_at, word_count, target_count, library_tag)
+    SELECT r.id, v_user_id, r.created_at, r.word_count, r.target_count, r.library_tag
+    FROM jsonb_populate_recordset(NULL::sessions, COALESCE(p_sessions, '[]'::jsonb)) AS r;
+    GET DIAGNOSTICS v_sessions = ROW_COUNT;
+
+    INSERT INTO words (
+        id, user_id, session_id, text, created_at, correct, tested, image_path, image_asset_id,
+        error_count, best_time_ms, last_tested, phonetic, audio_url, language, lexeme_id,
+        definition_cn, definition_en, meaning_options, selected_meaning_key, tags, score,
+        consecutive_correct, sm2_interval, sm2_repetitions, sm2_ease_factor, next_review_at,
+        fsrs_stability, fsrs_difficulty, suspended, buried_until, known
+    )
+    SELECT r.id, v_user_id, r.session_id, r.text, r.created_at, r.correct, r.tested, r.image_path, r.image_asset_id,
+           r.error_count, r.best_time_ms, r.last_tested, r.phonetic, r.audio_url, r.language, r.lexeme_id,
+           r.definition_cn, r.definition_en, r.meaning_options, r.selected_meaning_key, r.tags, r.score,
+           r.consecutive_correct, r.sm2_interval, r.sm2_repetitions, r.sm2_ease_factor, r.next_review_at,
+           r.fsrs_stability, r.fsrs_difficulty, r.suspended, r.buried_until, r.known
+    FROM jsonb_populate_recordset(NULL::words, COALESCE(p_words, '[]'::jsonb)) AS r;
+    GET DIAGNOSTICS v_words = ROW_COUNT;
+
+    INSERT INTO word_reviews (user_id, word_id, mode, reviewed_at, correct, attempts, hint_level, time_spent_ms, chars_per_minute)
+    SELECT v_user_id, r.word_id, r.mode, r.reviewed_at, r.correct, r.attempts, r.hint_level, r.time_spent_ms, r.chars_per_minute
+    FROM jsonb_populate_recordset(NULL::word_reviews, COALESCE(p_reviews, '[]'::jsonb)) AS r;
+    GET DIAGNOSTICS v_reviews = ROW_COUNT;
+
+    INSERT INTO daily_stats (user_id, date, total_count, correct_count, total_points, is_frozen)
+    SELECT v_user_id, r.date, r.total_count, r.correct_count, r.total_points, r.is_frozen
+    FROM jsonb_populate_recordset(NULL::daily_stats, COALESCE(p_day_stats, '[]'::jsonb)) AS r;
+    GET DIAGNOSTICS v_day_stats = ROW_COUNT;
+
+    INSERT INTO user_achievements (user_id, achievement_id, unlocked_at)
+    SELECT v_user_id, r.achievement_id, r.unlocked_at
+    FROM jsonb_populate_recordset(NULL::user_achievements, COALESCE(p_achievements, '[]'::jsonb)) AS r
+    ON CONFLICT (user_id, achievement_id) DO NOTHING;
+    GET DIAGNOSTICS v_achievements = ROW_COUNT;
+
+    RETURN jsonb_build_object(
+        'sessions',     v_sessions,
+        'words',        v_words,
+        'reviews',      v_reviews,
+        'day_stats',    v_day_stats,
+        'achievements', v_achievements,
+        'coins',        v_coins
+    );
+END;
+$$;
+
+
+-- ========== Grants ==========
+GRANT EXECUTE ON FUNCTION public.export_coin_ledger() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_coin_ledger(JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_account_archive(JSONB, JSONB, JSONB, JSONB, JSONB, JSONB, TEXT) TO authenticated;
+GRANT SELECT ON public.coin_ledger_restores TO authenticated;
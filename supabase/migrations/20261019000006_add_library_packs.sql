@@ -0,0 +1,247 @@
+-- ================================================================
+-- Migration: Add private library packs
+-- Date: 2026-10-19
+--
+-- Built-in libraries are described by /dictionaries/manifest.json.
+-- Teachers can also publish their own word lists as private packs:
+--
+--   publish_library_pack(...)        → creates a pack, or publishes the
+--                                      next version of one the caller owns
+--   subscribe_library_pack(code)     → a student adds a pack by share code
+--
+-- Every published word list is kept in library_pack_versions so later
+-- versions can be compared with the one a learner installed, which is
+-- recorded per tag in library_installs (built-in packs included).
+-- ================================================================
+
+-- ========== 1. library_packs ==========
+CREATE TABLE IF NOT EXISTS public.library_packs (
+    id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    owner_id    UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name        TEXT NOT NULL,
+    tag         TEXT NOT NULL,
+    language    TEXT NOT NULL DEFAULT 'en',
+    description TEXT,
+    levels      JSONB NOT NULL DEFAULT '[]'::jsonb,
+    words       JSONB NOT NULL DEFAULT '[]'::jsonb,
+    version     INTEGER NOT NULL DEFAULT 1,
+    share_code  TEXT NOT NULL UNIQUE
+                DEFAULT upper(substr(encode(extensions.gen_random_bytes(6), 'hex'), 1, 8)),
+    created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT library_packs_owner_tag_key UNIQUE (owner_id, tag)
+);
+
+COMMENT ON COLUMN public.library_packs.words IS
+  'Current word list: [{ text, meaning, level }]';
+COMMENT ON COLUMN public.library_packs.tag IS
+  'Tag carried by installed words; fixed once the pack is created';
+
+-- ========== 2. library_pack_versions ==========
+CREATE TABLE IF NOT EXISTS public.library_pack_versions (
+    pack_id      UUID NOT NULL REFERENCES public.library_packs(id) ON DELETE CASCADE,
+    version      INTEGER NOT NULL,
+    words        JSONB NOT NULL,
+    published_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (pack_id, version)
+);
+
+-- ========== 3. library_pack_subscriptions ==========
+CREATE TABLE IF NOT EXISTS public.library_pack_subscriptions (
+    user_id       UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    pack_id       UUID NOT NULL REFERENCES public.library_packs(id) ON DELETE CASCADE,
+    subscribed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (user_id, pack_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_library_pack_subscriptions_pack
+    ON public.library_pack_subscriptions (pack_id);
+
+-- ========== 4. library_installs ==========
+CREATE TABLE IF NOT EXISTS public.library_installs (
+    user_id      UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    tag          TEXT NOT NULL,
+    pack_id      UUID REFERENCES public.library_packs(id) ON DELETE SET NULL,
+    version      INTEGER NOT NULL,
+    installed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (user_id, tag)
+);
+
+COMMENT ON TABLE public.library_installs IS
+  'Pack version each learner last installed, per library tag (pack_id is NULL for built-in packs)';
+
+-- ========== 5. RLS ==========
+ALTER TABLE public.library_packs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.library_pack_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.library_pack_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.library_installs ENABLE ROW LEVEL SECURITY;
+
+-- Packs are visible to their owner and subscribers; writes go through publish_library_pack
+DROP POLICY IF EXISTS library_packs_select_member ON public.library_packs;
+CREATE POLICY library_packs_select_member ON public.library_packs
+    FOR SELECT USING (
+        auth.uid() = owner_id
+        OR EXISTS (
+            SELECT 1 FROM public.library_pack_subscriptions s
+            WHERE s.pack_id = library_packs.id AND s.user_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS library_packs_delete_owner ON public.library_packs;
+CREATE POLICY library_packs_delete_owner ON public.library_packs
+    FOR DELETE USING (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS library_pack_versions_select_member ON public.library_pack_versions;
+CREATE POLICY library_pack_versions_select_member ON public.library_pack_versions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.library_packs p
+            WHERE p.id = library_pack_versions.pack_id
+        )
+    );
+
+DROP POLICY IF EXISTS library_pack_subscriptions_select_self ON public.library_pack_subscriptions;
+CREATE POLICY library_pack_subscriptions_select_self ON public.library_pack_subscriptions
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS library_pack_subscriptions_delete_self ON public.library_pack_subscriptions;
+CREATE POLICY library_pack_subscriptions_delete_self ON public.library_pack_subscriptions
+    FOR DELETE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS library_installs_all_self ON public.library_installs;
+CREATE POLICY library_installs_all_self ON public.library_installs
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+
+-- ================================================================
+-- RPC 1: publish_library_pack(...)
+--
+-- p_pack_id NULL creates a new pack (version 1) with a fresh share code;
+-- otherwise the caller's pack gets the new word list as version + 1.
+-- The tag of an existing pack never changes (installed words carry it).
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.publish_library_pack(
+    p_pack_id     UUID,
+    p_name        TEXT,
+    p_tag         TEXT,
+    p_language    TEXT,
+    p_description TEXT,
+    p_levels      JSONB,
+    p_words       JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_pack    RECORD;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'not_authenticated');
+    END IF;
+
+    IF jsonb_typeof(p_words) IS DISTINCT FROM 'array' OR jsonb_array_length(p_words) = 0 THEN
+        RETURN jsonb_build_object('error', 'empty_pack');
+    END IF;
+    IF jsonb_array_length(p_words) > 5000 THEN
+        RETURN jsonb_build_object('error', 'too_many_words');
+    END IF;
+
+    IF p_pack_id IS NULL THEN
+        IF COALESCE(trim(p_tag), '') = '' OR trim(p_tag) IN ('All', 'Custom') OR p_tag LIKE 'Deck:%' THEN
+            RETURN jsonb_build_object('error', 'invalid_tag');
+        END IF;
+
+        INSERT INTO library_packs (owner_id, name, tag, language, description, levels, words)
+        VALUES (
+            v_user_id,
+            p_name,
+            trim(p_tag),
+            COALESCE(p_language, 'en'),
+            p_description,
+            COALESCE(p_levels, '[]'::jsonb),
+            p_words
+        )
+        ON CONFLICT (owner_id, tag) DO NOTHING
+        RETURNING id, version, share_code INTO v_pack;
+
+        IF NOT FOUND THEN
+            RETURN jsonb_build_object('error', 'tag_taken');
+        END IF;
+    ELSE
+        UPDATE library_packs
+        SET name        = COALESCE(p_name, name),
+            language    = COALESCE(p_language, language),
+            description = p_description,
+            levels      = COALESCE(p_levels, levels),
+            words       = p_words,
+            version     = version + 1,
+            updated_at  = now()
+        WHERE id = p_pack_id AND owner_id = v_user_id
+        RETURNING id, version, share_code INTO v_pack;
+
+        IF NOT FOUND THEN
+            RETURN jsonb_build_object('error', 'not_found');
+        END IF;
+    END IF;
+
+    INSERT INTO library_pack_versions (pack_id, version, words)
+    VALUES (v_pack.id, v_pack.version, p_words);
+
+    RETURN jsonb_build_object(
+        'id',         v_pack.id,
+        'version',    v_pack.version,
+        'share_code', v_pack.share_code
+    );
+END;
+$$;
+
+
+-- ================================================================
+-- RPC 2: subscribe_library_pack(p_share_code)
+--
+-- Adds the pack behind a share code to the caller's library list and
+-- returns it (the caller cannot read it before subscribing).
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.subscribe_library_pack(p_share_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_pack    library_packs%ROWTYPE;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'not_authenticated');
+    END IF;
+
+    SELECT * INTO v_pack FROM library_packs
+    WHERE share_code = upper(trim(p_share_code));
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'not_found');
+    END IF;
+
+    IF v_pack.owner_id <> v_user_id THEN
+        INSERT INTO library_pack_subscriptions (user_id, pack_id)
+        VALUES (v_user_id, v_pack.id)
+        ON CONFLICT (user_id, pack_id) DO NOTHING;
+    END IF;
+
+    RETURN jsonb_build_object('pack', to_jsonb(v_pack));
+END;
+$$;
+
+
+-- ========== Grants ==========
+GRANT EXECUTE ON FUNCTION public.publish_library_pack(UUID, TEXT, TEXT, TEXT, TEXT, JSONB, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.subscribe_library_pack(TEXT) TO authenticated;
+GRANT SELECT, DELETE ON public.library_packs TO authenticated;
+GRANT SELECT ON public.library_pack_versions TO authenticated;
+GRANT SELECT, DELETE ON public.library_pack_subscriptions TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.library_installs TO authenticated;
@@ -0,0 +1,248 @@
+-- ================================================================
+-- Migration: Add classrooms and assigned word sets
+-- Date: 2026-10-19
+--
+-- A teacher creates a class and shares its invite code; students join
+-- with join_class(code). The teacher assigns word sets (one of their
+-- sessions or a slice of a library) with an optional due date.
+--
+--   join_class(code)              → a student joins a class
+--   get_class_progress(class_id)  → teacher-only snapshot of every
+--                                   student's assigned words and
+--                                   daily_stats, summarised client-side
+--                                   by utils/classProgress.ts
+--
+-- Assignment words are stored as text (+ meaning) because every student
+-- has their own words rows; students start an assignment as a CLASSIC
+-- test over their matching words.
+-- ================================================================
+
+-- ========== 1. classes ==========
+CREATE TABLE IF NOT EXISTS public.classes (
+    id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    teacher_id  UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name        TEXT NOT NULL,
+    invite_code TEXT NOT NULL UNIQUE
+                DEFAULT upper(substr(encode(extensions.gen_random_bytes(6), 'hex'), 1, 8)),
+    created_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_classes_teacher ON public.classes (teacher_id);
+
+-- ========== 2. class_members ==========
+CREATE TABLE IF NOT EXISTS public.class_members (
+    class_id  UUID NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+    user_id   UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (class_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_members_user ON public.class_members (user_id);
+
+-- ========== 3. class_assignments ==========
+CREATE TABLE IF NOT EXISTS public.class_assignments (
+    id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id   UUID NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+    title      TEXT NOT NULL,
+    source     JSONB NOT NULL DEFAULT '{}'::jsonb,
+    words      JSONB NOT NULL,
+    due_at     TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT class_assignments_words_not_empty
+        CHECK (jsonb_typeof(words) = 'array' AND jsonb_array_length(words) BETWEEN 1 AND 500)
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_assignments_class ON public.class_assignments (class_id, created_at DESC);
+
+COMMENT ON COLUMN public.class_assignments.source IS
+  'Where the words came from: { kind: session|library, label, tag?, level? }';
+COMMENT ON COLUMN public.class_assignments.words IS
+  'Assigned words: [{ text, meaning }]';
+
+-- ========== 4. Membership helpers ==========
+-- SECURITY DEFINER so policies on classes / class_members can use them
+-- without recursing into each other's RLS.
+CREATE OR REPLACE FUNCTION public.is_class_teacher(p_class_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM classes WHERE id = p_class_id AND teacher_id = auth.uid()
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_class_member(p_class_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM class_members WHERE class_id = p_class_id AND user_id = auth.uid()
+    );
+$$;
+
+-- ========== 5. RLS ==========
+ALTER TABLE public.classes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.class_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.class_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Teachers manage their classes; students can read classes they joined
+DROP POLICY IF EXISTS classes_all_teacher ON public.classes;
+CREATE POLICY classes_all_teacher ON public.classes
+    FOR ALL USING (auth.uid() = teacher_id) WITH CHECK (auth.uid() = teacher_id);
+
+DROP POLICY IF EXISTS classes_select_member ON public.classes;
+CREATE POLICY classes_select_member ON public.classes
+    FOR SELECT USING (public.is_class_member(id));
+
+-- Members are added by join_class; students can leave, teachers can remove
+DROP POLICY IF EXISTS class_members_select ON public.class_members;
+CREATE POLICY class_members_select ON public.class_members
+    FOR SELECT USING (auth.uid() = user_id OR public.is_class_teacher(class_id));
+
+DROP POLICY IF EXISTS class_members_delete ON public.class_members;
+CREATE POLICY class_members_delete ON public.class_members
+    FOR DELETE USING (auth.uid() = user_id OR public.is_class_teacher(class_id));
+
+DROP POLICY IF EXISTS class_assignments_all_teacher ON public.class_assignments;
+CREATE POLICY class_assignments_all_teacher ON public.class_assignments
+    FOR ALL USING (public.is_class_teacher(class_id)) WITH CHECK (public.is_class_teacher(class_id));
+
+DROP POLICY IF EXISTS class_assignments_select_member ON public.class_assignments;
+CREATE POLICY class_assignments_select_member ON public.class_assignments
+    FOR SELECT USING (public.is_class_member(class_id));
+
+
+-- ================================================================
+-- RPC 1: join_class(p_invite_code)
+--
+-- Adds the caller to the class behind an invite code and returns it.
+-- A teacher joining their own class is a no-op.
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.join_class(p_invite_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_class   classes%ROWTYPE;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'not_authenticated');
+    END IF;
+
+    SELECT * INTO v_class FROM classes
+    WHERE invite_code = upper(trim(p_invite_code));
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'not_found');
+    END IF;
+
+    IF v_class.teacher_id <> v_user_id THEN
+        INSERT INTO class_members (class_id, user_id)
+        VALUES (v_class.id, v_user_id)
+        ON CONFLICT (class_id, user_id) DO NOTHING;
+    END IF;
+
+    RETURN jsonb_build_object('class', to_jsonb(v_class));
+END;
+$$;
+
+
+-- ================================================================
+-- RPC 2: get_class_progress(p_class_id)
+--
+-- Teacher only. Returns the raw material for the progress table:
+--   students - member ids, display names and join dates
+--   words    - each student's words matching any assigned word
+--              (tested / correct / error_count / last_tested)
+--   daily    - each student's daily_stats since the first assignment
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.get_class_progress(p_class_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id  UUID;
+    v_since    DATE;
+    v_students JSONB;
+    v_words    JSONB;
+    v_daily    JSONB;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'not_authenticated');
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM classes WHERE id = p_class_id AND teacher_id = v_user_id) THEN
+        RETURN jsonb_build_object('error', 'not_found');
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+               'user_id',   m.user_id,
+               'username',  p.username,
+               'joined_at', m.joined_at
+           ) ORDER BY m.joined_at), '[]'::jsonb)
+    INTO v_students
+    FROM class_members m
+    LEFT JOIN user_profiles p ON p.user_id = m.user_id
+    WHERE m.class_id = p_class_id;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+               'user_id',     w.user_id,
+               'text',        w.text,
+               'tested',      COALESCE(w.tested, false),
+               'correct',     COALESCE(w.correct, false),
+               'error_count', COALESCE(w.error_count, 0),
+               'last_tested', w.last_tested
+           )), '[]'::jsonb)
+    INTO v_words
+    FROM words w
+    JOIN class_members m ON m.user_id = w.user_id AND m.class_id = p_class_id
+    WHERE (w.deleted IS NULL OR w.deleted = false)
+      AND lower(w.text) IN (
+          SELECT lower(x->>'text')
+          FROM class_assignments a, jsonb_array_elements(a.words) x
+          WHERE a.class_id = p_class_id
+      );
+
+    SELECT (min(created_at) AT TIME ZONE 'Asia/Shanghai')::DATE INTO v_since
+    FROM class_assignments WHERE class_id = p_class_id;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+               'user_id',       d.user_id,
+               'date',          d.date,
+               'total_count',   COALESCE(d.total_count, 0),
+               'correct_count', COALESCE(d.correct_count, 0)
+           )), '[]'::jsonb)
+    INTO v_daily
+    FROM daily_stats d
+    JOIN class_members m ON m.user_id = d.user_id AND m.class_id = p_class_id
+    WHERE v_since IS NOT NULL AND d.date >= v_since;
+
+    RETURN jsonb_build_object(
+        'students', v_students,
+        'words',    v_words,
+        'daily',    v_daily
+    );
+END;
+$$;
+
+
+-- ========== Grants ==========
+GRANT EXECUTE ON FUNCTION public.is_class_teacher(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_class_member(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.join_class(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_class_progress(UUID) TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.classes TO authenticated;
+GRANT SELECT, DELETE ON public.class_members TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.class_assignments TO authenticated;
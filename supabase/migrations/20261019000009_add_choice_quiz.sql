@@ -0,0 +1,112 @@
+-- ================================================================
+-- Migration: Multiple-choice meaning quiz
+-- Date: 2026-10-19
+--
+-- The CHOICE mode (one word, four Chinese meanings) awards coins through
+-- award_game_coins with its own 'choice_score' ledger type, and logs its
+-- attempts to word_reviews with mode 'CHOICE'. It has no leaderboard, so
+-- no rounds table is added.
+-- ================================================================
+
+-- ========== 1. coin_transactions type ==========
+ALTER TABLE public.coin_transactions DROP CONSTRAINT IF EXISTS coin_transactions_type_check;
+ALTER TABLE public.coin_transactions
+    ADD CONSTRAINT coin_transactions_type_check CHECK (type IN (
+        'daily_login',
+        'daily_login_7_bonus',
+        'daily_login_30_bonus',
+        'quiz_score',
+        'puzzle_score',
+        'choice_score',
+        'achievement_unlock',
+        'all_achievements_bonus',
+        'scene_game_spend',
+        'scene_game_refund',
+        'archive_transfer',
+        'admin_adjust'
+    ));
+
+-- ========== 2. word_reviews mode ==========
+ALTER TABLE public.word_reviews DROP CONSTRAINT IF EXISTS word_reviews_mode_check;
+ALTER TABLE public.word_reviews
+    ADD CONSTRAINT word_reviews_mode_check CHECK (mode IN ('CLASSIC', 'PUZZLE', 'SCENE', 'RECALL', 'CHOICE'));
+
+-- ================================================================
+-- RPC 1: award_game_coins(p_type, p_reference, p_delta)
+--
+-- Same as 20260712000000_add_coin_currency_system.sql, plus the
+-- 'choice_score' type. Idempotent via (user_id, type, reference).
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.award_game_coins(
+    p_type      TEXT,
+    p_reference TEXT,
+    p_delta     INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id       UUID;
+    v_old_balance   INTEGER;
+    v_new_balance   INTEGER;
+    v_inserted      UUID;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'not_authenticated');
+    END IF;
+
+    IF p_type NOT IN ('quiz_score', 'puzzle_score', 'choice_score') THEN
+        RETURN jsonb_build_object('error', 'invalid_type');
+    END IF;
+    IF p_delta IS NULL OR p_delta <= 0 THEN
+        RETURN jsonb_build_object('error', 'invalid_delta');
+    END IF;
+
+    -- Ensure wallet + lock
+    INSERT INTO user_wallets (user_id) VALUES (v_user_id)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT balance INTO v_old_balance FROM user_wallets
+    WHERE user_id = v_user_id FOR UPDATE;
+
+    -- Idempotent insert
+    INSERT INTO coin_transactions (user_id, delta, balance_after, type, reference, note)
+    VALUES (
+        v_user_id, p_delta, v_old_balance + p_delta, p_type, p_reference,
+        CASE p_type
+            WHEN 'quiz_score' THEN 'Quiz score reward'
+            WHEN 'choice_score' THEN 'Choice quiz reward'
+            ELSE 'Puzzle score reward'
+        END
+    )
+    ON CONFLICT (user_id, type, reference) DO NOTHING
+    RETURNING id INTO v_inserted;
+
+    IF v_inserted IS NULL THEN
+        RETURN jsonb_build_object(
+            'awarded',         FALSE,
+            'already_awarded', TRUE,
+            'new_balance',     v_old_balance
+        );
+    END IF;
+
+    v_new_balance := v_old_balance + p_delta;
+    UPDATE user_wallets
+    SET balance         = v_new_balance,
+        lifetime_earned = lifetime_earned + p_delta,
+        updated_at      = now()
+    WHERE user_id = v_user_id;
+
+    RETURN jsonb_build_object(
+        'awarded',         TRUE,
+        'already_awarded', FALSE,
+        'new_balance',     v_new_balance
+    );
+END;
+$$;
+
+-- ========== Grants ==========
+GRANT EXECUTE ON FUNCTION public.award_game_coins(TEXT, TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,245 @@
+-- ================================================================
+-- Migration: Audio sprint (listening-only) game rankings
+-- Date: 2026-10-19
+--
+-- SPRINT mode plays pronunciations back to back and the learner types
+-- each word before its answer window closes; the window shrinks as the
+-- streak grows (utils/audioSprint.ts). Rounds get their own table and
+-- leaderboard next to puzzle_game_rounds and recall_game_rounds. Like the
+-- other games, only ranking-eligible rounds are recorded (the client skips
+-- rounds whose daily word overlap is too high).
+--
+-- word_reviews.mode also accepts 'SPRINT' so per-word attempts from the
+-- mode land in the review log.
+-- ================================================================
+
+-- ========== 1. sprint_game_rounds ==========
+CREATE TABLE IF NOT EXISTS public.sprint_game_rounds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    played_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    played_date DATE NOT NULL,
+    total_score NUMERIC NOT NULL,
+    accuracy_rate NUMERIC NOT NULL,
+    speed_score NUMERIC NOT NULL,
+    best_streak INTEGER NOT NULL,
+    fastest_window_ms INTEGER NOT NULL,
+    time_used_seconds INTEGER NOT NULL,
+    words_total INTEGER NOT NULL,
+    words_correct INTEGER NOT NULL,
+    timed_out INTEGER NOT NULL DEFAULT 0,
+    selection_mode TEXT NOT NULL CHECK (selection_mode IN ('smart', 'random')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.sprint_game_rounds.fastest_window_ms IS
+    'Shortest answer window reached during the round (the tempo peak)';
+COMMENT ON COLUMN public.sprint_game_rounds.timed_out IS
+    'Words whose answer window closed before anything was submitted';
+
+CREATE INDEX IF NOT EXISTS sprint_game_rounds_played_date_idx ON public.sprint_game_rounds(played_date);
+CREATE INDEX IF NOT EXISTS sprint_game_rounds_total_score_idx ON public.sprint_game_rounds(total_score DESC);
+CREATE INDEX IF NOT EXISTS sprint_game_rounds_user_id_idx ON public.sprint_game_rounds(user_id);
+
+-- ========== 2. RLS ==========
+ALTER TABLE public.sprint_game_rounds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view sprint rounds" ON public.sprint_game_rounds;
+CREATE POLICY "Users can view sprint rounds"
+    ON public.sprint_game_rounds FOR SELECT
+    USING (true);
+
+DROP POLICY IF EXISTS "Users can insert own sprint rounds" ON public.sprint_game_rounds;
+CREATE POLICY "Users can insert own sprint rounds"
+    ON public.sprint_game_rounds FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+-- ========== 3. word_reviews mode ==========
+ALTER TABLE public.word_reviews DROP CONSTRAINT IF EXISTS word_reviews_mode_check;
+ALTER TABLE public.word_reviews
+    ADD CONSTRAINT word_reviews_mode_check CHECK (mode IN ('CLASSIC', 'PUZZLE', 'SCENE', 'RECALL', 'CHOICE', 'SPRINT'));
+
+-- ========== 4. RPCs ==========
+-- RPC 1: record_sprint_game_round
+CREATE OR REPLACE FUNCTION public.record_sprint_game_round(
+    p_total_score NUMERIC,
+    p_accuracy_rate NUMERIC,
+    p_speed_score NUMERIC,
+    p_best_streak INTEGER,
+    p_fastest_window_ms INTEGER,
+    p_time_used_seconds INTEGER,
+    p_words_total INTEGER,
+    p_words_correct INTEGER,
+    p_timed_out INTEGER,
+    p_selection_mode TEXT,
+    p_client_date DATE DEFAULT NULL
+)
+RETURNS TABLE(
+    round_id UUID,
+    played_date DATE,
+    total_score NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_today DATE;
+    v_played_date DATE;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'User not authenticated';
+    END IF;
+
+    v_today := (CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Shanghai')::DATE;
+    v_played_date := LEAST(COALESCE(p_client_date, v_today), v_today);
+
+    RETURN QUERY
+    INSERT INTO public.sprint_game_rounds AS rounds (
+        user_id,
+        played_date,
+        total_score,
+        accuracy_rate,
+        speed_score,
+        best_streak,
+        fastest_window_ms,
+        time_used_seconds,
+        words_total,
+        words_correct,
+        timed_out,
+        selection_mode
+    )
+    VALUES (
+        v_user_id,
+        v_played_date,
+        p_total_score,
+        p_accuracy_rate,
+        p_speed_score,
+        LEAST(GREATEST(COALESCE(p_best_streak, 0), 0), p_words_correct),
+        p_fastest_window_ms,
+        p_time_used_seconds,
+        p_words_total,
+        p_words_correct,
+        GREATEST(COALESCE(p_timed_out, 0), 0),
+        p_selection_mode
+    )
+    RETURNING rounds.id AS round_id, rounds.played_date, rounds.total_score;
+END;
+$$;
+
+-- RPC 2: get_sprint_game_leaderboard (best round per user)
+CREATE OR REPLACE FUNCTION public.get_sprint_game_leaderboard(
+    p_scope TEXT DEFAULT 'all_time',
+    p_metric TEXT DEFAULT 'total_score',
+    p_date DATE DEFAULT NULL,
+    p_limit INTEGER DEFAULT 8
+)
+RETURNS TABLE(
+    user_id UUID,
+    rank_position INTEGER,
+    metric_value NUMERIC,
+    total_score NUMERIC,
+    accuracy_rate NUMERIC,
+    speed_score NUMERIC,
+    best_streak INTEGER,
+    fastest_window_ms INTEGER,
+    words_total INTEGER,
+    words_correct INTEGER,
+    time_used_seconds INTEGER,
+    played_date DATE,
+    display_name TEXT,
+    email_masked TEXT,
+    is_current_user BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_scope TEXT;
+    v_metric TEXT;
+    v_today DATE;
+    v_date DATE;
+BEGIN
+    v_scope := CASE WHEN p_scope IN ('daily', 'all_time') THEN p_scope ELSE 'all_time' END;
+    v_metric := CASE WHEN p_metric IN ('total_score', 'accuracy_rate', 'speed_score', 'best_streak') THEN p_metric ELSE 'total_score' END;
+    v_today := (CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Shanghai')::DATE;
+    v_date := LEAST(COALESCE(p_date, v_today), v_today);
+
+    RETURN QUERY
+    WITH candidate_rounds AS (
+        SELECT
+            r.*,
+            CASE v_metric
+                WHEN 'accuracy_rate' THEN r.accuracy_rate * 1000
+                WHEN 'speed_score' THEN r.speed_score
+                WHEN 'best_streak' THEN r.best_streak::NUMERIC
+                ELSE r.total_score
+            END AS metric_value
+        FROM public.sprint_game_rounds r
+        WHERE (
+            (v_scope = 'daily' AND r.played_date = v_date)
+            OR v_scope = 'all_time'
+        )
+        AND (
+            CASE
+                WHEN v_metric = 'speed_score' THEN r.accuracy_rate >= 0.85
+                ELSE true
+            END
+        )
+    ),
+    best_per_user AS (
+        SELECT DISTINCT ON (c.user_id)
+            c.*
+        FROM candidate_rounds c
+        ORDER BY c.user_id, c.metric_value DESC, c.total_score DESC, c.accuracy_rate DESC, c.time_used_seconds ASC, c.played_at ASC
+    ),
+    ranked AS (
+        SELECT
+            b.*,
+            ROW_NUMBER() OVER (
+                ORDER BY b.metric_value DESC, b.total_score DESC, b.accuracy_rate DESC, b.time_used_seconds ASC, b.played_at ASC
+            )::INTEGER AS rank_position
+        FROM best_per_user b
+    )
+    SELECT
+        r.user_id,
+        r.rank_position,
+        r.metric_value,
+        r.total_score,
+        r.accuracy_rate,
+        r.speed_score,
+        r.best_streak,
+        r.fastest_window_ms,
+        r.words_total,
+        r.words_correct,
+        r.time_used_seconds,
+        r.played_date,
+        COALESCE(
+            NULLIF(TRIM(COALESCE(p.username, '')), ''),
+            CASE
+                WHEN POSITION('@' IN u.email) > 0
+                    THEN SUBSTRING(u.email FROM 1 FOR 3) || '****' || SUBSTRING(u.email FROM POSITION('@' IN u.email))
+                ELSE LEFT(u.email, 3) || '****'
+            END
+        ) AS display_name,
+        CASE
+            WHEN POSITION('@' IN u.email) > 0
+                THEN SUBSTRING(u.email FROM 1 FOR 3) || '****' || SUBSTRING(u.email FROM POSITION('@' IN u.email))
+            ELSE LEFT(u.email, 3) || '****'
+        END AS email_masked,
+        (r.user_id = auth.uid())::BOOLEAN AS is_current_user
+    FROM ranked r
+    JOIN auth.users u ON r.user_id = u.id
+    LEFT JOIN public.user_profiles p ON r.user_id = p.user_id
+    WHERE r.rank_position <= GREATEST(p_limit, 1)
+    ORDER BY r.rank_position;
+END;
+$$;
+
+-- ========== Grants ==========
+GRANT SELECT ON public.sprint_game_rounds TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_sprint_game_round TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sprint_game_leaderboard TO authenticated;
@@ -0,0 +1,14 @@
+-- ================================================================
+-- Migration: Word-family drill review mode
+-- Date: 2026-10-19
+--
+-- The FAMILY drill (utils/wordFamily.ts) asks for a derivation of a
+-- library word (act → action). When the answer is itself a library word,
+-- the attempt is logged to word_reviews against that word with mode
+-- 'FAMILY'. The drill is practice only: no rounds table or leaderboard.
+-- ================================================================
+
+-- ========== 1. word_reviews mode ==========
+ALTER TABLE public.word_reviews DROP CONSTRAINT IF EXISTS word_reviews_mode_check;
+ALTER TABLE public.word_reviews
+    ADD CONSTRAINT word_reviews_mode_check CHECK (mode IN ('CLASSIC', 'PUZZLE', 'SCENE', 'RECALL', 'CHOICE', 'SPRINT', 'FAMILY'));
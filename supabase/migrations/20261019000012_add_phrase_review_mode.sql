@@ -0,0 +1,14 @@
+-- ================================================================
+-- Migration: Phrase cloze review mode
+-- Date: 2026-10-19
+--
+-- Phrase practice (utils/collocations.ts) saves suggested collocations as
+-- ordinary 2-3 word entries in the "Phrases" library and tests them as a
+-- cloze. Each answer is logged to word_reviews against the phrase entry
+-- with mode 'PHRASE'. Practice only: no rounds table or leaderboard.
+-- ================================================================
+
+-- ========== 1. word_reviews mode ==========
+ALTER TABLE public.word_reviews DROP CONSTRAINT IF EXISTS word_reviews_mode_check;
+ALTER TABLE public.word_reviews
+    ADD CONSTRAINT word_reviews_mode_check CHECK (mode IN ('CLASSIC', 'PUZZLE', 'SCENE', 'RECALL', 'CHOICE', 'SPRINT', 'FAMILY', 'PHRASE'));
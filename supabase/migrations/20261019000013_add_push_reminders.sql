@@ -0,0 +1,171 @@
+-- ================================================================
+-- Migration: Web Push review reminders
+-- Date: 2026-10-19
+--
+-- Browsers subscribe through public/sw.js and store their push endpoint
+-- in push_subscriptions (register_push_subscription, which hands a shared
+-- browser's endpoint to whoever signed in last; the client deletes it on
+-- sign-out); reminder_preferences holds each user's quiet
+-- hours and frequency. The send-reminders edge function (run on a
+-- schedule with the service role key) reads get_reminder_status for
+-- every enabled user and decides what to send with the rules in
+-- supabase/functions/send-reminders/reminderRules.ts.
+-- ================================================================
+
+-- ========== 1. push_subscriptions ==========
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id         UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    endpoint        TEXT NOT NULL UNIQUE,
+    p256dh          TEXT NOT NULL,
+    auth            TEXT NOT NULL,
+    user_agent      TEXT,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+    last_sent_at    TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS push_subscriptions_user_idx
+    ON public.push_subscriptions (user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Users read and delete their own rows; writes go through
+-- register_push_subscription, since an endpoint can belong to another
+-- account that signed in on the same browser before
+DROP POLICY IF EXISTS "Users manage own push subscriptions" ON public.push_subscriptions;
+DROP POLICY IF EXISTS "Users read own push subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users read own push subscriptions" ON public.push_subscriptions
+    FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users delete own push subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users delete own push subscriptions" ON public.push_subscriptions
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Store this browser's subscription for the caller. The endpoint is
+-- unique, so a row left by another account on the same browser moves to
+-- the caller (holding the endpoint proves it is this browser's).
+CREATE OR REPLACE FUNCTION public.register_push_subscription(
+    p_endpoint TEXT,
+    p_p256dh TEXT,
+    p_auth TEXT,
+    p_user_agent TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'not_authenticated');
+    END IF;
+    IF COALESCE(TRIM(p_endpoint), '') = '' OR COALESCE(p_p256dh, '') = '' OR COALESCE(p_auth, '') = '' THEN
+        RETURN jsonb_build_object('error', 'invalid_subscription');
+    END IF;
+
+    INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+    VALUES (v_user_id, p_endpoint, p_p256dh, p_auth, LEFT(p_user_agent, 255))
+    ON CONFLICT (endpoint) DO UPDATE SET
+        user_id = EXCLUDED.user_id,
+        p256dh = EXCLUDED.p256dh,
+        auth = EXCLUDED.auth,
+        user_agent = EXCLUDED.user_agent,
+        created_at = CASE WHEN push_subscriptions.user_id = EXCLUDED.user_id
+                          THEN push_subscriptions.created_at ELSE now() END,
+        last_sent_at = CASE WHEN push_subscriptions.user_id = EXCLUDED.user_id
+                            THEN push_subscriptions.last_sent_at END;
+
+    RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- ========== 2. reminder_preferences ==========
+-- quiet_*_minutes are minutes after local midnight in time_zone; equal
+-- values mean no quiet hours. last_* columns are written by the edge
+-- function only, to space out reminders.
+CREATE TABLE IF NOT EXISTS public.reminder_preferences (
+    user_id                 UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    enabled                 BOOLEAN NOT NULL DEFAULT FALSE,
+    frequency               TEXT NOT NULL DEFAULT 'daily'
+                            CHECK (frequency IN ('daily', 'twice_daily', 'every_4_hours')),
+    quiet_start_minutes     SMALLINT NOT NULL DEFAULT 1320 CHECK (quiet_start_minutes BETWEEN 0 AND 1439),
+    quiet_end_minutes       SMALLINT NOT NULL DEFAULT 480 CHECK (quiet_end_minutes BETWEEN 0 AND 1439),
+    time_zone               TEXT NOT NULL DEFAULT 'Asia/Shanghai',
+    last_due_reminder_at    TIMESTAMPTZ,
+    last_streak_reminder_on DATE,
+    updated_at              TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS reminder_preferences_enabled_idx
+    ON public.reminder_preferences (user_id) WHERE enabled;
+
+ALTER TABLE public.reminder_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage own reminder preferences" ON public.reminder_preferences;
+CREATE POLICY "Users manage own reminder preferences" ON public.reminder_preferences
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- ========== 3. get_reminder_status ==========
+-- Due-word count (same rule as the client's isWordDue, minus words out
+-- of rotation) and the login streak as claim_daily_login_reward counts
+-- it: consecutive Asia/Shanghai check-in days ending today or yesterday.
+CREATE OR REPLACE FUNCTION public.get_reminder_status(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_today         DATE;
+    v_checked_today BOOLEAN;
+    v_check_day     DATE;
+    v_streak        INTEGER := 0;
+    v_due_count     INTEGER;
+BEGIN
+    v_today := (CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Shanghai')::DATE;
+
+    v_checked_today := EXISTS (
+        SELECT 1 FROM daily_check_ins
+        WHERE user_id = p_user_id AND check_in_date = v_today
+    );
+
+    v_check_day := CASE WHEN v_checked_today THEN v_today ELSE v_today - 1 END;
+    LOOP
+        EXIT WHEN NOT EXISTS (
+            SELECT 1 FROM daily_check_ins
+            WHERE user_id = p_user_id AND check_in_date = v_check_day
+        );
+        v_streak    := v_streak + 1;
+        v_check_day := v_check_day - 1;
+    END LOOP;
+
+    SELECT COUNT(*) INTO v_due_count
+    FROM words
+    WHERE user_id = p_user_id
+      AND deleted IS NOT TRUE
+      AND suspended IS NOT TRUE
+      AND known IS NOT TRUE
+      AND (buried_until IS NULL OR buried_until <= now())
+      AND (
+          next_review_at <= now()
+          OR (next_review_at IS NULL AND tested AND last_tested IS NOT NULL)
+      );
+
+    RETURN jsonb_build_object(
+        'due_count',        v_due_count,
+        'current_streak',   v_streak,
+        'checked_in_today', v_checked_today
+    );
+END;
+$$;
+
+-- ========== Grants ==========
+GRANT SELECT, DELETE ON public.push_subscriptions TO authenticated;
+REVOKE INSERT, UPDATE ON public.push_subscriptions FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.register_push_subscription TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.reminder_preferences TO authenticated;
+
+-- Service-only: called from the send-reminders edge function with the
+-- service role key. Not granted to anon/authenticated.
+REVOKE EXECUTE ON FUNCTION public.get_reminder_status(UUID) FROM PUBLIC, anon, authenticated;
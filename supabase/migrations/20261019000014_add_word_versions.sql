@@ -0,0 +1,36 @@
+-- ================================================================
+-- Migration: Per-word versions for multi-device merges
+-- Date: 2026-10-19
+--
+-- words.version increases on every update (trigger below), so a client
+-- can write with "WHERE version = <what I read>" and re-merge when
+-- another device got there first. words.field_versions records who last
+-- wrote each text / meaning field as a version vector, for the
+-- last-writer-wins rules in utils/wordMerge.ts:
+--   { "<field>": { "vv": { "<device id>": <edits> }, "at": <ms>, "device": "<device id>" } }
+-- ================================================================
+
+ALTER TABLE public.words
+  ADD COLUMN IF NOT EXISTS version BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS field_versions JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.words.version IS
+'Bumped on every update; clients compare-and-swap on it.';
+COMMENT ON COLUMN public.words.field_versions IS
+'Per-field version vectors for last-writer-wins text / meaning edits.';
+
+CREATE OR REPLACE FUNCTION public.bump_word_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    NEW.version := COALESCE(OLD.version, 0) + 1;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS words_bump_version ON public.words;
+CREATE TRIGGER words_bump_version
+    BEFORE UPDATE ON public.words
+    FOR EACH ROW
+    EXECUTE FUNCTION public.bump_word_version();
@@ -0,0 +1,207 @@
+-- ================================================================
+-- Migration: Server-verified puzzle and scene rounds
+-- Date: 2026-10-19
+--
+-- Ranked puzzle / scene rounds are now written only by the verify-round
+-- edge function, after it has checked the signed round log and
+-- recomputed the score with supabase/functions/verify-round/roundScoring.ts.
+-- Clients lose every direct write path (INSERT policies and the old
+-- record_* RPCs).
+--
+-- round_nonce is the roundId of the signed ticket: a replayed submission
+-- (offline outbox, double tap) returns the existing row instead of
+-- inserting a second one.
+-- ================================================================
+
+ALTER TABLE public.puzzle_game_rounds
+  ADD COLUMN IF NOT EXISTS round_nonce UUID UNIQUE;
+ALTER TABLE public.scene_game_rounds
+  ADD COLUMN IF NOT EXISTS round_nonce UUID UNIQUE;
+
+COMMENT ON COLUMN public.puzzle_game_rounds.round_nonce IS
+'roundId of the verify-round ticket; one row per ticket.';
+COMMENT ON COLUMN public.scene_game_rounds.round_nonce IS
+'roundId of the verify-round ticket; one row per ticket.';
+
+-- ----------------------------------------------------------------
+-- 1. Close the client write paths
+-- ----------------------------------------------------------------
+DROP POLICY IF EXISTS "Users can insert own puzzle rounds" ON public.puzzle_game_rounds;
+DROP POLICY IF EXISTS "Users can insert own scene rounds" ON public.scene_game_rounds;
+
+REVOKE EXECUTE ON FUNCTION public.record_puzzle_game_round FROM PUBLIC, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_scene_game_round FROM PUBLIC, authenticated;
+
+-- ----------------------------------------------------------------
+-- 2. record_verified_puzzle_round (service role only)
+-- ----------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.record_verified_puzzle_round(
+    p_user_id UUID,
+    p_round_nonce UUID,
+    p_total_score NUMERIC,
+    p_accuracy_rate NUMERIC,
+    p_speed_score NUMERIC,
+    p_no_hint_score NUMERIC,
+    p_time_used_seconds INTEGER,
+    p_seconds_remaining INTEGER,
+    p_hints_used INTEGER,
+    p_words_total INTEGER,
+    p_words_correct INTEGER,
+    p_solved_without_hint INTEGER,
+    p_selection_mode TEXT,
+    p_client_date DATE DEFAULT NULL
+)
+RETURNS TABLE(
+    round_id UUID,
+    played_date DATE,
+    total_score NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_today DATE;
+    v_played_date DATE;
+BEGIN
+    v_today := (CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Shanghai')::DATE;
+    v_played_date := LEAST(COALESCE(p_client_date, v_today), v_today);
+
+    INSERT INTO public.puzzle_game_rounds (
+        user_id,
+        round_nonce,
+        played_date,
+        total_score,
+        accuracy_rate,
+        speed_score,
+        no_hint_score,
+        time_used_seconds,
+        seconds_remaining,
+        hints_used,
+        words_total,
+        words_correct,
+        solved_without_hint,
+        selection_mode
+    )
+    VALUES (
+        p_user_id,
+        p_round_nonce,
+        v_played_date,
+        p_total_score,
+        p_accuracy_rate,
+        p_speed_score,
+        p_no_hint_score,
+        p_time_used_seconds,
+        p_seconds_remaining,
+        p_hints_used,
+        p_words_total,
+        p_words_correct,
+        p_solved_without_hint,
+        p_selection_mode
+    )
+    ON CONFLICT (round_nonce) DO NOTHING;
+
+    RETURN QUERY
+    SELECT rounds.id, rounds.played_date, rounds.total_score
+    FROM public.puzzle_game_rounds AS rounds
+    WHERE rounds.round_nonce = p_round_nonce
+      AND rounds.user_id = p_user_id;
+END;
+$$;
+
+-- ----------------------------------------------------------------
+-- 3. record_verified_scene_round (service role only)
+-- ----------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.record_verified_scene_round(
+    p_user_id UUID,
+    p_round_nonce UUID,
+    p_play_mode TEXT,
+    p_selection_mode TEXT,
+    p_day_index INTEGER,
+    p_word_count INTEGER,
+    p_total_duration_seconds INTEGER,
+    p_total_score NUMERIC,
+    p_accuracy_rate NUMERIC,
+    p_speed_score NUMERIC,
+    p_no_hint_score NUMERIC,
+    p_time_used_seconds INTEGER,
+    p_seconds_remaining INTEGER,
+    p_hints_used INTEGER,
+    p_words_total INTEGER,
+    p_words_correct INTEGER,
+    p_solved_without_hint INTEGER,
+    p_scene_asset_id UUID DEFAULT NULL,
+    p_client_date DATE DEFAULT NULL
+)
+RETURNS TABLE(
+    round_id UUID,
+    played_date DATE,
+    total_score NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_today DATE;
+    v_played_date DATE;
+BEGIN
+    v_today := (CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Shanghai')::DATE;
+    v_played_date := LEAST(COALESCE(p_client_date, v_today), v_today);
+
+    INSERT INTO public.scene_game_rounds (
+        user_id,
+        round_nonce,
+        played_date,
+        play_mode,
+        selection_mode,
+        day_index,
+        word_count,
+        total_duration_seconds,
+        total_score,
+        accuracy_rate,
+        speed_score,
+        no_hint_score,
+        time_used_seconds,
+        seconds_remaining,
+        hints_used,
+        words_total,
+        words_correct,
+        solved_without_hint,
+        scene_asset_id
+    )
+    VALUES (
+        p_user_id,
+        p_round_nonce,
+        v_played_date,
+        p_play_mode,
+        p_selection_mode,
+        p_day_index,
+        p_word_count,
+        p_total_duration_seconds,
+        p_total_score,
+        p_accuracy_rate,
+        p_speed_score,
+        p_no_hint_score,
+        p_time_used_seconds,
+        p_seconds_remaining,
+        p_hints_used,
+        p_words_total,
+        p_words_correct,
+        p_solved_without_hint,
+        p_scene_asset_id
+    )
+    ON CONFLICT (round_nonce) DO NOTHING;
+
+    RETURN QUERY
+    SELECT rounds.id, rounds.played_date, rounds.total_score
+    FROM public.scene_game_rounds AS rounds
+    WHERE rounds.round_nonce = p_round_nonce
+      AND rounds.user_id = p_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_verified_puzzle_round FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_verified_scene_round FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_verified_puzzle_round TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_verified_scene_round TO service_role;
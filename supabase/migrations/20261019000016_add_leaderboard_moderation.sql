@@ -0,0 +1,912 @@
+-- ================================================================
+-- Migration: Leaderboard moderation (anti-cheat review queue)
+-- Date: 2026-10-19
+--
+-- verify-round records every verified puzzle / scene round together with
+-- its word set hash and the heuristic flags from
+-- supabase/functions/verify-round/roundFlags.ts. Flagged rounds stay
+-- ranked until an admin reviews them in AdminConsole (排行审核):
+--   visible  → no flags
+--   flagged  → waiting for review, still ranked
+--   hidden   → removed from every leaderboard below
+--   cleared  → reviewed and kept
+-- Every decision goes through moderate_game_round, which writes the
+-- audit trail in leaderboard_moderation_log in the same transaction.
+-- ================================================================
+
+-- ----------------------------------------------------------------
+-- 1. Moderation columns
+-- ----------------------------------------------------------------
+ALTER TABLE public.puzzle_game_rounds
+  ADD COLUMN IF NOT EXISTS word_set_hash TEXT,
+  ADD COLUMN IF NOT EXISTS flags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'visible'
+    CHECK (moderation_status IN ('visible', 'flagged', 'hidden', 'cleared')),
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMPTZ;
+
+ALTER TABLE public.scene_game_rounds
+  ADD COLUMN IF NOT EXISTS word_set_hash TEXT,
+  ADD COLUMN IF NOT EXISTS flags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'visible'
+    CHECK (moderation_status IN ('visible', 'flagged', 'hidden', 'cleared')),
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS puzzle_game_rounds_word_set_idx
+    ON public.puzzle_game_rounds (user_id, word_set_hash, played_at DESC);
+CREATE INDEX IF NOT EXISTS scene_game_rounds_word_set_idx
+    ON public.scene_game_rounds (user_id, word_set_hash, played_at DESC);
+CREATE INDEX IF NOT EXISTS puzzle_game_rounds_moderation_idx
+    ON public.puzzle_game_rounds (played_at DESC) WHERE moderation_status IN ('flagged', 'hidden');
+CREATE INDEX IF NOT EXISTS scene_game_rounds_moderation_idx
+    ON public.scene_game_rounds (played_at DESC) WHERE moderation_status IN ('flagged', 'hidden');
+
+-- ----------------------------------------------------------------
+-- 2. record_verified_*_round stamp the hash and flags in the insert
+--    A round is never on a leaderboard unstamped, and a replay
+--    (ON CONFLICT DO NOTHING) cannot undo a moderator's decision.
+-- ----------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.record_verified_puzzle_round(UUID, UUID, NUMERIC, NUMERIC, NUMERIC, NUMERIC, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER, TEXT, DATE);
+
+CREATE OR REPLACE FUNCTION public.record_verified_puzzle_round(
+    p_user_id UUID,
+    p_round_nonce UUID,
+    p_total_score NUMERIC,
+    p_accuracy_rate NUMERIC,
+    p_speed_score NUMERIC,
+    p_no_hint_score NUMERIC,
+    p_time_used_seconds INTEGER,
+    p_seconds_remaining INTEGER,
+    p_hints_used INTEGER,
+    p_words_total INTEGER,
+    p_words_correct INTEGER,
+    p_solved_without_hint INTEGER,
+    p_selection_mode TEXT,
+    p_client_date DATE DEFAULT NULL,
+    p_word_set_hash TEXT DEFAULT NULL,
+    p_flags TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE(
+    round_id UUID,
+    played_date DATE,
+    total_score NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_today DATE;
+    v_played_date DATE;
+BEGIN
+    v_today := (CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Shanghai')::DATE;
+    v_played_date := LEAST(COALESCE(p_client_date, v_today), v_today);
+
+    INSERT INTO public.puzzle_game_rounds (
+        user_id,
+        round_nonce,
+        played_date,
+        total_score,
+        accuracy_rate,
+        speed_score,
+        no_hint_score,
+        time_used_seconds,
+        seconds_remaining,
+        hints_used,
+        words_total,
+        words_correct,
+        solved_without_hint,
+        selection_mode,
+        word_set_hash,
+        flags,
+        moderation_status
+    )
+    VALUES (
+        p_user_id,
+        p_round_nonce,
+        v_played_date,
+        p_total_score,
+        p_accuracy_rate,
+        p_speed_score,
+        p_no_hint_score,
+        p_time_used_seconds,
+        p_seconds_remaining,
+        p_hints_used,
+        p_words_total,
+        p_words_correct,
+        p_solved_without_hint,
+        p_selection_mode,
+        p_word_set_hash,
+        COALESCE(p_flags, '{}'),
+        CASE WHEN COALESCE(cardinality(p_flags), 0) > 0 THEN 'flagged' ELSE 'visible' END
+    )
+    ON CONFLICT (round_nonce) DO NOTHING;
+
+    RETURN QUERY
+    SELECT rounds.id, rounds.played_date, rounds.total_score
+    FROM public.puzzle_game_rounds AS rounds
+    WHERE rounds.round_nonce = p_round_nonce
+      AND rounds.user_id = p_user_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.record_verified_scene_round(UUID, UUID, TEXT, TEXT, INTEGER, INTEGER, INTEGER, NUMERIC, NUMERIC, NUMERIC, NUMERIC, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER, UUID, DATE);
+
+CREATE OR REPLACE FUNCTION public.record_verified_scene_round(
+    p_user_id UUID,
+    p_round_nonce UUID,
+    p_play_mode TEXT,
+    p_selection_mode TEXT,
+    p_day_index INTEGER,
+    p_word_count INTEGER,
+    p_total_duration_seconds INTEGER,
+    p_total_score NUMERIC,
+    p_accuracy_rate NUMERIC,
+    p_speed_score NUMERIC,
+    p_no_hint_score NUMERIC,
+    p_time_used_seconds INTEGER,
+    p_seconds_remaining INTEGER,
+    p_hints_used INTEGER,
+    p_words_total INTEGER,
+    p_words_correct INTEGER,
+    p_solved_without_hint INTEGER,
+    p_scene_asset_id UUID DEFAULT NULL,
+    p_client_date DATE DEFAULT NULL,
+    p_word_set_hash TEXT DEFAULT NULL,
+    p_flags TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE(
+    round_id UUID,
+    played_date DATE,
+    total_score NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_today DATE;
+    v_played_date DATE;
+BEGIN
+    v_today := (CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Shanghai')::DATE;
+    v_played_date := LEAST(COALESCE(p_client_date, v_today), v_today);
+
+    INSERT INTO public.scene_game_rounds (
+        user_id,
+        round_nonce,
+        played_date,
+        play_mode,
+        selection_mode,
+        day_index,
+        word_count,
+        total_duration_seconds,
+        total_score,
+        accuracy_rate,
+        speed_score,
+        no_hint_score,
+        time_used_seconds,
+        seconds_remaining,
+        hints_used,
+        words_total,
+        words_correct,
+        solved_without_hint,
+        scene_asset_id,
+        word_set_hash,
+        flags,
+        moderation_status
+    )
+    VALUES (
+        p_user_id,
+        p_round_nonce,
+        v_played_date,
+        p_play_mode,
+        p_selection_mode,
+        p_day_index,
+        p_word_count,
+        p_total_duration_seconds,
+        p_total_score,
+        p_accuracy_rate,
+        p_speed_score,
+        p_no_hint_score,
+        p_time_used_seconds,
+        p_seconds_remaining,
+        p_hints_used,
+        p_words_total,
+        p_words_correct,
+        p_solved_without_hint,
+        p_scene_asset_id,
+        p_word_set_hash,
+        COALESCE(p_flags, '{}'),
+        CASE WHEN COALESCE(cardinality(p_flags), 0) > 0 THEN 'flagged' ELSE 'visible' END
+    )
+    ON CONFLICT (round_nonce) DO NOTHING;
+
+    RETURN QUERY
+    SELECT rounds.id, rounds.played_date, rounds.total_score
+    FROM public.scene_game_rounds AS rounds
+    WHERE rounds.round_nonce = p_round_nonce
+      AND rounds.user_id = p_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_verified_puzzle_round FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_verified_scene_round FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_verified_puzzle_round TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_verified_scene_round TO service_role;
+
+-- ----------------------------------------------------------------
+-- 3. Audit trail (service role only: RLS on, no policies)
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.leaderboard_moderation_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    round_mode TEXT NOT NULL CHECK (round_mode IN ('PUZZLE', 'SCENE')),
+    round_id UUID NOT NULL,
+    round_user_id UUID NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('hide', 'restore', 'clear')),
+    previous_status TEXT NOT NULL,
+    new_status TEXT NOT NULL,
+    flags TEXT[] NOT NULL DEFAULT '{}',
+    note TEXT,
+    moderator_id UUID,
+    moderator_email TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.leaderboard_moderation_log ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS leaderboard_moderation_log_created_idx
+    ON public.leaderboard_moderation_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS leaderboard_moderation_log_round_idx
+    ON public.leaderboard_moderation_log (round_mode, round_id);
+
+-- ----------------------------------------------------------------
+-- 4. moderate_game_round (service role only)
+--    hide    → hidden   (off every leaderboard)
+--    restore → cleared  (undo a hide)
+--    clear   → cleared  (flags reviewed, round stays)
+-- ----------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.moderate_game_round(
+    p_mode TEXT,
+    p_round_id UUID,
+    p_action TEXT,
+    p_moderator_id UUID,
+    p_moderator_email TEXT,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+    round_id UUID,
+    moderation_status TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_new_status TEXT;
+    v_user_id UUID;
+    v_previous TEXT;
+    v_flags TEXT[];
+BEGIN
+    v_new_status := CASE p_action
+        WHEN 'hide' THEN 'hidden'
+        WHEN 'restore' THEN 'cleared'
+        WHEN 'clear' THEN 'cleared'
+    END;
+    IF v_new_status IS NULL THEN
+        RAISE EXCEPTION 'unknown moderation action: %', p_action;
+    END IF;
+
+    IF p_mode = 'PUZZLE' THEN
+        SELECT r.user_id, r.moderation_status, r.flags INTO v_user_id, v_previous, v_flags
+        FROM public.puzzle_game_rounds r WHERE r.id = p_round_id FOR UPDATE;
+    ELSIF p_mode = 'SCENE' THEN
+        SELECT r.user_id, r.moderation_status, r.flags INTO v_user_id, v_previous, v_flags
+        FROM public.scene_game_rounds r WHERE r.id = p_round_id FOR UPDATE;
+    ELSE
+        RAISE EXCEPTION 'unknown round mode: %', p_mode;
+    END IF;
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'round not found: % %', p_mode, p_round_id;
+    END IF;
+
+    IF p_mode = 'PUZZLE' THEN
+        UPDATE public.puzzle_game_rounds
+        SET moderation_status = v_new_status, moderated_at = now()
+        WHERE id = p_round_id;
+    ELSE
+        UPDATE public.scene_game_rounds
+        SET moderation_status = v_new_status, moderated_at = now()
+        WHERE id = p_round_id;
+    END IF;
+
+    INSERT INTO public.leaderboard_moderation_log (
+        round_mode, round_id, round_user_id, action, previous_status, new_status,
+        flags, note, moderator_id, moderator_email
+    )
+    VALUES (
+        p_mode, p_round_id, v_user_id, p_action, v_previous, v_new_status,
+        COALESCE(v_flags, '{}'), NULLIF(TRIM(COALESCE(p_note, '')), ''), p_moderator_id, p_moderator_email
+    );
+
+    RETURN QUERY SELECT p_round_id, v_new_status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.moderate_game_round FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.moderate_game_round TO service_role;
+
+-- ----------------------------------------------------------------
+-- 5. get_puzzle_game_leaderboard — skip hidden rounds
+-- ----------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_puzzle_game_leaderboard(
+    p_scope TEXT DEFAULT 'all_time',
+    p_metric TEXT DEFAULT 'total_score',
+    p_date DATE DEFAULT NULL,
+    p_limit INTEGER DEFAULT 3
+)
+RETURNS TABLE(
+    user_id UUID,
+    rank_position INTEGER,
+    metric_value NUMERIC,
+    total_score NUMERIC,
+    accuracy_rate NUMERIC,
+    speed_score NUMERIC,
+    no_hint_score NUMERIC,
+    hints_used INTEGER,
+    words_total INTEGER,
+    words_correct INTEGER,
+    time_used_seconds INTEGER,
+    played_date DATE,
+    display_name TEXT,
+    email_masked TEXT,
+    is_current_user BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_scope TEXT;
+    v_metric TEXT;
+    v_today DATE;
+    v_date DATE;
+BEGIN
+    v_scope := CASE WHEN p_scope IN ('daily', 'all_time') THEN p_scope ELSE 'all_time' END;
+    v_metric := CASE WHEN p_metric IN ('total_score', 'accuracy_rate', 'speed_score', 'no_hint_score') THEN p_metric ELSE 'total_score' END;
+    v_today := (CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Shanghai')::DATE;
+    v_date := LEAST(COALESCE(p_date, v_today), v_today);
+
+    RETURN QUERY
+    WITH candidate_rounds AS (
+        SELECT
+            r.*,
+            CASE v_metric
+                WHEN 'accuracy_rate' THEN r.accuracy_rate * 1000
+                WHEN 'speed_score' THEN r.speed_score
+                WHEN 'no_hint_score' THEN r.no_hint_score
+                ELSE r.total_score
+            END AS metric_value
+        FROM public.puzzle_game_rounds r
+        WHERE r.moderation_status <> 'hidden'
+        AND (
+            (v_scope = 'daily' AND r.played_date = v_date)
+            OR v_scope = 'all_time'
+        )
+        AND (
+            CASE
+                WHEN v_metric IN ('speed_score', 'no_hint_score') THEN r.accuracy_rate >= 0.85
+                ELSE true
+            END
+        )
+    ),
+    best_per_user AS (
+        SELECT DISTINCT ON (c.user_id)
+            c.*
+        FROM candidate_rounds c
+        ORDER BY c.user_id, c.metric_value DESC, c.total_score DESC, c.accuracy_rate DESC, c.time_used_seconds ASC, c.played_at ASC
+    ),
+    ranked AS (
+        SELECT
+            b.*,
+            ROW_NUMBER() OVER (
+                ORDER BY b.metric_value DESC, b.total_score DESC, b.accuracy_rate DESC, b.time_used_seconds ASC, b.played_at ASC
+            )::INTEGER AS rank_position
+        FROM best_per_user b
+    )
+    SELECT
+        r.user_id,
+        r.rank_position,
+        r.metric_value,
+        r.total_score,
+        r.accuracy_rate,
+        r.speed_score,
+        r.no_hint_score,
+        r.hints_used,
+        r.words_total,
+        r.words_correct,
+        r.time_used_seconds,
+        r.played_date,
+        COALESCE(
+            NULLIF(TRIM(COALESCE(p.username, '')), ''),
+            CASE
+                WHEN POSITION('@' IN u.email) > 0
+                    THEN SUBSTRING(u.email FROM 1 FOR 3) || '****' || SUBSTRING(u.email FROM POSITION('@' IN u.email))
+                ELSE LEFT(u.email, 3) || '****'
+            END
+        ) AS display_name,
+        CASE
+            WHEN POSITION('@' IN u.email) > 0
+                THEN SUBSTRING(u.email FROM 1 FOR 3) || '****' || SUBSTRING(u.email FROM POSITION('@' IN u.email))
+            ELSE LEFT(u.email, 3) || '****'
+        END AS email_masked,
+        (r.user_id = auth.uid())::BOOLEAN AS is_current_user
+    FROM ranked r
+    JOIN auth.users u ON r.user_id = u.id
+    LEFT JOIN public.user_profiles p ON r.user_id = p.user_id
+    WHERE r.rank_position <= GREATEST(p_limit, 1)
+    ORDER BY r.rank_position;
+END;
+$$;
+
+-- ----------------------------------------------------------------
+-- 6. get_scene_game_leaderboard — skip hidden rounds
+-- ----------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_scene_game_leaderboard(
+    p_scope TEXT DEFAULT 'all_time',
+    p_metric TEXT DEFAULT 'total_score',
+    p_play_mode TEXT DEFAULT NULL,
+    p_date DATE DEFAULT NULL,
+    p_limit INTEGER DEFAULT 8
+)
+RETURNS TABLE(
+    user_id UUID,
+    rank_position INTEGER,
+    metric_value NUMERIC,
+    total_score NUMERIC,
+    accuracy_rate NUMERIC,
+    speed_score NUMERIC,
+    play_mode TEXT,
+    words_total INTEGER,
+    words_correct INTEGER,
+    time_used_seconds INTEGER,
+    played_date DATE,
+    display_name TEXT,
+    email_masked TEXT,
+    is_current_user BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_scope TEXT;
+    v_metric TEXT;
+    v_play_mode TEXT;
+    v_today DATE;
+    v_date DATE;
+BEGIN
+    v_scope := CASE WHEN p_scope IN ('daily', 'all_time') THEN p_scope ELSE 'all_time' END;
+    v_metric := CASE WHEN p_metric IN ('total_score', 'accuracy_rate', 'speed_score') THEN p_metric ELSE 'total_score' END;
+    v_play_mode := CASE WHEN p_play_mode IN ('spell', 'haystack') THEN p_play_mode ELSE NULL END;
+    v_today := (CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Shanghai')::DATE;
+    v_date := LEAST(COALESCE(p_date, v_today), v_today);
+
+    RETURN QUERY
+    WITH candidate_rounds AS (
+        SELECT
+            r.*,
+            CASE v_metric
+                WHEN 'accuracy_rate' THEN r.accuracy_rate * 1000
+                WHEN 'speed_score' THEN r.speed_score
+                ELSE r.total_score
+            END AS metric_value
+        FROM public.scene_game_rounds r
+        WHERE r.moderation_status <> 'hidden'
+        AND (
+            (v_scope = 'daily' AND r.played_date = v_date)
+            OR v_scope = 'all_time'
+        )
+        AND (v_play_mode IS NULL OR r.play_mode = v_play_mode)
+        AND (
+            CASE
+                WHEN v_metric = 'speed_score' THEN r.accuracy_rate >= 0.85
+                ELSE true
+            END
+        )
+    ),
+    best_per_user AS (
+        SELECT DISTINCT ON (c.user_id)
+            c.*
+        FROM candidate_rounds c
+        ORDER BY c.user_id, c.metric_value DESC, c.total_score DESC, c.accuracy_rate DESC, c.time_used_seconds ASC, c.played_at ASC
+    ),
+    ranked AS (
+        SELECT
+            b.*,
+            ROW_NUMBER() OVER (
+                ORDER BY b.metric_value DESC, b.total_score DESC, b.accuracy_rate DESC, b.time_used_seconds ASC, b.played_at ASC
+            )::INTEGER AS rank_position
+        FROM best_per_user b
+    )
+    SELECT
+        r.user_id,
+        r.rank_position,
+        r.metric_value,
+        r.total_score,
+        r.accuracy_rate,
+        r.speed_score,
+        r.play_mode,
+        r.words_total,
+        r.words_correct,
+        r.time_used_seconds,
+        r.played_date,
+        COALESCE(
+            NULLIF(TRIM(COALESCE(p.username, '')), ''),
+            CASE
+                WHEN POSITION('@' IN u.email) > 0
+                    THEN SUBSTRING(u.email FROM 1 FOR 3) || '****' || SUBSTRING(u.email FROM POSITION('@' IN u.email))
+                ELSE LEFT(u.email, 3) || '****'
+            END
+        ) AS display_name,
+        CASE
+            WHEN POSITION('@' IN u.email) > 0
+                THEN SUBSTRING(u.email FROM 1 FOR 3) || '****' || SUBSTRING(u.email FROM POSITION('@' IN u.email))
+            ELSE LEFT(u.email, 3) || '****'
+        END AS email_masked,
+        (r.user_id = auth.uid())::BOOLEAN AS is_current_user
+    FROM ranked r
+    JOIN auth.users u ON r.user_id = u.id
+    LEFT JOIN public.user_profiles p ON r.user_id = p.user_id
+    WHERE r.rank_position <= GREATEST(p_limit, 1)
+    ORDER BY r.rank_position;
+END;
+$$;
+
+-- ----------------------------------------------------------------
+-- 7. get_global_champions() / get_global_leaderboard() — game_total
+--    skips hidden rounds
+-- ----------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_global_champions()
+RETURNS TABLE (
+  category          TEXT,
+  category_label    TEXT,
+  category_icon     TEXT,
+  champion_user_id  UUID,
+  champion_name     TEXT,
+  champion_avatar   TEXT,
+  score_value       NUMERIC,
+  score_label       TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- daily_total
+  RETURN QUERY
+  SELECT
+    'daily_total'::TEXT  AS category,
+    '日常总分'::TEXT      AS category_label,
+    'emoji_events'::TEXT AS category_icon,
+    u.id                 AS champion_user_id,
+    COALESCE(NULLIF(TRIM(COALESCE(up.username, '')), ''), split_part(u.email, '@', 1)) AS champion_name,
+    up.avatar_url        AS champion_avatar,
+    s.score              AS score_value,
+    TO_CHAR(s.score, 'FM999,999,990') || ' 分' AS score_label
+  FROM (
+    SELECT l.user_id AS uid, SUM(l.total_score) AS score
+    FROM public.leaderboards l
+    GROUP BY l.user_id
+    ORDER BY score DESC
+    LIMIT 1
+  ) s
+  JOIN auth.users u ON u.id = s.uid
+  LEFT JOIN public.user_profiles up ON up.user_id = s.uid;
+
+  -- achievements
+  RETURN QUERY
+  SELECT
+    'achievements'::TEXT  AS category,
+    '成就解锁'::TEXT       AS category_label,
+    'military_tech'::TEXT AS category_icon,
+    u.id                  AS champion_user_id,
+    COALESCE(NULLIF(TRIM(COALESCE(up.username, '')), ''), split_part(u.email, '@', 1)) AS champion_name,
+    up.avatar_url         AS champion_avatar,
+    s.score               AS score_value,
+    TO_CHAR(s.score, 'FM999,999,990') || ' 个' AS score_label
+  FROM (
+    SELECT ua.user_id, COUNT(*)::NUMERIC AS score
+    FROM public.user_achievements ua
+    GROUP BY ua.user_id
+    ORDER BY score DESC
+    LIMIT 1
+  ) s
+  JOIN auth.users u ON u.id = s.user_id
+  LEFT JOIN public.user_profiles up ON up.user_id = s.user_id;
+
+  -- game_total
+  RETURN QUERY
+  SELECT
+    'game_total'::TEXT     AS category,
+    '游戏总分'::TEXT        AS category_label,
+    'sports_esports'::TEXT AS category_icon,
+    u.id                   AS champion_user_id,
+    COALESCE(NULLIF(TRIM(COALESCE(up.username, '')), ''), split_part(u.email, '@', 1)) AS champion_name,
+    up.avatar_url          AS champion_avatar,
+    s.score                AS score_value,
+    TO_CHAR(s.score, 'FM999,999,990') || ' 分' AS score_label
+  FROM (
+    SELECT rr.uid, SUM(rr.total_score) AS score
+    FROM (
+      SELECT pgr.user_id AS uid, pgr.total_score AS total_score
+      FROM public.puzzle_game_rounds pgr
+      WHERE pgr.moderation_status <> 'hidden'
+      UNION ALL
+      SELECT sgr.user_id AS uid, sgr.total_score AS total_score
+      FROM public.scene_game_rounds sgr
+      WHERE sgr.moderation_status <> 'hidden'
+    ) rr
+    GROUP BY rr.uid
+    ORDER BY score DESC
+    LIMIT 1
+  ) s
+  JOIN auth.users u ON u.id = s.uid
+  LEFT JOIN public.user_profiles up ON up.user_id = s.uid;
+
+  -- word_mastery
+  RETURN QUERY
+  SELECT
+    'word_mastery'::TEXT AS category,
+    '单词掌握'::TEXT      AS category_label,
+    'verified'::TEXT     AS category_icon,
+    u.id                 AS champion_user_id,
+    COALESCE(NULLIF(TRIM(COALESCE(up.username, '')), ''), split_part(u.email, '@', 1)) AS champion_name,
+    up.avatar_url        AS champion_avatar,
+    s.score              AS score_value,
+    TO_CHAR(s.score, 'FM999,999,990') || ' 个' AS score_label
+  FROM (
+    SELECT w.user_id, COUNT(*)::NUMERIC AS score
+    FROM public.words w
+    WHERE w.tested = true
+      AND w.error_count = 0
+      AND (w.deleted = false OR w.deleted IS NULL)
+    GROUP BY w.user_id
+    ORDER BY score DESC
+    LIMIT 1
+  ) s
+  JOIN auth.users u ON u.id = s.user_id
+  LEFT JOIN public.user_profiles up ON up.user_id = s.user_id;
+
+  -- coins (was words_added) — ranked by lifetime_earned
+  RETURN QUERY
+  SELECT
+    'coins'::TEXT        AS category,
+    '财富榜'::TEXT        AS category_label,
+    'monetization_on'::TEXT AS category_icon,
+    u.id                 AS champion_user_id,
+    COALESCE(NULLIF(TRIM(COALESCE(up.username, '')), ''), split_part(u.email, '@', 1)) AS champion_name,
+    up.avatar_url        AS champion_avatar,
+    s.score              AS score_value,
+    TO_CHAR(s.score, 'FM999,999,990') || ' 金币' AS score_label
+  FROM (
+    SELECT w.user_id, w.lifetime_earned::NUMERIC AS score
+    FROM public.user_wallets w
+    ORDER BY score DESC
+    LIMIT 1
+  ) s
+  JOIN auth.users u ON u.id = s.user_id
+  LEFT JOIN public.user_profiles up ON up.user_id = s.user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_global_champions() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_global_leaderboard(
+  p_category TEXT DEFAULT 'daily_total',
+  p_limit    INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  rank_position   INTEGER,
+  user_id         UUID,
+  display_name    TEXT,
+  email_masked    TEXT,
+  avatar_url      TEXT,
+  score_value     NUMERIC,
+  score_label     TEXT,
+  is_current_user BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current UUID := auth.uid();
+  v_limit   INTEGER := GREATEST(p_limit, 1);
+BEGIN
+  CASE p_category
+    -- daily_total
+    WHEN 'daily_total' THEN
+      RETURN QUERY
+      WITH scored AS (
+        SELECT l.user_id AS uid, SUM(l.total_score) AS score_value
+        FROM public.leaderboards l
+        GROUP BY l.user_id
+      ),
+      ranked AS (
+        SELECT sc.uid AS uid, sc.score_value AS score_value,
+               ROW_NUMBER() OVER (ORDER BY sc.score_value DESC) AS rank_position
+        FROM scored sc
+      ),
+      combined AS (
+        SELECT r.uid, r.score_value, r.rank_position
+        FROM ranked r WHERE r.rank_position <= v_limit
+        UNION ALL
+        SELECT r.uid, r.score_value, r.rank_position
+        FROM ranked r WHERE r.uid = v_current AND r.rank_position > v_limit
+      )
+      SELECT c.rank_position::INTEGER,
+             c.uid AS user_id,
+             COALESCE(NULLIF(TRIM(COALESCE(up.username, '')), ''), split_part(u.email, '@', 1)) AS display_name,
+             CONCAT(LEFT(split_part(u.email, '@', 1), 2), '***') AS email_masked,
+             up.avatar_url,
+             c.score_value,
+             TO_CHAR(c.score_value, 'FM999,999,990') || ' 分' AS score_label,
+             (c.uid = v_current) AS is_current_user
+      FROM combined c
+      JOIN auth.users u ON u.id = c.uid
+      LEFT JOIN public.user_profiles up ON up.user_id = c.uid
+      ORDER BY c.rank_position;
+
+    -- achievements
+    WHEN 'achievements' THEN
+      RETURN QUERY
+      WITH scored AS (
+        SELECT ua.user_id AS uid, COUNT(*)::NUMERIC AS score_value
+        FROM public.user_achievements ua
+        GROUP BY ua.user_id
+      ),
+      ranked AS (
+        SELECT sc.uid AS uid, sc.score_value AS score_value,
+               ROW_NUMBER() OVER (ORDER BY sc.score_value DESC) AS rank_position
+        FROM scored sc
+      ),
+      combined AS (
+        SELECT r.uid, r.score_value, r.rank_position
+        FROM ranked r WHERE r.rank_position <= v_limit
+        UNION ALL
+        SELECT r.uid, r.score_value, r.rank_position
+        FROM ranked r WHERE r.uid = v_current AND r.rank_position > v_limit
+      )
+      SELECT c.rank_position::INTEGER,
+             c.uid AS user_id,
+             COALESCE(NULLIF(TRIM(COALESCE(up.username, '')), ''), split_part(u.email, '@', 1)) AS display_name,
+             CONCAT(LEFT(split_part(u.email, '@', 1), 2), '***') AS email_masked,
+             up.avatar_url,
+             c.score_value,
+             TO_CHAR(c.score_value, 'FM999,999,990') || ' 个' AS score_label,
+             (c.uid = v_current) AS is_current_user
+      FROM combined c
+      JOIN auth.users u ON u.id = c.uid
+      LEFT JOIN public.user_profiles up ON up.user_id = c.uid
+      ORDER BY c.rank_position;
+
+    -- game_total
+    WHEN 'game_total' THEN
+      RETURN QUERY
+      WITH raw_rounds AS (
+        SELECT pgr.user_id AS uid, pgr.total_score AS total_score
+        FROM public.puzzle_game_rounds pgr
+        WHERE pgr.moderation_status <> 'hidden'
+        UNION ALL
+        SELECT sgr.user_id AS uid, sgr.total_score AS total_score
+        FROM public.scene_game_rounds sgr
+        WHERE sgr.moderation_status <> 'hidden'
+      ),
+      scored AS (
+        SELECT rr.uid AS uid, SUM(rr.total_score) AS score_value
+        FROM raw_rounds rr
+        GROUP BY rr.uid
+      ),
+      ranked AS (
+        SELECT sc.uid AS uid, sc.score_value AS score_value,
+               ROW_NUMBER() OVER (ORDER BY sc.score_value DESC) AS rank_position
+        FROM scored sc
+      ),
+      combined AS (
+        SELECT r.uid, r.score_value, r.rank_position
+        FROM ranked r WHERE r.rank_position <= v_limit
+        UNION ALL
+        SELECT r.uid, r.score_value, r.rank_position
+        FROM ranked r WHERE r.uid = v_current AND r.rank_position > v_limit
+      )
+      SELECT c.rank_position::INTEGER,
+             c.uid AS user_id,
+             COALESCE(NULLIF(TRIM(COALESCE(up.username, '')), ''), split_part(u.email, '@', 1)) AS display_name,
+             CONCAT(LEFT(split_part(u.email, '@', 1), 2), '***') AS email_masked,
+             up.avatar_url,
+             c.score_value,
+             TO_CHAR(c.score_value, 'FM999,999,990') || ' 分' AS score_label,
+             (c.uid = v_current) AS is_current_user
+      FROM combined c
+      JOIN auth.users u ON u.id = c.uid
+      LEFT JOIN public.user_profiles up ON up.user_id = c.uid
+      ORDER BY c.rank_position;
+
+    -- word_mastery
+    WHEN 'word_mastery' THEN
+      RETURN QUERY
+      WITH scored AS (
+        SELECT w.user_id AS uid, COUNT(*)::NUMERIC AS score_value
+        FROM public.words w
+        WHERE w.tested = true
+          AND w.error_count = 0
+          AND (w.deleted = false OR w.deleted IS NULL)
+        GROUP BY w.user_id
+      ),
+      ranked AS (
+        SELECT sc.uid AS uid, sc.score_value AS score_value,
+               ROW_NUMBER() OVER (ORDER BY sc.score_value DESC) AS rank_position
+        FROM scored sc
+      ),
+      combined AS (
+        SELECT r.uid, r.score_value, r.rank_position
+        FROM ranked r WHERE r.rank_position <= v_limit
+        UNION ALL
+        SELECT r.uid, r.score_value, r.rank_position
+        FROM ranked r WHERE r.uid = v_current AND r.rank_position > v_limit
+      )
+      SELECT c.rank_position::INTEGER,
+             c.uid AS user_id,
+             COALESCE(NULLIF(TRIM(COALESCE(up.username, '')), ''), split_part(u.email, '@', 1)) AS display_name,
+             CONCAT(LEFT(split_part(u.email, '@', 1), 2), '***') AS email_masked,
+             up.avatar_url,
+             c.score_value,
+             TO_CHAR(c.score_value, 'FM999,999,990') || ' 个' AS score_label,
+             (c.uid = v_current) AS is_current_user
+      FROM combined c
+      JOIN auth.users u ON u.id = c.uid
+      LEFT JOIN public.user_profiles up ON up.user_id = c.uid
+      ORDER BY c.rank_position;
+
+    -- coins (was words_added) — ranked by lifetime_earned
+    WHEN 'coins' THEN
+      RETURN QUERY
+      WITH scored AS (
+        SELECT w.user_id AS uid, w.lifetime_earned::NUMERIC AS score_value
+        FROM public.user_wallets w
+      ),
+      ranked AS (
+        SELECT sc.uid AS uid, sc.score_value AS score_value,
+               ROW_NUMBER() OVER (ORDER BY sc.score_value DESC) AS rank_position
+        FROM scored sc
+      ),
+      combined AS (
+        SELECT r.uid, r.score_value, r.rank_position
+        FROM ranked r WHERE r.rank_position <= v_limit
+        UNION ALL
+        SELECT r.uid, r.score_value, r.rank_position
+        FROM ranked r WHERE r.uid = v_current AND r.rank_position > v_limit
+      )
+      SELECT c.rank_position::INTEGER,
+             c.uid AS user_id,
+             COALESCE(NULLIF(TRIM(COALESCE(up.username, '')), ''), split_part(u.email, '@', 1)) AS display_name,
+             CONCAT(LEFT(split_part(u.email, '@', 1), 2), '***') AS email_masked,
+             up.avatar_url,
+             c.score_value,
+             TO_CHAR(c.score_value, 'FM999,999,990') || ' 金币' AS score_label,
+             (c.uid = v_current) AS is_current_user
+      FROM combined c
+      JOIN auth.users u ON u.id = c.uid
+      LEFT JOIN public.user_profiles up ON up.user_id = c.uid
+      ORDER BY c.rank_position;
+
+    ELSE
+      RAISE EXCEPTION 'unknown global leaderboard category: %', p_category
+        USING HINT = 'Valid categories: daily_total, achievements, game_total, word_mastery, coins';
+  END CASE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_puzzle_game_leaderboard TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_scene_game_leaderboard TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_global_leaderboard(TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,527 @@
+-- ================================================================
+-- Migration: Add head-to-head puzzle duels
+-- Date: 2026-10-19
+--
+-- The host creates a duel with a room code and a snapshot of nine of
+-- their picture words (picked by utils/puzzleDuel.ts selectDuelCards
+-- from a shared seed); the guest joins with the code and plays the same
+-- cards. Live progress (joined / ready / solved cards) goes over a
+-- Realtime broadcast channel and never touches this table; only the
+-- room and each side's final result are stored. Each side plays on a
+-- verify-round ticket bound to the duel's cards, and its result is the
+-- server's score of its round log, never a number the client sends.
+--
+--   create_puzzle_duel(code, seed, cards)  → host opens a room
+--   join_puzzle_duel(code)                 → guest takes the free seat
+--   start_puzzle_duel(duel_id)             → host starts the round
+--   record_puzzle_duel_result(duel_id, …)  → each side's verified result
+--                                            (verify-round, service role);
+--                                            the second one decides the duel
+--   leave_puzzle_duel(duel_id)             → close a waiting room, or
+--                                            forfeit a running duel
+--   expire_puzzle_duel(duel_id)            → close a duel still running
+--                                            DUEL_RESULT_TIMEOUT after its
+--                                            start: a side that submitted
+--                                            wins, none → abandoned
+--   get_puzzle_duel_leaderboard(limit)     → the duel ranking (wins)
+--
+-- Duel results are not part of the puzzle rankings and award no coins.
+-- ================================================================
+
+-- ========== 1. puzzle_duels ==========
+CREATE TABLE IF NOT EXISTS public.puzzle_duels (
+    id                      UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    room_code               TEXT NOT NULL,
+    host_id                 UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    guest_id                UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    seed                    BIGINT NOT NULL,
+    cards                   JSONB NOT NULL,
+    status                  TEXT NOT NULL DEFAULT 'waiting'
+                            CHECK (status IN ('waiting', 'playing', 'finished', 'abandoned')),
+    host_total_score        NUMERIC(8,2),
+    host_words_correct      INTEGER,
+    host_time_used_seconds  INTEGER,
+    guest_total_score       NUMERIC(8,2),
+    guest_words_correct     INTEGER,
+    guest_time_used_seconds INTEGER,
+    host_round_nonce        TEXT,
+    guest_round_nonce       TEXT,
+    winner_id               UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    is_draw                 BOOLEAN NOT NULL DEFAULT false,
+    created_at              TIMESTAMPTZ NOT NULL DEFAULT now(),
+    started_at              TIMESTAMPTZ,
+    finished_at             TIMESTAMPTZ,
+    CONSTRAINT puzzle_duels_cards_shape
+        CHECK (jsonb_typeof(cards) = 'array' AND jsonb_array_length(cards) = 9)
+);
+
+-- A code is only reserved while its room is open
+CREATE UNIQUE INDEX IF NOT EXISTS idx_puzzle_duels_open_room_code
+    ON public.puzzle_duels (room_code)
+    WHERE status IN ('waiting', 'playing');
+CREATE INDEX IF NOT EXISTS idx_puzzle_duels_host ON public.puzzle_duels (host_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_puzzle_duels_guest ON public.puzzle_duels (guest_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_puzzle_duels_finished ON public.puzzle_duels (status) WHERE status = 'finished';
+
+COMMENT ON COLUMN public.puzzle_duels.cards IS
+  'The duel''s cards in board order: [{ id, text, language, image_url }] from the host''s words';
+COMMENT ON COLUMN public.puzzle_duels.seed IS
+  'Seed passed to selectDuelCards when the host picked the cards';
+COMMENT ON COLUMN public.puzzle_duels.host_round_nonce IS
+  'roundId of the verify-round ticket the host plays on (one per side)';
+COMMENT ON COLUMN public.puzzle_duels.guest_round_nonce IS
+  'roundId of the verify-round ticket the guest plays on (one per side)';
+
+-- ========== 2. RLS ==========
+-- Both players can read their duels; every write goes through the RPCs
+-- (or verify-round, which claims each side's ticket)
+ALTER TABLE public.puzzle_duels ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS puzzle_duels_select_player ON public.puzzle_duels;
+CREATE POLICY puzzle_duels_select_player ON public.puzzle_duels
+    FOR SELECT USING (auth.uid() = host_id OR auth.uid() = guest_id);
+
+
+-- ========== 3. Duel timeout ==========
+-- A side that never submits (closed tab, no ticket) must not leave its
+-- duel running forever. DUEL_RESULT_TIMEOUT in utils/puzzleDuel.ts keeps
+-- in sync: well past the 90 s round plus the start countdown.
+-- Internal helper (no grant): closes expired duels, or just p_duel_id.
+CREATE OR REPLACE FUNCTION public.close_expired_puzzle_duels(p_duel_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE puzzle_duels SET
+        status = CASE
+            WHEN host_total_score IS NULL AND guest_total_score IS NULL THEN 'abandoned'
+            ELSE 'finished'
+        END,
+        finished_at = now(),
+        winner_id = CASE
+            WHEN host_total_score IS NOT NULL THEN host_id
+            WHEN guest_total_score IS NOT NULL THEN guest_id
+        END
+    WHERE status = 'playing'
+      AND started_at < now() - INTERVAL '5 minutes'
+      AND (p_duel_id IS NULL OR id = p_duel_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_expired_puzzle_duels FROM PUBLIC, anon, authenticated;
+
+
+-- ================================================================
+-- RPC 1: create_puzzle_duel(p_room_code, p_seed, p_cards)
+--
+-- Opens a room. Every card must be one of the host's own words. Rooms the
+-- host left waiting (or anyone left waiting for over an hour) and expired
+-- duels are closed first so their codes free up.
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.create_puzzle_duel(
+    p_room_code TEXT,
+    p_seed BIGINT,
+    p_cards JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_owned   INTEGER;
+    v_duel    puzzle_duels%ROWTYPE;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'not_authenticated');
+    END IF;
+
+    IF p_room_code !~ '^[A-HJ-NP-Z2-9]{6}$' THEN
+        RETURN jsonb_build_object('error', 'invalid_room_code');
+    END IF;
+
+    IF jsonb_typeof(p_cards) <> 'array' OR jsonb_array_length(p_cards) <> 9 THEN
+        RETURN jsonb_build_object('error', 'invalid_cards');
+    END IF;
+
+    SELECT COUNT(DISTINCT w.id) INTO v_owned
+    FROM jsonb_array_elements(p_cards) AS card
+    JOIN words w ON w.id::TEXT = card->>'id'
+    WHERE w.user_id = v_user_id;
+    IF v_owned <> 9 THEN
+        RETURN jsonb_build_object('error', 'invalid_cards');
+    END IF;
+
+    UPDATE puzzle_duels
+    SET status = 'abandoned', finished_at = now()
+    WHERE status = 'waiting'
+      AND (host_id = v_user_id OR created_at < now() - INTERVAL '1 hour');
+    PERFORM close_expired_puzzle_duels();
+
+    BEGIN
+        INSERT INTO puzzle_duels (room_code, host_id, seed, cards)
+        VALUES (p_room_code, v_user_id, p_seed, p_cards)
+        RETURNING * INTO v_duel;
+    EXCEPTION WHEN unique_violation THEN
+        RETURN jsonb_build_object('error', 'room_code_taken');
+    END;
+
+    RETURN jsonb_build_object('duel', to_jsonb(v_duel));
+END;
+$$;
+
+
+-- ================================================================
+-- RPC 2: join_puzzle_duel(p_room_code)
+--
+-- Takes the guest seat of a waiting room. Rejoining a room you already
+-- sit in (host or guest) just returns it, so a reload can reconnect.
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.join_puzzle_duel(p_room_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_duel    puzzle_duels%ROWTYPE;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'not_authenticated');
+    END IF;
+
+    SELECT * INTO v_duel FROM puzzle_duels
+    WHERE room_code = upper(trim(p_room_code))
+      AND status IN ('waiting', 'playing')
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'not_found');
+    END IF;
+
+    IF v_duel.host_id = v_user_id OR v_duel.guest_id = v_user_id THEN
+        RETURN jsonb_build_object('duel', to_jsonb(v_duel));
+    END IF;
+
+    IF v_duel.guest_id IS NOT NULL OR v_duel.status <> 'waiting' THEN
+        RETURN jsonb_build_object('error', 'room_full');
+    END IF;
+
+    UPDATE puzzle_duels SET guest_id = v_user_id
+    WHERE id = v_duel.id
+    RETURNING * INTO v_duel;
+
+    RETURN jsonb_build_object('duel', to_jsonb(v_duel));
+END;
+$$;
+
+
+-- ================================================================
+-- RPC 3: start_puzzle_duel(p_duel_id)
+--
+-- Host only, once the guest has joined.
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.start_puzzle_duel(p_duel_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_duel    puzzle_duels%ROWTYPE;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'not_authenticated');
+    END IF;
+
+    UPDATE puzzle_duels
+    SET status = 'playing', started_at = now()
+    WHERE id = p_duel_id
+      AND host_id = v_user_id
+      AND guest_id IS NOT NULL
+      AND status = 'waiting'
+    RETURNING * INTO v_duel;
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'not_startable');
+    END IF;
+
+    RETURN jsonb_build_object('duel', to_jsonb(v_duel));
+END;
+$$;
+
+
+-- ================================================================
+-- RPC 4: record_puzzle_duel_result(p_duel_id, p_user_id, p_round_nonce, …)
+--
+-- Service role only: verify-round calls it with the score it computed
+-- from the side's round log, for the ticket that side claimed. Stores the
+-- side (once). When both sides are in, decides the duel with
+-- compareDuelScores' order: higher score, then more words, then less
+-- time; all equal is a draw.
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.record_puzzle_duel_result(
+    p_duel_id UUID,
+    p_user_id UUID,
+    p_round_nonce TEXT,
+    p_total_score NUMERIC,
+    p_words_correct INTEGER,
+    p_time_used_seconds INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := p_user_id;
+    v_duel    puzzle_duels%ROWTYPE;
+    v_order   INTEGER;
+BEGIN
+    IF p_total_score NOT BETWEEN 0 AND 1000
+       OR p_words_correct NOT BETWEEN 0 AND 9
+       OR p_time_used_seconds NOT BETWEEN 0 AND 90 THEN
+        RETURN jsonb_build_object('error', 'invalid_result');
+    END IF;
+
+    SELECT * INTO v_duel FROM puzzle_duels
+    WHERE id = p_duel_id
+      AND (host_id = v_user_id OR guest_id = v_user_id)
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'not_found');
+    END IF;
+
+    -- Already decided (both submitted, the other side forfeited, or expired)
+    IF v_duel.status <> 'playing' THEN
+        RETURN jsonb_build_object('duel', to_jsonb(v_duel));
+    END IF;
+
+    -- Only the ticket this side claimed at start counts
+    IF p_round_nonce IS DISTINCT FROM CASE
+        WHEN v_duel.host_id = v_user_id THEN v_duel.host_round_nonce
+        ELSE v_duel.guest_round_nonce
+    END THEN
+        RETURN jsonb_build_object('error', 'wrong_round');
+    END IF;
+
+    IF v_duel.host_id = v_user_id AND v_duel.host_total_score IS NULL THEN
+        v_duel.host_total_score := p_total_score;
+        v_duel.host_words_correct := p_words_correct;
+        v_duel.host_time_used_seconds := p_time_used_seconds;
+    ELSIF v_duel.guest_id = v_user_id AND v_duel.guest_total_score IS NULL THEN
+        v_duel.guest_total_score := p_total_score;
+        v_duel.guest_words_correct := p_words_correct;
+        v_duel.guest_time_used_seconds := p_time_used_seconds;
+    END IF;
+
+    IF v_duel.host_total_score IS NOT NULL AND v_duel.guest_total_score IS NOT NULL THEN
+        v_order := CASE
+            WHEN v_duel.host_total_score <> v_duel.guest_total_score
+                THEN sign(v_duel.host_total_score - v_duel.guest_total_score)::INTEGER
+            WHEN v_duel.host_words_correct <> v_duel.guest_words_correct
+                THEN sign(v_duel.host_words_correct - v_duel.guest_words_correct)::INTEGER
+            ELSE sign(v_duel.guest_time_used_seconds - v_duel.host_time_used_seconds)::INTEGER
+        END;
+        v_duel.status := 'finished';
+        v_duel.finished_at := now();
+        v_duel.is_draw := v_order = 0;
+        v_duel.winner_id := CASE v_order
+            WHEN 1 THEN v_duel.host_id
+            WHEN -1 THEN v_duel.guest_id
+            ELSE NULL
+        END;
+    END IF;
+
+    UPDATE puzzle_duels SET
+        host_total_score = v_duel.host_total_score,
+        host_words_correct = v_duel.host_words_correct,
+        host_time_used_seconds = v_duel.host_time_used_seconds,
+        guest_total_score = v_duel.guest_total_score,
+        guest_words_correct = v_duel.guest_words_correct,
+        guest_time_used_seconds = v_duel.guest_time_used_seconds,
+        status = v_duel.status,
+        finished_at = v_duel.finished_at,
+        is_draw = v_duel.is_draw,
+        winner_id = v_duel.winner_id
+    WHERE id = v_duel.id;
+
+    RETURN jsonb_build_object('duel', to_jsonb(v_duel));
+END;
+$$;
+
+
+-- ================================================================
+-- RPC 5: leave_puzzle_duel(p_duel_id)
+--
+-- Leaving a waiting room closes it. Leaving a running duel before
+-- submitting a result forfeits it to the other player.
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.leave_puzzle_duel(p_duel_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_duel    puzzle_duels%ROWTYPE;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'not_authenticated');
+    END IF;
+
+    SELECT * INTO v_duel FROM puzzle_duels
+    WHERE id = p_duel_id
+      AND (host_id = v_user_id OR guest_id = v_user_id)
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'not_found');
+    END IF;
+
+    IF v_duel.status = 'waiting' THEN
+        UPDATE puzzle_duels SET status = 'abandoned', finished_at = now()
+        WHERE id = v_duel.id
+        RETURNING * INTO v_duel;
+    ELSIF v_duel.status = 'playing'
+          AND ((v_duel.host_id = v_user_id AND v_duel.host_total_score IS NULL)
+               OR (v_duel.guest_id = v_user_id AND v_duel.guest_total_score IS NULL)) THEN
+        UPDATE puzzle_duels SET
+            status = 'finished',
+            finished_at = now(),
+            winner_id = CASE WHEN host_id = v_user_id THEN guest_id ELSE host_id END
+        WHERE id = v_duel.id
+        RETURNING * INTO v_duel;
+    END IF;
+
+    RETURN jsonb_build_object('duel', to_jsonb(v_duel));
+END;
+$$;
+
+
+-- ================================================================
+-- RPC 6: expire_puzzle_duel(p_duel_id)
+--
+-- Either player, once the duel has run past the timeout without both
+-- results: closes it (see close_expired_puzzle_duels) and returns it.
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.expire_puzzle_duel(p_duel_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_duel    puzzle_duels%ROWTYPE;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'not_authenticated');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM puzzle_duels
+        WHERE id = p_duel_id AND (host_id = v_user_id OR guest_id = v_user_id)
+    ) THEN
+        RETURN jsonb_build_object('error', 'not_found');
+    END IF;
+
+    PERFORM close_expired_puzzle_duels(p_duel_id);
+
+    SELECT * INTO v_duel FROM puzzle_duels WHERE id = p_duel_id;
+    RETURN jsonb_build_object('duel', to_jsonb(v_duel));
+END;
+$$;
+
+
+-- ================================================================
+-- RPC 7: get_puzzle_duel_leaderboard(p_limit)
+--
+-- Ranks players by duels won, then win rate, then duels played.
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.get_puzzle_duel_leaderboard(p_limit INTEGER DEFAULT 10)
+RETURNS TABLE(
+    user_id UUID,
+    rank_position INTEGER,
+    wins INTEGER,
+    losses INTEGER,
+    draws INTEGER,
+    duels_played INTEGER,
+    win_rate NUMERIC,
+    display_name TEXT,
+    is_current_user BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH sides AS (
+        SELECT d.host_id AS player_id, d.winner_id, d.is_draw
+        FROM public.puzzle_duels d
+        WHERE d.status = 'finished'
+        UNION ALL
+        SELECT d.guest_id AS player_id, d.winner_id, d.is_draw
+        FROM public.puzzle_duels d
+        WHERE d.status = 'finished' AND d.guest_id IS NOT NULL
+    ),
+    totals AS (
+        SELECT
+            s.player_id,
+            COUNT(*) FILTER (WHERE s.winner_id = s.player_id)::INTEGER AS wins,
+            COUNT(*) FILTER (WHERE NOT s.is_draw AND s.winner_id IS DISTINCT FROM s.player_id)::INTEGER AS losses,
+            COUNT(*) FILTER (WHERE s.is_draw)::INTEGER AS draws,
+            COUNT(*)::INTEGER AS duels_played
+        FROM sides s
+        GROUP BY s.player_id
+    ),
+    ranked AS (
+        SELECT
+            t.*,
+            ROUND(t.wins::NUMERIC / GREATEST(t.duels_played, 1), 4) AS win_rate,
+            ROW_NUMBER() OVER (
+                ORDER BY t.wins DESC, t.wins::NUMERIC / GREATEST(t.duels_played, 1) DESC, t.duels_played DESC, t.player_id
+            )::INTEGER AS rank_position
+        FROM totals t
+    )
+    SELECT
+        r.player_id,
+        r.rank_position,
+        r.wins,
+        r.losses,
+        r.draws,
+        r.duels_played,
+        r.win_rate,
+        COALESCE(
+            NULLIF(TRIM(COALESCE(p.username, '')), ''),
+            CASE
+                WHEN POSITION('@' IN u.email) > 0
+                    THEN SUBSTRING(u.email FROM 1 FOR 3) || '****' || SUBSTRING(u.email FROM POSITION('@' IN u.email))
+                ELSE LEFT(u.email, 3) || '****'
+            END
+        ) AS display_name,
+        (r.player_id = auth.uid())::BOOLEAN AS is_current_user
+    FROM ranked r
+    JOIN auth.users u ON r.player_id = u.id
+    LEFT JOIN public.user_profiles p ON r.player_id = p.user_id
+    WHERE r.rank_position <= GREATEST(p_limit, 1)
+    ORDER BY r.rank_position;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_puzzle_duel TO authenticated;
+GRANT EXECUTE ON FUNCTION public.join_puzzle_duel TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_puzzle_duel TO authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_puzzle_duel TO authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_puzzle_duel TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_puzzle_duel_leaderboard TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.record_puzzle_duel_result FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_puzzle_duel_result TO service_role;
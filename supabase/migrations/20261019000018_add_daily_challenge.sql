@@ -0,0 +1,247 @@
+-- ================================================================
+-- Migration: Add the shared daily scene challenge
+-- Date: 2026-10-19
+--
+-- One scene word set per (Shanghai) day, the same for every player. The
+-- verify-round edge function (service role) picks it from its configured
+-- library pack with a seed derived from the date
+-- (supabase/functions/verify-round/dailyChallenge.ts) when the day's
+-- challenge is first opened; clients can only read the stored row. The
+-- scene image is cached in scene_assets by word_set_hash and shared by
+-- all players.
+--
+--   get_daily_challenge_leaderboard(date, limit) → the day's ranking, in
+--                                                  get_global_leaderboard's
+--                                                  row shape
+--
+-- Attempts are written only by the verify-round edge function (service
+-- role): `start` inserts the caller's row, so each user gets a single
+-- ranked attempt per day, and `submit` scores it from the round log and
+-- stamps its roundFlags.ts flags. Flagged attempts join the moderation
+-- queue of 20261019000016 as mode DAILY; hidden ones leave the day's
+-- ranking.
+-- ================================================================
+
+-- ========== 1. daily_challenges ==========
+CREATE TABLE IF NOT EXISTS public.daily_challenges (
+    challenge_date DATE PRIMARY KEY,
+    pack_id        TEXT NOT NULL,
+    words          JSONB NOT NULL,
+    created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+    scene_render_claimed_at TIMESTAMPTZ,
+    CONSTRAINT daily_challenges_words_shape
+        CHECK (jsonb_typeof(words) = 'array' AND jsonb_array_length(words) BETWEEN 5 AND 10)
+);
+
+COMMENT ON COLUMN public.daily_challenges.words IS
+  'The day''s words in board order: [{ text, definitionCn }], written only by verify-round';
+COMMENT ON COLUMN public.daily_challenges.scene_render_claimed_at IS
+  'Set by scene-generate while it renders the shared scene; one render per day at a time';
+COMMENT ON COLUMN public.daily_challenges.pack_id IS
+  'Manifest id of the library pack the words were picked from';
+
+-- ========== 2. daily_challenge_attempts ==========
+CREATE TABLE IF NOT EXISTS public.daily_challenge_attempts (
+    user_id           UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    challenge_date    DATE NOT NULL REFERENCES public.daily_challenges(challenge_date) ON DELETE CASCADE,
+    round_nonce       TEXT NOT NULL UNIQUE,
+    status            TEXT NOT NULL DEFAULT 'started'
+                      CHECK (status IN ('started', 'submitted')),
+    total_score       NUMERIC(8,2),
+    words_correct     INTEGER,
+    words_total       INTEGER,
+    time_used_seconds INTEGER,
+    results           JSONB,
+    started_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+    submitted_at      TIMESTAMPTZ,
+    flags             TEXT[] NOT NULL DEFAULT '{}',
+    moderation_status TEXT NOT NULL DEFAULT 'visible'
+                      CHECK (moderation_status IN ('visible', 'flagged', 'hidden', 'cleared')),
+    moderated_at      TIMESTAMPTZ,
+    PRIMARY KEY (user_id, challenge_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_challenge_attempts_ranking
+    ON public.daily_challenge_attempts (challenge_date, total_score DESC, time_used_seconds)
+    WHERE status = 'submitted';
+CREATE INDEX IF NOT EXISTS daily_challenge_attempts_moderation_idx
+    ON public.daily_challenge_attempts (submitted_at DESC) WHERE moderation_status IN ('flagged', 'hidden');
+
+COMMENT ON COLUMN public.daily_challenge_attempts.round_nonce IS
+  'roundId of the verify-round ticket that claimed this attempt';
+COMMENT ON COLUMN public.daily_challenge_attempts.results IS
+  'Per-word [{ correct, attemptsUsed }] in board order, for the share card';
+
+-- ========== 3. RLS ==========
+-- Anyone signed in can read the day's words; users read their own attempts.
+-- Every write goes through the verify-round edge function (service role).
+ALTER TABLE public.daily_challenges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.daily_challenge_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS daily_challenges_select_authenticated ON public.daily_challenges;
+CREATE POLICY daily_challenges_select_authenticated ON public.daily_challenges
+    FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS daily_challenge_attempts_select_own ON public.daily_challenge_attempts;
+CREATE POLICY daily_challenge_attempts_select_own ON public.daily_challenge_attempts
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- ========== 4. Shared scene cache lookup ==========
+-- scene-generate looks a daily scene up across all owners (oldest first)
+CREATE INDEX IF NOT EXISTS scene_assets_shared_lookup_idx
+    ON public.scene_assets (word_set_hash, day_index, language, created_at);
+
+
+-- ========== 5. Moderation of daily attempts ==========
+-- Same review flow as puzzle / scene rounds (20261019000016); a daily
+-- attempt is addressed by its round_nonce (the ticket's round id).
+ALTER TABLE public.leaderboard_moderation_log
+    DROP CONSTRAINT IF EXISTS leaderboard_moderation_log_round_mode_check;
+ALTER TABLE public.leaderboard_moderation_log
+    ADD CONSTRAINT leaderboard_moderation_log_round_mode_check
+    CHECK (round_mode IN ('PUZZLE', 'SCENE', 'DAILY'));
+
+CREATE OR REPLACE FUNCTION public.moderate_game_round(
+    p_mode TEXT,
+    p_round_id UUID,
+    p_action TEXT,
+    p_moderator_id UUID,
+    p_moderator_email TEXT,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+    round_id UUID,
+    moderation_status TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_new_status TEXT;
+    v_user_id UUID;
+    v_previous TEXT;
+    v_flags TEXT[];
+BEGIN
+    v_new_status := CASE p_action
+        WHEN 'hide' THEN 'hidden'
+        WHEN 'restore' THEN 'cleared'
+        WHEN 'clear' THEN 'cleared'
+    END;
+    IF v_new_status IS NULL THEN
+        RAISE EXCEPTION 'unknown moderation action: %', p_action;
+    END IF;
+
+    IF p_mode = 'PUZZLE' THEN
+        SELECT r.user_id, r.moderation_status, r.flags INTO v_user_id, v_previous, v_flags
+        FROM public.puzzle_game_rounds r WHERE r.id = p_round_id FOR UPDATE;
+    ELSIF p_mode = 'SCENE' THEN
+        SELECT r.user_id, r.moderation_status, r.flags INTO v_user_id, v_previous, v_flags
+        FROM public.scene_game_rounds r WHERE r.id = p_round_id FOR UPDATE;
+    ELSIF p_mode = 'DAILY' THEN
+        SELECT a.user_id, a.moderation_status, a.flags INTO v_user_id, v_previous, v_flags
+        FROM public.daily_challenge_attempts a WHERE a.round_nonce = p_round_id::TEXT FOR UPDATE;
+    ELSE
+        RAISE EXCEPTION 'unknown round mode: %', p_mode;
+    END IF;
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'round not found: % %', p_mode, p_round_id;
+    END IF;
+
+    IF p_mode = 'PUZZLE' THEN
+        UPDATE public.puzzle_game_rounds
+        SET moderation_status = v_new_status, moderated_at = now()
+        WHERE id = p_round_id;
+    ELSIF p_mode = 'SCENE' THEN
+        UPDATE public.scene_game_rounds
+        SET moderation_status = v_new_status, moderated_at = now()
+        WHERE id = p_round_id;
+    ELSE
+        UPDATE public.daily_challenge_attempts
+        SET moderation_status = v_new_status, moderated_at = now()
+        WHERE round_nonce = p_round_id::TEXT;
+    END IF;
+
+    INSERT INTO public.leaderboard_moderation_log (
+        round_mode, round_id, round_user_id, action, previous_status, new_status,
+        flags, note, moderator_id, moderator_email
+    )
+    VALUES (
+        p_mode, p_round_id, v_user_id, p_action, v_previous, v_new_status,
+        COALESCE(v_flags, '{}'), NULLIF(TRIM(COALESCE(p_note, '')), ''), p_moderator_id, p_moderator_email
+    );
+
+    RETURN QUERY SELECT p_round_id, v_new_status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.moderate_game_round FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.moderate_game_round TO service_role;
+
+
+-- ================================================================
+-- RPC: get_daily_challenge_leaderboard(p_date, p_limit)
+--
+-- Submitted attempts of one day: higher score first, then the faster
+-- round, then whoever finished first. Same columns as
+-- get_global_leaderboard, so GlobalLeaderboardModal renders it as a tab;
+-- the caller's row is appended when it falls outside the top N.
+-- ================================================================
+CREATE OR REPLACE FUNCTION public.get_daily_challenge_leaderboard(
+    p_date  DATE DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  rank_position   INTEGER,
+  user_id         UUID,
+  display_name    TEXT,
+  email_masked    TEXT,
+  avatar_url      TEXT,
+  score_value     NUMERIC,
+  score_label     TEXT,
+  is_current_user BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current UUID := auth.uid();
+  v_limit   INTEGER := GREATEST(p_limit, 1);
+  v_date    DATE := COALESCE(p_date, (CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Shanghai')::DATE);
+BEGIN
+  RETURN QUERY
+  WITH ranked AS (
+    SELECT a.user_id AS uid, a.total_score AS score_value,
+           ROW_NUMBER() OVER (
+             ORDER BY a.total_score DESC, a.time_used_seconds ASC, a.submitted_at ASC
+           ) AS rank_position
+    FROM public.daily_challenge_attempts a
+    WHERE a.challenge_date = v_date
+      AND a.status = 'submitted'
+      AND a.moderation_status <> 'hidden'
+  ),
+  combined AS (
+    SELECT r.uid, r.score_value, r.rank_position
+    FROM ranked r WHERE r.rank_position <= v_limit
+    UNION ALL
+    SELECT r.uid, r.score_value, r.rank_position
+    FROM ranked r WHERE r.uid = v_current AND r.rank_position > v_limit
+  )
+  SELECT c.rank_position::INTEGER,
+         c.uid AS user_id,
+         COALESCE(NULLIF(TRIM(COALESCE(up.username, '')), ''), split_part(u.email, '@', 1)) AS display_name,
+         CONCAT(LEFT(split_part(u.email, '@', 1), 2), '***') AS email_masked,
+         up.avatar_url,
+         c.score_value,
+         TO_CHAR(c.score_value, 'FM999,999,990') || ' 分' AS score_label,
+         (c.uid = v_current) AS is_current_user
+  FROM combined c
+  JOIN auth.users u ON u.id = c.uid
+  LEFT JOIN public.user_profiles up ON up.user_id = c.uid
+  ORDER BY c.rank_position;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_daily_challenge_leaderboard TO authenticated;
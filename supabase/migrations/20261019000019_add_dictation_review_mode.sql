@@ -0,0 +1,15 @@
+-- ================================================================
+-- Migration: Sentence dictation review mode
+-- Date: 2026-10-19
+--
+-- The dictation phase after a CLASSIC test (utils/sentenceDictation.ts)
+-- plays a sentence containing the word and grades what the learner types.
+-- Each sentence is logged to word_reviews against the target word with
+-- mode 'DICTATION'; correct means the target word itself was typed
+-- exactly. Practice only: no rounds table or leaderboard.
+-- ================================================================
+
+-- ========== 1. word_reviews mode ==========
+ALTER TABLE public.word_reviews DROP CONSTRAINT IF EXISTS word_reviews_mode_check;
+ALTER TABLE public.word_reviews
+    ADD CONSTRAINT word_reviews_mode_check CHECK (mode IN ('CLASSIC', 'PUZZLE', 'SCENE', 'RECALL', 'CHOICE', 'SPRINT', 'FAMILY', 'PHRASE', 'DICTATION'));
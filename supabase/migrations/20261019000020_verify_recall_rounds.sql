@@ -0,0 +1,342 @@
+-- ================================================================
+-- Migration: Server-verified recall rounds
+-- Date: 2026-10-19
+--
+-- Recall rounds were recorded from client-computed scores
+-- (record_recall_game_round, INSERT policy), so anyone could post any
+-- score to the recall leaderboard. They now go through the verify-round
+-- edge function like puzzle / scene rounds (20261019000015): a signed
+-- ticket at start, a round log at the end, re-scored and plausibility
+-- checked with supabase/functions/verify-round/roundScoring.ts. Clients
+-- lose both direct write paths.
+--
+-- Verified recall rounds carry the word set hash and the roundFlags.ts
+-- flags of 20261019000016; flagged ones join the moderation queue as
+-- mode RECALL and hidden ones leave the recall leaderboard.
+-- ================================================================
+
+-- ----------------------------------------------------------------
+-- 1. Nonce and moderation columns
+-- ----------------------------------------------------------------
+ALTER TABLE public.recall_game_rounds
+  ADD COLUMN IF NOT EXISTS round_nonce UUID UNIQUE,
+  ADD COLUMN IF NOT EXISTS word_set_hash TEXT,
+  ADD COLUMN IF NOT EXISTS flags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'visible'
+    CHECK (moderation_status IN ('visible', 'flagged', 'hidden', 'cleared')),
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.recall_game_rounds.round_nonce IS
+'roundId of the verify-round ticket; one row per ticket.';
+
+CREATE INDEX IF NOT EXISTS recall_game_rounds_word_set_idx
+    ON public.recall_game_rounds (user_id, word_set_hash, played_at DESC);
+CREATE INDEX IF NOT EXISTS recall_game_rounds_moderation_idx
+    ON public.recall_game_rounds (played_at DESC) WHERE moderation_status IN ('flagged', 'hidden');
+
+-- ----------------------------------------------------------------
+-- 2. Close the client write paths
+-- ----------------------------------------------------------------
+DROP POLICY IF EXISTS "Users can insert own recall rounds" ON public.recall_game_rounds;
+
+REVOKE EXECUTE ON FUNCTION public.record_recall_game_round FROM PUBLIC, authenticated;
+
+-- ----------------------------------------------------------------
+-- 3. record_verified_recall_round (service role only)
+-- ----------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.record_verified_recall_round(
+    p_user_id UUID,
+    p_round_nonce UUID,
+    p_total_score NUMERIC,
+    p_accuracy_rate NUMERIC,
+    p_speed_score NUMERIC,
+    p_no_hint_score NUMERIC,
+    p_time_used_seconds INTEGER,
+    p_seconds_remaining INTEGER,
+    p_hints_used INTEGER,
+    p_words_total INTEGER,
+    p_words_correct INTEGER,
+    p_solved_without_hint INTEGER,
+    p_selection_mode TEXT,
+    p_client_date DATE DEFAULT NULL,
+    p_word_set_hash TEXT DEFAULT NULL,
+    p_flags TEXT[] DEFAULT '{}',
+    p_ambiguous_prompts INTEGER DEFAULT 0
+)
+RETURNS TABLE(
+    round_id UUID,
+    played_date DATE,
+    total_score NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_today DATE;
+    v_played_date DATE;
+BEGIN
+    v_today := (CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Shanghai')::DATE;
+    v_played_date := LEAST(COALESCE(p_client_date, v_today), v_today);
+
+    INSERT INTO public.recall_game_rounds (
+        user_id,
+        round_nonce,
+        played_date,
+        total_score,
+        accuracy_rate,
+        speed_score,
+        no_hint_score,
+        time_used_seconds,
+        seconds_remaining,
+        hints_used,
+        words_total,
+        words_correct,
+        solved_without_hint,
+        ambiguous_prompts,
+        selection_mode,
+        word_set_hash,
+        flags,
+        moderation_status
+    )
+    VALUES (
+        p_user_id,
+        p_round_nonce,
+        v_played_date,
+        p_total_score,
+        p_accuracy_rate,
+        p_speed_score,
+        p_no_hint_score,
+        p_time_used_seconds,
+        p_seconds_remaining,
+        p_hints_used,
+        p_words_total,
+        p_words_correct,
+        p_solved_without_hint,
+        GREATEST(COALESCE(p_ambiguous_prompts, 0), 0),
+        p_selection_mode,
+        p_word_set_hash,
+        COALESCE(p_flags, '{}'),
+        CASE WHEN COALESCE(cardinality(p_flags), 0) > 0 THEN 'flagged' ELSE 'visible' END
+    )
+    ON CONFLICT (round_nonce) DO NOTHING;
+
+    RETURN QUERY
+    SELECT rounds.id, rounds.played_date, rounds.total_score
+    FROM public.recall_game_rounds AS rounds
+    WHERE rounds.round_nonce = p_round_nonce
+      AND rounds.user_id = p_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_verified_recall_round FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_verified_recall_round TO service_role;
+
+-- ----------------------------------------------------------------
+-- 4. moderate_game_round — RECALL rounds
+-- ----------------------------------------------------------------
+ALTER TABLE public.leaderboard_moderation_log
+    DROP CONSTRAINT IF EXISTS leaderboard_moderation_log_round_mode_check;
+ALTER TABLE public.leaderboard_moderation_log
+    ADD CONSTRAINT leaderboard_moderation_log_round_mode_check
+    CHECK (round_mode IN ('PUZZLE', 'SCENE', 'DAILY', 'RECALL'));
+
+CREATE OR REPLACE FUNCTION public.moderate_game_round(
+    p_mode TEXT,
+    p_round_id UUID,
+    p_action TEXT,
+    p_moderator_id UUID,
+    p_moderator_email TEXT,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+    round_id UUID,
+    moderation_status TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_new_status TEXT;
+    v_user_id UUID;
+    v_previous TEXT;
+    v_flags TEXT[];
+BEGIN
+    v_new_status := CASE p_action
+        WHEN 'hide' THEN 'hidden'
+        WHEN 'restore' THEN 'cleared'
+        WHEN 'clear' THEN 'cleared'
+    END;
+    IF v_new_status IS NULL THEN
+        RAISE EXCEPTION 'unknown moderation action: %', p_action;
+    END IF;
+
+    IF p_mode = 'PUZZLE' THEN
+        SELECT r.user_id, r.moderation_status, r.flags INTO v_user_id, v_previous, v_flags
+        FROM public.puzzle_game_rounds r WHERE r.id = p_round_id FOR UPDATE;
+    ELSIF p_mode = 'SCENE' THEN
+        SELECT r.user_id, r.moderation_status, r.flags INTO v_user_id, v_previous, v_flags
+        FROM public.scene_game_rounds r WHERE r.id = p_round_id FOR UPDATE;
+    ELSIF p_mode = 'RECALL' THEN
+        SELECT r.user_id, r.moderation_status, r.flags INTO v_user_id, v_previous, v_flags
+        FROM public.recall_game_rounds r WHERE r.id = p_round_id FOR UPDATE;
+    ELSIF p_mode = 'DAILY' THEN
+        SELECT a.user_id, a.moderation_status, a.flags INTO v_user_id, v_previous, v_flags
+        FROM public.daily_challenge_attempts a WHERE a.round_nonce = p_round_id::TEXT FOR UPDATE;
+    ELSE
+        RAISE EXCEPTION 'unknown round mode: %', p_mode;
+    END IF;
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'round not found: % %', p_mode, p_round_id;
+    END IF;
+
+    IF p_mode = 'PUZZLE' THEN
+        UPDATE public.puzzle_game_rounds
+        SET moderation_status = v_new_status, moderated_at = now()
+        WHERE id = p_round_id;
+    ELSIF p_mode = 'SCENE' THEN
+        UPDATE public.scene_game_rounds
+        SET moderation_status = v_new_status, moderated_at = now()
+        WHERE id = p_round_id;
+    ELSIF p_mode = 'RECALL' THEN
+        UPDATE public.recall_game_rounds
+        SET moderation_status = v_new_status, moderated_at = now()
+        WHERE id = p_round_id;
+    ELSE
+        UPDATE public.daily_challenge_attempts
+        SET moderation_status = v_new_status, moderated_at = now()
+        WHERE round_nonce = p_round_id::TEXT;
+    END IF;
+
+    INSERT INTO public.leaderboard_moderation_log (
+        round_mode, round_id, round_user_id, action, previous_status, new_status,
+        flags, note, moderator_id, moderator_email
+    )
+    VALUES (
+        p_mode, p_round_id, v_user_id, p_action, v_previous, v_new_status,
+        COALESCE(v_flags, '{}'), NULLIF(TRIM(COALESCE(p_note, '')), ''), p_moderator_id, p_moderator_email
+    );
+
+    RETURN QUERY SELECT p_round_id, v_new_status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.moderate_game_round FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.moderate_game_round TO service_role;
+
+-- ----------------------------------------------------------------
+-- 5. get_recall_game_leaderboard — skip hidden rounds
+-- ----------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_recall_game_leaderboard(
+    p_scope TEXT DEFAULT 'all_time',
+    p_metric TEXT DEFAULT 'total_score',
+    p_date DATE DEFAULT NULL,
+    p_limit INTEGER DEFAULT 8
+)
+RETURNS TABLE(
+    user_id UUID,
+    rank_position INTEGER,
+    metric_value NUMERIC,
+    total_score NUMERIC,
+    accuracy_rate NUMERIC,
+    speed_score NUMERIC,
+    no_hint_score NUMERIC,
+    hints_used INTEGER,
+    words_total INTEGER,
+    words_correct INTEGER,
+    time_used_seconds INTEGER,
+    played_date DATE,
+    display_name TEXT,
+    email_masked TEXT,
+    is_current_user BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_scope TEXT;
+    v_metric TEXT;
+    v_today DATE;
+    v_date DATE;
+BEGIN
+    v_scope := CASE WHEN p_scope IN ('daily', 'all_time') THEN p_scope ELSE 'all_time' END;
+    v_metric := CASE WHEN p_metric IN ('total_score', 'accuracy_rate', 'speed_score', 'no_hint_score') THEN p_metric ELSE 'total_score' END;
+    v_today := (CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Shanghai')::DATE;
+    v_date := LEAST(COALESCE(p_date, v_today), v_today);
+
+    RETURN QUERY
+    WITH candidate_rounds AS (
+        SELECT
+            r.*,
+            CASE v_metric
+                WHEN 'accuracy_rate' THEN r.accuracy_rate * 1000
+                WHEN 'speed_score' THEN r.speed_score
+                WHEN 'no_hint_score' THEN r.no_hint_score
+                ELSE r.total_score
+            END AS metric_value
+        FROM public.recall_game_rounds r
+        WHERE r.moderation_status <> 'hidden'
+        AND (
+            (v_scope = 'daily' AND r.played_date = v_date)
+            OR v_scope = 'all_time'
+        )
+        AND (
+            CASE
+                WHEN v_metric IN ('speed_score', 'no_hint_score') THEN r.accuracy_rate >= 0.85
+                ELSE true
+            END
+        )
+    ),
+    best_per_user AS (
+        SELECT DISTINCT ON (c.user_id)
+            c.*
+        FROM candidate_rounds c
+        ORDER BY c.user_id, c.metric_value DESC, c.total_score DESC, c.accuracy_rate DESC, c.time_used_seconds ASC, c.played_at ASC
+    ),
+    ranked AS (
+        SELECT
+            b.*,
+            ROW_NUMBER() OVER (
+                ORDER BY b.metric_value DESC, b.total_score DESC, b.accuracy_rate DESC, b.time_used_seconds ASC, b.played_at ASC
+            )::INTEGER AS rank_position
+        FROM best_per_user b
+    )
+    SELECT
+        r.user_id,
+        r.rank_position,
+        r.metric_value,
+        r.total_score,
+        r.accuracy_rate,
+        r.speed_score,
+        r.no_hint_score,
+        r.hints_used,
+        r.words_total,
+        r.words_correct,
+        r.time_used_seconds,
+        r.played_date,
+        COALESCE(
+            NULLIF(TRIM(COALESCE(p.username, '')), ''),
+            CASE
+                WHEN POSITION('@' IN u.email) > 0
+                    THEN SUBSTRING(u.email FROM 1 FOR 3) || '****' || SUBSTRING(u.email FROM POSITION('@' IN u.email))
+                ELSE LEFT(u.email, 3) || '****'
+            END
+        ) AS display_name,
+        CASE
+            WHEN POSITION('@' IN u.email) > 0
+                THEN SUBSTRING(u.email FROM 1 FOR 3) || '****' || SUBSTRING(u.email FROM POSITION('@' IN u.email))
+            ELSE LEFT(u.email, 3) || '****'
+        END AS email_masked,
+        (r.user_id = auth.uid())::BOOLEAN AS is_current_user
+    FROM ranked r
+    JOIN auth.users u ON r.user_id = u.id
+    LEFT JOIN public.user_profiles p ON r.user_id = p.user_id
+    WHERE r.rank_position <= GREATEST(p_limit, 1)
+    ORDER BY r.rank_position;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_recall_game_leaderboard TO authenticated;
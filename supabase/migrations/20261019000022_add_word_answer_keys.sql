@@ -0,0 +1,18 @@
+-- ================================================================
+-- Migration: Server-side idempotency for recorded answers
+-- Date: 2026-10-19
+--
+-- An answer reaches words through the outbox (word_status), and its
+-- idempotency key used to dedupe only inside one browser's queue: a write
+-- that landed but whose response was lost was replayed and counted twice
+-- (error_count, consecutive_correct, the review schedule). The client now
+-- stores the key in words.applied_answer_keys in the same version-guarded
+-- update that records the answer, and skips an answer whose key is
+-- already there. Only the most recent keys are kept (dataService.ts).
+-- ================================================================
+
+ALTER TABLE public.words
+  ADD COLUMN IF NOT EXISTS applied_answer_keys TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.words.applied_answer_keys IS
+'Outbox keys of the latest answers recorded on this word; a replayed answer with one of them is skipped.';
@@ -1,3 +1,5 @@
+import type { SignedRoundTicket } from './supabase/functions/verify-round/roundScoring';
+
 
 export interface WordMeaningOption {
   key: string;
@@ -33,6 +35,48 @@ export interface WordEntry {
   tags?: string[];
   score?: number; // Added for point system (3 for direct, 2.4 for hint)
   consecutive_correct?: number; // Error decay mechanism: consecutive correct answers without hints
+  // SM-2 spaced repetition state (see utils/sm2Algorithm.ts)
+  sm2_interval?: number; // Days between the last review and the next one
+  sm2_repetitions?: number; // Consecutive successful reviews
+  sm2_ease_factor?: number; // Easiness factor (>= 1.3)
+  next_review_at?: number | null; // Due timestamp (ms); null = never scheduled
+  // FSRS memory state (see utils/fsrsAlgorithm.ts); null = never reviewed under FSRS
+  fsrs_stability?: number | null; // Days until recall probability falls to 90%
+  fsrs_difficulty?: number | null; // 1 (easy) - 10 (hard)
+  suspended?: boolean; // Paused by the learner; progress is kept
+  buried_until?: number | null; // Hidden from tests/games until this timestamp (ms)
+  known?: boolean; // Already known: stays in the library, never tested
+  // Multi-device merges (see utils/wordMerge.ts)
+  version?: number; // Bumped by the server on every update
+  field_versions?: WordFieldVersions; // Who last wrote each text / meaning field
+}
+
+/** Edits seen per device: deviceId → count */
+export type VersionVector = Record<string, number>;
+
+/** Last write of one last-writer-wins word field */
+export interface WordFieldStamp {
+  vv: VersionVector;
+  at: number; // Edit time (ms); breaks ties between concurrent edits
+  device: string;
+}
+
+export type WordFieldVersions = Record<string, WordFieldStamp>;
+
+/** Mode a review log entry was recorded from */
+export type ReviewLogMode = 'CLASSIC' | 'PUZZLE' | 'SCENE' | 'RECALL' | 'CHOICE' | 'SPRINT' | 'FAMILY' | 'PHRASE' | 'DICTATION';
+
+/** One attempt at one word, from the append-only word_reviews log */
+export interface WordReviewLogEntry {
+  id: string;
+  wordId: string;
+  mode: ReviewLogMode;
+  reviewedAt: number; // Timestamp (ms)
+  correct: boolean;
+  attempts: number; // Tries used, including the final one
+  hintLevel: number; // 0 = none; CLASSIC: 1 = letter blocks, 2 = image + meaning; games: 1 = hint used
+  timeSpentMs: number | null;
+  charsPerMinute: number | null;
 }
 
 export interface InputSession {
@@ -65,7 +109,7 @@ export interface CompletedTestSummary {
   slowestWordTimeMs: number | null;
 }
 
-export type TestModeKind = 'CLASSIC' | 'PUZZLE' | 'SCENE';
+export type TestModeKind = 'CLASSIC' | 'PUZZLE' | 'SCENE' | 'RECALL' | 'CHOICE' | 'SPRINT' | 'FAMILY' | 'PHRASE';
 
 export type PuzzleGamePhase = 'INTRO' | 'PREPARING' | 'READY' | 'COUNTDOWN' | 'PLAYING' | 'RESULT';
 
@@ -79,6 +123,16 @@ export interface PuzzleGameConfig {
   kind: 'PUZZLE';
 }
 
+/** Head-to-head puzzle duel (see utils/puzzleDuel.ts) */
+export interface PuzzleDuelConfig {
+  kind: 'PUZZLE_DUEL';
+}
+
+/** Today's shared scene challenge (see utils/dailyChallenge.ts) */
+export interface DailyChallengeConfig {
+  kind: 'DAILY_CHALLENGE';
+}
+
 export interface ClassicTestConfig {
   kind?: 'CLASSIC';
   sessionIds?: string[];
@@ -111,6 +165,7 @@ export interface PuzzleGameSummary {
   rankingEligible: boolean;
   rankingIneligibleReason?: string | null;
   results: PuzzleCardResult[];
+  roundTicket?: SignedRoundTicket | null;  // Issued by verify-round at start; null = round can't be ranked
 }
 
 export interface PuzzleGameCardState {
@@ -170,6 +225,20 @@ export interface WordRegion {
   detectionFailed?: boolean;
   /** Optional cloze-style description sentence containing `word` verbatim. */
   sentence?: string;
+  /** Story chapters only: index of the panel image the region lies on. */
+  panel?: number;
+}
+
+/** One chapter image of a story-mode scene, in story order. */
+export interface ScenePanel {
+  index: number;
+  title?: string;
+  /** The chapter's part of the story (already shown to the player as cloze sentences). */
+  narration?: string;
+  imageUrl: string;
+  storagePath: string;
+  /** The chapter's words, in board order. */
+  words: string[];
 }
 
 /** A generated + cached fused scene image with per-word regions. */
@@ -192,8 +261,13 @@ export interface SceneAsset {
    *  cloze sentences are derived from). Surfaced in the PREPARING stage so the
    *  player can preview the scene idea before play. */
   storyboard?: string;
+  /** Story chapters: 3–4 panel images played in order. `imageUrl` is panel 0. */
+  panels?: ScenePanel[];
 }
 
+/** Progress events of the scene-generate NDJSON stream, in pipeline order. */
+export type ScenePipelineStage = 'designed' | 'panel-rendered' | 'rendered' | 'persisted' | 'done';
+
 export interface SceneCardResult {
   wordId: string;
   wordText: string;
@@ -225,6 +299,7 @@ export interface SceneGameSummary {
   rankingIneligibleReason?: string | null;
   sceneAssetId?: string | null;
   results: SceneCardResult[];
+  roundTicket?: SignedRoundTicket | null;  // Issued by verify-round at start; null = round can't be ranked
 }
 
 export type SceneLeaderboardScope = 'daily' | 'all_time';
@@ -247,6 +322,295 @@ export interface SceneLeaderboardEntry {
   is_current_user?: boolean;
 }
 
+// ================================================================
+// Meaning Recall Mode (中文释义 → 英文拼写)
+// ================================================================
+
+export type RecallGamePhase = 'INTRO' | 'PLAYING' | 'RESULT';
+
+export interface RecallGameConfig {
+  kind: 'RECALL';
+}
+
+/** The Chinese prompt shown for one word (see utils/meaningRecall.ts) */
+export interface RecallPrompt {
+  wordId: string;
+  meaningZh: string;
+  /** Normalized part of speech ('noun' | 'verb' | ...), null when unknown */
+  partOfSpeech: string | null;
+  /** Whether the word has more than one stored meaning */
+  hasSeveralMeanings: boolean;
+  /** Whether another library word shares this meaning + part of speech */
+  ambiguous: boolean;
+  /** Extra clues, only filled in for ambiguous prompts */
+  firstLetter: string | null;
+  letterCount: number | null;
+  definitionEn: string | null;
+  /** Other library words the prompt also describes (accepted as "try again") */
+  synonyms: string[];
+}
+
+export interface RecallCardResult {
+  wordId: string;
+  wordText: string;
+  correct: boolean;
+  attemptsUsed: number;
+  hintUsed: boolean;
+  /** The prompt was ambiguous and showed disambiguation clues */
+  ambiguous: boolean;
+  solvedAtMs: number | null;
+  activatedAtMs: number | null;
+}
+
+export interface RecallGameSummary {
+  totalScore: number;
+  accuracyRate: number;
+  speedScore: number;
+  noHintScore: number;
+  wordsCorrect: number;
+  wordsTotal: number;
+  hintsUsed: number;
+  solvedWithoutHint: number;
+  timeUsedSeconds: number;
+  secondsRemaining: number;
+  selectionMode: PuzzleGameSelectionMode;
+  overlapRate: number;
+  rankingEligible: boolean;
+  rankingIneligibleReason?: string | null;
+  results: RecallCardResult[];
+  roundTicket?: SignedRoundTicket | null;  // Issued by verify-round at start; null = round can't be ranked
+}
+
+export type RecallLeaderboardScope = 'daily' | 'all_time';
+export type RecallLeaderboardMetric = 'total_score' | 'accuracy_rate' | 'speed_score' | 'no_hint_score';
+
+export interface RecallLeaderboardEntry {
+  user_id: string;
+  rank_position: number;
+  metric_value: number;
+  total_score: number;
+  accuracy_rate: number;
+  speed_score: number;
+  no_hint_score: number;
+  hints_used: number;
+  words_total: number;
+  words_correct: number;
+  time_used_seconds: number;
+  played_date: string;
+  display_name?: string;
+  email_masked?: string;
+  is_current_user?: boolean;
+}
+
+// ================================================================
+// Multiple-choice Meaning Quiz (单词 → 四选一中文释义)
+// ================================================================
+
+export type ChoiceQuizPhase = 'INTRO' | 'PLAYING' | 'RESULT';
+
+export interface ChoiceQuizConfig {
+  kind: 'CHOICE';
+}
+
+export interface ChoiceOption {
+  /** Word the meaning belongs to (the target for the right answer) */
+  wordId: string;
+  meaningZh: string;
+  correct: boolean;
+}
+
+export interface ChoiceQuestion {
+  word: WordEntry;
+  /** Four options in display order, exactly one correct */
+  options: ChoiceOption[];
+}
+
+export interface ChoiceCardResult {
+  wordId: string;
+  wordText: string;
+  correct: boolean;
+  /** Distractor the learner picked, null when correct or timed out */
+  chosenWordId: string | null;
+  answeredInMs: number | null;
+}
+
+export interface ChoiceQuizSummary {
+  wordsCorrect: number;
+  wordsTotal: number;
+  accuracyRate: number;
+  averageAnswerMs: number | null;
+  results: ChoiceCardResult[];
+}
+
+// ================================================================
+// Audio Sprint Mode (听音拼写冲刺)
+// ================================================================
+
+export type SprintGamePhase = 'INTRO' | 'LOADING' | 'PLAYING' | 'RESULT';
+
+export interface SprintGameConfig {
+  kind: 'SPRINT';
+}
+
+export interface SprintCardResult {
+  wordId: string;
+  wordText: string;
+  correct: boolean;
+  /** The answer window ran out before anything was submitted */
+  timedOut: boolean;
+  /** Answer window granted for this word (shrinks as the streak grows) */
+  windowMs: number;
+  /** Streak going into this word */
+  streakBefore: number;
+  /** The word started playing */
+  playedAtMs: number | null;
+  /** The answer window opened (playback finished, or the answer came first) */
+  activatedAtMs: number | null;
+  answeredAtMs: number | null;
+}
+
+export interface SprintGameSummary {
+  totalScore: number;
+  accuracyRate: number;
+  speedScore: number;
+  bestStreak: number;
+  /** Shortest answer window reached during the round */
+  fastestWindowMs: number;
+  wordsCorrect: number;
+  wordsTotal: number;
+  timeUsedSeconds: number;
+  selectionMode: PuzzleGameSelectionMode;
+  overlapRate: number;
+  rankingEligible: boolean;
+  rankingIneligibleReason?: string | null;
+  results: SprintCardResult[];
+  roundTicket?: SignedRoundTicket | null;  // Issued by verify-round at start; null = round can't be ranked
+}
+
+export type SprintLeaderboardScope = 'daily' | 'all_time';
+export type SprintLeaderboardMetric = 'total_score' | 'accuracy_rate' | 'speed_score' | 'best_streak';
+
+export interface SprintLeaderboardEntry {
+  user_id: string;
+  rank_position: number;
+  metric_value: number;
+  total_score: number;
+  accuracy_rate: number;
+  speed_score: number;
+  best_streak: number;
+  fastest_window_ms: number;
+  words_total: number;
+  words_correct: number;
+  time_used_seconds: number;
+  played_date: string;
+  display_name?: string;
+  email_masked?: string;
+  is_current_user?: boolean;
+}
+
+// ================================================================
+// Word Families (词族 / 派生词训练)
+// ================================================================
+
+/** Word class an affix derives into; 'opposite' for un- / in- / dis- */
+export type DerivationKind = 'noun' | 'adjective' | 'adverb' | 'opposite';
+
+/** Library words sharing a lemma (see utils/wordFamily.ts) */
+export interface WordFamily {
+  root: string;
+  /** Shortest word first */
+  members: WordEntry[];
+}
+
+export type FamilyDrillPhase = 'INTRO' | 'LOADING' | 'PLAYING' | 'RESULT';
+
+export interface FamilyDrillConfig {
+  kind: 'FAMILY';
+}
+
+export interface FamilyDrillPrompt {
+  wordId: string;
+  baseWord: string;
+  meaningZh: string | null;
+  targetKind: DerivationKind;
+  /** Every family form of the target class (lowercase) */
+  answers: string[];
+  /** Shown after the answer: a library word when there is one */
+  expected: string;
+  /** Library id of `expected`, credited too when answered correctly */
+  answerWordId: string | null;
+}
+
+export interface FamilyDrillResult {
+  wordId: string;
+  baseWord: string;
+  expected: string;
+  typed: string;
+  correct: boolean;
+  answerWordId: string | null;
+  answeredInMs: number | null;
+}
+
+export interface FamilyDrillSummary {
+  wordsCorrect: number;
+  wordsTotal: number;
+  accuracyRate: number;
+  results: FamilyDrillResult[];
+}
+
+// ================================================================
+// Phrase Practice (搭配 / 短语练习)
+// ================================================================
+
+/** verb + noun (make a decision) or adjective + noun (heavy rain) */
+export type CollocationPattern = 'verb_noun' | 'adj_noun';
+
+/** A collocation from the local list or the text provider */
+export interface CollocationCandidate {
+  phrase: string;
+  pattern: CollocationPattern;
+  meaningZh: string | null;
+}
+
+/** A candidate matched to the library word it was suggested for */
+export interface CollocationSuggestion extends CollocationCandidate {
+  headWordId: string;
+  headWord: string;
+  source: 'local' | 'ai';
+}
+
+export type PhrasePracticePhase = 'INTRO' | 'SUGGESTING' | 'SUGGEST' | 'PLAYING' | 'RESULT';
+
+export interface PhrasePracticeConfig {
+  kind: 'PHRASE';
+}
+
+/** One cloze prompt: a saved phrase entry with one content word blanked */
+export interface PhraseClozeItem {
+  wordId: string;
+  phrase: string;
+  /** Token index of the blank */
+  blankIndex: number;
+  answer: string;
+  meaningZh: string | null;
+}
+
+export interface PhraseClozeResult {
+  wordId: string;
+  phrase: string;
+  answer: string;
+  typed: string;
+  correct: boolean;
+  answeredInMs: number | null;
+}
+
+export interface PhraseClozeSummary {
+  wordsCorrect: number;
+  wordsTotal: number;
+  accuracyRate: number;
+  results: PhraseClozeResult[];
+}
+
 export type AppMode = 'DASHBOARD' | 'INPUT' | 'TEST' | 'LIBRARY';
 
 export interface DayStats {
@@ -269,20 +633,81 @@ export interface DayStatsWithVersion extends DayStats {
   _resolved?: 'local' | 'server' | 'merged';  // How the conflict was resolved
 }
 
+// ================================================================
+// Mutation Outbox (services/offlineSyncQueue.ts)
+// ================================================================
+
 /**
- * Pending sync item for offline queue (Phase C)
- * Stores test data locally when sync fails, for retry when connection is restored
+ * A cloud write that must survive a lost connection, described as data so it
+ * can wait in IndexedDB and be replayed by the handler registered for its type.
  */
-export interface PendingSyncItem {
-  id: string;  // UUID for tracking
-  date: string;  // Test date (YYYY-MM-DD)
-  testCount: number;  // Total words tested
-  correctCount: number;  // Correct answers
-  points: number;  // Points earned
-  expectedVersion: number;  // Version for conflict detection
-  timestamp: number;  // When created (ms)
-  retryCount?: number;  // Current retry attempt
-  lastError?: string;  // Last error message
+export type OutboxOperation =
+  | {
+      type: 'test_stats';
+      payload: { date: string; testCount: number; correctCount: number; points: number; expectedVersion: number };
+    }
+  | {
+      type: 'word_status';
+      payload: {
+        wordId: string;
+        correct: boolean;
+        score: number;
+        errorCountIncrement: number;
+        bestTimeMs?: number;
+        hasUsedHint: boolean;
+        reviewedAt: number;  // When answered (ms), kept as last_tested on replay
+      };
+    }
+  | { type: 'mistake_tag'; payload: { wordId: string } }
+  // Raises error_count without recording a review (a target word missed in sentence dictation)
+  | { type: 'error_penalty'; payload: { wordId: string; errorCountIncrement: number } }
+  | {
+      type: 'review_log';
+      payload: Omit<WordReviewLogEntry, 'id'>;
+    }
+  | {
+      type: 'word_metadata';
+      payload: {
+        wordId: string;
+        updates: { selected_meaning_key?: string | null; definition_cn?: string; definition_en?: string };
+        // Field values the edit started from, for the three-way merge (utils/wordMerge.ts)
+        base?: {
+          selected_meaning_key?: string | null;
+          definition_cn?: string | null;
+          definition_en?: string | null;
+          field_versions?: WordFieldVersions;
+        };
+        editedAt?: number;
+      };
+    }
+  | { type: 'game_round'; payload: { mode: 'PUZZLE'; summary: PuzzleGameSummary } }
+  | { type: 'game_round'; payload: { mode: 'SCENE'; summary: SceneGameSummary } }
+  | { type: 'game_round'; payload: { mode: 'RECALL'; summary: RecallGameSummary } }
+  | { type: 'game_round'; payload: { mode: 'SPRINT'; summary: SprintGameSummary } }
+  | {
+      type: 'coin_award';
+      payload: { coinType: 'quiz_score' | 'puzzle_score' | 'choice_score'; reference: string; delta: number };
+    }
+  | { type: 'delete_words'; payload: { userId: string; wordIds: string[] } }
+  | { type: 'delete_sessions'; payload: { userId: string; sessionIds: string[] } };
+
+export type OutboxOperationType = OutboxOperation['type'];
+
+/** pending = waiting for (re)play; dead = gave up, kept for the learner to retry or discard */
+export type OutboxItemStatus = 'pending' | 'dead';
+
+export interface OutboxItem {
+  key: string;  // Idempotency key: one logical write is queued and applied once
+  seq: number;  // Queue order
+  userId: string;  // Owner; only replayed for the signed-in user ('pending-owner' until the next sign-in claims it)
+  orderingKey: string;  // Items sharing it replay strictly in seq order (e.g. word:<id>)
+  op: OutboxOperation;
+  status: OutboxItemStatus;
+  attempts: number;
+  createdAt: number;  // ms
+  nextAttemptAt: number;  // ms; backoff after a failed attempt
+  lastError?: string;
+  deadAt?: number;  // ms; when it moved to the dead-letter view
 }
 
 // ================================================================
@@ -0,0 +1,280 @@
+/**
+ * Account Archive
+ *
+ * Versioned JSON export of everything a learner owns — words (with progress),
+ * sessions, DayStats, achievements, the review log and the signed coin
+ * ledger — plus CSV and Anki text exports of the word list.
+ *
+ * The JSON archive restores into a fresh account (services/exportService.ts),
+ * so it is the cross-device backup path; syncService's LocalBackup only
+ * covers the current browser. Kept free of runtime imports so Node tests can
+ * load it directly.
+ */
+
+import type { DayStats, InputSession, WordEntry, WordReviewLogEntry } from '../types';
+import type { CoinTransaction } from '../services/coinService';
+
+export const ACCOUNT_ARCHIVE_FORMAT = 'vibe-word-master-archive';
+/** Bump when the archive shape changes; parseAccountArchive rejects newer versions */
+export const ACCOUNT_ARCHIVE_VERSION = 1;
+
+export interface ArchivedAchievement {
+  achievement_id: string;
+  unlocked_at: string;
+}
+
+/** Wallet + full ledger as returned by the export_coin_ledger RPC */
+export interface CoinLedger {
+  source_user_id: string;
+  balance: number;
+  lifetime_earned: number;
+  lifetime_spent: number;
+  transactions: CoinTransaction[];
+}
+
+export interface SignedCoinLedger {
+  ledger: CoinLedger;
+  /** HMAC issued by the server; restore_coin_ledger rejects edited ledgers */
+  signature: string;
+}
+
+/**
+ * Coins a ledger restore moves from the source wallet to the target, as
+ * restore_coin_ledger computes them: the net of the copied transactions,
+ * capped at what the source still holds. The source is debited the same
+ * amount, so restores never add coins — restoring A into B and then B
+ * into C leaves the total unchanged.
+ * @param copiedNet - Sum of the deltas actually copied (rows the target already had are skipped)
+ */
+export const coinRestoreTransfer = (sourceBalance: number, copiedNet: number): number =>
+  Math.max(0, Math.min(sourceBalance, copiedNet));
+
+export interface AccountArchive {
+  format: typeof ACCOUNT_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  words: WordEntry[];
+  sessions: InputSession[];
+  dayStats: DayStats[];
+  achievements: ArchivedAchievement[];
+  reviews: WordReviewLogEntry[];
+  coins: SignedCoinLedger | null;
+}
+
+export class AccountArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountArchiveError';
+  }
+}
+
+/**
+ * Parse and validate an archive file.
+ * @throws AccountArchiveError for foreign files or archives from a newer app version
+ */
+export const parseAccountArchive = (text: string): AccountArchive => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new AccountArchiveError('Not a JSON file');
+  }
+  if (!raw || raw.format !== ACCOUNT_ARCHIVE_FORMAT || typeof raw.version !== 'number') {
+    throw new AccountArchiveError('Not a Vibe Word Master archive');
+  }
+  if (raw.version > ACCOUNT_ARCHIVE_VERSION) {
+    throw new AccountArchiveError(`Archive version ${raw.version} is newer than this app supports (${ACCOUNT_ARCHIVE_VERSION})`);
+  }
+  if (!Array.isArray(raw.words) || !Array.isArray(raw.sessions)) {
+    throw new AccountArchiveError('Archive is missing words or sessions');
+  }
+
+  return {
+    format: ACCOUNT_ARCHIVE_FORMAT,
+    version: ACCOUNT_ARCHIVE_VERSION,
+    exportedAt: String(raw.exportedAt ?? ''),
+    words: raw.words,
+    sessions: raw.sessions,
+    dayStats: Array.isArray(raw.dayStats) ? raw.dayStats : [],
+    achievements: Array.isArray(raw.achievements) ? raw.achievements : [],
+    reviews: Array.isArray(raw.reviews) ? raw.reviews : [],
+    coins: raw.coins && raw.coins.ledger && typeof raw.coins.signature === 'string' ? raw.coins : null,
+  };
+};
+
+// ================================================================
+// Restore
+// ================================================================
+
+export interface ArchiveRestorePlan {
+  sessions: Record<string, unknown>[];
+  words: Record<string, unknown>[];
+  reviews: Record<string, unknown>[];
+  dayStats: Record<string, unknown>[];
+  achievements: Record<string, unknown>[];
+}
+
+const toIso = (timestamp: number | null | undefined) => (timestamp ? new Date(timestamp).toISOString() : null);
+
+/**
+ * Database rows for restoring an archive into another account. Session,
+ * word and review ids are re-issued (the source account may still exist)
+ * and every reference is remapped; shared assets (image_asset_id,
+ * lexeme_id) are kept as-is.
+ *
+ * @param newId - Id factory, e.g. crypto.randomUUID
+ */
+export const planArchiveRestore = (archive: AccountArchive, userId: string, newId: () => string): ArchiveRestorePlan => {
+  const sessionIds = new Map(archive.sessions.map(s => [s.id, newId()]));
+  const wordIds = new Map(archive.words.map(w => [w.id, newId()]));
+
+  return {
+    sessions: archive.sessions.map(s => ({
+      id: sessionIds.get(s.id),
+      user_id: userId,
+      created_at: new Date(s.timestamp).toISOString(),
+      word_count: s.wordCount,
+      target_count: s.targetCount,
+      library_tag: s.libraryTag || 'Custom',
+    })),
+    words: archive.words.map(w => ({
+      id: wordIds.get(w.id),
+      user_id: userId,
+      session_id: sessionIds.get(w.sessionId) ?? null,
+      text: w.text,
+      created_at: new Date(w.timestamp).toISOString(),
+      correct: w.correct,
+      tested: w.tested,
+      image_path: w.image_path ?? null,
+      image_asset_id: w.image_asset_id ?? null,
+      error_count: w.error_count,
+      best_time_ms: w.best_time_ms,
+      last_tested: toIso(w.last_tested),
+      phonetic: w.phonetic,
+      audio_url: w.audio_url,
+      language: w.language ?? 'en',
+      lexeme_id: w.lexeme_id ?? null,
+      definition_cn: w.definition_cn,
+      definition_en: w.definition_en,
+      meaning_options: w.meaning_options ?? [],
+      selected_meaning_key: w.selected_meaning_key ?? null,
+      tags: w.tags ?? ['Custom'],
+      score: w.score ?? 0,
+      consecutive_correct: w.consecutive_correct ?? 0,
+      sm2_interval: w.sm2_interval ?? 0,
+      sm2_repetitions: w.sm2_repetitions ?? 0,
+      sm2_ease_factor: w.sm2_ease_factor ?? 2.5,
+      next_review_at: toIso(w.next_review_at),
+      fsrs_stability: w.fsrs_stability ?? null,
+      fsrs_difficulty: w.fsrs_difficulty ?? null,
+      suspended: w.suspended ?? false,
+      buried_until: toIso(w.buried_until),
+      known: w.known ?? false,
+    })),
+    reviews: archive.reviews
+      .filter(r => wordIds.has(r.wordId))
+      .map(r => ({
+        user_id: userId,
+        word_id: wordIds.get(r.wordId),
+        mode: r.mode,
+        reviewed_at: new Date(r.reviewedAt).toISOString(),
+        correct: r.correct,
+        attempts: r.attempts,
+        hint_level: r.hintLevel,
+        time_spent_ms: r.timeSpentMs,
+        chars_per_minute: r.charsPerMinute,
+      })),
+    dayStats: archive.dayStats.map(d => ({
+      user_id: userId,
+      date: d.date,
+      total_count: d.total,
+      correct_count: d.correct,
+      total_points: d.points ?? 0,
+      is_frozen: d.is_frozen ?? false,
+    })),
+    achievements: archive.achievements.map(a => ({
+      user_id: userId,
+      achievement_id: a.achievement_id,
+      unlocked_at: a.unlocked_at,
+    })),
+  };
+};
+
+// ================================================================
+// CSV / Anki
+// ================================================================
+
+const escapeDelimited = (value: unknown, delimiter: string): string => {
+  const text = value == null ? '' : String(value);
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS: Array<[string, (w: WordEntry) => unknown]> = [
+  ['word', w => w.text],
+  ['definition_cn', w => w.definition_cn],
+  ['definition_en', w => w.definition_en],
+  ['phonetic', w => w.phonetic],
+  ['tags', w => (w.tags || []).join('; ')],
+  ['image_url', w => w.image_url],
+  ['audio_url', w => w.audio_url],
+  ['tested', w => w.tested],
+  ['correct', w => w.correct],
+  ['error_count', w => w.error_count],
+  ['best_time_ms', w => w.best_time_ms],
+  ['last_tested', w => toIso(w.last_tested)],
+  ['next_review_at', w => toIso(w.next_review_at)],
+  ['sm2_interval', w => w.sm2_interval],
+  ['sm2_ease_factor', w => w.sm2_ease_factor],
+  ['suspended', w => w.suspended ?? false],
+  ['known', w => w.known ?? false],
+  ['added_at', w => toIso(w.timestamp)],
+];
+
+/**
+ * Word list as CSV (header row, RFC 4180 quoting, CRLF line endings).
+ */
+export const wordsToCsv = (words: WordEntry[]): string => [
+  CSV_COLUMNS.map(([name]) => name).join(','),
+  ...words.map(w => CSV_COLUMNS.map(([, read]) => escapeDelimited(read(w), ',')).join(',')),
+].join('\r\n');
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/'/g, '&#39;');
+
+/**
+ * Word list as an Anki "Notes in Plain Text" file (File → Import in Anki).
+ * Front: word, phonetic and pronunciation audio; Back: meanings and image.
+ * Media are referenced by URL, so they load while online. Attributes use
+ * single quotes so fields rarely need CSV quoting.
+ */
+export const wordsToAnkiNotes = (words: WordEntry[], deckName: string): string => {
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    '#notetype:Basic',
+    `#deck:${deckName}`,
+    '#columns:Front\tBack\tTags',
+    '#tags column:3',
+  ];
+
+  const rows = words.map(w => {
+    const front = [
+      escapeHtml(w.text),
+      w.phonetic ? `<span class='phonetic'>${escapeHtml(w.phonetic)}</span>` : '',
+      w.audio_url ? `<audio controls src='${escapeHtml(w.audio_url)}'></audio>` : '',
+    ].filter(Boolean).join('<br>');
+    const back = [
+      w.definition_cn ? escapeHtml(w.definition_cn) : '',
+      w.definition_en ? `<i>${escapeHtml(w.definition_en)}</i>` : '',
+      w.image_url ? `<img src='${escapeHtml(w.image_url)}'>` : '',
+    ].filter(Boolean).join('<br>');
+    // Anki tags cannot contain spaces
+    const tags = (w.tags || []).map(t => t.replace(/\s+/g, '_')).join(' ');
+    return [front, back, tags].map(v => escapeDelimited(v.replace(/\r?\n/g, '<br>'), '\t')).join('\t');
+  });
+
+  return [...header, ...rows].join('\n');
+};
@@ -0,0 +1,71 @@
+/**
+ * Audio Sprint (listening-only game)
+ *
+ * Words are played back to back and the learner types each one before its
+ * answer window closes. The window starts generous and shrinks with every
+ * word in the current streak, so a clean run speeds up; a miss resets the
+ * tempo. Long words get a little extra time per letter.
+ *
+ * Pure helpers only (window size, answer check, round scoring) so they can
+ * be unit tested; window size and scoring come from the verify-round
+ * function's roundScoring.ts. Selection and RPCs live in
+ * services/audioSprint.ts.
+ */
+
+import type { PuzzleGameSelectionMode, SprintCardResult, SprintGameSummary } from '../types';
+import {
+  getSprintBestStreak,
+  getSprintWindowMs,
+  scoreSprintRound,
+  SPRINT_MIN_WINDOW_MS,
+  SPRINT_START_WINDOW_MS,
+  SPRINT_TOTAL_WORDS,
+  SPRINT_WINDOW_STEP_MS,
+  wordLetterCount,
+} from '../supabase/functions/verify-round/roundScoring.ts';
+
+export {
+  getSprintBestStreak,
+  getSprintWindowMs,
+  SPRINT_MIN_WINDOW_MS,
+  SPRINT_START_WINDOW_MS,
+  SPRINT_TOTAL_WORDS,
+  SPRINT_WINDOW_STEP_MS,
+  wordLetterCount,
+};
+
+const normalizeText = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Tempo multiplier shown in the HUD (1.0 at the start, ~2.6 at the floor) */
+export const getSprintTempo = (streak: number) =>
+  Number((SPRINT_START_WINDOW_MS / getSprintWindowMs(streak, 0)).toFixed(1));
+
+export const checkSprintAnswer = (typed: string, target: string) =>
+  normalizeText(typed) !== '' && normalizeText(typed) === normalizeText(target);
+
+export const calculateSprintGameSummary = (
+  results: SprintCardResult[],
+  elapsedMs: number,
+  selectionMode: PuzzleGameSelectionMode,
+  overlapRate: number,
+  rankingEligible: boolean,
+  rankingIneligibleReason?: string | null,
+): SprintGameSummary => {
+  const score = scoreSprintRound(results, elapsedMs, SPRINT_TOTAL_WORDS);
+
+  return {
+    totalScore: score.totalScore,
+    accuracyRate: score.accuracyRate,
+    speedScore: score.speedScore,
+    bestStreak: score.bestStreak,
+    fastestWindowMs: score.fastestWindowMs,
+    wordsCorrect: score.wordsCorrect,
+    wordsTotal: score.wordsTotal,
+    timeUsedSeconds: score.timeUsedSeconds,
+    selectionMode,
+    overlapRate: Number(overlapRate.toFixed(4)),
+    rankingEligible,
+    rankingIneligibleReason: rankingIneligibleReason || null,
+    results,
+  };
+};
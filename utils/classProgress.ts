@@ -0,0 +1,180 @@
+/**
+ * Class Progress
+ *
+ * Classrooms let a teacher assign word sets to students (see
+ * services/classroomService.ts). This module holds the pure parts:
+ *   - picking the words of an assignment from a library pack slice
+ *   - summarising each student × assignment from the rows returned by
+ *     get_class_progress: completion from the students' own words
+ *     (tested since the assignment was set), accuracy from daily_stats
+ *     inside the assignment window, and the summed per-word error_count
+ */
+
+import type { LibraryPackWord } from './libraryManifest.ts';
+
+/** Tag given to assigned words a student did not have yet */
+export const CLASS_TAG_PREFIX = 'Class:';
+
+/** Words with at least this many recorded errors are listed as struggling */
+export const STRUGGLING_ERROR_COUNT = 2;
+
+export type ClassAssignmentSource =
+  | { kind: 'session'; label: string }
+  | { kind: 'library'; label: string; tag: string; level?: number | null };
+
+export interface ClassAssignmentWord {
+  text: string;
+  meaning: string | null;
+}
+
+export interface ClassAssignment {
+  id: string;
+  classId: string;
+  title: string;
+  source: ClassAssignmentSource;
+  words: ClassAssignmentWord[];
+  dueAt: number | null; // Timestamp (ms); null = no due date
+  createdAt: number;
+}
+
+export interface ClassStudent {
+  userId: string;
+  name: string | null;
+  joinedAt: number;
+}
+
+/** A student's own word that matches an assigned word */
+export interface StudentWordRow {
+  userId: string;
+  text: string;
+  tested: boolean;
+  correct: boolean;
+  errorCount: number;
+  lastTested: number | null;
+}
+
+/** One daily_stats row of a student */
+export interface StudentDailyRow {
+  userId: string;
+  date: string; // YYYY-MM-DD (Beijing time, as stored)
+  total: number;
+  correct: number;
+}
+
+export type AssignmentStatus = 'not_started' | 'in_progress' | 'complete' | 'overdue';
+
+export interface AssignmentProgress {
+  assignmentId: string;
+  userId: string;
+  /** Assigned words tested since the assignment was set */
+  studied: number;
+  total: number;
+  completionRate: number; // 0-100
+  /** Correct share of daily_stats answers inside the assignment window, null without tests */
+  accuracy: number | null;
+  /** Sum of error_count over the assigned words */
+  errorCount: number;
+  /** Assigned words with the most errors, worst first */
+  strugglingWords: string[];
+  status: AssignmentStatus;
+}
+
+export interface LibrarySlice {
+  level?: number | null;
+  /** 1-based, inclusive */
+  from?: number;
+  /** 1-based, inclusive */
+  to?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** YYYY-MM-DD of a timestamp in Beijing time (daily_stats dates use it) */
+const beijingDateKey = (timestamp: number) =>
+  new Date(timestamp + 8 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * Words of a library pack for an assignment: optionally one level, then a
+ * 1-based inclusive range of what is left.
+ */
+export const sliceLibraryWords = (words: LibraryPackWord[], slice: LibrarySlice): ClassAssignmentWord[] => {
+  const pool = slice.level != null ? words.filter(w => w.level === slice.level) : words;
+  const start = Math.max((slice.from ?? 1) - 1, 0);
+  const end = slice.to != null ? Math.max(slice.to, start) : pool.length;
+  return pool.slice(start, end).map(w => ({ text: w.text, meaning: w.meaning }));
+};
+
+/**
+ * Progress of every student on every assignment.
+ *
+ * @param now - Current timestamp, for overdue status
+ */
+export const buildClassProgress = (
+  students: ClassStudent[],
+  assignments: ClassAssignment[],
+  words: StudentWordRow[],
+  daily: StudentDailyRow[],
+  now: number = Date.now()
+): AssignmentProgress[] => {
+  const wordsByStudent = new Map<string, Map<string, StudentWordRow>>();
+  for (const row of words) {
+    const own = wordsByStudent.get(row.userId) ?? new Map<string, StudentWordRow>();
+    own.set(row.text.toLowerCase().trim(), row);
+    wordsByStudent.set(row.userId, own);
+  }
+
+  const progress: AssignmentProgress[] = [];
+  for (const assignment of assignments) {
+    const windowStart = beijingDateKey(assignment.createdAt);
+    const windowEnd = beijingDateKey(assignment.dueAt != null ? Math.min(assignment.dueAt, now) : now);
+
+    for (const student of students) {
+      const own = wordsByStudent.get(student.userId);
+      let studied = 0;
+      let errorCount = 0;
+      const struggling: Array<{ text: string; errors: number }> = [];
+
+      for (const word of assignment.words) {
+        const row = own?.get(word.text.toLowerCase().trim());
+        if (!row) continue;
+        if (row.tested && row.lastTested != null && row.lastTested >= assignment.createdAt) studied++;
+        errorCount += row.errorCount;
+        if (row.errorCount >= STRUGGLING_ERROR_COUNT) struggling.push({ text: word.text, errors: row.errorCount });
+      }
+
+      let answered = 0;
+      let correct = 0;
+      for (const day of daily) {
+        if (day.userId !== student.userId || day.date < windowStart || day.date > windowEnd) continue;
+        answered += day.total;
+        correct += day.correct;
+      }
+
+      const total = assignment.words.length;
+      const status: AssignmentStatus = total > 0 && studied >= total
+        ? 'complete'
+        : assignment.dueAt != null && now > assignment.dueAt
+          ? 'overdue'
+          : studied > 0 ? 'in_progress' : 'not_started';
+
+      progress.push({
+        assignmentId: assignment.id,
+        userId: student.userId,
+        studied,
+        total,
+        completionRate: total > 0 ? Math.round((studied / total) * 100) : 0,
+        accuracy: answered > 0 ? Math.round((correct / answered) * 100) : null,
+        errorCount,
+        strugglingWords: struggling.sort((a, b) => b.errors - a.errors).slice(0, 5).map(s => s.text),
+        status,
+      });
+    }
+  }
+  return progress;
+};
+
+/**
+ * Whole days until a due date, negative once it has passed (null = no due date).
+ */
+export const daysUntilDue = (dueAt: number | null, now: number = Date.now()): number | null =>
+  dueAt == null ? null : Math.ceil((dueAt - now) / DAY_MS);
@@ -0,0 +1,184 @@
+/**
+ * Collocations (phrase practice)
+ *
+ * Suggests common verb + noun (make a decision) and adjective + noun
+ * (heavy rain) phrases for the learner's words from the local list in
+ * public/dictionaries/collocations.json. A phrase is keyed by its first and
+ * last tokens, so "decision" and "make" both find "make a decision".
+ * Suggestions the text provider returns for words the list doesn't cover go
+ * through the same clean-up before they are shown.
+ *
+ * Saved phrases are ordinary 2–3 word entries (the same shape InputMode's
+ * phrase path stores); the cloze test blanks their first content word and
+ * asks for it back.
+ */
+
+import type {
+  CollocationCandidate,
+  CollocationPattern,
+  CollocationSuggestion,
+  PhraseClozeItem,
+  PhraseClozeResult,
+  PhraseClozeSummary,
+  WordEntry,
+} from '../types';
+
+export const PHRASE_CLOZE_ITEMS = 10;
+export const PHRASE_SUGGESTIONS_PER_WORD = 3;
+
+const COLLOCATION_PATTERNS: CollocationPattern[] = ['verb_noun', 'adj_noun'];
+
+/** Never blanked: the cloze asks for the word that carries the collocation */
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'out', 'up',
+  'my', 'your', 'his', 'her', 'its', 'our', 'their',
+]);
+
+const PHRASE_PATTERN = /^[a-z][a-z'-]*( [a-z][a-z'-]*){1,2}$/;
+
+const normalizePhrase = (text: string) => String(text || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+const tokenize = (phrase: string) => normalizePhrase(phrase).split(' ').filter(Boolean);
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+/** 2–3 plain words: the phrase shape validatePhrase accepts */
+export const isPhraseEntry = (text: string) => PHRASE_PATTERN.test(normalizePhrase(text));
+
+/** A library word matches a key token exactly or as its plural (animal → wild animals) */
+const matchesKey = (token: string, word: string) => token === word || token === `${word}s`;
+
+const sanitizeCandidate = (raw: any): CollocationCandidate | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const phrase = normalizePhrase(raw.phrase);
+  if (!isPhraseEntry(phrase)) return null;
+  if (!COLLOCATION_PATTERNS.includes(raw.pattern)) return null;
+  const meaning = typeof raw.meaningZh === 'string' ? raw.meaningZh : raw.zh;
+  return {
+    phrase,
+    pattern: raw.pattern,
+    meaningZh: typeof meaning === 'string' && meaning.trim() ? meaning.trim() : null,
+  };
+};
+
+/**
+ * Entries of public/dictionaries/collocations.json
+ * ({ format: 'vibe-collocations', formatVersion: 1, entries: [...] }).
+ * Malformed entries are dropped rather than failing the whole list.
+ */
+export const parseCollocationList = (raw: unknown): CollocationCandidate[] => {
+  const data = raw as { format?: string; formatVersion?: number; entries?: unknown };
+  if (!data || data.format !== 'vibe-collocations' || data.formatVersion !== 1 || !Array.isArray(data.entries)) {
+    return [];
+  }
+  const seen = new Set<string>();
+  return data.entries
+    .map(sanitizeCandidate)
+    .filter((entry): entry is CollocationCandidate => {
+      if (!entry || seen.has(entry.phrase)) return false;
+      seen.add(entry.phrase);
+      return true;
+    });
+};
+
+/**
+ * Provider output for one head word: only well-formed phrases that
+ * actually contain the word survive.
+ */
+export const normalizeCollocationCandidates = (raw: unknown, headWord: string): CollocationCandidate[] => {
+  if (!Array.isArray(raw)) return [];
+  const word = normalizePhrase(headWord);
+  const seen = new Set<string>();
+  return raw
+    .map(sanitizeCandidate)
+    .filter((entry): entry is CollocationCandidate => {
+      if (!entry || seen.has(entry.phrase)) return false;
+      if (!tokenize(entry.phrase).some((token) => matchesKey(token, word))) return false;
+      seen.add(entry.phrase);
+      return true;
+    });
+};
+
+/**
+ * Up to `perWord` collocations for each single-word library entry. Phrases
+ * the learner already saved, or that were suggested for an earlier word,
+ * are skipped.
+ */
+export const suggestCollocations = (
+  words: WordEntry[],
+  entries: CollocationCandidate[],
+  perWord: number = PHRASE_SUGGESTIONS_PER_WORD,
+): CollocationSuggestion[] => {
+  const saved = new Set(words.map((word) => normalizePhrase(word.text)));
+  const suggested = new Set<string>();
+  const suggestions: CollocationSuggestion[] = [];
+
+  words.forEach((word) => {
+    const text = normalizePhrase(word.text);
+    if (!/^[a-z][a-z'-]*$/.test(text)) return;
+    let added = 0;
+    for (const entry of entries) {
+      if (added >= perWord) break;
+      if (saved.has(entry.phrase) || suggested.has(entry.phrase)) continue;
+      const tokens = tokenize(entry.phrase);
+      if (!matchesKey(tokens[0], text) && !matchesKey(tokens[tokens.length - 1], text)) continue;
+      suggested.add(entry.phrase);
+      suggestions.push({ ...entry, headWordId: word.id, headWord: word.text, source: 'local' });
+      added++;
+    }
+  });
+  return suggestions;
+};
+
+/** Index of the first content word (take part in → take) */
+export const getClozeBlankIndex = (phrase: string) => {
+  const tokens = tokenize(phrase);
+  const index = tokens.findIndex((token) => !FUNCTION_WORDS.has(token));
+  return index === -1 ? 0 : index;
+};
+
+/** The phrase with its blank as underscores, for display and logs */
+export const formatClozePhrase = (item: PhraseClozeItem) =>
+  tokenize(item.phrase)
+    .map((token, index) => (index === item.blankIndex ? '_'.repeat(Math.max(token.length, 3)) : token))
+    .join(' ');
+
+export const buildPhraseClozeItems = (
+  words: WordEntry[],
+  count: number = PHRASE_CLOZE_ITEMS,
+  random: () => number = Math.random,
+): PhraseClozeItem[] =>
+  shuffle(words.filter((word) => isPhraseEntry(word.text)), random)
+    .slice(0, count)
+    .map((word) => {
+      const phrase = normalizePhrase(word.text);
+      const blankIndex = getClozeBlankIndex(phrase);
+      return {
+        wordId: word.id,
+        phrase,
+        blankIndex,
+        answer: tokenize(phrase)[blankIndex],
+        meaningZh: word.definition_cn?.trim() || null,
+      };
+    });
+
+export const checkPhraseClozeAnswer = (item: PhraseClozeItem, typed: string) =>
+  normalizePhrase(typed) === item.answer;
+
+export const calculatePhraseClozeSummary = (results: PhraseClozeResult[]): PhraseClozeSummary => {
+  const wordsTotal = results.length;
+  const wordsCorrect = results.filter((r) => r.correct).length;
+  return {
+    wordsCorrect,
+    wordsTotal,
+    accuracyRate: wordsTotal > 0 ? Number((wordsCorrect / wordsTotal).toFixed(4)) : 0,
+    results,
+  };
+};
@@ -0,0 +1,63 @@
+/**
+ * Daily Challenge
+ *
+ * Pure rules for the scene challenge everyone plays on the same day: the
+ * stored words as scene word meta and the emoji share card of a finished
+ * attempt. Word selection, ticket, word-id and date rules live with the
+ * server in supabase/functions/verify-round/dailyChallenge.ts.
+ */
+
+import { categorizePos } from './partOfSpeech.ts';
+import type { DailyChallengeWord } from '../supabase/functions/verify-round/dailyChallenge.ts';
+import type { SceneWordMeta } from '../types';
+
+/**
+ * A stored challenge word as scene-generate's word meta; the part of
+ * speech comes from the meaning's leading "n." / "adj." label.
+ */
+export const dailyChallengeWordMeta = (word: DailyChallengeWord): SceneWordMeta => {
+  const meaning = typeof word?.definitionCn === 'string' ? word.definitionCn : '';
+  return {
+    text: String(word?.text ?? ''),
+    pos: categorizePos(meaning.match(/^([a-z]+)\./i)?.[1]),
+    definitionCn: meaning,
+  };
+};
+
+// ----------------------------------------------------------------
+// Share card
+// ----------------------------------------------------------------
+
+/** One word of a finished attempt, in board order */
+export interface DailyShareMark {
+  correct: boolean;
+  attemptsUsed: number;
+}
+
+/** 🟩 first try, 🟨 solved after a miss, 🟥 not solved */
+export const dailyShareEmoji = (mark: DailyShareMark): string =>
+  !mark.correct ? '🟥' : mark.attemptsUsed <= 1 ? '🟩' : '🟨';
+
+/**
+ * Plain-text result to paste anywhere, e.g.
+ *
+ *   Vibe Word Daily 2026-10-19
+ *   🟩🟩🟨🟥🟩🟩
+ *   5/6 · 812 pts · 1:24
+ */
+export const buildDailyShareCard = (params: {
+  date: string;
+  marks: DailyShareMark[];
+  totalScore: number;
+  timeUsedSeconds: number;
+}): string => {
+  const { date, marks, totalScore, timeUsedSeconds } = params;
+  const solved = marks.filter(m => m.correct).length;
+  const seconds = Math.max(0, Math.round(timeUsedSeconds));
+  const clock = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  return [
+    `Vibe Word Daily ${date}`,
+    marks.map(dailyShareEmoji).join(''),
+    `${solved}/${marks.length} · ${Math.round(totalScore)} pts · ${clock}`,
+  ].join('\n');
+};
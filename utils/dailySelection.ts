@@ -0,0 +1,139 @@
+/**
+ * Daily Selection
+ *
+ * Word selection shared by the ranked game modes (puzzle, scene, recall,
+ * sprint). Each mode remembers the word ids of today's rounds under its own
+ * localStorage key and caps how many of them a new smart selection may
+ * repeat, so replaying the same set cannot farm the leaderboard:
+ *   - createDailySelectionHistory - today's rounds for one storage key
+ *   - enforceDailyOverlapCap - take words in priority order, skipping ones
+ *                              that would push a previous round over the cap
+ *   - calculateMaxOverlapRate - highest share of a selection seen in one
+ *                               earlier round (ranking eligibility)
+ */
+
+import { getShanghaiDateString } from './timezone.ts';
+
+/** Rounds kept per mode and day */
+export const DAILY_HISTORY_LIMIT = 12;
+/** Share of a new smart selection that may repeat any one earlier round */
+export const MAX_DAILY_OVERLAP_RATE = 0.6;
+
+export interface DailySelectionHistory {
+  date: string;
+  rounds: string[][];
+}
+
+export interface DailySelectionHistoryStore {
+  load: () => DailySelectionHistory;
+  /** Append a round; a new day starts a new history */
+  save: (words: Array<{ id: string }>) => void;
+}
+
+/** Fisher–Yates shuffle into a new array */
+export const shuffleWords = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let index = result.length - 1; index > 0; index -= 1) {
+    const swapIndex = Math.floor(Math.random() * (index + 1));
+    [result[index], result[swapIndex]] = [result[swapIndex], result[index]];
+  }
+  return result;
+};
+
+/**
+ * Today's selection history under `storageKey`. Without localStorage (SSR,
+ * private mode) every day starts empty and nothing is saved.
+ */
+export const createDailySelectionHistory = (
+  storageKey: string,
+  limit: number = DAILY_HISTORY_LIMIT,
+): DailySelectionHistoryStore => {
+  const load = (): DailySelectionHistory => {
+    if (typeof window === 'undefined') return { date: getShanghaiDateString(), rounds: [] };
+    try {
+      const raw = window.localStorage.getItem(storageKey);
+      if (!raw) return { date: getShanghaiDateString(), rounds: [] };
+      const parsed = JSON.parse(raw);
+      const today = getShanghaiDateString();
+      if (!parsed || typeof parsed !== 'object' || parsed.date !== today || !Array.isArray(parsed.rounds)) {
+        return { date: today, rounds: [] };
+      }
+      return {
+        date: today,
+        rounds: parsed.rounds
+          .filter((round: unknown): round is string[] => Array.isArray(round))
+          .map((round: unknown[]) => round.filter((value): value is string => typeof value === 'string')),
+      };
+    } catch {
+      return { date: getShanghaiDateString(), rounds: [] };
+    }
+  };
+
+  const save = (words: Array<{ id: string }>) => {
+    if (typeof window === 'undefined') return;
+    try {
+      const today = getShanghaiDateString();
+      const current = load();
+      const nextRound = words.map((word) => word.id);
+      const rounds = current.date === today ? current.rounds : [];
+      window.localStorage.setItem(
+        storageKey,
+        JSON.stringify({ date: today, rounds: [...rounds, nextRound].slice(-limit) }),
+      );
+    } catch {
+      // Ignore localStorage failures and keep selection functional.
+    }
+  };
+
+  return { load, save };
+};
+
+/**
+ * Up to `count` words in priority order, skipping any that would make the
+ * selection repeat more than `maxOverlapRate` of an earlier round. When the
+ * pool is too small to honour the cap, the rest is filled in priority order.
+ */
+export const enforceDailyOverlapCap = <T extends { id: string }>(
+  prioritized: T[],
+  previousRounds: string[][],
+  count: number,
+  maxOverlapRate: number = MAX_DAILY_OVERLAP_RATE,
+): T[] => {
+  if (previousRounds.length === 0) return prioritized.slice(0, count);
+
+  const maxOverlap = Math.floor(count * maxOverlapRate);
+  const roundSets = previousRounds.map((round) => new Set(round));
+  const overlapCounts = roundSets.map(() => 0);
+  const selected: T[] = [];
+  const selectedIds = new Set<string>();
+
+  for (const word of prioritized) {
+    if (selected.length >= count || selectedIds.has(word.id)) continue;
+    const violatesCap = roundSets.some((set, i) => set.has(word.id) && overlapCounts[i] + 1 > maxOverlap);
+    if (violatesCap) continue;
+    selected.push(word);
+    selectedIds.add(word.id);
+    roundSets.forEach((set, i) => {
+      if (set.has(word.id)) overlapCounts[i] += 1;
+    });
+  }
+
+  if (selected.length >= count) return selected.slice(0, count);
+  for (const word of prioritized) {
+    if (selected.length >= count || selectedIds.has(word.id)) continue;
+    selected.push(word);
+    selectedIds.add(word.id);
+  }
+  return selected.slice(0, count);
+};
+
+/** Highest share of `selectedWords` that appeared in any one earlier round, 0..1 */
+export const calculateMaxOverlapRate = (selectedWords: Array<{ id: string }>, previousRounds: string[][]): number => {
+  if (selectedWords.length === 0 || previousRounds.length === 0) return 0;
+  const selectedIds = new Set(selectedWords.map((word) => word.id));
+  const maxOverlapCount = previousRounds.reduce((maxCount, round) => {
+    const overlapCount = round.reduce((count, wordId) => count + (selectedIds.has(wordId) ? 1 : 0), 0);
+    return Math.max(maxCount, overlapCount);
+  }, 0);
+  return maxOverlapCount / selectedWords.length;
+};
@@ -0,0 +1,439 @@
+/**
+ * Deck Import
+ *
+ * Turns CSV / TSV files and Anki .apkg decks into word records:
+ *   1. parse     - parseDelimitedDeck / parseAnkiPackage → DeckTable (named columns)
+ *   2. map       - the learner maps columns to word fields (guessColumnMapping pre-fills it)
+ *   3. preview   - buildDeckImportPreview splits rows into new words / duplicates of
+ *                  existing words / repeats within the file
+ *   4. import    - dataService.importDeckWords writes the records
+ *
+ * Anki scheduling (interval, ease, reps, lapses, due date, FSRS memory state,
+ * suspension) is carried over onto our SM-2 / FSRS fields where present.
+ * Only the legacy collection format is read (collection.anki2 / .anki21);
+ * decks exported from Anki 2.1.50+ need "Support older Anki versions" ticked.
+ */
+
+import { listZipEntries, readZipEntry } from './zipReader.ts';
+import { readSqliteTable } from './sqliteReader.ts';
+import type { SqliteRow } from './sqliteReader.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Tag prefix for imported decks, so they show up as libraries */
+export const DECK_TAG_PREFIX = 'Deck:';
+
+export type DeckImportField = 'word' | 'definitionCn' | 'definitionEn' | 'phonetic' | 'tags';
+
+export const DECK_IMPORT_FIELDS: DeckImportField[] = ['word', 'definitionCn', 'definitionEn', 'phonetic', 'tags'];
+
+/** Column index for each word field; null = not imported */
+export type DeckColumnMapping = Record<DeckImportField, number | null>;
+
+/** Scheduling state carried over from the source deck */
+export interface DeckImportSchedule {
+  tested: boolean;
+  correct: boolean;
+  error_count: number;
+  last_tested: number | null;
+  sm2_interval: number;
+  sm2_repetitions: number;
+  sm2_ease_factor: number;
+  next_review_at: number | null;
+  fsrs_stability: number | null;
+  fsrs_difficulty: number | null;
+}
+
+export interface DeckRow {
+  values: string[];
+  schedule: DeckImportSchedule | null;
+  suspended: boolean;
+}
+
+export interface DeckTable {
+  format: 'csv' | 'tsv' | 'apkg';
+  columns: string[];
+  rows: DeckRow[];
+}
+
+export interface DeckImportRecord {
+  text: string;
+  definition_cn: string | null;
+  definition_en: string | null;
+  phonetic: string | null;
+  tags: string[];
+  schedule: DeckImportSchedule | null;
+  suspended: boolean;
+}
+
+export interface DeckImportPreview {
+  newRecords: DeckImportRecord[];
+  duplicates: Array<{ record: DeckImportRecord; existingWordId: string }>;
+  repeatedInFile: number;
+  emptyRows: number;
+}
+
+export class DeckImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeckImportError';
+  }
+}
+
+// ================================================================
+// Field cleanup
+// ================================================================
+
+const HTML_ENTITIES: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+
+/**
+ * Plain text from an Anki / HTML field: drops [sound:..] refs and tags,
+ * turns line breaks into "; " and decodes common entities.
+ */
+export const cleanDeckField = (value: string): string => value
+  .replace(/\[sound:[^\]]*\]/g, '')
+  .replace(/<br\s*\/?>|<\/div>|<\/p>/gi, '; ')
+  .replace(/<[^>]*>/g, '')
+  .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  })
+  .replace(/\s+/g, ' ')
+  .replace(/(;\s*)+/g, '; ')
+  .replace(/^[;\s]+|[;\s]+$/g, '');
+
+const splitTags = (value: string): string[] => value.split(/[\s,，]+/).map(t => t.trim()).filter(Boolean);
+
+// ================================================================
+// CSV / TSV
+// ================================================================
+
+const ANKI_SEPARATORS: Record<string, string> = { tab: '\t', comma: ',', semicolon: ';', pipe: '|', space: ' ' };
+
+const sniffDelimiter = (line: string): string => {
+  const counts = ['\t', ',', ';'].map(d => ({ d, n: line.split(d).length }));
+  counts.sort((a, b) => b.n - a.n);
+  return counts[0].n > 1 ? counts[0].d : ',';
+};
+
+/**
+ * RFC 4180 style split: quoted fields may contain delimiters, newlines
+ * and doubled quotes.
+ */
+export const parseDelimitedText = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+/**
+ * Parse a CSV / TSV file (including Anki "Notes in Plain Text" exports,
+ * whose #separator / #columns header lines are honoured).
+ *
+ * @param text - File contents
+ * @param fileName - Used to pick the delimiter for .tsv / .csv
+ * @param hasHeader - Treat the first row as column names
+ */
+export const parseDelimitedDeck = (text: string, fileName: string, hasHeader: boolean): DeckTable => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let delimiter: string | null = /\.tsv$/i.test(fileName) ? '\t' : null;
+  let headerColumns: string[] | null = null;
+
+  // Anki plain-text exports start with "#key:value" lines
+  let bodyStart = 0;
+  while (bodyStart < lines.length && /^#[a-z ]+:/i.test(lines[bodyStart])) {
+    const [, key, value] = lines[bodyStart].match(/^#([a-z ]+):(.*)$/i)!;
+    if (key === 'separator') delimiter = ANKI_SEPARATORS[value.trim().toLowerCase()] ?? value;
+    if (key === 'columns') headerColumns = value.split(delimiter ?? sniffDelimiter(value));
+    bodyStart++;
+  }
+  const body = lines.slice(bodyStart).join('\n');
+  delimiter = delimiter ?? sniffDelimiter(lines[bodyStart] ?? '');
+
+  const grid = parseDelimitedText(body, delimiter);
+  if (!headerColumns && hasHeader && grid.length > 0) headerColumns = grid.shift()!;
+
+  const width = grid.reduce((max, r) => Math.max(max, r.length), headerColumns?.length ?? 0);
+  const columns = Array.from({ length: width }, (_, i) => headerColumns?.[i]?.trim() || `Column ${i + 1}`);
+
+  return {
+    format: delimiter === '\t' ? 'tsv' : 'csv',
+    columns,
+    rows: grid.map(values => ({ values, schedule: null, suspended: false })),
+  };
+};
+
+// ================================================================
+// Anki .apkg
+// ================================================================
+
+/** Anki card fields used for scheduling (see Anki's cards table) */
+export interface AnkiCardState {
+  type: number; // 0 new, 1 learning, 2 review, 3 relearning
+  due: number; // review: days since collection creation; learning: epoch seconds
+  ivl: number; // days (negative = seconds, while learning)
+  factor: number; // ease in permille (2500 = 2.5)
+  reps: number;
+  lapses: number;
+  data?: string | null; // JSON; FSRS memory state as {"s": stability, "d": difficulty}
+}
+
+/**
+ * Map an Anki card onto our scheduling fields. Returns null for cards that
+ * were never studied.
+ *
+ * @param card - Anki card state
+ * @param collectionCreatedAt - col.crt (seconds), the origin of review due days
+ * @param lastReviewedAt - Latest revlog timestamp (ms) for the card, if known
+ */
+export const ankiCardToSchedule = (
+  card: AnkiCardState,
+  collectionCreatedAt: number,
+  lastReviewedAt: number | null
+): DeckImportSchedule | null => {
+  if (card.type === 0 || card.reps === 0) return null;
+
+  const interval = Math.max(0, card.ivl);
+  // Learning cards store an epoch timestamp, review cards a day number
+  const nextReviewAt = card.due > 1_000_000_000
+    ? card.due * 1000
+    : (collectionCreatedAt + card.due * 86400) * 1000;
+
+  let stability: number | null = null;
+  let difficulty: number | null = null;
+  if (card.data) {
+    try {
+      const memory = JSON.parse(card.data);
+      if (typeof memory.s === 'number' && typeof memory.d === 'number') {
+        stability = memory.s;
+        difficulty = memory.d;
+      }
+    } catch {
+      // Older Anki versions leave data empty or non-JSON
+    }
+  }
+
+  return {
+    tested: true,
+    correct: card.type === 2,
+    error_count: card.lapses,
+    last_tested: lastReviewedAt ?? (card.type === 2 ? nextReviewAt - interval * DAY_MS : null),
+    sm2_interval: interval,
+    sm2_repetitions: card.type === 2 ? Math.max(1, card.reps - card.lapses) : 0,
+    sm2_ease_factor: card.factor > 0 ? Math.max(1.3, card.factor / 1000) : 2.5,
+    next_review_at: nextReviewAt,
+    fsrs_stability: stability,
+    fsrs_difficulty: difficulty,
+  };
+};
+
+const readCollection = async (buffer: ArrayBuffer): Promise<Uint8Array> => {
+  const entries = listZipEntries(buffer);
+  const collection = entries.find(e => e.name === 'collection.anki21') ?? entries.find(e => e.name === 'collection.anki2');
+  if (entries.some(e => e.name === 'collection.anki21b') && !entries.some(e => e.name === 'collection.anki21')) {
+    throw new DeckImportError('This deck uses the new Anki format. Re-export it with "Support older Anki versions" ticked.');
+  }
+  if (!collection) throw new DeckImportError('No Anki collection found in this file');
+  return readZipEntry(buffer, collection);
+};
+
+const asNumber = (value: SqliteRow[string]): number => (typeof value === 'number' ? value : Number(value) || 0);
+
+/**
+ * Parse an Anki .apkg into a DeckTable: one row per note, one column per
+ * note-type field name (union across note types) plus the note's tags.
+ */
+export const parseAnkiPackage = async (buffer: ArrayBuffer): Promise<DeckTable> => {
+  const db = await readCollection(buffer);
+  const col = readSqliteTable(db, 'col')?.[0];
+  const notes = readSqliteTable(db, 'notes');
+  const cards = readSqliteTable(db, 'cards') ?? [];
+  if (!col || !notes) throw new DeckImportError('Anki collection is missing its notes');
+
+  const models: Record<string, { flds: Array<{ name: string; ord: number }> }> = JSON.parse(String(col.models || '{}'));
+  const collectionCreatedAt = asNumber(col.crt);
+
+  // Latest review per card from the review log (revlog.id is a ms timestamp)
+  const lastReviewByCard = new Map<number, number>();
+  for (const entry of readSqliteTable(db, 'revlog') ?? []) {
+    const cid = asNumber(entry.cid);
+    lastReviewByCard.set(cid, Math.max(lastReviewByCard.get(cid) ?? 0, asNumber(entry.id)));
+  }
+
+  // One card per note: the first template (lowest ord)
+  const cardByNote = new Map<number, SqliteRow>();
+  for (const card of cards) {
+    const nid = asNumber(card.nid);
+    const current = cardByNote.get(nid);
+    if (!current || asNumber(card.ord) < asNumber(current.ord)) cardByNote.set(nid, card);
+  }
+
+  const columns: string[] = [];
+  const columnIndex = (name: string) => {
+    if (!columns.includes(name)) columns.push(name);
+    return columns.indexOf(name);
+  };
+
+  const noteRows = notes.map(note => {
+    const fieldNames = [...(models[String(note.mid)]?.flds ?? [])].sort((a, b) => a.ord - b.ord).map(f => f.name);
+    const values = String(note.flds ?? '').split('\x1f');
+    const placed: Array<[number, string]> = values.map((value, i) => [columnIndex(fieldNames[i] ?? `Field ${i + 1}`), value]);
+    return { note, placed };
+  });
+  const tagsColumn = columnIndex('Tags');
+
+  const rows = noteRows.map(({ note, placed }) => {
+    const row: string[] = new Array(columns.length).fill('');
+    placed.forEach(([index, value]) => { row[index] = value; });
+    row[tagsColumn] = String(note.tags ?? '').trim();
+
+    const card = cardByNote.get(asNumber(note.id));
+    const schedule = card
+      ? ankiCardToSchedule(
+        {
+          type: asNumber(card.type),
+          due: asNumber(card.due),
+          ivl: asNumber(card.ivl),
+          factor: asNumber(card.factor),
+          reps: asNumber(card.reps),
+          lapses: asNumber(card.lapses),
+          data: typeof card.data === 'string' ? card.data : null,
+        },
+        collectionCreatedAt,
+        lastReviewByCard.get(asNumber(card.id)) ?? null
+      )
+      : null;
+    return { values: row, schedule, suspended: card ? asNumber(card.queue) === -1 : false };
+  });
+
+  return { format: 'apkg', columns, rows };
+};
+
+// ================================================================
+// Column mapping & preview
+// ================================================================
+
+// Checked in this order; a column is assigned to at most one field
+const COLUMN_PATTERNS: Array<[DeckImportField, RegExp]> = [
+  ['phonetic', /phonetic|ipa|pronunciation|音标|读音/i],
+  ['tags', /^(tags?|标签)$/i],
+  ['definitionEn', /definition|explanation|gloss|英文释义|英英/i],
+  ['word', /^(word|words|front|term|vocab\w*|expression|english|单词|英文|词汇)$/i],
+  ['definitionCn', /chinese|meaning|translation|back|中文|释义|翻译|解释/i],
+];
+
+/**
+ * Best-guess mapping from column names; the word falls back to the first
+ * column and the Chinese meaning to the next unused one.
+ */
+export const guessColumnMapping = (columns: string[]): DeckColumnMapping => {
+  const mapping: DeckColumnMapping = { word: null, definitionCn: null, definitionEn: null, phonetic: null, tags: null };
+  const used = new Set<number>();
+  for (const [field, pattern] of COLUMN_PATTERNS) {
+    const index = columns.findIndex((name, i) => !used.has(i) && pattern.test(name.trim()));
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+  if (mapping.word === null && columns.length > 0 && !used.has(0)) {
+    mapping.word = 0;
+    used.add(0);
+  }
+  if (mapping.definitionCn === null) {
+    const next = columns.findIndex((_, i) => !used.has(i));
+    if (next !== -1 && columns[next] !== 'Tags') mapping.definitionCn = next;
+  }
+  return mapping;
+};
+
+/**
+ * Apply a column mapping to one row. Returns null when the word is empty.
+ */
+export const mapDeckRow = (row: DeckRow, mapping: DeckColumnMapping): DeckImportRecord | null => {
+  const read = (field: DeckImportField) => {
+    const index = mapping[field];
+    if (index === null || index >= row.values.length) return null;
+    return cleanDeckField(row.values[index]) || null;
+  };
+
+  const text = read('word');
+  if (!text) return null;
+  return {
+    text,
+    definition_cn: read('definitionCn'),
+    definition_en: read('definitionEn'),
+    phonetic: read('phonetic'),
+    tags: splitTags(read('tags') ?? ''),
+    schedule: row.schedule,
+    suspended: row.suspended,
+  };
+};
+
+/**
+ * Map every row and split them against the learner's existing words
+ * (case-insensitive on the word text).
+ */
+export const buildDeckImportPreview = (
+  table: DeckTable,
+  mapping: DeckColumnMapping,
+  existingWords: Array<{ id: string; text: string }>
+): DeckImportPreview => {
+  const existing = new Map(existingWords.map(w => [w.text.toLowerCase().trim(), w.id]));
+  const seen = new Set<string>();
+  const preview: DeckImportPreview = { newRecords: [], duplicates: [], repeatedInFile: 0, emptyRows: 0 };
+
+  for (const row of table.rows) {
+    const record = mapDeckRow(row, mapping);
+    if (!record) {
+      preview.emptyRows++;
+      continue;
+    }
+    const key = record.text.toLowerCase();
+    if (seen.has(key)) {
+      preview.repeatedInFile++;
+      continue;
+    }
+    seen.add(key);
+
+    const existingWordId = existing.get(key);
+    if (existingWordId) preview.duplicates.push({ record, existingWordId });
+    else preview.newRecords.push(record);
+  }
+  return preview;
+};
+
+/** Library tag for a deck file name, e.g. "my-cards.apkg" → "Deck:my-cards" */
+export const deckTagFromFileName = (fileName: string): string =>
+  `${DECK_TAG_PREFIX}${fileName.replace(/\.[^.]+$/, '').trim() || 'Imported'}`;
@@ -0,0 +1,145 @@
+/**
+ * FSRS (Free Spaced Repetition Scheduler) Memory Model
+ *
+ * A three-component memory model (stability, difficulty, retrievability) used
+ * as an alternative to SM-2. Stability is the number of days until recall
+ * probability drops to 90%; difficulty (1-10) controls how fast stability
+ * grows; retrievability is the predicted recall probability right now.
+ *
+ * Formulas follow FSRS-4.5. Parameters (the 17 weights, target retention,
+ * interval cap) live in WORD_LEARNING_CONFIG.scheduler.fsrs and are passed in
+ * explicitly so this module stays pure and usable from Node tests.
+ *
+ * Reference: https://github.com/open-spaced-repetition/fsrs4anki/wiki/The-Algorithm
+ */
+
+export interface FSRSState {
+  stability: number;   // Days until retrievability falls to 90%
+  difficulty: number;  // 1 (easy) - 10 (hard)
+}
+
+export interface FSRSParameters {
+  weights: readonly number[];   // 17 model weights (w0..w16)
+  requestRetention: number;     // Target recall probability when a review is due (0-1)
+  maximumIntervalDays: number;  // Upper bound for scheduled intervals
+}
+
+/**
+ * Review grade:
+ *   1 - Again (failed)
+ *   2 - Hard (recalled with hints / difficulty)
+ *   3 - Good (recalled)
+ *   4 - Easy (recalled effortlessly)
+ */
+export type FSRSGrade = 1 | 2 | 3 | 4;
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // Chosen so that R(S, S) = 0.9
+
+const clampDifficulty = (d: number) => Math.min(10, Math.max(1, d));
+const MIN_STABILITY = 0.1;
+
+/**
+ * Predicted recall probability after `elapsedDays` for a memory of stability `stability`
+ *
+ * @param elapsedDays - Days since the last review
+ * @param stability - Memory stability in days
+ * @returns Retrievability (0-1)
+ */
+export function retrievability(elapsedDays: number, stability: number): number {
+  if (stability <= 0) return 0;
+  return Math.pow(1 + FACTOR * Math.max(0, elapsedDays) / stability, DECAY);
+}
+
+/**
+ * Days until retrievability falls to the requested retention
+ *
+ * @param stability - Memory stability in days
+ * @param params - FSRS parameters (requestRetention, maximumIntervalDays)
+ * @returns Interval in whole days (>= 1)
+ */
+export function nextIntervalDays(stability: number, params: FSRSParameters): number {
+  const raw = (stability / FACTOR) * (Math.pow(params.requestRetention, 1 / DECAY) - 1);
+  return Math.min(params.maximumIntervalDays, Math.max(1, Math.round(raw)));
+}
+
+/**
+ * Create the FSRS state after the very first review of a word
+ *
+ * @param grade - Grade of the first review
+ * @param weights - FSRS weights
+ * @returns Initial FSRS state
+ */
+export function createInitialFSRSState(grade: FSRSGrade, weights: readonly number[]): FSRSState {
+  return {
+    stability: Math.max(MIN_STABILITY, weights[grade - 1]),
+    difficulty: clampDifficulty(weights[4] - (grade - 3) * weights[5])
+  };
+}
+
+/**
+ * Calculate the next FSRS state from a review
+ *
+ * @param state - Current FSRS state (null for a word's first review)
+ * @param grade - Grade of this review
+ * @param elapsedDays - Days since the previous review
+ * @param weights - FSRS weights
+ * @returns Next FSRS state
+ */
+export function calculateNextFSRSState(
+  state: FSRSState | null,
+  grade: FSRSGrade,
+  elapsedDays: number,
+  weights: readonly number[]
+): FSRSState {
+  if (!state) {
+    return createInitialFSRSState(grade, weights);
+  }
+
+  const { stability, difficulty } = state;
+  const r = retrievability(elapsedDays, stability);
+
+  // Difficulty: move by grade, then mean-revert towards the initial "Good" difficulty
+  const initialGoodDifficulty = weights[4];
+  const shifted = difficulty - weights[6] * (grade - 3);
+  const nextDifficulty = clampDifficulty(weights[7] * initialGoodDifficulty + (1 - weights[7]) * shifted);
+
+  let nextStability: number;
+  if (grade === 1) {
+    // Post-lapse stability
+    nextStability = weights[11]
+      * Math.pow(difficulty, -weights[12])
+      * (Math.pow(stability + 1, weights[13]) - 1)
+      * Math.exp(weights[14] * (1 - r));
+    nextStability = Math.min(nextStability, stability);
+  } else {
+    const hardPenalty = grade === 2 ? weights[15] : 1;
+    const easyBonus = grade === 4 ? weights[16] : 1;
+    nextStability = stability * (
+      1 + Math.exp(weights[8])
+        * (11 - difficulty)
+        * Math.pow(stability, -weights[9])
+        * (Math.exp(weights[10] * (1 - r)) - 1)
+        * hardPenalty
+        * easyBonus
+    );
+  }
+
+  return {
+    stability: Math.max(MIN_STABILITY, nextStability),
+    difficulty: nextDifficulty
+  };
+}
+
+/**
+ * Convert an SM-2 style quality rating (0-5) to an FSRS grade.
+ * Spelling tests have no "Easy" signal, so a clean answer maps to Good.
+ *
+ * @param quality - Quality rating (0-5)
+ * @returns FSRS grade
+ */
+export function qualityToFSRSGrade(quality: number): FSRSGrade {
+  if (quality < 3) return 1;
+  if (quality < 5) return 2;
+  return 3;
+}
@@ -0,0 +1,162 @@
+/**
+ * FSRS Weight Optimizer
+ *
+ * Fits per-user FSRS weights from review history, offline (never on the
+ * review path). For every review after a word's first one, the model's
+ * predicted retrievability is compared with whether the word was actually
+ * recalled; the weights are tuned to minimize binary cross-entropy.
+ *
+ * Uses coordinate descent with multiplicative steps: cheap, dependency-free,
+ * and good enough for the few thousand reviews a heavy user produces. Each
+ * step re-scores the whole history, so the app runs it in a Web Worker
+ * (fsrsOptimizer.worker.ts) and shows its progress.
+ */
+
+import { calculateNextFSRSState, retrievability } from './fsrsAlgorithm.ts';
+import type { FSRSGrade, FSRSState } from './fsrsAlgorithm.ts';
+
+export interface FSRSReview {
+  elapsedDays: number;  // Days since the previous review of the same word (0 for the first)
+  grade: FSRSGrade;
+}
+
+/** Chronological reviews of a single word */
+export type FSRSReviewSequence = FSRSReview[];
+
+export interface FSRSOptimizerOptions {
+  iterations: number;   // Full passes over all weights
+  stepSize: number;     // Relative step tried for each weight (e.g. 0.05 = ±5%)
+  minReviews: number;   // Minimum scored reviews required to optimize at all
+}
+
+export interface FSRSOptimizationResult {
+  weights: number[];
+  initialLoss: number;
+  finalLoss: number;
+  reviewCount: number;  // Number of scored reviews (excludes each word's first review)
+  optimized: boolean;   // false when there was too little history
+}
+
+/** Posted to fsrsOptimizer.worker.ts */
+export interface FSRSOptimizerRequest {
+  sequences: FSRSReviewSequence[];
+  initialWeights: readonly number[];
+  options: FSRSOptimizerOptions;
+}
+
+/** Posted back by fsrsOptimizer.worker.ts */
+export type FSRSOptimizerMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; result: FSRSOptimizationResult }
+  | { type: 'error'; message: string };
+
+const EPSILON = 1e-6;
+
+// Keep weights in ranges where the model stays numerically sane
+const WEIGHT_BOUNDS: [number, number][] = [
+  [0.1, 100], [0.1, 100], [0.1, 100], [0.1, 100],
+  [1, 10], [0.1, 5], [0.1, 5], [0, 0.75],
+  [0, 4], [0, 0.8], [0.01, 3],
+  [0.1, 5], [0.01, 0.2], [0.01, 0.9], [0.01, 3],
+  [0, 1], [1, 4],
+];
+
+const clampWeight = (index: number, value: number) => {
+  const [min, max] = WEIGHT_BOUNDS[index] || [0, Number.POSITIVE_INFINITY];
+  return Math.min(max, Math.max(min, value));
+};
+
+/**
+ * Count reviews that contribute to the loss (every review except each word's first)
+ */
+export function countScoredReviews(sequences: FSRSReviewSequence[]): number {
+  return sequences.reduce((sum, seq) => sum + Math.max(0, seq.length - 1), 0);
+}
+
+/**
+ * Mean binary cross-entropy of predicted recall vs. actual recall
+ *
+ * @param sequences - Review sequences, one per word
+ * @param weights - FSRS weights to evaluate
+ * @returns Mean log loss (lower is better); 0 when nothing can be scored
+ */
+export function evaluateFSRSLoss(sequences: FSRSReviewSequence[], weights: readonly number[]): number {
+  let total = 0;
+  let count = 0;
+
+  for (const seq of sequences) {
+    let state: FSRSState | null = null;
+    for (const review of seq) {
+      if (state) {
+        const predicted = Math.min(1 - EPSILON, Math.max(EPSILON, retrievability(review.elapsedDays, state.stability)));
+        const recalled = review.grade > 1 ? 1 : 0;
+        total += -(recalled * Math.log(predicted) + (1 - recalled) * Math.log(1 - predicted));
+        count += 1;
+      }
+      state = calculateNextFSRSState(state, review.grade, review.elapsedDays, weights);
+    }
+  }
+
+  return count > 0 ? total / count : 0;
+}
+
+/**
+ * Fit FSRS weights to a user's review history
+ *
+ * @param sequences - Review sequences, one per word
+ * @param initialWeights - Starting weights (usually the config defaults)
+ * @param options - Optimizer options
+ * @param onProgress - Share of the weight steps done (0-1), after each one
+ * @returns Optimized weights and loss before/after
+ */
+export function optimizeFSRSWeights(
+  sequences: FSRSReviewSequence[],
+  initialWeights: readonly number[],
+  options: FSRSOptimizerOptions,
+  onProgress?: (progress: number) => void
+): FSRSOptimizationResult {
+  const reviewCount = countScoredReviews(sequences);
+  const weights = [...initialWeights];
+  const initialLoss = evaluateFSRSLoss(sequences, weights);
+
+  if (reviewCount < options.minReviews) {
+    return { weights, initialLoss, finalLoss: initialLoss, reviewCount, optimized: false };
+  }
+
+  let bestLoss = initialLoss;
+  for (let iteration = 0; iteration < options.iterations; iteration++) {
+    let improved = false;
+
+    for (let i = 0; i < weights.length; i++) {
+      const original = weights[i];
+      const delta = Math.max(Math.abs(original) * options.stepSize, 0.001);
+
+      for (const candidate of [original + delta, original - delta]) {
+        const clamped = clampWeight(i, candidate);
+        if (clamped === weights[i]) continue;
+
+        const previous = weights[i];
+        weights[i] = clamped;
+        const loss = evaluateFSRSLoss(sequences, weights);
+        if (loss < bestLoss - EPSILON) {
+          bestLoss = loss;
+          improved = true;
+          break;
+        }
+        weights[i] = previous;
+      }
+      onProgress?.((iteration * weights.length + i + 1) / (options.iterations * weights.length));
+    }
+
+    if (!improved) break;
+  }
+  onProgress?.(1);
+
+  return {
+    weights: weights.map(w => Number(w.toFixed(4))),
+    initialLoss,
+    finalLoss: bestLoss,
+    reviewCount,
+    optimized: true
+  };
+}
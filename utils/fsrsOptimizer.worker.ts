@@ -0,0 +1,22 @@
+/**
+ * FSRS Optimizer Worker
+ *
+ * Runs optimizeFSRSWeights off the main thread for
+ * services/reviewScheduler.ts, posting progress while it works and the
+ * result (or error) at the end.
+ */
+
+import { optimizeFSRSWeights } from './fsrsOptimizer.ts';
+import type { FSRSOptimizerMessage, FSRSOptimizerRequest } from './fsrsOptimizer.ts';
+
+const post = (message: FSRSOptimizerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<FSRSOptimizerRequest>) => {
+  const { sequences, initialWeights, options } = event.data;
+  try {
+    const result = optimizeFSRSWeights(sequences, initialWeights, options, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,266 @@
+/**
+ * Library Manifest
+ *
+ * Word libraries ("packs") are described by data instead of code:
+ *   - built-in packs are listed in /dictionaries/manifest.json and their word
+ *     files live next to it (plain .txt, one word per line, or .json with
+ *     meanings and difficulty levels)
+ *   - private packs are published by teachers into the library_packs table
+ *     (services/libraryPacks.ts) and shared by code
+ *
+ * Both end up as a LibraryPack. A pack's tag is what imported words carry,
+ * and its integer version goes up with every published word-list change.
+ * Kept free of Supabase so Node tests can load it directly.
+ */
+
+import { CLASS_TAG_PREFIX } from './classProgress.ts';
+import { DECK_TAG_PREFIX, parseDelimitedText } from './deckImport.ts';
+
+export const LIBRARY_MANIFEST_FORMAT = 'vibe-library-manifest';
+/** Bump when the manifest shape changes; parseLibraryManifest rejects newer versions */
+export const LIBRARY_MANIFEST_VERSION = 1;
+
+/** Tags with a fixed meaning in the library filter; packs cannot use them */
+export const RESERVED_LIBRARY_TAGS = ['All', 'Custom'];
+
+const MAX_TAG_LENGTH = 40;
+
+export interface LibraryLevel {
+  level: number;
+  name: string;
+}
+
+export interface LibraryPackWord {
+  text: string;
+  /** Short Chinese meaning, used as definition_cn for newly added words */
+  meaning: string | null;
+  level: number | null;
+}
+
+export type LibraryPackSource = 'builtin' | 'private';
+
+export interface LibraryPack {
+  id: string;
+  name: string;
+  tag: string;
+  language: string;
+  version: number;
+  /** URL of the word file (built-in packs) */
+  wordList: string | null;
+  /** Inline words (private packs) */
+  words?: LibraryPackWord[];
+  /** Advertised size, shown before the word list is loaded */
+  wordCount: number;
+  description: string | null;
+  /** A short starter slice of a larger word list, labelled as such in the UI */
+  sample: boolean;
+  levels: LibraryLevel[];
+  source: LibraryPackSource;
+  ownerId?: string;
+  shareCode?: string;
+}
+
+export class LibraryManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LibraryManifestError';
+  }
+}
+
+const parseLevels = (raw: unknown): LibraryLevel[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((l: any) => l && Number.isInteger(l.level) && typeof l.name === 'string')
+    .map((l: any) => ({ level: l.level, name: l.name.trim() }))
+    .sort((a, b) => a.level - b.level);
+};
+
+/**
+ * Reason a tag cannot be used by a pack, or null if it is fine.
+ */
+export const validateLibraryTag = (tag: string): string | null => {
+  const trimmed = tag.trim();
+  if (!trimmed) return 'Tag is empty';
+  if (trimmed.length > MAX_TAG_LENGTH) return `Tag is longer than ${MAX_TAG_LENGTH} characters`;
+  if (RESERVED_LIBRARY_TAGS.includes(trimmed)) return `"${trimmed}" is reserved`;
+  if (trimmed.startsWith(DECK_TAG_PREFIX)) return `Tags starting with "${DECK_TAG_PREFIX}" belong to imported decks`;
+  if (trimmed.startsWith(CLASS_TAG_PREFIX)) return `Tags starting with "${CLASS_TAG_PREFIX}" belong to class assignments`;
+  return null;
+};
+
+/**
+ * Parse and validate /dictionaries/manifest.json into built-in packs.
+ * @throws LibraryManifestError for foreign files, newer formats, or invalid / duplicate packs
+ */
+export const parseLibraryManifest = (raw: unknown): LibraryPack[] => {
+  const manifest = raw as any;
+  if (!manifest || manifest.format !== LIBRARY_MANIFEST_FORMAT || !Array.isArray(manifest.packs)) {
+    throw new LibraryManifestError('Not a library manifest');
+  }
+  if (typeof manifest.formatVersion !== 'number' || manifest.formatVersion > LIBRARY_MANIFEST_VERSION) {
+    throw new LibraryManifestError(`Manifest format ${manifest.formatVersion} is not supported (${LIBRARY_MANIFEST_VERSION})`);
+  }
+
+  const seenTags = new Set<string>();
+  return manifest.packs.map((p: any, index: number): LibraryPack => {
+    if (!p || typeof p.id !== 'string' || typeof p.name !== 'string' || typeof p.tag !== 'string' || typeof p.wordList !== 'string') {
+      throw new LibraryManifestError(`Pack #${index + 1} needs id, name, tag and wordList`);
+    }
+    const tagProblem = validateLibraryTag(p.tag);
+    if (tagProblem) throw new LibraryManifestError(`Pack "${p.id}": ${tagProblem}`);
+    if (seenTags.has(p.tag)) throw new LibraryManifestError(`Pack "${p.id}": tag "${p.tag}" is used twice`);
+    seenTags.add(p.tag);
+
+    return {
+      id: p.id,
+      name: p.name,
+      tag: p.tag,
+      language: typeof p.language === 'string' ? p.language : 'en',
+      version: Number.isInteger(p.version) && p.version > 0 ? p.version : 1,
+      wordList: p.wordList,
+      wordCount: Number.isFinite(p.wordCount) ? p.wordCount : 0,
+      description: typeof p.description === 'string' ? p.description : null,
+      sample: p.sample === true,
+      levels: parseLevels(p.levels),
+      source: 'builtin',
+    };
+  });
+};
+
+/**
+ * Trim and de-duplicate (case-insensitively, first occurrence wins) pack words.
+ * Accepts plain strings or { text, meaning?, level? } objects.
+ */
+export const normalizePackWords = (raw: unknown[]): LibraryPackWord[] => {
+  const seen = new Set<string>();
+  const words: LibraryPackWord[] = [];
+  for (const item of raw) {
+    const entry: any = typeof item === 'string' ? { text: item } : item;
+    const text = typeof entry?.text === 'string' ? entry.text.trim() : '';
+    if (!text || seen.has(text.toLowerCase())) continue;
+    seen.add(text.toLowerCase());
+
+    const meaning = typeof entry.meaning === 'string' && entry.meaning.trim() ? entry.meaning.trim() : null;
+    const level = Number.isInteger(entry.level) ? entry.level : null;
+    words.push({ text, meaning, level });
+  }
+  return words;
+};
+
+/**
+ * Parse pasted or plain-text word lists. Each line is a word, optionally
+ * followed by a meaning and a level number — tab- or comma-separated (with
+ * CSV quoting), as copied from a spreadsheet. A leading "word" header row is
+ * skipped.
+ */
+export const parsePackWordText = (rawText: string): LibraryPackWord[] => {
+  const text = rawText.replace(/^\uFEFF/, '');
+  const delimiter = text.includes('\t') ? '\t' : text.includes(',') ? ',' : null;
+  const rows = delimiter
+    ? parseDelimitedText(text, delimiter)
+    : text.split(/\r?\n/).map(line => [line]);
+  if (rows.length > 0 && rows[0][0]?.trim().toLowerCase() === 'word') rows.shift();
+
+  return normalizePackWords(rows.map(([word, meaning, level]) => {
+    const parsedLevel = Number.parseInt(level ?? '', 10);
+    return { text: word ?? '', meaning, level: Number.isNaN(parsedLevel) ? null : parsedLevel };
+  }));
+};
+
+/**
+ * Parse a built-in pack's word file by extension (.json array or text list).
+ */
+export const parsePackWordFile = (path: string, text: string): LibraryPackWord[] => {
+  if (!path.toLowerCase().endsWith('.json')) return parsePackWordText(text);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new LibraryManifestError(`${path} is not valid JSON`);
+  }
+  if (!Array.isArray(raw)) throw new LibraryManifestError(`${path} must contain an array of words`);
+  return normalizePackWords(raw);
+};
+
+/**
+ * Pack from a library_packs row (see the add_library_packs migration).
+ */
+export const libraryPackFromRow = (row: any): LibraryPack => {
+  const words = normalizePackWords(Array.isArray(row.words) ? row.words : []);
+  return {
+    id: row.id,
+    name: row.name,
+    tag: row.tag,
+    language: row.language || 'en',
+    version: row.version ?? 1,
+    wordList: null,
+    words,
+    wordCount: words.length,
+    description: row.description ?? null,
+    sample: false,
+    levels: parseLevels(row.levels),
+    source: 'private',
+    ownerId: row.owner_id,
+    shareCode: row.share_code,
+  };
+};
+
+// ================================================================
+// Coverage
+// ================================================================
+
+export interface LibraryLevelProgress {
+  level: number;
+  name: string;
+  present: number;
+  total: number;
+}
+
+export interface LibraryPackCoverage {
+  matched: number;
+  total: number;
+  /** Percentage (0-100) */
+  completionRate: number;
+  /** First missing words, in pack order */
+  missingWords: string[];
+  /** Tagged words that are not (or no longer) in the pack */
+  extraWords: number;
+  levels: LibraryLevelProgress[];
+}
+
+/**
+ * How much of a pack the learner has.
+ * @param userTexts - Lower-cased, trimmed texts of the learner's words carrying the pack tag
+ */
+export const computePackCoverage = (
+  words: LibraryPackWord[],
+  userTexts: Set<string>,
+  levels: LibraryLevel[] = [],
+  missingSampleSize = 10
+): LibraryPackCoverage => {
+  const missingWords: string[] = [];
+  const levelCounts = new Map(levels.map(l => [l.level, { ...l, present: 0, total: 0 }]));
+  let matched = 0;
+
+  for (const word of words) {
+    const present = userTexts.has(word.text.toLowerCase());
+    if (present) matched++;
+    else if (missingWords.length < missingSampleSize) missingWords.push(word.text);
+
+    const bucket = word.level != null ? levelCounts.get(word.level) : undefined;
+    if (bucket) {
+      bucket.total++;
+      if (present) bucket.present++;
+    }
+  }
+
+  return {
+    matched,
+    total: words.length,
+    completionRate: words.length > 0 ? Math.round((matched / words.length) * 100) : 0,
+    missingWords,
+    extraWords: userTexts.size - matched,
+    levels: Array.from(levelCounts.values()),
+  };
+};
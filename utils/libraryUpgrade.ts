@@ -0,0 +1,202 @@
+/**
+ * Library Upgrade
+ *
+ * Reconciles a learner's installed library with a newer pack version:
+ *   1. diff - computeLibraryDiff compares the words carrying the pack tag with
+ *             the new word list: added, removed, and renamed (a removed word
+ *             paired with a near-identical added one, e.g. colour → color)
+ *   2. plan - planLibraryUpgrade turns the diff into word operations that keep
+ *             progress: renames edit the word in place (same id, so history,
+ *             SM-2 / FSRS state and review log stay) unless another library
+ *             still uses the old spelling, leaving words lose the tag, and
+ *             only never-studied words that belonged to nothing else are
+ *             deleted
+ *   3. apply - dataService.applyLibraryUpgrade writes the plan
+ */
+
+import type { LibraryPackWord } from './libraryManifest.ts';
+
+export interface LibraryRename {
+  from: LibraryPackWord;
+  to: LibraryPackWord;
+}
+
+export interface LibraryPackDiff {
+  added: LibraryPackWord[];
+  removed: LibraryPackWord[];
+  renamed: LibraryRename[];
+  /** Words present in both */
+  unchanged: number;
+}
+
+/** The learner's word as needed for planning (all active words, any tag) */
+export interface UpgradeWordRow {
+  id: string;
+  text: string;
+  tags: string[];
+  tested: boolean;
+  known?: boolean;
+  definition_cn?: string | null;
+}
+
+export interface LibraryUpgradePlan {
+  /** Imported under the pack tag (existing words just gain the tag) */
+  add: LibraryPackWord[];
+  rename: Array<{ id: string; from: string; to: string; meaning: string | null }>;
+  /** Words leaving the library that are kept, with their new tag list */
+  retag: Array<{ id: string; text: string; tags: string[] }>;
+  /** Never-studied words that only belonged to this library */
+  remove: Array<{ id: string; text: string }>;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions,
+ * so centre → center is one edit).
+ */
+export const wordEditDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array<number>(cols).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+/** Tags that mark a word's state rather than a library it belongs to */
+const STATUS_TAGS = new Set(['Mistake']);
+
+/** Libraries other than `tag` that the word belongs to */
+const otherLibraryTags = (word: UpgradeWordRow, tag: string): string[] =>
+  word.tags.filter(t => t !== tag && !STATUS_TAGS.has(t));
+
+const normalizeMeaning = (meaning: string | null) => meaning?.replace(/\s+/g, '').toLowerCase() || null;
+
+/**
+ * Edit distance if `to` looks like a respelling of `from`, otherwise null.
+ * Short words allow one edit, longer ones two; when both words carry a
+ * meaning the meanings must match too (abroad / aboard are different words).
+ */
+const renameDistance = (from: LibraryPackWord, to: LibraryPackWord): number | null => {
+  const a = from.text.toLowerCase();
+  const b = to.text.toLowerCase();
+  const maxEdits = Math.min(a.length, b.length) < 6 ? 1 : 2;
+  if (Math.abs(a.length - b.length) > maxEdits) return null;
+
+  const fromMeaning = normalizeMeaning(from.meaning);
+  const toMeaning = normalizeMeaning(to.meaning);
+  if (fromMeaning && toMeaning && fromMeaning !== toMeaning) return null;
+
+  const distance = wordEditDistance(a, b);
+  return distance <= maxEdits ? distance : null;
+};
+
+/**
+ * Diff the installed words of a library against its new word list.
+ *
+ * @param installed - Words the learner has with the pack tag
+ * @param next - The new version's word list
+ * @param previousVersion - Word list of the installed version, when known;
+ *                          tagged words outside it are not treated as removed
+ */
+export const computeLibraryDiff = (
+  installed: LibraryPackWord[],
+  next: LibraryPackWord[],
+  previousVersion?: LibraryPackWord[]
+): LibraryPackDiff => {
+  const installedTexts = new Set(installed.map(w => w.text.toLowerCase()));
+  const nextTexts = new Set(next.map(w => w.text.toLowerCase()));
+  const previousTexts = previousVersion ? new Set(previousVersion.map(w => w.text.toLowerCase())) : null;
+
+  const added = next.filter(w => !installedTexts.has(w.text.toLowerCase()));
+  const removedCandidates = installed.filter(w => {
+    const lower = w.text.toLowerCase();
+    return !nextTexts.has(lower) && (!previousTexts || previousTexts.has(lower));
+  });
+
+  // Pair each removed word with its closest unclaimed added word
+  const claimed = new Set<number>();
+  const renamed: LibraryRename[] = [];
+  const removed: LibraryPackWord[] = [];
+  for (const word of removedCandidates) {
+    let best = -1;
+    let bestDistance = Infinity;
+    added.forEach((candidate, index) => {
+      if (claimed.has(index)) return;
+      const distance = renameDistance(word, candidate);
+      if (distance !== null && distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    });
+    if (best >= 0) {
+      claimed.add(best);
+      renamed.push({ from: word, to: added[best] });
+    } else {
+      removed.push(word);
+    }
+  }
+
+  return {
+    added: added.filter((_, index) => !claimed.has(index)),
+    removed,
+    renamed,
+    unchanged: next.length - added.length,
+  };
+};
+
+/**
+ * Word operations for a diff. A rename whose new spelling already exists in
+ * the account, or whose old spelling another library still carries, becomes
+ * "add the new spelling" plus "the old word leaves".
+ *
+ * @param words - All of the learner's active words
+ * @param tag - The pack tag
+ */
+export const planLibraryUpgrade = (diff: LibraryPackDiff, words: UpgradeWordRow[], tag: string): LibraryUpgradePlan => {
+  const byText = new Map(words.map(w => [w.text.toLowerCase().trim(), w]));
+  const plan: LibraryUpgradePlan = { add: [...diff.added], rename: [], retag: [], remove: [] };
+
+  const leave = (word: UpgradeWordRow) => {
+    const remaining = word.tags.filter(t => t !== tag);
+    if (otherLibraryTags(word, tag).length > 0) {
+      plan.retag.push({ id: word.id, text: word.text, tags: remaining });
+    } else if (word.tested || word.known || remaining.length > 0) {
+      // Keep studied words reachable under Custom, with their status tags
+      plan.retag.push({ id: word.id, text: word.text, tags: ['Custom', ...remaining] });
+    } else {
+      plan.remove.push({ id: word.id, text: word.text });
+    }
+  };
+
+  for (const { from, to } of diff.renamed) {
+    const source = byText.get(from.text.toLowerCase());
+    const target = byText.get(to.text.toLowerCase());
+    // The old spelling stays right for any other library the row is in
+    if (!source || target || otherLibraryTags(source, tag).length > 0) {
+      plan.add.push(to);
+      if (source) leave(source);
+      continue;
+    }
+    plan.rename.push({ id: source.id, from: source.text, to: to.text, meaning: to.meaning });
+  }
+
+  for (const word of diff.removed) {
+    const source = byText.get(word.text.toLowerCase());
+    if (source) leave(source);
+  }
+
+  return plan;
+};
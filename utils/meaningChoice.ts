@@ -0,0 +1,131 @@
+/**
+ * Multiple-choice Meaning Quiz
+ *
+ * Builds four-option questions (one English word, four Chinese meanings)
+ * from the learner's own library. Distractors are other library words with
+ * the same coarse part of speech (categorizePos), ranked by how close they
+ * are in spelling or meaning so the wrong options are plausible. Words whose
+ * meaning overlaps the target's (shared gloss) are never used: they would be
+ * a second right answer.
+ */
+
+import { categorizePos } from './partOfSpeech.ts';
+import { wordEditDistance } from './libraryUpgrade.ts';
+import { getRecallMeaning, splitRecallGlosses } from './meaningRecall.ts';
+import type { ChoiceCardResult, ChoiceOption, ChoiceQuestion, ChoiceQuizSummary, WordEntry } from '../types';
+
+export const CHOICE_QUIZ_WORDS = 10;
+export const CHOICE_OPTION_COUNT = 4;
+/** Distractors are drawn at random from this many best-ranked candidates */
+const DISTRACTOR_POOL_SIZE = 6;
+
+interface DistractorCandidate {
+  word: WordEntry;
+  meaningZh: string;
+  samePos: boolean;
+  similarity: number;
+}
+
+const normalizeText = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let index = result.length - 1; index > 0; index -= 1) {
+    const swapIndex = Math.floor(random() * (index + 1));
+    [result[index], result[swapIndex]] = [result[swapIndex], result[index]];
+  }
+  return result;
+};
+
+/** 1 for identical spelling, 0 for nothing in common */
+const spellingSimilarity = (a: string, b: string) => {
+  const longest = Math.max(a.length, b.length);
+  return longest > 0 ? 1 - wordEditDistance(a, b) / longest : 0;
+};
+
+/** Share of Chinese characters the two meanings have in common (Jaccard) */
+const meaningSimilarity = (a: string, b: string) => {
+  const chars = (text: string) => new Set(Array.from(text).filter((ch) => /\p{Script=Han}/u.test(ch)));
+  const setA = chars(a);
+  const setB = chars(b);
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let shared = 0;
+  setA.forEach((ch) => { if (setB.has(ch)) shared += 1; });
+  return shared / (setA.size + setB.size - shared);
+};
+
+/**
+ * Every usable distractor for `target`, best first: same part of speech
+ * before other parts of speech, then by spelling / meaning similarity.
+ */
+export const rankChoiceDistractors = (target: WordEntry, library: WordEntry[]): DistractorCandidate[] => {
+  const targetMeaning = getRecallMeaning(target);
+  if (!targetMeaning) return [];
+
+  const targetText = normalizeText(target.text);
+  const targetPos = categorizePos(targetMeaning.partOfSpeech);
+  const targetGlosses = new Set(splitRecallGlosses(targetMeaning.meaningZh));
+  const seenMeanings = new Set([targetMeaning.meaningZh]);
+  const candidates: DistractorCandidate[] = [];
+
+  for (const word of library) {
+    const text = normalizeText(word.text);
+    const meaning = getRecallMeaning(word);
+    if (!meaning || !text || text === targetText || seenMeanings.has(meaning.meaningZh)) continue;
+    if (splitRecallGlosses(meaning.meaningZh).some((gloss) => targetGlosses.has(gloss))) continue;
+    seenMeanings.add(meaning.meaningZh);
+    candidates.push({
+      word,
+      meaningZh: meaning.meaningZh,
+      samePos: categorizePos(meaning.partOfSpeech) === targetPos,
+      similarity: 0.6 * spellingSimilarity(targetText, text) + 0.4 * meaningSimilarity(targetMeaning.meaningZh, meaning.meaningZh),
+    });
+  }
+
+  return candidates.sort((a, b) => Number(b.samePos) - Number(a.samePos) || b.similarity - a.similarity);
+};
+
+/**
+ * One question for `target`, or null when the word has no Chinese meaning
+ * or the library has fewer than three usable distractors.
+ */
+export const buildChoiceQuestion = (
+  target: WordEntry,
+  library: WordEntry[],
+  random: () => number = Math.random,
+): ChoiceQuestion | null => {
+  const meaning = getRecallMeaning(target);
+  if (!meaning) return null;
+
+  const ranked = rankChoiceDistractors(target, library);
+  const needed = CHOICE_OPTION_COUNT - 1;
+  if (ranked.length < needed) return null;
+
+  // Pick among the most plausible same-POS candidates; other parts of
+  // speech only fill in when the library is short on them
+  const samePos = ranked.filter((c) => c.samePos);
+  const picked = shuffle(samePos.slice(0, DISTRACTOR_POOL_SIZE), random).slice(0, needed);
+  for (const candidate of ranked) {
+    if (picked.length >= needed) break;
+    if (!picked.includes(candidate)) picked.push(candidate);
+  }
+
+  const options: ChoiceOption[] = [
+    { wordId: target.id, meaningZh: meaning.meaningZh, correct: true },
+    ...picked.map((c) => ({ wordId: c.word.id, meaningZh: c.meaningZh, correct: false })),
+  ];
+  return { word: target, options: shuffle(options, random) };
+};
+
+export const calculateChoiceQuizSummary = (results: ChoiceCardResult[]): ChoiceQuizSummary => {
+  const wordsTotal = results.length;
+  const wordsCorrect = results.filter((r) => r.correct).length;
+  const timings = results.map((r) => r.answeredInMs).filter((ms): ms is number => ms != null && ms >= 0);
+  return {
+    wordsCorrect,
+    wordsTotal,
+    accuracyRate: wordsTotal > 0 ? Number((wordsCorrect / wordsTotal).toFixed(4)) : 0,
+    averageAnswerMs: timings.length > 0 ? Math.round(timings.reduce((sum, ms) => sum + ms, 0) / timings.length) : null,
+    results,
+  };
+};
@@ -0,0 +1,232 @@
+/**
+ * Meaning Recall (reverse test)
+ *
+ * Builds the Chinese prompts for the RECALL mode — the learner sees a
+ * meaning and must spell the English word — and scores a finished round.
+ *
+ * The prompt is the word's selected meaning_options entry, falling back to
+ * definition_cn. A Chinese gloss often fits several English words (快乐的 →
+ * happy / glad), so every prompt is compared against the rest of the
+ * learner's library: when another word shares a gloss and part of speech,
+ * the prompt is marked ambiguous and gains clues (first letter, length and
+ * the English definition with the word masked out). Typing one of those
+ * other words is reported as a synonym rather than a wrong answer.
+ */
+
+import type {
+  PuzzleGameSelectionMode,
+  RecallCardResult,
+  RecallGameSummary,
+  RecallPrompt,
+  WordEntry,
+} from '../types';
+import { RECALL_TOTAL_DURATION_SECONDS, scoreRound } from '../supabase/functions/verify-round/roundScoring.ts';
+
+export const RECALL_TOTAL_WORDS = 10;
+export const RECALL_TOTAL_SECONDS = RECALL_TOTAL_DURATION_SECONDS;
+export const RECALL_MAX_ATTEMPTS = 3;
+
+export type RecallAnswerVerdict = 'correct' | 'synonym' | 'wrong';
+
+interface RecallMeaning {
+  meaningZh: string;
+  partOfSpeech: string | null;
+  definitionEn: string | null;
+}
+
+/** Short bilingual labels for the parts of speech shown next to a prompt */
+export const RECALL_POS_LABELS: Record<string, string> = {
+  noun: 'n. 名词',
+  verb: 'v. 动词',
+  adjective: 'adj. 形容词',
+  adverb: 'adv. 副词',
+  preposition: 'prep. 介词',
+  pronoun: 'pron. 代词',
+  conjunction: 'conj. 连词',
+  interjection: 'int. 感叹词',
+};
+
+const POS_ALIASES: Record<string, string> = {
+  n: 'noun',
+  v: 'verb',
+  vt: 'verb',
+  vi: 'verb',
+  adj: 'adjective',
+  a: 'adjective',
+  adv: 'adverb',
+  ad: 'adverb',
+  prep: 'preposition',
+  pron: 'pronoun',
+  conj: 'conjunction',
+  int: 'interjection',
+  interj: 'interjection',
+};
+
+// "adj. 快乐的" / "vt.抛弃" — a leading part-of-speech abbreviation
+const POS_PREFIX_RE = /^\s*([a-z]{1,6})\.\s*/i;
+// "苹果, n." — the same abbreviation as a suffix
+const POS_SUFFIX_RE = /\s*[,，]\s*([a-z]{1,6})\.?\s*$/i;
+
+const normalizeAnswer = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Normalize a part-of-speech tag ('adj.', 'Adjective', 'vt') to its full
+ * lower-case name; null when empty.
+ */
+export const normalizeRecallPos = (raw: string | null | undefined): string | null => {
+  const value = String(raw || '').trim().toLowerCase().replace(/\./g, '');
+  if (!value) return null;
+  return POS_ALIASES[value] || value;
+};
+
+/**
+ * The meaning a word is prompted with: its selected meaning option (or the
+ * first one), else definition_cn with a leading or trailing POS abbreviation
+ * split off. Null when the word has no Chinese meaning at all.
+ */
+export const getRecallMeaning = (word: WordEntry): RecallMeaning | null => {
+  const options = word.meaning_options || [];
+  const selected = options.find((m) => m.key === word.selected_meaning_key) || options[0];
+  if (selected?.meaningZh?.trim()) {
+    return {
+      meaningZh: selected.meaningZh.trim(),
+      partOfSpeech: normalizeRecallPos(selected.partOfSpeech),
+      definitionEn: selected.definitionEn?.trim() || word.definition_en?.trim() || null,
+    };
+  }
+
+  const definition = (word.definition_cn || '').trim();
+  if (!definition) return null;
+  const prefix = definition.match(POS_PREFIX_RE);
+  const suffix = prefix ? null : definition.match(POS_SUFFIX_RE);
+  const partOfSpeech = normalizeRecallPos(prefix?.[1] || suffix?.[1]);
+  const meaningZh = prefix
+    ? definition.slice(prefix[0].length).trim()
+    : suffix ? definition.slice(0, suffix.index).trim() : definition;
+  if (!meaningZh) return null;
+  return { meaningZh, partOfSpeech, definitionEn: word.definition_en?.trim() || null };
+};
+
+export const hasRecallMeaning = (word: WordEntry) => getRecallMeaning(word) !== null;
+
+/**
+ * Individual glosses of a Chinese meaning: "快乐的；高兴的（心情）" →
+ * ["快乐的", "高兴的"]. Parenthesised notes and POS abbreviations are dropped.
+ */
+export const splitRecallGlosses = (meaningZh: string): string[] =>
+  meaningZh
+    .replace(/[（(][^）)]*[）)]/g, '')
+    .split(/[;；,，、/|]/)
+    .map((gloss) => gloss.replace(POS_PREFIX_RE, '').replace(/\s+/g, '').trim())
+    .filter(Boolean);
+
+/** Replace the word (and simple inflections) in an English definition */
+const maskWord = (text: string, word: string) => {
+  const escaped = word.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (!escaped) return text;
+  return text.replace(new RegExp(`\\b${escaped}\\w*`, 'gi'), '___');
+};
+
+/**
+ * Build one prompt per target word.
+ *
+ * @param targets - Words in the round, in play order (words without a
+ *                  Chinese meaning are skipped)
+ * @param library - Every word the learner has, used to detect prompts that
+ *                  also describe another word
+ */
+export const buildRecallPrompts = (targets: WordEntry[], library: WordEntry[]): RecallPrompt[] => {
+  const libraryMeanings = library
+    .map((word) => ({ text: normalizeAnswer(word.text), meaning: getRecallMeaning(word) }))
+    .filter((entry): entry is { text: string; meaning: RecallMeaning } => entry.meaning !== null && entry.text !== '');
+
+  const prompts: RecallPrompt[] = [];
+  for (const word of targets) {
+    const meaning = getRecallMeaning(word);
+    if (!meaning) continue;
+
+    const answer = normalizeAnswer(word.text);
+    const glosses = new Set(splitRecallGlosses(meaning.meaningZh));
+    const synonyms = new Set<string>();
+    for (const other of libraryMeanings) {
+      if (other.text === answer) continue;
+      const samePos = !meaning.partOfSpeech || !other.meaning.partOfSpeech || meaning.partOfSpeech === other.meaning.partOfSpeech;
+      if (samePos && splitRecallGlosses(other.meaning.meaningZh).some((gloss) => glosses.has(gloss))) {
+        synonyms.add(other.text);
+      }
+    }
+
+    const ambiguous = synonyms.size > 0;
+    prompts.push({
+      wordId: word.id,
+      meaningZh: meaning.meaningZh,
+      partOfSpeech: meaning.partOfSpeech,
+      hasSeveralMeanings: (word.meaning_options?.length || 0) > 1,
+      ambiguous,
+      firstLetter: ambiguous ? answer.charAt(0) : null,
+      letterCount: ambiguous ? answer.length : null,
+      definitionEn: ambiguous && meaning.definitionEn ? maskWord(meaning.definitionEn, word.text) : null,
+      synonyms: Array.from(synonyms),
+    });
+  }
+  return prompts;
+};
+
+/**
+ * Letter pattern revealed by the hint: first and last letter with the rest
+ * blanked, spaces kept ("give up" → "g___ _p").
+ */
+export const buildRecallHint = (wordText: string): string => {
+  const text = wordText.trim();
+  return Array.from(text)
+    .map((ch, index) => (ch === ' ' || index === 0 || index === text.length - 1 ? ch : '_'))
+    .join('');
+};
+
+/**
+ * Judge a typed answer. Another library word that fits the prompt is a
+ * 'synonym': the learner is asked for a different word without losing an
+ * attempt.
+ */
+export const checkRecallAnswer = (prompt: RecallPrompt, wordText: string, input: string): RecallAnswerVerdict => {
+  const typed = normalizeAnswer(input);
+  if (!typed) return 'wrong';
+  if (typed === normalizeAnswer(wordText)) return 'correct';
+  return prompt.synonyms.includes(typed) ? 'synonym' : 'wrong';
+};
+
+/**
+ * Score a finished round on the same 0..1000 scale as the puzzle game,
+ * with the rules the verify-round function re-runs on the submitted log
+ * (roundScoring.ts): 700 for accuracy, 200 for time left and up to 100 for
+ * answer quality (attempts, hints, per-word speed). Clues on an ambiguous
+ * prompt cost less than the hint (×0.9 vs ×0.8).
+ */
+export const calculateRecallGameSummary = (
+  results: RecallCardResult[],
+  elapsedMs: number,
+  selectionMode: PuzzleGameSelectionMode,
+  overlapRate: number,
+  rankingEligible: boolean,
+  rankingIneligibleReason?: string | null,
+): RecallGameSummary => {
+  const score = scoreRound('RECALL', results, elapsedMs, RECALL_TOTAL_WORDS);
+
+  return {
+    totalScore: score.totalScore,
+    accuracyRate: score.accuracyRate,
+    speedScore: score.speedScore,
+    noHintScore: score.noHintScore,
+    wordsCorrect: score.wordsCorrect,
+    wordsTotal: score.wordsTotal,
+    hintsUsed: score.hintsUsed,
+    solvedWithoutHint: score.solvedWithoutHint,
+    timeUsedSeconds: score.timeUsedSeconds,
+    secondsRemaining: score.secondsRemaining,
+    selectionMode,
+    overlapRate: Number(overlapRate.toFixed(4)),
+    rankingEligible,
+    rankingIneligibleReason: rankingIneligibleReason || null,
+    results,
+  };
+};
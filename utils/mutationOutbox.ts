@@ -0,0 +1,159 @@
+/**
+ * Mutation Outbox rules
+ *
+ * The storage-free half of services/offlineSyncQueue.ts: which queued write
+ * may run next, how failures back off, when an item moves to the dead-letter
+ * view, and how an operation is labelled there. Kept free of runtime imports
+ * so Node tests can load it directly.
+ *
+ * Ordering: items sharing an orderingKey (all writes to one word, all daily
+ * stats) replay strictly in queue order. When one of them fails or is still
+ * backing off, later items with the same key wait; other keys carry on.
+ * Dead-lettered items no longer block their key.
+ */
+
+import type { OutboxItem, OutboxOperation } from '../types';
+
+/** Failed attempts before an item moves to the dead-letter view */
+export const OUTBOX_MAX_ATTEMPTS = 10;
+export const OUTBOX_BASE_RETRY_MS = 5_000;
+export const OUTBOX_MAX_RETRY_MS = 30 * 60 * 1000;
+
+export type OutboxErrorKind = 'retryable' | 'permanent';
+
+/** Default ordering key: writes to one word (or to the daily stats) stay in order */
+export const getOutboxOrderingKey = (op: OutboxOperation): string => {
+  switch (op.type) {
+    case 'word_status':
+    case 'mistake_tag':
+    case 'error_penalty':
+    case 'review_log':
+    case 'word_metadata':
+      return `word:${op.payload.wordId}`;
+    case 'test_stats':
+      return 'stats';
+    case 'delete_words':
+    case 'delete_sessions':
+      return 'library';
+    default:
+      return op.type;
+  }
+};
+
+/** Delay before the next attempt: 5s, 10s, 20s … capped at 30 minutes */
+export const getOutboxRetryDelay = (attempts: number): number =>
+  Math.min(OUTBOX_BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1), OUTBOX_MAX_RETRY_MS);
+
+/**
+ * Network trouble, timeouts, rate limits and server errors are worth retrying;
+ * a request the server rejected (4xx, constraint / type errors) will fail the
+ * same way next time and goes straight to the dead-letter view.
+ */
+export const classifyOutboxError = (error: unknown): OutboxErrorKind => {
+  const e = (error ?? {}) as { status?: unknown; statusCode?: unknown; code?: unknown; message?: unknown };
+  const message = String(e.message ?? error ?? '').toLowerCase();
+  if (/failed to fetch|networkerror|network request|load failed|timeout|timed out|aborted|jwt/.test(message)) {
+    return 'retryable';
+  }
+
+  const status = Number(e.status ?? e.statusCode);
+  if (status === 408 || status === 429 || status >= 500) return 'retryable';
+  if (status >= 400 && status < 500) return 'permanent';
+
+  const code = String(e.code ?? '');
+  if (/^(22|23|42)[0-9A-Z]{3}$/.test(code) || code.startsWith('PGRST')) return 'permanent';
+  return 'retryable';
+};
+
+/** Record a failed attempt: back off, or give up into the dead-letter view */
+export const markOutboxFailure = (item: OutboxItem, error: unknown, now: number = Date.now()): OutboxItem => {
+  const attempts = item.attempts + 1;
+  const lastError = error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? error);
+  if (classifyOutboxError(error) === 'permanent' || attempts >= OUTBOX_MAX_ATTEMPTS) {
+    return { ...item, attempts, lastError, status: 'dead', deadAt: now };
+  }
+  return { ...item, attempts, lastError, nextAttemptAt: now + getOutboxRetryDelay(attempts) };
+};
+
+/** Put a dead letter back at the front of its retry schedule */
+export const reviveOutboxItem = (item: OutboxItem, now: number = Date.now()): OutboxItem => {
+  const { deadAt: _deadAt, ...rest } = item;
+  return { ...rest, status: 'pending', attempts: 0, nextAttemptAt: now };
+};
+
+/** Whether a pending item keeps later items with its ordering key waiting */
+export const hasPendingForKey = (items: OutboxItem[], orderingKey: string): boolean =>
+  items.some(item => item.status === 'pending' && item.orderingKey === orderingKey);
+
+export interface OutboxPassResult {
+  applied: OutboxItem[];  // Done; remove from the outbox
+  updated: OutboxItem[];  // Failed this time; write back (still pending, or dead)
+}
+
+/**
+ * One replay pass in queue order.
+ * `execute` returns false when it cannot run the item yet (no handler
+ * registered): the item is left untouched and its key is held.
+ * `shouldContinue` is checked before every item so a pass stops as soon as
+ * the connection drops instead of burning attempts.
+ */
+export const runOutboxPass = async (
+  items: OutboxItem[],
+  execute: (item: OutboxItem) => Promise<boolean>,
+  now: number = Date.now(),
+  shouldContinue: () => boolean = () => true
+): Promise<OutboxPassResult> => {
+  const applied: OutboxItem[] = [];
+  const updated: OutboxItem[] = [];
+  const held = new Set<string>();
+
+  for (const item of [...items].sort((a, b) => a.seq - b.seq)) {
+    if (item.status === 'dead') continue;
+    if (held.has(item.orderingKey)) continue;
+    if (item.nextAttemptAt > now) {
+      held.add(item.orderingKey);
+      continue;
+    }
+    if (!shouldContinue()) break;
+
+    try {
+      if (await execute(item)) {
+        applied.push(item);
+      } else {
+        held.add(item.orderingKey);
+      }
+    } catch (error) {
+      const failed = markOutboxFailure(item, error, now);
+      updated.push(failed);
+      if (failed.status === 'pending') held.add(item.orderingKey);
+    }
+  }
+
+  return { applied, updated };
+};
+
+/** Short label for the dead-letter view */
+export const describeOutboxOperation = (op: OutboxOperation): string => {
+  switch (op.type) {
+    case 'test_stats':
+      return `Test totals ${op.payload.date}: ${op.payload.correctCount}/${op.payload.testCount}`;
+    case 'word_status':
+      return `Answer (${op.payload.correct ? 'correct' : 'wrong'})`;
+    case 'mistake_tag':
+      return 'Mistake tag';
+    case 'error_penalty':
+      return `Dictation miss (+${op.payload.errorCountIncrement} errors)`;
+    case 'review_log':
+      return `Review log (${op.payload.mode})`;
+    case 'word_metadata':
+      return 'Meaning selection';
+    case 'game_round':
+      return `${op.payload.mode} round: ${op.payload.summary.totalScore} pts`;
+    case 'coin_award':
+      return `Coins +${op.payload.delta}`;
+    case 'delete_words':
+      return `Delete ${op.payload.wordIds.length} word(s)`;
+    case 'delete_sessions':
+      return `Delete ${op.payload.sessionIds.length} list(s)`;
+  }
+};
@@ -0,0 +1,44 @@
+/**
+ * Offline Assets
+ *
+ * Picks the network URLs the service worker (public/sw.js) should keep for a
+ * test without signal: word images, stored pronunciation URLs and the audio
+ * URLs audioCacheManager resolved earlier. Words due soonest come first so a
+ * capped warm-up still covers the next review session.
+ */
+
+import type { WordEntry } from '../types';
+import { isWordStudyable } from './wordState.ts';
+
+/** Most media URLs sent to the service worker per warm-up */
+export const OFFLINE_ASSET_LIMIT = 600;
+
+const isNetworkUrl = (url: string | null | undefined): url is string =>
+  typeof url === 'string' && /^https?:\/\//i.test(url);
+
+/**
+ * Unique image + audio URLs for the studyable words, due words first.
+ * Words never scheduled sort last; cached audio URLs fill the remaining room.
+ */
+export const collectOfflineAssetUrls = (
+  words: WordEntry[],
+  cachedAudioUrls: string[] = [],
+  limit: number = OFFLINE_ASSET_LIMIT
+): string[] => {
+  const ordered = words
+    .filter(w => isWordStudyable(w))
+    .sort((a, b) => (a.next_review_at ?? Infinity) - (b.next_review_at ?? Infinity));
+
+  const urls = new Set<string>();
+  const add = (url: string | null | undefined) => {
+    if (urls.size < limit && isNetworkUrl(url)) urls.add(url);
+  };
+
+  ordered.forEach(w => {
+    add(w.image_url);
+    add(w.audio_url);
+  });
+  cachedAudioUrls.forEach(add);
+
+  return Array.from(urls);
+};
@@ -0,0 +1,26 @@
+/**
+ * Part-of-speech helpers
+ *
+ * Coarse POS categories used by the scene prompts and the multiple-choice
+ * quiz distractors. Kept free of service imports so Node tests can load it.
+ */
+
+import type { SceneWordMeta, WordEntry } from '../types';
+
+/** Map a raw partOfSpeech token ('n.', 'adj.', ...) to a prompt category. */
+export const categorizePos = (raw: string | null | undefined): SceneWordMeta['pos'] => {
+  if (!raw) return 'noun';
+  const p = raw.trim().toLowerCase().replace(/\./g, '');
+  if (p === 'noun' || p === 'n') return 'noun';
+  if (p === 'adjective' || p === 'adj') return 'adjective';
+  if (p === 'verb' || p === 'v') return 'verb';
+  if (p === 'adverb' || p === 'adv') return 'adverb';
+  // determiners / prepositions / conjunctions etc. -> render as objects
+  return 'other';
+};
+
+/** POS category for a WordEntry, using its selected meaning. */
+export const posOf = (word: WordEntry): SceneWordMeta['pos'] => {
+  const selected = word.meaning_options?.find((m) => m.key === word.selected_meaning_key) || word.meaning_options?.[0];
+  return categorizePos(selected?.partOfSpeech);
+};
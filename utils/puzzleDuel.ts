@@ -0,0 +1,178 @@
+/**
+ * Puzzle Duel
+ *
+ * Pure rules for head-to-head puzzle duels: room codes, the seeded card
+ * set both players get, the live event stream (who joined, who is ready,
+ * which cards the other side solved) and who won.
+ *
+ * Events travel over a DuelTransport: Supabase Realtime broadcast in the
+ * app (services/puzzleDuel.ts), the in-memory hub below in tests. Neither
+ * side echoes its own events back, so every client applies its own events
+ * locally and the other side's as they arrive.
+ */
+
+import { createSeededRandom, seededPick } from '../supabase/functions/verify-round/seededPick.ts';
+import type { PuzzleCardResult } from '../types';
+
+export const DUEL_CARD_COUNT = 9;
+export const DUEL_ROOM_CODE_LENGTH = 6;
+/** Both clients count down from the moment the host's start event arrives */
+export const DUEL_START_DELAY_MS = 4000;
+/**
+ * A duel still running this long after it started is closed by
+ * expire_puzzle_duel (the side that submitted wins). Keeps in sync with
+ * close_expired_puzzle_duels in the add_puzzle_duels migration.
+ */
+export const DUEL_RESULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+// No 0/O or 1/I, so a code read aloud or off a screen survives
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const generateRoomCode = (random: () => number = Math.random): string =>
+  Array.from({ length: DUEL_ROOM_CODE_LENGTH }, () =>
+    ROOM_CODE_ALPHABET[Math.floor(random() * ROOM_CODE_ALPHABET.length)]
+  ).join('');
+
+/** Uppercase and strip spaces/dashes, so "abc 234" and "ABC-234" both work */
+export const normalizeRoomCode = (input: string): string =>
+  input.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, DUEL_ROOM_CODE_LENGTH);
+
+export const isValidRoomCode = (code: string): boolean =>
+  code.length === DUEL_ROOM_CODE_LENGTH && [...code].every(ch => ROOM_CODE_ALPHABET.includes(ch));
+
+export { createSeededRandom };
+
+/**
+ * The duel's cards, in board order. Same candidates + same seed → same
+ * cards in the same order, however the candidates were ordered.
+ */
+export const selectDuelCards = <T extends { id: string }>(
+  candidates: T[],
+  seed: number,
+  count: number = DUEL_CARD_COUNT
+): T[] => seededPick(candidates, seed, count);
+
+// ----------------------------------------------------------------
+// Live events
+// ----------------------------------------------------------------
+
+export type DuelEvent =
+  | { type: 'hello'; playerId: string; name: string }
+  | { type: 'ready'; playerId: string }
+  | { type: 'start'; startInMs: number }
+  | { type: 'solved'; playerId: string; wordId: string; solvedAtMs: number }
+  | { type: 'finished'; playerId: string; results: PuzzleCardResult[]; elapsedMs: number }
+  | { type: 'leave'; playerId: string };
+
+export interface DuelPlayerState {
+  name: string;
+  ready: boolean;
+  solvedIds: string[];
+  finished: { results: PuzzleCardResult[]; elapsedMs: number } | null;
+  left: boolean;
+}
+
+export interface DuelState {
+  players: Record<string, DuelPlayerState>;
+  started: boolean;
+}
+
+export const initialDuelState: DuelState = { players: {}, started: false };
+
+const newPlayer = (name = ''): DuelPlayerState => ({ name, ready: false, solvedIds: [], finished: null, left: false });
+
+export const applyDuelEvent = (state: DuelState, event: DuelEvent): DuelState => {
+  if (event.type === 'start') return { ...state, started: true };
+
+  const player = state.players[event.playerId] ?? newPlayer();
+  let next: DuelPlayerState;
+  switch (event.type) {
+    case 'hello':
+      next = { ...player, name: event.name || player.name, left: false };
+      break;
+    case 'ready':
+      next = { ...player, ready: true };
+      break;
+    case 'solved':
+      if (player.solvedIds.includes(event.wordId)) return state;
+      next = { ...player, solvedIds: [...player.solvedIds, event.wordId] };
+      break;
+    case 'finished':
+      next = { ...player, finished: { results: event.results, elapsedMs: event.elapsedMs } };
+      break;
+    case 'leave':
+      next = { ...player, left: true };
+      break;
+  }
+  return { ...state, players: { ...state.players, [event.playerId]: next } };
+};
+
+// ----------------------------------------------------------------
+// Result
+// ----------------------------------------------------------------
+
+/** The parts of calculatePuzzleGameSummary's output that decide a duel */
+export interface DuelScore {
+  totalScore: number;
+  wordsCorrect: number;
+  timeUsedSeconds: number;
+}
+
+/**
+ * > 0 when `a` beats `b`: higher score, then more words, then faster.
+ * submit_puzzle_duel_result applies the same order on the server.
+ */
+export const compareDuelScores = (a: DuelScore, b: DuelScore): number =>
+  (a.totalScore - b.totalScore)
+  || (a.wordsCorrect - b.wordsCorrect)
+  || (b.timeUsedSeconds - a.timeUsedSeconds);
+
+/** Winner's player id, or null for a draw */
+export const decideDuelWinner = (
+  a: { playerId: string; score: DuelScore },
+  b: { playerId: string; score: DuelScore }
+): string | null => {
+  const order = compareDuelScores(a.score, b.score);
+  if (order === 0) return null;
+  return order > 0 ? a.playerId : b.playerId;
+};
+
+// ----------------------------------------------------------------
+// Transport
+// ----------------------------------------------------------------
+
+export interface DuelTransport {
+  send: (event: DuelEvent) => void | Promise<void>;
+  /** Events from the other side only; returns an unsubscribe */
+  subscribe: (listener: (event: DuelEvent) => void) => () => void;
+  close: () => void;
+}
+
+/**
+ * In-memory stand-in for the Realtime channel: every connection hears
+ * every other connection's events, never its own.
+ */
+export const createLocalDuelHub = () => {
+  const connections = new Set<{ listeners: Set<(event: DuelEvent) => void> }>();
+
+  const connect = (): DuelTransport => {
+    const connection = { listeners: new Set<(event: DuelEvent) => void>() };
+    connections.add(connection);
+    return {
+      send: (event) => {
+        connections.forEach(other => {
+          if (other !== connection) other.listeners.forEach(listener => listener(event));
+        });
+      },
+      subscribe: (listener) => {
+        connection.listeners.add(listener);
+        return () => connection.listeners.delete(listener);
+      },
+      close: () => {
+        connections.delete(connection);
+      },
+    };
+  };
+
+  return { connect };
+};
@@ -0,0 +1,54 @@
+/**
+ * Scene story chapters
+ *
+ * Pure rules for playing a story-mode scene (SceneAsset.panels): the round's
+ * words in board order (panel by panel), which panel each word belongs to,
+ * and which panel is open. Panels open in story order — the next one only
+ * once every word of the current one is solved or locked.
+ */
+
+import type { ScenePanel } from '../types';
+
+const wordKey = (text: string) => text.trim().toLowerCase();
+
+/**
+ * Panel index of each word, by the panels' word lists. A word no panel
+ * lists (an older or hand-edited row) is played in the last panel.
+ */
+export const panelIndexOfWords = (words: { text: string }[], panels: ScenePanel[]): number[] => {
+  const panelOf = new Map<string, number>();
+  panels.forEach((panel, index) => {
+    for (const word of panel.words) {
+      const key = wordKey(word);
+      if (!panelOf.has(key)) panelOf.set(key, index);
+    }
+  });
+  const last = Math.max(panels.length - 1, 0);
+  return words.map((word) => panelOf.get(wordKey(word.text)) ?? last);
+};
+
+/** The words in board order: panel by panel, each panel in its own order. */
+export const orderWordsByPanels = <T extends { text: string }>(words: T[], panels: ScenePanel[]): T[] => {
+  const panelOf = panelIndexOfWords(words, panels);
+  const rank = new Map<string, number>();
+  panels.forEach((panel) => panel.words.forEach((word) => {
+    const key = wordKey(word);
+    if (!rank.has(key)) rank.set(key, rank.size);
+  }));
+  return words
+    .map((word, i) => ({ word, panel: panelOf[i], rank: rank.get(wordKey(word.text)) ?? Number.MAX_SAFE_INTEGER, i }))
+    .sort((a, b) => a.panel - b.panel || a.rank - b.rank || a.i - b.i)
+    .map(({ word }) => word);
+};
+
+/**
+ * The panel being played: the first one that still has an unresolved word,
+ * or the last panel once everything is resolved.
+ */
+export const firstOpenPanel = (panelOf: number[], resolved: boolean[]): number => {
+  let open = Number.POSITIVE_INFINITY;
+  panelOf.forEach((panel, i) => {
+    if (!resolved[i] && panel < open) open = panel;
+  });
+  return Number.isFinite(open) ? open : Math.max(0, ...panelOf);
+};
@@ -0,0 +1,143 @@
+/**
+ * Sentence Dictation
+ *
+ * Grades a typed sentence against the sentence that was played. Both are
+ * split into word tokens (case and punctuation are ignored) and aligned with
+ * a token-level edit distance, so the learner sees exactly which words were
+ * right, missing, extra or misspelled. A misspelling is a substitution close
+ * enough in spelling to be the same word (see wordEditDistance); anything
+ * further apart is reported as one missing plus one extra word.
+ */
+
+import { wordEditDistance } from './libraryUpgrade.ts';
+
+export type DictationTokenKind = 'match' | 'missing' | 'extra' | 'misspelled';
+
+export interface DictationToken {
+  kind: DictationTokenKind;
+  /** Word from the played sentence (absent for extra words) */
+  expected?: string;
+  /** Word the learner typed (absent for missing words) */
+  typed?: string;
+}
+
+export interface DictationGrade {
+  tokens: DictationToken[];
+  /** Share of the sentence's words typed exactly, 0..1 */
+  accuracy: number;
+  /** Whether every token of the target word was typed exactly */
+  targetCorrect: boolean;
+  counts: Record<DictationTokenKind, number>;
+}
+
+const TOKEN_RE = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Lower-cased word tokens of a sentence; punctuation is dropped and curly
+ * apostrophes are straightened (don’t → don't).
+ */
+export const tokenizeSentence = (sentence: string): string[] =>
+  (String(sentence || '').match(TOKEN_RE) || []).map(t => t.toLowerCase().replace(/’/g, "'"));
+
+/** Whether `typed` is a misspelling of `expected` rather than another word */
+const isMisspelling = (expected: string, typed: string): boolean => {
+  const maxEdits = expected.length <= 3 ? 1 : 2;
+  const distance = wordEditDistance(expected, typed);
+  return distance <= maxEdits && distance < expected.length;
+};
+
+/**
+ * Token-level diff of the typed sentence against the played one, in
+ * sentence order.
+ */
+export const diffSentenceTokens = (expected: string[], typed: string[]): DictationToken[] => {
+  const n = expected.length;
+  const m = typed.length;
+  // cost[i][j]: cheapest alignment of expected[i..] with typed[j..]
+  const cost: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n; i >= 0; i--) {
+    for (let j = m; j >= 0; j--) {
+      if (i === n) cost[i][j] = m - j;
+      else if (j === m) cost[i][j] = n - i;
+      else {
+        let best = Math.min(cost[i + 1][j] + 1, cost[i][j + 1] + 1);
+        if (expected[i] === typed[j]) best = Math.min(best, cost[i + 1][j + 1]);
+        else if (isMisspelling(expected[i], typed[j])) best = Math.min(best, cost[i + 1][j + 1] + 1);
+        cost[i][j] = best;
+      }
+    }
+  }
+
+  const tokens: DictationToken[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && expected[i] === typed[j] && cost[i][j] === cost[i + 1][j + 1]) {
+      tokens.push({ kind: 'match', expected: expected[i++], typed: typed[j++] });
+    } else if (i < n && j < m && expected[i] !== typed[j] && isMisspelling(expected[i], typed[j]) && cost[i][j] === cost[i + 1][j + 1] + 1) {
+      tokens.push({ kind: 'misspelled', expected: expected[i++], typed: typed[j++] });
+    } else if (i < n && (j === m || cost[i][j] === cost[i + 1][j] + 1)) {
+      tokens.push({ kind: 'missing', expected: expected[i++] });
+    } else {
+      tokens.push({ kind: 'extra', typed: typed[j++] });
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Grade a dictation attempt.
+ *
+ * @param targetWord - The tested word (may be a phrase); it counts as correct
+ *                     only if all of its tokens were typed exactly
+ */
+export const gradeDictation = (sentence: string, typed: string, targetWord: string): DictationGrade => {
+  const expected = tokenizeSentence(sentence);
+  const tokens = diffSentenceTokens(expected, tokenizeSentence(typed));
+
+  const counts: Record<DictationTokenKind, number> = { match: 0, missing: 0, extra: 0, misspelled: 0 };
+  tokens.forEach(t => { counts[t.kind]++; });
+
+  // Position of each expected word in the token list, to check the target
+  const expectedKinds = tokens.filter(t => t.kind !== 'extra').map(t => t.kind);
+  const target = tokenizeSentence(targetWord);
+  let targetCorrect = false;
+  if (target.length > 0) {
+    for (let start = 0; start + target.length <= expected.length; start++) {
+      if (!target.every((t, k) => expected[start + k] === t)) continue;
+      targetCorrect = target.every((_, k) => expectedKinds[start + k] === 'match');
+      break;
+    }
+  }
+
+  return {
+    tokens,
+    accuracy: expected.length > 0 ? counts.match / expected.length : 0,
+    targetCorrect,
+    counts,
+  };
+};
+
+/** Word-count bounds for a fallback example sentence to be worth dictating */
+const EXAMPLE_MIN_TOKENS = 4;
+const EXAMPLE_MAX_TOKENS = 25;
+
+/**
+ * First example sentence usable for dictating `targetWord`: it must contain
+ * the word's tokens exactly, in order (an inflected form could never grade
+ * as targetCorrect), and be neither a fragment nor a paragraph. Returns
+ * null when none qualifies.
+ */
+export const pickExampleSentence = (examples: string[], targetWord: string): string | null => {
+  const target = tokenizeSentence(targetWord);
+  if (target.length === 0) return null;
+  for (const example of examples) {
+    const sentence = String(example || '').replace(/\s+/g, ' ').trim();
+    const tokens = tokenizeSentence(sentence);
+    if (tokens.length < EXAMPLE_MIN_TOKENS || tokens.length > EXAMPLE_MAX_TOKENS) continue;
+    for (let start = 0; start + target.length <= tokens.length; start++) {
+      if (target.every((t, k) => tokens[start + k] === t)) return sentence;
+    }
+  }
+  return null;
+};
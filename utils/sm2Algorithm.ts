@@ -116,3 +116,113 @@ export function errorRateToQuality(errorCount: number, success: boolean): number
   // 2+ errors = 3 (difficult but correct)
   return Math.max(3, 5 - errorCount);
 }
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Persisted SM-2 columns on a `words` row (mirrors WordEntry's sm2_* fields).
+ * Kept structural so this module stays free of app imports and can be used
+ * from Node tests directly.
+ */
+export interface SM2WordFields {
+  sm2_interval?: number | null;
+  sm2_repetitions?: number | null;
+  sm2_ease_factor?: number | null;
+  next_review_at?: number | null;
+  last_tested?: number | null;
+  tested?: boolean;
+}
+
+export interface SM2ScheduleUpdate {
+  sm2_interval: number;
+  sm2_repetitions: number;
+  sm2_ease_factor: number;
+  next_review_at: number;
+}
+
+/**
+ * Read the SM-2 state stored on a word, falling back to a fresh state for
+ * words that have never been scheduled.
+ */
+export function getWordSM2State(word: SM2WordFields): SM2State {
+  const fresh = createNewSM2State();
+  return {
+    interval: word.sm2_interval ?? fresh.interval,
+    repetitions: word.sm2_repetitions ?? fresh.repetitions,
+    easeFactor: word.sm2_ease_factor ?? fresh.easeFactor
+  };
+}
+
+/**
+ * Map one test/game outcome to an SM-2 quality rating.
+ * A hinted answer can never be rated "perfect", so it is capped at 4.
+ *
+ * @param correct - Whether the word was eventually answered correctly
+ * @param hasUsedHint - Whether any hint was used
+ * @param errorIncrement - error_count increment recorded for this attempt
+ */
+export function reviewOutcomeToQuality(
+  correct: boolean,
+  hasUsedHint: boolean,
+  errorIncrement: number
+): number {
+  const effectiveErrors = hasUsedHint ? Math.max(1, errorIncrement) : errorIncrement;
+  return Math.floor(errorRateToQuality(effectiveErrors, correct));
+}
+
+/**
+ * Apply one review to a word and return the columns to persist.
+ *
+ * @param word - Current persisted SM-2 fields
+ * @param quality - Quality rating (0-5)
+ * @param reviewedAt - Review timestamp (ms), defaults to now
+ */
+export function scheduleWordReview(
+  word: SM2WordFields,
+  quality: number,
+  reviewedAt: number = Date.now()
+): SM2ScheduleUpdate {
+  const next = calculateNextReview(getWordSM2State(word), quality);
+  return {
+    sm2_interval: next.interval,
+    sm2_repetitions: next.repetitions,
+    sm2_ease_factor: Number(next.easeFactor.toFixed(2)),
+    next_review_at: calculateNextReviewDate(reviewedAt, next.interval).getTime()
+  };
+}
+
+/**
+ * Whether a word is due for review by `cutoff`.
+ * Words tested before SM-2 scheduling existed (tested, but no next_review_at)
+ * are treated as due so they enter the schedule on their next review.
+ * Untested words are "new", not "due".
+ *
+ * @param word - Word SM-2 fields
+ * @param cutoff - Timestamp (ms) the due date is compared against
+ */
+export function isWordDue(word: SM2WordFields, cutoff: number = Date.now()): boolean {
+  if (word.next_review_at != null) {
+    return word.next_review_at <= cutoff;
+  }
+  return Boolean(word.tested && word.last_tested != null);
+}
+
+/**
+ * Build the "due today" queue: every due word, most overdue first.
+ *
+ * @param words - Candidate words
+ * @param cutoff - End of the review window (ms), typically end of today
+ */
+export function getDueWords<T extends SM2WordFields>(words: T[], cutoff: number = Date.now()): T[] {
+  return words
+    .filter(w => isWordDue(w, cutoff))
+    .sort((a, b) => (a.next_review_at ?? a.last_tested ?? 0) - (b.next_review_at ?? b.last_tested ?? 0));
+}
+
+/**
+ * Days remaining until a word is due (negative when overdue, null if unscheduled).
+ */
+export function daysUntilDue(word: SM2WordFields, now: number = Date.now()): number | null {
+  if (word.next_review_at == null) return null;
+  return (word.next_review_at - now) / DAY_MS;
+}
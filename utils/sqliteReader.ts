@@ -0,0 +1,247 @@
+/**
+ * SQLite Reader
+ *
+ * Minimal read-only reader for SQLite database files, enough to pull rows
+ * out of the collection inside an Anki .apkg. Walks table B-trees (including
+ * overflow pages) and decodes records; no SQL engine, no indexes.
+ *
+ * Supported: rowid tables, UTF-8 / UTF-16 text encodings, INTEGER PRIMARY KEY
+ * aliases. Not supported: WITHOUT ROWID tables, WAL files (only the main
+ * database file is read).
+ *
+ * File format reference: https://www.sqlite.org/fileformat2.html
+ */
+
+export type SqliteValue = number | string | Uint8Array | null;
+export type SqliteRow = Record<string, SqliteValue>;
+
+export interface SqliteTableInfo {
+  name: string;
+  rootPage: number;
+  columns: string[];
+  /** Index of the INTEGER PRIMARY KEY column (stored as the rowid), -1 if none */
+  rowidColumn: number;
+}
+
+export class SqliteFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SqliteFormatError';
+  }
+}
+
+const HEADER_MAGIC = 'SQLite format 3\u0000';
+const TABLE_INTERIOR_PAGE = 0x05;
+const TABLE_LEAF_PAGE = 0x0d;
+
+interface SqliteFile {
+  bytes: Uint8Array;
+  view: DataView;
+  pageSize: number;
+  usableSize: number;
+  textDecoder: TextDecoder;
+}
+
+const openFile = (bytes: Uint8Array): SqliteFile => {
+  if (bytes.length < 100 || new TextDecoder().decode(bytes.subarray(0, 16)) !== HEADER_MAGIC) {
+    throw new SqliteFormatError('Not a SQLite database');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const rawPageSize = view.getUint16(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const encoding = view.getUint32(56);
+  return {
+    bytes,
+    view,
+    pageSize,
+    usableSize: pageSize - bytes[20],
+    textDecoder: new TextDecoder(encoding === 2 ? 'utf-16le' : encoding === 3 ? 'utf-16be' : 'utf-8'),
+  };
+};
+
+/** Read a SQLite varint (1-9 bytes, big-endian, 7 bits per byte) */
+const readVarint = (bytes: Uint8Array, offset: number): [value: number, length: number] => {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if ((byte & 0x80) === 0) return [value, i + 1];
+  }
+  return [value * 256 + bytes[offset + 8], 9];
+};
+
+const readPayload = (file: SqliteFile, cellOffset: number, payloadSize: number): Uint8Array => {
+  const { bytes, view, usableSize } = file;
+  const maxLocal = usableSize - 35;
+  if (payloadSize <= maxLocal) return bytes.subarray(cellOffset, cellOffset + payloadSize);
+
+  const minLocal = Math.floor(((usableSize - 12) * 32) / 255) - 23;
+  const spill = minLocal + ((payloadSize - minLocal) % (usableSize - 4));
+  const localSize = spill <= maxLocal ? spill : minLocal;
+
+  const payload = new Uint8Array(payloadSize);
+  payload.set(bytes.subarray(cellOffset, cellOffset + localSize));
+  let written = localSize;
+  let overflowPage = view.getUint32(cellOffset + localSize);
+  while (overflowPage !== 0 && written < payloadSize) {
+    const pageStart = (overflowPage - 1) * file.pageSize;
+    const chunk = Math.min(payloadSize - written, usableSize - 4);
+    payload.set(bytes.subarray(pageStart + 4, pageStart + 4 + chunk), written);
+    written += chunk;
+    overflowPage = view.getUint32(pageStart);
+  }
+  return payload;
+};
+
+const decodeRecord = (file: SqliteFile, payload: Uint8Array): SqliteValue[] => {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const [headerSize, headerSizeLength] = readVarint(payload, 0);
+  const serialTypes: number[] = [];
+  for (let offset = headerSizeLength; offset < headerSize;) {
+    const [serialType, length] = readVarint(payload, offset);
+    serialTypes.push(serialType);
+    offset += length;
+  }
+
+  const values: SqliteValue[] = [];
+  let offset = headerSize;
+  for (const serialType of serialTypes) {
+    switch (serialType) {
+      case 0: values.push(null); break;
+      case 1: values.push(view.getInt8(offset)); offset += 1; break;
+      case 2: values.push(view.getInt16(offset)); offset += 2; break;
+      case 3: values.push(((view.getInt8(offset) << 16) | view.getUint16(offset + 1))); offset += 3; break;
+      case 4: values.push(view.getInt32(offset)); offset += 4; break;
+      case 5: values.push(view.getInt16(offset) * 2 ** 32 + view.getUint32(offset + 2)); offset += 6; break;
+      case 6: values.push(Number(view.getBigInt64(offset))); offset += 8; break;
+      case 7: values.push(view.getFloat64(offset)); offset += 8; break;
+      case 8: values.push(0); break;
+      case 9: values.push(1); break;
+      default: {
+        if (serialType < 12) throw new SqliteFormatError(`Reserved serial type ${serialType}`);
+        const length = Math.floor((serialType - 12) / 2);
+        const data = payload.subarray(offset, offset + length);
+        values.push(serialType % 2 === 0 ? data.slice() : file.textDecoder.decode(data));
+        offset += length;
+      }
+    }
+  }
+  return values;
+};
+
+/** Visit every (rowid, record) in a table B-tree, in rowid order */
+const walkTable = (file: SqliteFile, rootPage: number, visit: (rowid: number, values: SqliteValue[]) => void) => {
+  const { bytes, view, pageSize } = file;
+  const stack = [rootPage];
+  while (stack.length > 0) {
+    const page = stack.pop()!;
+    const pageStart = (page - 1) * pageSize;
+    const headerStart = page === 1 ? 100 : pageStart;
+    const pageType = bytes[headerStart];
+    const cellCount = view.getUint16(headerStart + 3);
+
+    if (pageType === TABLE_INTERIOR_PAGE) {
+      // Push right-most child first so children are popped left to right
+      stack.push(view.getUint32(headerStart + 8));
+      for (let i = cellCount - 1; i >= 0; i--) {
+        const cellOffset = pageStart + view.getUint16(headerStart + 12 + i * 2);
+        stack.push(view.getUint32(cellOffset));
+      }
+    } else if (pageType === TABLE_LEAF_PAGE) {
+      for (let i = 0; i < cellCount; i++) {
+        let cellOffset = pageStart + view.getUint16(headerStart + 8 + i * 2);
+        const [payloadSize, payloadSizeLength] = readVarint(bytes, cellOffset);
+        cellOffset += payloadSizeLength;
+        const [rowid, rowidLength] = readVarint(bytes, cellOffset);
+        cellOffset += rowidLength;
+        visit(rowid, decodeRecord(file, readPayload(file, cellOffset, payloadSize)));
+      }
+    } else {
+      throw new SqliteFormatError(`Unexpected page type ${pageType} on page ${page}`);
+    }
+  }
+};
+
+/** Split a CREATE TABLE body on top-level commas */
+const splitColumnDefinitions = (body: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (const char of body) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === '\'' || char === '`') {
+      quote = char;
+    } else if (char === '[') {
+      quote = ']';
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+const TABLE_CONSTRAINT = /^(constraint|primary|unique|check|foreign)\b/i;
+
+/**
+ * Column names (in storage order) from a CREATE TABLE statement.
+ */
+export const parseCreateTableColumns = (sql: string): { columns: string[]; rowidColumn: number } => {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const columns: string[] = [];
+  let rowidColumn = -1;
+  for (const definition of splitColumnDefinitions(body)) {
+    if (TABLE_CONSTRAINT.test(definition)) continue;
+    const match = definition.match(/^("[^"]+"|`[^`]+`|\[[^\]]+\]|\S+)\s*(.*)$/s);
+    if (!match) continue;
+    if (/^integer\s+primary\s+key\b/i.test(match[2])) rowidColumn = columns.length;
+    columns.push(match[1].replace(/^["`[]|["`\]]$/g, ''));
+  }
+  return { columns, rowidColumn };
+};
+
+/**
+ * List the tables in a database from sqlite_master.
+ */
+export const listSqliteTables = (bytes: Uint8Array): SqliteTableInfo[] => {
+  const file = openFile(bytes);
+  const tables: SqliteTableInfo[] = [];
+  // sqlite_master(type, name, tbl_name, rootpage, sql) is always rooted at page 1
+  walkTable(file, 1, (_rowid, values) => {
+    const [type, name, , rootPage, sql] = values;
+    if (type !== 'table' || typeof name !== 'string' || typeof sql !== 'string') return;
+    tables.push({ name, rootPage: Number(rootPage), ...parseCreateTableColumns(sql) });
+  });
+  return tables;
+};
+
+/**
+ * Read every row of a table as column-name → value objects.
+ * Returns null when the table does not exist.
+ */
+export const readSqliteTable = (bytes: Uint8Array, tableName: string): SqliteRow[] | null => {
+  const table = listSqliteTables(bytes).find(t => t.name === tableName);
+  if (!table) return null;
+
+  const file = openFile(bytes);
+  const rows: SqliteRow[] = [];
+  walkTable(file, table.rootPage, (rowid, values) => {
+    const row: SqliteRow = {};
+    table.columns.forEach((column, index) => {
+      // Columns added by ALTER TABLE are missing from older records
+      const value = index < values.length ? values[index] : null;
+      row[column] = index === table.rowidColumn && value === null ? rowid : value;
+    });
+    rows.push(row);
+  });
+  return rows;
+};
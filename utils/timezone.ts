@@ -114,3 +114,15 @@ export function parseShanghaiDate(dateStr: string): Date {
   // Create date at noon in Shanghai timezone to avoid timezone offset issues
   return new Date(Date.UTC(year, month - 1, day, 4, 0, 0) + (8 * 60 * 60 * 1000));
 }
+
+/**
+ * Get the last millisecond of today in Shanghai Timezone
+ * Used as the cutoff for "due today" review queues
+ *
+ * @returns {number} Milliseconds timestamp of 23:59:59.999 (UTC+8) today
+ */
+export function getShanghaiEndOfDayTimestamp(): number {
+  const [year, month, day] = getShanghaiDateString().split('-').map(Number);
+  // 24:00 in UTC+8 is 16:00 UTC on the same calendar day
+  return Date.UTC(year, month - 1, day, 16, 0, 0) - 1;
+}
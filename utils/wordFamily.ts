@@ -0,0 +1,310 @@
+/**
+ * Word Families (morphology)
+ *
+ * Groups library words that share a root — act / action / active /
+ * activity — using the Hunspell affix data in public/dictionaries/en.aff,
+ * read from LocalProvider's nspell instance (`spell.data` holds every stem
+ * with its affix flags, `spell.rules` the parsed PFX/SFX rules).
+ *
+ * A word's lemma is found by walking affix derivations back to their stem
+ * (actively ← active ← act). Stems Hunspell lists on their own (activity,
+ * action) fall back to stripping a common derivational suffix and checking
+ * that the remainder is a dictionary stem.
+ *
+ * The same data drives the derivation drill: for a prompt word and a target
+ * part of speech, every family form of that class is an accepted answer.
+ */
+
+import type { DerivationKind, FamilyDrillPrompt, FamilyDrillResult, FamilyDrillSummary, WordEntry, WordFamily } from '../types';
+
+export interface AffixEntry {
+  add: string;
+  /** '' when nothing is removed (nspell keeps the empty string) */
+  remove: RegExp | string;
+  match: RegExp | string;
+  continuation: string[];
+}
+
+export interface AffixRule {
+  type: 'PFX' | 'SFX';
+  combineable: boolean;
+  entries: AffixEntry[];
+}
+
+/** The parts of an nspell instance the family index reads */
+export interface AffixDictionary {
+  /** Every accepted form; stems carry their affix flags, derived forms [] */
+  stems: Record<string, string[]>;
+  rules: Record<string, AffixRule>;
+}
+
+export const FAMILY_DRILL_WORDS = 8;
+
+/** Derivational flags in en.aff and the word class they produce */
+export const DERIVATION_FLAGS: Record<string, DerivationKind> = {
+  N: 'noun',      // -ion
+  P: 'noun',      // -ness
+  L: 'noun',      // -ment
+  V: 'adjective', // -ive
+  B: 'adjective', // -able
+  Y: 'adverb',    // -ly
+  U: 'opposite',  // un-
+  I: 'opposite',  // in-
+  E: 'opposite',  // dis-
+};
+
+/** Inflectional flags (plural, tense, comparison, possessive): lemma only */
+const INFLECTION_FLAGS = new Set(['S', 'D', 'G', 'J', 'T', 'R', 'Z', 'M', 'X', 'H']);
+
+/**
+ * Derivational suffixes Hunspell doesn't encode as flags (it lists activity
+ * and action as stems of their own). Longest first.
+ */
+const SUFFIX_LINKS: { suffix: string; kind: Exclude<DerivationKind, 'opposite'> }[] = [
+  { suffix: 'ation', kind: 'noun' },
+  { suffix: 'ition', kind: 'noun' },
+  { suffix: 'ment', kind: 'noun' },
+  { suffix: 'ness', kind: 'noun' },
+  { suffix: 'able', kind: 'adjective' },
+  { suffix: 'ible', kind: 'adjective' },
+  { suffix: 'less', kind: 'adjective' },
+  { suffix: 'ion', kind: 'noun' },
+  { suffix: 'ity', kind: 'noun' },
+  { suffix: 'ive', kind: 'adjective' },
+  { suffix: 'ous', kind: 'adjective' },
+  { suffix: 'ful', kind: 'adjective' },
+  { suffix: 'al', kind: 'adjective' },
+  { suffix: 'ly', kind: 'adverb' },
+  { suffix: 'or', kind: 'noun' },
+];
+const MIN_ROOT_LENGTH = 3;
+const MAX_LEMMA_DEPTH = 4;
+
+interface LemmaLink {
+  stem: string;
+  flag: string;
+}
+
+interface FamilyForm {
+  form: string;
+  kind: DerivationKind;
+}
+
+const normalizeText = (value: string) => value.trim().toLowerCase();
+
+const isSingleWord = (text: string) => /^[a-z][a-z'-]*$/.test(normalizeText(text));
+
+const testAffix = (pattern: RegExp | string, value: string) =>
+  !pattern || (typeof pattern === 'string' ? value.includes(pattern) : pattern.test(value));
+
+/** One affix rule applied to `word`, ignoring continuation classes */
+export const applyAffixRule = (word: string, rule: AffixRule): string[] => {
+  const forms: string[] = [];
+  for (const entry of rule.entries) {
+    if (!testAffix(entry.match, word)) continue;
+    const base = entry.remove ? word.replace(entry.remove, '') : word;
+    forms.push(rule.type === 'SFX' ? base + entry.add : entry.add + base);
+  }
+  return forms;
+};
+
+// Built once per dictionary: derived form -> the stem (and flag) it came from
+const lemmaIndexCache = new WeakMap<AffixDictionary, Map<string, LemmaLink>>();
+
+const getLemmaIndex = (dictionary: AffixDictionary) => {
+  const cached = lemmaIndexCache.get(dictionary);
+  if (cached) return cached;
+
+  const index = new Map<string, LemmaLink>();
+  for (const [stem, flags] of Object.entries(dictionary.stems)) {
+    if (flags.length === 0 || !/^[a-z]/.test(stem)) continue;
+    for (const flag of flags) {
+      if (!(flag in DERIVATION_FLAGS) && !INFLECTION_FLAGS.has(flag)) continue;
+      const rule = dictionary.rules[flag];
+      if (!rule) continue;
+      for (const form of applyAffixRule(stem, rule)) {
+        // Keep the shortest stem when several produce the same form
+        const existing = index.get(form);
+        if (form !== stem && (!existing || stem.length < existing.stem.length)) {
+          index.set(form, { stem, flag });
+        }
+      }
+    }
+  }
+  lemmaIndexCache.set(dictionary, index);
+  return index;
+};
+
+const isDictionaryWord = (dictionary: AffixDictionary, word: string) =>
+  Object.prototype.hasOwnProperty.call(dictionary.stems, word);
+
+/** Undo a derivational suffix the affix file doesn't encode (activity → active) */
+const stripSuffix = (word: string, dictionary: AffixDictionary): { root: string; kind: DerivationKind } | null => {
+  for (const { suffix, kind } of SUFFIX_LINKS) {
+    if (!word.endsWith(suffix)) continue;
+    const base = word.slice(0, -suffix.length);
+    // Two-letter suffixes need a longer root (total is not tot + al)
+    if (base.length < MIN_ROOT_LENGTH + (suffix.length <= 2 ? 1 : 0)) continue;
+    const candidates = [base, `${base}e`, base.replace(/i$/, 'y')];
+    const root = candidates.find((candidate) => candidate !== word && (dictionary.stems[candidate]?.length ?? 0) > 0);
+    if (root) return { root, kind };
+  }
+  return null;
+};
+
+/** The root a word's family is keyed by: act for actively, activity and action */
+export const getWordLemma = (text: string, dictionary: AffixDictionary): string => {
+  const index = getLemmaIndex(dictionary);
+  let current = normalizeText(text);
+  for (let depth = 0; depth < MAX_LEMMA_DEPTH; depth += 1) {
+    const link = index.get(current);
+    // A flagged stem is only folded into another stem by a suffix
+    // derivation: number is not numb + -er, inform is not in- + form
+    const isOwnStem = (dictionary.stems[current]?.length ?? 0) > 0;
+    const isSuffixDerivation = link != null && link.flag in DERIVATION_FLAGS && dictionary.rules[link.flag]?.type === 'SFX';
+    if (link && (!isOwnStem || isSuffixDerivation)) {
+      current = link.stem;
+      continue;
+    }
+    const stripped = stripSuffix(current, dictionary);
+    if (!stripped) break;
+    current = stripped.root;
+  }
+  return current;
+};
+
+/** Word class a form was derived into, when its morphology says so */
+export const getDerivationKind = (text: string, dictionary: AffixDictionary): DerivationKind | null => {
+  const word = normalizeText(text);
+  const link = getLemmaIndex(dictionary).get(word);
+  if (link && link.flag in DERIVATION_FLAGS) return DERIVATION_FLAGS[link.flag];
+  return stripSuffix(word, dictionary)?.kind ?? null;
+};
+
+/** Derivations the affix flags of `stem` produce, tagged with their class */
+const expandDerivations = (stem: string, dictionary: AffixDictionary): FamilyForm[] => {
+  const forms: FamilyForm[] = [];
+  for (const flag of dictionary.stems[stem] || []) {
+    const kind = DERIVATION_FLAGS[flag];
+    const rule = dictionary.rules[flag];
+    if (!kind || !rule) continue;
+    applyAffixRule(stem, rule).forEach((form) => forms.push({ form, kind }));
+  }
+  return forms;
+};
+
+/**
+ * Library words grouped by lemma. Only families with at least two distinct
+ * words are returned; phrases are left out.
+ */
+export const groupWordFamilies = (words: WordEntry[], dictionary: AffixDictionary): WordFamily[] => {
+  const byRoot = new Map<string, Map<string, WordEntry>>();
+  for (const word of words) {
+    if (!isSingleWord(word.text)) continue;
+    const text = normalizeText(word.text);
+    if (!isDictionaryWord(dictionary, text)) continue;
+    const root = getWordLemma(text, dictionary);
+    const members = byRoot.get(root) || new Map<string, WordEntry>();
+    if (!members.has(text)) members.set(text, word);
+    byRoot.set(root, members);
+  }
+
+  return Array.from(byRoot.entries())
+    .filter(([, members]) => members.size >= 2)
+    .map(([root, members]) => ({
+      root,
+      members: Array.from(members.values()).sort((a, b) => a.text.length - b.text.length || a.text.localeCompare(b.text)),
+    }))
+    .sort((a, b) => a.root.localeCompare(b.root));
+};
+
+/** Word id → its family, for the library grid */
+export const indexWordFamilies = (families: WordFamily[]): Map<string, WordFamily> => {
+  const index = new Map<string, WordFamily>();
+  families.forEach((family) => family.members.forEach((member) => index.set(member.id, family)));
+  return index;
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let index = result.length - 1; index > 0; index -= 1) {
+    const swapIndex = Math.floor(random() * (index + 1));
+    [result[index], result[swapIndex]] = [result[swapIndex], result[index]];
+  }
+  return result;
+};
+
+/**
+ * One drill prompt per usable library word: produce the family member of a
+ * different class (act → noun: action). Library members are preferred as
+ * the expected answer so the drill links words the learner already owns;
+ * opposites only come from the prompt word's own prefix flags.
+ */
+export const buildFamilyDrillPrompts = (
+  words: WordEntry[],
+  dictionary: AffixDictionary,
+  count: number = FAMILY_DRILL_WORDS,
+  random: () => number = Math.random,
+): FamilyDrillPrompt[] => {
+  const libraryByText = new Map<string, WordEntry>();
+  words.forEach((word) => {
+    if (isSingleWord(word.text)) libraryByText.set(normalizeText(word.text), word);
+  });
+  const families = groupWordFamilies(words, dictionary);
+  const familyByRoot = new Map(families.map((family) => [family.root, family]));
+
+  const prompts: FamilyDrillPrompt[] = [];
+  for (const word of shuffle(Array.from(libraryByText.values()), random)) {
+    if (prompts.length >= count) break;
+    const text = normalizeText(word.text);
+    if (!isDictionaryWord(dictionary, text)) continue;
+    const root = getWordLemma(text, dictionary);
+    const ownKind = getDerivationKind(text, dictionary);
+
+    const forms: FamilyForm[] = [
+      ...expandDerivations(root, dictionary).filter((f) => f.kind !== 'opposite'),
+      ...expandDerivations(text, dictionary),
+    ];
+    familyByRoot.get(root)?.members.forEach((member) => {
+      const kind = getDerivationKind(member.text, dictionary);
+      if (kind) forms.push({ form: normalizeText(member.text), kind });
+    });
+
+    const byKind = new Map<DerivationKind, Set<string>>();
+    forms
+      .filter((f) => f.form !== text && f.kind !== ownKind && isDictionaryWord(dictionary, f.form))
+      .forEach((f) => byKind.set(f.kind, (byKind.get(f.kind) || new Set<string>()).add(f.form)));
+    if (byKind.size === 0) continue;
+
+    // Prefer a class the learner has a library word for
+    const kinds = shuffle(Array.from(byKind.keys()), random);
+    const targetKind = kinds.find((kind) => Array.from(byKind.get(kind)!).some((form) => libraryByText.has(form))) || kinds[0];
+    const answers = Array.from(byKind.get(targetKind)!).sort();
+    const expected = answers.find((form) => libraryByText.has(form)) || answers[0];
+
+    prompts.push({
+      wordId: word.id,
+      baseWord: word.text,
+      meaningZh: word.definition_cn?.trim() || null,
+      targetKind,
+      answers,
+      expected,
+      answerWordId: libraryByText.get(expected)?.id ?? null,
+    });
+  }
+  return prompts;
+};
+
+export const checkFamilyAnswer = (prompt: FamilyDrillPrompt, typed: string) =>
+  prompt.answers.includes(normalizeText(typed));
+
+export const calculateFamilyDrillSummary = (results: FamilyDrillResult[]): FamilyDrillSummary => {
+  const wordsTotal = results.length;
+  const wordsCorrect = results.filter((r) => r.correct).length;
+  return {
+    wordsCorrect,
+    wordsTotal,
+    accuracyRate: wordsTotal > 0 ? Number((wordsCorrect / wordsTotal).toFixed(4)) : 0,
+    results,
+  };
+};
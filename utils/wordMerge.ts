@@ -0,0 +1,171 @@
+/**
+ * Word Merge
+ *
+ * Field-level three-way merge for one word edited on two devices (say a
+ * phone on the subway and a laptop at home). `base` is the row the local
+ * edit started from, `local` the edited row, `remote` what the server holds
+ * now. Each field merges by its own rule:
+ *
+ * - Counters (error_count): commutative. The local delta is replayed on top
+ *   of the remote value, so both devices' mistakes count.
+ * - tags: set merge. Local additions and removals apply to the remote set.
+ * - Text and meaning fields: last writer wins, decided by version vectors in
+ *   words.field_versions. An edit that already saw the other side's write
+ *   wins outright; truly concurrent edits fall back to the edit time, then
+ *   the device id, so every device settles on the same value.
+ *
+ * Only fields the local side changed are written back, so a stale copy never
+ * clobbers progress made elsewhere.
+ */
+
+import type { VersionVector, WordEntry, WordFieldStamp, WordFieldVersions } from '../types';
+
+export const WORD_LWW_FIELDS = [
+  'text',
+  'language',
+  'definition_cn',
+  'definition_en',
+  'meaning_options',
+  'selected_meaning_key',
+] as const;
+
+export const WORD_COUNTER_FIELDS = ['error_count'] as const;
+
+export type WordLwwField = typeof WORD_LWW_FIELDS[number];
+export type WordCounterField = typeof WORD_COUNTER_FIELDS[number];
+
+/** The parts of a word row the merge reads */
+export type WordMergeState = Partial<Pick<WordEntry, WordLwwField | WordCounterField | 'tags' | 'field_versions'>>;
+
+/** The merge-relevant fields of a loaded word, kept as the base of a later edit */
+export const pickWordMergeState = (word: WordMergeState): WordMergeState => {
+  const state: WordMergeState = {};
+  for (const field of [...WORD_LWW_FIELDS, ...WORD_COUNTER_FIELDS, 'tags', 'field_versions'] as const) {
+    if (word[field] !== undefined) (state as Record<string, unknown>)[field] = word[field];
+  }
+  return state;
+};
+
+export type WordMergePatch = Partial<Pick<WordEntry, WordLwwField | WordCounterField | 'tags'>> & {
+  field_versions?: WordFieldVersions;
+};
+
+export interface WordMergeResult {
+  patch: WordMergePatch;  // Fields to write to the server row; empty = nothing to do
+  conflicts: WordLwwField[];  // Fields both sides changed to different values
+}
+
+export type VersionOrder = 'equal' | 'before' | 'after' | 'concurrent';
+
+/** How vector `a` relates to `b`: 'after' = a has seen every edit b has, and more */
+export const compareVersionVectors = (a: VersionVector = {}, b: VersionVector = {}): VersionOrder => {
+  let aAhead = false;
+  let bAhead = false;
+  for (const device of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const av = a[device] ?? 0;
+    const bv = b[device] ?? 0;
+    if (av > bv) aAhead = true;
+    if (bv > av) bAhead = true;
+  }
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+};
+
+export const mergeVersionVectors = (a: VersionVector = {}, b: VersionVector = {}): VersionVector => {
+  const merged: VersionVector = { ...a };
+  for (const [device, count] of Object.entries(b)) {
+    merged[device] = Math.max(merged[device] ?? 0, count);
+  }
+  return merged;
+};
+
+export const bumpVersionVector = (vv: VersionVector = {}, device: string): VersionVector => ({
+  ...vv,
+  [device]: (vv[device] ?? 0) + 1,
+});
+
+// Null, undefined and '' all mean "no value" in the words table
+const sameValue = (a: unknown, b: unknown): boolean => {
+  const norm = (v: unknown) => (v === undefined || v === '' ? null : v);
+  const x = norm(a);
+  const y = norm(b);
+  if (x === y) return true;
+  if (typeof x === 'object' && typeof y === 'object') return JSON.stringify(x) === JSON.stringify(y);
+  return false;
+};
+
+/** Whether a local stamp beats the remote one for the same field */
+const localWins = (local: WordFieldStamp, remote: WordFieldStamp | undefined): boolean => {
+  if (!remote) return true;
+  const order = compareVersionVectors(local.vv, remote.vv);
+  if (order === 'after') return true;
+  if (order === 'before') return false;
+  if (local.at !== remote.at) return local.at > remote.at;
+  return local.device > remote.device;
+};
+
+const mergeTags = (base: string[] = [], local: string[] = [], remote: string[] = []): string[] => {
+  const added = local.filter(tag => !base.includes(tag));
+  const removed = new Set(base.filter(tag => !local.includes(tag)));
+  const merged = remote.filter(tag => !removed.has(tag));
+  added.forEach(tag => { if (!merged.includes(tag)) merged.push(tag); });
+  return merged;
+};
+
+/**
+ * Merge a local edit into the remote row.
+ * @param device - This device's id, stamped on the fields it wins
+ * @param now - Edit time, used only to break ties between concurrent edits
+ */
+export const mergeWordEdits = (
+  base: WordMergeState,
+  local: WordMergeState,
+  remote: WordMergeState,
+  device: string,
+  now: number = Date.now()
+): WordMergeResult => {
+  const patch: WordMergePatch = {};
+  const conflicts: WordLwwField[] = [];
+  const remoteStamps = remote.field_versions ?? {};
+  const baseStamps = base.field_versions ?? {};
+  const nextStamps: WordFieldVersions = { ...remoteStamps };
+  let stampsChanged = false;
+
+  for (const field of WORD_COUNTER_FIELDS) {
+    const delta = (local[field] ?? 0) - (base[field] ?? 0);
+    if (delta !== 0) patch[field] = Math.max(0, (remote[field] ?? 0) + delta);
+  }
+
+  if (!sameValue(local.tags ?? [], base.tags ?? [])) {
+    const tags = mergeTags(base.tags, local.tags, remote.tags);
+    if (!sameValue(tags, remote.tags ?? [])) patch.tags = tags;
+  }
+
+  for (const field of WORD_LWW_FIELDS) {
+    if (sameValue(local[field], base[field])) continue;
+
+    const stamp: WordFieldStamp = { vv: bumpVersionVector(baseStamps[field]?.vv, device), at: now, device };
+    const remoteStamp = remoteStamps[field];
+    const remoteChanged = !sameValue(remote[field], base[field]);
+
+    if (remoteChanged && sameValue(remote[field], local[field])) {
+      // Both sides made the same edit: nothing to write but the combined history
+      nextStamps[field] = { ...stamp, vv: mergeVersionVectors(stamp.vv, remoteStamp?.vv) };
+      stampsChanged = true;
+      continue;
+    }
+    if (remoteChanged) {
+      conflicts.push(field);
+      if (!localWins(stamp, remoteStamp)) continue;
+    }
+
+    (patch as Record<string, unknown>)[field] = local[field] ?? null;
+    nextStamps[field] = { ...stamp, vv: mergeVersionVectors(stamp.vv, remoteStamp?.vv) };
+    stampsChanged = true;
+  }
+
+  if (stampsChanged) patch.field_versions = nextStamps;
+  return { patch, conflicts };
+};
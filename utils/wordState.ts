@@ -0,0 +1,50 @@
+/**
+ * Word Study State
+ *
+ * A word can be taken out of rotation without deleting it:
+ *   - suspended: paused by the learner until resumed
+ *   - buried:    hidden until `buried_until` passes (e.g. "not today")
+ *   - known:     the learner already knows it; it stays in the library
+ *                (and counts towards library completeness) but is never tested
+ *
+ * Every word selector (Puzzle / Scene candidates, the adaptive selector,
+ * the CLASSIC pool and the due-today queue) filters through isWordStudyable.
+ * Kept free of runtime imports so Node tests can load it directly.
+ */
+
+export interface WordStudyStateFields {
+  deleted?: boolean;
+  suspended?: boolean;
+  known?: boolean;
+  buried_until?: number | null;
+}
+
+export type WordStudyState = 'active' | 'suspended' | 'buried' | 'known';
+
+/**
+ * Current study state of a word. When several flags are set the most
+ * permanent one wins: known > suspended > buried.
+ *
+ * @param word - Word state fields
+ * @param now - Timestamp (ms) bury dates are compared against
+ */
+export function getWordStudyState(word: WordStudyStateFields, now: number = Date.now()): WordStudyState {
+  if (word.known) return 'known';
+  if (word.suspended) return 'suspended';
+  if (word.buried_until != null && word.buried_until > now) return 'buried';
+  return 'active';
+}
+
+/**
+ * Whether a word may be selected for any test or game right now.
+ */
+export function isWordStudyable(word: WordStudyStateFields, now: number = Date.now()): boolean {
+  return !word.deleted && getWordStudyState(word, now) === 'active';
+}
+
+/**
+ * Keep only the words that may be selected right now.
+ */
+export function filterStudyableWords<T extends WordStudyStateFields>(words: T[], now: number = Date.now()): T[] {
+  return words.filter(w => isWordStudyable(w, now));
+}